@@ -28,6 +28,11 @@ const FEATURE_INFO = {
     mcpServerName: 'cc-devtools-source-code-mapper',
     description: 'Semantic code search and mapping',
   },
+  search: {
+    name: 'Unified Search',
+    mcpServerName: 'cc-devtools-search',
+    description: 'Search every enabled module at once',
+  },
   clipboard: {
     name: 'Clipboard',
     mcpServerName: 'cc-devtools-clipboard',
@@ -129,7 +134,7 @@ async function getFeatureSelection(
         }
       }
 
-      console.error('\nValid features: kanban, memory, planner, source-code-mapper, clipboard, workflow');
+      console.error('\nValid features: kanban, memory, planner, source-code-mapper, search, clipboard, workflow');
       process.exit(1);
     }
 
@@ -56,7 +56,7 @@ export async function addReviewCommand(
       });
     }
 
-    const review = await addReview(storyId, round, author, content);
+    const review = await addReview(storyId, round, author, content, { source: 'cli' });
 
     return buildSuccess('add-review', {
       success: true,
@@ -0,0 +1,148 @@
+import { computeAnalytics } from '../../../kanban/services/analytics.js';
+import { readHistory } from '../../../kanban/services/history.js';
+import { readAllStories, readConfig } from '../../../kanban/services/storage.js';
+import {
+  ANALYTICS_FORMATS,
+  ANALYTICS_REPORTS,
+  ErrorCodes,
+  type AnalyticsFormat,
+  type AnalyticsReport,
+  type KanbanAnalytics,
+  type KanbanError
+} from '../../../kanban/types.js';
+import { createInvalidInputError } from '../../../shared/errors.js';
+import { getOption } from '../../core/parser.js';
+import { buildSuccess, buildError } from '../../core/response.js';
+import { renderCsv, renderTable } from '../../core/tabular.js';
+
+import type { TabularData } from '../../core/types.js';
+import type { CLIResponse } from '../../types.js';
+
+/**
+ * Flow analytics from the event log: cycle/lead time, throughput, estimate accuracy, cumulative
+ * flow and phase burndown
+ * Usage: analytics [--report=<report>] [--format=json|table|csv] [--since=YYYY-MM-DD] [--until=YYYY-MM-DD] [--phase=<phase>]
+ */
+export async function analyticsCommand(
+  _positional: string[],
+  options: Record<string, string | boolean>
+): Promise<CLIResponse> {
+  try {
+    const format = String(getOption(options, 'format', 'json'));
+    if (!ANALYTICS_FORMATS.includes(format as AnalyticsFormat)) {
+      throw createInvalidInputError(
+        `Invalid format: "${format}". Allowed formats: ${ANALYTICS_FORMATS.join(', ')}`,
+        { allowedFormats: ANALYTICS_FORMATS }
+      );
+    }
+
+    // Tables and CSV hold one report at a time; JSON returns everything by default
+    const defaultReport = format === 'json' ? undefined : 'summary';
+    const report = typeof options.report === 'string' ? options.report : defaultReport;
+    if (report !== undefined && !ANALYTICS_REPORTS.includes(report as AnalyticsReport)) {
+      throw createInvalidInputError(
+        `Invalid report: "${report}". Allowed reports: ${ANALYTICS_REPORTS.join(', ')}`,
+        { allowedReports: ANALYTICS_REPORTS }
+      );
+    }
+
+    const [stories, config, events] = await Promise.all([readAllStories(), readConfig(), readHistory()]);
+    const phase = typeof options.phase === 'string' ? options.phase : undefined;
+    if (phase !== undefined && !config.phases.includes(phase)) {
+      throw createInvalidInputError(
+        `Invalid phase: "${phase}". Allowed phases: ${config.phases.join(', ')}`,
+        { allowedPhases: config.phases }
+      );
+    }
+
+    const analytics = computeAnalytics(stories, events, config, {
+      since: typeof options.since === 'string' ? options.since : undefined,
+      until: typeof options.until === 'string' ? options.until : undefined,
+      phase
+    });
+
+    if (report === undefined) {
+      return buildSuccess('analytics', analytics);
+    }
+
+    const section = selectReport(analytics, report as AnalyticsReport);
+    if (format === 'json') {
+      return buildSuccess('analytics', { since: analytics.since, until: analytics.until, report, data: section });
+    }
+
+    const table = toTabular(analytics, report as AnalyticsReport);
+    return {
+      ...buildSuccess('analytics', { report, data: section }),
+      text: format === 'csv' ? renderCsv(table) : renderTable(table)
+    };
+
+  } catch (error) {
+    const err = error as KanbanError;
+    const additionalData = err.details ?? {};
+    return buildError('analytics', err.message, err.code ?? ErrorCodes.UNKNOWN_ERROR, additionalData);
+  }
+}
+
+function selectReport(analytics: KanbanAnalytics, report: AnalyticsReport): unknown {
+  switch (report) {
+    case 'summary': return analytics.summary;
+    case 'cycle-time': return analytics.stories;
+    case 'throughput': return analytics.throughput;
+    case 'estimates': return analytics.estimates;
+    case 'cfd': return analytics.cumulative_flow;
+    case 'burndown': return analytics.burndown;
+  }
+}
+
+function toTabular(analytics: KanbanAnalytics, report: AnalyticsReport): TabularData {
+  switch (report) {
+    case 'summary':
+      return {
+        columns: ['metric', 'value'],
+        rows: Object.entries(analytics.summary).map(([metric, value]: [string, number | null]) => [metric, value])
+      };
+    case 'cycle-time':
+      return {
+        columns: ['id', 'phase', 'status', 'started_at', 'completed_at', 'cycle_time_days', 'lead_time_days', 'title'],
+        rows: analytics.stories.map(story => [
+          story.id,
+          story.phase,
+          story.status,
+          story.started_at,
+          story.completed_at,
+          story.cycle_time_days,
+          story.lead_time_days,
+          story.title
+        ])
+      };
+    case 'throughput':
+      return {
+        columns: ['week', 'completed'],
+        rows: analytics.throughput.map(week => [week.week, week.completed])
+      };
+    case 'estimates':
+      return {
+        // actual_hours is elapsed time, not effort
+        columns: ['id', 'estimate_hours', 'wall_clock_hours', 'ratio', 'title'],
+        rows: analytics.estimates.map(estimate => [
+          estimate.id,
+          estimate.estimate_hours,
+          estimate.actual_hours,
+          estimate.ratio,
+          estimate.title
+        ])
+      };
+    case 'cfd':
+      return {
+        columns: ['date', ...analytics.statuses],
+        rows: analytics.cumulative_flow.map(point => [point.date, ...analytics.statuses.map(status => point.counts[status] ?? 0)])
+      };
+    case 'burndown':
+      return {
+        columns: ['phase', 'date', 'remaining', 'remaining_hours'],
+        rows: analytics.burndown.flatMap(phase =>
+          phase.points.map(point => [phase.phase, point.date, point.remaining, point.remaining_hours])
+        )
+      };
+  }
+}
@@ -66,7 +66,7 @@ export async function appendStoryFieldCommand(
     Object.assign(story, updates);
     story.updated_at = timestamp;
 
-    await saveStory(story);
+    await saveStory(story, { source: 'cli' });
 
     return buildSuccess('append-story-field', {
       id: story.id,
@@ -73,7 +73,7 @@ export async function appendSubtaskFieldCommand(
     subtask.updated_at = timestamp;
     story.updated_at = timestamp;
 
-    await saveStory(story);
+    await saveStory(story, { source: 'cli' });
 
     return buildSuccess('append-subtask-field', {
       id: subtask.id,
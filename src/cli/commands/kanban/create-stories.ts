@@ -95,7 +95,7 @@ export async function createStoriesCommand(
     const created: Array<{ id: string; title: string }> = [];
     const timestamp = new Date().toISOString();
 
-    // Load config to get the first configured phase as default
+    // Load config for the default phase and status
     const config = await readConfig();
     const defaultPhase = config.phases?.[0];
 
@@ -115,7 +115,7 @@ export async function createStoriesCommand(
         title: storySpec.title,
         description: storySpec.description,
         details: storySpec.details,
-        status: 'todo',
+        status: config.default_status.story,
         business_value: storySpec.business_value,
         phase,
         effort_estimation_hours: storySpec.effort_estimation_hours,
@@ -130,7 +130,7 @@ export async function createStoriesCommand(
         subtasks: []
       };
 
-      await saveStory(story);
+      await saveStory(story, { source: 'cli' });
       created.push({
         id: storyId,
         title: story.title
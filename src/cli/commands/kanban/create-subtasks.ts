@@ -1,4 +1,4 @@
-import { readStory, saveStory, readAllStories } from '../../../kanban/services/storage.js';
+import { readStory, saveStory, readAllStories, readConfig } from '../../../kanban/services/storage.js';
 import { validateDependencyIds } from '../../../kanban/services/validation.js';
 import { ErrorCodes, type Subtask, type KanbanError } from '../../../kanban/types.js';
 import { createNotFoundError, createInvalidInputError } from '../../../shared/errors.js';
@@ -69,7 +69,7 @@ export async function createSubtasksCommand(
     }
 
     // Validate dependencies for all subtasks before creating any
-    const allStories = await readAllStories();
+    const [allStories, config] = await Promise.all([readAllStories(), readConfig()]);
     for (const subtaskSpec of input.subtasks) {
       if (subtaskSpec.dependent_upon && subtaskSpec.dependent_upon.length > 0) {
         const validation = validateDependencyIds(
@@ -111,7 +111,7 @@ export async function createSubtasksCommand(
         title: subtaskSpec.title,
         description: subtaskSpec.description,
         details: subtaskSpec.details,
-        status: 'todo',
+        status: config.default_status.subtask,
         effort_estimation_hours: subtaskSpec.effort_estimation_hours,
         completion_timestamp: undefined,
         dependent_upon: subtaskSpec.dependent_upon ?? [],
@@ -146,7 +146,7 @@ export async function createSubtasksCommand(
       }
     }
 
-    await saveStory(story);
+    await saveStory(story, { source: 'cli' });
 
     const summary = {
       count: created.length,
@@ -29,7 +29,7 @@ export async function deleteStoryCommand(
       );
     }
 
-    const deletedStory = await deleteStory(storyId);
+    const deletedStory = await deleteStory(storyId, { source: 'cli' });
 
     if (!deletedStory) {
       throw createNotFoundError(`Story ${storyId} not found`);
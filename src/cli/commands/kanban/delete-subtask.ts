@@ -46,7 +46,7 @@ export async function deleteSubtaskCommand(
     story.subtasks!.splice(subtaskIndex, 1);
     story.updated_at = new Date().toISOString();
 
-    await saveStory(story);
+    await saveStory(story, { source: 'cli' });
 
     return buildSuccess('delete-subtask', {
       deleted: {
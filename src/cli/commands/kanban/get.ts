@@ -5,7 +5,7 @@ import {
   getVerboseField
 } from '../../../kanban/services/formatters.js';
 import { analyzeProgress, suggestStatusChange } from '../../../kanban/services/recommendation.js';
-import { readStory, parseId } from '../../../kanban/services/storage.js';
+import { readStory, readConfig, parseId } from '../../../kanban/services/storage.js';
 import { ErrorCodes, type KanbanError, type OutputMode } from '../../../kanban/types.js';
 import { createNotFoundError, createInvalidInputError } from '../../../shared/errors.js';
 import { validatePositionalArgs } from '../../core/parser.js';
@@ -28,7 +28,7 @@ export async function getCommand(
 
     const id = positional[0];
     const parsed = parseId(id);
-    const story = await readStory(parsed.storyId);
+    const [story, config] = await Promise.all([readStory(parsed.storyId), readConfig()]);
 
     if (!story) {
       throw createNotFoundError(`Story ${parsed.storyId} not found`);
@@ -78,7 +78,7 @@ export async function getCommand(
     const outputMode: OutputMode = isFullMode ? 'full' : 'condensed';
 
     if (parsed.type === 'story') {
-      const progress = analyzeProgress(story);
+      const progress = analyzeProgress(story, config);
       const suggestion = suggestStatusChange(story, 'story');
       const formattedSubtasks = (story.subtasks ?? []).map(st =>
         formatSubtaskOutput(st, outputMode)
@@ -98,7 +98,7 @@ export async function getCommand(
       const result: Record<string, unknown> = {
         type: 'story',
         item: formatStoryOutput(story, outputMode),
-        formatted: formatStoryCard(story),
+        formatted: formatStoryCard(story, config),
         progress,
         subtasks: formattedSubtasks,
         nextActions
@@ -116,7 +116,7 @@ export async function getCommand(
         throw createNotFoundError(`Subtask ${id} not found`);
       }
 
-      const progress = analyzeProgress(story);
+      const progress = analyzeProgress(story, config);
       const suggestion = suggestStatusChange(subtask, 'subtask');
 
       const nextActions: string[] = [];
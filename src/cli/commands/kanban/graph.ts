@@ -0,0 +1,58 @@
+import { buildDependencyGraph, toDot, toMermaid } from '../../../kanban/services/graph.js';
+import { readAllStories, readConfig } from '../../../kanban/services/storage.js';
+import { ErrorCodes, GRAPH_FORMATS, type GraphFormat, type KanbanError } from '../../../kanban/types.js';
+import { createInvalidInputError } from '../../../shared/errors.js';
+import { getOption } from '../../core/parser.js';
+import { buildSuccess, buildError } from '../../core/response.js';
+
+import type { CLIResponse } from '../../types.js';
+
+/**
+ * Dependency graph of stories (and optionally subtasks) with cycles and the critical path
+ * Usage: graph [ID] [--format=json|dot|mermaid] [--phase=<phase>] [--subtasks]
+ */
+export async function graphCommand(
+  positional: string[],
+  options: Record<string, string | boolean>
+): Promise<CLIResponse> {
+  try {
+    const format = String(getOption(options, 'format', 'json'));
+    if (!GRAPH_FORMATS.includes(format as GraphFormat)) {
+      throw createInvalidInputError(
+        `Invalid format: "${format}". Allowed formats: ${GRAPH_FORMATS.join(', ')}`,
+        { allowedFormats: GRAPH_FORMATS }
+      );
+    }
+
+    const [stories, config] = await Promise.all([readAllStories(), readConfig()]);
+    const phase = typeof options.phase === 'string' ? options.phase : undefined;
+    if (phase !== undefined && !config.phases.includes(phase)) {
+      throw createInvalidInputError(
+        `Invalid phase: "${phase}". Allowed phases: ${config.phases.join(', ')}`,
+        { allowedPhases: config.phases }
+      );
+    }
+
+    const focus = positional[0];
+    const graph = buildDependencyGraph(stories, config, {
+      phase,
+      // Focusing on a subtask only makes sense with subtasks in the graph
+      subtasks: options.subtasks === true || /-\d+-\d+$/.test(focus ?? ''),
+      focus
+    });
+
+    if (format === 'json') {
+      return buildSuccess('graph', graph);
+    }
+
+    return {
+      ...buildSuccess('graph', { cycles: graph.cycles, critical_path: graph.critical_path }),
+      text: format === 'dot' ? toDot(graph) : toMermaid(graph)
+    };
+
+  } catch (error) {
+    const err = error as KanbanError;
+    const additionalData = err.details ?? {};
+    return buildError('graph', err.message, err.code ?? ErrorCodes.UNKNOWN_ERROR, additionalData);
+  }
+}
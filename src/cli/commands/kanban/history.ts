@@ -0,0 +1,68 @@
+import { readHistory } from '../../../kanban/services/history.js';
+import { parseId } from '../../../kanban/services/storage.js';
+import { ErrorCodes, KANBAN_EVENT_TYPES, type KanbanError, type KanbanEventType } from '../../../kanban/types.js';
+import { createInvalidInputError } from '../../../shared/errors.js';
+import { validatePositionalArgs } from '../../core/parser.js';
+import { buildSuccess, buildError } from '../../core/response.js';
+
+import type { CLIResponse } from '../../types.js';
+
+/**
+ * Show the event log of a story (including its subtasks) or a subtask, oldest first
+ * Usage: history <ID> [--type=<type1,type2>] [--limit=<number>]
+ */
+export async function historyCommand(
+  positional: string[],
+  options: Record<string, string | boolean>
+): Promise<CLIResponse> {
+  try {
+    const usage = 'history <ID> [--type=<type1,type2>] [--limit=<number>]';
+    const validation = validatePositionalArgs(positional, 1, usage);
+    if (!validation.valid) {
+      throw createInvalidInputError(validation.error ?? '', { usage });
+    }
+
+    const id = positional[0];
+    const parsed = parseId(id);
+
+    const types = typeof options.type === 'string'
+      ? options.type.split(',').map(type => type.trim()).filter(Boolean)
+      : [];
+    const unknownTypes = types.filter(type => !KANBAN_EVENT_TYPES.includes(type as KanbanEventType));
+    if (unknownTypes.length > 0) {
+      throw createInvalidInputError(
+        `Invalid event type: ${unknownTypes.join(', ')}. Allowed types: ${KANBAN_EVENT_TYPES.join(', ')}`,
+        { allowedTypes: KANBAN_EVENT_TYPES }
+      );
+    }
+
+    const limit = typeof options.limit === 'string' ? parseInt(options.limit, 10) : undefined;
+    if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+      throw createInvalidInputError(
+        `Invalid limit: "${String(options.limit)}". Must be a positive integer.`,
+        { usage }
+      );
+    }
+
+    let events = await readHistory(id);
+    if (types.length > 0) {
+      events = events.filter(event => types.includes(event.type));
+    }
+    const total = events.length;
+    if (limit !== undefined) {
+      events = events.slice(-limit);
+    }
+
+    return buildSuccess('history', {
+      id,
+      type: parsed.type,
+      total,
+      events
+    });
+
+  } catch (error) {
+    const err = error as KanbanError;
+    const additionalData = err.details ?? {};
+    return buildError('history', err.message, err.code ?? ErrorCodes.UNKNOWN_ERROR, additionalData);
+  }
+}
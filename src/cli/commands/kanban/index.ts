@@ -8,6 +8,7 @@ import { outputAndExit, buildError } from '../../core/response.js';
 import { formatErrorWithSuggestions } from '../../core/suggestions.js';
 
 import { addReviewCommand } from './add-review.js';
+import { analyticsCommand } from './analytics.js';
 import { appendStoryFieldCommand } from './append-story-field.js';
 import { appendSubtaskFieldCommand } from './append-subtask-field.js';
 import { configCommand } from './config.js';
@@ -18,6 +19,8 @@ import { deleteSubtaskCommand } from './delete-subtask.js';
 import { getReviewCommand } from './get-review.js';
 import { getRoundReviewersCommand } from './get-round-reviewers.js';
 import { getCommand } from './get.js';
+import { graphCommand } from './graph.js';
+import { historyCommand } from './history.js';
 import { initCommand } from './init.js';
 import { listCommand } from './list.js';
 import { moveCommand } from './move.js';
@@ -33,6 +36,7 @@ import type { ErrorWithCode } from '../../../shared/types/common.js';
 const COMMANDS: Record<string, (pos: string[], opt: Record<string, string | boolean>) => Promise<unknown>> = {
   'list': listCommand,
   'get': getCommand,
+  'history': historyCommand,
   'move': moveCommand,
   'next': nextCommand,
   'search': searchCommand,
@@ -47,6 +51,8 @@ const COMMANDS: Record<string, (pos: string[], opt: Record<string, string | bool
   'delete-subtask': deleteSubtaskCommand,
   'validate': validateCommand,
   'stats': statsCommand,
+  'analytics': analyticsCommand,
+  'graph': graphCommand,
   'init': initCommand,
   'add-review': addReviewCommand,
   'get-review': getReviewCommand,
@@ -61,7 +67,7 @@ Usage:
 
 Commands:
   list [options]                  List and filter stories
-    --filter=<status>             Filter by status (todo, in_progress, in_review, blocked, done, current, all)
+    --filter=<status>             Filter by status (any configured status, current, all)
     --phase=<phase>               Filter by phase (MVP, BETA, POSTRELEASE)
     --label=<label>               Filter by label
     --value=<value>               Filter by business value (XS, S, M, L, XL)
@@ -73,6 +79,10 @@ Commands:
   move <id> <status> [options]    Move story/subtask to new status
     --note="..."                  Add implementation note
 
+  history <id> [options]          Show the change history of a story (with its subtasks) or subtask
+    --type=<type1,type2>          Only these event types (status_changed, field_changed, review_added, ...)
+    --limit=<number>              Only the most recent events
+
   config                          Get kanban configuration (phases, statuses, workflow rules)
 
   update-story <id> [options]     Update story fields (excluding status)
@@ -106,13 +116,14 @@ Commands:
   append-subtask-field <id> <field> <content>
                                   Append content to subtask field (planning_notes, implementation_notes)
 
-  validate <id> <status>          Validate move without executing
+  validate <id> <status>          Validate move without executing (including dependency cycles)
 
   next                            Find next work item (current or recommended)
 
   search <query> [options]        Search stories and subtasks using semantic search
     --limit=<number>              Maximum number of results (default: 5)
-    --similarity-threshold=<num>  Minimum similarity score 0-1 (default: 0.3)
+    --similarity-threshold=<num>  Minimum similarity score 0-1 (default: search.yaml or 0.3)
+    --explain                     Include per-signal score breakdown for each result
     --scope=<scope>               What to search: stories, subtasks, both (default: stories)
     --status=<status>             Filter by status (optional)
     --story=<id>                  Filter subtasks to specific story (optional, only for subtasks scope)
@@ -120,6 +131,18 @@ Commands:
   stats [options]                 Get kanban statistics
     --health-check                Include health check and issues
 
+  analytics [options]             Cycle/lead time, throughput, estimates, cumulative flow and burndown
+    --report=<report>             summary, cycle-time, throughput, estimates, cfd, burndown (default: all)
+    --format=<format>             json (default), table or csv (table/csv default to summary)
+    --since=<YYYY-MM-DD>          First day of the daily series (default: 30 days before --until)
+    --until=<YYYY-MM-DD>          Last day of the daily series (default: today)
+    --phase=<phase>               Only stories of this phase
+
+  graph [id] [options]            Dependency graph, cycles and critical path (of one item's chain with <id>)
+    --format=<format>             json (default), dot (Graphviz) or mermaid
+    --phase=<phase>               Only stories of this phase and what they depend on
+    --subtasks                    Include subtasks and their dependencies
+
   create-stories '<json>'         Create one or more stories from JSON
   create-subtasks <id> '<json>'   Create one or more subtasks for a story
   delete-story <id>               Delete a story and all its subtasks
@@ -149,6 +172,7 @@ Examples:
   npx cc-devtools kanban get MVP-001 --full
   npx cc-devtools kanban get MVP-001 --field=review_feedback
   npx cc-devtools kanban move MVP-001 in_progress
+  npx cc-devtools kanban history MVP-001 --type=status_changed
   npx cc-devtools kanban config
   npx cc-devtools kanban search "authentication error handling" --limit=3
   npx cc-devtools kanban search "add tests" --scope=subtasks --story=MVP-001
@@ -157,6 +181,10 @@ Examples:
   npx cc-devtools kanban update-subtask MVP-001-1 --description="Updated desc" --acceptance_criteria="Test 1,Test 2"
   npx cc-devtools kanban next
   npx cc-devtools kanban stats --health-check
+  npx cc-devtools kanban analytics --report=throughput --format=table
+  npx cc-devtools kanban analytics --report=cfd --format=csv --since=2025-01-01 > cfd.csv
+  npx cc-devtools kanban graph --format=dot | dot -Tsvg > dependencies.svg
+  npx cc-devtools kanban graph MVP-003 --format=mermaid
 `;
 
 /**
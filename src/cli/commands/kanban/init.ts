@@ -1,6 +1,8 @@
 import { existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
 
+import { validateRulesConfig } from '../../../kanban/services/rules.js';
+import { getStatusNames, getWipLimit, validateStatusConfig } from '../../../kanban/services/statuses.js';
 import { readKanban, writeKanban, getDefaultConfig } from '../../../kanban/services/storage.js';
 import { ErrorCodes, type Story, type KanbanError } from '../../../kanban/types.js';
 import { buildSuccess, buildError } from '../../core/response.js';
@@ -53,8 +55,8 @@ export async function initCommand(
       writeKanban(defaultData);
       fixes.push('Created default kanban.yaml with the following configuration:');
       fixes.push(`  • Phases: ${defaultConfig.phases.join(', ')}`);
-      fixes.push(`  • Story statuses: ${defaultConfig.statuses.story.join(', ')}`);
-      fixes.push(`  • Subtask statuses: ${defaultConfig.statuses.subtask.join(', ')}`);
+      fixes.push(`  • Story statuses: ${getStatusNames(defaultConfig, 'story').join(', ')}`);
+      fixes.push(`  • Subtask statuses: ${getStatusNames(defaultConfig, 'subtask').join(', ')}`);
       fixes.push(`  • Business values: ${defaultConfig.business_values.join(', ')}`);
       fixes.push(`  • Max stories in progress: ${defaultConfig.workflow_rules.max_stories_in_progress}`);
       fixes.push('');
@@ -91,6 +93,11 @@ export async function initCommand(
         if (!config.statuses.subtask || !Array.isArray(config.statuses.subtask)) {
           issues.push({ type: 'ERROR', message: 'config.statuses.subtask must be an array' });
         }
+        if (Array.isArray(config.statuses.story) && Array.isArray(config.statuses.subtask)) {
+          for (const problem of [...validateStatusConfig(config), ...validateRulesConfig(config)]) {
+            issues.push({ type: 'ERROR', message: problem });
+          }
+        }
       }
     } catch (error) {
       const err = error as Error;
@@ -115,8 +122,8 @@ export async function initCommand(
       }
 
       // Validate status
-      if (config?.statuses?.story) {
-        if (!config.statuses.story.includes(story.status)) {
+      if (Array.isArray(config?.statuses?.story)) {
+        if (!getStatusNames(config, 'story').includes(story.status)) {
           issues.push({ type: 'ERROR', message: `Story ${story.id} has invalid status: ${story.status}` });
         }
       }
@@ -140,8 +147,8 @@ export async function initCommand(
             issues.push({ type: 'ERROR', message: `Subtask ${subtask.id} has invalid ID format (should start with ${story.id}-)` });
           }
 
-          if (config?.statuses?.subtask) {
-            if (!config.statuses.subtask.includes(subtask.status)) {
+          if (Array.isArray(config?.statuses?.subtask)) {
+            if (!getStatusNames(config, 'subtask').includes(subtask.status)) {
               issues.push({ type: 'ERROR', message: `Subtask ${subtask.id} has invalid status: ${subtask.status}` });
             }
           }
@@ -149,14 +156,19 @@ export async function initCommand(
       }
     }
 
-    // Check workflow violations
-    const inProgress = stories.filter(s => s.status === 'in_progress');
-    if (config?.workflow_rules?.max_stories_in_progress) {
-      if (inProgress.length > config.workflow_rules.max_stories_in_progress) {
-        issues.push({
-          type: 'WARNING',
-          message: `Workflow violation: ${inProgress.length} stories in progress (max: ${config.workflow_rules.max_stories_in_progress})`
-        });
+    // Check workflow violations (WIP limits of story statuses)
+    if (Array.isArray(config?.statuses?.story) && config.workflow_rules) {
+      for (const status of getStatusNames(config, 'story')) {
+        const limit = getWipLimit(config, 'story', status);
+        const count = stories.filter(s => s.status === status).length;
+        if (limit !== undefined && count > limit) {
+          issues.push({
+            type: 'WARNING',
+            message: status === 'in_progress'
+              ? `Workflow violation: ${count} stories in progress (max: ${limit})`
+              : `Workflow violation: ${count} stories in ${status} (WIP limit: ${limit})`
+          });
+        }
       }
     }
 
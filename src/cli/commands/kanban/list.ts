@@ -1,8 +1,8 @@
 import { formatStoryCard } from '../../../kanban/services/formatters.js';
 import { filterStories, findCurrentWork, groupByStatus, groupByPhase } from '../../../kanban/services/query.js';
 import { analyzeProgress } from '../../../kanban/services/recommendation.js';
-import { readAllStories } from '../../../kanban/services/storage.js';
-import { ErrorCodes, type Story, type KanbanError } from '../../../kanban/types.js';
+import { readAllStories, readConfig } from '../../../kanban/services/storage.js';
+import { ErrorCodes, type KanbanError } from '../../../kanban/types.js';
 import { buildSuccess, buildError } from '../../core/response.js';
 
 import type { CLIResponse } from '../../types.js';
@@ -15,7 +15,7 @@ export async function listCommand(
   options: Record<string, string | boolean>
 ): Promise<CLIResponse> {
   try {
-    const allStories = await readAllStories();
+    const [allStories, config] = await Promise.all([readAllStories(), readConfig()]);
 
     if (options.filter === 'current') {
       const current = findCurrentWork(allStories);
@@ -27,8 +27,8 @@ export async function listCommand(
         });
       }
 
-      const progress = analyzeProgress(current.story);
-      const formatted = formatStoryCard(current.story);
+      const progress = analyzeProgress(current.story, config);
+      const formatted = formatStoryCard(current.story, config);
 
       return buildSuccess('list', {
         current: {
@@ -55,10 +55,10 @@ export async function listCommand(
     }
 
     const filtered = Object.keys(criteria).length > 0
-      ? filterStories(allStories, criteria)
+      ? filterStories(allStories, criteria, config)
       : allStories;
 
-    const grouped = groupByStatus(filtered);
+    const grouped = groupByStatus(filtered, config);
     const byPhase = groupByPhase(filtered);
 
     const summary = {
@@ -68,7 +68,7 @@ export async function listCommand(
       byValue: {} as Record<string, number>
     };
 
-    for (const [status, storyList] of Object.entries(grouped) as Array<[string, Story[]]>) {
+    for (const [status, storyList] of Object.entries(grouped)) {
       if (storyList.length > 0) {
         summary.byStatus[status] = storyList.length;
       }
@@ -87,7 +87,7 @@ export async function listCommand(
     }
     summary.byValue = valueCounts;
 
-    const formattedStories = filtered.map(formatStoryCard);
+    const formattedStories = filtered.map(story => formatStoryCard(story, config));
 
     return buildSuccess('list', {
       stories: filtered,
@@ -1,6 +1,7 @@
+import { applyStatus } from '../../../kanban/services/statuses.js';
 import { readAllStories, readStory, readConfig, parseId, saveStory } from '../../../kanban/services/storage.js';
 import { validateStoryMove, validateSubtaskMove, checkSubtasksComplete } from '../../../kanban/services/validation.js';
-import { ErrorCodes, type StoryStatus, type SubtaskStatus, type KanbanError } from '../../../kanban/types.js';
+import { ErrorCodes, type KanbanError } from '../../../kanban/types.js';
 import { createNotFoundError, createInvalidInputError, createValidationError } from '../../../shared/errors.js';
 import { validatePositionalArgs } from '../../core/parser.js';
 import { buildSuccess, buildError } from '../../core/response.js';
@@ -38,27 +39,20 @@ export async function moveCommand(
     if (parsed.type === 'story') {
       // Validate story move
       const [allStories, config] = await Promise.all([readAllStories(), readConfig()]);
-      const validationResult = await validateStoryMove(story.id, newStatus as StoryStatus, allStories, config);
+      const validationResult = await validateStoryMove(story.id, newStatus, allStories, config);
 
       if (!validationResult.valid) {
         throw createValidationError(validationResult.error ?? '', {
-          rule: validationResult.blockingStories ? 'max_in_progress' : 'subtasks_complete',
+          rule: validationResult.violations?.[0]?.rule ?? 'invalid_move',
           blockingStories: validationResult.blockingStories ?? [],
-          incompleteSubtasks: validationResult.incompleteSubtasks ?? []
+          incompleteSubtasks: validationResult.incompleteSubtasks ?? [],
+          violations: validationResult.violations ?? []
         });
       }
 
       // Execute move
       oldStatus = story.status;
-      story.status = newStatus as StoryStatus;
-      story.updated_at = timestamp;
-
-      // Set completion timestamp
-      if (newStatus === 'done') {
-        story.completion_timestamp = timestamp;
-      } else if (oldStatus === 'done') {
-        story.completion_timestamp = undefined;
-      }
+      applyStatus(story, newStatus, 'story', config, timestamp);
 
       // Add note if provided
       if (note) {
@@ -66,9 +60,9 @@ export async function moveCommand(
         story.implementation_notes = (story.implementation_notes ?? '') + noteText;
       }
 
-      await saveStory(story);
+      await saveStory(story, { source: 'cli' });
 
-      const allSubtasksComplete = checkSubtasksComplete(story).complete;
+      const allSubtasksComplete = checkSubtasksComplete(story, config).complete;
 
       return buildSuccess('move', {
         id: story.id,
@@ -96,26 +90,19 @@ export async function moveCommand(
       }
 
       const [allStories, config] = await Promise.all([readAllStories(), readConfig()]);
-      const validationResult = await validateSubtaskMove(id, newStatus as SubtaskStatus, allStories, config);
+      const validationResult = await validateSubtaskMove(id, newStatus, allStories, config);
 
       if (!validationResult.valid) {
         throw createValidationError(validationResult.error ?? '', {
-          rule: 'parent_in_progress',
-          parentStatus: story.status
+          rule: validationResult.violations?.[0]?.rule ?? 'invalid_move',
+          parentStatus: story.status,
+          violations: validationResult.violations ?? []
         });
       }
 
       // Execute move
       oldStatus = subtask.status;
-      subtask.status = newStatus as SubtaskStatus;
-      subtask.updated_at = timestamp;
-
-      // Set completion timestamp
-      if (newStatus === 'done') {
-        subtask.completion_timestamp = timestamp;
-      } else if (oldStatus === 'done') {
-        subtask.completion_timestamp = undefined;
-      }
+      applyStatus(subtask, newStatus, 'subtask', config, timestamp);
 
       // Add note if provided
       if (note) {
@@ -126,9 +113,9 @@ export async function moveCommand(
       // Update parent story timestamp
       story.updated_at = timestamp;
 
-      await saveStory(story);
+      await saveStory(story, { source: 'cli' });
 
-      const allSubtasksComplete = checkSubtasksComplete(story).complete;
+      const allSubtasksComplete = checkSubtasksComplete(story, config).complete;
 
       return buildSuccess('move', {
         id: subtask.id,
@@ -16,7 +16,7 @@ export async function nextCommand(
   try {
     const allStories = await readAllStories();
     const config = await readConfig();
-    const next = getNextWorkItem(allStories, config.phases);
+    const next = getNextWorkItem(allStories, config.phases, config);
 
     if (!next) {
       return buildSuccess('next', {
@@ -30,7 +30,7 @@ export async function nextCommand(
     if (next.reason === 'Currently in progress' ||
         next.reason === 'Currently in progress (no subtasks)' ||
         next.reason.includes('parent in progress')) {
-      const progress = next.story ? analyzeProgress(next.story) : null;
+      const progress = next.story ? analyzeProgress(next.story, config) : null;
 
       return buildSuccess('next', {
         hasCurrentWork: true,
@@ -47,7 +47,7 @@ export async function nextCommand(
 
     // All subtasks complete - ready for review
     if (next.reason === 'All subtasks complete - ready for review') {
-      const progress = analyzeProgress(next.item as Story);
+      const progress = analyzeProgress(next.item as Story, config);
 
       return buildSuccess('next', {
         hasCurrentWork: true,
@@ -63,9 +63,9 @@ export async function nextCommand(
 
     // Recommended next story
     if (next.reason === 'Recommended next story') {
-      const ranked = rankTodoStories(allStories, config.phases);
+      const ranked = rankTodoStories(allStories, config.phases, config);
       const alternatives = ranked.slice(1, 4).map(r => ({
-        story: formatStoryCard(r.story),
+        story: formatStoryCard(r.story, config),
         score: r.score,
         reasons: r.reasons
       }));
@@ -74,7 +74,7 @@ export async function nextCommand(
         hasCurrentWork: false,
         recommended: {
           story: next.item as Story,
-          formatted: formatStoryCard(next.item as Story),
+          formatted: formatStoryCard(next.item as Story, config),
           score: next.score,
           reasons: next.reasons
         },
@@ -7,7 +7,6 @@ import { readAllStories } from '../../../kanban/services/storage.js';
 import { getOption } from '../../core/parser.js';
 import { buildSuccess, buildError } from '../../core/response.js';
 
-import type { StoryStatus, SubtaskStatus } from '../../../kanban/types.js';
 import type { ErrorWithCode } from '../../../shared/types/common.js';
 
 /**
@@ -31,9 +30,11 @@ export async function searchCommand(
 
     // Parse options
     const limit = parseInt(getOption(options, 'limit', '5'), 10);
-    const similarityThreshold = parseFloat(getOption(options, 'similarity-threshold', '0.3'));
+    const thresholdRaw = getOption<string | undefined>(options, 'similarity-threshold', undefined);
+    const similarityThreshold = thresholdRaw !== undefined ? parseFloat(String(thresholdRaw)) : undefined;
+    const explain = getOption<string | boolean>(options, 'explain', false) === true;
     const scopeRaw = getOption(options, 'scope', 'stories');
-    const status = getOption(options, 'status', undefined) as StoryStatus | SubtaskStatus | undefined;
+    const status = getOption(options, 'status', undefined) as string | undefined;
     const storyId = getOption(options, 'story', undefined);
 
     // Validate scope
@@ -56,11 +57,11 @@ export async function searchCommand(
       );
     }
 
-    // Validate similarity threshold
-    if (isNaN(similarityThreshold) || similarityThreshold < 0 || similarityThreshold > 1) {
+    // Validate similarity threshold (when omitted, cc-devtools/search.yaml or 0.3 applies)
+    if (similarityThreshold !== undefined && (isNaN(similarityThreshold) || similarityThreshold < 0 || similarityThreshold > 1)) {
       return buildError(
         'search',
-        `Invalid similarity-threshold: "${getOption(options, 'similarity-threshold', '0.3')}". Must be between 0 and 1.`,
+        `Invalid similarity-threshold: "${String(thresholdRaw)}". Must be between 0 and 1.`,
         'INVALID_INPUT'
       );
     }
@@ -84,7 +85,8 @@ export async function searchCommand(
       similarityThreshold,
       scope,
       status,
-      storyId
+      storyId,
+      explain
     });
 
     return buildSuccess('search', { results });
@@ -1,5 +1,9 @@
+import { computeAnalytics } from '../../../kanban/services/analytics.js';
 import { getDaysSince } from '../../../kanban/services/formatters.js';
+import { findDependencyCycles } from '../../../kanban/services/graph.js';
+import { readHistory } from '../../../kanban/services/history.js';
 import { groupByStatus, groupByPhase } from '../../../kanban/services/query.js';
+import { isTerminalStatus } from '../../../kanban/services/statuses.js';
 import { readAllStories, readConfig } from '../../../kanban/services/storage.js';
 import { checkMaxInProgress } from '../../../kanban/services/validation.js';
 import { ErrorCodes, type Story, type KanbanError } from '../../../kanban/types.js';
@@ -38,9 +42,11 @@ export async function statsCommand(
   try {
     const allStories = await readAllStories() as StoryWithMeta[];
     const healthCheck = options['health-check'] || false;
+    // Read config once for all statistics and health checks to avoid nested locking
+    const config = await readConfig();
 
     // Calculate statistics
-    const grouped = groupByStatus(allStories);
+    const grouped = groupByStatus(allStories, config);
     const byPhase = groupByPhase(allStories);
 
     // Distribution
@@ -51,7 +57,7 @@ export async function statsCommand(
       byValue: {}
     };
 
-    for (const [status, statusStories] of Object.entries(grouped) as Array<[string, Story[]]>) {
+    for (const [status, statusStories] of Object.entries(grouped)) {
       if (statusStories.length > 0) {
         distribution.byStatus[status] = statusStories.length;
       }
@@ -71,7 +77,7 @@ export async function statsCommand(
     distribution.byValue = valueCounts;
 
     // Progress metrics
-    const completedStories = grouped.done ?? [];
+    const completedStories = allStories.filter(s => isTerminalStatus(config, 'story', s.status));
     const completionRate = allStories.length > 0 ? completedStories.length / allStories.length : 0;
 
     // Velocity (stories completed in last 7 days)
@@ -129,7 +135,7 @@ export async function statsCommand(
     for (const story of allStories) {
       if (story.subtasks) {
         totalSubtaskCount += story.subtasks.length;
-        completedSubtaskCount += story.subtasks.filter(st => st.status === 'done').length;
+        completedSubtaskCount += story.subtasks.filter(st => isTerminalStatus(config, 'subtask', st.status)).length;
       }
     }
 
@@ -170,7 +176,7 @@ export async function statsCommand(
       if (!s.dependent_upon || s.dependent_upon.length === 0) return true;
       return s.dependent_upon.every(depId => {
         const dep = allStories.find(st => st.id === depId);
-        return dep && dep.status === 'done';
+        return dep && isTerminalStatus(config, 'story', dep.status);
       });
     }).length;
 
@@ -183,13 +189,16 @@ export async function statsCommand(
     // Time analysis
     const todoStories = grouped.todo ?? [];
 
-    // Note: created_at is not part of the core Story type, so time analysis is limited
+    // Cycle and lead times over the last 30 days, from the event log (see `kanban analytics`)
+    const { summary } = computeAnalytics(allStories, await readHistory(), config);
     const oldestTodo = null;
-    const avgTimeToComplete = null;
+    const avgTimeToComplete = summary.avg_lead_time_days;
 
     const time = {
       oldestTodo,
-      avgTimeToComplete
+      avgTimeToComplete,
+      avgCycleTimeDays: summary.avg_cycle_time_days,
+      throughputPerWeek: summary.avg_throughput_per_week
     };
 
     const stats = {
@@ -206,8 +215,6 @@ export async function statsCommand(
     let health = null;
 
     if (healthCheck) {
-      // Read config once for all health checks to avoid nested locking
-      const config = await readConfig();
       const issues: Array<{
         severity: string;
         type: string;
@@ -235,7 +242,7 @@ export async function statsCommand(
       const inProgressStories = grouped.in_progress ?? [];
       for (const story of inProgressStories) {
         if (story.subtasks && story.subtasks.length > 0) {
-          const allComplete = story.subtasks.every(st => st.status === 'done');
+          const allComplete = story.subtasks.every(st => isTerminalStatus(config, 'subtask', st.status));
           if (allComplete) {
             issues.push({
               severity: 'CRITICAL',
@@ -291,6 +298,16 @@ export async function statsCommand(
         }
       }
 
+      // Issue 5: Dependency cycles, which keep every item in them blocked
+      for (const cycle of findDependencyCycles(allStories, config)) {
+        issues.push({
+          severity: 'CRITICAL',
+          type: 'DEPENDENCY_CYCLE',
+          message: `Dependency cycle: ${[...cycle, cycle[0]].join(' → ')}`,
+          solution: 'Remove one of the dependent_upon links; see npx cc-devtools kanban graph --format=mermaid'
+        });
+      }
+
       health = {
         healthy: issues.length === 0,
         issues,
@@ -149,7 +149,7 @@ export async function updateStoryCommand(
     Object.assign(story, updates);
     story.updated_at = timestamp;
 
-    await saveStory(story);
+    await saveStory(story, { source: 'cli' });
 
     return buildSuccess('update-story', {
       id: story.id,
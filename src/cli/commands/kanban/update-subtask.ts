@@ -131,7 +131,7 @@ export async function updateSubtaskCommand(
     subtask.updated_at = timestamp;
     story.updated_at = timestamp;
 
-    await saveStory(story);
+    await saveStory(story, { source: 'cli' });
 
     return buildSuccess('update-subtask', {
       id: subtask.id,
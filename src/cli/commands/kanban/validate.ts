@@ -1,6 +1,7 @@
+import { getRules } from '../../../kanban/services/rules.js';
 import { readAllStories, readStory, readConfig, parseId } from '../../../kanban/services/storage.js';
 import { validateStoryMove, validateSubtaskMove } from '../../../kanban/services/validation.js';
-import { ErrorCodes, type StoryStatus, type SubtaskStatus, type KanbanError } from '../../../kanban/types.js';
+import { ErrorCodes, type KanbanError } from '../../../kanban/types.js';
 import { createNotFoundError, createInvalidInputError } from '../../../shared/errors.js';
 import { validatePositionalArgs } from '../../core/parser.js';
 import { buildSuccess, buildError } from '../../core/response.js';
@@ -38,7 +39,7 @@ export async function validateCommand(
     let currentStatus: string;
 
     if (parsed.type === 'story') {
-      validationResult = await validateStoryMove(story.id, newStatus as StoryStatus, allStories, config);
+      validationResult = await validateStoryMove(story.id, newStatus, allStories, config);
       currentStatus = story.status;
     } else {
       const subtask = story.subtasks?.find(st => st.id === id);
@@ -46,7 +47,7 @@ export async function validateCommand(
         throw createNotFoundError(`Subtask ${id} not found`);
       }
 
-      validationResult = await validateSubtaskMove(id, newStatus as SubtaskStatus, allStories, config);
+      validationResult = await validateSubtaskMove(id, newStatus, allStories, config);
       currentStatus = subtask.status;
     }
 
@@ -57,11 +58,12 @@ export async function validateCommand(
         rule: 'max_in_progress',
         passed: !validationResult.blockingStories || validationResult.blockingStories.length === 0,
         reason: validationResult.blockingStories && validationResult.blockingStories.length > 0
-          ? `Story ${validationResult.blockingStories[0].id} is already in progress`
-          : 'No stories in progress'
+          ? `Story ${validationResult.blockingStories[0].id} is already ${newStatus}`
+          : `WIP limit for ${newStatus} not reached`
       });
 
-      if (newStatus === 'in_review' || newStatus === 'done') {
+      // Only report the subtask check for statuses the board's rules gate on it
+      if (getRules(config).some(rule => rule.type === 'subtasks_complete' && rule.status === newStatus)) {
         checks.push({
           rule: 'subtasks_complete',
           passed: !validationResult.incompleteSubtasks || validationResult.incompleteSubtasks.length === 0,
@@ -71,15 +73,21 @@ export async function validateCommand(
         });
       }
     } else {
+      const parent = validationResult.violations?.find(violation => violation.rule === 'parent_in_progress');
       checks.push({
         rule: 'parent_in_progress',
-        passed: validationResult.valid || story.status === 'in_progress',
-        reason: story.status === 'in_progress'
-          ? 'Parent story is in progress'
-          : `Parent story is in status: ${story.status}`
+        passed: !parent,
+        reason: parent ? parent.message : `Parent story is in status: ${story.status}`
       });
     }
 
+    const cycle = validationResult.violations?.find(violation => violation.rule === 'dependency_cycle');
+    checks.push({
+      rule: 'dependency_cycle',
+      passed: !cycle,
+      reason: cycle ? cycle.message : 'No dependency cycle'
+    });
+
     if (validationResult.valid) {
       return buildSuccess('validate', {
         valid: true,
@@ -99,6 +107,7 @@ export async function validateCommand(
         error: validationResult.error,
         blockingStories: validationResult.blockingStories ?? [],
         incompleteSubtasks: validationResult.incompleteSubtasks ?? [],
+        violations: validationResult.violations ?? [],
         checks
       });
     }
@@ -0,0 +1,100 @@
+/**
+ * Memory dedupe command - Find and merge clusters of near-duplicate memories
+ */
+
+import { generateMemoryEmbedding, initializeModel } from '../../../memory/core/embeddings.js';
+import { readEmbeddings, readMemories, readMemoryConfig, saveEmbeddings } from '../../../memory/core/storage.js';
+import { findDuplicateClusters, parseDuplicateThreshold } from '../../../memory/services/duplicates.js';
+import { filterActiveMemories } from '../../../memory/services/lifecycle.js';
+import { mergeMemories } from '../../../memory/tools/merge.js';
+import { lazyRegenerateEmbeddings } from '../../../shared/hybrid-search.js';
+import { getOption } from '../../core/parser.js';
+import { confirm } from '../../utils/prompts.js';
+
+import type { DuplicateCluster } from '../../../memory/types.js';
+
+/**
+ * Print one cluster, oldest memory first (the one that is kept)
+ */
+function printCluster(cluster: DuplicateCluster, index: number, total: number): void {
+  console.log(`\nCluster ${index + 1}/${total} (similarity ${cluster.similarity.toFixed(2)}):`);
+  cluster.memories.forEach((memory, i) => {
+    const marker = i === 0 ? 'keep ' : 'merge';
+    const date = new Date(memory.created_at).toLocaleDateString();
+    console.log(`  [${marker}] ${memory.id}  ${memory.summary}  (${date})`);
+  });
+}
+
+/**
+ * Dedupe command handler
+ * Interactive by default; --auto merges every cluster without asking, --dry-run only lists them.
+ */
+export async function dedupeCommand(options: Record<string, string | boolean>): Promise<void> {
+  const auto = Boolean(getOption(options, 'auto', false));
+  const dryRun = Boolean(getOption(options, 'dry-run', false));
+  const thresholdOption = getOption<string | boolean | undefined>(options, 'threshold', undefined);
+
+  let threshold: number;
+  try {
+    threshold = thresholdOption === undefined
+      ? readMemoryConfig().duplicate_threshold
+      : parseDuplicateThreshold(Number(thresholdOption));
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  const memories = filterActiveMemories(readMemories());
+  if (memories.length < 2) {
+    console.log('Not enough memories to compare.');
+    return;
+  }
+
+  let embeddings = readEmbeddings();
+  if (memories.some(m => !(m.id in embeddings))) {
+    console.log('Generating missing embeddings...');
+    try {
+      await initializeModel();
+    } catch (_error) {
+      console.log('Embedding model unavailable; memories without embeddings will be skipped.');
+    }
+    embeddings = await lazyRegenerateEmbeddings(memories, embeddings, generateMemoryEmbedding, saveEmbeddings);
+  }
+
+  const clusters = findDuplicateClusters(memories, embeddings, threshold);
+  if (clusters.length === 0) {
+    console.log(`No duplicate memories found (threshold ${threshold}).`);
+    return;
+  }
+
+  console.log(`Found ${clusters.length} duplicate cluster(s) (threshold ${threshold}).`);
+
+  let mergedClusters = 0;
+  let removed = 0;
+
+  for (const [index, cluster] of clusters.entries()) {
+    printCluster(cluster, index, clusters.length);
+
+    if (dryRun) {
+      continue;
+    }
+
+    if (!auto && !(await confirm('Merge this cluster?', false))) {
+      continue;
+    }
+
+    const result = await mergeMemories({ ids: cluster.memories.map(m => m.id) });
+    mergedClusters++;
+    removed += result.merged_ids?.length ?? 0;
+    if (result.warning) {
+      console.log(`  ${result.warning}`);
+    }
+  }
+
+  if (dryRun) {
+    console.log('\nDry run - nothing was merged.');
+    return;
+  }
+
+  console.log(`\nMerged ${mergedClusters} cluster(s), removed ${removed} duplicate memories.`);
+}
@@ -0,0 +1,60 @@
+/**
+ * Memory command - Maintenance for stored memories
+ */
+
+import { parseArgs } from '../../core/parser.js';
+import { formatErrorWithSuggestions } from '../../core/suggestions.js';
+
+import { dedupeCommand } from './dedupe.js';
+
+function showHelp(): void {
+  console.log(`
+Memory - Maintenance for stored memories
+
+Usage:
+  npx cc-devtools memory <subcommand> [options]
+
+Subcommands:
+  dedupe [options]         Find clusters of near-duplicate memories and merge them
+                          (the oldest memory in each cluster is kept)
+    --auto                 Merge every cluster without asking
+    --dry-run              Only list the clusters
+    --threshold=<0-1>      Similarity threshold (default: config.duplicate_threshold
+                          in memory.yaml, or 0.92)
+
+  help                     Show this help message
+
+Examples:
+  npx cc-devtools memory dedupe
+  npx cc-devtools memory dedupe --auto
+  npx cc-devtools memory dedupe --dry-run --threshold=0.85
+`);
+}
+
+/**
+ * Memory command handler
+ */
+export async function memoryCommand(args: string[]): Promise<void> {
+  if (args.length === 0 || args[0] === 'help' || args[0] === '--help' || args[0] === '-h') {
+    showHelp();
+    return;
+  }
+
+  const { command: subcommand, options } = parseArgs(args);
+
+  switch (subcommand) {
+    case 'dedupe':
+      await dedupeCommand(options);
+      break;
+
+    default: {
+      const availableSubcommands = ['dedupe', 'help'];
+      const errorMessage = formatErrorWithSuggestions(subcommand ?? '', availableSubcommands, {
+        type: 'subcommand',
+        helpCommand: 'npx cc-devtools memory help',
+      });
+      console.error(`Error: ${errorMessage}`);
+      process.exit(1);
+    }
+  }
+}
@@ -30,6 +30,12 @@ const FEATURE_INFO = {
     dataPath: 'cc-devtools/.cache/source-code-index.msgpack',
     description: 'Semantic code search and mapping',
   },
+  search: {
+    name: 'Unified Search',
+    mcpServerName: 'cc-devtools-search',
+    dataPath: '', // Reads other modules' data
+    description: 'Search every enabled module at once',
+  },
   clipboard: {
     name: 'Clipboard',
     mcpServerName: 'cc-devtools-clipboard',
@@ -133,7 +139,7 @@ async function getFeatureSelection(
         }
       }
 
-      console.error('\nValid features: kanban, memory, planner, source-code-mapper, clipboard, workflow');
+      console.error('\nValid features: kanban, memory, planner, source-code-mapper, search, clipboard, workflow');
       process.exit(1);
     }
 
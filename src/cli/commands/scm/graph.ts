@@ -0,0 +1,71 @@
+/**
+ * SCM graph command - Export the file dependency graph and report import cycles
+ */
+
+import { existsSync, writeFileSync } from 'fs';
+import { join, relative } from 'path';
+
+import { loadIndex } from '../../../source-code-mapper/core/storage.js';
+import { buildDependencyGraph, formatGraph } from '../../../source-code-mapper/services/graph.js';
+import { resolveIndexImports } from '../../../source-code-mapper/services/resolver.js';
+import { GRAPH_FORMATS } from '../../../source-code-mapper/types.js';
+import { getOption } from '../../core/parser.js';
+
+import type { GraphFormat } from '../../../source-code-mapper/types.js';
+
+/**
+ * Graph command handler
+ * Prints the graph (or writes it with --output=<file>); --cycles lists import cycles instead
+ * and exits non-zero when there are any, for use in CI.
+ */
+export async function graphCommand(options: Record<string, string | boolean>): Promise<void> {
+  const cwd = process.cwd();
+  const indexPath = join(cwd, 'cc-devtools', '.cache', 'source-code-index.msgpack');
+  const format = getOption<string | boolean>(options, 'format', 'dot');
+  const output = getOption<string | boolean | undefined>(options, 'output', undefined);
+
+  if (!GRAPH_FORMATS.includes(format as GraphFormat)) {
+    console.error(`Error: Unknown format "${String(format)}". Use one of: ${GRAPH_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+
+  if (!existsSync(indexPath)) {
+    console.error('No index found. The index will be created automatically when the MCP server starts.');
+    process.exit(1);
+  }
+
+  const index = await loadIndex(indexPath);
+  if (!index) {
+    console.error('Failed to load index or index is corrupted.');
+    process.exit(1);
+  }
+
+  // Resolve against the current tsconfig/package.json files rather than those seen at indexing
+  resolveIndexImports(index);
+  const graph = buildDependencyGraph(index, { runtimeOnly: options['runtime-only'] === true });
+
+  if (options.cycles === true) {
+    if (graph.cycles.length === 0) {
+      console.log('No import cycles found.');
+      return;
+    }
+    console.log(`Found ${graph.cycles.length} import cycle(s):\n`);
+    for (const cycle of graph.cycles) {
+      console.log(`  ${cycle.map((file) => relative(cwd, file)).join(' <-> ')}`);
+    }
+    process.exit(1);
+  }
+
+  const rendered = formatGraph(graph, format as GraphFormat, cwd);
+  if (typeof output === 'string') {
+    writeFileSync(output, `${rendered}\n`, 'utf-8');
+    console.error(`Wrote ${graph.files.length} files and ${graph.edges.length} dependencies to ${output}`);
+  } else {
+    console.log(rendered);
+  }
+
+  // Summary on stderr so piped output stays valid
+  if (graph.cycles.length > 0) {
+    console.error(`${graph.cycles.length} import cycle(s) found; run with --cycles to list them`);
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * SCM impact command - Show what is affected by changing files
+ */
+
+import { existsSync } from 'fs';
+import { join, relative, resolve } from 'path';
+
+import { loadIndex } from '../../../source-code-mapper/core/storage.js';
+import { analyzeImpact, getChangedFiles } from '../../../source-code-mapper/services/impact.js';
+import { resolveIndexImports } from '../../../source-code-mapper/services/resolver.js';
+import { getOption } from '../../core/parser.js';
+
+import type { ChangedFile, ImpactReport } from '../../../source-code-mapper/types.js';
+
+function printReport(report: ImpactReport, cwd: string): void {
+  const display = (file: string): string => relative(cwd, file) || file;
+
+  console.log(`Changed files (${report.changed.length}):`);
+  for (const change of report.changed) {
+    const lines = change.lines?.map((range) => (range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`));
+    console.log(`  ${display(change.file)}${lines ? ` (lines ${lines.join(', ') || 'none'})` : ''}`);
+  }
+
+  console.log(`\nTouched exported symbols (${report.touchedSymbols.length}):`);
+  for (const symbol of report.touchedSymbols) {
+    console.log(`  ${symbol.type.padEnd(10)} ${symbol.name}  ${display(symbol.file)}:${symbol.line}`);
+  }
+
+  console.log(`\nAffected modules (${report.affected.length}):`);
+  for (const entry of report.affected) {
+    const symbols = entry.symbols?.length ? `  [${entry.symbols.join(', ')}]` : '';
+    console.log(`  ${String(entry.depth).padStart(2)}  ${display(entry.file)}  via ${display(entry.via)}${symbols}`);
+  }
+
+  console.log(`\nTests to run (${report.tests.length}):`);
+  for (const test of report.tests) {
+    console.log(`  ${display(test.file)}  (${test.reason})`);
+  }
+}
+
+/**
+ * Impact command handler
+ * Takes changed files as arguments and/or --ref=<ref> to diff the working tree against; prints
+ * the affected modules and tests, or the full report as JSON with --json.
+ */
+export async function impactCommand(positional: string[], options: Record<string, string | boolean>): Promise<void> {
+  const cwd = process.cwd();
+  const indexPath = join(cwd, 'cc-devtools', '.cache', 'source-code-index.msgpack');
+  const ref = getOption<string | boolean | undefined>(options, 'ref', undefined);
+  const depthOption = getOption<string | boolean | undefined>(options, 'depth', undefined);
+  const depth = typeof depthOption === 'string' ? Number.parseInt(depthOption, 10) : undefined;
+
+  if (positional.length === 0 && typeof ref !== 'string') {
+    console.error('Error: Pass changed files or --ref=<ref>. Usage: npx cc-devtools scm impact <files...> [--ref=<ref>]');
+    process.exit(1);
+  }
+
+  if (depth !== undefined && !(depth >= 1)) {
+    console.error(`Error: Invalid --depth "${String(depthOption)}". Expected a positive number`);
+    process.exit(1);
+  }
+
+  if (!existsSync(indexPath)) {
+    console.error('No index found. The index will be created automatically when the MCP server starts.');
+    process.exit(1);
+  }
+
+  const index = await loadIndex(indexPath);
+  if (!index) {
+    console.error('Failed to load index or index is corrupted.');
+    process.exit(1);
+  }
+  resolveIndexImports(index);
+
+  const changes: ChangedFile[] = positional.map((file) => ({ file: resolve(cwd, file) }));
+  if (typeof ref === 'string') {
+    try {
+      const listed = new Set(changes.map((change) => change.file));
+      changes.push(...getChangedFiles(ref, cwd).filter((change) => !listed.has(change.file)));
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  }
+
+  const report = analyzeImpact(index, changes, depth !== undefined ? { maxDepth: depth } : {});
+
+  if (options.json === true) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  printReport(report, cwd);
+}
@@ -2,13 +2,17 @@
  * Source Code Mapper (SCM) command - Manage code indexing
  */
 
+import { parseArgs } from '../../core/parser.js';
 import { formatErrorWithSuggestions } from '../../core/suggestions.js';
 
+import { graphCommand } from './graph.js';
+import { impactCommand } from './impact.js';
 import { statsCommand } from './stats.js';
+import { unusedCommand } from './unused.js';
 
 function showHelp(): void {
   console.log(`
-Source Code Mapper (SCM) - Code indexing statistics
+Source Code Mapper (SCM) - Code indexing statistics, dependency graph, impact analysis and unused code
 
 Usage:
   npx cc-devtools scm <subcommand> [options]
@@ -17,10 +21,41 @@ Subcommands:
   stats                    Show statistics about the indexed codebase
                           (files indexed, symbols found, breakdown by type)
 
+  graph                    Export the file dependency graph built from resolved imports
+                          (relative paths, tsconfig paths, package.json exports,
+                          Python packages, Go modules); files in import cycles are
+                          highlighted
+    --format=<format>      dot (default), mermaid or json
+    --output=<file>        Write to a file instead of stdout
+    --runtime-only         Leave out type-only imports
+    --cycles               List import cycles and exit 1 if there are any
+
+  impact <files...>        Show what changing files affects: modules that import them
+                          (directly or transitively), exported symbols touched and the
+                          tests most likely to exercise the change
+    --ref=<ref>            Also analyze the working tree diff against a git ref
+                          (only symbols on changed lines count as touched)
+    --depth=<n>            Levels of importers to follow (default: unlimited)
+    --json                 Print the full report as JSON
+
+  unused                   Report exports nothing imports, files unreachable from the
+                          entry points (package.json bin/main/exports, .mcp.json servers,
+                          unused.entry_points in cc-devtools/scm.yaml) and unused imports;
+                          unused.allow in scm.yaml lists public API to leave out
+    --exports              Only report unused exports
+    --files                Only report orphan files
+    --imports              Only report unused imports
+    --json                 Print the report as JSON
+
   help                     Show this help message
 
 Examples:
   npx cc-devtools scm stats
+  npx cc-devtools scm graph --format=mermaid --output=deps.mmd
+  npx cc-devtools scm graph --cycles --runtime-only
+  npx cc-devtools scm impact src/shared/hybrid-search.ts
+  npx cc-devtools scm impact --ref=main --json
+  npx cc-devtools scm unused --files
 `);
 }
 
@@ -34,14 +69,27 @@ export async function scmCommand(args: string[]): Promise<void> {
   }
 
   const subcommand = args[0];
+  const { positional, options } = parseArgs(args);
 
   switch (subcommand) {
     case 'stats':
       await statsCommand();
       break;
 
+    case 'graph':
+      await graphCommand(options);
+      break;
+
+    case 'impact':
+      await impactCommand(positional, options);
+      break;
+
+    case 'unused':
+      await unusedCommand(options);
+      break;
+
     default: {
-      const availableSubcommands = ['stats', 'help'];
+      const availableSubcommands = ['stats', 'graph', 'impact', 'unused', 'help'];
       const errorMessage = formatErrorWithSuggestions(subcommand, availableSubcommands, {
         type: 'subcommand',
         helpCommand: 'npx cc-devtools scm help',
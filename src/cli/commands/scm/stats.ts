@@ -5,8 +5,63 @@
 import { existsSync } from 'fs';
 import { join } from 'path';
 
+import { loadScmConfig } from '../../../source-code-mapper/core/config.js';
+import { countMissingEmbeddings, isIndexStatusStale, readIndexStatus } from '../../../source-code-mapper/core/status.js';
 import { loadIndex } from '../../../source-code-mapper/core/storage.js';
 
+import type { IndexStatus, SkippedFiles, SkipReason } from '../../../source-code-mapper/types.js';
+
+const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  default: 'default patterns',
+  gitignore: '.gitignore',
+  ignore: '.ignore',
+  exclude: 'scm.yaml exclude',
+  binary: 'binary files',
+  'too-large': 'over size limit'
+};
+
+/**
+ * Print the paths the last full scan left out, by reason
+ */
+function printSkipped(skipped: SkippedFiles): void {
+  const reasons = (Object.keys(SKIP_REASON_LABELS) as SkipReason[]).filter((reason) => skipped[reason]);
+  if (reasons.length === 0) {
+    return;
+  }
+
+  console.log('\nSkipped (directories count once):');
+  for (const reason of reasons) {
+    const { count, examples } = skipped[reason] ?? { count: 0, examples: [] };
+    const more = count > examples.length ? ', ...' : '';
+    console.log(`  ${SKIP_REASON_LABELS[reason].padEnd(17)} ${count.toString().padStart(5)}  ${examples.join(', ')}${more}`);
+  }
+}
+
+/**
+ * Print the progress an MCP server last reported for this project
+ */
+function printIndexingStatus(status: IndexStatus): void {
+  console.log('\nIndexing:');
+  if (isIndexStatusStale(status)) {
+    console.log(`  Status:          ${status.phase} (stale: last update ${new Date(status.updatedAt).toLocaleString()}, server pid ${status.pid} likely stopped)`);
+    return;
+  }
+
+  console.log(`  Status:          ${status.phase}`);
+  if (status.phase === 'scanning' || status.phase === 'parsing') {
+    console.log(`  Files checked:   ${status.progress}/${status.total}`);
+  }
+  console.log(`  Changed files:   ${status.changedFiles} re-parsed, ${status.removedFiles} removed`);
+  console.log(`  Embedding mode:  ${status.embeddingMode}`);
+  if (status.pendingEmbeddings > 0) {
+    console.log(`  Embeddings:      ${status.embedded} embedded, ${status.pendingEmbeddings} pending`);
+  }
+  if (status.embeddingError) {
+    console.log(`  Embedding error: ${status.embeddingError}`);
+  }
+  console.log(`  Updated at:      ${new Date(status.updatedAt).toLocaleString()}`);
+}
+
 /**
  * Stats command handler
  */
@@ -34,6 +89,23 @@ export async function statsCommand(): Promise<void> {
   console.log(`Files indexed:     ${index.metadata.fileCount}`);
   console.log(`Symbols found:     ${index.metadata.symbolCount}`);
   console.log(`Indexed at:        ${new Date(index.metadata.indexedAt).toLocaleString()}`);
+  console.log(`Content hashes:    ${index.files.size} files`);
+
+  const missingEmbeddings = countMissingEmbeddings(index);
+  console.log(`Embeddings:        ${index.embeddings.size} embedded, ${missingEmbeddings} missing`);
+
+  try {
+    loadScmConfig(cwd);
+  } catch (error) {
+    console.log(`\nConfig error:      ${error instanceof Error ? error.message : String(error)} (defaults in use)`);
+  }
+
+  printSkipped(index.metadata.skipped ?? {});
+
+  const status = readIndexStatus(cwd);
+  if (status) {
+    printIndexingStatus(status);
+  }
 
   const symbolsByType: Record<string, number> = {};
   for (const symbols of index.symbols.values()) {
@@ -0,0 +1,103 @@
+/**
+ * SCM unused command - Report dead exports, orphan files and unused imports
+ */
+
+import { existsSync } from 'fs';
+import { join, relative } from 'path';
+
+import { loadScmConfig } from '../../../source-code-mapper/core/config.js';
+import { loadIndex } from '../../../source-code-mapper/core/storage.js';
+import { resolveIndexImports } from '../../../source-code-mapper/services/resolver.js';
+import { findUnused } from '../../../source-code-mapper/services/unused.js';
+
+import type { ScmConfigFile, UnusedReport } from '../../../source-code-mapper/types.js';
+
+function printReport(report: UnusedReport, cwd: string, sections: Set<string>): void {
+  const display = (file: string): string => relative(cwd, file) || file;
+
+  console.log(`Entry points (${report.entryPoints.length}):`);
+  for (const entry of report.entryPoints) {
+    console.log(`  ${display(entry)}`);
+  }
+  if (report.entryPoints.length === 0) {
+    console.log('  none found; add unused.entry_points to cc-devtools/scm.yaml to report orphan files');
+  }
+
+  if (sections.has('exports')) {
+    console.log(`\nUnused exports (${report.unusedExports.length}):`);
+    for (const entry of report.unusedExports) {
+      const note = entry.usedInFile ? '  (used in its own file)' : '';
+      console.log(`  ${entry.type.padEnd(10)} ${entry.name}  ${display(entry.file)}:${entry.line}${note}`);
+    }
+  }
+
+  if (sections.has('files')) {
+    console.log(`\nOrphan files (${report.orphanFiles.length}):`);
+    for (const file of report.orphanFiles) {
+      console.log(`  ${display(file)}`);
+    }
+  }
+
+  if (sections.has('imports')) {
+    console.log(`\nUnused imports (${report.unusedImports.length}):`);
+    for (const entry of report.unusedImports) {
+      console.log(`  ${display(entry.file)}  ${entry.name} from ${entry.source}`);
+    }
+  }
+
+  if (report.allowed > 0) {
+    console.log(`\n${report.allowed} allowlisted export(s) and file(s) not shown`);
+  }
+}
+
+/**
+ * Unused command handler
+ * Reports every kind by default; --exports, --files and --imports narrow it down, --json prints
+ * the report as JSON.
+ */
+export async function unusedCommand(options: Record<string, string | boolean>): Promise<void> {
+  const cwd = process.cwd();
+  const indexPath = join(cwd, 'cc-devtools', '.cache', 'source-code-index.msgpack');
+
+  let config: ScmConfigFile;
+  try {
+    config = loadScmConfig(cwd);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  if (!existsSync(indexPath)) {
+    console.error('No index found. The index will be created automatically when the MCP server starts.');
+    process.exit(1);
+  }
+
+  const index = await loadIndex(indexPath);
+  if (!index) {
+    console.error('Failed to load index or index is corrupted.');
+    process.exit(1);
+  }
+  resolveIndexImports(index);
+
+  const report = findUnused(index, {
+    projectRoot: cwd,
+    entryPoints: config.unused?.entry_points,
+    allow: config.unused?.allow
+  });
+
+  const requested = ['exports', 'files', 'imports'].filter((section) => options[section] === true);
+  const sections = new Set(requested.length > 0 ? requested : ['exports', 'files', 'imports']);
+
+  if (options.json === true) {
+    console.log(JSON.stringify({
+      entryPoints: report.entryPoints,
+      allowed: report.allowed,
+      ...(sections.has('exports') ? { unusedExports: report.unusedExports } : {}),
+      ...(sections.has('files') ? { orphanFiles: report.orphanFiles } : {}),
+      ...(sections.has('imports') ? { unusedImports: report.unusedImports } : {})
+    }, null, 2));
+    return;
+  }
+
+  printReport(report, cwd, sections);
+}
@@ -0,0 +1,105 @@
+/**
+ * Search eval command - Measure search quality against labelled queries
+ */
+
+import { join } from 'path';
+
+import { searchModule } from '../../../search/services/modules.js';
+import { initializeModel } from '../../../shared/embeddings.js';
+import { evaluateSearch, loadEvalFile, parseK } from '../../../shared/search-eval.js';
+import { SEARCH_MODULES } from '../../../shared/types/search.js';
+import { getOption } from '../../core/parser.js';
+
+import type { EvalMetrics, EvalQuery, EvalReport, EvalSearchFn } from '../../../shared/types/search-eval.js';
+import type { SearchModule } from '../../../shared/types/search.js';
+
+const DEFAULT_EVAL_FILE = join('cc-devtools', 'search-eval.yaml');
+
+/**
+ * Search functions for every module, returning the IDs used in evaluation files
+ * These run the same per-module searches as devtools_search.
+ */
+function createSearchFns(): Record<SearchModule, EvalSearchFn> {
+  const searchFns = {} as Record<SearchModule, EvalSearchFn>;
+  for (const module of SEARCH_MODULES) {
+    searchFns[module] = async ({ query }, limit): Promise<string[]> =>
+      (await searchModule(module, query, limit)).map(result => result.id);
+  }
+  return searchFns;
+}
+
+function formatMetrics(metrics: EvalMetrics): string {
+  return [metrics.recall, metrics.mrr, metrics.ndcg].map(value => value.toFixed(3).padStart(8)).join('');
+}
+
+function printReport(report: EvalReport): void {
+  const header = `${'Query'.padEnd(48)}${`R@${report.k}`.padStart(8)}${'MRR'.padStart(8)}${`nDCG@${report.k}`.padStart(8)}`;
+
+  let currentModule: SearchModule | undefined;
+  for (const evaluation of report.queries) {
+    if (evaluation.module !== currentModule) {
+      currentModule = evaluation.module;
+      console.log(`\n${currentModule}\n${header}`);
+    }
+
+    const label = evaluation.name ?? evaluation.query;
+    const shortLabel = label.length > 46 ? `${label.slice(0, 43)}...` : label;
+    console.log(`  ${shortLabel.padEnd(46)}${formatMetrics(evaluation)}`);
+
+    if (evaluation.error) {
+      console.log(`    error: ${evaluation.error}`);
+    } else if (evaluation.missing.length > 0) {
+      console.log(`    missing: ${evaluation.missing.join(', ')}`);
+    }
+  }
+
+  console.log(`\nSummary (k=${report.k})\n${'Module'.padEnd(40)}${'Queries'.padStart(8)}${header.slice(48)}`);
+  for (const [module, summary] of Object.entries(report.modules)) {
+    console.log(`  ${module.padEnd(38)}${String(summary.queries).padStart(8)}${formatMetrics(summary)}`);
+  }
+  console.log(`  ${'overall'.padEnd(38)}${String(report.overall.queries).padStart(8)}${formatMetrics(report.overall)}`);
+}
+
+/**
+ * Eval command handler
+ * Reads cc-devtools/search-eval.yaml (or the given file) and prints per-query and per-module
+ * metrics, or the full report as JSON with --json.
+ */
+export async function evalCommand(positional: string[], options: Record<string, string | boolean>): Promise<void> {
+  const json = getOption<string | boolean>(options, 'json', false) === true;
+  const moduleOption = getOption<string | undefined>(options, 'module', undefined);
+  const filePath = positional[0] ?? DEFAULT_EVAL_FILE;
+
+  let queries: EvalQuery[];
+  let k: number;
+  try {
+    const file = loadEvalFile(filePath);
+    const kOption = getOption<string | boolean | undefined>(options, 'k', undefined);
+    k = parseK(kOption ?? file.k ?? 10);
+    queries = moduleOption ? file.queries.filter(q => q.module === moduleOption) : file.queries;
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  if (queries.length === 0) {
+    console.error(`Error: No queries for module "${moduleOption}" in ${filePath}`);
+    process.exit(1);
+  }
+
+  try {
+    await initializeModel();
+  } catch (_error) {
+    // Progress and warnings go to stderr so --json output stays parseable
+    console.error('Embedding model unavailable; results are keyword-only.');
+  }
+
+  const report = await evaluateSearch(queries, createSearchFns(), k);
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  printReport(report);
+}
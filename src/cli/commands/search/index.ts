@@ -0,0 +1,59 @@
+/**
+ * Search command - Tools for search quality across modules
+ */
+
+import { parseArgs } from '../../core/parser.js';
+import { formatErrorWithSuggestions } from '../../core/suggestions.js';
+
+import { evalCommand } from './eval.js';
+
+function showHelp(): void {
+  console.log(`
+Search - Measure search quality across modules
+
+Usage:
+  npx cc-devtools search <subcommand> [options]
+
+Subcommands:
+  eval [file] [options]    Run labelled queries and report recall@k, MRR and nDCG@k
+                          (default file: cc-devtools/search-eval.yaml)
+    --k=<n>                Cut-off for recall and nDCG (default: k in the file, or 10)
+    --module=<name>        Only evaluate queries for one module
+    --json                 Print the full report as JSON, for comparing runs
+
+  help                     Show this help message
+
+Examples:
+  npx cc-devtools search eval
+  npx cc-devtools search eval --module=source-code-mapper --k=5
+  npx cc-devtools search eval --json > before.json
+`);
+}
+
+/**
+ * Search command handler
+ */
+export async function searchCommand(args: string[]): Promise<void> {
+  if (args.length === 0 || args[0] === 'help' || args[0] === '--help' || args[0] === '-h') {
+    showHelp();
+    return;
+  }
+
+  const { command: subcommand, positional, options } = parseArgs(args);
+
+  switch (subcommand) {
+    case 'eval':
+      await evalCommand(positional, options);
+      break;
+
+    default: {
+      const availableSubcommands = ['eval', 'help'];
+      const errorMessage = formatErrorWithSuggestions(subcommand ?? '', availableSubcommands, {
+        type: 'subcommand',
+        helpCommand: 'npx cc-devtools search help',
+      });
+      console.error(`Error: ${errorMessage}`);
+      process.exit(1);
+    }
+  }
+}
@@ -58,7 +58,7 @@ async function getFeatureSelection(providedFeatures?: string[]): Promise<string[
         }
       }
 
-      console.error('\nValid features: kanban, memory, planner, source-code-mapper, documentation-indexer, clipboard, workflow');
+      console.error('\nValid features: kanban, memory, planner, source-code-mapper, documentation-indexer, search, clipboard, workflow');
       process.exit(1);
     }
 
@@ -92,6 +92,11 @@ async function getFeatureSelection(providedFeatures?: string[]): Promise<string[
       value: 'documentation-indexer',
       description: 'Semantic documentation search',
     },
+    {
+      name: 'Unified Search',
+      value: 'search',
+      description: 'Search memories, plans, stories, code and docs at once',
+    },
     {
       name: 'Clipboard',
       value: 'clipboard',
@@ -107,7 +112,7 @@ async function getFeatureSelection(providedFeatures?: string[]): Promise<string[
   return multiSelect(
     'Which features would you like to enable?',
     choices,
-    ['kanban', 'memory', 'planner', 'source-code-mapper', 'documentation-indexer', 'clipboard', 'workflow'], // Default to all features
+    ['kanban', 'memory', 'planner', 'source-code-mapper', 'documentation-indexer', 'search', 'clipboard', 'workflow'], // Default to all features
     {
       workflow: ['kanban'], // Workflow requires kanban
     }
@@ -29,6 +29,12 @@ const FEATURE_INFO = {
     dataPath: 'cc-devtools/.cache/source-code-index.msgpack',
     description: 'Semantic code search and mapping',
   },
+  search: {
+    name: 'Unified Search',
+    mcpServerName: 'cc-devtools-search',
+    dataPath: '', // Reads other modules' data
+    description: 'Search every enabled module at once',
+  },
   clipboard: {
     name: 'Clipboard',
     mcpServerName: 'cc-devtools-clipboard',
@@ -172,7 +172,7 @@ No cc-devtools features are currently enabled. Run \`npx cc-devtools setup\` to
 
   if (enabled['source-code-mapper']) {
     neverAskItems.push(
-      'Finding code/files (cc-devtools-source-code-mapper search_code, get_file_info, query_imports) - **ALWAYS use Source Code Mapper before Grep/Glob/Read for symbol searches**'
+      'Finding code/files (cc-devtools-source-code-mapper search_code, get_file_info, get_symbol_source, query_imports) - **ALWAYS use Source Code Mapper before Grep/Glob/Read for symbol searches**'
     );
   }
 
@@ -286,20 +286,40 @@ No cc-devtools features are currently enabled. Run \`npx cc-devtools setup\` to
 - About to read/edit a file - get structure overview first
 - Need to understand exports/imports before modifying
 - Checking if a file has certain symbols before reading full content
+- Orienting in a large module or directory - pass \`mode: "outline"\` for signatures only, within a token budget
+
+**ALWAYS use \`get_symbol_source\` (cc-devtools-source-code-mapper) when:**
+- You need the body of one function, class or method - read it instead of the whole file (e.g. \`TokenStore.load\`)
+
+**ALWAYS use \`get_symbol_history\` (cc-devtools-source-code-mapper) when:**
+- Asked when or why a function or class changed - it returns the commits touching its lines and their story IDs, instead of digging through git log
 
 **ALWAYS use \`query_imports\` (cc-devtools-source-code-mapper) when:**
 - Before modifying code - understand impact on dependents
 - Finding all usages of a module or file
 - Understanding dependency relationships
 
+**ALWAYS use \`analyze_impact\` (cc-devtools-source-code-mapper) when:**
+- About to change widely imported code - see which modules depend on it transitively
+- Choosing which tests to run after a change (pass \`ref: "HEAD"\` for the working tree diff)
+
+**Use \`find_unused\` (cc-devtools-source-code-mapper) when:**
+- Cleaning up after a refactor - find exports, files and imports nothing uses any more
+- Before deleting code, confirm nothing imports it (dynamic and framework-driven uses can still hide)
+
 **Search modes for \`search_code\`:**
 - \`semantic\` (default): Find by purpose/description ("authentication logic", "user validation")
-- \`exact\`: Exact name match ("handleAuth", "UserService")
+- \`exact\`: Exact name or qualified name match ("handleAuth", "UserService", "TokenStore.load")
 - \`fuzzy\`: Typo-tolerant ("usrSrvce" finds "UserService")
 
 **Filters available:**
-- \`type\`: ['function', 'class', 'interface', 'type', 'const', 'enum']
+- \`type\`: ['function', 'method', 'class', 'interface', 'type', 'const', 'variable', 'enum', 'property', 'field', 'namespace', 'module']
 - \`exported_only\`: true/false
+- \`parent\`: members of one class, interface, namespace or module ("TokenStore")
+- \`path\`, \`language\`, \`name\` (regex), \`exported\`: true/false
+
+**Filters can go in the query itself** for precise lookups without the semantic ranker:
+\`kind:function exported:true path:src/web/** lang:ts name:/^use[A-Z]/ "session"\`. A query of filters alone lists every match.
 
 `;
   }
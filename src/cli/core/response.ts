@@ -59,15 +59,18 @@ function shouldIncludeStackTrace(code: string): boolean {
 
 /**
  * Output response to stdout and exit with appropriate code
+ * Successful responses with pre-rendered text print the text instead of JSON.
  * Ensures stdout is fully flushed before exit (critical for large JSON when piped)
  */
 export function outputAndExit(response: CLIResponse, pretty = false): never {
-  const json = pretty ? JSON.stringify(response, null, 2) : JSON.stringify(response);
+  const output = response.success && response.text !== undefined
+    ? response.text
+    : pretty ? JSON.stringify(response, null, 2) : JSON.stringify(response);
   const exitCode = response.success ? 0 : 1;
 
   // Use process.stdout.write() and wait for drain before exiting
   // This prevents truncation when output is piped and buffer is large
-  if (!process.stdout.write(json + '\n')) {
+  if (!process.stdout.write(output + '\n')) {
     // If write returns false, buffer is full, wait for drain
     process.stdout.once('drain', () => {
       process.exit(exitCode);
@@ -0,0 +1,45 @@
+/**
+ * Table and CSV rendering for commands that offer --format=table|csv
+ */
+
+import type { TabularData, TabularValue } from './types.js';
+
+/**
+ * Render rows as a left-aligned table with a header underline; numbers are right-aligned
+ */
+export function renderTable({ columns, rows }: TabularData): string {
+  const cells = rows.map((row) => columns.map((_, index) => cellText(row[index])));
+  const widths = columns.map((column, index) =>
+    Math.max(column.length, ...cells.map((row) => row[index].length))
+  );
+  const numeric = columns.map((_, index) => rows.length > 0 && rows.every((row) => row[index] === null || row[index] === undefined || typeof row[index] === 'number'));
+
+  const line = (values: string[], header = false): string =>
+    values
+      .map((value, index) => (numeric[index] && !header ? value.padStart(widths[index]) : value.padEnd(widths[index])))
+      .join('  ')
+      .trimEnd();
+
+  return [
+    line(columns, true),
+    line(widths.map((width) => '-'.repeat(width)), true),
+    ...cells.map((row) => line(row))
+  ].join('\n');
+}
+
+/**
+ * Render rows as RFC 4180 CSV with a header row
+ */
+export function renderCsv({ columns, rows }: TabularData): string {
+  return [columns, ...rows.map((row) => columns.map((_, index) => cellText(row[index])))]
+    .map((row) => row.map(csvField).join(','))
+    .join('\n');
+}
+
+function cellText(value: TabularValue): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -8,6 +8,19 @@ export interface Suggestion {
 	confidence: 'high' | 'medium' | 'low';
 }
 
+/**
+ * A cell of tabular CLI output; null and undefined render as empty
+ */
+export type TabularValue = string | number | null | undefined;
+
+/**
+ * Rows rendered as an aligned table or CSV
+ */
+export interface TabularData {
+	columns: string[];
+	rows: TabularValue[][];
+}
+
 /**
  * Format specifications for validation error messages
  * These provide TypeScript-like format descriptions for expected inputs
@@ -5,9 +5,11 @@ import { dirname, join } from 'path';
 import { fileURLToPath } from 'url';
 import { addFeatureCommand } from './commands/add-feature/index.js';
 import { kanbanCommand } from './commands/kanban/index.js';
+import { memoryCommand } from './commands/memory/index.js';
 import { perFileRunnerCommand } from './commands/per-file-runner/index.js';
 import { removeFeatureCommand } from './commands/remove-feature/index.js';
 import { scmCommand } from './commands/scm/index.js';
+import { searchCommand } from './commands/search/index.js';
 import { setupCommand } from './commands/setup/index.js';
 import { statusCommand } from './commands/status/index.js';
 import { suggestOutputStyleCommand } from './commands/suggest-output-style/index.js';
@@ -56,6 +58,14 @@ const commands: Record<string, CommandHandler> = {
     handler: kanbanCommand,
     description: 'Kanban project management commands',
   },
+  'memory': {
+    handler: memoryCommand,
+    description: 'Memory maintenance (find and merge duplicates)',
+  },
+  'search': {
+    handler: searchCommand,
+    description: 'Evaluate search quality against labelled queries',
+  },
   'workflow': {
     handler: workflowCommand,
     description: 'Automated workflow state machine and code review',
@@ -85,8 +95,10 @@ Commands:
   add-feature                 Enable additional features
   remove-feature              Disable features
   suggest-output-style        Generate output-style suggestions for enabled features
-  scm                         Source code mapper - manage code indexing and statistics
+  scm                         Source code mapper - code indexing, dependency graph, impact analysis and unused code
   kanban                      Kanban project management commands
+  memory                      Memory maintenance (find and merge duplicates)
+  search                      Evaluate search quality against labelled queries
   workflow                    Automated workflow state machine and code review
   web                         Start web interface for kanban and code editing
   per-file-runner             Run commands on files matching glob patterns with state tracking
@@ -105,8 +117,13 @@ Examples:
   npx cc-devtools scm install rust go python
   npx cc-devtools scm list
   npx cc-devtools scm stats
+  npx cc-devtools scm graph --format=mermaid
+  npx cc-devtools scm impact --ref=main
+  npx cc-devtools scm unused
   npx cc-devtools kanban list
   npx cc-devtools kanban get MVP-001
+  npx cc-devtools memory dedupe --auto
+  npx cc-devtools search eval --json
   npx cc-devtools workflow check
   npx cc-devtools workflow review
   npx cc-devtools workflow review claude codex
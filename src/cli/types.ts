@@ -49,6 +49,8 @@ export interface SuccessResponse<T = unknown> {
   success: true;
   command: string;
   data: T;
+  /** Pre-rendered output (a table or CSV) printed instead of the JSON response */
+  text?: string;
 }
 
 /**
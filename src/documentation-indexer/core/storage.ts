@@ -8,7 +8,12 @@ import { pack, unpack } from 'msgpackr';
 
 import type { DocIndex, DocChunk } from '../types.js';
 
+import { isCurrentEmbeddingModel } from '../../shared/embedding-cache.js';
+import { getEmbeddingModelInfo } from '../../shared/embedding-providers.js';
 import { withLock } from '../../shared/file-lock.js';
+import { getVectorIndexPath, loadOrBuildVectorIndex, saveVectorIndex } from '../../shared/vector-index.js';
+
+import type { EmbeddingModelInfo } from '../../shared/types/embeddings.js';
 
 const INDEX_VERSION = '1.0.0';
 
@@ -17,6 +22,7 @@ interface SerializedIndex {
   indexedAt: number;
   fileCount: number;
   chunkCount: number;
+  embeddingModel?: EmbeddingModelInfo;
   chunks: Array<[string, DocChunk[]]>;
   embeddings: Array<[string, number[]]>;
 }
@@ -28,12 +34,17 @@ export async function saveIndex(index: DocIndex, indexPath: string): Promise<voi
       indexedAt: index.metadata.indexedAt,
       fileCount: index.metadata.fileCount,
       chunkCount: index.metadata.chunkCount,
+      embeddingModel: getEmbeddingModelInfo() ?? index.metadata.embeddingModel,
       chunks: Array.from(index.chunks.entries()),
       embeddings: Array.from(index.embeddings.entries()).map(([key, embedding]) => [key, Array.from(embedding)])
     };
 
     const packed = pack(serialized);
     writeFileSync(indexPath, packed);
+
+    if (index.vectors) {
+      saveVectorIndex(index.vectors, getVectorIndexPath(indexPath));
+    }
   });
 }
 
@@ -47,7 +58,8 @@ export async function loadIndex(indexPath: string): Promise<DocIndex | null> {
       const buffer = readFileSync(indexPath);
       const serialized = unpack(buffer) as SerializedIndex;
 
-      if (serialized.version !== INDEX_VERSION) {
+      // Vectors from another model can't be compared with new queries, so rebuild
+      if (serialized.version !== INDEX_VERSION || !isCurrentEmbeddingModel(serialized.embeddingModel)) {
         return null;
       }
 
@@ -58,10 +70,13 @@ export async function loadIndex(indexPath: string): Promise<DocIndex | null> {
           version: serialized.version,
           indexedAt: serialized.indexedAt,
           fileCount: serialized.fileCount,
-          chunkCount: serialized.chunkCount
+          chunkCount: serialized.chunkCount,
+          embeddingModel: serialized.embeddingModel
         }
       };
 
+      index.vectors = loadOrBuildVectorIndex(getVectorIndexPath(indexPath), index.embeddings);
+
       return index;
     });
   } catch {
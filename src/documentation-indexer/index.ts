@@ -110,6 +110,11 @@ const SEARCH_DOCS_TOOL: Tool = {
         type: 'number',
         description: 'Maximum number of results (default: 10)',
         default: 10
+      },
+      explain: {
+        type: 'boolean',
+        description: 'Semantic mode only: include each result\'s per-signal score breakdown (keyword/semantic contributions and fusion strategy). Use to debug unexpected rankings.',
+        default: false
       }
     },
     required: ['query']
@@ -5,14 +5,14 @@
 
 import { existsSync, readFileSync } from 'fs';
 import { readdir, stat } from 'fs/promises';
-import { join, relative, extname } from 'path';
-
-import ignore from 'ignore';
+import { join, relative, extname, sep } from 'path';
 
 import type { DocIndex, DocChunk, ScanProgress, ChunkingConfig } from '../types.js';
 import { DOC_EXTENSIONS, DOC_IGNORE_PATTERNS, DEFAULT_CHUNKING_CONFIG } from '../types.js';
 
 import { generateEmbedding } from '../../shared/embeddings.js';
+import { createIgnoreRules } from '../../shared/ignore-rules.js';
+import { addVector, buildVectorIndex, createVectorIndex, removeVector } from '../../shared/vector-index.js';
 
 import { generateContext } from './context-generator.js';
 import {
@@ -43,10 +43,12 @@ export async function scanAndIndexDocumentation(
   config: ChunkingConfig = DEFAULT_CHUNKING_CONFIG
 ): Promise<DocIndex> {
   const files = await findDocumentationFiles(directory);
+  const vectors = createVectorIndex();
 
   const index: DocIndex = {
     chunks: new Map(),
     embeddings: new Map(),
+    vectors,
     metadata: {
       version: '1.0.0',
       indexedAt: Date.now(),
@@ -76,6 +78,7 @@ export async function scanAndIndexDocumentation(
           const embedding = await generateEmbedding(chunk.context);
           if (embedding) {
             index.embeddings.set(chunk.id, new Float32Array(embedding));
+            addVector(vectors, chunk.id, embedding);
           }
         }
       }
@@ -155,6 +158,9 @@ function processFile(file: string, config: ChunkingConfig): DocChunk[] {
  * Update index for specific files (incremental re-indexing)
  */
 export async function updateIndexForFiles(index: DocIndex, files: string[], config: ChunkingConfig = DEFAULT_CHUNKING_CONFIG): Promise<void> {
+  // Indexes saved before vector indexes existed get one built from the embeddings they hold
+  const vectors = (index.vectors ??= buildVectorIndex(index.embeddings));
+
   for (const file of files) {
     try {
       // Remove old chunks and embeddings
@@ -168,6 +174,7 @@ export async function updateIndexForFiles(index: DocIndex, files: string[], conf
       }
       for (const key of keysToDelete) {
         index.embeddings.delete(key);
+        removeVector(vectors, key);
       }
 
       // Re-process if file exists
@@ -181,6 +188,7 @@ export async function updateIndexForFiles(index: DocIndex, files: string[], conf
             const embedding = await generateEmbedding(chunk.context);
             if (embedding) {
               index.embeddings.set(chunk.id, new Float32Array(embedding));
+              addVector(vectors, chunk.id, embedding);
             }
           }
         }
@@ -251,23 +259,16 @@ export async function validateAndSyncIndex(index: DocIndex, projectRoot: string)
  */
 async function findDocumentationFiles(directory: string): Promise<string[]> {
   const files: string[] = [];
-  const ig = ignore().add(DOC_IGNORE_PATTERNS);
-
-  // Load .gitignore if it exists
-  const gitignorePath = join(directory, '.gitignore');
-  if (existsSync(gitignorePath)) {
-    const gitignoreContent = readFileSync(gitignorePath, 'utf-8');
-    ig.add(gitignoreContent);
-  }
+  const ignoreRules = createIgnoreRules(directory, DOC_IGNORE_PATTERNS);
 
   async function scan(dir: string): Promise<void> {
     const entries = await readdir(dir, { withFileTypes: true });
 
     for (const entry of entries) {
       const fullPath = join(dir, entry.name);
-      const relativePath = relative(directory, fullPath);
+      const relativePath = relative(directory, fullPath).split(sep).join('/');
 
-      if (ig.ignores(relativePath)) {
+      if (ignoreRules.match(entry.isDirectory() ? `${relativePath}/` : relativePath)) {
         continue;
       }
 
@@ -7,18 +7,30 @@ import { minimatch } from 'minimatch';
 
 import type { DocIndex, SearchResult, SearchFilters, SearchMode, DocChunk } from '../types.js';
 
-import { generateEmbedding, cosineSimilarity } from '../../shared/embeddings.js';
+import { generateEmbedding } from '../../shared/embeddings.js';
+import { fuseScores } from '../../shared/hybrid-search.js';
+import { loadFusionConfig } from '../../shared/search-config.js';
+import { findNearestVectors } from '../../shared/vector-index.js';
 
 import { generateSearchableText } from './context-generator.js';
 
 const DEFAULT_LIMIT = 10;
 
+// Semantic candidates fetched per requested result, leaving room for keyword merging to reorder them
+const SEMANTIC_CANDIDATES_PER_RESULT = 10;
+const MIN_SEMANTIC_CANDIDATES = 100;
+
+/**
+ * Search documentation chunks; semantic mode fuses keyword and semantic scores as configured
+ * for `documentation-indexer` in cc-devtools/search.yaml, and with explain attaches the breakdown
+ */
 export async function searchDocumentation(
   index: DocIndex,
   query: string,
   mode: SearchMode = 'semantic',
   filters?: SearchFilters,
-  limit: number = DEFAULT_LIMIT
+  limit: number = DEFAULT_LIMIT,
+  explain: boolean = false
 ): Promise<SearchResult[]> {
   let results: SearchResult[] = [];
 
@@ -31,7 +43,7 @@ export async function searchDocumentation(
       break;
     case 'semantic':
     default:
-      results = await semanticSearchWithKeyword(index, query, filters);
+      results = await semanticSearchWithKeyword(index, query, filters, limit, explain);
       break;
   }
 
@@ -84,62 +96,73 @@ function keywordSearch(index: DocIndex, query: string, filters?: SearchFilters):
 /**
  * Semantic search with keyword fallback
  */
-async function semanticSearchWithKeyword(index: DocIndex, query: string, filters?: SearchFilters): Promise<SearchResult[]> {
-  const keywordResults = keywordSearch(index, query, filters);
-  const semanticResults = await semanticSearch(index, query, filters);
-
-  const mergedMap = new Map<string, SearchResult>();
-
-  for (const result of keywordResults) {
-    mergedMap.set(result.id, result);
-  }
-
-  for (const result of semanticResults) {
-    const existing = mergedMap.get(result.id);
-
-    if (existing) {
-      // Boost score when both keyword and semantic match
-      existing.score += result.score;
-      existing.match_reason = `${existing.match_reason} + ${result.match_reason}`;
-    } else {
-      mergedMap.set(result.id, result);
-    }
-  }
-
-  return Array.from(mergedMap.values());
+async function semanticSearchWithKeyword(
+  index: DocIndex,
+  query: string,
+  filters: SearchFilters | undefined,
+  limit: number,
+  explain: boolean
+): Promise<SearchResult[]> {
+  const fusion = loadFusionConfig('documentation-indexer');
+
+  const keywordResults = new Map(keywordSearch(index, query, filters).map((r) => [r.id, r]));
+  const semanticResults = new Map(
+    (await semanticSearch(index, query, filters, limit, fusion.similarity_threshold)).map((r) => [r.id, r])
+  );
+
+  const fused = fuseScores({
+    keyword: new Map(Array.from(keywordResults, ([id, r]) => [id, r.score])),
+    semantic: new Map(Array.from(semanticResults, ([id, r]) => [id, r.score]))
+  }, fusion);
+
+  return Array.from(fused, ([id, { score, explanation }]) => {
+    const keyword = keywordResults.get(id);
+    const semantic = semanticResults.get(id);
+    const reasons = [keyword?.match_reason, semantic?.match_reason].filter(Boolean);
+
+    return {
+      ...(keyword ?? semantic as SearchResult),
+      score,
+      match_reason: reasons.join(' + '),
+      ...(explain && { explanation })
+    };
+  });
 }
 
 /**
  * Semantic search using embeddings
  */
-async function semanticSearch(index: DocIndex, query: string, filters?: SearchFilters): Promise<SearchResult[]> {
-  const results: SearchResult[] = [];
+async function semanticSearch(
+  index: DocIndex,
+  query: string,
+  filters: SearchFilters | undefined,
+  limit: number,
+  threshold: number
+): Promise<SearchResult[]> {
   const queryEmbedding = await generateEmbedding(query);
 
   if (!queryEmbedding) {
-    return results;
+    return [];
   }
 
-  for (const [chunkId, chunkEmbedding] of index.embeddings.entries()) {
-    // Find the chunk
-    let chunk: DocChunk | null = null;
-    for (const chunks of index.chunks.values()) {
-      chunk = chunks.find((c) => c.id === chunkId) ?? null;
-      if (chunk) break;
-    }
-
-    if (!chunk) continue;
-
-    if (!matchesFilters(chunk, filters)) {
-      continue;
-    }
-
-    const similarity = cosineSimilarity(queryEmbedding, Array.from(chunkEmbedding));
+  const matches = findNearestVectors(index.vectors, index.embeddings, queryEmbedding, {
+    k: Math.max(limit * SEMANTIC_CANDIDATES_PER_RESULT, MIN_SEMANTIC_CANDIDATES),
+    threshold,
+    filter: filters
+      ? (chunkId): boolean => {
+        const chunk = findChunkById(index, chunkId);
+        return chunk !== undefined && matchesFilters(chunk, filters);
+      }
+      : undefined
+  });
 
-    if (similarity > 0.3) {
+  const results: SearchResult[] = [];
+  for (const match of matches) {
+    const chunk = findChunkById(index, match.id);
+    if (chunk) {
       results.push({
         ...chunk,
-        score: similarity,
+        score: match.similarity,
         match_reason: 'semantic similarity'
       });
     }
@@ -148,6 +171,14 @@ async function semanticSearch(index: DocIndex, query: string, filters?: SearchFi
   return results;
 }
 
+/**
+ * Resolve a chunk id ({file}:{startLine}) to its chunk
+ */
+function findChunkById(index: DocIndex, chunkId: string): DocChunk | undefined {
+  const file = chunkId.slice(0, chunkId.lastIndexOf(':'));
+  return index.chunks.get(file)?.find((c) => c.id === chunkId);
+}
+
 /**
  * Fuzzy search using Levenshtein distance
  */
@@ -3,15 +3,15 @@
  * Watches documentation files and triggers index updates on changes
  */
 
-import { existsSync, readFileSync } from 'fs';
-import { join, relative, extname } from 'path';
+import { relative, extname } from 'path';
 
 import chokidar, { type FSWatcher } from 'chokidar';
-import ignore from 'ignore';
 
 import type { FileWatcher } from '../types.js';
 import { DOC_IGNORE_PATTERNS, DOC_EXTENSIONS } from '../types.js';
 
+import { createIgnoreRules } from '../../shared/ignore-rules.js';
+
 const BATCH_DELAY_MS = 500; // Faster than source-code-mapper since docs are smaller
 
 export function createFileWatcher(directory: string, onChange: (files: string[]) => void): FileWatcher {
@@ -49,14 +49,8 @@ export function createFileWatcher(directory: string, onChange: (files: string[])
   function start(): void {
     if (watcher) return;
 
-    // Build ignore matcher using same logic as scanner for consistency
-    const ig = ignore().add(DOC_IGNORE_PATTERNS);
-
-    const gitignorePath = join(directory, '.gitignore');
-    if (existsSync(gitignorePath)) {
-      const gitignoreContent = readFileSync(gitignorePath, 'utf-8');
-      ig.add(gitignoreContent);
-    }
+    // Same rules as the scanner: default patterns, .gitignore and .ignore files
+    const ignoreRules = createIgnoreRules(directory, DOC_IGNORE_PATTERNS);
 
     watcher = chokidar.watch(directory, {
       ignored: (path: string, stats) => {
@@ -69,7 +63,7 @@ export function createFileWatcher(directory: string, onChange: (files: string[])
         // Append trailing slash for directories (ignore package expects this)
         const candidate = stats?.isDirectory?.() ? `${rel}/` : rel;
 
-        return ig.ignores(candidate);
+        return ignoreRules.match(candidate) !== null;
       },
       persistent: true,
       ignoreInitial: true,
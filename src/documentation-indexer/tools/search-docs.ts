@@ -12,6 +12,7 @@ interface SearchDocsParams {
   mode?: SearchMode;
   filters?: SearchFilters;
   limit?: number;
+  explain?: boolean;
 }
 
 export async function handleSearchDocs(
@@ -36,7 +37,7 @@ export async function handleSearchDocs(
     };
   }
 
-  const { query, mode = 'semantic', filters, limit = 10 } = params;
+  const { query, mode = 'semantic', filters, limit = 10, explain = false } = params;
 
   if (!query) {
     return {
@@ -54,7 +55,7 @@ export async function handleSearchDocs(
     };
   }
 
-  const results = await searchDocumentation(index, query, mode, filters, limit);
+  const results = await searchDocumentation(index, query, mode, filters, limit, explain === true);
 
   // Transform results to a more user-friendly format
   const formattedResults = results.map((result) => ({
@@ -64,7 +65,8 @@ export async function handleSearchDocs(
     context: result.context,
     hierarchy: result.hierarchy,
     chunkType: result.chunkType,
-    matchReason: result.match_reason
+    matchReason: result.match_reason,
+    ...(result.explanation && { explanation: result.explanation })
   }));
 
   return {
@@ -3,6 +3,8 @@
  */
 
 import type { WithScore } from '../shared/types/common.js';
+import type { EmbeddingModelInfo } from '../shared/types/embeddings.js';
+import type { VectorIndex } from '../shared/types/vector-index.js';
 
 export type ChunkType = 'heading' | 'paragraph' | 'code' | 'list';
 
@@ -24,6 +26,8 @@ export interface DocChunk {
 export interface DocIndex {
   chunks: Map<string, DocChunk[]>; // file -> chunks
   embeddings: Map<string, Float32Array>; // chunkId -> embedding
+  /** Nearest-neighbour index over embeddings, persisted in a sibling -vectors.msgpack file */
+  vectors?: VectorIndex;
   metadata: IndexMetadata;
 }
 
@@ -33,6 +37,8 @@ export interface IndexMetadata {
   indexedAt: number;
   fileCount: number;
   chunkCount: number;
+  /** Model that produced the embeddings; absent for indexes written before it was recorded */
+  embeddingModel?: EmbeddingModelInfo;
 }
 
 export type SearchResult = WithScore<DocChunk>;
@@ -61,18 +67,18 @@ export const DOC_EXTENSIONS = [
  * Standard ignore patterns for documentation files
  */
 export const DOC_IGNORE_PATTERNS = [
-  'node_modules/**',
-  '.venv/**',
-  'venv/**',
-  '__pycache__/**',
-  'vendor/**',
-  'target/**',
-  'dist/**',
-  'build/**',
-  '.git/**',
-  '.next/**',
-  '.nuxt/**',
-  'coverage/**',
+  'node_modules/',
+  '.venv/',
+  'venv/',
+  '__pycache__/',
+  'vendor/',
+  'target/',
+  'dist/',
+  'build/',
+  '.git/',
+  '.next/',
+  '.nuxt/',
+  'coverage/',
   '*.min.*'
 ];
 
@@ -2,14 +2,13 @@
  * Kanban embeddings storage using MessagePack for efficient serialization
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { existsSync, mkdirSync } from 'fs';
 import { join, dirname } from 'path';
 
-import { pack, unpack } from 'msgpackr';
-
+import { readEmbeddingCacheFile, readEmbeddingIndexFile, writeEmbeddingCacheFile } from '../../shared/embedding-cache.js';
 import { createFileError } from '../../shared/errors.js';
 
-import type { EmbeddingCache } from '../../shared/types/search.js';
+import type { EmbeddingCache, EmbeddingIndex } from '../../shared/types/search.js';
 
 /**
  * Get the embeddings file path
@@ -36,17 +35,20 @@ export function readEmbeddings(): EmbeddingCache {
   const embeddingsFile = getEmbeddingsFilePath();
 
   try {
-    if (!existsSync(embeddingsFile)) {
-      return {};
-    }
-
-    const buffer = readFileSync(embeddingsFile);
-    return unpack(buffer) as EmbeddingCache;
+    return readEmbeddingCacheFile(embeddingsFile);
   } catch (error) {
     throw createFileError(`Failed to read ${embeddingsFile}`, error as Error);
   }
 }
 
+/**
+ * Load the nearest-neighbour index over embeddings read from storage
+ */
+export function readEmbeddingIndex(embeddings: EmbeddingCache): EmbeddingIndex {
+  ensureCacheDir();
+  return readEmbeddingIndexFile(getEmbeddingsFilePath(), embeddings);
+}
+
 /**
  * Save embeddings to storage
  */
@@ -55,8 +57,7 @@ export function saveEmbeddings(embeddings: EmbeddingCache): void {
 
   try {
     ensureCacheDir();
-    const packed = pack(embeddings);
-    writeFileSync(embeddingsFile, packed);
+    writeEmbeddingCacheFile(embeddingsFile, embeddings);
   } catch (error) {
     throw createFileError(`Failed to write ${embeddingsFile}`, error as Error);
   }
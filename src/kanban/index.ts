@@ -30,7 +30,7 @@ By default returns condensed format (omits verbose fields like details, planning
 
 const KANBAN_UPDATE_WORK_ITEM_TOOL: Tool = {
   name: "kanban_update_work_item",
-  description: `Update work item status. Validates transitions and provides suggestions for next steps.
+  description: `Update work item status. Validates configured transitions and WIP limits and provides suggestions for next steps.
 
 Always include implementation_notes when marking work as done to document what was accomplished.`,
   inputSchema: {
@@ -42,7 +42,7 @@ Always include implementation_notes when marking work as done to document what w
       },
       status: {
         type: "string",
-        description: "New status (story: todo|in_progress|in_review|done, subtask: todo|in_progress|done)",
+        description: "New status, one of the statuses configured in kanban.yaml (defaults - story: todo|in_progress|in_review|done, subtask: todo|in_progress|done)",
       },
       implementation_notes: {
         type: "string",
@@ -0,0 +1,328 @@
+/**
+ * Flow analytics
+ * Rebuilds each story's status history from the event log (cc-devtools/kanban-history.jsonl) and
+ * derives cycle and lead times, weekly throughput, estimate accuracy, cumulative flow and phase
+ * burndown from it.
+ */
+
+import type {
+  AnalyticsOptions,
+  AnalyticsSummary,
+  BurndownPoint,
+  Config,
+  CumulativeFlowPoint,
+  EstimateAccuracy,
+  KanbanAnalytics,
+  KanbanEvent,
+  PhaseBurndown,
+  Story,
+  StoryFlowMetrics,
+  ThroughputWeek
+} from '../types.js';
+
+import { createInvalidInputError } from '../../shared/errors.js';
+
+import { getCompletedStatus, getDefaultStatus, getStatusNames, isActiveStatus, isTerminalStatus } from './statuses.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A status a story entered and when; `at` is -Infinity for the status it had before the log
+ * begins
+ */
+interface StatusSpan {
+  at: number;
+  status: string;
+}
+
+/**
+ * A story with its rebuilt status history
+ */
+interface StoryTimeline {
+  story: Story;
+  spans: StatusSpan[];
+  createdAt?: number;
+  startedAt?: number;
+  completedAt?: number;
+}
+
+/**
+ * Compute all analytics for the given stories and events
+ * @param now - Current time, used for the default range and for time spent in the current status
+ */
+export function computeAnalytics(
+  stories: Story[],
+  events: KanbanEvent[],
+  config: Config,
+  options: AnalyticsOptions = {},
+  now: Date = new Date()
+): KanbanAnalytics {
+  const { since, until } = resolveRange(options, now);
+  const days = listDays(since, until);
+  const rangeStart = Date.parse(`${since}T00:00:00.000Z`);
+  const rangeEnd = Date.parse(`${until}T00:00:00.000Z`) + DAY_MS;
+
+  const selected = options.phase ? stories.filter(story => story.phase === options.phase) : stories;
+  const eventsById = groupEvents(events);
+  const timelines = selected.map(story => buildTimeline(story, eventsById.get(story.id) ?? [], config, now.getTime()));
+
+  const metrics = timelines.map(toFlowMetrics);
+  const completedInRange = timelines.filter(t => t.completedAt !== undefined && t.completedAt >= rangeStart && t.completedAt < rangeEnd);
+  const completedIds = new Set(completedInRange.map(t => t.story.id));
+  const completedMetrics = metrics.filter(m => completedIds.has(m.id));
+
+  const throughput = computeThroughput(completedInRange, since, until);
+  const estimates = computeEstimates(timelines, config, now.getTime());
+  const statuses = getStatusNames(config, 'story');
+
+  const summary: AnalyticsSummary = {
+    stories: selected.length,
+    completed: completedInRange.length,
+    avg_cycle_time_days: average(completedMetrics.map(m => m.cycle_time_days)),
+    median_cycle_time_days: median(completedMetrics.map(m => m.cycle_time_days)),
+    avg_lead_time_days: average(completedMetrics.map(m => m.lead_time_days)),
+    median_lead_time_days: median(completedMetrics.map(m => m.lead_time_days)),
+    avg_throughput_per_week: throughput.length > 0 ? round(completedInRange.length / throughput.length) : 0,
+    median_estimate_ratio: median(estimates.map(e => e.ratio))
+  };
+
+  return {
+    since,
+    until,
+    ...(options.phase ? { phase: options.phase } : {}),
+    statuses,
+    summary,
+    stories: metrics,
+    throughput,
+    estimates,
+    cumulative_flow: computeCumulativeFlow(timelines, days, statuses),
+    burndown: computeBurndown(timelines, days, config)
+  };
+}
+
+/**
+ * Rebuild a story's status history, working back from its current status so stories created
+ * before the event log existed still get the changes that were recorded
+ */
+function buildTimeline(story: Story, events: KanbanEvent[], config: Config, now: number): StoryTimeline {
+  // A story deleted and created again under the same ID starts over
+  const createdIndex = events.map(event => event.type).lastIndexOf('story_created');
+  const current = createdIndex >= 0 ? events.slice(createdIndex) : events;
+  const created = createdIndex >= 0 ? current[0] : undefined;
+  const changes = current.filter(event => event.type === 'status_changed');
+
+  const createdAt = created ? Date.parse(created.timestamp) : undefined;
+  const initial = changes.length > 0 ? String(changes[0].from) : created ? String(created.to) : story.status;
+  const spans: StatusSpan[] = [
+    { at: createdAt ?? -Infinity, status: initial },
+    ...changes.map(event => ({ at: Date.parse(event.timestamp), status: String(event.to) }))
+  ];
+
+  // Edits made outside the tools (e.g. by hand in kanban.yaml) aren't in the log
+  if (spans[spans.length - 1].status !== story.status) {
+    spans.push({ at: story.updated_at ? Date.parse(story.updated_at) : now, status: story.status });
+  }
+
+  const defaultStatus = getDefaultStatus(config, 'story');
+  const started = spans.find(span => span.status !== defaultStatus);
+  const startedAt = started && Number.isFinite(started.at) ? started.at : undefined;
+
+  // Stories closed in another terminal status (e.g. `cancelled`) were never completed, so they
+  // stay out of throughput, cycle and lead time and estimates
+  const completedStatus = getCompletedStatus(config, 'story');
+  let completedAt: number | undefined;
+  if (story.status === completedStatus) {
+    let index = spans.length - 1;
+    while (index > 0 && spans[index - 1].status === completedStatus) {
+      index--;
+    }
+    completedAt = Number.isFinite(spans[index].at)
+      ? spans[index].at
+      : story.completion_timestamp ? Date.parse(story.completion_timestamp) : undefined;
+  }
+
+  return { story, spans, createdAt, startedAt, completedAt };
+}
+
+function toFlowMetrics(timeline: StoryTimeline): StoryFlowMetrics {
+  const { story, createdAt, startedAt, completedAt } = timeline;
+  return {
+    id: story.id,
+    title: story.title,
+    phase: story.phase,
+    status: story.status,
+    created_at: toIso(createdAt),
+    started_at: toIso(startedAt),
+    completed_at: toIso(completedAt),
+    cycle_time_days: durationDays(startedAt, completedAt),
+    lead_time_days: durationDays(createdAt, completedAt)
+  };
+}
+
+function computeThroughput(completed: StoryTimeline[], since: string, until: string): ThroughputWeek[] {
+  const weeks = new Map<string, number>();
+  for (let week = startOfWeek(since); week <= until; week = addDays(week, 7)) {
+    weeks.set(week, 0);
+  }
+  for (const timeline of completed) {
+    const week = startOfWeek(toDate(timeline.completedAt ?? 0));
+    weeks.set(week, (weeks.get(week) ?? 0) + 1);
+  }
+  return Array.from(weeks, ([week, count]) => ({ week, completed: count }));
+}
+
+/**
+ * Completed stories with an estimate, against the hours they were being worked on: in any status
+ * after the default one and before a terminal one. These are wall-clock hours, nights and
+ * weekends included, so a ratio compares elapsed time with estimated effort.
+ */
+function computeEstimates(timelines: StoryTimeline[], config: Config, now: number): EstimateAccuracy[] {
+  const estimates: EstimateAccuracy[] = [];
+  for (const { story, spans, completedAt } of timelines) {
+    const estimate = story.effort_estimation_hours ?? 0;
+    if (completedAt === undefined || estimate <= 0) {
+      continue;
+    }
+    let spent = 0;
+    spans.forEach((span, index) => {
+      const end = spans[index + 1]?.at ?? now;
+      if (isActiveStatus(config, 'story', span.status) && Number.isFinite(span.at)) {
+        spent += end - span.at;
+      }
+    });
+    if (spent <= 0) {
+      continue;
+    }
+    const actual = round(spent / HOUR_MS);
+    estimates.push({ id: story.id, title: story.title, estimate_hours: estimate, actual_hours: actual, ratio: round(actual / estimate) });
+  }
+  return estimates;
+}
+
+function computeCumulativeFlow(timelines: StoryTimeline[], days: string[], statuses: string[]): CumulativeFlowPoint[] {
+  return days.map(date => {
+    const endOfDay = Date.parse(`${date}T00:00:00.000Z`) + DAY_MS - 1;
+    const counts: Record<string, number> = Object.fromEntries(statuses.map(status => [status, 0]));
+    for (const timeline of timelines) {
+      const status = statusAt(timeline, endOfDay);
+      if (status !== undefined) {
+        counts[status] = (counts[status] ?? 0) + 1;
+      }
+    }
+    return { date, counts };
+  });
+}
+
+function computeBurndown(timelines: StoryTimeline[], days: string[], config: Config): PhaseBurndown[] {
+  const phases = config.phases.filter(phase => timelines.some(t => t.story.phase === phase));
+  return phases.map(phase => {
+    const inPhase = timelines.filter(t => t.story.phase === phase);
+    const points: BurndownPoint[] = days.map(date => {
+      const endOfDay = Date.parse(`${date}T00:00:00.000Z`) + DAY_MS - 1;
+      let remaining = 0;
+      let remainingHours = 0;
+      for (const timeline of inPhase) {
+        const status = statusAt(timeline, endOfDay);
+        if (status !== undefined && !isTerminalStatus(config, 'story', status)) {
+          remaining++;
+          remainingHours += timeline.story.effort_estimation_hours ?? 0;
+        }
+      }
+      return { date, remaining, remaining_hours: round(remainingHours) };
+    });
+    return { phase, total: inPhase.length, points };
+  });
+}
+
+/**
+ * Status at a point in time, or undefined if the story didn't exist yet
+ */
+function statusAt(timeline: StoryTimeline, time: number): string | undefined {
+  let status: string | undefined;
+  for (const span of timeline.spans) {
+    if (span.at > time) {
+      break;
+    }
+    status = span.status;
+  }
+  return status;
+}
+
+function groupEvents(events: KanbanEvent[]): Map<string, KanbanEvent[]> {
+  const byId = new Map<string, KanbanEvent[]>();
+  for (const event of events) {
+    if (event.type !== 'story_created' && event.type !== 'status_changed') {
+      continue;
+    }
+    const list = byId.get(event.id) ?? [];
+    list.push(event);
+    byId.set(event.id, list);
+  }
+  return byId;
+}
+
+function resolveRange(options: AnalyticsOptions, now: Date): Pick<KanbanAnalytics, 'since' | 'until'> {
+  for (const [name, value] of [['since', options.since], ['until', options.until]] as const) {
+    if (value !== undefined && (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value)))) {
+      throw createInvalidInputError(`Invalid ${name} date: "${value}". Expected YYYY-MM-DD`);
+    }
+  }
+  const until = options.until ?? toDate(now.getTime());
+  const since = options.since ?? addDays(until, -29);
+  if (since > until) {
+    throw createInvalidInputError(`since (${since}) must not be after until (${until})`);
+  }
+  return { since, until };
+}
+
+function listDays(since: string, until: string): string[] {
+  const days: string[] = [];
+  for (let day = since; day <= until; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+function addDays(date: string, days: number): string {
+  return toDate(Date.parse(`${date}T00:00:00.000Z`) + days * DAY_MS);
+}
+
+/**
+ * Monday of the week containing a date
+ */
+function startOfWeek(date: string): string {
+  const weekday = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+  return addDays(date, -((weekday + 6) % 7));
+}
+
+function toDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function toIso(time: number | undefined): string | undefined {
+  return time === undefined ? undefined : new Date(time).toISOString();
+}
+
+function durationDays(from: number | undefined, to: number | undefined): number | undefined {
+  return from === undefined || to === undefined ? undefined : round(Math.max(0, to - from) / DAY_MS);
+}
+
+function average(values: Array<number | undefined>): number | null {
+  const known = values.filter((value): value is number => value !== undefined);
+  return known.length > 0 ? round(known.reduce((sum, value) => sum + value, 0) / known.length) : null;
+}
+
+function median(values: Array<number | undefined>): number | null {
+  const known = values.filter((value): value is number => value !== undefined).sort((a, b) => a - b);
+  if (known.length === 0) {
+    return null;
+  }
+  const middle = Math.floor(known.length / 2);
+  return round(known.length % 2 === 1 ? known[middle] : (known[middle - 1] + known[middle]) / 2);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
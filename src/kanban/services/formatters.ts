@@ -1,4 +1,5 @@
 import type {
+  Config,
   Story,
   Subtask,
   SubtaskStatus,
@@ -8,13 +9,17 @@ import type {
   OutputMode
 } from '../types.js';
 
+import { isTerminalStatus } from './statuses.js';
+import { getDefaultConfig } from './storage.js';
+
 /**
  * Format a story for display
  * @param story - Story object
+ * @param config - Kanban config, for which subtask statuses are terminal
  * @returns Formatted story card
  */
-export function formatStoryCard(story: Story): FormattedStoryCard {
-  const progress = calculateProgress(story.subtasks ?? []);
+export function formatStoryCard(story: Story, config: Config = getDefaultConfig()): FormattedStoryCard {
+  const progress = calculateProgress(story.subtasks ?? [], config);
 
   return {
     id: story.id,
@@ -53,16 +58,17 @@ export function formatSubtaskList(subtasks: Subtask[]): FormattedSubtask[] {
 }
 
 /**
- * Calculate progress from subtasks
+ * Calculate progress from subtasks; any terminal status counts as completed
  * @param subtasks - Array of subtasks
+ * @param config - Kanban config, for which subtask statuses are terminal
  * @returns Progress information
  */
-export function calculateProgress(subtasks: Subtask[]): Progress {
+export function calculateProgress(subtasks: Subtask[], config: Config = getDefaultConfig()): Progress {
   if (!subtasks || subtasks.length === 0) {
     return { completed: 0, total: 0, percentage: 0, dots: '' };
   }
 
-  const completed = subtasks.filter(st => st.status === 'done').length;
+  const completed = subtasks.filter(st => isTerminalStatus(config, 'subtask', st.status)).length;
   const total = subtasks.length;
   const percentage = Math.round((completed / total) * 100);
   const dots = generateProgressDots(completed, total);
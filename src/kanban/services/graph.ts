@@ -0,0 +1,499 @@
+/**
+ * Dependency graph
+ * Builds the graph of `dependent_upon` links between stories (and between subtasks of a story),
+ * finds dependency cycles and the critical path through unfinished work, and renders the graph
+ * as Graphviz DOT or Mermaid.
+ */
+
+import type {
+  Config,
+  CriticalPath,
+  DependencyEdge,
+  DependencyGraph,
+  DependencyNode,
+  GraphOptions,
+  Story
+} from '../types.js';
+
+import { createNotFoundError } from '../../shared/errors.js';
+
+import { isTerminalStatus } from './statuses.js';
+
+const COLORS = {
+  done: '#dcfce7',
+  blocked: '#fee2e2',
+  missing: '#f3f4f6',
+  critical: '#d97706',
+  blocking: '#dc2626',
+  cycle: '#7c3aed'
+};
+
+/**
+ * A node with the IDs it depends on
+ */
+interface GraphItem {
+  node: DependencyNode;
+  dependsOn: string[];
+}
+
+/**
+ * Build the dependency graph of the given stories
+ */
+export function buildDependencyGraph(stories: Story[], config: Config, options: GraphOptions = {}): DependencyGraph {
+  const items = collectItems(stories, config, options.subtasks ?? false);
+
+  let selected = new Set(items.keys());
+  if (options.phase) {
+    const inPhase = [...items.values()].filter(item => item.node.phase === options.phase && !item.node.missing);
+    selected = upstream(items, inPhase.map(item => item.node.id));
+  }
+  if (options.focus) {
+    if (!items.has(options.focus) || items.get(options.focus)?.node.missing) {
+      throw createNotFoundError(`${options.focus} not found`);
+    }
+    const related = new Set([...upstream(items, [options.focus]), ...downstream(items, [options.focus])]);
+    selected = new Set([...selected].filter(id => related.has(id)));
+  }
+
+  const graph = new Map([...items].filter(([id]) => selected.has(id)));
+  for (const item of graph.values()) {
+    item.dependsOn = item.dependsOn.filter(id => graph.has(id));
+  }
+
+  const components = stronglyConnected(graph);
+  const cycles = findCyclesIn(graph, components);
+
+  for (const item of graph.values()) {
+    item.node.blocked = !item.node.done && item.dependsOn.some(id => !graph.get(id)?.node.done);
+  }
+  assignDepths(graph, components);
+
+  const criticalPath = findCriticalPath(graph, components);
+  for (const id of criticalPath.ids) {
+    const item = graph.get(id);
+    if (item) {
+      item.node.critical = true;
+    }
+  }
+
+  const edges: DependencyEdge[] = [];
+  for (const item of graph.values()) {
+    for (const id of item.dependsOn) {
+      const dependency = graph.get(id);
+      edges.push({ from: id, to: item.node.id, blocking: !item.node.done && dependency?.node.done === false });
+    }
+  }
+
+  return {
+    nodes: [...graph.values()].map(item => item.node),
+    edges,
+    cycles,
+    critical_path: criticalPath
+  };
+}
+
+/**
+ * Find every dependency cycle among stories, and among the subtasks of each story
+ * @returns Cycles as lists of IDs where each depends on the next and the last on the first
+ */
+export function findDependencyCycles(stories: Story[], config: Config): string[][] {
+  const graph = collectItems(stories, config, true);
+  return findCyclesIn(graph, stronglyConnected(graph));
+}
+
+/**
+ * Render the graph as Graphviz DOT, with subtasks grouped by story
+ */
+export function toDot(graph: DependencyGraph): string {
+  const inCycle = cycleEdges(graph);
+  const critical = criticalEdges(graph);
+  const lines = [
+    'digraph dependencies {',
+    '  rankdir=LR;',
+    '  node [shape=box, style="rounded,filled", fillcolor="#ffffff", fontname="Helvetica"];'
+  ];
+
+  const nodeLine = (node: DependencyNode, indent: string): string => {
+    const attributes = [`label=${dotString(`${node.id}\n${node.title}\n[${node.missing ? 'missing' : node.status}]`)}`];
+    const fill = node.missing ? COLORS.missing : node.done ? COLORS.done : node.blocked ? COLORS.blocked : undefined;
+    if (fill) {
+      attributes.push(`fillcolor="${fill}"`);
+    }
+    if (node.missing) {
+      attributes.push('style="rounded,filled,dashed"');
+    }
+    if (node.critical) {
+      attributes.push(`color="${COLORS.critical}"`, 'penwidth=2');
+    }
+    return `${indent}${dotString(node.id)} [${attributes.join(', ')}];`;
+  };
+
+  for (const node of graph.nodes.filter(n => n.type === 'story')) {
+    lines.push(nodeLine(node, '  '));
+  }
+  const subtasksByStory = new Map<string, DependencyNode[]>();
+  for (const node of graph.nodes.filter(n => n.type === 'subtask')) {
+    subtasksByStory.set(node.story_id, [...(subtasksByStory.get(node.story_id) ?? []), node]);
+  }
+  for (const [storyId, subtasks] of subtasksByStory) {
+    lines.push(`  subgraph ${dotString(`cluster_${storyId}`)} {`, `    label=${dotString(storyId)};`, '    style=dashed;');
+    lines.push(...subtasks.map(node => nodeLine(node, '    ')), '  }');
+  }
+
+  for (const edge of graph.edges) {
+    const key = `${edge.from}>${edge.to}`;
+    const attributes: string[] = [];
+    if (inCycle.has(key)) {
+      attributes.push(`color="${COLORS.cycle}"`, 'style=bold');
+    } else if (critical.has(key)) {
+      attributes.push(`color="${COLORS.critical}"`, 'penwidth=2');
+    } else if (edge.blocking) {
+      attributes.push(`color="${COLORS.blocking}"`);
+    }
+    lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Render the graph as a Mermaid flowchart
+ */
+export function toMermaid(graph: DependencyGraph): string {
+  const inCycle = cycleEdges(graph);
+  const critical = criticalEdges(graph);
+  const lines = ['flowchart LR'];
+
+  for (const node of graph.nodes) {
+    const label = `${node.id}: ${node.title.replace(/\s+/g, ' ')}<br/>${node.missing ? 'missing' : node.status}`;
+    lines.push(`  ${mermaidId(node.id)}["${label.replace(/"/g, '#quot;')}"]`);
+  }
+
+  const styled: Record<'cycle' | 'blocking', number[]> = { cycle: [], blocking: [] };
+  graph.edges.forEach((edge, index) => {
+    const key = `${edge.from}>${edge.to}`;
+    lines.push(`  ${mermaidId(edge.from)} ${critical.has(key) ? '==>' : '-->'} ${mermaidId(edge.to)}`);
+    if (inCycle.has(key)) {
+      styled.cycle.push(index);
+    } else if (edge.blocking) {
+      styled.blocking.push(index);
+    }
+  });
+
+  lines.push(
+    `  classDef done fill:${COLORS.done}`,
+    `  classDef blocked fill:${COLORS.blocked}`,
+    `  classDef missing fill:${COLORS.missing},stroke-dasharray:4`,
+    `  classDef critical stroke:${COLORS.critical},stroke-width:3px`
+  );
+  const classes: Record<string, (node: DependencyNode) => boolean> = {
+    done: node => node.done,
+    blocked: node => node.blocked,
+    missing: node => node.missing === true,
+    critical: node => node.critical
+  };
+  for (const [name, matches] of Object.entries(classes)) {
+    const ids = graph.nodes.filter(matches).map(node => mermaidId(node.id));
+    if (ids.length > 0) {
+      lines.push(`  class ${ids.join(',')} ${name}`);
+    }
+  }
+  for (const [kind, indexes] of Object.entries(styled)) {
+    if (indexes.length > 0) {
+      lines.push(`  linkStyle ${indexes.join(',')} stroke:${COLORS[kind as keyof typeof styled]},stroke-width:2px`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Every story (and subtask, if asked) as a node, plus a placeholder for each dependency that
+ * isn't on the board
+ */
+function collectItems(stories: Story[], config: Config, includeSubtasks: boolean): Map<string, GraphItem> {
+  const items = new Map<string, GraphItem>();
+  const add = (node: Omit<DependencyNode, 'done' | 'blocked' | 'depth' | 'critical'>, dependsOn: string[] | undefined): void => {
+    items.set(node.id, {
+      node: { ...node, done: isTerminalStatus(config, node.type, node.status), blocked: false, depth: 0, critical: false },
+      dependsOn: [...new Set(dependsOn ?? [])]
+    });
+  };
+
+  for (const story of stories) {
+    add(
+      { id: story.id, type: 'story', story_id: story.id, title: story.title, status: story.status, phase: story.phase, effort_hours: story.effort_estimation_hours },
+      story.dependent_upon
+    );
+    if (includeSubtasks) {
+      for (const subtask of story.subtasks ?? []) {
+        add(
+          { id: subtask.id, type: 'subtask', story_id: story.id, title: subtask.title, status: subtask.status, phase: story.phase, effort_hours: subtask.effort_estimation_hours },
+          subtask.dependent_upon
+        );
+      }
+    }
+  }
+
+  for (const item of [...items.values()]) {
+    for (const id of item.dependsOn.filter(dep => !items.has(dep))) {
+      items.set(id, {
+        node: {
+          id,
+          type: item.node.type,
+          story_id: item.node.type === 'story' ? id : item.node.story_id,
+          title: 'Not found',
+          status: '',
+          phase: id.split('-')[0],
+          done: false,
+          blocked: false,
+          depth: 0,
+          critical: false,
+          missing: true
+        },
+        dependsOn: []
+      });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * The given IDs and everything they depend on, directly or indirectly
+ */
+function upstream(items: Map<string, GraphItem>, ids: string[]): Set<string> {
+  return reachable(ids, id => items.get(id)?.dependsOn ?? []);
+}
+
+/**
+ * The given IDs and everything that depends on them, directly or indirectly
+ */
+function downstream(items: Map<string, GraphItem>, ids: string[]): Set<string> {
+  const dependents = new Map<string, string[]>();
+  for (const item of items.values()) {
+    for (const id of item.dependsOn) {
+      dependents.set(id, [...(dependents.get(id) ?? []), item.node.id]);
+    }
+  }
+  return reachable(ids, id => dependents.get(id) ?? []);
+}
+
+function reachable(start: string[], next: (id: string) => string[]): Set<string> {
+  const seen = new Set(start);
+  const queue = [...start];
+  while (queue.length > 0) {
+    for (const id of next(queue.shift() ?? '')) {
+      if (!seen.has(id)) {
+        seen.add(id);
+        queue.push(id);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * Tarjan's algorithm: maps each ID to the index of its strongly connected component
+ */
+function stronglyConnected(graph: Map<string, GraphItem>): Map<string, number> {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const component = new Map<string, number>();
+  let counter = 0;
+
+  const visit = (id: string): void => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const dep of graph.get(id)?.dependsOn ?? []) {
+      if (!graph.has(dep)) {
+        continue;
+      }
+      if (!index.has(dep)) {
+        visit(dep);
+        lowLink.set(id, Math.min(lowLink.get(id) ?? 0, lowLink.get(dep) ?? 0));
+      } else if (onStack.has(dep)) {
+        lowLink.set(id, Math.min(lowLink.get(id) ?? 0, index.get(dep) ?? 0));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const root = component.size;
+      let member: string | undefined;
+      do {
+        member = stack.pop();
+        if (member !== undefined) {
+          onStack.delete(member);
+          component.set(member, root);
+        }
+      } while (member !== undefined && member !== id);
+    }
+  };
+
+  for (const id of graph.keys()) {
+    if (!index.has(id)) {
+      visit(id);
+    }
+  }
+  return component;
+}
+
+/**
+ * One cycle per strongly connected component with more than one member (or a self-dependency),
+ * starting from the component's first item in board order
+ */
+function findCyclesIn(graph: Map<string, GraphItem>, components: Map<string, number>): string[][] {
+  const members = new Map<number, string[]>();
+  for (const id of graph.keys()) {
+    const key = components.get(id) ?? -1;
+    members.set(key, [...(members.get(key) ?? []), id]);
+  }
+
+  const cycles: string[][] = [];
+  for (const ids of members.values()) {
+    const start = ids[0];
+    if (ids.length === 1 && !graph.get(start)?.dependsOn.includes(start)) {
+      continue;
+    }
+    cycles.push(cyclePath(graph, components, start));
+  }
+  return cycles;
+}
+
+/**
+ * Shortest path from an item back to itself within its component
+ */
+function cyclePath(graph: Map<string, GraphItem>, components: Map<string, number>, start: string): string[] {
+  const component = components.get(start);
+  const previous = new Map<string, string>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const id = queue.shift() ?? start;
+    for (const dep of graph.get(id)?.dependsOn ?? []) {
+      if (components.get(dep) !== component) {
+        continue;
+      }
+      if (dep === start) {
+        const path = [id];
+        while (path[0] !== start) {
+          path.unshift(previous.get(path[0]) ?? start);
+        }
+        return path;
+      }
+      if (!previous.has(dep)) {
+        previous.set(dep, id);
+        queue.push(dep);
+      }
+    }
+  }
+  return [start];
+}
+
+/**
+ * Depth of each node, ignoring dependencies inside a cycle
+ */
+function assignDepths(graph: Map<string, GraphItem>, components: Map<string, number>): void {
+  const depths = new Map<string, number>();
+  const depthOf = (id: string): number => {
+    const known = depths.get(id);
+    if (known !== undefined) {
+      return known;
+    }
+    const item = graph.get(id);
+    const deps = (item?.dependsOn ?? []).filter(dep => components.get(dep) !== components.get(id));
+    const depth = deps.length > 0 ? 1 + Math.max(...deps.map(depthOf)) : 0;
+    depths.set(id, depth);
+    if (item) {
+      item.node.depth = depth;
+    }
+    return depth;
+  };
+  for (const id of graph.keys()) {
+    depthOf(id);
+  }
+}
+
+/**
+ * Longest chain of unfinished stories outside any cycle, weighted by effort estimate; chains
+ * without estimates are compared by length
+ */
+function findCriticalPath(graph: Map<string, GraphItem>, components: Map<string, number>): CriticalPath {
+  const componentSizes = new Map<number, number>();
+  for (const component of components.values()) {
+    componentSizes.set(component, (componentSizes.get(component) ?? 0) + 1);
+  }
+  const eligible = (item: GraphItem | undefined): item is GraphItem =>
+    item !== undefined
+    && item.node.type === 'story'
+    && !item.node.done
+    && !item.node.missing
+    && componentSizes.get(components.get(item.node.id) ?? -1) === 1
+    && !item.dependsOn.includes(item.node.id);
+
+  const candidates = [...graph.values()].filter(eligible).sort((a, b) => a.node.depth - b.node.depth);
+  const hours = new Map<string, number>();
+  const length = new Map<string, number>();
+  const previous = new Map<string, string>();
+  let end: string | undefined;
+
+  const longer = (a: string, b: string | undefined): boolean =>
+    b === undefined
+    || (hours.get(a) ?? 0) > (hours.get(b) ?? 0)
+    || ((hours.get(a) ?? 0) === (hours.get(b) ?? 0) && (length.get(a) ?? 0) > (length.get(b) ?? 0));
+
+  for (const item of candidates) {
+    let best: string | undefined;
+    for (const dep of item.dependsOn) {
+      if (eligible(graph.get(dep)) && hours.has(dep) && longer(dep, best)) {
+        best = dep;
+      }
+    }
+    const id = item.node.id;
+    hours.set(id, (item.node.effort_hours ?? 0) + (best ? hours.get(best) ?? 0 : 0));
+    length.set(id, 1 + (best ? length.get(best) ?? 0 : 0));
+    if (best) {
+      previous.set(id, best);
+    }
+    if (longer(id, end)) {
+      end = id;
+    }
+  }
+
+  if (end === undefined) {
+    return { ids: [], hours: 0 };
+  }
+  const ids = [end];
+  for (let id = previous.get(end); id !== undefined; id = previous.get(id)) {
+    ids.unshift(id);
+  }
+  return { ids, hours: Math.round((hours.get(end) ?? 0) * 100) / 100 };
+}
+
+function cycleEdges(graph: DependencyGraph): Set<string> {
+  const keys = new Set<string>();
+  for (const cycle of graph.cycles) {
+    // Each item depends on the next, so the edge runs from the next item to it
+    cycle.forEach((id, index) => keys.add(`${cycle[(index + 1) % cycle.length]}>${id}`));
+  }
+  return keys;
+}
+
+function criticalEdges(graph: DependencyGraph): Set<string> {
+  const ids = graph.critical_path.ids;
+  return new Set(ids.slice(1).map((id, index) => `${ids[index]}>${id}`));
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function mermaidId(id: string): string {
+  return id.replace(/[^A-Za-z0-9_]/g, '_');
+}
@@ -0,0 +1,215 @@
+/**
+ * Kanban event log
+ * Changes to stories, subtasks and reviews are appended to cc-devtools/kanban-history.jsonl, one
+ * JSON event per line, so we can tell when an item changed status, who changed it and what a
+ * field used to say.
+ */
+
+import { appendFileSync, existsSync, mkdirSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { userInfo } from 'os';
+import { dirname, join } from 'path';
+
+import type {
+  HistoryContext,
+  KanbanEvent,
+  KanbanEventType,
+  Story,
+  StoryReviewFeedback,
+  Subtask
+} from '../types.js';
+
+import { createFileError } from '../../shared/errors.js';
+
+/**
+ * A status or field that differs between two versions of an item
+ */
+interface FieldChange {
+  type: KanbanEventType;
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/** Fields recorded by their own events, or touched on every save */
+const UNTRACKED_FIELDS = new Set(['id', 'status', 'subtasks', 'updated_at', 'completion_timestamp']);
+
+/**
+ * Get the history file path (evaluated at runtime to support testing)
+ * The kanban-history.jsonl is stored in the USER's project next to kanban.yaml
+ */
+function getHistoryFilePath(): string {
+  return join(process.cwd(), 'cc-devtools', 'kanban-history.jsonl');
+}
+
+/**
+ * Events for the change from one version of a story to the next
+ * @param before - Stored story, or null when the story is created
+ * @param after - Saved story, or null when the story is deleted
+ */
+export function diffStories(
+  before: Story | null,
+  after: Story | null,
+  context: HistoryContext = {},
+  timestamp: string = new Date().toISOString()
+): KanbanEvent[] {
+  const storyId = after?.id ?? before?.id;
+  if (!storyId) {
+    return [];
+  }
+
+  const base = { timestamp, story_id: storyId, actor: resolveActor(context), source: context.source };
+  const event = (type: KanbanEventType, id: string, extra: Partial<KanbanEvent> = {}): KanbanEvent =>
+    ({ ...base, type, id, ...extra });
+
+  if (!before && after) {
+    return [
+      event('story_created', storyId, { title: after.title, to: after.status }),
+      ...(after.subtasks ?? []).map(subtask => event('subtask_created', subtask.id, { title: subtask.title, to: subtask.status }))
+    ];
+  }
+  if (before && !after) {
+    return [event('story_deleted', storyId, { title: before.title, from: before.status })];
+  }
+  if (!before || !after) {
+    return [];
+  }
+
+  const events = diffItems(before, after).map(change => event(change.type, storyId, change));
+
+  const beforeSubtasks = new Map((before.subtasks ?? []).map(subtask => [subtask.id, subtask]));
+  const afterIds = new Set((after.subtasks ?? []).map(subtask => subtask.id));
+
+  for (const subtask of after.subtasks ?? []) {
+    const previous = beforeSubtasks.get(subtask.id);
+    if (!previous) {
+      events.push(event('subtask_created', subtask.id, { title: subtask.title, to: subtask.status }));
+    } else {
+      events.push(...diffItems(previous, subtask).map(change => event(change.type, subtask.id, change)));
+    }
+  }
+  for (const subtask of before.subtasks ?? []) {
+    if (!afterIds.has(subtask.id)) {
+      events.push(event('subtask_deleted', subtask.id, { title: subtask.title, from: subtask.status }));
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Event for a review added to reviews.yaml; the reviewer is the actor unless one is given
+ */
+export function reviewEvent(review: StoryReviewFeedback, context: HistoryContext = {}): KanbanEvent {
+  return {
+    timestamp: review.timestamp,
+    type: 'review_added',
+    id: review.storyId,
+    story_id: review.storyId,
+    actor: context.actor ?? review.reviewer,
+    source: context.source,
+    round: review.round
+  };
+}
+
+/**
+ * Append events to the log (no lock - each batch is a single append)
+ * Best effort: callers record events after saving the change they describe, so a failed append
+ * is reported on stderr instead of failing a save that already happened
+ */
+export function recordEvents(events: KanbanEvent[]): void {
+  if (events.length === 0) {
+    return;
+  }
+
+  const historyFile = getHistoryFilePath();
+  try {
+    const dir = dirname(historyFile);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    appendFileSync(historyFile, events.map(event => JSON.stringify(event) + '\n').join(''), 'utf-8');
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(`Failed to write ${historyFile}:`, (error as Error).message);
+  }
+}
+
+/**
+ * Read events in the order they happened
+ * @param id - Story ID (includes its subtasks' events) or subtask ID; all events when omitted
+ */
+export async function readHistory(id?: string): Promise<KanbanEvent[]> {
+  const historyFile = getHistoryFilePath();
+  if (!existsSync(historyFile)) {
+    return [];
+  }
+
+  let content: string;
+  try {
+    content = await readFile(historyFile, 'utf-8');
+  } catch (error) {
+    throw createFileError(`Failed to read ${historyFile}`, error as Error);
+  }
+
+  const events: KanbanEvent[] = [];
+  for (const line of content.split('\n')) {
+    if (line.trim() === '') {
+      continue;
+    }
+    try {
+      events.push(JSON.parse(line) as KanbanEvent);
+    } catch {
+      // Skip a line cut short by an interrupted write
+    }
+  }
+
+  return id === undefined ? events : events.filter(event => event.id === id || event.story_id === id);
+}
+
+function diffItems(before: Story | Subtask, after: Story | Subtask): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  if (before.status !== after.status) {
+    changes.push({ type: 'status_changed', field: 'status', from: before.status, to: after.status });
+  }
+
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const field of fields) {
+    if (UNTRACKED_FIELDS.has(field)) {
+      continue;
+    }
+    const from = normalizeValue((before as unknown as Record<string, unknown>)[field]);
+    const to = normalizeValue((after as unknown as Record<string, unknown>)[field]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ type: 'field_changed', field, from, to });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Empty strings and lists are the same as unset, so clearing a field the web form never set
+ * isn't recorded as an edit
+ */
+function normalizeValue(value: unknown): unknown {
+  if (value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return undefined;
+  }
+  return value;
+}
+
+function resolveActor(context: HistoryContext): string {
+  if (context.actor) {
+    return context.actor;
+  }
+  if (process.env.CC_DEVTOOLS_ACTOR) {
+    return process.env.CC_DEVTOOLS_ACTOR;
+  }
+  try {
+    return userInfo().username;
+  } catch {
+    return 'unknown';
+  }
+}
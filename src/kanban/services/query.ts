@@ -6,18 +6,22 @@ import type {
   StoriesByStatus,
   StoriesByPhase,
   BusinessValue,
+  Config,
   Phase
 } from '../types.js';
 
+import { getStatusNames } from './statuses.js';
+import { getDefaultConfig } from './storage.js';
 import { checkDependenciesMet } from './validation.js';
 
 /**
  * Filter stories by criteria
  * @param stories - Array of stories
  * @param criteria - Filter criteria
+ * @param config - Config object (optional, defaults to the built-in statuses)
  * @returns Filtered stories
  */
-export function filterStories(stories: Story[], criteria: FilterCriteria): Story[] {
+export function filterStories(stories: Story[], criteria: FilterCriteria, config: Config = getDefaultConfig()): Story[] {
   let filtered = [...stories];
 
   if (criteria.status) {
@@ -45,7 +49,7 @@ export function filterStories(stories: Story[], criteria: FilterCriteria): Story
 
   if (criteria.ready) {
     filtered = filtered.filter(s => {
-      const deps = checkDependenciesMet(s.id, stories);
+      const deps = checkDependenciesMet(s.id, stories, config);
       return deps.met;
     });
   }
@@ -80,14 +84,15 @@ export function findCurrentWork(stories: Story[]): CurrentWork | null {
  * Find next recommended story from todo
  * @param stories - Array of stories
  * @param phases - Ordered array of phases (for priority)
+ * @param config - Config object (optional, defaults to the built-in statuses)
  * @returns Ranked stories with scores
  */
-export function findNextRecommendation(stories: Story[], phases: Phase[]): RankedStory[] {
-  const todoStories = filterStories(stories, { status: 'todo' });
+export function findNextRecommendation(stories: Story[], phases: Phase[], config: Config = getDefaultConfig()): RankedStory[] {
+  const todoStories = filterStories(stories, { status: 'todo' }, config);
 
   // Filter out stories with unmet dependencies
   const ready = todoStories.filter(s => {
-    const deps = checkDependenciesMet(s.id, stories);
+    const deps = checkDependenciesMet(s.id, stories, config);
     return deps.met;
   });
 
@@ -142,17 +147,16 @@ export function findNextRecommendation(stories: Story[], phases: Phase[]): Ranke
 }
 
 /**
- * Group stories by status
+ * Group stories by status, in configured column order
  * @param stories - Array of stories
- * @returns Stories grouped by status
+ * @param config - Config object (optional, defaults to the built-in statuses)
+ * @returns Stories grouped by status; stories in unconfigured statuses are left out
  */
-export function groupByStatus(stories: Story[]): StoriesByStatus {
-  const groups: StoriesByStatus = {
-    todo: [],
-    in_progress: [],
-    in_review: [],
-    done: []
-  };
+export function groupByStatus(stories: Story[], config: Config = getDefaultConfig()): StoriesByStatus {
+  const groups: StoriesByStatus = {};
+  for (const status of getStatusNames(config, 'story')) {
+    groups[status] = [];
+  }
 
   for (const story of stories) {
     if (groups[story.status]) {
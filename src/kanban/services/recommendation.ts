@@ -5,19 +5,23 @@ import type {
   RankedStory,
   ProgressAnalysis,
   StatusChangeSuggestion,
+  Config,
   Phase
 } from '../types.js';
 
 import { findCurrentWork, findNextRecommendation } from './query.js';
+import { isTerminalStatus } from './statuses.js';
+import { getDefaultConfig } from './storage.js';
 import { checkSubtasksComplete } from './validation.js';
 
 /**
  * Get next work item (current or recommended)
  * @param stories - Array of stories
  * @param phases - Ordered array of phases (for priority)
+ * @param config - Config object (optional, defaults to the built-in statuses)
  * @returns Work recommendation or null
  */
-export function getNextWorkItem(stories: Story[], phases: Phase[]): WorkRecommendation | null {
+export function getNextWorkItem(stories: Story[], phases: Phase[], config: Config = getDefaultConfig()): WorkRecommendation | null {
   const current = findCurrentWork(stories);
 
   if (current) {
@@ -42,7 +46,7 @@ export function getNextWorkItem(stories: Story[], phases: Phase[]): WorkRecommen
     }
 
     // Story has subtasks - find next one to work on
-    const nextSubtask = findNextSubtask(current.story);
+    const nextSubtask = findNextSubtask(current.story, config);
     if (nextSubtask) {
       return {
         type: 'subtask',
@@ -54,7 +58,7 @@ export function getNextWorkItem(stories: Story[], phases: Phase[]): WorkRecommen
     }
 
     // All subtasks complete or blocked
-    const progress = checkSubtasksComplete(current.story);
+    const progress = checkSubtasksComplete(current.story, config);
     if (progress.complete) {
       return {
         type: 'story',
@@ -74,7 +78,7 @@ export function getNextWorkItem(stories: Story[], phases: Phase[]): WorkRecommen
   }
 
   // No current work - recommend next
-  const recommended = findNextRecommendation(stories, phases);
+  const recommended = findNextRecommendation(stories, phases, config);
   if (recommended.length > 0) {
     return {
       type: 'story',
@@ -93,18 +97,20 @@ export function getNextWorkItem(stories: Story[], phases: Phase[]): WorkRecommen
  * Rank todo stories by priority
  * @param stories - Array of stories
  * @param phases - Ordered array of phases (for priority)
+ * @param config - Config object (optional, defaults to the built-in statuses)
  * @returns Ranked stories with scores and reasons
  */
-export function rankTodoStories(stories: Story[], phases: Phase[]): RankedStory[] {
-  return findNextRecommendation(stories, phases);
+export function rankTodoStories(stories: Story[], phases: Phase[], config: Config = getDefaultConfig()): RankedStory[] {
+  return findNextRecommendation(stories, phases, config);
 }
 
 /**
  * Find next subtask to work on
  * @param story - Story object
+ * @param config - Config object (optional, defaults to the built-in statuses)
  * @returns Next subtask or null
  */
-export function findNextSubtask(story: Story): Subtask | null {
+export function findNextSubtask(story: Story, config: Config = getDefaultConfig()): Subtask | null {
   if (!story.subtasks || story.subtasks.length === 0) {
     return null;
   }
@@ -120,7 +126,7 @@ export function findNextSubtask(story: Story): Subtask | null {
     // Check if all dependencies are completed
     const allDepsMet = subtask.dependent_upon.every(depId => {
       const depSubtask = story.subtasks!.find(st => st.id === depId);
-      return depSubtask && depSubtask.status === 'done';
+      return depSubtask && isTerminalStatus(config, 'subtask', depSubtask.status);
     });
 
     if (allDepsMet) {
@@ -134,9 +140,10 @@ export function findNextSubtask(story: Story): Subtask | null {
 /**
  * Analyze progress of a story
  * @param story - Story object
+ * @param config - Config object (optional, defaults to the built-in statuses)
  * @returns Progress analysis
  */
-export function analyzeProgress(story: Story): ProgressAnalysis {
+export function analyzeProgress(story: Story, config: Config = getDefaultConfig()): ProgressAnalysis {
   if (!story.subtasks || story.subtasks.length === 0) {
     return {
       hasSubtasks: false,
@@ -147,10 +154,10 @@ export function analyzeProgress(story: Story): ProgressAnalysis {
     };
   }
 
-  const completed = story.subtasks.filter(st => st.status === 'done').length;
+  const completed = story.subtasks.filter(st => isTerminalStatus(config, 'subtask', st.status)).length;
   const total = story.subtasks.length;
   const percentage = Math.round((completed / total) * 100);
-  const nextSubtask = findNextSubtask(story);
+  const nextSubtask = findNextSubtask(story, config);
 
   return {
     hasSubtasks: true,
@@ -3,11 +3,13 @@ import { join, dirname } from 'path';
 
 import * as yaml from 'js-yaml';
 
-import type { StoryReviewFeedback } from '../types.js';
+import type { HistoryContext, StoryReviewFeedback } from '../types.js';
 
 import { createFileError } from '../../shared/errors.js';
 import { withLock } from '../../shared/file-lock.js';
 
+import { recordEvents, reviewEvent } from './history.js';
+
 /**
  * Reviews data structure
  */
@@ -76,13 +78,15 @@ function writeReviewsFile(data: ReviewsData): void {
  * @param round - Review round number
  * @param reviewer - Reviewer name
  * @param review - Review content
+ * @param context - Where the review was added (the reviewer is the actor by default)
  * @returns The created review object
  */
 export function addReview(
   storyId: string,
   round: number,
   reviewer: string,
-  review: string
+  review: string,
+  context: HistoryContext = {}
 ): Promise<StoryReviewFeedback> {
   return withLock(getReviewsFilePath(), () => {
     const data = readReviewsFile();
@@ -97,6 +101,7 @@ export function addReview(
 
     data.reviews.push(newReview);
     writeReviewsFile(data);
+    recordEvents([reviewEvent(newReview, context)]);
 
     return newReview;
   });
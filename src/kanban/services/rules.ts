@@ -0,0 +1,295 @@
+/**
+ * Workflow rules engine
+ * Checks status moves against the `rules` section of kanban.yaml together with the rules implied
+ * by status WIP limits and `workflow_rules`, returning every violation with a suggested fix.
+ * Rules that default to "done" or "in progress" resolve those against the configured statuses
+ * (see getCompletedStatus and isInProgressStatus).
+ */
+
+import type {
+  Config,
+  KanbanRule,
+  RuleMove,
+  RuleViolation,
+  Story,
+  Subtask,
+  WorkItemType
+} from '../types.js';
+import { RULE_TYPES } from '../types.js';
+
+import { getAllReviewsForStory } from './review-storage.js';
+import {
+  findStatus,
+  getCompletedStatus,
+  getStatusNames,
+  getStatuses,
+  getWipLimit,
+  isInProgressStatus,
+  isTerminalStatus
+} from './statuses.js';
+
+/**
+ * Rules in evaluation order: status WIP limits, then `workflow_rules`, then configured rules
+ */
+export function getRules(config: Config): KanbanRule[] {
+  const rules: KanbanRule[] = [];
+
+  for (const type of ['story', 'subtask'] as const) {
+    for (const status of getStatusNames(config, type)) {
+      const limit = getWipLimit(config, type, status);
+      // max_stories_in_progress only blocks moves at 1 (one story at a time); higher values are reported, not enforced
+      const enforced = findStatus(config, type, status)?.wip_limit !== undefined || limit === 1;
+      if (limit !== undefined && enforced) {
+        rules.push({ type: 'wip_limit', status, limit, applies_to: type });
+      }
+    }
+  }
+
+  if (config.workflow_rules?.all_subtasks_completed_before_review) {
+    rules.push({ type: 'subtasks_complete', status: 'in_review' });
+  }
+  rules.push({ type: 'subtasks_complete', status: getCompletedStatus(config, 'story') });
+  if (config.workflow_rules?.subtasks_require_story_in_progress) {
+    const completed = getCompletedStatus(config, 'subtask');
+    const statuses = getStatusNames(config, 'subtask')
+      .filter(status => status === completed || isInProgressStatus(config, 'subtask', status));
+    rules.push({ type: 'parent_in_progress', statuses });
+  }
+  rules.push({ type: 'dependencies_met', applies_to: 'subtask' });
+
+  return [...rules, ...(config.rules ?? [])];
+}
+
+/**
+ * Check a move against every rule, loading the story's review rounds if a rule needs them
+ */
+export async function evaluateMove(move: RuleMove): Promise<RuleViolation[]> {
+  const rules = getRules(move.config);
+  const completed = getCompletedStatus(move.config, 'story');
+  const needsReviews = rules.some(rule => rule.type === 'review_rounds' && (rule.status ?? completed) === move.newStatus);
+
+  if (needsReviews && move.type === 'story' && move.reviewRounds === undefined) {
+    const reviews = await getAllReviewsForStory(move.story.id);
+    move = { ...move, reviewRounds: new Set(reviews.map(review => review.round)).size };
+  }
+
+  return evaluateRules(move, rules);
+}
+
+/**
+ * Check a move against the given rules
+ */
+export function evaluateRules(move: RuleMove, rules: KanbanRule[] = getRules(move.config)): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+  for (const rule of rules) {
+    const violation = evaluateRule(move, rule);
+    if (violation) {
+      violations.push(violation);
+    }
+  }
+  return violations;
+}
+
+function evaluateRule(move: RuleMove, rule: KanbanRule): RuleViolation | null {
+  const { type, item, story, newStatus, config } = move;
+
+  switch (rule.type) {
+    case 'wip_limit': {
+      if (type !== (rule.applies_to ?? 'story') || newStatus !== rule.status) {
+        return null;
+      }
+      const siblings: Array<Story | Subtask> = type === 'story' ? move.allStories : story.subtasks ?? [];
+      const inStatus = siblings.filter(other => other.id !== item.id && other.status === newStatus);
+      if (inStatus.length < rule.limit) {
+        return null;
+      }
+      const ids = inStatus.map(other => other.id);
+      return {
+        rule: rule.type,
+        message: type === 'subtask'
+          ? `WIP limit reached: ${inStatus.length} subtasks of ${story.id} are already ${newStatus} (limit ${rule.limit}): ${ids.join(', ')}`
+          : newStatus === 'in_progress' && rule.limit === 1
+          ? `Story ${ids[0]} is already in progress. Only one story can be in progress at a time.`
+          : `WIP limit reached: ${inStatus.length} stories are already ${newStatus} (limit ${rule.limit}): ${ids.join(', ')}`,
+        suggestion: `Finish or move ${ids.join(', ')} out of ${newStatus} first`,
+        items: ids
+      };
+    }
+
+    case 'phase_limit': {
+      const statuses = rule.statuses ?? getStatusNames(config, 'story').filter(status => isInProgressStatus(config, 'story', status));
+      if (type !== 'story' || story.phase !== rule.phase || !statuses.includes(newStatus)) {
+        return null;
+      }
+      const inPhase = move.allStories.filter(other => other.id !== story.id && other.phase === rule.phase && statuses.includes(other.status));
+      if (inPhase.length < rule.limit) {
+        return null;
+      }
+      const ids = inPhase.map(other => other.id);
+      return {
+        rule: rule.type,
+        message: `Phase limit reached: ${inPhase.length} ${rule.phase} stories are already ${statuses.join('/')} (limit ${rule.limit}): ${ids.join(', ')}`,
+        suggestion: `Finish one of ${ids.join(', ')} first, or raise the ${rule.phase} phase_limit`,
+        items: ids
+      };
+    }
+
+    case 'required_field': {
+      if (type !== (rule.applies_to ?? 'story') || newStatus !== rule.status || isFieldSet(item, rule.field)) {
+        return null;
+      }
+      return {
+        rule: rule.type,
+        message: `Cannot move ${type} to ${newStatus}. ${rule.field} must be set first`,
+        suggestion: `Set ${rule.field} on ${item.id}, then move it to ${newStatus}`,
+        fields: [rule.field]
+      };
+    }
+
+    case 'review_rounds': {
+      const rounds = move.reviewRounds ?? 0;
+      if (type !== 'story' || newStatus !== (rule.status ?? getCompletedStatus(config, 'story')) || rounds >= rule.min_rounds) {
+        return null;
+      }
+      const missing = rule.min_rounds - rounds;
+      return {
+        rule: rule.type,
+        message: `Cannot move story to ${newStatus}. ${rule.min_rounds} review rounds are required, ${story.id} has ${rounds}`,
+        suggestion: `Run ${missing} more review round${missing === 1 ? '' : 's'} for ${story.id} before moving it to ${newStatus}`
+      };
+    }
+
+    case 'subtasks_complete': {
+      if (type !== 'story' || newStatus !== rule.status) {
+        return null;
+      }
+      const incomplete = (story.subtasks ?? []).filter(subtask => !isTerminalStatus(config, 'subtask', subtask.status));
+      if (incomplete.length === 0) {
+        return null;
+      }
+      const ids = incomplete.map(subtask => subtask.id);
+      return {
+        rule: rule.type,
+        message: `${newStatus === getCompletedStatus(config, 'story') ? 'Cannot complete story.' : `Cannot move to ${newStatus}.`} ${incomplete.length} subtasks are not done: ${ids.join(', ')}`,
+        suggestion: `Complete ${ids.join(', ')} first`,
+        items: ids
+      };
+    }
+
+    case 'parent_in_progress': {
+      if (type !== 'subtask' || !rule.statuses.includes(newStatus) || isInProgressStatus(config, 'story', story.status)) {
+        return null;
+      }
+      const started = getStatusNames(config, 'story').find(status => isInProgressStatus(config, 'story', status)) ?? 'in_progress';
+      return {
+        rule: rule.type,
+        message: `Cannot move subtask to ${newStatus}. The parent story must be ${started}. Current parent status: ${story.status}`,
+        suggestion: `Move ${story.id} to ${started} first`,
+        items: [story.id]
+      };
+    }
+
+    case 'dependencies_met': {
+      if (type !== (rule.applies_to ?? 'story') || (rule.status !== undefined && newStatus !== rule.status)) {
+        return null;
+      }
+      const candidates: Array<Story | Subtask> = type === 'story' ? move.allStories : story.subtasks ?? [];
+      const unmet = (item.dependent_upon ?? []).filter(depId => {
+        const dep = candidates.find(other => other.id === depId);
+        return !dep || !isTerminalStatus(config, type, dep.status);
+      });
+      if (unmet.length === 0) {
+        return null;
+      }
+      return {
+        rule: rule.type,
+        message: type === 'subtask'
+          ? `Cannot move subtask to ${newStatus}. Subtask dependencies not met: ${unmet.join(', ')}`
+          : `Cannot move story to ${newStatus}. Dependencies not met: ${unmet.join(', ')}`,
+        suggestion: `Complete ${unmet.join(', ')} first`,
+        items: unmet
+      };
+    }
+  }
+}
+
+function isFieldSet(item: Story | Subtask, field: string): boolean {
+  const value = (item as unknown as Record<string, unknown>)[field];
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return value !== undefined && value !== null && (typeof value !== 'string' || value.trim() !== '');
+}
+
+/**
+ * Problems with the `rules` section: unknown types, missing or invalid values and references to
+ * statuses or phases that aren't configured
+ */
+export function validateRulesConfig(config: Config): string[] {
+  if (config.rules === undefined) {
+    return [];
+  }
+  if (!Array.isArray(config.rules)) {
+    return ['config.rules must be an array'];
+  }
+
+  const problems: string[] = [];
+  config.rules.forEach((rule: KanbanRule, index) => {
+    const where = `config.rules[${index}]`;
+    if (!RULE_TYPES.includes(rule?.type)) {
+      problems.push(`${where} has unknown type "${String(rule?.type)}" (expected one of: ${RULE_TYPES.join(', ')})`);
+      return;
+    }
+
+    const checkStatus = (status: string | undefined, type: WorkItemType = 'story'): void => {
+      if (status !== undefined && !getStatuses(config, type).some(s => s.name === status)) {
+        problems.push(`${where} (${rule.type}) refers to unknown ${type} status "${status}"`);
+      }
+    };
+    const checkPositive = (value: number, name: string): void => {
+      if (!Number.isInteger(value) || value < 1) {
+        problems.push(`${where} (${rule.type}) ${name} must be a positive whole number`);
+      }
+    };
+    const checkRequired = (value: unknown, name: string): boolean => {
+      if (value === undefined || value === null || value === '') {
+        problems.push(`${where} (${rule.type}) is missing ${name}`);
+        return false;
+      }
+      return true;
+    };
+
+    switch (rule.type) {
+      case 'wip_limit':
+        if (checkRequired(rule.status, 'status')) checkStatus(rule.status, rule.applies_to);
+        checkPositive(rule.limit, 'limit');
+        break;
+      case 'phase_limit':
+        if (checkRequired(rule.phase, 'phase') && !config.phases.includes(rule.phase)) {
+          problems.push(`${where} (${rule.type}) refers to unknown phase "${rule.phase}"`);
+        }
+        checkPositive(rule.limit, 'limit');
+        (rule.statuses ?? []).forEach(status => checkStatus(status));
+        break;
+      case 'required_field':
+        if (checkRequired(rule.status, 'status')) checkStatus(rule.status, rule.applies_to);
+        checkRequired(rule.field, 'field');
+        break;
+      case 'review_rounds':
+        checkStatus(rule.status);
+        checkPositive(rule.min_rounds, 'min_rounds');
+        break;
+      case 'subtasks_complete':
+        if (checkRequired(rule.status, 'status')) checkStatus(rule.status);
+        break;
+      case 'parent_in_progress':
+        if (checkRequired(rule.statuses, 'statuses')) rule.statuses.forEach(status => checkStatus(status, 'subtask'));
+        break;
+      case 'dependencies_met':
+        checkStatus(rule.status, rule.applies_to);
+        break;
+    }
+  });
+
+  return problems;
+}
@@ -2,13 +2,14 @@
  * Hybrid keyword + semantic search for kanban stories and subtasks
  */
 
-import { readEmbeddings, saveEmbeddings } from '../core/storage.js';
+import { readEmbeddingIndex, readEmbeddings, saveEmbeddings } from '../core/storage.js';
 import type { Story, Subtask, StoryStatus, SubtaskStatus, KanbanSearchResult, SearchOptions } from '../types.js';
 
 import { generateEmbedding } from '../../shared/embeddings.js';
-import { hybridSearch, lazyRegenerateEmbeddings } from '../../shared/hybrid-search.js';
+import { getSemanticCandidateLimit, hybridSearch, lazyRegenerateEmbeddings } from '../../shared/hybrid-search.js';
+import { loadFusionConfig } from '../../shared/search-config.js';
 
-import type { KeywordScore } from '../../shared/types/search.js';
+import type { FusionConfig, KeywordScore } from '../../shared/types/search.js';
 
 /**
  * Searchable item (Story or Subtask with metadata)
@@ -113,7 +114,8 @@ async function searchStories(
   query: string,
   stories: Story[],
   limit: number,
-  similarityThreshold: number,
+  fusion: FusionConfig,
+  explain: boolean,
   statusFilter?: StoryStatus
 ): Promise<KanbanSearchResult[]> {
   // Filter by status if provided
@@ -138,17 +140,20 @@ async function searchStories(
     embeddings,
     keywordScoreFn: scoreStoryKeywords,
     generateEmbedding: async (q: string) => generateEmbedding(q),
-    similarityThreshold
+    semanticIndex: { ...readEmbeddingIndex(embeddings), limit: getSemanticCandidateLimit(limit) },
+    fusion,
+    explain
   });
 
   // Convert to KanbanSearchResult format
-  return results.slice(0, limit).map(({ item, score, reasons }) => ({
+  return results.slice(0, limit).map(({ item, score, reasons, explanation }) => ({
     type: 'story' as const,
     id: item.id,
     title: item.title,
     status: item.status,
     score,
-    match_reason: reasons.join(', ')
+    match_reason: reasons.join(', '),
+    ...(explanation && { explanation })
   }));
 }
 
@@ -159,7 +164,8 @@ async function searchSubtasks(
   query: string,
   stories: Story[],
   limit: number,
-  similarityThreshold: number,
+  fusion: FusionConfig,
+  explain: boolean,
   statusFilter?: SubtaskStatus,
   storyIdFilter?: string
 ): Promise<KanbanSearchResult[]> {
@@ -203,23 +209,28 @@ async function searchSubtasks(
     embeddings,
     keywordScoreFn: scoreSubtaskKeywords,
     generateEmbedding: async (q: string) => generateEmbedding(q),
-    similarityThreshold
+    semanticIndex: { ...readEmbeddingIndex(embeddings), limit: getSemanticCandidateLimit(limit) },
+    fusion,
+    explain
   });
 
   // Convert to KanbanSearchResult format
-  return results.slice(0, limit).map(({ item, score, reasons }) => ({
+  return results.slice(0, limit).map(({ item, score, reasons, explanation }) => ({
     type: 'subtask' as const,
     id: item.id,
     story_id: item.story_id,
     title: item.title,
     status: item.status,
     score,
-    match_reason: reasons.join(', ')
+    match_reason: reasons.join(', '),
+    ...(explanation && { explanation })
   }));
 }
 
 /**
  * Search kanban items (stories and/or subtasks) using hybrid search
+ * Scores are fused as configured for `kanban` in cc-devtools/search.yaml; an explicit
+ * similarityThreshold overrides the configured one.
  */
 export async function searchKanban(
   stories: Story[],
@@ -228,10 +239,11 @@ export async function searchKanban(
   const {
     query,
     limit = 5,
-    similarityThreshold = 0.3,
+    similarityThreshold,
     scope = 'stories',
     status,
-    storyId
+    storyId,
+    explain = false
   } = options;
 
   // Validate query
@@ -242,14 +254,21 @@ export async function searchKanban(
     };
   }
 
+  const configured = loadFusionConfig('kanban');
+  const fusion: FusionConfig = {
+    ...configured,
+    similarity_threshold: similarityThreshold ?? configured.similarity_threshold
+  };
+
   // Search based on scope
   if (scope === 'stories') {
     return searchStories(
       query,
       stories,
       limit,
-      similarityThreshold,
-      status as StoryStatus | undefined
+      fusion,
+      explain,
+      status
     );
   }
 
@@ -258,8 +277,9 @@ export async function searchKanban(
       query,
       stories,
       limit,
-      similarityThreshold,
-      status as SubtaskStatus | undefined,
+      fusion,
+      explain,
+      status,
       storyId
     );
   }
@@ -269,16 +289,18 @@ export async function searchKanban(
     query,
     stories,
     limit * 2, // Get more results initially
-    similarityThreshold,
-    status as StoryStatus | undefined
+    fusion,
+    explain,
+    status
   );
 
   const subtaskResults = await searchSubtasks(
     query,
     stories,
     limit * 2, // Get more results initially
-    similarityThreshold,
-    status as SubtaskStatus | undefined,
+    fusion,
+    explain,
+    status,
     storyId
   );
 
@@ -0,0 +1,179 @@
+/**
+ * Configured story and subtask statuses
+ * Statuses in kanban.yaml are bare names or definitions with metadata (label, WIP limit, terminal
+ * and in-progress flags, allowed transitions); everything that needs a status list or a status
+ * rule reads it here.
+ */
+
+import type {
+  Config,
+  StatusDefinition,
+  StatusEntry,
+  Story,
+  Subtask,
+  WorkItemType
+} from '../types.js';
+
+/** Labels that title case gets wrong */
+const DEFAULT_LABELS: Record<string, string> = {
+  todo: 'To Do'
+};
+
+/**
+ * Status definitions in column order, with labels and terminal and in-progress flags filled in
+ */
+export function getStatuses(config: Config, type: WorkItemType): StatusDefinition[] {
+  return (config.statuses[type] ?? []).map(normalizeStatus);
+}
+
+/**
+ * Status names in column order
+ */
+export function getStatusNames(config: Config, type: WorkItemType): string[] {
+  return getStatuses(config, type).map((status) => status.name);
+}
+
+export function findStatus(config: Config, type: WorkItemType, name: string): StatusDefinition | undefined {
+  return getStatuses(config, type).find((status) => status.name === name);
+}
+
+/**
+ * Whether a status marks finished work; unknown statuses are finished only if named `done`
+ */
+export function isTerminalStatus(config: Config, type: WorkItemType, name: string): boolean {
+  return findStatus(config, type, name)?.terminal ?? name === 'done';
+}
+
+/**
+ * Status new items start in
+ */
+export function getDefaultStatus(config: Config, type: WorkItemType): string {
+  return config.default_status?.[type] ?? 'todo';
+}
+
+/**
+ * Whether a status marks work under way: neither the default status nor a terminal one
+ */
+export function isActiveStatus(config: Config, type: WorkItemType, name: string): boolean {
+  return name !== getDefaultStatus(config, type) && !isTerminalStatus(config, type, name);
+}
+
+/**
+ * Whether a status marks work being done: an active status flagged `in_progress`; unknown
+ * statuses are in progress only if named `in_progress`
+ */
+export function isInProgressStatus(config: Config, type: WorkItemType, name: string): boolean {
+  const inProgress = findStatus(config, type, name)?.in_progress ?? name === 'in_progress';
+  return inProgress && isActiveStatus(config, type, name);
+}
+
+/**
+ * Status finished work moves to: `done` when it is terminal, otherwise the first terminal status
+ * in column order. Other terminal statuses (e.g. `cancelled`) close work without completing it.
+ */
+export function getCompletedStatus(config: Config, type: WorkItemType): string {
+  const terminal = getStatuses(config, type).filter((status) => status.terminal).map((status) => status.name);
+  return terminal.includes('done') ? 'done' : terminal[0] ?? 'done';
+}
+
+/**
+ * WIP limit of a status; `in_progress` stories fall back to workflow_rules.max_stories_in_progress,
+ * which moves only enforce when it is 1 (see getRules)
+ */
+export function getWipLimit(config: Config, type: WorkItemType, name: string): number | undefined {
+  const limit = findStatus(config, type, name)?.wip_limit;
+  if (limit !== undefined) {
+    return limit;
+  }
+  return type === 'story' && name === 'in_progress' ? config.workflow_rules.max_stories_in_progress : undefined;
+}
+
+/**
+ * Set an item's status, recording when it enters a terminal status and clearing that when it
+ * leaves one
+ */
+export function applyStatus<T extends Story | Subtask>(
+  item: T,
+  newStatus: string,
+  type: WorkItemType,
+  config: Config,
+  timestamp: string = new Date().toISOString()
+): T {
+  const wasTerminal = isTerminalStatus(config, type, item.status);
+  const isTerminal = isTerminalStatus(config, type, newStatus);
+
+  item.status = newStatus;
+  item.updated_at = timestamp;
+  if (isTerminal && !wasTerminal) {
+    item.completion_timestamp = timestamp;
+  } else if (!isTerminal && wasTerminal) {
+    item.completion_timestamp = undefined;
+  }
+
+  return item;
+}
+
+/**
+ * Problems with the `statuses` section: duplicate names, transitions to unknown statuses,
+ * invalid WIP limits, statuses flagged both terminal and in progress and default statuses that
+ * aren't configured
+ */
+export function validateStatusConfig(config: Config): string[] {
+  const problems: string[] = [];
+
+  for (const type of ['story', 'subtask'] as const) {
+    const statuses: StatusDefinition[] = [];
+    const names = new Set<string>();
+
+    for (const entry of config.statuses[type] ?? []) {
+      if (typeof entry !== 'string' && typeof entry?.name !== 'string') {
+        problems.push(`config.statuses.${type} entries must be a status name or have a name`);
+        continue;
+      }
+      const status = normalizeStatus(entry);
+      if (names.has(status.name)) {
+        problems.push(`config.statuses.${type} lists "${status.name}" more than once`);
+      }
+      if (status.wip_limit !== undefined && (!Number.isInteger(status.wip_limit) || status.wip_limit < 1)) {
+        problems.push(`config.statuses.${type} "${status.name}" wip_limit must be a positive whole number`);
+      }
+      if (status.terminal && status.in_progress) {
+        problems.push(`config.statuses.${type} "${status.name}" cannot be both terminal and in_progress`);
+      }
+      names.add(status.name);
+      statuses.push(status);
+    }
+
+    for (const status of statuses) {
+      const unknown = (status.transitions ?? []).filter((target) => !names.has(target));
+      if (unknown.length > 0) {
+        problems.push(`config.statuses.${type} "${status.name}" transitions to unknown statuses: ${unknown.join(', ')}`);
+      }
+    }
+
+    const defaultStatus = config.default_status?.[type];
+    if (defaultStatus && names.size > 0 && !names.has(defaultStatus)) {
+      problems.push(`config.default_status.${type} "${defaultStatus}" is not a configured ${type} status`);
+    }
+  }
+
+  return problems;
+}
+
+function normalizeStatus(entry: StatusEntry): StatusDefinition {
+  const status = typeof entry === 'string' ? { name: entry } : entry;
+  return {
+    ...status,
+    label: status.label ?? DEFAULT_LABELS[status.name] ?? toTitleCase(status.name),
+    terminal: status.terminal ?? status.name === 'done',
+    in_progress: status.in_progress ?? status.name === 'in_progress'
+  };
+}
+
+function toTitleCase(name: string): string {
+  return name
+    .split(/[_\s-]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
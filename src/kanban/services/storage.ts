@@ -5,6 +5,7 @@ import * as yaml from 'js-yaml';
 
 import type {
   KanbanData,
+  HistoryContext,
   Story,
   Config,
   ParsedId,
@@ -17,6 +18,8 @@ import type {
 import { createFileError, createInvalidInputError } from '../../shared/errors.js';
 import { withLock } from '../../shared/file-lock.js';
 
+import { diffStories, recordEvents } from './history.js';
+
 /**
  * Get the kanban file path (evaluated at runtime to support testing)
  * The kanban.yaml is stored in the USER's project at cc-devtools/kanban.yaml
@@ -122,13 +125,15 @@ export function readStory(storyId: string): Promise<Story | null> {
 }
 
 /**
- * Save/update a story
+ * Save/update a story, recording what changed in the event log
  * @param story - Complete story object with id
+ * @param context - Who made the change and where
  */
-export function saveStory(story: Story): Promise<void> {
+export function saveStory(story: Story, context: HistoryContext = {}): Promise<void> {
   return withLock(getKanbanFilePath(), () => {
     const data = readKanban();
     const index = data.stories.findIndex(s => s.id === story.id);
+    const previous = index >= 0 ? data.stories[index] : null;
 
     if (index >= 0) {
       // Update existing
@@ -138,16 +143,18 @@ export function saveStory(story: Story): Promise<void> {
       data.stories.push(story);
     }
 
-    return writeKanban(data);
+    writeKanban(data);
+    recordEvents(diffStories(previous, story, context));
   });
 }
 
 /**
  * Delete a story and all its subtasks
  * @param storyId - Story ID to delete
+ * @param context - Who made the change and where
  * @returns Deleted story object or null if not found
  */
-export function deleteStory(storyId: string): Promise<Story | null> {
+export function deleteStory(storyId: string, context: HistoryContext = {}): Promise<Story | null> {
   return withLock(getKanbanFilePath(), () => {
     const data = readKanban();
     const index = data.stories.findIndex(s => s.id === storyId);
@@ -156,6 +163,7 @@ export function deleteStory(storyId: string): Promise<Story | null> {
       const deletedStory = data.stories[index];
       data.stories.splice(index, 1);
       writeKanban(data);
+      recordEvents(diffStories(deletedStory, null, context));
       return deletedStory;
     }
 
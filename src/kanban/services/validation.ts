@@ -3,18 +3,23 @@ import type {
   Config,
   StoryStatus,
   SubtaskStatus,
+  WorkItemType,
   ValidationResult,
   StatusTransitionResult,
   DependenciesResult,
   MaxInProgressResult,
   SubtasksCompleteResult,
-  DependencyValidationResult
+  DependencyValidationResult,
+  RuleViolation
 } from '../types.js';
 
-import { readConfig } from './storage.js';
+import { findDependencyCycles } from './graph.js';
+import { evaluateMove } from './rules.js';
+import { getDefaultStatus, getStatusNames, getWipLimit, isTerminalStatus, findStatus } from './statuses.js';
+import { getDefaultConfig, readConfig } from './storage.js';
 
 /**
- * Validate story status move
+ * Validate story status move against the configured statuses and rules
  * @param storyId - Story ID
  * @param newStatus - Target status
  * @param allStories - All stories
@@ -38,56 +43,21 @@ export async function validateStoryMove(
     return { valid: false, error: `Story ${storyId} not found` };
   }
 
-  // Validate status is valid
-  if (!config.statuses.story.includes(newStatus)) {
-    return { valid: false, error: `Invalid status: ${newStatus}` };
+  const statusViolation = checkStatusMove(story.status, newStatus, config, 'story');
+  if (statusViolation) {
+    return buildValidationResult([statusViolation], story, allStories);
   }
 
-  // Check max stories in progress
-  if (newStatus === 'in_progress' && config.workflow_rules.max_stories_in_progress === 1) {
-    const inProgressStories = allStories.filter(s => s.id !== storyId && s.status === 'in_progress');
-    if (inProgressStories.length > 0) {
-      return {
-        valid: false,
-        error: `Story ${inProgressStories[0].id} is already in progress. Only one story can be in progress at a time.`,
-        blockingStories: inProgressStories
-      };
-    }
-  }
-
-  // Check subtasks completed before review
-  if (newStatus === 'in_review' && config.workflow_rules.all_subtasks_completed_before_review) {
-    const result = checkSubtasksComplete(story);
-    if (!result.complete) {
-      return {
-        valid: false,
-        error: `Cannot move to in_review. ${result.incomplete.length} subtasks are not done: ${result.incomplete.map(s => s.id).join(', ')}`,
-        incompleteSubtasks: result.incomplete
-      };
-    }
-  }
-
-  // Check all subtasks completed before completion
-  if (newStatus === 'done') {
-    const result = checkSubtasksComplete(story);
-    if (!result.complete) {
-      return {
-        valid: false,
-        error: `Cannot complete story. ${result.incomplete.length} subtasks are not done: ${result.incomplete.map(s => s.id).join(', ')}`,
-        incompleteSubtasks: result.incomplete
-      };
-    }
-  }
-
-  return { valid: true };
+  const violations = await evaluateMove({ type: 'story', item: story, story, newStatus, allStories, config });
+  const cycleViolation = checkDependencyCycle(story.id, newStatus, allStories, config, 'story');
+  return buildValidationResult(cycleViolation ? [...violations, cycleViolation] : violations, story, allStories);
 }
 
 /**
- * Validate subtask status move
- * @param storyId - Parent story ID
+ * Validate subtask status move against the configured statuses and rules
  * @param subtaskId - Subtask ID
  * @param newStatus - Target status
- * @param story - Parent story object
+ * @param allStories - All stories
  * @param config - Config object (optional, will read if not provided)
  * @returns Validation result
  */
@@ -121,41 +91,105 @@ export async function validateSubtaskMove(
     return { valid: false, error: `Subtask ${subtaskId} not found` };
   }
 
-  // Validate status is valid
-  if (!config.statuses.subtask.includes(newStatus)) {
-    return { valid: false, error: `Invalid status: ${newStatus}` };
+  const statusViolation = checkStatusMove(subtask.status, newStatus, config, 'subtask');
+  if (statusViolation) {
+    return buildValidationResult([statusViolation], parentStory, allStories);
   }
 
-  // Subtasks require parent story in_progress
-  if ((newStatus === 'in_progress' || newStatus === 'done') && config.workflow_rules.subtasks_require_story_in_progress) {
-    if (parentStory.status !== 'in_progress') {
-      return {
-        valid: false,
-        error: `Cannot move subtask to ${newStatus}. The parent story must be in_progress. Current parent status: ${parentStory.status}`
-      };
-    }
+  const violations = await evaluateMove({ type: 'subtask', item: subtask, story: parentStory, newStatus, allStories, config });
+  const cycleViolation = checkDependencyCycle(subtask.id, newStatus, allStories, config, 'subtask');
+  return buildValidationResult(cycleViolation ? [...violations, cycleViolation] : violations, parentStory, allStories);
+}
+
+/**
+ * Check the target status is configured and reachable from the current one
+ */
+function checkStatusMove(currentStatus: string, newStatus: string, config: Config, type: WorkItemType): RuleViolation | null {
+  const statuses = getStatusNames(config, type);
+  if (!statuses.includes(newStatus)) {
+    return {
+      rule: 'invalid_status',
+      message: `Invalid status: ${newStatus}. Allowed statuses: ${statuses.join(', ')}`,
+      suggestion: `Use one of: ${statuses.join(', ')}`
+    };
   }
 
-  // Check subtask dependencies
-  if (subtask.dependent_upon && subtask.dependent_upon.length > 0 && parentStory.subtasks) {
-    const unmetDeps: string[] = [];
-    for (const depId of subtask.dependent_upon) {
-      const depSubtask = parentStory.subtasks.find(s => s.id === depId);
-      if (!depSubtask || depSubtask.status !== 'done') {
-        unmetDeps.push(depId);
-      }
-    }
+  if (currentStatus === newStatus) {
+    return null;
+  }
 
-    if (unmetDeps.length > 0) {
-      return {
-        valid: false,
-        error: `Cannot move subtask to ${newStatus}. Subtask dependencies not met: ${unmetDeps.join(', ')}`,
-        blockingDependencies: unmetDeps
-      };
-    }
+  const transition = validateStatusTransition(currentStatus, newStatus, config, type);
+  if (transition.valid) {
+    return null;
   }
+  const allowed = findStatus(config, type, currentStatus)?.transitions ?? [];
+  return {
+    rule: 'transition',
+    message: transition.reason ?? `Cannot move ${type} from ${currentStatus} to ${newStatus}`,
+    suggestion: allowed.length > 0
+      ? `Move it to ${allowed.join(' or ')} instead`
+      : `Nothing can leave ${currentStatus}; add transitions to the ${currentStatus} status to allow it`
+  };
+}
 
-  return { valid: true };
+/**
+ * Work can't start or finish on an item whose dependencies loop back to it, since they can never
+ * all be done first; moving it back to the default status is still allowed
+ */
+function checkDependencyCycle(
+  id: string,
+  newStatus: string,
+  allStories: Story[],
+  config: Config,
+  type: WorkItemType
+): RuleViolation | null {
+  if (newStatus === getDefaultStatus(config, type)) {
+    return null;
+  }
+  const cycle = findDependencyCycles(allStories, config).find(ids => ids.includes(id));
+  if (!cycle) {
+    return null;
+  }
+  const start = cycle.indexOf(id);
+  const ordered = [...cycle.slice(start), ...cycle.slice(0, start)];
+  const last = ordered[ordered.length - 1];
+  return {
+    rule: 'dependency_cycle',
+    message: `Dependency cycle: ${[...ordered, id].join(' → ')}`,
+    suggestion: ordered.length === 1
+      ? `Remove ${id} from its own dependent_upon`
+      : `Remove ${id} from the dependent_upon of ${last}, or break the cycle elsewhere`,
+    items: ordered
+  };
+}
+
+/**
+ * Turn rule violations into a validation result, resolving the items they name
+ */
+function buildValidationResult(violations: RuleViolation[], story: Story, allStories: Story[]): ValidationResult {
+  if (violations.length === 0) {
+    return { valid: true };
+  }
+
+  const result: ValidationResult = { valid: false, error: violations[0].message, violations };
+  const itemsOf = (...rules: RuleViolation['rule'][]): string[] | undefined =>
+    violations.find(violation => rules.includes(violation.rule) && violation.items)?.items;
+
+  const blocking = itemsOf('wip_limit', 'phase_limit');
+  const blockingStories = allStories.filter(s => blocking?.includes(s.id) === true);
+  if (blockingStories.length > 0) {
+    result.blockingStories = blockingStories;
+  }
+  const incomplete = itemsOf('subtasks_complete');
+  if (incomplete) {
+    result.incompleteSubtasks = (story.subtasks ?? []).filter(s => incomplete.includes(s.id));
+  }
+  const dependencies = itemsOf('dependencies_met');
+  if (dependencies) {
+    result.blockingDependencies = dependencies;
+  }
+
+  return result;
 }
 
 /**
@@ -172,7 +206,7 @@ export async function checkMaxInProgress(allStories: Story[], config: Config | n
     config = await readConfig();
   }
 
-  const max = config.workflow_rules.max_stories_in_progress;
+  const max = getWipLimit(config, 'story', 'in_progress') ?? config.workflow_rules.max_stories_in_progress;
 
   return {
     violated: inProgressStories.length > max,
@@ -182,16 +216,17 @@ export async function checkMaxInProgress(allStories: Story[], config: Config | n
 }
 
 /**
- * Check if all subtasks are complete
+ * Check if all subtasks are complete (in a terminal status)
  * @param story - Story object
+ * @param config - Config object (optional, defaults to the built-in statuses)
  * @returns Subtasks completion check result
  */
-export function checkSubtasksComplete(story: Story): SubtasksCompleteResult {
+export function checkSubtasksComplete(story: Story, config: Config = getDefaultConfig()): SubtasksCompleteResult {
   if (!story.subtasks || story.subtasks.length === 0) {
     return { complete: true, incomplete: [], total: 0, completed: 0 };
   }
 
-  const incomplete = story.subtasks.filter(s => s.status !== 'done');
+  const incomplete = story.subtasks.filter(s => !isTerminalStatus(config, 'subtask', s.status));
 
   return {
     complete: incomplete.length === 0,
@@ -202,12 +237,13 @@ export function checkSubtasksComplete(story: Story): SubtasksCompleteResult {
 }
 
 /**
- * Check if story dependencies are met
+ * Check if story dependencies are met (in a terminal status)
  * @param storyId - Story ID to check
  * @param allStories - All stories
+ * @param config - Config object (optional, defaults to the built-in statuses)
  * @returns Dependencies check result
  */
-export function checkDependenciesMet(storyId: string, allStories: Story[]): DependenciesResult {
+export function checkDependenciesMet(storyId: string, allStories: Story[], config: Config = getDefaultConfig()): DependenciesResult {
   const story = allStories.find(s => s.id === storyId);
 
   if (!story?.dependent_upon || story.dependent_upon.length === 0) {
@@ -217,7 +253,7 @@ export function checkDependenciesMet(storyId: string, allStories: Story[]): Depe
   const blocking: Story[] = [];
   for (const depId of story.dependent_upon) {
     const depStory = allStories.find(s => s.id === depId);
-    if (!depStory || depStory.status !== 'done') {
+    if (!depStory || !isTerminalStatus(config, 'story', depStory.status)) {
       // Create a placeholder story if not found
       blocking.push(depStory ?? { id: depId, status: 'todo', phase: 'MVP', title: 'Not found' } as Story);
     }
@@ -230,21 +266,31 @@ export function checkDependenciesMet(storyId: string, allStories: Story[]): Depe
 }
 
 /**
- * Validate a status transition is logical
+ * Validate a status transition against the transitions configured for the current status
  * @param currentStatus - Current status
  * @param newStatus - New status
+ * @param config - Config object (optional, defaults to the built-in statuses, which allow any move)
  * @param type - 'story' or 'subtask'
  * @returns Status transition validation result
  */
 export function validateStatusTransition(
   currentStatus: string,
-  newStatus: string
+  newStatus: string,
+  config: Config = getDefaultConfig(),
+  type: WorkItemType = 'story'
 ): StatusTransitionResult {
   if (currentStatus === newStatus) {
     return { valid: false, reason: 'Status is already ' + newStatus };
   }
 
-  // Allow any transition for now - workflow rules handle the constraints
+  const allowed = findStatus(config, type, currentStatus)?.transitions;
+  if (allowed && !allowed.includes(newStatus)) {
+    return {
+      valid: false,
+      reason: `Cannot move ${type} from ${currentStatus} to ${newStatus}. Allowed from ${currentStatus}: ${allowed.length > 0 ? allowed.join(', ') : 'none'}`
+    };
+  }
+
   return { valid: true };
 }
 
@@ -8,7 +8,7 @@ import { readAllStories, readConfig } from "../services/storage.js";
 export async function handleGetWorkItem(includeDetails = false): Promise<Record<string, unknown>> {
   const allStories = await readAllStories();
   const config = await readConfig();
-  const next = getNextWorkItem(allStories, config.phases);
+  const next = getNextWorkItem(allStories, config.phases, config);
 
   if (!next) {
     return {
@@ -56,7 +56,7 @@ export async function handleGetWorkItem(includeDetails = false): Promise<Record<
         throw new Error("Story object missing from next work item");
       }
 
-      const progress = analyzeProgress(story);
+      const progress = analyzeProgress(story, config);
       const formattedStory = formatStoryOutput(story, outputMode);
 
       if (story.status === "in_progress") {
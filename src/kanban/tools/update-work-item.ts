@@ -1,3 +1,4 @@
+import { applyStatus } from "../services/statuses.js";
 import {
   readAllStories,
   readStory,
@@ -10,7 +11,6 @@ import {
   validateSubtaskMove,
   checkSubtasksComplete,
 } from "../services/validation.js";
-import type { StoryStatus, SubtaskStatus } from "../types.js";
 
 import type { UpdateWorkItemArgs } from "./types.js";
 
@@ -32,29 +32,23 @@ export async function handleUpdateWorkItem(args: UpdateWorkItemArgs): Promise<Re
     const suggestions: string[] = [];
 
     if (parsed.type === "story") {
-      const validationResult = await validateStoryMove(story.id, newStatus as StoryStatus, allStories, config);
+      const validationResult = await validateStoryMove(story.id, newStatus, allStories, config);
 
       if (!validationResult.valid) {
         return {
           success: false,
           message: validationResult.error,
           validation_errors: validationResult.blockingStories
-            ? validationResult.blockingStories.map((s) => `${s.id} is already in progress`)
+            ? validationResult.blockingStories.map((s) => `${s.id} is already ${s.status}`)
             : validationResult.incompleteSubtasks
             ? validationResult.incompleteSubtasks.map((s) => `${s.id} not complete`)
             : [],
+          violations: validationResult.violations ?? [],
         };
       }
 
       oldStatus = story.status;
-      story.status = newStatus as StoryStatus;
-      story.updated_at = timestamp;
-
-      if (newStatus === "done") {
-        story.completion_timestamp = timestamp;
-      } else if (oldStatus === "done") {
-        story.completion_timestamp = undefined;
-      }
+      applyStatus(story, newStatus, "story", config, timestamp);
 
       if (implementation_notes) {
         const noteText = `\n[${newStatus.toUpperCase()} on ${timestamp.split('T')[0]}]: ${implementation_notes}`;
@@ -64,9 +58,9 @@ export async function handleUpdateWorkItem(args: UpdateWorkItemArgs): Promise<Re
         suggestions.push("You should document what was done for future reference.");
       }
 
-      await saveStory(story);
+      await saveStory(story, { source: 'mcp' });
 
-      const allSubtasksComplete = checkSubtasksComplete(story).complete;
+      const allSubtasksComplete = checkSubtasksComplete(story, config).complete;
 
       if (newStatus === "in_progress" && (!story.subtasks || story.subtasks.length === 0)) {
         const effort = story.effort_estimation_hours ?? 0;
@@ -97,25 +91,19 @@ export async function handleUpdateWorkItem(args: UpdateWorkItemArgs): Promise<Re
         throw new Error(`Subtask ${item_id} not found`);
       }
 
-      const validationResult = await validateSubtaskMove(item_id, newStatus as SubtaskStatus, allStories, config);
+      const validationResult = await validateSubtaskMove(item_id, newStatus, allStories, config);
 
       if (!validationResult.valid) {
         return {
           success: false,
           message: validationResult.error,
           validation_errors: [validationResult.error],
+          violations: validationResult.violations ?? [],
         };
       }
 
       oldStatus = subtask.status;
-      subtask.status = newStatus as SubtaskStatus;
-      subtask.updated_at = timestamp;
-
-      if (newStatus === "done") {
-        subtask.completion_timestamp = timestamp;
-      } else if (oldStatus === "done") {
-        subtask.completion_timestamp = undefined;
-      }
+      applyStatus(subtask, newStatus, "subtask", config, timestamp);
 
       if (implementation_notes) {
         const noteText = `\n[${newStatus.toUpperCase()} on ${timestamp.split('T')[0]}]: ${implementation_notes}`;
@@ -127,9 +115,9 @@ export async function handleUpdateWorkItem(args: UpdateWorkItemArgs): Promise<Re
 
       story.updated_at = timestamp;
 
-      await saveStory(story);
+      await saveStory(story, { source: 'mcp' });
 
-      const allSubtasksComplete = checkSubtasksComplete(story).complete;
+      const allSubtasksComplete = checkSubtasksComplete(story, config).complete;
       const nextSubtask = story.subtasks?.find((st) => st.status === "todo");
 
       if (newStatus === "done" && nextSubtask) {
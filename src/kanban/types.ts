@@ -2,6 +2,8 @@
  * Core types for the Kanban system
  */
 
+import type { ScoreExplanation } from '../shared/types/search.js';
+
 /**
  * Re-export error codes and types from shared library
  */
@@ -9,14 +11,20 @@ export { ErrorCodes, type ErrorCode } from '../shared/types/errors.js';
 export { type CCDevToolsError as KanbanError } from '../shared/errors.js';
 
 /**
- * Story status types
+ * Story status - one of the names configured under `statuses.story` in kanban.yaml
+ * `todo`, `in_progress`, `in_review` and `done` keep their workflow meaning when configured.
+ */
+export type StoryStatus = string;
+
+/**
+ * Subtask status - one of the names configured under `statuses.subtask` in kanban.yaml
  */
-export type StoryStatus = 'todo' | 'in_progress' | 'in_review' | 'done';
+export type SubtaskStatus = string;
 
 /**
- * Subtask status types
+ * Kind of work item
  */
-export type SubtaskStatus = 'todo' | 'in_progress' | 'done';
+export type WorkItemType = 'story' | 'subtask';
 
 /**
  * Business value types
@@ -88,11 +96,170 @@ export interface DefaultStatus {
 }
 
 /**
- * Status configuration
+ * A status and its metadata, as configured under `statuses` in kanban.yaml
+ */
+export interface StatusDefinition {
+  name: string;
+  /** Column title; defaults to the name in title case */
+  label?: string;
+  /** Column colour in the web UI, as a CSS colour */
+  color?: string;
+  /** Most items in this status at once: stories on the board, or subtasks within a story */
+  wip_limit?: number;
+  /**
+   * Finished work: counts as complete for dependencies and subtask checks, gets a completion
+   * timestamp and is never recommended. Defaults to true for `done` only.
+   */
+  terminal?: boolean;
+  /**
+   * Work being done: counts against phase limits and lets subtasks start. Defaults to true for
+   * `in_progress` only; ignored on the default and terminal statuses.
+   */
+  in_progress?: boolean;
+  /** Statuses an item may move to from this one; any configured status when omitted */
+  transitions?: string[];
+}
+
+/**
+ * A status as written in kanban.yaml: a bare name or a definition with metadata
+ */
+export type StatusEntry = string | StatusDefinition;
+
+/**
+ * Status configuration - columns appear in list order
  */
 export interface StatusConfig {
-  story: StoryStatus[];
-  subtask: SubtaskStatus[];
+  story: StatusEntry[];
+  subtask: StatusEntry[];
+}
+
+/**
+ * Most items in a status at once: stories on the board, or subtasks within one story
+ */
+export interface WipLimitRule {
+  type: 'wip_limit';
+  status: string;
+  limit: number;
+  /** Defaults to story */
+  applies_to?: WorkItemType;
+}
+
+/**
+ * Most stories of a phase in the given statuses at once
+ */
+export interface PhaseLimitRule {
+  type: 'phase_limit';
+  phase: Phase;
+  limit: number;
+  /** Statuses counted against the limit; defaults to the statuses flagged in_progress */
+  statuses?: string[];
+}
+
+/**
+ * A field that must be set (non-empty) before an item moves to a status
+ */
+export interface RequiredFieldRule {
+  type: 'required_field';
+  status: string;
+  field: string;
+  /** Defaults to story */
+  applies_to?: WorkItemType;
+}
+
+/**
+ * Review rounds (in cc-devtools/reviews.yaml) a story needs before moving to a status
+ */
+export interface ReviewRoundsRule {
+  type: 'review_rounds';
+  /** Defaults to the completed status: done, or the first terminal status */
+  status?: string;
+  min_rounds: number;
+}
+
+/**
+ * Subtasks that must be in a terminal status before a story moves to a status
+ */
+export interface SubtasksCompleteRule {
+  type: 'subtasks_complete';
+  status: string;
+}
+
+/**
+ * Statuses a subtask may only move to while its story is in_progress
+ */
+export interface ParentInProgressRule {
+  type: 'parent_in_progress';
+  statuses: string[];
+}
+
+/**
+ * Dependencies that must be in a terminal status before an item moves to a status
+ */
+export interface DependenciesMetRule {
+  type: 'dependencies_met';
+  /** Any status when omitted */
+  status?: string;
+  /** Defaults to story */
+  applies_to?: WorkItemType;
+}
+
+/**
+ * A declarative workflow rule, as configured under `rules` in kanban.yaml
+ */
+export type KanbanRule =
+  | WipLimitRule
+  | PhaseLimitRule
+  | RequiredFieldRule
+  | ReviewRoundsRule
+  | SubtasksCompleteRule
+  | ParentInProgressRule
+  | DependenciesMetRule;
+
+/**
+ * Rule types, for validating the `rules` section
+ */
+export const RULE_TYPES: KanbanRule['type'][] = [
+  'wip_limit',
+  'phase_limit',
+  'required_field',
+  'review_rounds',
+  'subtasks_complete',
+  'parent_in_progress',
+  'dependencies_met'
+];
+
+/**
+ * A status move checked by the rules engine
+ */
+export interface RuleMove {
+  type: WorkItemType;
+  /** Story or subtask being moved */
+  item: Story | Subtask;
+  /** The story itself, or the subtask's parent story */
+  story: Story;
+  newStatus: string;
+  allStories: Story[];
+  config: Config;
+  /** Review rounds recorded for the story; loaded from reviews.yaml when a review_rounds rule needs it */
+  reviewRounds?: number;
+}
+
+/**
+ * A rule a status move breaks, with how to fix it
+ */
+export interface RuleViolation {
+  /**
+   * Rule type, `invalid_status`/`transition` for moves the status configuration forbids, or
+   * `dependency_cycle` for work on an item whose dependencies loop back to it
+   */
+  rule: KanbanRule['type'] | 'invalid_status' | 'transition' | 'dependency_cycle';
+  message: string;
+  /** Suggested fix */
+  suggestion: string;
+  /** IDs of the items causing the violation (blocking stories, incomplete subtasks, unmet dependencies) */
+  items?: string[];
+  /** Fields that must be set, for required_field violations */
+  fields?: string[];
 }
 
 /**
@@ -104,6 +271,8 @@ export interface Config {
   phases: Phase[];
   default_status: DefaultStatus;
   workflow_rules: WorkflowRules;
+  /** Declarative rules, checked with the rules implied by statuses and workflow_rules */
+  rules?: KanbanRule[];
 }
 
 /**
@@ -118,7 +287,7 @@ export interface KanbanData {
  * Parsed ID result
  */
 export interface ParsedId {
-  type: 'story' | 'subtask';
+  type: WorkItemType;
   storyId: string;
   subtaskNum?: number;
 }
@@ -132,6 +301,8 @@ export interface ValidationResult {
   blockingStories?: Story[];
   incompleteSubtasks?: Subtask[];
   blockingDependencies?: string[];
+  /** Every rule the move breaks, in evaluation order; `error` is the first one's message */
+  violations?: RuleViolation[];
 }
 
 /**
@@ -282,14 +453,9 @@ export interface StatusChangeSuggestion {
 }
 
 /**
- * Groups of stories by status
+ * Groups of stories by status, with every configured status present
  */
-export interface StoriesByStatus {
-  todo: Story[];
-  in_progress: Story[];
-  in_review: Story[];
-  done: Story[];
-}
+export type StoriesByStatus = Record<StoryStatus, Story[]>;
 
 /**
  * Groups of stories by phase
@@ -314,6 +480,66 @@ export interface StoryReviewFeedback {
   timestamp: string;
 }
 
+/**
+ * Kind of change recorded in the kanban event log
+ */
+export type KanbanEventType =
+  | 'story_created'
+  | 'story_deleted'
+  | 'subtask_created'
+  | 'subtask_deleted'
+  | 'status_changed'
+  | 'field_changed'
+  | 'review_added';
+
+/**
+ * Event types, for validating history filters
+ */
+export const KANBAN_EVENT_TYPES: KanbanEventType[] = [
+  'story_created',
+  'story_deleted',
+  'subtask_created',
+  'subtask_deleted',
+  'status_changed',
+  'field_changed',
+  'review_added'
+];
+
+/**
+ * Where a change was made
+ */
+export type KanbanEventSource = 'cli' | 'mcp' | 'web' | 'workflow';
+
+/**
+ * An entry in the append-only event log (cc-devtools/kanban-history.jsonl)
+ */
+export interface KanbanEvent {
+  timestamp: string;
+  type: KanbanEventType;
+  /** Story or subtask the event is about */
+  id: string;
+  story_id: string;
+  actor: string;
+  source?: KanbanEventSource;
+  /** Changed field for field_changed, `status` for status_changed */
+  field?: string;
+  from?: unknown;
+  to?: unknown;
+  /** Title of created and deleted items */
+  title?: string;
+  /** Review round for review_added */
+  round?: number;
+}
+
+/**
+ * Who made a change and where, recorded with its events
+ * The actor defaults to CC_DEVTOOLS_ACTOR, then the OS user.
+ */
+export interface HistoryContext {
+  actor?: string;
+  source?: KanbanEventSource;
+}
+
 /**
  * Search result type
  */
@@ -322,9 +548,12 @@ export interface KanbanSearchResult {
   id: string;
   story_id?: string;
   title: string;
-  status: StoryStatus | SubtaskStatus;
+  /** Story or subtask status */
+  status: string;
   score: number;
   match_reason: string;
+  /** Per-signal score breakdown, present when searching with explain */
+  explanation?: ScoreExplanation;
 }
 
 /**
@@ -333,8 +562,206 @@ export interface KanbanSearchResult {
 export interface SearchOptions {
   query: string;
   limit?: number;
+  /** Overrides similarity_threshold from cc-devtools/search.yaml */
   similarityThreshold?: number;
   scope?: 'stories' | 'subtasks' | 'both';
-  status?: StoryStatus | SubtaskStatus;
+  /** Story or subtask status */
+  status?: string;
   storyId?: string;
+  /** Attach a per-signal score breakdown to each result */
+  explain?: boolean;
+}
+
+/**
+ * Analytics report sections, for `kanban analytics --report`
+ */
+export type AnalyticsReport = 'summary' | 'cycle-time' | 'throughput' | 'estimates' | 'cfd' | 'burndown';
+
+export const ANALYTICS_REPORTS: AnalyticsReport[] = ['summary', 'cycle-time', 'throughput', 'estimates', 'cfd', 'burndown'];
+
+/**
+ * Analytics output formats, for `kanban analytics --format`
+ */
+export type AnalyticsFormat = 'json' | 'table' | 'csv';
+
+export const ANALYTICS_FORMATS: AnalyticsFormat[] = ['json', 'table', 'csv'];
+
+/**
+ * Options for computing analytics
+ */
+export interface AnalyticsOptions {
+  /** First day (YYYY-MM-DD) of the daily series; defaults to 30 days before `until` */
+  since?: string;
+  /** Last day (YYYY-MM-DD) of the daily series; defaults to today */
+  until?: string;
+  /** Only stories of this phase */
+  phase?: Phase;
+}
+
+/**
+ * When a story was created, started and finished, from the event log
+ * Stories finished before the event log existed fall back to completion_timestamp.
+ */
+export interface StoryFlowMetrics {
+  id: string;
+  title: string;
+  phase: Phase;
+  status: StoryStatus;
+  created_at?: string;
+  /** First move out of the default status */
+  started_at?: string;
+  /** Last move into the completed status, if the story is still in it */
+  completed_at?: string;
+  /** Days from started_at to completed_at */
+  cycle_time_days?: number;
+  /** Days from created_at to completed_at */
+  lead_time_days?: number;
+}
+
+/**
+ * Stories completed in a week starting on Monday
+ */
+export interface ThroughputWeek {
+  week: string;
+  completed: number;
+}
+
+/**
+ * Estimated effort against the time a story was being worked on
+ */
+export interface EstimateAccuracy {
+  id: string;
+  title: string;
+  estimate_hours: number;
+  /** Wall-clock hours between the default and a terminal status, nights and weekends included */
+  actual_hours: number;
+  /** actual_hours / estimate_hours */
+  ratio: number;
+}
+
+/**
+ * Stories in each status at the end of a day
+ */
+export interface CumulativeFlowPoint {
+  date: string;
+  counts: Record<StoryStatus, number>;
+}
+
+/**
+ * Unfinished stories and estimated hours of a phase at the end of a day
+ */
+export interface BurndownPoint {
+  date: string;
+  remaining: number;
+  remaining_hours: number;
+}
+
+export interface PhaseBurndown {
+  phase: Phase;
+  total: number;
+  points: BurndownPoint[];
+}
+
+/**
+ * Averages and medians over completed stories
+ */
+export interface AnalyticsSummary {
+  stories: number;
+  completed: number;
+  avg_cycle_time_days: number | null;
+  median_cycle_time_days: number | null;
+  avg_lead_time_days: number | null;
+  median_lead_time_days: number | null;
+  avg_throughput_per_week: number;
+  /** Median actual_hours / estimate_hours; above 1 means estimates run low */
+  median_estimate_ratio: number | null;
+}
+
+/**
+ * Flow analytics computed from the event log
+ */
+export interface KanbanAnalytics {
+  since: string;
+  until: string;
+  phase?: Phase;
+  statuses: StoryStatus[];
+  summary: AnalyticsSummary;
+  stories: StoryFlowMetrics[];
+  throughput: ThroughputWeek[];
+  estimates: EstimateAccuracy[];
+  cumulative_flow: CumulativeFlowPoint[];
+  burndown: PhaseBurndown[];
+}
+
+/**
+ * Output formats of `kanban graph`
+ */
+export type GraphFormat = 'json' | 'dot' | 'mermaid';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['json', 'dot', 'mermaid'];
+
+/**
+ * Options for building the dependency graph
+ */
+export interface GraphOptions {
+  /** Only stories of this phase, plus the stories they depend on */
+  phase?: Phase;
+  /** Include subtasks and their dependencies within each story */
+  subtasks?: boolean;
+  /** Only this story or subtask and everything upstream or downstream of it */
+  focus?: string;
+}
+
+/**
+ * A story or subtask in the dependency graph
+ */
+export interface DependencyNode {
+  id: string;
+  type: WorkItemType;
+  /** The story itself, or the subtask's parent story */
+  story_id: string;
+  title: string;
+  status: string;
+  phase: Phase;
+  effort_hours?: number;
+  /** In a terminal status */
+  done: boolean;
+  /** Not done and waiting on a dependency that isn't done */
+  blocked: boolean;
+  /** Length of the longest dependency chain below this node; 0 when it has no dependencies */
+  depth: number;
+  /** On the critical path */
+  critical: boolean;
+  /** Listed in a dependent_upon array but not on the board */
+  missing?: boolean;
+}
+
+/**
+ * `to` depends on `from`
+ */
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  /** Neither end is done, so `from` is holding `to` up */
+  blocking: boolean;
+}
+
+/**
+ * Longest chain of unfinished stories by estimated effort
+ */
+export interface CriticalPath {
+  /** Story IDs, first to be done first */
+  ids: string[];
+  hours: number;
+}
+
+/**
+ * Story and subtask dependencies as a graph
+ */
+export interface DependencyGraph {
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+  /** Each cycle lists IDs where every item depends on the next and the last on the first */
+  cycles: string[][];
+  critical_path: CriticalPath;
 }
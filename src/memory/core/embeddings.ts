@@ -0,0 +1,14 @@
+export { initializeModel, generateEmbedding, cosineSimilarity } from '../../shared/embeddings.js';
+
+import type { Memory } from '../types.js';
+
+import { generateEmbedding } from '../../shared/embeddings.js';
+
+/**
+ * Generate embedding for a memory (domain-specific wrapper)
+ * Combines summary + details, matching what search compares against
+ */
+export async function generateMemoryEmbedding(memory: Pick<Memory, 'summary' | 'details'>): Promise<number[] | null> {
+  const embeddingText = `${memory.summary}\n${memory.details}`;
+  return generateEmbedding(embeddingText);
+}
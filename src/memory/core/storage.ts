@@ -6,11 +6,14 @@ import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { dirname, join } from 'path';
 
 import * as yaml from 'js-yaml';
-import { pack, unpack } from 'msgpackr';
 
-import type { Memory, EmbeddingCache } from '../types.js';
+import type { Memory, MemoryConfig, EmbeddingCache } from '../types.js';
 
+import { readEmbeddingCacheFile, readEmbeddingIndexFile, writeEmbeddingCacheFile } from '../../shared/embedding-cache.js';
 import { createFileError } from '../../shared/errors.js';
+import { withLock } from '../../shared/file-lock.js';
+
+import type { EmbeddingIndex } from '../../shared/types/search.js';
 
 // Get paths at runtime to support process.chdir() in tests
 function getMemoryFile(): string {
@@ -22,9 +25,20 @@ function getEmbeddingsFile(): string {
 }
 
 interface MemoryYAML {
+  config?: Partial<MemoryConfig>;
   memories: Memory[];
 }
 
+const DEFAULT_DUPLICATE_THRESHOLD = 0.92;
+
+/**
+ * Run fn while holding the memory file lock
+ * Shared by the MCP tools and the web routes so concurrent writers can't clobber each other
+ */
+export function withMemoryLock<T>(fn: () => T | Promise<T>): Promise<T> {
+  return withLock(getMemoryFile(), fn);
+}
+
 /**
  * Ensure necessary directories exist
  */
@@ -41,30 +55,70 @@ function ensureDir(): void {
 }
 
 /**
- * Read memories from YAML file
+ * Load the raw YAML document, or null if the file does not exist
  */
-export function readMemories(): Memory[] {
+function readMemoryYAML(): MemoryYAML | null {
   if (!existsSync(getMemoryFile())) {
-    return [];
+    return null;
   }
 
   ensureDir();
 
   try {
     const content = readFileSync(getMemoryFile(), 'utf-8');
-    const data = yaml.load(content) as MemoryYAML | null;
+    return yaml.load(content) as MemoryYAML | null;
+  } catch (error) {
+    throw createFileError(`Failed to read ${getMemoryFile()}`, error as Error);
+  }
+}
+
+/**
+ * Read memory settings, falling back to defaults for anything not configured
+ */
+export function readMemoryConfig(): MemoryConfig {
+  const config = readMemoryYAML()?.config ?? {};
+  const threshold = Number(config.duplicate_threshold);
+
+  return {
+    duplicate_threshold: Number.isFinite(threshold) && threshold > 0 && threshold <= 1
+      ? threshold
+      : DEFAULT_DUPLICATE_THRESHOLD
+  };
+}
 
+/**
+ * Read memories from YAML file
+ */
+export function readMemories(): Memory[] {
+  const data = readMemoryYAML();
+
+  try {
     if (!data?.memories || !Array.isArray(data.memories)) {
       return [];
     }
 
-    return data.memories.map(m => ({
-      id: String(m.id),
-      summary: String(m.summary),
-      details: String(m.details),
-      tags: Array.isArray(m.tags) ? m.tags.map(String) : [],
-      created_at: Number(m.created_at)
-    }));
+    return data.memories.map(m => {
+      const memory: Memory = {
+        id: String(m.id),
+        summary: String(m.summary),
+        details: String(m.details),
+        tags: Array.isArray(m.tags) ? m.tags.map(String) : [],
+        created_at: Number(m.created_at)
+      };
+
+      // Optional lifecycle metadata - only set when present to keep the YAML minimal
+      if (m.expires_at !== undefined && m.expires_at !== null) {
+        memory.expires_at = Number(m.expires_at);
+      }
+      if (Array.isArray(m.supersedes) && m.supersedes.length > 0) {
+        memory.supersedes = m.supersedes.map(String);
+      }
+      if (m.confidence !== undefined && m.confidence !== null) {
+        memory.confidence = Number(m.confidence);
+      }
+
+      return memory;
+    });
   } catch (error) {
     throw createFileError(`Failed to read ${getMemoryFile()}`, error as Error);
   }
@@ -72,12 +126,19 @@ export function readMemories(): Memory[] {
 
 /**
  * Save memories to YAML file
+ * Any existing config section is preserved.
  */
 export function saveMemories(memories: Memory[]): void {
+  let config: Partial<MemoryConfig> | undefined;
+  try {
+    config = readMemoryYAML()?.config;
+  } catch (_error) {
+    // An unreadable file is about to be overwritten anyway
+  }
   ensureDir();
 
   try {
-    const data: MemoryYAML = { memories };
+    const data: MemoryYAML = config ? { config, memories } : { memories };
     const content = yaml.dump(data, {
       indent: 2,
       lineWidth: -1,
@@ -102,13 +163,20 @@ export function readEmbeddings(): EmbeddingCache {
   ensureDir();
 
   try {
-    const buffer = readFileSync(getEmbeddingsFile());
-    return unpack(buffer) as EmbeddingCache;
+    return readEmbeddingCacheFile(getEmbeddingsFile());
   } catch (_error) {
     return {};
   }
 }
 
+/**
+ * Load the nearest-neighbour index over embeddings read from the cache file
+ */
+export function readEmbeddingIndex(embeddings: EmbeddingCache): EmbeddingIndex {
+  ensureDir();
+  return readEmbeddingIndexFile(getEmbeddingsFile(), embeddings);
+}
+
 /**
  * Save embeddings to cache file
  */
@@ -116,8 +184,7 @@ export function saveEmbeddings(embeddings: EmbeddingCache): void {
   ensureDir();
 
   try {
-    const packed = pack(embeddings);
-    writeFileSync(getEmbeddingsFile(), packed);
+    writeEmbeddingCacheFile(getEmbeddingsFile(), embeddings);
   } catch (error) {
     throw createFileError(`Failed to save ${getEmbeddingsFile()}`, error as Error);
   }
@@ -8,10 +8,13 @@
 import { initializeModel } from '../shared/embeddings.js';
 import { createMCPServer, startMCPServer } from '../shared/mcp-server-utils.js';
 
+import { deleteMemory } from './tools/delete.js';
+import { mergeMemories } from './tools/merge.js';
 import { search } from './tools/search.js';
 import { storeMemory } from './tools/store.js';
+import { updateMemory } from './tools/update.js';
 
-import type { StoreParams, SearchParams } from './types.js';
+import type { StoreParams, SearchParams, UpdateParams, DeleteParams, MergeParams } from './types.js';
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 
 const MEMORY_STORE_TOOL: Tool = {
@@ -22,7 +25,10 @@ const MEMORY_STORE_TOOL: Tool = {
 - Important context needs to be remembered across sessions
 - User explicitly asks you to remember something
 
-The memory will be searchable via keyword and semantic similarity.`,
+The memory will be searchable via keyword and semantic similarity.
+When a decision is reversed, pass the old memory's id in supersedes so it stops resurfacing.
+If a near-identical memory already exists, nothing is stored and the match is returned (outcome "duplicate");
+call again with on_duplicate to merge, replace or force-insert.`,
   inputSchema: {
     type: 'object',
     properties: {
@@ -38,6 +44,33 @@ The memory will be searchable via keyword and semantic similarity.`,
         type: 'array',
         items: { type: 'string' },
         description: 'Tags for categorization (e.g. ["preferences", "architecture", "tooling"]). Use lowercase, hyphenated tags. Common categories: preferences, decisions, project-setup, coding-style, workflow, architecture, constraints.'
+      },
+      expires_at: {
+        type: ['string', 'number'],
+        description: 'Optional expiry as an ISO 8601 date or Unix ms timestamp. Use for time-boxed facts (e.g. "code freeze until 2025-03-01"). Expired memories are hidden from search.'
+      },
+      supersedes: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'IDs of older memories this one replaces (e.g. a reversed decision). Superseded memories are hidden from search.'
+      },
+      confidence: {
+        type: 'number',
+        minimum: 0,
+        maximum: 1,
+        description: 'How certain this information is, 0-1 (default 1). Lower confidence ranks lower in search.'
+      },
+      on_duplicate: {
+        type: 'string',
+        enum: ['ask', 'merge', 'replace', 'force'],
+        description: 'What to do if a similar memory exists: "ask" returns the matches without storing (default), "merge" folds this memory into the closest match, "replace" overwrites it, "force" stores anyway.',
+        default: 'ask'
+      },
+      duplicate_threshold: {
+        type: 'number',
+        minimum: 0,
+        maximum: 1,
+        description: 'Similarity (0-1) at which memories count as duplicates. Defaults to config.duplicate_threshold in memory.yaml (0.92).'
       }
     },
     required: ['summary', 'details']
@@ -54,6 +87,7 @@ const MEMORY_SEARCH_TOOL: Tool = {
 - You're unsure about a preference or requirement
 
 Search combines exact keyword matching (tags, text) with semantic similarity for best results.
+Older and low-confidence memories rank lower; expired and superseded memories are hidden by default.
 Empty query returns most recent memories.`,
   inputSchema: {
     type: 'object',
@@ -68,12 +102,151 @@ Empty query returns most recent memories.`,
         default: 3,
         minimum: 1,
         maximum: 20
+      },
+      include_inactive: {
+        type: 'boolean',
+        description: 'Include expired and superseded memories (default: false). Use when researching the history of a decision.',
+        default: false
+      },
+      tags: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only return memories with these tags (case-insensitive). See tag_match.'
+      },
+      tag_match: {
+        type: 'string',
+        enum: ['any', 'all'],
+        description: 'Whether memories must have any (default) or all of the given tags',
+        default: 'any'
+      },
+      exclude_tags: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Hide memories with any of these tags'
+      },
+      since: {
+        type: ['string', 'number'],
+        description: 'Only memories created at or after this time (Unix ms timestamp or ISO 8601 date)'
+      },
+      until: {
+        type: ['string', 'number'],
+        description: 'Only memories created at or before this time (Unix ms timestamp or ISO 8601 date; a bare YYYY-MM-DD includes that whole UTC day)'
+      },
+      explain: {
+        type: 'boolean',
+        description: 'Include each result\'s per-signal score breakdown (keyword/semantic contributions, fusion strategy, multipliers). Use to debug unexpected rankings.',
+        default: false
       }
     },
     required: ['query']
   }
 };
 
+const MEMORY_UPDATE_TOOL: Tool = {
+  name: 'memory_update',
+  description: `Edit an existing memory in place. Use this when:
+- A stored preference or decision has changed
+- A memory is inaccurate, incomplete or badly tagged
+- User asks you to correct something you remembered
+
+Prefer updating over storing a new memory that contradicts an old one.
+Only the fields you pass are changed; the id and created_at are preserved.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      id: {
+        type: 'string',
+        description: 'ID of the memory to update (from memory_search results)'
+      },
+      summary: {
+        type: 'string',
+        description: 'New one-line summary'
+      },
+      details: {
+        type: 'string',
+        description: 'New detailed information (replaces the existing details)'
+      },
+      tags: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'New tags (replaces the existing tags)'
+      },
+      expires_at: {
+        type: ['string', 'number'],
+        description: 'Optional expiry as an ISO 8601 date or Unix ms timestamp. Use for time-boxed facts (e.g. "code freeze until 2025-03-01"). Expired memories are hidden from search.'
+      },
+      supersedes: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'IDs of older memories this one replaces (e.g. a reversed decision). Superseded memories are hidden from search.'
+      },
+      confidence: {
+        type: 'number',
+        minimum: 0,
+        maximum: 1,
+        description: 'How certain this information is, 0-1 (default 1). Lower confidence ranks lower in search.'
+      }
+    },
+    required: ['id']
+  }
+};
+
+const MEMORY_DELETE_TOOL: Tool = {
+  name: 'memory_delete',
+  description: `Permanently delete a memory. Use this when:
+- A memory is obsolete and no longer true
+- User explicitly asks you to forget something
+- A memory was stored by mistake
+
+Deletion cannot be undone.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      id: {
+        type: 'string',
+        description: 'ID of the memory to delete (from memory_search results)'
+      }
+    },
+    required: ['id']
+  }
+};
+
+const MEMORY_MERGE_TOOL: Tool = {
+  name: 'memory_merge',
+  description: `Merge two or more memories into one. Use this when:
+- Several memories describe the same fact or decision
+- Related memories would be clearer as a single entry
+
+The first id is kept and the others are removed. By default the first summary is kept,
+details are concatenated in order and tags are combined. Pass summary/details/tags to
+write the merged memory yourself (recommended when the memories overlap).`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ids: {
+        type: 'array',
+        items: { type: 'string' },
+        minItems: 2,
+        description: 'IDs of the memories to merge. The first ID is kept.'
+      },
+      summary: {
+        type: 'string',
+        description: 'Summary for the merged memory (defaults to the first memory\'s summary)'
+      },
+      details: {
+        type: 'string',
+        description: 'Details for the merged memory (defaults to all details concatenated)'
+      },
+      tags: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Tags for the merged memory (defaults to the union of all tags)'
+      }
+    },
+    required: ['ids']
+  }
+};
+
 async function main(): Promise<void> {
   try {
     await initializeModel();
@@ -84,10 +257,13 @@ async function main(): Promise<void> {
   const server = createMCPServer({
     name: 'cc-devtools-memory-server',
     version: '0.1.0',
-    tools: [MEMORY_STORE_TOOL, MEMORY_SEARCH_TOOL],
+    tools: [MEMORY_STORE_TOOL, MEMORY_SEARCH_TOOL, MEMORY_UPDATE_TOOL, MEMORY_DELETE_TOOL, MEMORY_MERGE_TOOL],
     handlers: {
       memory_store: async (args) => storeMemory(args as unknown as StoreParams),
       memory_search: async (args) => search(args as unknown as SearchParams),
+      memory_update: async (args) => updateMemory(args as unknown as UpdateParams),
+      memory_delete: async (args) => deleteMemory(args as unknown as DeleteParams),
+      memory_merge: async (args) => mergeMemories(args as unknown as MergeParams),
     },
   });
 
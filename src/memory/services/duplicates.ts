@@ -0,0 +1,102 @@
+/**
+ * Near-duplicate detection for memories using embedding similarity
+ */
+
+import { cosineSimilarity } from '../core/embeddings.js';
+import type { DuplicateCluster, DuplicateMatch, EmbeddingCache, Memory } from '../types.js';
+
+import { createValidationError } from '../../shared/errors.js';
+
+/**
+ * Validate a similarity threshold passed by a caller
+ */
+export function parseDuplicateThreshold(value: unknown): number {
+  if (typeof value !== 'number' || !(value > 0) || value > 1) {
+    throw createValidationError('duplicate_threshold must be a number greater than 0 and at most 1');
+  }
+  return value;
+}
+
+/**
+ * Find existing memories whose embedding is at least threshold-similar to the given one
+ * Memories without an embedding are skipped. Results are sorted by similarity, highest first.
+ */
+export function findDuplicates(
+  embedding: number[],
+  memories: Memory[],
+  embeddings: EmbeddingCache,
+  threshold: number
+): DuplicateMatch[] {
+  const matches: DuplicateMatch[] = [];
+
+  for (const memory of memories) {
+    const existing = embeddings[memory.id];
+    if (!existing) {
+      continue;
+    }
+
+    const similarity = cosineSimilarity(embedding, existing);
+    if (similarity >= threshold) {
+      matches.push({ id: memory.id, summary: memory.summary, similarity });
+    }
+  }
+
+  return matches.sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Group memories into clusters of near-duplicates
+ * Similarity is transitive within a cluster: if A~B and B~C, all three are grouped.
+ * Memories within a cluster are ordered oldest first so the original is kept on merge.
+ */
+export function findDuplicateClusters(
+  memories: Memory[],
+  embeddings: EmbeddingCache,
+  threshold: number
+): DuplicateCluster[] {
+  const candidates = memories.filter(m => embeddings[m.id]);
+  const parent = candidates.map((_, i) => i);
+  const best = candidates.map(() => 0);
+
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const similarity = cosineSimilarity(
+        embeddings[candidates[i].id] as number[],
+        embeddings[candidates[j].id] as number[]
+      );
+      if (similarity < threshold) {
+        continue;
+      }
+
+      const rootI = find(i);
+      const rootJ = find(j);
+      const linked = Math.max(similarity, best[rootI], best[rootJ]);
+      parent[rootJ] = rootI;
+      best[rootI] = linked;
+    }
+  }
+
+  const groups = new Map<number, Memory[]>();
+  candidates.forEach((memory, i) => {
+    const root = find(i);
+    const group = groups.get(root) ?? [];
+    group.push(memory);
+    groups.set(root, group);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, group]) => group.length > 1)
+    .map(([root, group]) => ({
+      memories: group.sort((a, b) => a.created_at - b.created_at),
+      similarity: best[root]
+    }))
+    .sort((a, b) => b.similarity - a.similarity);
+}
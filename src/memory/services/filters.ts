@@ -0,0 +1,115 @@
+/**
+ * Tag and date filters for memory search
+ */
+
+import type { Memory, MemoryFilters, SearchParams } from '../types.js';
+
+import { createValidationError } from '../../shared/errors.js';
+
+import { parseTimestamp } from './lifecycle.js';
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lowercase, trim and dedupe a list of tags, dropping blanks
+ */
+function normalizeTagList(tags: unknown, field: string): string[] | undefined {
+  if (tags === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(tags) || !tags.every((tag): tag is string => typeof tag === 'string')) {
+    throw createValidationError(`${field} must be an array of strings`);
+  }
+
+  const normalized = Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+/**
+ * Validate the filter parameters of the search tool and convert them to MemoryFilters
+ * @throws Validation error for malformed tags, tag_match or dates
+ */
+export function parseMemoryFilters(
+  params: Pick<SearchParams, 'tags' | 'tag_match' | 'exclude_tags' | 'since' | 'until'>
+): MemoryFilters {
+  const filters: MemoryFilters = {};
+
+  const tags = normalizeTagList(params.tags, 'tags');
+  if (tags) {
+    filters.tags = tags;
+  }
+
+  if (params.tag_match !== undefined) {
+    if (params.tag_match !== 'any' && params.tag_match !== 'all') {
+      throw createValidationError("tag_match must be 'any' or 'all'");
+    }
+    filters.tagMatch = params.tag_match;
+  }
+
+  const excludeTags = normalizeTagList(params.exclude_tags, 'exclude_tags');
+  if (excludeTags) {
+    filters.excludeTags = excludeTags;
+  }
+
+  if (params.since !== undefined) {
+    filters.since = parseTimestamp(params.since, 'since');
+  }
+  if (params.until !== undefined) {
+    const until = parseTimestamp(params.until, 'until');
+    // A bare date means up to the end of that (UTC) day, not its first millisecond
+    filters.until = typeof params.until === 'string' && DATE_ONLY_PATTERN.test(params.until.trim()) ? until + DAY_MS - 1 : until;
+  }
+  if (filters.since !== undefined && filters.until !== undefined && filters.since > filters.until) {
+    throw createValidationError('since must not be later than until');
+  }
+
+  return filters;
+}
+
+/**
+ * Whether any filter is set
+ */
+function hasMemoryFilters(filters: MemoryFilters): boolean {
+  return (filters.tags?.length ?? 0) > 0 ||
+    (filters.excludeTags?.length ?? 0) > 0 ||
+    filters.since !== undefined ||
+    filters.until !== undefined;
+}
+
+/**
+ * Keep memories matching the tag and date filters
+ * Tag comparison is case-insensitive.
+ */
+export function filterMemories(memories: Memory[], filters: MemoryFilters): Memory[] {
+  if (!hasMemoryFilters(filters)) {
+    return memories;
+  }
+
+  const required = filters.tags?.map(tag => tag.toLowerCase()) ?? [];
+  const excluded = new Set(filters.excludeTags?.map(tag => tag.toLowerCase()) ?? []);
+  const matchAll = filters.tagMatch === 'all';
+
+  return memories.filter(memory => {
+    if (filters.since !== undefined && memory.created_at < filters.since) {
+      return false;
+    }
+    if (filters.until !== undefined && memory.created_at > filters.until) {
+      return false;
+    }
+
+    const tags = new Set(memory.tags.map(tag => tag.toLowerCase()));
+
+    if (excluded.size > 0 && [...tags].some(tag => excluded.has(tag))) {
+      return false;
+    }
+
+    if (required.length > 0) {
+      return matchAll
+        ? required.every(tag => tags.has(tag))
+        : required.some(tag => tags.has(tag));
+    }
+
+    return true;
+  });
+}
@@ -0,0 +1,144 @@
+/**
+ * Memory lifecycle: expiry, supersession, confidence and age decay
+ */
+
+import type { Memory, MemoryMetadata } from '../types.js';
+
+import { createValidationError } from '../../shared/errors.js';
+
+import type { ScoreMultiplier } from '../../shared/types/search.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Scores halve every 180 days but never drop below half, so old-but-valid memories still surface
+const AGE_HALF_LIFE_DAYS = 180;
+const MIN_AGE_FACTOR = 0.5;
+
+/**
+ * Parse a timestamp given as Unix ms or an ISO 8601 date string
+ * @throws Validation error if the value is not a valid date
+ */
+export function parseTimestamp(value: unknown, field: string): number {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Date.parse(value);
+    if (!isNaN(parsed)) {
+      return parsed;
+    }
+  }
+
+  throw createValidationError(`${field} must be a Unix ms timestamp or an ISO 8601 date`);
+}
+
+/**
+ * Validate and normalize lifecycle metadata passed to store/update
+ * Returns only the fields that were provided
+ */
+export function normalizeMetadata(params: MemoryMetadata, ownId?: string): MemoryMetadata {
+  const metadata: MemoryMetadata = {};
+
+  if (params.expires_at !== undefined) {
+    metadata.expires_at = parseTimestamp(params.expires_at, 'expires_at');
+  }
+
+  if (params.supersedes !== undefined) {
+    if (!Array.isArray(params.supersedes) || params.supersedes.some(id => !id || typeof id !== 'string')) {
+      throw createValidationError('supersedes must be an array of memory ids');
+    }
+    if (ownId && params.supersedes.includes(ownId)) {
+      throw createValidationError('A memory cannot supersede itself');
+    }
+    metadata.supersedes = Array.from(new Set(params.supersedes));
+  }
+
+  if (params.confidence !== undefined) {
+    if (typeof params.confidence !== 'number' || params.confidence < 0 || params.confidence > 1) {
+      throw createValidationError('confidence must be a number between 0 and 1');
+    }
+    metadata.confidence = params.confidence;
+  }
+
+  return metadata;
+}
+
+/**
+ * Check that every superseded id refers to an existing memory
+ */
+export function assertSupersededExist(supersedes: string[] | undefined, memories: Memory[]): void {
+  if (!supersedes || supersedes.length === 0) {
+    return;
+  }
+
+  const known = new Set(memories.map(m => m.id));
+  const unknown = supersedes.filter(id => !known.has(id));
+  if (unknown.length > 0) {
+    throw createValidationError(`Cannot supersede unknown memories: ${unknown.join(', ')}`, { unknown });
+  }
+}
+
+/**
+ * Whether the memory's expiry date has passed
+ */
+export function isExpired(memory: Memory, now: number = Date.now()): boolean {
+  return memory.expires_at !== undefined && memory.expires_at <= now;
+}
+
+/**
+ * Collect the ids of every memory superseded by another memory
+ */
+export function getSupersededIds(memories: Memory[]): Set<string> {
+  const superseded = new Set<string>();
+  for (const memory of memories) {
+    for (const id of memory.supersedes ?? []) {
+      superseded.add(id);
+    }
+  }
+  return superseded;
+}
+
+/**
+ * Remove a deleted memory from a memory's supersedes list, dropping the list once it is empty
+ * Memories that didn't reference it are returned unchanged.
+ */
+export function removeSuperseded(memory: Memory, deletedId: string): Memory {
+  if (!memory.supersedes?.includes(deletedId)) {
+    return memory;
+  }
+
+  const { supersedes, ...rest } = memory;
+  const remaining = supersedes.filter(id => id !== deletedId);
+  return remaining.length > 0 ? { ...rest, supersedes: remaining } : rest;
+}
+
+/**
+ * Drop expired and superseded memories
+ */
+export function filterActiveMemories(memories: Memory[], now: number = Date.now()): Memory[] {
+  const superseded = getSupersededIds(memories);
+  return memories.filter(m => !superseded.has(m.id) && !isExpired(m, now));
+}
+
+/**
+ * Ranking multiplier combining age decay and confidence
+ */
+export function getMemoryScoreMultiplier(memory: Memory, now: number = Date.now()): ScoreMultiplier {
+  const ageDays = Math.max(0, now - memory.created_at) / DAY_MS;
+  const ageFactor = Math.max(MIN_AGE_FACTOR, Math.pow(0.5, ageDays / AGE_HALF_LIFE_DAYS));
+  const confidence = memory.confidence ?? 1;
+
+  const reasons: string[] = [];
+  if (ageFactor < 0.995) {
+    reasons.push(`age decay: ${ageFactor.toFixed(2)}`);
+  }
+  if (confidence !== 1) {
+    reasons.push(`confidence: ${confidence.toFixed(2)}`);
+  }
+
+  return {
+    factor: ageFactor * confidence,
+    reasons
+  };
+}
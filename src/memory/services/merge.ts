@@ -0,0 +1,70 @@
+/**
+ * Combining several memories into one
+ */
+
+import type { Memory, MemoryMetadata, MergeParams } from '../types.js';
+
+/**
+ * Fold sources into the first one
+ * Unless overridden, the summary of the first memory is kept, details are concatenated
+ * in order and tags are unioned. The result keeps the first id and the earliest created_at.
+ * Lifecycle metadata of every source is kept: see combineMetadata.
+ */
+export function combineMemories(
+  sources: Memory[],
+  overrides: Pick<MergeParams, 'summary' | 'details' | 'tags'> = {}
+): Memory {
+  const [target] = sources;
+  const { expires_at: _expiresAt, supersedes: _supersedes, confidence: _confidence, ...fields } = target;
+  const mergedTags = overrides.tags ?? sources.flatMap(m => m.tags);
+
+  return {
+    ...fields,
+    summary: overrides.summary?.trim() ?? target.summary,
+    details: overrides.details?.trim() ?? sources.map(m => m.details).join('\n\n'),
+    tags: Array.from(new Set(mergedTags.map(t => String(t).trim()).filter(t => t.length > 0))),
+    created_at: Math.min(...sources.map(m => m.created_at)),
+    ...combineMetadata(sources)
+  };
+}
+
+/**
+ * Point supersedes references at merged-away memories to the memory they were merged into
+ * Memories that referenced none of them are returned unchanged.
+ */
+export function redirectSupersedes(memory: Memory, mergedIds: ReadonlySet<string>, targetId: string): Memory {
+  if (!memory.supersedes?.some(id => mergedIds.has(id))) {
+    return memory;
+  }
+
+  const supersedes = Array.from(new Set(memory.supersedes.map(id => (mergedIds.has(id) ? targetId : id))));
+  return { ...memory, supersedes };
+}
+
+/**
+ * Lifecycle metadata of merged memories
+ * Superseded ids are unioned (minus the memories being merged), the result only expires once
+ * every source would have, and it keeps the lowest confidence since it holds the least certain
+ * source's claims.
+ */
+function combineMetadata(sources: Memory[]): MemoryMetadata {
+  const metadata: MemoryMetadata = {};
+
+  const expiries = sources.map(m => m.expires_at);
+  if (expiries.every((expiry): expiry is number => expiry !== undefined)) {
+    metadata.expires_at = Math.max(...expiries);
+  }
+
+  const ids = new Set(sources.map(m => m.id));
+  const supersedes = Array.from(new Set(sources.flatMap(m => m.supersedes ?? []))).filter(id => !ids.has(id));
+  if (supersedes.length > 0) {
+    metadata.supersedes = supersedes;
+  }
+
+  const confidences = sources.map(m => m.confidence).filter((confidence): confidence is number => confidence !== undefined);
+  if (confidences.length > 0) {
+    metadata.confidence = Math.min(...confidences);
+  }
+
+  return metadata;
+}
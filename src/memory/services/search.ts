@@ -2,11 +2,16 @@
  * Hybrid keyword + semantic search for memories
  */
 
-import { readEmbeddings, saveEmbeddings } from '../core/storage.js';
-import type { Memory, SearchResult } from '../types.js';
+import { generateMemoryEmbedding } from '../core/embeddings.js';
+import { readEmbeddingIndex, readEmbeddings, saveEmbeddings } from '../core/storage.js';
+import type { Memory, MemorySearchOptions, SearchResult } from '../types.js';
 
 import { generateEmbedding } from '../../shared/embeddings.js';
-import { hybridSearch, lazyRegenerateEmbeddings } from '../../shared/hybrid-search.js';
+import { getSemanticCandidateLimit, hybridSearch, lazyRegenerateEmbeddings } from '../../shared/hybrid-search.js';
+import { loadFusionConfig } from '../../shared/search-config.js';
+
+import { filterMemories } from './filters.js';
+import { filterActiveMemories, getMemoryScoreMultiplier } from './lifecycle.js';
 
 import type { KeywordScore } from '../../shared/types/search.js';
 
@@ -45,22 +50,23 @@ function scoreMemoryKeywords(query: string, memory: Memory): KeywordScore {
   return { score, reasons };
 }
 
-/**
- * Generate embedding for a memory
- */
-async function generateMemoryEmbedding(memory: Memory): Promise<number[] | null> {
-  const text = `${memory.summary}\n${memory.details}`;
-  return generateEmbedding(text);
-}
-
 /**
  * Search memories using hybrid keyword + semantic search
+ * Tag/date filters are applied first, expired and superseded memories are hidden unless
+ * options.includeInactive is set, and scores are scaled by age decay and confidence.
+ * Keyword and semantic scores are fused as configured for `memory` in cc-devtools/search.yaml.
  */
 export async function searchMemories(
   query: string,
-  memories: Memory[],
-  limit: number = 3
+  allMemories: Memory[],
+  limit: number = 3,
+  options: MemorySearchOptions = {}
 ): Promise<SearchResult[]> {
+  const now = options.now ?? Date.now();
+  // Supersession is resolved against the full set so filters cannot resurrect replaced memories
+  const active = options.includeInactive ? allMemories : filterActiveMemories(allMemories, now);
+  const memories = filterMemories(active, options);
+
   // Return recent memories for empty query
   if (query.trim() === '') {
     const sorted = [...memories].sort((a, b) => b.created_at - a.created_at);
@@ -86,13 +92,18 @@ export async function searchMemories(
     items: memories,
     embeddings,
     keywordScoreFn: scoreMemoryKeywords,
-    generateEmbedding
+    generateEmbedding,
+    scoreMultiplierFn: (memory) => getMemoryScoreMultiplier(memory, now),
+    semanticIndex: { ...readEmbeddingIndex(embeddings), limit: getSemanticCandidateLimit(limit) },
+    fusion: loadFusionConfig('memory'),
+    explain: options.explain
   });
 
   // Convert to SearchResult format
-  return results.slice(0, limit).map(({ item, score, reasons }) => ({
+  return results.slice(0, limit).map(({ item, score, reasons, explanation }) => ({
     ...item,
     score,
-    match_reason: reasons.join(', ')
+    match_reason: reasons.join(', '),
+    ...(explanation ? { explanation } : {})
   }));
 }
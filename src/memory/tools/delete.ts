@@ -0,0 +1,44 @@
+/**
+ * Memory delete tool implementation
+ */
+
+import { readMemories, saveMemories, readEmbeddings, saveEmbeddings, withMemoryLock } from '../core/storage.js';
+import { removeSuperseded } from '../services/lifecycle.js';
+import type { DeleteResponse, DeleteParams } from '../types.js';
+
+import { createNotFoundError, createValidationError } from '../../shared/errors.js';
+
+/**
+ * Delete a memory and its cached embedding
+ * Other memories' supersedes references to it are removed, so they still pass validation when
+ * updated.
+ */
+export async function deleteMemory(params: DeleteParams): Promise<DeleteResponse> {
+  const { id } = params;
+
+  if (!id || typeof id !== 'string') {
+    throw createValidationError('Memory id is required and must be a non-empty string');
+  }
+
+  return withMemoryLock(() => {
+    const memories = readMemories();
+    if (!memories.some(m => m.id === id)) {
+      throw createNotFoundError(`Memory with id "${id}" not found`, { id });
+    }
+
+    const remaining = memories.filter(m => m.id !== id).map(m => removeSuperseded(m, id));
+
+    saveMemories(remaining);
+
+    const embeddings = readEmbeddings();
+    if (id in embeddings) {
+      delete embeddings[id];
+      saveEmbeddings(embeddings);
+    }
+
+    return {
+      success: true,
+      id
+    };
+  });
+}
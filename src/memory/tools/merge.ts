@@ -0,0 +1,86 @@
+/**
+ * Memory merge tool implementation
+ */
+
+import { generateMemoryEmbedding } from '../core/embeddings.js';
+import { readMemories, saveMemories, readEmbeddings, saveEmbeddings, withMemoryLock } from '../core/storage.js';
+import { combineMemories, redirectSupersedes } from '../services/merge.js';
+import type { Memory, MergeResponse, MergeParams } from '../types.js';
+
+import { createNotFoundError, createValidationError } from '../../shared/errors.js';
+
+/**
+ * Merge several memories into the first one
+ * See combineMemories for how fields are combined. Other memories' supersedes references to the
+ * merged-away ids are rewritten to the first id.
+ */
+export async function mergeMemories(params: MergeParams): Promise<MergeResponse> {
+  const { ids, summary, details, tags } = params;
+
+  if (!Array.isArray(ids) || ids.length < 2) {
+    throw createValidationError('ids must be an array of at least two memory ids');
+  }
+
+  if (ids.some(id => !id || typeof id !== 'string')) {
+    throw createValidationError('Every id must be a non-empty string');
+  }
+
+  if (new Set(ids).size !== ids.length) {
+    throw createValidationError('ids must not contain duplicates');
+  }
+
+  if (summary !== undefined && (typeof summary !== 'string' || summary.trim() === '')) {
+    throw createValidationError('Summary must be a non-empty string if provided');
+  }
+
+  if (details !== undefined && (typeof details !== 'string' || details.trim() === '')) {
+    throw createValidationError('Details must be a non-empty string if provided');
+  }
+
+  if (tags !== undefined && !Array.isArray(tags)) {
+    throw createValidationError('Tags must be an array if provided');
+  }
+
+  return withMemoryLock(async () => {
+    const memories = readMemories();
+    const byId = new Map(memories.map(m => [m.id, m]));
+
+    const missing = ids.filter(id => !byId.has(id));
+    if (missing.length > 0) {
+      throw createNotFoundError(`Memories not found: ${missing.join(', ')}`, { missing });
+    }
+
+    const sources = ids.map(id => byId.get(id) as Memory);
+    const [target, ...rest] = sources;
+    const merged = combineMemories(sources, { summary, details, tags });
+
+    const removedIds = new Set(rest.map(m => m.id));
+    // Memories that superseded a merged-away one now supersede the merged memory
+    const updated = memories
+      .filter(m => !removedIds.has(m.id))
+      .map(m => (m.id === target.id ? merged : redirectSupersedes(m, removedIds, target.id)));
+
+    const embedding = await generateMemoryEmbedding(merged);
+
+    let warning: string | undefined;
+    if (!embedding) {
+      warning = 'Warning: Failed to regenerate embedding. Memories merged but will have degraded search quality until embedding is regenerated.';
+    }
+
+    const embeddings = readEmbeddings();
+    for (const id of removedIds) {
+      delete embeddings[id];
+    }
+    embeddings[target.id] = embedding;
+    saveEmbeddings(embeddings);
+
+    saveMemories(updated);
+
+    return {
+      success: true,
+      memory: merged,
+      merged_ids: Array.from(removedIds),
+      warning
+    };
+  });
+}
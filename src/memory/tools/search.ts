@@ -3,6 +3,7 @@
  */
 
 import { readMemories } from '../core/storage.js';
+import { parseMemoryFilters } from '../services/filters.js';
 import { searchMemories } from '../services/search.js';
 import type { SearchResponse, SearchParams } from '../types.js';
 
@@ -15,19 +16,25 @@ const MAX_LIMIT = 20;
  * Search for memories
  */
 export async function search(params: SearchParams): Promise<SearchResponse> {
-  const { query, limit = DEFAULT_LIMIT } = params;
+  const { query, limit = DEFAULT_LIMIT, include_inactive = false, explain = false } = params;
 
   if (typeof query !== 'string') {
     throw createValidationError('Query must be a string');
   }
 
+  const filters = parseMemoryFilters(params);
+
   const actualLimit = Math.min(
     Math.max(1, typeof limit === 'number' ? limit : DEFAULT_LIMIT),
     MAX_LIMIT
   );
 
   const memories = readMemories();
-  const results = await searchMemories(query, memories, actualLimit);
+  const results = await searchMemories(query, memories, actualLimit, {
+    ...filters,
+    includeInactive: include_inactive === true,
+    explain: explain === true
+  });
 
   return {
     success: true,
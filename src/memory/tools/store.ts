@@ -2,25 +2,43 @@
  * Memory store tool implementation
  */
 
-import { join } from 'path';
-
 import { v4 as uuidv4 } from 'uuid';
 
-import { readMemories, saveMemories, readEmbeddings, saveEmbeddings } from '../core/storage.js';
-import type { Memory, StoreResponse, StoreParams } from '../types.js';
+import { generateMemoryEmbedding } from '../core/embeddings.js';
+import {
+  readMemories,
+  saveMemories,
+  readEmbeddings,
+  saveEmbeddings,
+  readMemoryConfig,
+  withMemoryLock
+} from '../core/storage.js';
+import { findDuplicates, parseDuplicateThreshold } from '../services/duplicates.js';
+import { assertSupersededExist, filterActiveMemories, normalizeMetadata } from '../services/lifecycle.js';
+import { combineMemories } from '../services/merge.js';
+import type { DuplicateAction, Memory, StoreResponse, StoreParams } from '../types.js';
 
-import { generateEmbedding } from '../../shared/embeddings.js';
 import { createValidationError } from '../../shared/errors.js';
-import { withLock } from '../../shared/file-lock.js';
-
 
-const MEMORY_FILE = join(process.cwd(), 'cc-devtools', 'memory.yaml');
+const DUPLICATE_ACTIONS: DuplicateAction[] = ['ask', 'merge', 'replace', 'force'];
 
 /**
  * Store a new memory
+ * Unless on_duplicate is 'force', the new memory's embedding is compared with active memories first.
+ * Above the similarity threshold the existing matches are returned (ask), or the closest match
+ * is merged into (merge) or overwritten (replace) instead of appending a near-copy.
+ * Merging combines metadata as combineMemories does: expires_at is kept only when both memories
+ * expire (the later date wins), supersedes lists are unioned and the lower confidence is kept.
  */
 export async function storeMemory(params: StoreParams): Promise<StoreResponse> {
-  const { summary, details, tags = [] } = params;
+  const {
+    summary,
+    details,
+    tags = [],
+    on_duplicate = 'ask',
+    duplicate_threshold,
+    ...metadataParams
+  } = params;
 
   if (!summary || typeof summary !== 'string' || summary.trim() === '') {
     throw createValidationError('Summary is required and must be a non-empty string');
@@ -34,11 +52,20 @@ export async function storeMemory(params: StoreParams): Promise<StoreResponse> {
     throw createValidationError('Tags must be an array');
   }
 
+  if (!DUPLICATE_ACTIONS.includes(on_duplicate)) {
+    throw createValidationError(`on_duplicate must be one of: ${DUPLICATE_ACTIONS.join(', ')}`);
+  }
+
+  const threshold = duplicate_threshold !== undefined
+    ? parseDuplicateThreshold(duplicate_threshold)
+    : readMemoryConfig().duplicate_threshold;
+
+  const metadata = normalizeMetadata(metadataParams);
+
   const id = uuidv4();
   const created_at = Date.now();
 
-  const text = `${summary}\n${details}`;
-  const embedding = await generateEmbedding(text);
+  const embedding = await generateMemoryEmbedding({ summary, details });
 
   let warning: string | undefined;
   if (!embedding) {
@@ -50,22 +77,64 @@ export async function storeMemory(params: StoreParams): Promise<StoreResponse> {
     summary: summary.trim(),
     details: details.trim(),
     tags: tags.map(t => String(t).trim()).filter(t => t.length > 0),
-    created_at
+    created_at,
+    ...metadata
   };
 
-  await withLock(MEMORY_FILE, () => {
+  return withMemoryLock(async () => {
     const memories = readMemories();
-    memories.push(memory);
-    saveMemories(memories);
-
+    assertSupersededExist(memory.supersedes, memories);
     const embeddings = readEmbeddings();
-    embeddings[id] = embedding;
+
+    // Without an embedding there is nothing to compare, so fall through to a plain insert.
+    // Memories being superseded are expected to be similar and are not duplicates.
+    const candidates = filterActiveMemories(memories).filter(m => !memory.supersedes?.includes(m.id));
+    const duplicates = embedding && on_duplicate !== 'force'
+      ? findDuplicates(embedding, candidates, embeddings, threshold)
+      : [];
+
+    if (duplicates.length === 0) {
+      memories.push(memory);
+      saveMemories(memories);
+
+      embeddings[id] = embedding;
+      saveEmbeddings(embeddings);
+
+      return { success: true, id, outcome: 'stored', warning };
+    }
+
+    if (on_duplicate === 'ask') {
+      return {
+        success: true,
+        outcome: 'duplicate',
+        duplicates,
+        warning: 'Similar memory already exists; nothing was stored. Call memory_store again with on_duplicate set to "merge", "replace" or "force", or use memory_update on the existing memory.'
+      };
+    }
+
+    const existing = memories.find(m => m.id === duplicates[0].id) as Memory;
+
+    if (on_duplicate === 'replace') {
+      const replaced: Memory = { ...memory, id: existing.id };
+      saveMemories(memories.map(m => (m.id === existing.id ? replaced : m)));
+
+      embeddings[existing.id] = embedding;
+      saveEmbeddings(embeddings);
+
+      return { success: true, id: existing.id, outcome: 'replaced', duplicates };
+    }
+
+    const merged = combineMemories([existing, memory]);
+    saveMemories(memories.map(m => (m.id === existing.id ? merged : m)));
+
+    const mergedEmbedding = await generateMemoryEmbedding(merged);
+    embeddings[existing.id] = mergedEmbedding;
     saveEmbeddings(embeddings);
-  });
 
-  return {
-    success: true,
-    id,
-    warning
-  };
+    if (!mergedEmbedding) {
+      warning = 'Warning: Failed to regenerate embedding. Memory merged but will have degraded search quality until embedding is regenerated.';
+    }
+
+    return { success: true, id: existing.id, outcome: 'merged', duplicates, warning };
+  });
 }
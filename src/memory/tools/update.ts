@@ -0,0 +1,89 @@
+/**
+ * Memory update tool implementation
+ */
+
+import { generateMemoryEmbedding } from '../core/embeddings.js';
+import { readMemories, saveMemories, readEmbeddings, saveEmbeddings, withMemoryLock } from '../core/storage.js';
+import { assertSupersededExist, normalizeMetadata } from '../services/lifecycle.js';
+import type { UpdateResponse, UpdateParams } from '../types.js';
+
+import { createNotFoundError, createValidationError } from '../../shared/errors.js';
+
+/**
+ * Update an existing memory in place
+ * Regenerates the embedding only when summary or details change
+ */
+export async function updateMemory(params: UpdateParams): Promise<UpdateResponse> {
+  const { id, summary, details, tags, ...metadataParams } = params;
+
+  if (!id || typeof id !== 'string') {
+    throw createValidationError('Memory id is required and must be a non-empty string');
+  }
+
+  if (summary !== undefined && (typeof summary !== 'string' || summary.trim() === '')) {
+    throw createValidationError('Summary must be a non-empty string if provided');
+  }
+
+  if (details !== undefined && (typeof details !== 'string' || details.trim() === '')) {
+    throw createValidationError('Details must be a non-empty string if provided');
+  }
+
+  if (tags !== undefined && !Array.isArray(tags)) {
+    throw createValidationError('Tags must be an array if provided');
+  }
+
+  const metadata = normalizeMetadata(metadataParams, id);
+
+  if (summary === undefined && details === undefined && tags === undefined && Object.keys(metadata).length === 0) {
+    throw createValidationError('At least one of summary, details, tags, expires_at, supersedes or confidence must be provided');
+  }
+
+  return withMemoryLock(async () => {
+    const memories = readMemories();
+    const memory = memories.find(m => m.id === id);
+
+    if (!memory) {
+      throw createNotFoundError(`Memory with id "${id}" not found`, { id });
+    }
+
+    const contentChanged =
+      (summary !== undefined && summary.trim() !== memory.summary) ||
+      (details !== undefined && details.trim() !== memory.details);
+
+    if (summary !== undefined) {
+      memory.summary = summary.trim();
+    }
+
+    if (details !== undefined) {
+      memory.details = details.trim();
+    }
+
+    if (tags !== undefined) {
+      memory.tags = tags.map(t => String(t).trim()).filter(t => t.length > 0);
+    }
+
+    assertSupersededExist(metadata.supersedes, memories);
+    Object.assign(memory, metadata);
+
+    let warning: string | undefined;
+
+    if (contentChanged) {
+      const embedding = await generateMemoryEmbedding(memory);
+      if (!embedding) {
+        warning = 'Warning: Failed to regenerate embedding. Memory updated but will have degraded search quality until embedding is regenerated.';
+      }
+
+      const embeddings = readEmbeddings();
+      embeddings[id] = embedding;
+      saveEmbeddings(embeddings);
+    }
+
+    saveMemories(memories);
+
+    return {
+      success: true,
+      memory,
+      warning
+    };
+  });
+}
@@ -3,7 +3,7 @@
  */
 
 import type { WithScore } from '../shared/types/common.js';
-import type { StoreResponse, BaseResponse } from '../shared/types/responses.js';
+import type { StoreResponse as BaseStoreResponse, BaseResponse } from '../shared/types/responses.js';
 
 export interface Memory {
   id: string;
@@ -11,8 +11,19 @@ export interface Memory {
   details: string;
   tags: string[];
   created_at: number;
+  /** Unix ms timestamp after which the memory is hidden from search */
+  expires_at?: number;
+  /** IDs of older memories that this memory replaces */
+  supersedes?: string[];
+  /** How likely the memory is to still be accurate, 0-1 (default 1) */
+  confidence?: number;
 }
 
+/**
+ * Optional lifecycle metadata shared by the store and update tools
+ */
+export type MemoryMetadata = Pick<Memory, 'expires_at' | 'supersedes' | 'confidence'>;
+
 export interface MemoryWithEmbedding extends Memory {
   embedding: number[] | null;
 }
@@ -23,7 +34,45 @@ export interface EmbeddingCache {
 
 export type SearchResult = WithScore<Memory>;
 
-export type { StoreResponse };
+/**
+ * Memory settings stored under `config` in memory.yaml
+ */
+export interface MemoryConfig {
+  /** Cosine similarity at or above which a new memory counts as a duplicate (0-1) */
+  duplicate_threshold: number;
+}
+
+/**
+ * What memory_store does when the new memory duplicates an existing one
+ * - ask: store nothing and return the matches (default)
+ * - merge: fold the new memory into the closest match
+ * - replace: overwrite the closest match, keeping its id
+ * - force: store it anyway
+ */
+export type DuplicateAction = 'ask' | 'merge' | 'replace' | 'force';
+
+export type StoreOutcome = 'stored' | 'merged' | 'replaced' | 'duplicate';
+
+/**
+ * Existing memory similar to one being stored
+ */
+export interface DuplicateMatch extends Pick<Memory, 'id' | 'summary'> {
+  similarity: number;
+}
+
+/**
+ * Group of existing memories that are near-duplicates of each other, oldest first
+ */
+export interface DuplicateCluster {
+  memories: Memory[];
+  /** Highest similarity between any two members */
+  similarity: number;
+}
+
+export interface StoreResponse extends BaseStoreResponse {
+  outcome?: StoreOutcome;
+  duplicates?: DuplicateMatch[];
+}
 
 export interface SearchResponse extends BaseResponse {
   results?: SearchResult[];
@@ -32,7 +81,42 @@ export interface SearchResponse extends BaseResponse {
 /**
  * Store tool parameters
  */
-export type StoreParams = Pick<Memory, 'summary' | 'details'> & Partial<Pick<Memory, 'tags'>>;
+export interface StoreParams extends Pick<Memory, 'summary' | 'details'>, Partial<Pick<Memory, 'tags'>>, MemoryMetadata {
+  on_duplicate?: DuplicateAction;
+  /** Overrides config.duplicate_threshold for this call */
+  duplicate_threshold?: number;
+}
+
+/**
+ * Update tool parameters
+ */
+export type UpdateParams = Pick<Memory, 'id'> & Partial<Pick<Memory, 'summary' | 'details' | 'tags'>> & MemoryMetadata;
+
+/**
+ * Delete tool parameters
+ */
+export type DeleteParams = Pick<Memory, 'id'>;
+
+/**
+ * Merge tool parameters
+ * The first id is kept; the remaining memories are folded into it and removed.
+ */
+export interface MergeParams extends Partial<Pick<Memory, 'summary' | 'details' | 'tags'>> {
+  ids: string[];
+}
+
+export interface UpdateResponse extends BaseResponse {
+  memory?: Memory;
+  warning?: string;
+}
+
+export interface DeleteResponse extends BaseResponse {
+  id?: string;
+}
+
+export interface MergeResponse extends UpdateResponse {
+  merged_ids?: string[];
+}
 
 /**
  * Search tool parameters
@@ -41,4 +125,45 @@ export type StoreParams = Pick<Memory, 'summary' | 'details'> & Partial<Pick<Mem
 export interface SearchParams {
   query: string;
   limit?: number;
+  include_inactive?: boolean;
+  tags?: string[];
+  tag_match?: TagMatchMode;
+  exclude_tags?: string[];
+  /** Unix ms timestamp or ISO 8601 date (inclusive) */
+  since?: number | string;
+  /** Unix ms timestamp or ISO 8601 date (inclusive) */
+  until?: number | string;
+  /** Include a per-signal score breakdown in each result */
+  explain?: boolean;
+}
+
+/**
+ * Whether a memory must carry any or all of the requested tags
+ */
+export type TagMatchMode = 'any' | 'all';
+
+/**
+ * Tag and creation-date filters applied before scoring
+ */
+export interface MemoryFilters {
+  tags?: string[];
+  /** Defaults to 'any' */
+  tagMatch?: TagMatchMode;
+  excludeTags?: string[];
+  /** Only memories created at or after this Unix ms timestamp */
+  since?: number;
+  /** Only memories created at or before this Unix ms timestamp */
+  until?: number;
+}
+
+/**
+ * Options for searchMemories beyond the query and limit
+ */
+export interface MemorySearchOptions extends MemoryFilters {
+  /** Include expired and superseded memories (hidden by default) */
+  includeInactive?: boolean;
+  /** Reference time for expiry and age decay (defaults to Date.now()) */
+  now?: number;
+  /** Attach a per-signal score breakdown to each result */
+  explain?: boolean;
 }
@@ -6,13 +6,15 @@ import { existsSync, readFileSync, writeFileSync, mkdirSync, readdirSync, unlink
 import { join, dirname } from 'path';
 
 import * as yaml from 'js-yaml';
-import { pack, unpack } from 'msgpackr';
 
 import type { Plan, Task, EmbeddingCache } from '../types.js';
 
+import { readEmbeddingCacheFile, readEmbeddingIndexFile, writeEmbeddingCacheFile } from '../../shared/embedding-cache.js';
 import { createValidationError, createFileError, isCCDevToolsError } from '../../shared/errors.js';
 import { ErrorCodes } from '../../shared/types/errors.js';
 
+import type { EmbeddingIndex } from '../../shared/types/search.js';
+
 /**
  * Get path helpers (evaluated at runtime for test isolation)
  */
@@ -250,13 +252,19 @@ export function readEmbeddings(): EmbeddingCache {
   }
 
   try {
-    const buffer = readFileSync(embeddingsFile);
-    return unpack(buffer) as EmbeddingCache;
+    return readEmbeddingCacheFile(embeddingsFile);
   } catch (_error) {
     return {};
   }
 }
 
+/**
+ * Load the nearest-neighbour index over embeddings read from the cache file
+ */
+export function readEmbeddingIndex(embeddings: EmbeddingCache): EmbeddingIndex {
+  return readEmbeddingIndexFile(getEmbeddingsFile(), embeddings);
+}
+
 /**
  * Save embeddings to cache file
  */
@@ -269,8 +277,7 @@ export function saveEmbeddings(embeddings: EmbeddingCache): void {
       mkdirSync(cacheDir, { recursive: true });
     }
 
-    const packed = pack(embeddings);
-    writeFileSync(embeddingsFile, packed);
+    writeEmbeddingCacheFile(embeddingsFile, embeddings);
   } catch (error) {
     throw createFileError(`Failed to save ${embeddingsFile}`, error as Error);
   }
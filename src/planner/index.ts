@@ -116,6 +116,11 @@ Empty query returns most recent plans.`,
         type: 'boolean',
         description: 'Include completed and abandoned plans (default: false). By default only searches active plans (planning, in_progress, on_hold).',
         default: false
+      },
+      explain: {
+        type: 'boolean',
+        description: 'Include each result\'s per-signal score breakdown (keyword/semantic contributions and fusion strategy). Use to debug unexpected rankings.',
+        default: false
       }
     }
   }
@@ -4,10 +4,15 @@
 
 
 import { generateEmbedding, generatePlanEmbedding } from '../core/embeddings.js';
-import { readEmbeddings, saveEmbeddings } from '../core/storage.js';
+import { readEmbeddingIndex, readEmbeddings, saveEmbeddings } from '../core/storage.js';
 import type { Plan, PlanWithScore } from '../types.js';
 
-import { hybridSearch as performHybridSearch, lazyRegenerateEmbeddings } from '../../shared/hybrid-search.js';
+import {
+  getSemanticCandidateLimit,
+  hybridSearch as performHybridSearch,
+  lazyRegenerateEmbeddings
+} from '../../shared/hybrid-search.js';
+import { loadFusionConfig } from '../../shared/search-config.js';
 
 import type { EmbeddingCache, KeywordScore } from '../../shared/types/search.js';
 
@@ -69,12 +74,14 @@ export function filterByStatus(plans: Plan[], includeAll: boolean): Plan[] {
 
 /**
  * Hybrid search with keyword and semantic matching
+ * Scores are fused as configured for `planner` in cc-devtools/search.yaml.
  */
 export async function hybridSearch(
   query: string,
   plans: Plan[],
   limit: number = 1,
-  includeAllStatuses: boolean = false
+  includeAllStatuses: boolean = false,
+  explain: boolean = false
 ): Promise<PlanWithScore[]> {
   const filteredPlans = filterByStatus(plans, includeAllStatuses);
 
@@ -107,11 +114,14 @@ export async function hybridSearch(
     items: filteredPlans,
     embeddings,
     keywordScoreFn: scorePlanKeywords,
-    generateEmbedding
+    generateEmbedding,
+    semanticIndex: { ...readEmbeddingIndex(embeddings), limit: getSemanticCandidateLimit(limit) },
+    fusion: loadFusionConfig('planner'),
+    explain
   });
 
   // Convert to PlanWithScore format
-  return results.slice(0, limit).map(({ item, score, reasons }) => {
+  return results.slice(0, limit).map(({ item, score, reasons, explanation }) => {
     let matchReason = '';
 
     // Determine match reason based on which types of matches were found
@@ -129,7 +139,8 @@ export async function hybridSearch(
     return {
       ...item,
       score,
-      match_reason: matchReason
+      match_reason: matchReason,
+      ...(explanation && { explanation })
     };
   });
 }
@@ -11,7 +11,7 @@ import { createValidationError, createNotFoundError } from '../../shared/errors.
 /**
  * Convert plan to summary format
  */
-function toSummary(plan: Plan & { score?: number; match_reason?: string }): PlanSummary {
+function toSummary(plan: Plan & Pick<PlanSummary, 'score' | 'match_reason' | 'explanation'>): PlanSummary {
   return {
     id: plan.id,
     summary: plan.summary,
@@ -20,7 +20,8 @@ function toSummary(plan: Plan & { score?: number; match_reason?: string }): Plan
     created_at: plan.created_at,
     updated_at: plan.updated_at,
     score: plan.score,
-    match_reason: plan.match_reason
+    match_reason: plan.match_reason,
+    ...(plan.explanation && { explanation: plan.explanation })
   };
 }
 
@@ -34,7 +35,8 @@ export async function search(args: SearchArgs): Promise<SearchResponse> {
     status,
     limit = 1,
     summary_only = true,
-    include_all_statuses = false
+    include_all_statuses = false,
+    explain = false
   } = args;
 
   if (limit < 1 || limit > 20) {
@@ -82,7 +84,8 @@ export async function search(args: SearchArgs): Promise<SearchResponse> {
     query ?? '',
     allPlans,
     limit,
-    include_all_statuses
+    include_all_statuses,
+    explain
   );
 
   if (summary_only) {
@@ -4,6 +4,7 @@
 
 import type { WithScore } from '../shared/types/common.js';
 import type { StoreResponse, BaseResponse } from '../shared/types/responses.js';
+import type { ScoreExplanation } from '../shared/types/search.js';
 
 export type PlanStatus = 'planning' | 'in_progress' | 'completed' | 'on_hold' | 'abandoned';
 export type TaskStatus = 'pending' | 'in_progress' | 'completed';
@@ -31,6 +32,7 @@ export interface Plan {
 export type PlanSummary = Pick<Plan, 'id' | 'summary' | 'goal' | 'status' | 'created_at' | 'updated_at'> & {
   score?: number;
   match_reason?: string;
+  explanation?: ScoreExplanation;
 };
 
 export type PlanWithScore = WithScore<Plan>;
@@ -69,6 +71,8 @@ export interface SearchArgs {
   limit?: number;
   summary_only?: boolean;
   include_all_statuses?: boolean;
+  /** Include a per-signal score breakdown in each result */
+  explain?: boolean;
 }
 
 /**
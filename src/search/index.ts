@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+/**
+ * Unified Search MCP Server
+ * Searches memories, plans, kanban items, code symbols and documentation in one call
+ */
+
+import { initializeModel } from '../shared/embeddings.js';
+import { createMCPServer, startMCPServer } from '../shared/mcp-server-utils.js';
+
+import { devtoolsSearch } from './tools/search.js';
+
+import type { DevtoolsSearchParams } from './types.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+const DEVTOOLS_SEARCH_TOOL: Tool = {
+  name: 'devtools_search',
+  description: `Search every enabled cc-devtools module at once: memories, plans, kanban stories and subtasks, code symbols and documentation. Use this when:
+- You are not sure which module holds the answer
+- Starting work on a topic and want all related context (decisions, plans, stories, code, docs)
+- The user asks "what do we have on X?"
+
+Each module runs its own hybrid search; scores are normalized onto each module's fixed scale (0 at its cut-off, 1 for a full match on every signal) so they compare across modules, and results are interleaved into one list.
+Every result has a type, a source label, the module it came from and a web UI link. Code and documentation results also carry the file and line.
+Use the module-specific tools (memory_search, plan_search, search_code, search_docs) for filters this tool does not expose.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Natural language search query (e.g. "session token refresh", "how are embeddings cached")'
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum results per module and in the combined list. Default: 10. Max: 50.',
+        default: 10,
+        minimum: 1,
+        maximum: 50
+      },
+      modules: {
+        type: 'array',
+        items: {
+          type: 'string',
+          enum: ['memory', 'planner', 'kanban', 'source-code-mapper', 'documentation-indexer']
+        },
+        description: 'Only search these modules (default: every module enabled in .mcp.json)'
+      }
+    },
+    required: ['query']
+  }
+};
+
+async function main(): Promise<void> {
+  try {
+    await initializeModel();
+  } catch (_error) {
+    // Model initialization is optional - server continues with keyword-only search
+  }
+
+  const server = createMCPServer({
+    name: 'cc-devtools-search-server',
+    version: '0.1.0',
+    tools: [DEVTOOLS_SEARCH_TOOL],
+    handlers: {
+      devtools_search: async (args) => devtoolsSearch(args as unknown as DevtoolsSearchParams),
+    },
+  });
+
+  await startMCPServer(server);
+}
+
+main().catch((_error) => {
+  process.exit(1);
+});
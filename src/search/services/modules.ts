@@ -0,0 +1,206 @@
+/**
+ * Per-module search adapters
+ * Each adapter runs one module's own search service and maps its results to the unified shape.
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { join, relative } from 'path';
+
+import type { ModuleSearchResult, SearchModule } from '../types.js';
+
+import { loadIndex as loadDocIndex } from '../../documentation-indexer/core/storage.js';
+import { searchDocumentation } from '../../documentation-indexer/services/search.js';
+import { searchKanban } from '../../kanban/services/search.js';
+import { readAllStories } from '../../kanban/services/storage.js';
+import { readMemories } from '../../memory/core/storage.js';
+import { searchMemories } from '../../memory/services/search.js';
+import { readAllPlans } from '../../planner/core/storage.js';
+import { hybridSearch as searchPlans } from '../../planner/services/search.js';
+import { SEARCH_MODULES } from '../../shared/types/search.js';
+import { loadIndex as loadCodeIndex } from '../../source-code-mapper/core/storage.js';
+import { parseSearchQuery } from '../../source-code-mapper/services/query.js';
+import { searchSymbols } from '../../source-code-mapper/services/search.js';
+
+import type { DocIndex } from '../../documentation-indexer/types.js';
+import type { Index } from '../../source-code-mapper/types.js';
+
+interface McpConfigFile {
+  mcpServers?: Record<string, { disabled?: boolean }>;
+}
+
+const SNIPPET_LENGTH = 200;
+
+const loadedIndexes = new Map<string, { mtimeMs: number; index: Promise<Index | DocIndex | null> }>();
+
+function getCachePath(file: string): string {
+  return join(process.cwd(), 'cc-devtools', '.cache', file);
+}
+
+function truncate(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > SNIPPET_LENGTH ? `${singleLine.slice(0, SNIPPET_LENGTH - 3)}...` : singleLine;
+}
+
+/**
+ * Load an index written by the code or documentation MCP server, reloading only when the
+ * file on disk changes
+ */
+function loadIndexFromCache<T extends Index | DocIndex>(
+  file: string,
+  load: (indexPath: string) => Promise<T | null>
+): Promise<T | null> {
+  const indexPath = getCachePath(file);
+  if (!existsSync(indexPath)) {
+    return Promise.resolve(null);
+  }
+
+  const { mtimeMs } = statSync(indexPath);
+  const cached = loadedIndexes.get(indexPath);
+  if (cached?.mtimeMs !== mtimeMs) {
+    loadedIndexes.set(indexPath, { mtimeMs, index: load(indexPath) });
+  }
+
+  return loadedIndexes.get(indexPath)?.index as Promise<T | null>;
+}
+
+/**
+ * Modules whose MCP server is configured and not disabled in .mcp.json
+ * Without a .mcp.json every module is searched; modules without data simply return nothing.
+ */
+export function getEnabledModules(): SearchModule[] {
+  const mcpConfigPath = join(process.cwd(), '.mcp.json');
+  if (!existsSync(mcpConfigPath)) {
+    return [...SEARCH_MODULES];
+  }
+
+  try {
+    const config = JSON.parse(readFileSync(mcpConfigPath, 'utf-8')) as McpConfigFile;
+    const servers = config.mcpServers ?? {};
+    return SEARCH_MODULES.filter((module) => {
+      const server = servers[`cc-devtools-${module}`];
+      return server !== undefined && server.disabled !== true;
+    });
+  } catch {
+    return [...SEARCH_MODULES];
+  }
+}
+
+async function searchMemoryModule(query: string, limit: number): Promise<ModuleSearchResult[]> {
+  // Explain exposes the score before age decay and confidence, which the unified cut-off uses
+  const results = await searchMemories(query, readMemories(), limit, { explain: true });
+  return results.map((memory) => ({
+    type: 'memory',
+    module: 'memory',
+    source: 'Memory',
+    id: memory.id,
+    title: memory.summary,
+    snippet: truncate(memory.details),
+    score: memory.score,
+    fused_score: memory.explanation?.fused,
+    link: `/memory?id=${encodeURIComponent(memory.id)}`
+  }));
+}
+
+async function searchPlannerModule(query: string, limit: number): Promise<ModuleSearchResult[]> {
+  const results = await searchPlans(query, readAllPlans(), limit);
+  return results.map((plan) => ({
+    type: 'plan',
+    module: 'planner',
+    source: 'Plan',
+    id: plan.id,
+    title: plan.summary,
+    snippet: truncate(plan.goal),
+    score: plan.score,
+    link: `/plans?id=${encodeURIComponent(plan.id)}`
+  }));
+}
+
+async function searchKanbanModule(query: string, limit: number): Promise<ModuleSearchResult[]> {
+  const results = await searchKanban(await readAllStories(), { query, limit, scope: 'both' });
+  return results.map((item) => ({
+    type: item.type,
+    module: 'kanban',
+    source: item.type === 'story' ? 'Story' : 'Subtask',
+    id: item.id,
+    title: item.title,
+    snippet: item.status,
+    score: item.score,
+    link: `/kanban?story=${encodeURIComponent(item.story_id ?? item.id)}`
+  }));
+}
+
+async function searchCodeModule(query: string, limit: number): Promise<ModuleSearchResult[]> {
+  const index = await loadIndexFromCache('source-code-index.msgpack', loadCodeIndex);
+  if (!index) {
+    throw new Error('No source code index found. Start the source-code-mapper MCP server once to build it.');
+  }
+
+  // Filter terms (`kind:function path:src/web/**`) work here as in search_code
+  const parsed = parseSearchQuery(query);
+  if (parsed.errors.length > 0) {
+    throw new Error(`Invalid code query: ${parsed.errors.join('; ')}`);
+  }
+  const hasFilters = Object.keys(parsed.filters).length > 0;
+  const mode = parsed.text ? parsed.mode ?? 'semantic' : 'exact';
+
+  const cwd = process.cwd();
+  const results = await searchSymbols(index, parsed.text, mode, hasFilters ? parsed.filters : undefined, limit);
+  return results.map((symbol) => {
+    const file = relative(cwd, symbol.file);
+    return {
+      type: 'symbol',
+      module: 'source-code-mapper',
+      source: 'Code',
+      id: `${file}:${symbol.name}`,
+      title: symbol.name,
+      snippet: symbol.signature ?? symbol.type,
+      score: symbol.score,
+      link: `/editor?file=${encodeURIComponent(file)}`,
+      file,
+      line: symbol.startLine
+    };
+  });
+}
+
+async function searchDocsModule(query: string, limit: number): Promise<ModuleSearchResult[]> {
+  const index = await loadIndexFromCache('documentation-index.msgpack', loadDocIndex);
+  if (!index) {
+    throw new Error('No documentation index found. Start the documentation-indexer MCP server once to build it.');
+  }
+
+  const cwd = process.cwd();
+  const results = await searchDocumentation(index, query, 'semantic', undefined, limit);
+  return results.map((chunk) => {
+    const file = relative(cwd, chunk.file);
+    return {
+      type: 'doc',
+      module: 'documentation-indexer',
+      source: 'Docs',
+      id: `${file}:${chunk.startLine}`,
+      title: chunk.hierarchy.length > 0 ? chunk.hierarchy.join(' > ') : file,
+      snippet: truncate(chunk.content),
+      score: chunk.score,
+      link: `/editor?file=${encodeURIComponent(file)}`,
+      file,
+      line: chunk.startLine
+    };
+  });
+}
+
+/**
+ * Run one module's search, best result first
+ */
+export function searchModule(module: SearchModule, query: string, limit: number): Promise<ModuleSearchResult[]> {
+  switch (module) {
+    case 'memory':
+      return searchMemoryModule(query, limit);
+    case 'planner':
+      return searchPlannerModule(query, limit);
+    case 'kanban':
+      return searchKanbanModule(query, limit);
+    case 'source-code-mapper':
+      return searchCodeModule(query, limit);
+    case 'documentation-indexer':
+      return searchDocsModule(query, limit);
+  }
+}
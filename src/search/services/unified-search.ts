@@ -0,0 +1,114 @@
+/**
+ * Unified search across modules
+ * Fans a query out to every enabled module, normalizes each module's scores onto a fixed
+ * per-module scale, and interleaves the results into one ranked list.
+ */
+
+import type {
+  ModuleScoreScale,
+  ModuleSearchError,
+  ModuleSearchResult,
+  SearchModule,
+  UnifiedSearchOptions,
+  UnifiedSearchResult,
+  UnifiedSearchResults
+} from '../types.js';
+
+import { loadFusionConfig } from '../../shared/search-config.js';
+
+import { getEnabledModules, searchModule } from './modules.js';
+
+import type { FusionConfig } from '../../shared/types/search.js';
+
+const DEFAULT_LIMIT = 10;
+
+/**
+ * Range of raw scores a module's fused search produces
+ * The top is an item scoring 1 on every signal; the bottom is the weakest semantic match the
+ * module keeps. Reciprocal-rank scores carry no similarity, so nothing is cut off for rrf.
+ */
+export function getModuleScoreScale(config: FusionConfig): ModuleScoreScale {
+  const { keyword_weight: keyword, semantic_weight: semantic } = config;
+
+  switch (config.fusion) {
+    case 'rrf':
+      return { min: 0, max: (keyword + semantic) / (config.rrf_k + 1) };
+    case 'max':
+      return { min: config.similarity_threshold * Math.min(keyword, semantic), max: Math.max(keyword, semantic) };
+    case 'weighted':
+      return { min: config.similarity_threshold * Math.min(keyword, semantic), max: keyword + semantic };
+  }
+}
+
+/**
+ * Drop a module's results below its cut-off and min-max scale the rest onto its fixed range
+ * Modules score on different scales (summed hybrid scores, decayed memory scores, reciprocal
+ * ranks); a fixed range rather than the module's best hit keeps a weak top hit weak. The
+ * cut-off is checked before ranking multipliers, so old or low-confidence memories that the
+ * module still returns are kept, just ranked lower.
+ */
+export function normalizeModuleResults(results: ModuleSearchResult[], scale: ModuleScoreScale): UnifiedSearchResult[] {
+  const span = scale.max - scale.min;
+
+  return results
+    .map(({ fused_score: fusedScore, ...result }, i) => ({ result, fusedScore, rank: i + 1 }))
+    .filter(({ result, fusedScore }) => (fusedScore ?? result.score) >= scale.min)
+    .map(({ result, rank }) => ({
+      ...result,
+      score: span > 0 ? Math.min(Math.max((result.score - scale.min) / span, 0), 1) : 1,
+      raw_score: result.score,
+      rank
+    }));
+}
+
+/**
+ * Merge normalized per-module lists into one, best first
+ * Ties (such as several full matches capped at 1) are broken by rank within the module, then
+ * by the order modules were requested in.
+ */
+export function interleaveResults(
+  lists: UnifiedSearchResult[][],
+  modules: SearchModule[],
+  limit: number
+): UnifiedSearchResult[] {
+  return lists
+    .flat()
+    .sort((a, b) =>
+      b.score - a.score ||
+      a.rank - b.rank ||
+      modules.indexOf(a.module) - modules.indexOf(b.module)
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Search every enabled module (or the requested subset) concurrently
+ * A module that fails is reported in errors and skipped rather than failing the whole search.
+ */
+export async function unifiedSearch(query: string, options: UnifiedSearchOptions = {}): Promise<UnifiedSearchResults> {
+  const { limit = DEFAULT_LIMIT } = options;
+  const enabled = getEnabledModules();
+  const modules = options.modules ? options.modules.filter((module) => enabled.includes(module)) : enabled;
+
+  const settled = await Promise.allSettled(modules.map((module) => searchModule(module, query, limit)));
+
+  const lists: UnifiedSearchResult[][] = [];
+  const errors: ModuleSearchError[] = [];
+  settled.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled') {
+      lists.push(normalizeModuleResults(outcome.value, getModuleScoreScale(loadFusionConfig(modules[i]))));
+    } else {
+      const reason: unknown = outcome.reason;
+      errors.push({
+        module: modules[i],
+        error: reason instanceof Error ? reason.message : String(reason)
+      });
+    }
+  });
+
+  return {
+    modules,
+    results: interleaveResults(lists, modules, limit),
+    errors
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * devtools_search tool implementation
+ */
+
+import { unifiedSearch } from '../services/unified-search.js';
+import type { DevtoolsSearchParams, DevtoolsSearchResponse } from '../types.js';
+
+import { createValidationError } from '../../shared/errors.js';
+import { SEARCH_MODULES } from '../../shared/types/search.js';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+/**
+ * Search every enabled module and return one interleaved list
+ */
+export async function devtoolsSearch(params: DevtoolsSearchParams): Promise<DevtoolsSearchResponse> {
+  const { query, limit = DEFAULT_LIMIT, modules } = params;
+
+  if (typeof query !== 'string' || query.trim() === '') {
+    throw createValidationError('Query must be a non-empty string');
+  }
+
+  if (modules !== undefined && !Array.isArray(modules)) {
+    throw createValidationError('modules must be an array');
+  }
+
+  const unknown = (modules ?? []).filter((module) => !SEARCH_MODULES.includes(module));
+  if (unknown.length > 0) {
+    throw createValidationError(`Unknown module(s): ${unknown.join(', ')}. Expected any of: ${SEARCH_MODULES.join(', ')}`);
+  }
+
+  const actualLimit = Math.min(
+    Math.max(1, typeof limit === 'number' ? limit : DEFAULT_LIMIT),
+    MAX_LIMIT
+  );
+
+  const { modules: searched, results, errors } = await unifiedSearch(query, { limit: actualLimit, modules });
+
+  return {
+    success: true,
+    modules: searched,
+    results,
+    errors
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Unified search type definitions
+ */
+
+import type { BaseResponse } from '../shared/types/responses.js';
+import type { SearchModule } from '../shared/types/search.js';
+
+export type { SearchModule };
+
+/**
+ * Kind of item a result points at
+ */
+export type UnifiedResultType = 'memory' | 'plan' | 'story' | 'subtask' | 'symbol' | 'doc';
+
+/**
+ * One result from any module, in a common shape
+ * IDs match the ones used by `cc-devtools search eval`: symbols are `<path>:<name>` and
+ * documentation chunks `<path>:<startLine>`, with paths relative to the project root.
+ */
+export interface UnifiedSearchResult {
+  type: UnifiedResultType;
+  module: SearchModule;
+  /** Human-readable module label, e.g. "Memory" or "Code" */
+  source: string;
+  id: string;
+  title: string;
+  snippet?: string;
+  /** Raw score placed on the module's fixed scale (0 at its cut-off, 1 at a full match on every signal) */
+  score: number;
+  /** Score as returned by the module's own search */
+  raw_score: number;
+  /** 1-based position within the module's results */
+  rank: number;
+  /** Web UI path that opens the item */
+  link: string;
+  /** Project-relative file for symbols and documentation chunks */
+  file?: string;
+  line?: number;
+}
+
+/**
+ * A result as returned by one module, before scores are normalized across modules
+ */
+export interface ModuleSearchResult extends Omit<UnifiedSearchResult, 'score' | 'raw_score' | 'rank'> {
+  score: number;
+  /** Score before ranking multipliers such as memory age decay and confidence; the cut-off applies to this */
+  fused_score?: number;
+}
+
+/**
+ * Fixed range of raw scores a module's search can produce, derived from its fusion config
+ */
+export interface ModuleScoreScale {
+  /** Raw scores below this are too weak to report */
+  min: number;
+  /** Raw score of an item that fully matches every signal */
+  max: number;
+}
+
+export interface ModuleSearchError {
+  module: SearchModule;
+  error: string;
+}
+
+export interface UnifiedSearchOptions {
+  /** Results per module before interleaving, and the cap on the combined list */
+  limit?: number;
+  /** Restrict to these modules; defaults to every enabled module */
+  modules?: SearchModule[];
+}
+
+export interface UnifiedSearchResults {
+  /** Modules that were searched */
+  modules: SearchModule[];
+  results: UnifiedSearchResult[];
+  /** Modules whose search failed; the others still return results */
+  errors: ModuleSearchError[];
+}
+
+/**
+ * Parameters for devtools_search tool
+ */
+// @type-duplicate-allowed - Tool parameters, distinct from kanban SearchOptions
+export interface DevtoolsSearchParams {
+  query: string;
+  limit?: number;
+  modules?: SearchModule[];
+}
+
+export interface DevtoolsSearchResponse extends BaseResponse, Partial<UnifiedSearchResults> {}
@@ -0,0 +1,137 @@
+/**
+ * Embedding cache files tagged with the model that produced them
+ * A cache written by a different model or dimension is discarded on read, so switching
+ * providers re-embeds everything instead of comparing incompatible vectors.
+ * Each cache keeps a nearest-neighbour index in a sibling -vectors.msgpack file, updated on write.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+
+import { pack, unpack } from 'msgpackr';
+
+import { getEmbeddingModelInfo } from './embedding-providers.js';
+import {
+  buildVectorIndex,
+  getVectorIndexPath,
+  isVectorIndexInSync,
+  loadVectorIndex,
+  saveVectorIndex,
+  syncVectorIndex
+} from './vector-index.js';
+
+import type { EmbeddingCacheFile, EmbeddingModelInfo } from './types/embeddings.js';
+import type { EmbeddingCache, EmbeddingIndex } from './types/search.js';
+
+/**
+ * Caches written before models were recorded all came from the default transformers model
+ */
+const LEGACY_MODEL: EmbeddingModelInfo = { model: 'transformers:Xenova/all-MiniLM-L6-v2', dimension: 384 };
+
+/**
+ * Whether vectors produced by the given model can be compared with the active provider's
+ * Always true before a provider is initialized, since nothing new can be embedded then.
+ */
+export function isCurrentEmbeddingModel(model: EmbeddingModelInfo | undefined): boolean {
+  const current = getEmbeddingModelInfo();
+  if (!current) {
+    return true;
+  }
+
+  const recorded = model ?? LEGACY_MODEL;
+  return recorded.model === current.model && recorded.dimension === current.dimension;
+}
+
+/**
+ * Decode a cache file, accepting the legacy layout (a bare id -> vector map)
+ */
+function decodeCacheFile(data: unknown): EmbeddingCacheFile {
+  if (data && typeof data === 'object' && 'embeddings' in data && 'model' in data) {
+    return data as EmbeddingCacheFile;
+  }
+  return { embeddings: (data ?? {}) as EmbeddingCache };
+}
+
+/**
+ * Read an embedding cache, returning an empty cache if it belongs to another model
+ * @throws If the file exists but cannot be read or decoded
+ */
+export function readEmbeddingCacheFile(filePath: string): EmbeddingCache {
+  if (!existsSync(filePath)) {
+    return {};
+  }
+
+  const file = decodeCacheFile(unpack(readFileSync(filePath)));
+  return isCurrentEmbeddingModel(file.model) ? file.embeddings : {};
+}
+
+/**
+ * Non-empty vectors of a cache, as the vector index stores them
+ * Vectors of another dimension than the first can't be indexed or compared with it, so they are left out.
+ */
+function toVectorMap(embeddings: EmbeddingCache): Map<string, number[]> {
+  const vectors = new Map<string, number[]>();
+  let dimension = 0;
+
+  for (const [id, vector] of Object.entries(embeddings)) {
+    if (!vector || vector.length === 0) {
+      continue;
+    }
+    dimension ||= vector.length;
+    if (vector.length === dimension) {
+      vectors.set(id, vector);
+    }
+  }
+
+  return vectors;
+}
+
+/**
+ * Load the vector index of a cache, rebuilding and re-saving it when missing or out of sync with embeddings
+ * The check happens here, once per load, so searches can trust the index without comparing ids per query.
+ */
+export function readEmbeddingIndexFile(filePath: string, embeddings: EmbeddingCache): EmbeddingIndex {
+  const indexPath = getVectorIndexPath(filePath);
+  const vectors = toVectorMap(embeddings);
+  const stored = loadVectorIndex(indexPath);
+
+  if (stored && isVectorIndexInSync(stored, vectors)) {
+    return { index: stored, vectors };
+  }
+
+  const index = buildVectorIndex(vectors);
+  try {
+    saveVectorIndex(index, indexPath);
+  } catch (_error) {
+    // The index is rebuilt on the next load; searching with the in-memory one is enough
+  }
+  return { index, vectors };
+}
+
+/**
+ * Write an embedding cache tagged with the active model, then update its vector index in place
+ * Before a provider is initialized the previously recorded model is kept.
+ * @throws If the file cannot be written
+ */
+export function writeEmbeddingCacheFile(filePath: string, embeddings: EmbeddingCache): void {
+  let model = getEmbeddingModelInfo();
+
+  if (!model && existsSync(filePath)) {
+    try {
+      model = decodeCacheFile(unpack(readFileSync(filePath))).model ?? null;
+    } catch (_error) {
+      // Unreadable cache is being replaced; fall back to the legacy model below
+    }
+  }
+
+  const file: EmbeddingCacheFile = { model: model ?? LEGACY_MODEL, embeddings };
+  writeFileSync(filePath, pack(file));
+
+  const indexPath = getVectorIndexPath(filePath);
+  const vectors = toVectorMap(embeddings);
+  const index = loadVectorIndex(indexPath);
+  if (!index) {
+    saveVectorIndex(buildVectorIndex(vectors), indexPath);
+  } else if (syncVectorIndex(index, vectors)) {
+    saveVectorIndex(index, indexPath);
+  }
+}
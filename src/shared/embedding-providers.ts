@@ -0,0 +1,244 @@
+/**
+ * Embedding providers and the provider currently used by this process
+ * Chosen in cc-devtools/embeddings.yaml; defaults to the local transformers model.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+import * as yaml from 'js-yaml';
+
+import { createValidationError } from './errors.js';
+
+import type {
+  EmbeddingConfig,
+  EmbeddingModelInfo,
+  EmbeddingProvider,
+  EmbeddingProviderType,
+  OpenAIEmbeddingResponse
+} from './types/embeddings.js';
+import type { FeatureExtractionPipeline } from '@xenova/transformers';
+
+const DEFAULT_TRANSFORMERS_MODEL = 'Xenova/all-MiniLM-L6-v2';
+const DEFAULT_HASH_DIMENSION = 256;
+const PROVIDER_TYPES: EmbeddingProviderType[] = ['transformers', 'openai', 'hash'];
+
+let activeProvider: EmbeddingProvider | null = null;
+let activeModel: EmbeddingModelInfo | null = null;
+
+function getConfigFile(): string {
+  return join(process.cwd(), 'cc-devtools', 'embeddings.yaml');
+}
+
+/**
+ * Read cc-devtools/embeddings.yaml, falling back to the default transformers model
+ * @throws Validation error if the file names an unknown provider
+ */
+export function loadEmbeddingConfig(): EmbeddingConfig {
+  if (!existsSync(getConfigFile())) {
+    return { provider: 'transformers' };
+  }
+
+  const data = yaml.load(readFileSync(getConfigFile(), 'utf-8')) as Partial<EmbeddingConfig> | null;
+  const provider = data?.provider ?? 'transformers';
+
+  if (!PROVIDER_TYPES.includes(provider)) {
+    throw createValidationError(
+      `Unknown embedding provider "${String(provider)}". Expected one of: ${PROVIDER_TYPES.join(', ')}`
+    );
+  }
+
+  return { ...data, provider };
+}
+
+/**
+ * Local model run through @xenova/transformers
+ * The library is imported on first use so other providers never load it.
+ */
+export function createTransformersProvider(model: string = DEFAULT_TRANSFORMERS_MODEL): EmbeddingProvider {
+  let extractor: FeatureExtractionPipeline | null = null;
+
+  const embed = async (text: string): Promise<number[] | null> => {
+    if (!extractor) {
+      return null;
+    }
+
+    try {
+      const output = await extractor(text, { pooling: 'mean', normalize: true });
+      return Array.from(output.data) as number[];
+    } catch (_error) {
+      return null;
+    }
+  };
+
+  return {
+    id: `transformers:${model}`,
+    async initialize(): Promise<number> {
+      const { pipeline } = await import('@xenova/transformers');
+      extractor = await pipeline('feature-extraction', model);
+
+      const probe = await embed('dimension probe');
+      if (!probe) {
+        throw new Error(`Model ${model} produced no embedding`);
+      }
+      return probe.length;
+    },
+    embed,
+    async embedBatch(texts: string[]): Promise<Array<number[] | null>> {
+      if (!extractor || texts.length === 0) {
+        return texts.map(() => null);
+      }
+
+      try {
+        // One [texts, dimension] tensor for the whole batch
+        const output = await extractor(texts, { pooling: 'mean', normalize: true });
+        const dimension = output.dims[output.dims.length - 1];
+        return texts.map((_, i) => Array.from(output.data.slice(i * dimension, (i + 1) * dimension)) as number[]);
+      } catch (_error) {
+        return Promise.all(texts.map(embed));
+      }
+    }
+  };
+}
+
+/**
+ * OpenAI-compatible /embeddings endpoint (OpenAI, Ollama, llama.cpp server, ...)
+ */
+export function createOpenAIProvider(config: Pick<EmbeddingConfig, 'model' | 'url' | 'api_key_env'>): EmbeddingProvider {
+  const model = config.model ?? 'text-embedding-3-small';
+  const url = (config.url ?? 'https://api.openai.com/v1').replace(/\/+$/, '');
+  const apiKey = process.env[config.api_key_env ?? 'OPENAI_API_KEY'];
+
+  const request = async (input: string | string[]): Promise<number[][]> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(`${url}/embeddings`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model, input })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Embedding request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const body = await response.json() as OpenAIEmbeddingResponse;
+    const count = Array.isArray(input) ? input.length : 1;
+    // Entries carry their input position; fall back to response order
+    const embeddings = Array.from<number[] | undefined>({ length: count });
+    (body.data ?? []).forEach((entry, position) => {
+      embeddings[entry.index ?? position] = entry.embedding;
+    });
+    if (embeddings.length !== count || !embeddings.every((embedding) => Array.isArray(embedding))) {
+      throw new Error('Embedding response did not contain an embedding for every input');
+    }
+    return embeddings;
+  };
+
+  return {
+    id: `openai:${model}`,
+    async initialize(): Promise<number> {
+      return (await request('dimension probe'))[0].length;
+    },
+    async embed(text: string): Promise<number[] | null> {
+      try {
+        return (await request(text))[0];
+      } catch (_error) {
+        return null;
+      }
+    },
+    async embedBatch(texts: string[]): Promise<Array<number[] | null>> {
+      if (texts.length === 0) {
+        return [];
+      }
+      try {
+        return await request(texts);
+      } catch (_error) {
+        return texts.map(() => null);
+      }
+    }
+  };
+}
+
+/**
+ * Deterministic feature-hashing embeddings for tests and offline use
+ * Texts sharing words get similar vectors; there is no semantic understanding.
+ */
+export function createHashProvider(dimension: number = DEFAULT_HASH_DIMENSION): EmbeddingProvider {
+  if (!Number.isInteger(dimension) || dimension < 1) {
+    throw createValidationError('Hash provider dimension must be a positive integer');
+  }
+
+  const embed = (text: string): number[] => {
+    const vector = new Array<number>(dimension).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+    for (const token of tokens) {
+      const digest = createHash('sha1').update(token).digest();
+      const bucket = digest.readUInt32BE(0) % dimension;
+      vector[bucket] += (digest[4] & 1) === 0 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map(v => v / norm);
+  };
+
+  return {
+    id: `hash:${dimension}`,
+    initialize(): Promise<number> {
+      return Promise.resolve(dimension);
+    },
+    embed(text: string): Promise<number[] | null> {
+      return Promise.resolve(embed(text));
+    },
+    embedBatch(texts: string[]): Promise<Array<number[] | null>> {
+      return Promise.resolve(texts.map(embed));
+    }
+  };
+}
+
+/**
+ * Build the provider described by a config
+ */
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIProvider(config);
+    case 'hash':
+      return createHashProvider(config.dimension);
+    case 'transformers':
+    default:
+      return createTransformersProvider(config.model);
+  }
+}
+
+/**
+ * Make an initialized provider the one used by generateEmbedding
+ */
+export function setActiveEmbeddingProvider(provider: EmbeddingProvider, dimension: number): void {
+  activeProvider = provider;
+  activeModel = { model: provider.id, dimension };
+}
+
+/**
+ * Forget the active provider (generateEmbedding returns null until the next initialization)
+ */
+export function clearActiveEmbeddingProvider(): void {
+  activeProvider = null;
+  activeModel = null;
+}
+
+export function getActiveEmbeddingProvider(): EmbeddingProvider | null {
+  return activeProvider;
+}
+
+/**
+ * Model ID and dimension of the active provider, or null before initialization
+ */
+export function getEmbeddingModelInfo(): EmbeddingModelInfo | null {
+  return activeModel;
+}
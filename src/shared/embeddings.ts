@@ -1,31 +1,38 @@
 /**
- * Generic local embedding generation using @xenova/transformers
+ * Embedding generation through the configured provider
  * Shared across all MCP servers that need semantic search
  */
 
-import { pipeline } from '@xenova/transformers';
+import {
+  createEmbeddingProvider,
+  getActiveEmbeddingProvider,
+  loadEmbeddingConfig,
+  setActiveEmbeddingProvider
+} from './embedding-providers.js';
 
-import type { FeatureExtractionPipeline } from '@xenova/transformers';
-
-let embeddingPipeline: FeatureExtractionPipeline | null = null;
+import type { EmbeddingConfig } from './types/embeddings.js';
 
 /**
- * Initialize the embedding model
- * @param modelName - Optional model name (defaults to Xenova/all-MiniLM-L6-v2)
+ * Initialize the embedding provider
+ * @param config - Provider config (defaults to cc-devtools/embeddings.yaml, or the local Xenova/all-MiniLM-L6-v2 model)
  * @param timeoutMs - Timeout in milliseconds (default: 60000ms / 1 minute)
  */
-export async function initializeModel(modelName = 'Xenova/all-MiniLM-L6-v2', timeoutMs = 60000): Promise<void> {
-  if (embeddingPipeline) {
+export async function initializeModel(config?: EmbeddingConfig, timeoutMs = 60000): Promise<void> {
+  if (getActiveEmbeddingProvider()) {
     return;
   }
 
   try {
-    embeddingPipeline = await Promise.race([
-      pipeline('feature-extraction', modelName),
-      new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error('Model initialization timeout')), timeoutMs)
-      )
-    ]);
+    const provider = createEmbeddingProvider(config ?? loadEmbeddingConfig());
+    let timer: NodeJS.Timeout | undefined;
+    const dimension = await Promise.race([
+      provider.initialize(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Model initialization timeout')), timeoutMs);
+      })
+    ]).finally(() => clearTimeout(timer));
+
+    setActiveEmbeddingProvider(provider, dimension);
   } catch (error) {
     throw new Error(`Failed to initialize embedding model: ${error instanceof Error ? error.message : String(error)}`);
   }
@@ -37,20 +44,34 @@ export async function initializeModel(modelName = 'Xenova/all-MiniLM-L6-v2', tim
  * @returns Embedding vector or null if model not initialized
  */
 export async function generateEmbedding(text: string): Promise<number[] | null> {
-  if (!embeddingPipeline) {
+  const provider = getActiveEmbeddingProvider();
+  if (!provider) {
     return null;
   }
 
-  try {
-    const output = await embeddingPipeline(text, {
-      pooling: 'mean',
-      normalize: true
-    });
+  return provider.embed(text);
+}
 
-    return Array.from(output.data) as number[];
-  } catch (_error) {
-    return null;
+/**
+ * Generate embeddings for several texts, in one call where the provider supports it
+ * @param texts - Texts to embed
+ * @returns One vector per text, null where embedding failed or before the model is initialized
+ */
+export async function generateEmbeddings(texts: string[]): Promise<Array<number[] | null>> {
+  const provider = getActiveEmbeddingProvider();
+  if (!provider) {
+    return texts.map(() => null);
+  }
+
+  if (provider.embedBatch) {
+    return provider.embedBatch(texts);
+  }
+
+  const embeddings: Array<number[] | null> = [];
+  for (const text of texts) {
+    embeddings.push(await provider.embed(text));
   }
+  return embeddings;
 }
 
 /**
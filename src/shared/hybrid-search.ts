@@ -3,8 +3,15 @@
  */
 
 import { cosineSimilarity } from './embeddings.js';
+import { DEFAULT_FUSION_CONFIG } from './types/search.js';
+import { findNearestVectors, getVectorCount } from './vector-index.js';
 
 import type {
+  FusedScore,
+  FusionConfig,
+  SearchSignal,
+  SignalContribution,
+  SignalScores,
   SearchableItem,
   EmbeddingCache,
   ScoredResult,
@@ -12,8 +19,21 @@ import type {
   EmbeddingGeneratorFn,
   SaveEmbeddingsFn,
   HybridSearchOptions,
+  ScoreMultiplierFn,
+  SemanticIndexOptions,
 } from './types/search.js';
 
+// Semantic candidates fetched per requested result, leaving room for fusion and score multipliers to reorder them
+const SEMANTIC_CANDIDATES_PER_RESULT = 10;
+const MIN_SEMANTIC_CANDIDATES = 100;
+
+/**
+ * Number of semantic matches to take from an index when `limit` results are wanted
+ */
+export function getSemanticCandidateLimit(limit: number): number {
+  return Math.max(limit * SEMANTIC_CANDIDATES_PER_RESULT, MIN_SEMANTIC_CANDIDATES);
+}
+
 /**
  * Keyword search with custom scoring function
  */
@@ -38,12 +58,16 @@ export function keywordSearch<T extends SearchableItem>(
 
 /**
  * Semantic search using embeddings
+ * Every item is compared unless a semantic index is given, in which case only its closest
+ * `limit` matches among items are kept. The index must already be in sync with its vectors
+ * (see readEmbeddingIndexFile), so a query only walks items, never the whole cache.
  */
 export function semanticSearch<T extends SearchableItem>(
   queryEmbedding: number[] | null,
   items: T[],
   embeddings: EmbeddingCache,
-  similarityThreshold: number = 0.3
+  similarityThreshold: number = 0.3,
+  semanticIndex?: SemanticIndexOptions
 ): Map<string, ScoredResult<T>> {
   const results = new Map<string, ScoredResult<T>>();
 
@@ -51,6 +75,29 @@ export function semanticSearch<T extends SearchableItem>(
     return results;
   }
 
+  if (semanticIndex) {
+    const { index, vectors, limit } = semanticIndex;
+    const itemsById = new Map(items.map(item => [item.id, item]));
+    // Only filter when some indexed vectors aren't among items, so whole-collection searches never rescan
+    const indexedItems = items.filter(item => index.nodeById.has(item.id)).length;
+    const isSubset = indexedItems < getVectorCount(index);
+    const matches = findNearestVectors(index, vectors, queryEmbedding, {
+      k: limit,
+      threshold: similarityThreshold,
+      filter: isSubset ? (id): boolean => itemsById.has(id) : undefined
+    });
+
+    for (const { id, similarity } of matches) {
+      results.set(id, {
+        item: itemsById.get(id) as T,
+        score: similarity,
+        reasons: [`semantic similarity: ${similarity.toFixed(2)}`]
+      });
+    }
+
+    return results;
+  }
+
   for (const item of items) {
     const embedding = embeddings[item.id];
     if (!embedding) {
@@ -70,33 +117,114 @@ export function semanticSearch<T extends SearchableItem>(
   return results;
 }
 
+/**
+ * 1-based rank of every id within one signal's hits (ties keep insertion order)
+ */
+function rankScores(scores: Map<string, number>): Map<string, number> {
+  const ordered = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+  return new Map(ordered.map(([id], position) => [id, position + 1]));
+}
+
+/**
+ * Combine per-signal scores into one score per id using the configured fusion strategy
+ * Every id hit by any signal gets a fused score and an explanation of how it was reached.
+ */
+export function fuseScores(signals: SignalScores, config: FusionConfig): Map<string, FusedScore> {
+  const weights: Record<SearchSignal, number> = {
+    keyword: config.keyword_weight,
+    semantic: config.semantic_weight
+  };
+  const ranks: Record<SearchSignal, Map<string, number>> = {
+    keyword: rankScores(signals.keyword),
+    semantic: rankScores(signals.semantic)
+  };
+  const signalNames: SearchSignal[] = ['keyword', 'semantic'];
+  const fused = new Map<string, FusedScore>();
+
+  for (const id of new Set([...signals.keyword.keys(), ...signals.semantic.keys()])) {
+    const contributions: SignalContribution[] = [];
+
+    for (const signal of signalNames) {
+      const score = signals[signal].get(id);
+      if (score === undefined) {
+        continue;
+      }
+
+      const rank = ranks[signal].get(id) as number;
+      const weight = weights[signal];
+      const contribution = config.fusion === 'rrf' ? weight / (config.rrf_k + rank) : weight * score;
+      contributions.push({ signal, score, rank, weight, contribution });
+    }
+
+    const values = contributions.map(c => c.contribution);
+    const score = config.fusion === 'max'
+      ? Math.max(...values)
+      : values.reduce((sum, value) => sum + value, 0);
+
+    fused.set(id, {
+      score,
+      explanation: { fusion: config.fusion, signals: contributions, fused: score, final: score }
+    });
+  }
+
+  return fused;
+}
+
 /**
  * Merge keyword and semantic search results
+ * Scores are fused per the config (an equally weighted sum by default); reasons from both
+ * signals are kept. With explain, each result carries its per-signal breakdown.
  */
 export function mergeScores<T extends SearchableItem>(
   keywordResults: Map<string, ScoredResult<T>>,
-  semanticResults: Map<string, ScoredResult<T>>
+  semanticResults: Map<string, ScoredResult<T>>,
+  config: FusionConfig = DEFAULT_FUSION_CONFIG,
+  explain: boolean = false
 ): ScoredResult<T>[] {
-  const merged = new Map<string, ScoredResult<T>>();
+  const toScores = (results: Map<string, ScoredResult<T>>): Map<string, number> =>
+    new Map(Array.from(results, ([id, result]) => [id, result.score]));
+
+  const fused = fuseScores(
+    { keyword: toScores(keywordResults), semantic: toScores(semanticResults) },
+    config
+  );
 
-  // Add keyword results
-  for (const [id, result] of keywordResults) {
-    merged.set(id, result);
+  const merged: ScoredResult<T>[] = [];
+  for (const [id, { score, explanation }] of fused) {
+    const keyword = keywordResults.get(id);
+    const semantic = semanticResults.get(id);
+
+    merged.push({
+      item: (keyword ?? semantic as ScoredResult<T>).item,
+      score,
+      reasons: [...(keyword?.reasons ?? []), ...(semantic?.reasons ?? [])],
+      ...(explain ? { explanation } : {})
+    });
   }
 
-  // Add/merge semantic results
-  for (const [id, result] of semanticResults) {
-    const existing = merged.get(id);
-    if (existing) {
-      existing.score += result.score;
-      existing.reasons.push(...result.reasons);
-    } else {
-      merged.set(id, result);
+  // Sort by score descending
+  return merged.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Scale merged scores by a per-item multiplier and re-sort
+ */
+export function applyScoreMultipliers<T extends SearchableItem>(
+  results: ScoredResult<T>[],
+  multiplierFn: ScoreMultiplierFn<T>
+): ScoredResult<T>[] {
+  for (const result of results) {
+    const { factor, reasons } = multiplierFn(result.item);
+    result.score *= factor;
+    result.reasons.push(...reasons);
+
+    if (result.explanation) {
+      result.explanation.multiplier = (result.explanation.multiplier ?? 1) * factor;
+      result.explanation.final = result.score;
     }
   }
 
-  // Sort by score descending
-  return Array.from(merged.values()).sort((a, b) => b.score - a.score);
+  return results.sort((a, b) => b.score - a.score);
 }
 
 /**
@@ -138,13 +266,19 @@ export async function hybridSearch<T extends SearchableItem>(
     embeddings,
     keywordScoreFn,
     generateEmbedding,
-    similarityThreshold = 0.3
+    fusion = DEFAULT_FUSION_CONFIG,
+    similarityThreshold = fusion.similarity_threshold,
+    scoreMultiplierFn,
+    semanticIndex,
+    explain = false
   } = options;
 
   const queryEmbedding = await generateEmbedding(query);
 
   const keywordResults = keywordSearch(query, items, keywordScoreFn);
-  const semanticResults = semanticSearch(queryEmbedding, items, embeddings, similarityThreshold);
+  const semanticResults = semanticSearch(queryEmbedding, items, embeddings, similarityThreshold, semanticIndex);
+
+  const merged = mergeScores(keywordResults, semanticResults, fusion, explain);
 
-  return mergeScores(keywordResults, semanticResults);
+  return scoreMultiplierFn ? applyScoreMultipliers(merged, scoreMultiplierFn) : merged;
 }
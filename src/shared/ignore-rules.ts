@@ -0,0 +1,91 @@
+/**
+ * Ignore files
+ * Combines built-in patterns with the `.gitignore` and `.ignore` files of the root and every
+ * directory below it. Like git, rules in deeper files and later lines win, so a `.ignore` can
+ * re-include (`!path`) what a `.gitignore` leaves out.
+ */
+
+import { readFileSync, statSync } from 'fs';
+import { join } from 'path';
+
+import ignore, { type Ignore } from 'ignore';
+
+import type { IgnoreRules, IgnoreSource } from './types/ignore-rules.js';
+
+/** Ignore files read in every directory, in the order their rules apply */
+const IGNORE_FILES: Array<[string, IgnoreSource]> = [
+  ['.gitignore', 'gitignore'],
+  ['.ignore', 'ignore']
+];
+
+interface IgnoreLayer {
+  source: IgnoreSource;
+  matcher: Ignore;
+}
+
+interface DirectoryLayers {
+  /** Modification time of each ignore file when it was read, undefined if it didn't exist */
+  mtimes: Array<number | undefined>;
+  layers: IgnoreLayer[];
+}
+
+/**
+ * Rules for a directory tree; ignore files are read the first time a path below them is
+ * matched and read again once they change, so long-running watchers pick up edits
+ * @param defaults - Built-in patterns, applied before any ignore file
+ */
+export function createIgnoreRules(root: string, defaults: string[]): IgnoreRules {
+  const defaultMatcher = ignore().add(defaults);
+  const layersByDirectory = new Map<string, DirectoryLayers>();
+
+  const getLayers = (directory: string): IgnoreLayer[] => {
+    const paths = IGNORE_FILES.map(([name]) => join(root, directory, name));
+    const mtimes = paths.map((path) => statSync(path, { throwIfNoEntry: false })?.mtimeMs);
+    const cached = layersByDirectory.get(directory);
+    if (cached?.mtimes.every((mtime, i) => mtime === mtimes[i])) {
+      return cached.layers;
+    }
+
+    const layers: IgnoreLayer[] = [];
+    IGNORE_FILES.forEach(([, source], i) => {
+      if (mtimes[i] === undefined) {
+        return;
+      }
+      try {
+        layers.push({ source, matcher: ignore().add(readFileSync(paths[i], 'utf-8')) });
+      } catch {
+        // Unreadable ignore files are skipped
+      }
+    });
+    layersByDirectory.set(directory, { mtimes, layers });
+    return layers;
+  };
+
+  return {
+    match(path: string): IgnoreSource | null {
+      let result: IgnoreSource | null = null;
+      const apply = (matcher: Ignore, candidate: string, source: IgnoreSource): void => {
+        const { ignored, unignored } = matcher.test(candidate);
+        if (ignored) {
+          result = source;
+        } else if (unignored) {
+          result = null;
+        }
+      };
+
+      apply(defaultMatcher, path, 'default');
+
+      // Each directory's ignore files match paths relative to that directory
+      const parts = path.split('/').filter((part) => part.length > 0);
+      for (let depth = 0; depth < parts.length; depth++) {
+        const directory = parts.slice(0, depth).join('/');
+        const candidate = depth === 0 ? path : path.slice(directory.length + 1);
+        for (const layer of getLayers(directory)) {
+          apply(layer.matcher, candidate, layer.source);
+        }
+      }
+
+      return result;
+    }
+  };
+}
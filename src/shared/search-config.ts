@@ -0,0 +1,85 @@
+/**
+ * Search ranking configuration
+ * Read from cc-devtools/search.yaml: `defaults` apply to every module and `modules.<name>`
+ * overrides them for one module. Without the file, keyword and semantic scores are summed.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+import * as yaml from 'js-yaml';
+
+import { createValidationError } from './errors.js';
+import { DEFAULT_FUSION_CONFIG, SEARCH_MODULES } from './types/search.js';
+
+import type { FusionConfig, FusionStrategy, SearchConfigFile, SearchModule } from './types/search.js';
+
+const FUSION_STRATEGIES: FusionStrategy[] = ['weighted', 'rrf', 'max'];
+
+function getConfigFile(): string {
+  return join(process.cwd(), 'cc-devtools', 'search.yaml');
+}
+
+/**
+ * Check one section of the file, naming it in any error
+ */
+function validateFusionSettings(settings: Partial<FusionConfig>, section: string): void {
+  if (settings.fusion !== undefined && !FUSION_STRATEGIES.includes(settings.fusion)) {
+    throw createValidationError(
+      `${section}.fusion must be one of: ${FUSION_STRATEGIES.join(', ')} (got "${String(settings.fusion)}")`
+    );
+  }
+
+  for (const key of ['keyword_weight', 'semantic_weight'] as const) {
+    const value = settings[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      throw createValidationError(`${section}.${key} must be a non-negative number`);
+    }
+  }
+
+  const threshold = settings.similarity_threshold;
+  if (threshold !== undefined && (typeof threshold !== 'number' || threshold < 0 || threshold > 1)) {
+    throw createValidationError(`${section}.similarity_threshold must be a number between 0 and 1`);
+  }
+
+  const rrfK = settings.rrf_k;
+  if (rrfK !== undefined && (typeof rrfK !== 'number' || !Number.isFinite(rrfK) || rrfK <= 0)) {
+    throw createValidationError(`${section}.rrf_k must be a positive number`);
+  }
+}
+
+/**
+ * Read cc-devtools/search.yaml, or an empty config if it does not exist
+ * @throws Validation error for unknown modules or strategies and out-of-range numbers
+ */
+export function loadSearchConfigFile(): SearchConfigFile {
+  if (!existsSync(getConfigFile())) {
+    return {};
+  }
+
+  const data = (yaml.load(readFileSync(getConfigFile(), 'utf-8')) ?? {}) as SearchConfigFile;
+
+  validateFusionSettings(data.defaults ?? {}, 'defaults');
+  for (const [module, settings] of Object.entries(data.modules ?? {})) {
+    if (!SEARCH_MODULES.includes(module as SearchModule)) {
+      throw createValidationError(
+        `Unknown search module "${module}" in search.yaml. Expected one of: ${SEARCH_MODULES.join(', ')}`
+      );
+    }
+    validateFusionSettings(settings ?? {}, `modules.${module}`);
+  }
+
+  return data;
+}
+
+/**
+ * Fusion settings for a module: built-in defaults, then `defaults`, then `modules.<module>`
+ */
+export function loadFusionConfig(module: SearchModule): FusionConfig {
+  const file = loadSearchConfigFile();
+  return {
+    ...DEFAULT_FUSION_CONFIG,
+    ...file.defaults,
+    ...file.modules?.[module]
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Search quality evaluation
+ * Runs labelled queries through each module's search and scores the rankings with
+ * recall@k, mean reciprocal rank and nDCG@k, so ranking changes can be compared run to run.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+
+import * as yaml from 'js-yaml';
+
+import { createNotFoundError, createValidationError } from './errors.js';
+import { SEARCH_MODULES } from './types/search.js';
+
+import type {
+  EvalFile,
+  EvalMetrics,
+  EvalQuery,
+  EvalReport,
+  EvalSearchFn,
+  EvalSummary,
+  QueryEvaluation,
+  RankingMetrics
+} from './types/search-eval.js';
+import type { SearchModule } from './types/search.js';
+
+const DEFAULT_K = 10;
+
+/**
+ * Read and validate an evaluation file
+ * @throws Not found error when missing, validation error for malformed queries
+ */
+export function loadEvalFile(filePath: string): EvalFile {
+  if (!existsSync(filePath)) {
+    throw createNotFoundError(`Evaluation file not found: ${filePath}`, { filePath });
+  }
+
+  const data = yaml.load(readFileSync(filePath, 'utf-8')) as EvalFile | null;
+  if (!data || !Array.isArray(data.queries) || data.queries.length === 0) {
+    throw createValidationError('Evaluation file must contain a non-empty "queries" list');
+  }
+
+  if (data.k !== undefined) {
+    parseK(data.k);
+  }
+
+  data.queries.forEach((query, i) => {
+    const section = `queries[${i}]`;
+    if (!SEARCH_MODULES.includes(query.module)) {
+      throw createValidationError(
+        `${section}.module must be one of: ${SEARCH_MODULES.join(', ')} (got "${String(query.module)}")`
+      );
+    }
+    if (typeof query.query !== 'string' || query.query.trim() === '') {
+      throw createValidationError(`${section}.query must be a non-empty string`);
+    }
+    if (!Array.isArray(query.expected) || query.expected.length === 0) {
+      throw createValidationError(`${section}.expected must list at least one ID`);
+    }
+    query.expected = query.expected.map(String);
+  });
+
+  return data;
+}
+
+/**
+ * Validate a cut-off from the file or the command line
+ */
+export function parseK(value: unknown): number {
+  const k = Number(value);
+  if (!Number.isInteger(k) || k < 1) {
+    throw createValidationError(`k must be a positive integer (got "${String(value)}")`);
+  }
+  return k;
+}
+
+/**
+ * Whether a labelled ID refers to a returned ID: equal, or its leading or trailing `:` part
+ * (a symbol's name, a chunk's file)
+ */
+export function idMatches(expected: string, returned: string): boolean {
+  return returned === expected || returned.startsWith(`${expected}:`) || returned.endsWith(`:${expected}`);
+}
+
+/**
+ * Score the top k of one ranking. Each expected ID counts once, at the first position that matches it.
+ */
+export function computeMetrics(expected: string[], returned: string[], k: number): RankingMetrics {
+  const remaining = new Set(expected);
+  let firstHit = 0;
+  let hits = 0;
+  let dcg = 0;
+
+  returned.slice(0, k).forEach((id, i) => {
+    const match = Array.from(remaining).find(candidate => idMatches(candidate, id));
+    if (match === undefined) {
+      return;
+    }
+
+    remaining.delete(match);
+    firstHit ||= i + 1;
+    hits++;
+    dcg += 1 / Math.log2(i + 2);
+  });
+
+  let idealDcg = 0;
+  for (let i = 0; i < Math.min(expected.length, k); i++) {
+    idealDcg += 1 / Math.log2(i + 2);
+  }
+
+  return {
+    recall: hits / expected.length,
+    mrr: firstHit > 0 ? 1 / firstHit : 0,
+    ndcg: idealDcg > 0 ? dcg / idealDcg : 0,
+    missing: Array.from(remaining)
+  };
+}
+
+function summarize(evaluations: QueryEvaluation[]): EvalSummary {
+  const mean = (key: keyof EvalMetrics): number =>
+    evaluations.length > 0 ? evaluations.reduce((sum, e) => sum + e[key], 0) / evaluations.length : 0;
+
+  return {
+    queries: evaluations.length,
+    recall: mean('recall'),
+    mrr: mean('mrr'),
+    ndcg: mean('ndcg')
+  };
+}
+
+/**
+ * Run every query through its module's search and aggregate the metrics
+ * Queries run one at a time; a failing search scores 0 and records the error rather than
+ * aborting the run.
+ */
+export async function evaluateSearch(
+  queries: EvalQuery[],
+  searchFns: Partial<Record<SearchModule, EvalSearchFn>>,
+  k: number = DEFAULT_K
+): Promise<EvalReport> {
+  const evaluations: QueryEvaluation[] = [];
+
+  for (const query of queries) {
+    const base = {
+      module: query.module,
+      query: query.query,
+      ...(query.name !== undefined && { name: query.name }),
+      expected: query.expected
+    };
+
+    const search = searchFns[query.module];
+    let returned: string[];
+    try {
+      if (!search) {
+        throw new Error(`No search available for module "${query.module}"`);
+      }
+      returned = await search(query, k);
+    } catch (error) {
+      evaluations.push({
+        ...base,
+        returned: [],
+        missing: query.expected,
+        recall: 0,
+        mrr: 0,
+        ndcg: 0,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      continue;
+    }
+
+    const { missing, ...metrics } = computeMetrics(query.expected, returned, k);
+    evaluations.push({ ...base, returned, missing, ...metrics });
+  }
+
+  const modules: EvalReport['modules'] = {};
+  for (const module of SEARCH_MODULES) {
+    const moduleEvaluations = evaluations.filter(e => e.module === module);
+    if (moduleEvaluations.length > 0) {
+      modules[module] = summarize(moduleEvaluations);
+    }
+  }
+
+  return { k, modules, overall: summarize(evaluations), queries: evaluations };
+}
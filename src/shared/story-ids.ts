@@ -0,0 +1,37 @@
+/**
+ * Story IDs in git metadata
+ * Kanban stories are worked on in `feature/<STORY-ID>-<slug>` branches, and their IDs turn up
+ * in commit messages ("Finalized MVP-001") and merge commits of those branches.
+ */
+
+const FEATURE_BRANCH_PATTERN = /^feature\/([A-Z]+-\d+)(?:-|$)/;
+
+/** Story IDs the kanban generates (`MVP-001`), for when the board's phases aren't known */
+const DEFAULT_STORY_ID = '[A-Z]+-\\d{3}';
+
+function storyIdSource(phases?: string[]): string {
+  if (!phases || phases.length === 0) {
+    return DEFAULT_STORY_ID;
+  }
+  const prefixes = phases.map((phase) => phase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return `(?:${prefixes.join('|')})-\\d+`;
+}
+
+/**
+ * Story ID of a feature branch
+ * "feature/MVP-001-project-setup" → "MVP-001"
+ */
+export function getStoryIdFromBranch(branchName: string): string | null {
+  return FEATURE_BRANCH_PATTERN.exec(branchName)?.[1] ?? null;
+}
+
+/**
+ * Story IDs mentioned in free text such as a commit message, in order of appearance
+ * Only the given phases count as prefixes, so `SHA-256` or `RFC-7231` aren't taken for stories;
+ * without phases, only `PHASE-NNN` IDs are. Subtask IDs (`MVP-001-2`) count as their story.
+ */
+export function getStoryIdsFromText(text: string, phases?: string[]): string[] {
+  const pattern = new RegExp(`\\b(${storyIdSource(phases)})\\b`, 'g');
+  const ids = Array.from(text.matchAll(pattern), (match) => match[1]);
+  return Array.from(new Set(ids));
+}
@@ -2,6 +2,8 @@
  * Generic utility types
  */
 
+import type { ScoreExplanation } from '../types/search.js';
+
 /**
  * Generic type to add search score and match reason to any base type
  */
@@ -9,6 +11,8 @@
 export type WithScore<T> = T & {
   score: number;
   match_reason: string;
+  /** Per-signal score breakdown, present when the search was run with explain */
+  explanation?: ScoreExplanation;
 }
 
 /**
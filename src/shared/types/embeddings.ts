@@ -0,0 +1,59 @@
+/**
+ * Embedding provider types
+ */
+
+import type { EmbeddingCache } from '../types/search.js';
+
+export type EmbeddingProviderType = 'transformers' | 'openai' | 'hash';
+
+/**
+ * Source of embedding vectors shared by every semantic search
+ */
+export interface EmbeddingProvider {
+  /** Stable identifier recorded in caches, e.g. "transformers:Xenova/all-MiniLM-L6-v2" */
+  readonly id: string;
+  /** Load the model or check the endpoint; returns the vector dimension */
+  initialize(): Promise<number>;
+  /** Embed text, returning null on failure */
+  embed(text: string): Promise<number[] | null>;
+  /** Embed several texts in one model call or request; null entries failed */
+  embedBatch?(texts: string[]): Promise<Array<number[] | null>>;
+}
+
+/**
+ * Contents of cc-devtools/embeddings.yaml
+ */
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderType;
+  /** Model name (transformers: Hugging Face id; openai: model sent to the endpoint) */
+  model?: string;
+  /** Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 */
+  url?: string;
+  /** Name of the environment variable holding the API key */
+  api_key_env?: string;
+  /** Vector size for the hash provider */
+  dimension?: number;
+}
+
+/**
+ * Model that produced a set of cached vectors
+ */
+export interface EmbeddingModelInfo {
+  model: string;
+  dimension: number;
+}
+
+/**
+ * On-disk layout of the per-module embedding caches
+ */
+export interface EmbeddingCacheFile {
+  model?: EmbeddingModelInfo;
+  embeddings: EmbeddingCache;
+}
+
+/**
+ * Response body of an OpenAI-compatible /embeddings request
+ */
+export interface OpenAIEmbeddingResponse {
+  data?: Array<{ embedding?: number[]; index?: number }>;
+}
@@ -0,0 +1,16 @@
+/**
+ * Ignore file types, shared by the code and documentation indexers
+ */
+
+/**
+ * Which rules left a path out: the indexer's built-in patterns, a `.gitignore` or a `.ignore`
+ */
+export type IgnoreSource = 'default' | 'gitignore' | 'ignore';
+
+export interface IgnoreRules {
+  /**
+   * Rules that ignore a path, or null if it isn't ignored
+   * @param path - Relative to the root, with a trailing slash for directories
+   */
+  match(path: string): IgnoreSource | null;
+}
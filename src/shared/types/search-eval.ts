@@ -0,0 +1,74 @@
+/**
+ * Search quality evaluation types
+ */
+
+import type { SearchModule } from '../types/search.js';
+
+/**
+ * One labelled query: the IDs a good search should return for it
+ * Memory, plan and kanban results are matched by ID. Symbols are `<path>:<name>` (or just the
+ * name) and documentation chunks `<path>:<startLine>` (or just the path), with paths relative
+ * to the project root. An expected ID matches a returned ID that equals it, or of which it is the
+ * leading or trailing `:`-separated part.
+ */
+export interface EvalQuery {
+  module: SearchModule;
+  query: string;
+  expected: string[];
+  /** Optional label shown in reports instead of the query text */
+  name?: string;
+}
+
+/**
+ * Contents of an evaluation file
+ */
+export interface EvalFile {
+  /** Cut-off for recall and nDCG; overridden by --k */
+  k?: number;
+  queries: EvalQuery[];
+}
+
+export interface EvalMetrics {
+  /** Fraction of expected IDs found in the top k */
+  recall: number;
+  /** Reciprocal rank of the first expected ID, 0 when none is returned */
+  mrr: number;
+  /** Normalized discounted cumulative gain over the top k, with binary relevance */
+  ndcg: number;
+}
+
+export interface RankingMetrics extends EvalMetrics {
+  /** Expected IDs not in the top k */
+  missing: string[];
+}
+
+export interface QueryEvaluation extends RankingMetrics {
+  module: SearchModule;
+  query: string;
+  name?: string;
+  expected: string[];
+  /** IDs returned, best first */
+  returned: string[];
+  /** Set when the module's search failed; metrics are then 0 */
+  error?: string;
+}
+
+export interface EvalSummary extends EvalMetrics {
+  queries: number;
+}
+
+export interface EvalReport {
+  k: number;
+  /** Mean metrics per module that had queries */
+  modules: Partial<Record<SearchModule, EvalSummary>>;
+  /** Mean metrics over every query */
+  overall: EvalSummary;
+  queries: QueryEvaluation[];
+}
+
+/**
+ * Runs a query against one module's search and returns result IDs, best first
+ */
+export interface EvalSearchFn {
+  (query: EvalQuery, limit: number): Promise<string[]>;
+}
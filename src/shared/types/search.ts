@@ -2,6 +2,8 @@
  * Hybrid search types
  */
 
+import type { VectorIndex } from '../types/vector-index.js';
+
 export interface SearchableItem {
   id: string;
 }
@@ -14,14 +16,112 @@ export interface ScoredResult<T> {
   item: T;
   score: number;
   reasons: string[];
+  /** Per-signal breakdown, only set when explain is requested */
+  explanation?: ScoreExplanation;
+}
+
+/**
+ * How keyword and semantic scores are combined
+ * - weighted: weighted sum of the raw scores
+ * - rrf: reciprocal-rank fusion, sum of weight / (rrf_k + rank) over the signals
+ * - max: the larger weighted score
+ */
+export type FusionStrategy = 'weighted' | 'rrf' | 'max';
+
+export type SearchSignal = 'keyword' | 'semantic';
+
+/**
+ * Modules whose ranking can be tuned in cc-devtools/search.yaml (named like the features)
+ */
+export type SearchModule = 'memory' | 'planner' | 'kanban' | 'source-code-mapper' | 'documentation-indexer';
+
+export const SEARCH_MODULES: SearchModule[] = [
+  'memory',
+  'planner',
+  'kanban',
+  'source-code-mapper',
+  'documentation-indexer'
+];
+
+/**
+ * Fusion settings for one module, after defaults are applied
+ */
+export interface FusionConfig {
+  fusion: FusionStrategy;
+  keyword_weight: number;
+  semantic_weight: number;
+  /** Semantic matches at or below this cosine similarity are dropped */
+  similarity_threshold: number;
+  /** Rank offset for reciprocal-rank fusion; larger values flatten the head of each list */
+  rrf_k: number;
+}
+
+/**
+ * Behaviour without cc-devtools/search.yaml: keyword and semantic scores summed
+ */
+export const DEFAULT_FUSION_CONFIG: FusionConfig = {
+  fusion: 'weighted',
+  keyword_weight: 1,
+  semantic_weight: 1,
+  similarity_threshold: 0.3,
+  rrf_k: 60
+};
+
+/**
+ * Contents of cc-devtools/search.yaml
+ */
+export interface SearchConfigFile {
+  defaults?: Partial<FusionConfig>;
+  modules?: Partial<Record<SearchModule, Partial<FusionConfig>>>;
+}
+
+export interface SignalContribution {
+  signal: SearchSignal;
+  /** Raw score from the signal */
+  score: number;
+  /** 1-based position among this signal's hits */
+  rank: number;
+  weight: number;
+  /** Amount this signal adds under the fusion strategy (for max, the candidate value) */
+  contribution: number;
+}
+
+export interface ScoreExplanation {
+  fusion: FusionStrategy;
+  signals: SignalContribution[];
+  /** Score after fusion */
+  fused: number;
+  /** Product of post-fusion multipliers such as recency or confidence */
+  multiplier?: number;
+  /** Score used for ranking */
+  final: number;
+}
+
+export interface FusedScore {
+  score: number;
+  explanation: ScoreExplanation;
 }
 
+export type SignalScores = Record<SearchSignal, Map<string, number>>;
+
 // @type-duplicate-allowed
 export interface KeywordScore {
   score: number;
   reasons: string[];
 }
 
+/**
+ * Post-merge ranking adjustment (e.g. recency or confidence)
+ */
+export interface ScoreMultiplier {
+  factor: number;
+  reasons: string[];
+}
+
+export interface ScoreMultiplierFn<T extends SearchableItem> {
+  (item: T): ScoreMultiplier;
+}
+
 export interface KeywordScoringFn<T extends SearchableItem> {
   (query: string, item: T): KeywordScore;
 }
@@ -34,11 +134,35 @@ export interface SaveEmbeddingsFn {
   (embeddings: EmbeddingCache): void | Promise<void>;
 }
 
+/**
+ * Nearest-neighbour index over an embedding cache, checked against the cache once when loaded
+ */
+export interface EmbeddingIndex {
+  index: VectorIndex;
+  /** The cache's non-empty vectors, scanned exactly when the index can't be used */
+  vectors: Map<string, number[]>;
+}
+
+/**
+ * Embedding index to search instead of scanning every item, for collections too large to scan per query
+ */
+export interface SemanticIndexOptions extends EmbeddingIndex {
+  /** Semantic matches to keep; the index only pays off when this is well below the cache size */
+  limit: number;
+}
+
 export interface HybridSearchOptions<T extends SearchableItem> {
   query: string;
   items: T[];
   embeddings: EmbeddingCache;
   keywordScoreFn: KeywordScoringFn<T>;
   generateEmbedding: (query: string) => Promise<number[] | null>;
+  /** Overrides fusion.similarity_threshold */
   similarityThreshold?: number;
+  scoreMultiplierFn?: ScoreMultiplierFn<T>;
+  semanticIndex?: SemanticIndexOptions;
+  /** Defaults to an equally weighted sum with a 0.3 similarity threshold */
+  fusion?: FusionConfig;
+  /** Attach a per-signal score breakdown to every result */
+  explain?: boolean;
 }
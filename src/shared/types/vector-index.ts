@@ -0,0 +1,53 @@
+/**
+ * Approximate nearest-neighbour (HNSW) vector index types
+ */
+
+export interface VectorIndexParams {
+  /** Links kept per node on the upper layers (twice this on the base layer) */
+  m: number;
+  /** Candidate list size while inserting; higher builds a better graph more slowly */
+  efConstruction: number;
+  /** Candidate list size while searching; raised to k when k is larger */
+  efSearch: number;
+}
+
+/**
+ * Hierarchical navigable small world graph over unit-length vectors
+ * Removed entries stay in the graph as tombstones (id null) so it stays navigable,
+ * and are dropped when the index is compacted.
+ */
+export interface VectorIndex {
+  params: VectorIndexParams;
+  /** Fixed by the first vector added; 0 while empty */
+  dimension: number;
+  /** Node -> external id, null once removed */
+  ids: Array<string | null>;
+  /** Node -> normalized vector */
+  vectors: Float32Array[];
+  /** Node -> layer -> neighbouring nodes */
+  links: number[][][];
+  /** Top-layer entry node, -1 while empty */
+  entryPoint: number;
+  maxLevel: number;
+  removedCount: number;
+  /** State of the level generator, persisted so rebuilds are reproducible */
+  seed: number;
+  /** External id -> node, rebuilt on load */
+  nodeById: Map<string, number>;
+}
+
+export interface VectorMatch {
+  id: string;
+  similarity: number;
+}
+
+export interface VectorSearchOptions {
+  /** Maximum number of matches */
+  k: number;
+  /** Only matches with similarity strictly above this are returned */
+  threshold?: number;
+  /** Override the index's efSearch */
+  ef?: number;
+  /** Restrict matches to ids accepted by this predicate */
+  filter?: (id: string) => boolean;
+}
@@ -0,0 +1,596 @@
+/**
+ * Approximate nearest-neighbour search over embeddings (HNSW)
+ * Small collections, and indexes that are missing or out of sync with their embeddings,
+ * fall back to an exact scan so results never depend on the index being present.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+
+import { pack, unpack } from 'msgpackr';
+
+import { createValidationError } from './errors.js';
+
+import type { VectorIndex, VectorIndexParams, VectorMatch, VectorSearchOptions } from './types/vector-index.js';
+
+const VECTOR_INDEX_VERSION = 1;
+
+const DEFAULT_PARAMS: VectorIndexParams = { m: 16, efConstruction: 100, efSearch: 64 };
+
+/**
+ * Below this many vectors an exact scan is already fast and never misses a match
+ */
+const MIN_APPROXIMATE_SIZE = 2000;
+
+/**
+ * Tombstones are compacted away once they outnumber live vectors and there are at least this many
+ */
+const MIN_COMPACTION_REMOVALS = 256;
+
+interface SerializedVectorIndex {
+  version: number;
+  params: VectorIndexParams;
+  dimension: number;
+  ids: Array<string | null>;
+  /** Every node's vector back to back, as raw float32 bytes */
+  vectors: Uint8Array;
+  links: number[][][];
+  entryPoint: number;
+  maxLevel: number;
+  removedCount: number;
+  seed: number;
+}
+
+interface Candidate {
+  node: number;
+  similarity: number;
+}
+
+interface IndexSearchResult {
+  matches: VectorMatch[];
+  /** Candidates above the threshold that the filter rejected */
+  filtered: number;
+}
+
+/**
+ * Create an empty index; the dimension is fixed by the first vector added
+ */
+export function createVectorIndex(params: Partial<VectorIndexParams> = {}): VectorIndex {
+  return {
+    params: { ...DEFAULT_PARAMS, ...params },
+    dimension: 0,
+    ids: [],
+    vectors: [],
+    links: [],
+    entryPoint: -1,
+    maxLevel: 0,
+    removedCount: 0,
+    seed: 0x9e3779b9,
+    nodeById: new Map()
+  };
+}
+
+/**
+ * Build an index from id -> vector pairs, skipping missing and empty vectors
+ */
+export function buildVectorIndex(
+  embeddings: Iterable<[string, ArrayLike<number> | null]>,
+  params: Partial<VectorIndexParams> = {}
+): VectorIndex {
+  const index = createVectorIndex(params);
+  for (const [id, vector] of embeddings) {
+    if (vector && vector.length > 0) {
+      addVector(index, id, vector);
+    }
+  }
+  return index;
+}
+
+/**
+ * Number of live (not removed) vectors
+ */
+export function getVectorCount(index: VectorIndex): number {
+  return index.nodeById.size;
+}
+
+/**
+ * Whether the index holds exactly the ids of the given embedding map
+ */
+export function isVectorIndexInSync(index: VectorIndex, embeddings: Map<string, unknown>): boolean {
+  if (getVectorCount(index) !== embeddings.size) {
+    return false;
+  }
+  for (const id of embeddings.keys()) {
+    if (!index.nodeById.has(id)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Bring an index in line with embeddings: drop ids that are gone, add new ones and re-add changed vectors
+ * An index of another dimension is rebuilt. Returns whether anything changed.
+ */
+export function syncVectorIndex(index: VectorIndex, embeddings: Map<string, ArrayLike<number>>): boolean {
+  const first = embeddings.values().next();
+  if (!first.done && index.dimension !== 0 && first.value.length !== index.dimension) {
+    Object.assign(index, buildVectorIndex(embeddings, index.params));
+    return true;
+  }
+
+  let changed = false;
+  for (const id of Array.from(index.nodeById.keys())) {
+    if (!embeddings.has(id)) {
+      removeVector(index, id);
+      changed = true;
+    }
+  }
+
+  for (const [id, vector] of embeddings) {
+    const node = index.nodeById.get(id);
+    // normalize() is deterministic, so an unchanged vector normalizes to exactly what is stored
+    if (node === undefined || !sameVector(index.vectors[node], normalize(vector))) {
+      addVector(index, id, vector);
+      changed = true;
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Add or replace the vector stored under id
+ * @throws If the vector's dimension differs from the vectors already indexed
+ */
+export function addVector(index: VectorIndex, id: string, vector: ArrayLike<number>): void {
+  if (vector.length === 0) {
+    throw createValidationError('Cannot index an empty vector');
+  }
+
+  if (index.dimension === 0) {
+    index.dimension = vector.length;
+  } else if (vector.length !== index.dimension) {
+    throw createValidationError(
+      `Vector dimension ${vector.length} does not match index dimension ${index.dimension}`
+    );
+  }
+
+  removeVector(index, id);
+  insertNode(index, id, normalize(vector));
+}
+
+/**
+ * Remove the vector stored under id, returning whether it was present
+ * The node stays in the graph as a tombstone until enough have accumulated to compact.
+ */
+export function removeVector(index: VectorIndex, id: string): boolean {
+  const node = index.nodeById.get(id);
+  if (node === undefined) {
+    return false;
+  }
+
+  index.nodeById.delete(id);
+  index.ids[node] = null;
+  index.removedCount++;
+
+  if (index.removedCount >= MIN_COMPACTION_REMOVALS && index.removedCount > getVectorCount(index)) {
+    compactVectorIndex(index);
+  }
+
+  return true;
+}
+
+/**
+ * Rebuild the graph in place from the live vectors, dropping tombstones
+ */
+export function compactVectorIndex(index: VectorIndex): void {
+  const rebuilt = createVectorIndex(index.params);
+  rebuilt.dimension = index.dimension;
+  rebuilt.seed = index.seed;
+
+  index.ids.forEach((id, node) => {
+    if (id !== null) {
+      insertNode(rebuilt, id, index.vectors[node]);
+    }
+  });
+
+  Object.assign(index, rebuilt);
+}
+
+/**
+ * Approximate k nearest neighbours by cosine similarity, best first
+ */
+export function searchVectorIndex(
+  index: VectorIndex,
+  query: ArrayLike<number>,
+  options: VectorSearchOptions
+): VectorMatch[] {
+  return searchIndex(index, query, options).matches;
+}
+
+/**
+ * Exact k nearest neighbours by cosine similarity, best first
+ */
+export function exactVectorSearch(
+  embeddings: Iterable<[string, ArrayLike<number> | null]>,
+  query: ArrayLike<number>,
+  options: VectorSearchOptions
+): VectorMatch[] {
+  const matches: VectorMatch[] = [];
+
+  for (const [id, vector] of embeddings) {
+    if (!vector || vector.length !== query.length) {
+      continue;
+    }
+
+    const similarity = cosine(query, vector);
+    if (passes(id, similarity, options)) {
+      matches.push({ id, similarity });
+    }
+  }
+
+  return matches.sort((a, b) => b.similarity - a.similarity).slice(0, Math.max(options.k, 0));
+}
+
+/**
+ * Nearest neighbours using the index when it can be trusted, otherwise an exact scan of embeddings
+ * The index is only used when it is large enough to pay off and holds as many vectors as embeddings
+ * (a full id comparison per query would cost as much as the scan; see isVectorIndexInSync).
+ * A filter can reject most approximate candidates, so a search that comes up short is rescanned, but only
+ * when the filter rejected candidates above the threshold; falling short of k on the threshold alone is normal.
+ */
+export function findNearestVectors(
+  index: VectorIndex | undefined,
+  embeddings: Map<string, ArrayLike<number> | null>,
+  query: ArrayLike<number>,
+  options: VectorSearchOptions
+): VectorMatch[] {
+  const usable = index !== undefined
+    && index.dimension === query.length
+    && getVectorCount(index) >= MIN_APPROXIMATE_SIZE
+    && options.k < getVectorCount(index)
+    && getVectorCount(index) === embeddings.size;
+
+  if (!usable) {
+    return exactVectorSearch(embeddings, query, options);
+  }
+
+  const { matches, filtered } = searchIndex(index, query, options);
+  if (filtered > 0 && matches.length < options.k) {
+    return exactVectorSearch(embeddings, query, options);
+  }
+
+  return matches;
+}
+
+/**
+ * Vector index file stored next to an index cache, e.g. foo.msgpack -> foo-vectors.msgpack
+ */
+export function getVectorIndexPath(indexPath: string): string {
+  return `${indexPath.replace(/\.msgpack$/, '')}-vectors.msgpack`;
+}
+
+/**
+ * Write an index to disk
+ */
+export function saveVectorIndex(index: VectorIndex, filePath: string): void {
+  const flat = new Float32Array(index.vectors.length * index.dimension);
+  index.vectors.forEach((vector, node) => flat.set(vector, node * index.dimension));
+
+  const serialized: SerializedVectorIndex = {
+    version: VECTOR_INDEX_VERSION,
+    params: index.params,
+    dimension: index.dimension,
+    ids: index.ids,
+    vectors: new Uint8Array(flat.buffer),
+    links: index.links,
+    entryPoint: index.entryPoint,
+    maxLevel: index.maxLevel,
+    removedCount: index.removedCount,
+    seed: index.seed
+  };
+
+  writeFileSync(filePath, pack(serialized));
+}
+
+/**
+ * Read an index from disk, or null if it is missing, from another version or unreadable
+ */
+export function loadVectorIndex(filePath: string): VectorIndex | null {
+  if (!existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    const serialized = unpack(readFileSync(filePath)) as SerializedVectorIndex;
+    if (serialized.version !== VECTOR_INDEX_VERSION) {
+      return null;
+    }
+
+    // Copy into a fresh buffer: the decoded bytes may not be 4-byte aligned
+    const { dimension } = serialized;
+    const flat = new Float32Array(serialized.vectors.byteLength / 4);
+    new Uint8Array(flat.buffer).set(serialized.vectors);
+
+    const index: VectorIndex = {
+      params: serialized.params,
+      dimension,
+      ids: serialized.ids,
+      vectors: serialized.ids.map((_, node) => flat.subarray(node * dimension, (node + 1) * dimension)),
+      links: serialized.links,
+      entryPoint: serialized.entryPoint,
+      maxLevel: serialized.maxLevel,
+      removedCount: serialized.removedCount,
+      seed: serialized.seed,
+      nodeById: new Map()
+    };
+
+    index.ids.forEach((id, node) => {
+      if (id !== null) {
+        index.nodeById.set(id, node);
+      }
+    });
+
+    return index;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load the index stored next to an index cache, rebuilding it when missing or out of sync with embeddings
+ */
+export function loadOrBuildVectorIndex(filePath: string, embeddings: Map<string, ArrayLike<number>>): VectorIndex {
+  const index = loadVectorIndex(filePath);
+  return index && isVectorIndexInSync(index, embeddings) ? index : buildVectorIndex(embeddings);
+}
+
+/**
+ * Index search that also counts candidates above the threshold rejected by the filter
+ */
+function searchIndex(index: VectorIndex, query: ArrayLike<number>, options: VectorSearchOptions): IndexSearchResult {
+  const result: IndexSearchResult = { matches: [], filtered: 0 };
+  if (index.entryPoint === -1 || query.length !== index.dimension || options.k <= 0) {
+    return result;
+  }
+
+  const target = normalize(query);
+  const ef = Math.max(options.ef ?? index.params.efSearch, options.k);
+
+  let entry: Candidate = { node: index.entryPoint, similarity: dot(target, index.vectors[index.entryPoint]) };
+  for (let level = index.maxLevel; level > 0; level--) {
+    entry = searchLayer(index, target, [entry], 1, level)[0];
+  }
+
+  // Candidates come best first, so the first one at or below the threshold ends the search
+  for (const candidate of searchLayer(index, target, [entry], ef, 0)) {
+    if (options.threshold !== undefined && candidate.similarity <= options.threshold) {
+      break;
+    }
+    const id = index.ids[candidate.node];
+    if (id === null) {
+      continue;
+    }
+    if (options.filter && !options.filter(id)) {
+      result.filtered++;
+      continue;
+    }
+    result.matches.push({ id, similarity: candidate.similarity });
+    if (result.matches.length === options.k) {
+      break;
+    }
+  }
+
+  return result;
+}
+
+function passes(id: string, similarity: number, options: VectorSearchOptions): boolean {
+  if (options.threshold !== undefined && similarity <= options.threshold) {
+    return false;
+  }
+  return !options.filter || options.filter(id);
+}
+
+/**
+ * Link a new node into every layer up to its randomly drawn level
+ */
+function insertNode(index: VectorIndex, id: string, vector: Float32Array): void {
+  const node = index.ids.length;
+  const level = randomLevel(index);
+
+  index.ids.push(id);
+  index.vectors.push(vector);
+  index.links.push(Array.from({ length: level + 1 }, () => []));
+  index.nodeById.set(id, node);
+
+  if (index.entryPoint === -1) {
+    index.entryPoint = node;
+    index.maxLevel = level;
+    return;
+  }
+
+  let entry: Candidate = { node: index.entryPoint, similarity: dot(vector, index.vectors[index.entryPoint]) };
+  for (let layer = index.maxLevel; layer > level; layer--) {
+    entry = searchLayer(index, vector, [entry], 1, layer)[0];
+  }
+
+  let entries = [entry];
+  for (let layer = Math.min(level, index.maxLevel); layer >= 0; layer--) {
+    const found = searchLayer(index, vector, entries, index.params.efConstruction, layer);
+    const neighbours = selectNeighbours(index, found, index.params.m);
+    const maxLinks = layer === 0 ? index.params.m * 2 : index.params.m;
+
+    index.links[node][layer] = neighbours.map(candidate => candidate.node);
+    for (const neighbour of neighbours) {
+      connect(index, neighbour.node, node, layer, maxLinks);
+    }
+
+    entries = found;
+  }
+
+  if (level > index.maxLevel) {
+    index.maxLevel = level;
+    index.entryPoint = node;
+  }
+}
+
+/**
+ * Add a back-link, keeping only the closest maxLinks when the neighbour's list overflows
+ */
+function connect(index: VectorIndex, from: number, to: number, layer: number, maxLinks: number): void {
+  const links = index.links[from][layer];
+  links.push(to);
+
+  if (links.length > maxLinks) {
+    const base = index.vectors[from];
+    const candidates = links
+      .map(node => ({ node, similarity: dot(base, index.vectors[node]) }))
+      .sort((a, b) => b.similarity - a.similarity);
+    index.links[from][layer] = candidates.slice(0, maxLinks).map(candidate => candidate.node);
+  }
+}
+
+/**
+ * Pick up to count neighbours from candidates sorted best first
+ * A candidate closer to an already chosen neighbour than to the base node is reachable through
+ * that neighbour, so it is skipped in favour of links in other directions (HNSW heuristic).
+ * Skipped candidates fill any remaining slots.
+ */
+function selectNeighbours(index: VectorIndex, candidates: Candidate[], count: number): Candidate[] {
+  const selected: Candidate[] = [];
+  const skipped: Candidate[] = [];
+
+  for (const candidate of candidates) {
+    if (selected.length >= count) {
+      break;
+    }
+
+    const vector = index.vectors[candidate.node];
+    const diverse = selected.every(chosen => dot(vector, index.vectors[chosen.node]) < candidate.similarity);
+    (diverse ? selected : skipped).push(candidate);
+  }
+
+  for (const candidate of skipped) {
+    if (selected.length >= count) {
+      break;
+    }
+    selected.push(candidate);
+  }
+
+  return selected;
+}
+
+/**
+ * Best-first search of one layer, returning up to ef nodes sorted best first
+ */
+function searchLayer(
+  index: VectorIndex,
+  target: Float32Array,
+  entries: Candidate[],
+  ef: number,
+  layer: number
+): Candidate[] {
+  const visited = new Set(entries.map(entry => entry.node));
+  // Candidates keep the best at the end so pop() is cheap; results keep the worst at the end
+  const candidates = [...entries].sort((a, b) => a.similarity - b.similarity);
+  const results = [...entries].sort((a, b) => b.similarity - a.similarity).slice(0, ef);
+
+  while (candidates.length > 0) {
+    const current = candidates.pop() as Candidate;
+    if (results.length >= ef && current.similarity < results[results.length - 1].similarity) {
+      break;
+    }
+
+    for (const neighbour of index.links[current.node][layer] ?? []) {
+      if (visited.has(neighbour)) {
+        continue;
+      }
+      visited.add(neighbour);
+
+      const similarity = dot(target, index.vectors[neighbour]);
+      if (results.length < ef || similarity > results[results.length - 1].similarity) {
+        const candidate = { node: neighbour, similarity };
+        insertSorted(candidates, candidate, false);
+        insertSorted(results, candidate, true);
+        if (results.length > ef) {
+          results.pop();
+        }
+      }
+    }
+  }
+
+  return results;
+}
+
+function insertSorted(list: Candidate[], candidate: Candidate, descending: boolean): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    const before = descending
+      ? list[mid].similarity >= candidate.similarity
+      : list[mid].similarity <= candidate.similarity;
+    if (before) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  list.splice(low, 0, candidate);
+}
+
+/**
+ * Geometric level distribution with mean 1 / ln(m), from a seeded generator (mulberry32)
+ */
+function randomLevel(index: VectorIndex): number {
+  index.seed = (index.seed + 0x6d2b79f5) | 0;
+  let t = index.seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const random = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+
+  return Math.floor(-Math.log(1 - random) / Math.log(index.params.m));
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const normalized = Float32Array.from(vector);
+  const norm = Math.sqrt(dot(normalized, normalized));
+  if (norm > 0) {
+    for (let i = 0; i < normalized.length; i++) {
+      normalized[i] /= norm;
+    }
+  }
+  return normalized;
+}
+
+function sameVector(a: Float32Array, b: Float32Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function cosine(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : sum / (Math.sqrt(normA) * Math.sqrt(normB));
+}
@@ -0,0 +1,81 @@
+/**
+ * Source code mapper configuration
+ * Read from cc-devtools/scm.yaml. Without the file every setting keeps its default.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+import * as yaml from 'js-yaml';
+
+import type { IndexConfig, ScmConfigFile } from '../types.js';
+import { SUPPORTED_LANGUAGES } from '../types.js';
+
+import { createValidationError } from '../../shared/errors.js';
+
+
+export function getScmConfigPath(projectRoot: string = process.cwd()): string {
+  return join(projectRoot, 'cc-devtools', 'scm.yaml');
+}
+
+function validateStringList(value: unknown, key: string): void {
+  if (value !== undefined && (!Array.isArray(value) || value.some((entry) => typeof entry !== 'string'))) {
+    throw createValidationError(`${key} must be a list of strings`);
+  }
+}
+
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 * 1024, gb: 1024 * 1024 * 1024 };
+
+/**
+ * File size in bytes, from a number of bytes or a string like `512KB`
+ */
+function parseFileSize(value: unknown, key: string): number {
+  const match = typeof value === 'string' ? /^\s*(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?\s*$/i.exec(value) : null;
+  const size = typeof value === 'number' ? value : match ? Number(match[1]) * SIZE_UNITS[(match[2] ?? 'b').toLowerCase()] : NaN;
+  if (!Number.isFinite(size) || size <= 0) {
+    throw createValidationError(`${key} must be a positive size in bytes, or a number with KB, MB or GB`);
+  }
+  return Math.floor(size);
+}
+
+function validateIndexConfig(config: IndexConfig): void {
+  validateStringList(config.include, 'index.include');
+  validateStringList(config.exclude, 'index.exclude');
+
+  if (config.max_file_size !== undefined) {
+    config.max_file_size = parseFileSize(config.max_file_size, 'index.max_file_size');
+  }
+
+  if (config.languages !== undefined) {
+    if (typeof config.languages !== 'object' || config.languages === null || Array.isArray(config.languages)) {
+      throw createValidationError('index.languages must map patterns to language names');
+    }
+    const known = SUPPORTED_LANGUAGES.map((language) => language.name);
+    for (const [pattern, language] of Object.entries(config.languages)) {
+      if (typeof language !== 'string' || !known.includes(language)) {
+        throw createValidationError(`Unknown language "${String(language)}" for "${pattern}" in index.languages`);
+      }
+    }
+  }
+}
+
+/**
+ * Read cc-devtools/scm.yaml, or an empty config if it does not exist
+ * @throws Validation error for settings of the wrong type
+ */
+export function loadScmConfig(projectRoot: string = process.cwd()): ScmConfigFile {
+  const configPath = getScmConfigPath(projectRoot);
+  if (!existsSync(configPath)) {
+    return {};
+  }
+
+  const data = (yaml.load(readFileSync(configPath, 'utf-8')) ?? {}) as ScmConfigFile;
+
+  if (data.index) {
+    validateIndexConfig(data.index);
+  }
+  validateStringList(data.unused?.entry_points, 'unused.entry_points');
+  validateStringList(data.unused?.allow, 'unused.allow');
+
+  return data;
+}
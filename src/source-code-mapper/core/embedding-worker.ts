@@ -0,0 +1,27 @@
+/**
+ * Embedding worker thread
+ * Loads the configured embedding model and answers batches of texts from the indexer
+ */
+
+import { parentPort } from 'worker_threads';
+
+import type { EmbeddingWorkerRequest, EmbeddingWorkerResponse } from '../types.js';
+
+import { generateEmbeddings, initializeModel } from '../../shared/embeddings.js';
+
+const ready = initializeModel();
+// Failures are reported per request below
+ready.catch(() => undefined);
+
+parentPort?.on('message', (request: EmbeddingWorkerRequest) => {
+  void (async (): Promise<void> => {
+    let response: EmbeddingWorkerResponse;
+    try {
+      await ready;
+      response = { id: request.id, embeddings: await generateEmbeddings(request.texts) };
+    } catch (error) {
+      response = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+    }
+    parentPort?.postMessage(response);
+  })();
+});
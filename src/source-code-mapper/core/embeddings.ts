@@ -1,36 +1,147 @@
 export { initializeModel, generateEmbedding, cosineSimilarity } from '../../shared/embeddings.js';
 
-import type { SymbolInfo } from '../types.js';
+import { existsSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
 
-import { generateEmbedding } from '../../shared/embeddings.js';
+import type { BatchEmbedder, EmbeddingMode, EmbeddingWorkerRequest, EmbeddingWorkerResponse, SymbolInfo } from '../types.js';
+
+import { generateEmbedding, generateEmbeddings } from '../../shared/embeddings.js';
+
+interface PendingRequest {
+  resolve: (embeddings: Array<number[] | null>) => void;
+  reject: (error: Error) => void;
+}
 
 /**
- * Generate embedding for a code symbol (domain-specific wrapper)
- * Creates context-aware text based on symbol type
+ * Text embedded for a code symbol: its name with context based on the symbol type
  */
-export async function generateSymbolEmbedding(symbol: SymbolInfo): Promise<number[] | null> {
+export function getSymbolEmbeddingText(symbol: SymbolInfo): string {
   let embeddingText: string;
+  // Members are described with their container: `TokenStore.load` says more than `load`
+  const name = symbol.qualifiedName ?? symbol.name;
 
   switch (symbol.type) {
     case 'function':
-      embeddingText = `${symbol.name} ${symbol.signature ?? ''}`.trim();
+      embeddingText = `${name} ${symbol.signature ?? ''}`.trim();
+      break;
+    case 'method':
+      embeddingText = `${name} method ${symbol.signature ?? ''}`.trim();
       break;
     case 'class':
-      embeddingText = `${symbol.name} class`;
+      embeddingText = `${name} class`;
       break;
     case 'interface':
     case 'type':
-      embeddingText = `${symbol.name} type`;
+      embeddingText = `${name} type`;
       break;
     case 'const':
-      embeddingText = `${symbol.name} constant`;
+      embeddingText = `${name} constant`;
+      break;
+    case 'variable':
+      embeddingText = `${name} variable`;
       break;
     case 'enum':
-      embeddingText = `${symbol.name} enum`;
+      embeddingText = `${name} enum`;
+      break;
+    case 'property':
+    case 'field':
+      embeddingText = `${name} ${symbol.type} ${symbol.signature ?? ''}`.trim();
+      break;
+    case 'namespace':
+    case 'module':
+      embeddingText = `${name} ${symbol.type}`;
       break;
     default:
-      embeddingText = symbol.name;
+      embeddingText = name;
+  }
+
+  if (symbol.doc) {
+    embeddingText = `${embeddingText} ${symbol.doc}`;
   }
 
-  return generateEmbedding(embeddingText);
+  return embeddingText;
+}
+
+/**
+ * Generate embedding for a code symbol (domain-specific wrapper)
+ */
+export async function generateSymbolEmbedding(symbol: SymbolInfo): Promise<number[] | null> {
+  return generateEmbedding(getSymbolEmbeddingText(symbol));
+}
+
+/**
+ * Embed on the calling thread with the model initialized in this process
+ */
+export function createInProcessEmbedder(): BatchEmbedder {
+  return {
+    mode: 'in-process',
+    embed: generateEmbeddings,
+    close: () => Promise.resolve()
+  };
+}
+
+/**
+ * Embed in a worker thread that loads its own copy of the configured model, so parsing and
+ * queries aren't held up by model inference
+ * @returns null when there is no compiled worker script, as when running from TypeScript sources
+ */
+export function createWorkerEmbedder(): BatchEmbedder | null {
+  const script = new URL('./embedding-worker.js', import.meta.url);
+  if (script.protocol !== 'file:' || !existsSync(fileURLToPath(script))) {
+    return null;
+  }
+
+  const worker = new Worker(script);
+  // The server's stdio transport keeps the process alive, not the worker
+  worker.unref();
+
+  const waiting = new Map<number, PendingRequest>();
+  let nextId = 0;
+  let failure: Error | null = null;
+
+  const fail = (error: Error): void => {
+    failure ??= error;
+    for (const request of waiting.values()) {
+      request.reject(failure);
+    }
+    waiting.clear();
+  };
+
+  worker.on('message', (response: EmbeddingWorkerResponse) => {
+    const request = waiting.get(response.id);
+    waiting.delete(response.id);
+    if (response.embeddings) {
+      request?.resolve(response.embeddings);
+    } else {
+      request?.reject(new Error(response.error ?? 'Embedding worker returned no embeddings'));
+    }
+  });
+  worker.on('error', fail);
+  worker.on('exit', (code) => fail(new Error(`Embedding worker exited with code ${code}`)));
+
+  // Once the worker fails (its model didn't load, it crashed), batches are embedded in-process
+  return {
+    get mode(): EmbeddingMode {
+      return failure ? 'in-process' : 'worker';
+    },
+    embed(texts: string[]): Promise<Array<number[] | null>> {
+      if (failure) {
+        return generateEmbeddings(texts);
+      }
+      return new Promise<Array<number[] | null>>((resolve, reject) => {
+        const request: EmbeddingWorkerRequest = { id: nextId++, texts };
+        waiting.set(request.id, { resolve, reject });
+        worker.postMessage(request);
+      }).catch((error: unknown) => {
+        fail(error instanceof Error ? error : new Error(String(error)));
+        return generateEmbeddings(texts);
+      });
+    },
+    async close(): Promise<void> {
+      worker.removeAllListeners();
+      fail(new Error('Embedding worker closed'));
+      await worker.terminate();
+    }
+  };
 }
@@ -0,0 +1,76 @@
+/**
+ * Indexing status shared between the MCP server and the CLI
+ * The server writes its progress next to the index, so `scm stats` can show it from another
+ * process.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+
+import { getEmbeddingKey } from '../services/embedding-queue.js';
+import type { Index, IndexStatus } from '../types.js';
+
+
+/** A status not updated for this long while indexing was left behind by a stopped server */
+const STALE_AFTER_MS = 60 * 1000;
+
+export function getIndexStatusPath(projectRoot: string = process.cwd()): string {
+  return join(projectRoot, 'cc-devtools', '.cache', 'source-code-index-status.json');
+}
+
+export function createIndexStatus(): IndexStatus {
+  const now = Date.now();
+  return {
+    phase: 'idle',
+    isIndexing: false,
+    progress: 0,
+    total: 0,
+    changedFiles: 0,
+    removedFiles: 0,
+    pendingEmbeddings: 0,
+    embedded: 0,
+    embeddingMode: 'unavailable',
+    startedAt: now,
+    updatedAt: now,
+    pid: process.pid
+  };
+}
+
+export function writeIndexStatus(status: IndexStatus, projectRoot: string = process.cwd()): void {
+  const statusPath = getIndexStatusPath(projectRoot);
+  mkdirSync(dirname(statusPath), { recursive: true });
+  writeFileSync(statusPath, JSON.stringify(status, null, 2));
+}
+
+/**
+ * Last status written by an MCP server, or null if none was written or it can't be read
+ */
+export function readIndexStatus(projectRoot: string = process.cwd()): IndexStatus | null {
+  const statusPath = getIndexStatusPath(projectRoot);
+  if (!existsSync(statusPath)) {
+    return null;
+  }
+  try {
+    return JSON.parse(readFileSync(statusPath, 'utf-8')) as IndexStatus;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a status claims indexing is under way but hasn't been updated in a while
+ */
+export function isIndexStatusStale(status: IndexStatus, now = Date.now()): boolean {
+  return status.phase !== 'idle' && now - status.updatedAt > STALE_AFTER_MS;
+}
+
+/**
+ * Symbols in the index without an embedding
+ */
+export function countMissingEmbeddings(index: Index): number {
+  let missing = 0;
+  for (const [file, symbols] of index.symbols) {
+    missing += symbols.filter((symbol) => !index.embeddings.has(getEmbeddingKey(file, symbol))).length;
+  }
+  return missing;
+}
@@ -6,9 +6,14 @@ import { readFileSync, writeFileSync, existsSync } from 'fs';
 
 import { pack, unpack } from 'msgpackr';
 
-import type { Index, SymbolInfo, Import } from '../types.js';
+import type { Index, IndexedFile, SkippedFiles, SymbolInfo, Import, SymbolReference } from '../types.js';
 
+import { isCurrentEmbeddingModel } from '../../shared/embedding-cache.js';
+import { getEmbeddingModelInfo } from '../../shared/embedding-providers.js';
 import { withLock } from '../../shared/file-lock.js';
+import { getVectorIndexPath, loadOrBuildVectorIndex, saveVectorIndex } from '../../shared/vector-index.js';
+
+import type { EmbeddingModelInfo } from '../../shared/types/embeddings.js';
 
 
 const INDEX_VERSION = '1.0.0';
@@ -18,9 +23,15 @@ interface SerializedIndex {
   indexedAt: number;
   fileCount: number;
   symbolCount: number;
+  embeddingModel?: EmbeddingModelInfo;
   symbols: Array<[string, SymbolInfo[]]>;
   imports: Array<[string, Import[]]>;
+  /** Absent in indexes written before references were extracted */
+  references?: Array<[string, SymbolReference[]]>;
   embeddings: Array<[string, number[]]>;
+  /** Absent in indexes written before content hashes were recorded; their files are re-parsed */
+  files?: Array<[string, IndexedFile]>;
+  skipped?: SkippedFiles;
 }
 
 export async function saveIndex(index: Index, indexPath: string): Promise<void> {
@@ -30,16 +41,24 @@ export async function saveIndex(index: Index, indexPath: string): Promise<void>
       indexedAt: index.metadata.indexedAt,
       fileCount: index.metadata.fileCount,
       symbolCount: index.metadata.symbolCount,
+      embeddingModel: getEmbeddingModelInfo() ?? index.metadata.embeddingModel,
       symbols: Array.from(index.symbols.entries()),
       imports: Array.from(index.imports.entries()),
+      references: Array.from(index.references.entries()),
       embeddings: Array.from(index.embeddings.entries()).map(([key, embedding]) => [
         key,
         Array.from(embedding)
-      ])
+      ]),
+      files: Array.from(index.files.entries()),
+      skipped: index.metadata.skipped
     };
 
     const packed = pack(serialized);
     writeFileSync(indexPath, packed);
+
+    if (index.vectors) {
+      saveVectorIndex(index.vectors, getVectorIndexPath(indexPath));
+    }
   });
 }
 
@@ -53,27 +72,39 @@ export async function loadIndex(indexPath: string): Promise<Index | null> {
       const buffer = readFileSync(indexPath);
       const serialized = unpack(buffer) as SerializedIndex;
 
-      if (serialized.version !== INDEX_VERSION) {
+      // Vectors from another model can't be compared with new queries, so rebuild
+      if (serialized.version !== INDEX_VERSION || !isCurrentEmbeddingModel(serialized.embeddingModel)) {
+        return null;
+      }
+
+      // Rebuild indexes from before reference extraction so references cover every file
+      if (!serialized.references) {
         return null;
       }
 
       const index: Index = {
         symbols: new Map(serialized.symbols),
         imports: new Map(serialized.imports),
+        references: new Map(serialized.references),
         embeddings: new Map(
           serialized.embeddings.map(([key, embedding]) => [
             key,
             new Float32Array(embedding)
           ])
         ),
+        files: new Map(serialized.files ?? []),
         metadata: {
           version: serialized.version,
           indexedAt: serialized.indexedAt,
           fileCount: serialized.fileCount,
-          symbolCount: serialized.symbolCount
+          symbolCount: serialized.symbolCount,
+          embeddingModel: serialized.embeddingModel,
+          skipped: serialized.skipped
         }
       };
 
+      index.vectors = loadOrBuildVectorIndex(getVectorIndexPath(indexPath), index.embeddings);
+
       return index;
     });
   } catch {
@@ -85,7 +116,9 @@ export function createEmptyIndex(): Index {
   return {
     symbols: new Map(),
     imports: new Map(),
+    references: new Map(),
     embeddings: new Map(),
+    files: new Map(),
     metadata: {
       version: INDEX_VERSION,
       indexedAt: Date.now(),
@@ -10,15 +10,27 @@ import { join } from 'path';
 
 import { createMCPServer, startMCPServer } from '../shared/mcp-server-utils.js';
 
-import { initializeModel } from './core/embeddings.js';
+import { loadScmConfig } from './core/config.js';
+import { createInProcessEmbedder, createWorkerEmbedder, initializeModel } from './core/embeddings.js';
+import { createIndexStatus, writeIndexStatus } from './core/status.js';
 import { loadIndex, saveIndex, createEmptyIndex } from './core/storage.js';
-import { scanAndIndexDirectory, updateIndexForFiles, validateAndSyncIndex } from './services/scanner.js';
+import { createEmbeddingQueue } from './services/embedding-queue.js';
+import { createIndexRules } from './services/index-rules.js';
+import { updateIndexForFiles, validateAndSyncIndex } from './services/scanner.js';
 import { createFileWatcher } from './services/watcher.js';
+import { handleAnalyzeImpact } from './tools/analyze-impact.js';
+import { handleFindReferences } from './tools/find-references.js';
+import { handleFindUnused } from './tools/find-unused.js';
+import { handleGetCallGraph } from './tools/get-call-graph.js';
 import { handleGetFileInfo } from './tools/get-file-info.js';
+import { handleGetIndexStatus } from './tools/get-index-status.js';
+import { handleGetSymbolHistory } from './tools/get-symbol-history.js';
+import { handleGetSymbolSource } from './tools/get-symbol-source.js';
 import { handleQueryImports } from './tools/query-imports.js';
 import { handleSearchCode } from './tools/search-code.js';
+import { SYMBOL_TYPES } from './types.js';
 
-import type { Index } from './types.js';
+import type { BatchEmbedder, EmbeddingQueue, Index, IndexConfig, IndexingOptions, IndexStatus } from './types.js';
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 
 /**
@@ -32,12 +44,17 @@ function getIndexPath(): string {
   return join(getProjectRoot(), 'cc-devtools', '.cache', 'source-code-index.msgpack');
 }
 
+/** Status is written to disk at most this often while indexing */
+const STATUS_WRITE_INTERVAL_MS = 1000;
+/** The index is saved at most this often while embeddings are computed */
+const INDEX_SAVE_INTERVAL_MS = 60 * 1000;
+
 let index: Index | null = null;
-const indexingProgress = {
-  isIndexing: false,
-  progress: 0,
-  total: 0
-};
+const indexingProgress: IndexStatus = createIndexStatus();
+let embeddingQueue: EmbeddingQueue | null = null;
+let lastStatusWrite = 0;
+let lastIndexSave = 0;
+let embeddedAtSave = 0;
 
 // Embeddings availability state with self-healing
 const embeddingsState = {
@@ -74,34 +91,57 @@ async function ensureEmbeddingsAvailable(): Promise<boolean> {
 
 const SEARCH_CODE_TOOL: Tool = {
   name: 'search_code',
-  description: 'Search for symbols (functions, classes, types, etc.) in the codebase. Supports exact, semantic, and fuzzy search modes.',
+  description: 'Search for symbols (functions, classes, methods, properties, types, etc.) in the codebase. Supports exact, semantic, and fuzzy search modes. Members match by qualified name too (e.g. "TokenStore.load"). The query may include filters: kind:function,method exported:true|false path:src/web/** lang:ts name:/^use[A-Z]/ parent:TokenStore mode:exact, plus "quoted phrases". A query of filters alone lists every matching symbol.',
   inputSchema: {
     type: 'object',
     properties: {
       query: {
         type: 'string',
-        description: 'Search term (symbol name or semantic description)'
+        description: 'Search term (symbol name or semantic description), optionally with filter terms, e.g. \'kind:function exported:true path:src/web/** "session"\''
       },
       mode: {
         type: 'string',
         enum: ['exact', 'semantic', 'fuzzy'],
-        description: 'Search mode (default: semantic)',
+        description: 'Search mode (default: semantic); a mode: term in the query takes precedence',
         default: 'semantic'
       },
       filters: {
         type: 'object',
+        description: 'Filters, combined with those in the query; query terms take precedence',
         properties: {
           type: {
             type: 'array',
             items: {
               type: 'string',
-              enum: ['function', 'class', 'interface', 'type', 'const', 'enum']
+              enum: SYMBOL_TYPES
             },
             description: 'Filter by symbol types'
           },
           exported_only: {
             type: 'boolean',
             description: 'Only return exported symbols'
+          },
+          exported: {
+            type: 'boolean',
+            description: 'Only return exported (true) or non-exported (false) symbols'
+          },
+          parent: {
+            type: 'string',
+            description: 'Only return members of this class, interface, namespace or module (qualified name, e.g. "TokenStore")'
+          },
+          path: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Only return symbols in files matching one of these globs (e.g. "src/web/**")'
+          },
+          language: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Only return symbols in these languages (e.g. "typescript")'
+          },
+          name: {
+            type: 'string',
+            description: 'Regular expression the name or qualified name must match (e.g. "^use[A-Z]" or "/^use/i")'
           }
         }
       },
@@ -109,6 +149,11 @@ const SEARCH_CODE_TOOL: Tool = {
         type: 'number',
         description: 'Maximum number of results (default: 10)',
         default: 10
+      },
+      explain: {
+        type: 'boolean',
+        description: 'Semantic mode only: include each result\'s per-signal score breakdown (keyword/semantic contributions and fusion strategy). Use to debug unexpected rankings.',
+        default: false
       }
     },
     required: ['query']
@@ -117,7 +162,7 @@ const SEARCH_CODE_TOOL: Tool = {
 
 const QUERY_IMPORTS_TOOL: Tool = {
   name: 'query_imports',
-  description: 'Query import graph information. Find all imports for a file or find all files importing a specific module.',
+  description: 'Query import graph information. Find all imports for a file or find all files importing a specific module. Imports are resolved to project files (relative paths, tsconfig paths/baseUrl, package.json exports, Python packages, Go modules), so a file path only matches imports of that exact file.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -127,7 +172,7 @@ const QUERY_IMPORTS_TOOL: Tool = {
       },
       imported_module: {
         type: 'string',
-        description: 'Find all files importing this module (can be relative like "./utils" or package name like "react")'
+        description: 'Find all files importing this module: a project file (absolute or relative to the project root, extension optional, e.g. "src/shared/errors.ts") or a package name like "react"'
       }
     }
   }
@@ -135,19 +180,271 @@ const QUERY_IMPORTS_TOOL: Tool = {
 
 const GET_FILE_INFO_TOOL: Tool = {
   name: 'get_file_info',
-  description: 'Get complete information about a file including all symbols, imports, and exports.',
+  description: 'Get complete information about a file including all symbols, imports, and exports. With mode "outline", get a compact tree of the symbols and signatures of a file or a whole directory instead, sized to a token budget: use it to orient yourself in a large module before reading any code.',
   inputSchema: {
     type: 'object',
     properties: {
       filepath: {
         type: 'string',
-        description: 'Absolute path to the file to inspect (e.g., /Users/name/project/src/file.ts)'
+        description: 'Absolute path to the file to inspect (e.g., /Users/name/project/src/file.ts). In outline mode, a file or directory, absolute or relative to the project root (e.g., "src/kanban")'
+      },
+      mode: {
+        type: 'string',
+        enum: ['full', 'outline'],
+        description: 'full: symbols, imports and exports of one file (default). outline: signatures only, as text',
+        default: 'full'
+      },
+      max_tokens: {
+        type: 'number',
+        description: 'Outline mode: approximate token budget. Members, then signatures, then symbol names are dropped until the outline fits (default: 2000)',
+        default: 2000
       }
     },
     required: ['filepath']
   }
 };
 
+const GET_SYMBOL_SOURCE_TOOL: Tool = {
+  name: 'get_symbol_source',
+  description: 'Get the exact source code of a function, class, method or other symbol without reading its whole file. Look it up by name ("runConfig") or qualified name ("TokenStore.load"); same-named symbols are all returned, exact qualified matches and top-level symbols first.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      symbol: {
+        type: 'string',
+        description: 'Symbol name or qualified name (e.g., "handleAuth", "TokenStore.load")'
+      },
+      filepath: {
+        type: 'string',
+        description: 'Only look in this file, absolute or relative to the project root'
+      },
+      context: {
+        type: 'number',
+        description: 'Lines of surrounding context to include before and after the symbol (default: 0)',
+        default: 0
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of matching symbols to return (default: 5)',
+        default: 5
+      }
+    },
+    required: ['symbol']
+  }
+};
+
+const GET_SYMBOL_HISTORY_TOOL: Tool = {
+  name: 'get_symbol_history',
+  description: 'Find when and why a function, class or other symbol changed: the commits that touched its lines (git log -L), newest first, with author, date, message and the kanban story IDs from the commit message and the feature branch it was merged from. Use instead of digging through git log by hand.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      symbol: {
+        type: 'string',
+        description: 'Symbol name or qualified name (e.g., "deriveStateVariables", "TokenStore.load"). With several matches, the first (exact qualified match, top-level first) is traced and the rest listed in otherMatches'
+      },
+      filepath: {
+        type: 'string',
+        description: 'Only look in this file, absolute or relative to the project root'
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of commits to return (default: 10, max: 50)',
+        default: 10
+      }
+    },
+    required: ['symbol']
+  }
+};
+
+const FIND_REFERENCES_TOOL: Tool = {
+  name: 'find_references',
+  description: 'Find where a symbol is used: call sites and other references (passed as a value, used as a type), each with the enclosing function. References are extracted for TypeScript/JavaScript and Python files.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      symbol: {
+        type: 'string',
+        description: 'Symbol name (e.g., "runConfig")'
+      },
+      filepath: {
+        type: 'string',
+        description: 'Absolute path of the file defining the symbol, to disambiguate same-named symbols. Other files only count if they import it from there.'
+      },
+      kind: {
+        type: 'string',
+        enum: ['call', 'reference'],
+        description: 'Only return calls, or only non-call references (default: both)'
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of references (default: 100)',
+        default: 100
+      }
+    },
+    required: ['symbol']
+  }
+};
+
+const GET_CALL_GRAPH_TOOL: Tool = {
+  name: 'get_call_graph',
+  description: 'Get the call graph around a function: which functions call it (callers) and which indexed functions it calls (callees), to a given depth. Calls into built-ins and libraries are left out.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      symbol: {
+        type: 'string',
+        description: 'Function or method name (e.g., "executeWorkflow")'
+      },
+      filepath: {
+        type: 'string',
+        description: 'Absolute path of the file defining the function, to disambiguate same-named functions'
+      },
+      direction: {
+        type: 'string',
+        enum: ['callers', 'callees', 'both'],
+        description: 'Which side of the graph to return (default: both)',
+        default: 'both'
+      },
+      depth: {
+        type: 'number',
+        description: 'Levels of callers/callees to follow, 1-5 (default: 1)',
+        default: 1
+      }
+    },
+    required: ['symbol']
+  }
+};
+
+const ANALYZE_IMPACT_TOOL: Tool = {
+  name: 'analyze_impact',
+  description: 'Find what changing files affects: walks the import graph in reverse to list the modules that depend on them (nearest first), the exported symbols the change touches and the test files most likely to exercise it. Pass files, or a git ref to analyze the working tree diff against it. Use before editing widely imported code and to pick which tests to run.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      files: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Changed files, absolute or relative to the project root (e.g., ["src/shared/hybrid-search.ts"])'
+      },
+      ref: {
+        type: 'string',
+        description: 'Git ref to diff the working tree against (e.g., "HEAD", "main"); only symbols on changed lines count as touched'
+      },
+      depth: {
+        type: 'number',
+        description: 'Levels of importers to follow (default: unlimited)'
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum affected files and tests to return (default: 50)',
+        default: 50
+      }
+    }
+  }
+};
+
+const GET_INDEX_STATUS_TOOL: Tool = {
+  name: 'get_index_status',
+  description: 'Check indexing progress: whether the index is ready, how many files were checked and re-parsed since startup, and how many symbols still wait for embeddings (semantic search misses those until they are embedded). Use when search results look incomplete or other tools report indexing in progress.',
+  inputSchema: {
+    type: 'object',
+    properties: {}
+  }
+};
+
+const FIND_UNUSED_TOOL: Tool = {
+  name: 'find_unused',
+  description: 'Find dead code: exports no other file imports, files unreachable from the project entry points (package.json bin/main/exports, .mcp.json servers and unused.entry_points in cc-devtools/scm.yaml) and imported names a file never uses. Public API listed under unused.allow in scm.yaml is left out. Use when cleaning up or before deleting code; check dynamic and framework-driven uses before removing anything.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      kind: {
+        type: 'string',
+        enum: ['exports', 'files', 'imports', 'all'],
+        description: 'What to report (default: all)',
+        default: 'all'
+      },
+      path: {
+        type: 'string',
+        description: 'Only report files matching this glob, relative to the project root (e.g., "src/shared/**")'
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum entries to return per kind (default: 50)',
+        default: 50
+      }
+    }
+  }
+};
+
+/**
+ * Publish a status change; written to disk for `scm stats` at most once a second unless forced
+ */
+function updateStatus(changes: Partial<IndexStatus>, force = false): void {
+  Object.assign(indexingProgress, changes, { updatedAt: Date.now() });
+  if (embeddingQueue) {
+    indexingProgress.pendingEmbeddings = embeddingQueue.pending();
+    indexingProgress.embedded = embeddingQueue.embedded();
+    indexingProgress.embeddingMode = embeddingQueue.mode;
+    indexingProgress.embeddingError = embeddingQueue.error();
+  }
+
+  if (force || indexingProgress.updatedAt - lastStatusWrite >= STATUS_WRITE_INTERVAL_MS) {
+    lastStatusWrite = indexingProgress.updatedAt;
+    try {
+      writeIndexStatus(indexingProgress, getProjectRoot());
+    } catch {
+      // Status is informational; indexing goes on without it
+    }
+  }
+}
+
+function createEmbedder(): BatchEmbedder | null {
+  if (!embeddingsState.available) {
+    return null;
+  }
+  try {
+    return createWorkerEmbedder() ?? createInProcessEmbedder();
+  } catch {
+    return createInProcessEmbedder();
+  }
+}
+
+/**
+ * Save the index, logging nothing on failure: the next save or startup catches up
+ */
+async function persistIndex(): Promise<void> {
+  if (!index) {
+    return;
+  }
+  try {
+    await saveIndex(index, getIndexPath());
+    lastIndexSave = Date.now();
+    embeddedAtSave = embeddingQueue?.embedded() ?? 0;
+  } catch {
+    // Silently fail saves
+  }
+}
+
+/**
+ * Once the embedding queue empties, save the new embeddings and go idle
+ */
+function finishEmbedding(): void {
+  const queue = embeddingQueue;
+  if (!queue) {
+    updateStatus({ phase: 'idle' }, true);
+    return;
+  }
+
+  updateStatus({ phase: 'embedding' }, true);
+  void queue.drain().then(async () => {
+    if (queue.embedded() !== embeddedAtSave) {
+      await persistIndex();
+    }
+    updateStatus({ phase: 'idle' }, true);
+  });
+}
 
 async function initialize(): Promise<void> {
   // Try to initialize embeddings (will enter degraded mode if fails)
@@ -156,45 +453,68 @@ async function initialize(): Promise<void> {
   const indexPath = getIndexPath();
   const projectRoot = getProjectRoot();
 
-  index = await loadIndex(indexPath);
-
-  if (!index) {
-    index = createEmptyIndex();
-    indexingProgress.isIndexing = true;
+  // Parsed entries of unchanged files are kept; a missing or outdated index starts empty
+  const loaded = await loadIndex(indexPath);
+  index = loaded ?? createEmptyIndex();
+
+  const embedder = createEmbedder();
+  embeddingQueue = embedder
+    ? createEmbeddingQueue(index, embedder, {
+      onBatch: () => {
+        updateStatus({});
+        // Embedding a large project takes a while; keep what's done if the server stops
+        if (Date.now() - lastIndexSave >= INDEX_SAVE_INTERVAL_MS) {
+          void persistIndex();
+        }
+      }
+    })
+    : null;
 
-    index = await scanAndIndexDirectory(projectRoot, (progress) => {
-      indexingProgress.progress = progress.processedFiles;
-      indexingProgress.total = progress.totalFiles;
-    });
+  let config: IndexConfig = {};
+  try {
+    config = loadScmConfig(projectRoot).index ?? {};
+  } catch {
+    // An invalid scm.yaml leaves the defaults in place; `scm stats` reports the error
+  }
+  const rules = createIndexRules(projectRoot, config);
+
+  updateStatus({ phase: 'scanning', isIndexing: !loaded, startedAt: Date.now() }, true);
+  const options: IndexingOptions = {
+    rules,
+    onProgress: (progress) => updateStatus({
+      phase: progress.phase,
+      progress: progress.processedFiles,
+      total: progress.totalFiles,
+      changedFiles: progress.changedFiles,
+      removedFiles: progress.removedFiles
+    }),
+    ...(embeddingQueue ? { embeddings: embeddingQueue } : {})
+  };
 
-    indexingProgress.isIndexing = false;
-    await saveIndex(index, indexPath);
-  } else {
-    try {
-      await Promise.race([
-        validateAndSyncIndex(index, projectRoot),
-        new Promise<never>((_, reject) =>
-          setTimeout(() => reject(new Error('Index validation timeout')), 30000)
-        )
-      ]);
-      await saveIndex(index, indexPath);
-    } catch {
-      // If validation times out or fails, use existing index as-is
-    }
+  try {
+    // Queries are answered from the loaded index while it is brought up to date
+    await validateAndSyncIndex(index, projectRoot, options);
+    updateStatus({ isIndexing: false });
+    await persistIndex();
+  } catch {
+    // If validation fails, use the index as-is
+    updateStatus({ isIndexing: false });
   }
+  finishEmbedding();
 
   const watcher = createFileWatcher(projectRoot, (files) => {
     if (index) {
       void (async (): Promise<void> => {
         try {
-          await updateIndexForFiles(index, files);
-          await saveIndex(index, indexPath);
+          await updateIndexForFiles(index, files, options);
+          await persistIndex();
+          finishEmbedding();
         } catch {
           // Silently fail file watcher updates
         }
       })();
     }
-  });
+  }, rules);
 
   watcher.start();
 }
@@ -213,7 +533,18 @@ async function main(): Promise<void> {
   const server = createMCPServer({
     name: 'cc-devtools-source-code-mapper',
     version: '0.1.0',
-    tools: [SEARCH_CODE_TOOL, QUERY_IMPORTS_TOOL, GET_FILE_INFO_TOOL],
+    tools: [
+      SEARCH_CODE_TOOL,
+      QUERY_IMPORTS_TOOL,
+      GET_FILE_INFO_TOOL,
+      GET_SYMBOL_SOURCE_TOOL,
+      GET_SYMBOL_HISTORY_TOOL,
+      FIND_REFERENCES_TOOL,
+      GET_CALL_GRAPH_TOOL,
+      ANALYZE_IMPACT_TOOL,
+      FIND_UNUSED_TOOL,
+      GET_INDEX_STATUS_TOOL
+    ],
     handlers: {
       search_code: async (args) => {
         void ensureEmbeddingsAvailable();
@@ -227,7 +558,21 @@ async function main(): Promise<void> {
       query_imports: (args) =>
         Promise.resolve(handleQueryImports(index, indexingProgress, args as unknown as Parameters<typeof handleQueryImports>[2])),
       get_file_info: (args) =>
-        Promise.resolve(handleGetFileInfo(index, indexingProgress, args as unknown as Parameters<typeof handleGetFileInfo>[2])),
+        Promise.resolve(handleGetFileInfo(index, indexingProgress, args as unknown as Parameters<typeof handleGetFileInfo>[2], getProjectRoot())),
+      get_symbol_source: (args) =>
+        Promise.resolve(handleGetSymbolSource(index, indexingProgress, args as unknown as Parameters<typeof handleGetSymbolSource>[2], getProjectRoot())),
+      get_symbol_history: (args) =>
+        handleGetSymbolHistory(index, indexingProgress, args as unknown as Parameters<typeof handleGetSymbolHistory>[2], getProjectRoot()),
+      find_references: (args) =>
+        Promise.resolve(handleFindReferences(index, indexingProgress, args as unknown as Parameters<typeof handleFindReferences>[2])),
+      get_call_graph: (args) =>
+        Promise.resolve(handleGetCallGraph(index, indexingProgress, args as unknown as Parameters<typeof handleGetCallGraph>[2])),
+      analyze_impact: (args) =>
+        Promise.resolve(handleAnalyzeImpact(index, indexingProgress, args as unknown as Parameters<typeof handleAnalyzeImpact>[2], getProjectRoot())),
+      find_unused: (args) =>
+        Promise.resolve(handleFindUnused(index, indexingProgress, args as unknown as Parameters<typeof handleFindUnused>[2], getProjectRoot())),
+      get_index_status: () =>
+        Promise.resolve(handleGetIndexStatus(index, indexingProgress)),
     },
   });
 
@@ -236,7 +581,7 @@ async function main(): Promise<void> {
   initialize().catch(() => {
     embeddingsState.available = false;
     index = index ?? createEmptyIndex();
-    indexingProgress.isIndexing = false;
+    updateStatus({ phase: 'idle', isIndexing: false }, true);
   });
 }
 
@@ -0,0 +1,137 @@
+/**
+ * Background symbol embedding
+ * Queues symbols of parsed files and embeds them in batches, so indexing and queries don't
+ * wait for the model. Results for files re-parsed in the meantime are dropped.
+ */
+
+import { getSymbolEmbeddingText } from '../core/embeddings.js';
+import type { BatchEmbedder, EmbeddingMode, EmbeddingQueue, EmbeddingQueueOptions, Index, SymbolInfo } from '../types.js';
+
+import { addVector, buildVectorIndex } from '../../shared/vector-index.js';
+
+interface QueuedSymbol {
+  file: string;
+  key: string;
+  text: string;
+  /** Generation of the file when queued */
+  generation: number;
+}
+
+const DEFAULT_BATCH_SIZE = 32;
+
+/**
+ * Key of a symbol's embedding in the index
+ */
+export function getEmbeddingKey(file: string, symbol: SymbolInfo): string {
+  return `${file}:${symbol.name}:${symbol.startLine}`;
+}
+
+export function createEmbeddingQueue(
+  index: Index,
+  embedder: BatchEmbedder,
+  options: EmbeddingQueueOptions = {}
+): EmbeddingQueue {
+  const batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+  const queued = new Map<string, QueuedSymbol[]>();
+  const generations = new Map<string, number>();
+  let embedded = 0;
+  let failure: string | undefined;
+  let running: Promise<void> | null = null;
+
+  const pending = (): number => {
+    let count = 0;
+    for (const symbols of queued.values()) {
+      count += symbols.length;
+    }
+    return count;
+  };
+
+  const nextGeneration = (file: string): number => {
+    const generation = (generations.get(file) ?? 0) + 1;
+    generations.set(file, generation);
+    return generation;
+  };
+
+  const takeBatch = (): QueuedSymbol[] => {
+    const batch: QueuedSymbol[] = [];
+    for (const [file, symbols] of queued) {
+      batch.push(...symbols.splice(0, batchSize - batch.length));
+      if (symbols.length === 0) {
+        queued.delete(file);
+      }
+      if (batch.length === batchSize) {
+        break;
+      }
+    }
+    return batch;
+  };
+
+  const run = async (): Promise<void> => {
+    while (!failure && queued.size > 0) {
+      const batch = takeBatch();
+      let vectors: Array<number[] | null>;
+      try {
+        vectors = await embedder.embed(batch.map((symbol) => symbol.text));
+      } catch (error) {
+        failure = error instanceof Error ? error.message : String(error);
+        break;
+      }
+
+      const vectorIndex = (index.vectors ??= buildVectorIndex(index.embeddings));
+      batch.forEach((symbol, i) => {
+        const vector = vectors[i];
+        if (vector && generations.get(symbol.file) === symbol.generation) {
+          index.embeddings.set(symbol.key, new Float32Array(vector));
+          addVector(vectorIndex, symbol.key, vector);
+          embedded++;
+        }
+      });
+      options.onBatch?.();
+    }
+    running = null;
+  };
+
+  const drain = async (): Promise<void> => {
+    while (running) {
+      await running;
+    }
+  };
+
+  const start = (): void => {
+    // Started on the next tick so files queued together share batches
+    running ??= Promise.resolve().then(run);
+  };
+
+  return {
+    get mode(): EmbeddingMode {
+      return embedder.mode;
+    },
+    add(file: string, symbols: SymbolInfo[]): void {
+      const generation = nextGeneration(file);
+      if (symbols.length === 0) {
+        queued.delete(file);
+        return;
+      }
+      queued.set(file, symbols.map((symbol) => ({
+        file,
+        key: getEmbeddingKey(file, symbol),
+        text: getSymbolEmbeddingText(symbol),
+        generation
+      })));
+      start();
+    },
+    remove(file: string): void {
+      nextGeneration(file);
+      queued.delete(file);
+    },
+    pending,
+    embedded: () => embedded,
+    error: () => failure,
+    drain,
+    async close(): Promise<void> {
+      queued.clear();
+      await drain();
+      await embedder.close();
+    }
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Git command runner for the services that read repository history
+ */
+
+import { execFile, execFileSync } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+const MAX_BUFFER = 64 * 1024 * 1024;
+
+interface ExecError extends Error {
+  stderr?: string;
+}
+
+function toGitError(args: string[], error: unknown): Error {
+  const { stderr, message } = error as ExecError;
+  return new Error(`git ${args[0]} failed: ${stderr?.trim() ?? message}`);
+}
+
+/**
+ * Run git in a directory and return its output
+ * @throws Error naming the git command, with git's own message
+ */
+export function runGit(args: string[], cwd: string): string {
+  try {
+    return execFileSync('git', args, {
+      cwd,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      maxBuffer: MAX_BUFFER
+    });
+  } catch (error) {
+    throw toGitError(args, error);
+  }
+}
+
+/**
+ * Run git in a directory without blocking the event loop, for long-running commands in servers
+ * @throws Error naming the git command, with git's own message
+ */
+export async function runGitAsync(args: string[], cwd: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd, encoding: 'utf-8', maxBuffer: MAX_BUFFER });
+    return stdout;
+  } catch (error) {
+    throw toGitError(args, error);
+  }
+}
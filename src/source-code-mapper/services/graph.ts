@@ -0,0 +1,174 @@
+/**
+ * Dependency graph
+ * Builds the file-to-file graph from resolved imports, finds import cycles and exports the
+ * graph as DOT, Mermaid or JSON
+ */
+
+import { relative } from 'path';
+
+import type { DependencyEdge, DependencyGraph, DependencyGraphOptions, GraphFormat, Index } from '../types.js';
+
+import { getIndexedFiles } from './resolver.js';
+
+interface WalkFrame {
+  file: string;
+  /** Position in the file's successors to continue from */
+  next: number;
+}
+
+/**
+ * Strongly connected components with more than one file, or a file importing itself
+ * Iterative Tarjan so deep import chains can't overflow the stack.
+ */
+function findCycles(files: string[], edges: DependencyEdge[]): string[][] {
+  const successors = new Map<string, string[]>(files.map((file) => [file, []]));
+  for (const edge of edges) {
+    successors.get(edge.from)?.push(edge.to);
+  }
+
+  const order = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  for (const root of files) {
+    if (order.has(root)) {
+      continue;
+    }
+
+    const work: WalkFrame[] = [{ file: root, next: 0 }];
+    order.set(root, counter);
+    lowLink.set(root, counter++);
+    stack.push(root);
+    onStack.add(root);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const targets = successors.get(frame.file) ?? [];
+
+      if (frame.next < targets.length) {
+        const target = targets[frame.next++];
+        if (!order.has(target)) {
+          order.set(target, counter);
+          lowLink.set(target, counter++);
+          stack.push(target);
+          onStack.add(target);
+          work.push({ file: target, next: 0 });
+        } else if (onStack.has(target)) {
+          lowLink.set(frame.file, Math.min(lowLink.get(frame.file) ?? 0, order.get(target) ?? 0));
+        }
+        continue;
+      }
+
+      work.pop();
+      const parent = work[work.length - 1];
+      if (parent) {
+        lowLink.set(parent.file, Math.min(lowLink.get(parent.file) ?? 0, lowLink.get(frame.file) ?? 0));
+      }
+
+      if (lowLink.get(frame.file) === order.get(frame.file)) {
+        const component: string[] = [];
+        let member: string | undefined;
+        do {
+          member = stack.pop();
+          if (member !== undefined) {
+            onStack.delete(member);
+            component.push(member);
+          }
+        } while (member !== undefined && member !== frame.file);
+
+        if (component.length > 1 || targets.includes(frame.file)) {
+          cycles.push(component.sort());
+        }
+      }
+    }
+  }
+
+  return cycles.sort((a, b) => b.length - a.length || a[0].localeCompare(b[0]));
+}
+
+/**
+ * Build the dependency graph of the indexed files from their resolved imports
+ */
+export function buildDependencyGraph(index: Index, options: DependencyGraphOptions = {}): DependencyGraph {
+  const edgesByKey = new Map<string, DependencyEdge>();
+
+  for (const [from, imports] of index.imports.entries()) {
+    for (const imp of imports) {
+      if (options.runtimeOnly && imp.typeOnly) {
+        continue;
+      }
+      for (const to of imp.resolved ?? []) {
+        const key = `${from}\0${to}`;
+        const existing = edgesByKey.get(key);
+        if (existing) {
+          existing.typeOnly = existing.typeOnly && imp.typeOnly === true;
+        } else {
+          edgesByKey.set(key, { from, to, typeOnly: imp.typeOnly === true });
+        }
+      }
+    }
+  }
+
+  const files = Array.from(getIndexedFiles(index)).sort();
+  const edges = Array.from(edgesByKey.values())
+    .sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+
+  return { files, edges, cycles: findCycles(files, edges) };
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Render the graph with paths relative to the project root; files in cycles and the edges
+ * between them are highlighted
+ */
+export function formatGraph(graph: DependencyGraph, format: GraphFormat, projectRoot: string): string {
+  const display = (file: string): string => relative(projectRoot, file).split('\\').join('/') || file;
+  const cycleOf = new Map<string, number>();
+  graph.cycles.forEach((cycle, position) => cycle.forEach((file) => cycleOf.set(file, position)));
+  const inCycle = (edge: DependencyEdge): boolean =>
+    cycleOf.has(edge.from) && cycleOf.get(edge.from) === cycleOf.get(edge.to);
+
+  if (format === 'json') {
+    return JSON.stringify({
+      files: graph.files.map(display),
+      edges: graph.edges.map((edge) => ({ ...edge, from: display(edge.from), to: display(edge.to) })),
+      cycles: graph.cycles.map((cycle) => cycle.map(display))
+    }, null, 2);
+  }
+
+  if (format === 'mermaid') {
+    const ids = new Map(graph.files.map((file, position) => [file, `n${position}`]));
+    const lines = ['graph LR'];
+    for (const file of graph.files) {
+      lines.push(`  ${ids.get(file)}["${display(file).replace(/"/g, '#quot;')}"]`);
+    }
+    for (const edge of graph.edges) {
+      lines.push(`  ${ids.get(edge.from)} ${edge.typeOnly ? '-.->' : '-->'} ${ids.get(edge.to)}`);
+    }
+    if (cycleOf.size > 0) {
+      lines.push('  classDef cycle stroke:#d33,stroke-width:2px');
+      lines.push(`  class ${Array.from(cycleOf.keys()).map((file) => ids.get(file)).join(',')} cycle`);
+    }
+    return lines.join('\n');
+  }
+
+  const lines = ['digraph dependencies {', '  rankdir=LR;', '  node [shape=box];'];
+  for (const file of graph.files) {
+    lines.push(`  ${quote(display(file))}${cycleOf.has(file) ? ' [color=red]' : ''};`);
+  }
+  for (const edge of graph.edges) {
+    const attributes = [
+      ...(edge.typeOnly ? ['style=dashed'] : []),
+      ...(inCycle(edge) ? ['color=red'] : [])
+    ];
+    lines.push(`  ${quote(display(edge.from))} -> ${quote(display(edge.to))}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
@@ -0,0 +1,198 @@
+/**
+ * Symbol history
+ * Traces the commits that changed a symbol's lines with `git log -L`, and links them to kanban
+ * stories through their messages and the feature branches they were merged from.
+ */
+
+import { relative } from 'path';
+
+import type { SymbolCommit, SymbolHistory, SymbolHistoryOptions, SymbolMatch } from '../types.js';
+
+import { getStoryIdFromBranch, getStoryIdsFromText } from '../../shared/story-ids.js';
+
+import { runGitAsync } from './git.js';
+
+const DEFAULT_LIMIT = 10;
+/** `git log -L` diffs every commit it walks, so long histories are only read this far */
+const MAX_LIMIT = 50;
+
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+const LOG_FORMAT = ['%H', '%an', '%ae', '%aI', '%s', '%b'].join('%x1f');
+
+/** Feature branch names in merge messages: "Merge branch 'feature/…'", "Merge pull request #1 from org/feature/…" */
+const MERGED_BRANCH_PATTERN = /(?:^|[\s'"/])(feature\/[\w.-]+)/;
+
+interface CommitOrigin {
+  branch?: string;
+  /** Message of the merge that brought the commit into HEAD */
+  mergeMessage?: string;
+}
+
+type Git = (args: string[]) => Promise<string>;
+
+function parseLog(output: string): SymbolCommit[] {
+  return output
+    .split(RECORD_SEPARATOR)
+    .filter((record) => record.trim().length > 0)
+    .map((record) => {
+      const [hash, author, email, date, subject, body = ''] = record.replace(/^\n+/, '').split(FIELD_SEPARATOR);
+      return {
+        hash,
+        author,
+        email,
+        date,
+        subject,
+        ...(body.trim() ? { body: body.trim() } : {}),
+        storyIds: []
+      };
+    });
+}
+
+/**
+ * Merge on HEAD's first-parent line that brought in each commit off that line
+ * Walking the line oldest first, a merge brings in whatever its merged parents reach that no
+ * earlier commit on the line did, so each commit is attributed to the first merge containing it.
+ */
+function getMergesByCommit(history: string): Map<string, string> {
+  const lines = history.split('\n').filter(Boolean);
+  const parents = new Map<string, string[]>();
+  for (const line of lines) {
+    const [hash, ...rest] = line.trim().split(' ');
+    parents.set(hash, rest);
+  }
+
+  // `git log` lists HEAD first
+  const firstParentLine: string[] = [];
+  for (let hash: string | undefined = lines[0]?.split(' ')[0]; hash && parents.has(hash); hash = parents.get(hash)?.[0]) {
+    firstParentLine.push(hash);
+  }
+
+  const reached = new Set<string>();
+  const mergedBy = new Map<string, string>();
+  for (const hash of firstParentLine.reverse()) {
+    reached.add(hash);
+    const queue = (parents.get(hash) ?? []).slice(1);
+    while (queue.length > 0) {
+      const next = queue.pop() as string;
+      if (reached.has(next)) {
+        continue;
+      }
+      reached.add(next);
+      mergedBy.set(next, hash);
+      queue.push(...(parents.get(next) ?? []));
+    }
+  }
+
+  return mergedBy;
+}
+
+/**
+ * Commits on HEAD's line that only feature branches contain, with HEAD's branch as their origin
+ * They haven't been merged yet, so they belong to the feature branch being worked on.
+ */
+async function getUnmergedCommits(git: Git): Promise<{ branch: string; commits: Set<string> } | null> {
+  const head = (await git(['rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+  if (!getStoryIdFromBranch(head)) {
+    return null;
+  }
+
+  const branches = (await git(['for-each-ref', '--format=%(refname:short)', 'refs/heads'])).trim().split('\n').filter(Boolean);
+  const others = branches.filter((branch) => !getStoryIdFromBranch(branch));
+  const commits = (await git(['rev-list', 'HEAD', ...(others.length > 0 ? ['--not', ...others] : [])])).trim().split('\n').filter(Boolean);
+  return { branch: head, commits: new Set(commits) };
+}
+
+/**
+ * Find where commits came from
+ * A commit off HEAD's first-parent line came from the merge that brought it in; one on the line
+ * that no other branch contains yet belongs to the feature branch HEAD is on. Each lookup is a
+ * single git call, whatever the number of commits.
+ */
+async function getCommitOrigins(hashes: string[], git: Git): Promise<Map<string, CommitOrigin>> {
+  const origins = new Map<string, CommitOrigin>();
+  if (hashes.length === 0) {
+    return origins;
+  }
+
+  const [history, unmerged] = await Promise.all([
+    git(['log', '--format=%H %P', 'HEAD']),
+    getUnmergedCommits(git)
+  ]);
+  const mergedBy = getMergesByCommit(history);
+
+  const merges = Array.from(new Set(hashes.map((hash) => mergedBy.get(hash)).filter((hash): hash is string => !!hash)));
+  const mergeMessages = new Map<string, string>();
+  if (merges.length > 0) {
+    const output = await git(['show', '--no-patch', `--format=${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%B`, ...merges]);
+    for (const record of output.split(RECORD_SEPARATOR).filter((entry) => entry.trim().length > 0)) {
+      const [hash, message = ''] = record.replace(/^\n+/, '').split(FIELD_SEPARATOR);
+      mergeMessages.set(hash, message.trim());
+    }
+  }
+
+  for (const hash of hashes) {
+    const merge = mergedBy.get(hash);
+    if (merge) {
+      const message = mergeMessages.get(merge) ?? '';
+      const branch = MERGED_BRANCH_PATTERN.exec(message)?.[1];
+      origins.set(hash, { ...(branch ? { branch } : {}), mergeMessage: message });
+    } else if (unmerged?.commits.has(hash)) {
+      origins.set(hash, { branch: unmerged.branch });
+    }
+  }
+
+  return origins;
+}
+
+/**
+ * Commits that changed a symbol, newest first
+ * Lines are traced from HEAD's version of the file, so history follows the symbol as it moved
+ * within the file. Story IDs in messages are only recognized with one of `options.phases`.
+ * @throws Error if the project isn't a git repository or the file isn't committed
+ */
+export async function getSymbolHistory(match: SymbolMatch, options: SymbolHistoryOptions): Promise<SymbolHistory> {
+  const { file, symbol } = match;
+  const git: Git = (args) => runGitAsync(args, options.projectRoot);
+  const limit = Math.min(Math.max(1, options.limit ?? DEFAULT_LIMIT), MAX_LIMIT);
+  const path = relative(options.projectRoot, file);
+  const endLine = Math.max(symbol.endLine, symbol.startLine);
+
+  const [log, status] = await Promise.all([
+    git([
+      'log',
+      `-L${symbol.startLine},${endLine}:${path}`,
+      '--no-patch',
+      `--format=${RECORD_SEPARATOR}${LOG_FORMAT}`,
+      `--max-count=${limit}`
+    ]),
+    git(['status', '--porcelain', '--', path])
+  ]);
+  const commits = parseLog(log);
+  const origins = await getCommitOrigins(commits.map((commit) => commit.hash), git);
+
+  for (const commit of commits) {
+    const origin = origins.get(commit.hash) ?? {};
+    const branchStory = origin.branch ? getStoryIdFromBranch(origin.branch) : null;
+    commit.storyIds = Array.from(new Set([
+      ...getStoryIdsFromText(`${commit.subject}\n${commit.body ?? ''}`, options.phases),
+      ...(branchStory ? [branchStory] : []),
+      ...getStoryIdsFromText(origin.mergeMessage ?? '', options.phases)
+    ]));
+    if (origin.branch) {
+      commit.branch = origin.branch;
+    }
+  }
+
+  return {
+    name: symbol.name,
+    ...(symbol.qualifiedName ? { qualifiedName: symbol.qualifiedName } : {}),
+    type: symbol.type,
+    file: path,
+    startLine: symbol.startLine,
+    endLine,
+    commits,
+    storyIds: Array.from(new Set(commits.flatMap((commit) => commit.storyIds))),
+    uncommittedChanges: status.trim().length > 0
+  };
+}
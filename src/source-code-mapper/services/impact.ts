@@ -0,0 +1,179 @@
+/**
+ * Impact analysis
+ * Walks the import graph in reverse from changed files to find the files and tests affected
+ * by a change, and the exported symbols it touches
+ */
+
+import { basename, join } from 'path';
+
+import type {
+  ChangedFile,
+  ImpactedFile,
+  ImpactedTest,
+  ImpactOptions,
+  ImpactReport,
+  Index,
+  SymbolInfo,
+  TouchedSymbol
+} from '../types.js';
+
+import { runGit } from './git.js';
+import { buildDependencyGraph } from './graph.js';
+
+const TEST_FILE_PATTERNS = [
+  /\.(?:test|spec)\.[^./]+$/,
+  /(?:^|\/)(?:tests?|__tests__|spec)\//,
+  /_test\.(?:go|py)$/,
+  /(?:^|\/)test_[^/]+\.py$/
+];
+
+export function isTestFile(file: string): boolean {
+  const normalized = file.split('\\').join('/');
+  return TEST_FILE_PATTERNS.some((pattern) => pattern.test(normalized));
+}
+
+/**
+ * File name without extension and test affixes: `errors.test.ts`, `test_errors.py` and
+ * `errors_test.go` all name `errors`
+ */
+function moduleStem(file: string): string {
+  return basename(file)
+    .replace(/\.[^.]+$/, '')
+    .replace(/\.(?:test|spec)$/, '')
+    .replace(/^test_|_test$/, '');
+}
+
+/**
+ * Changed files and new-side line ranges from `git diff --unified=0` output
+ * Deleted files have no lines, so everything they exported counts as touched.
+ */
+export function parseUnifiedDiff(diff: string, repoRoot: string): ChangedFile[] {
+  const changes = new Map<string, ChangedFile>();
+  let oldPath: string | null = null;
+  let current: ChangedFile | null = null;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      oldPath = null;
+      current = null;
+    } else if (line.startsWith('--- ')) {
+      oldPath = line === '--- /dev/null' ? null : line.slice('--- a/'.length);
+    } else if (line.startsWith('+++ ')) {
+      const deleted = line === '+++ /dev/null';
+      const path = deleted ? oldPath : line.slice('+++ b/'.length);
+      current = path ? { file: join(repoRoot, path), ...(deleted ? {} : { lines: [] }) } : null;
+      if (current) {
+        changes.set(current.file, current);
+      }
+    } else if (current?.lines) {
+      const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+      if (hunk) {
+        const start = Number(hunk[1]);
+        const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+        // A pure deletion sits between line `start` and the next one
+        current.lines.push(count === 0 ? { start: Math.max(start, 1), end: start + 1 } : { start, end: start + count - 1 });
+      }
+    }
+  }
+
+  return Array.from(changes.values());
+}
+
+/**
+ * Files changed in the working tree (staged or not) relative to a git ref, plus untracked files
+ */
+export function getChangedFiles(ref: string, projectRoot: string): ChangedFile[] {
+  const git = (args: string[]): string => runGit(args, projectRoot);
+
+  const repoRoot = git(['rev-parse', '--show-toplevel']).trim();
+  const changes = parseUnifiedDiff(git(['diff', '--unified=0', '--no-color', '--no-ext-diff', '--no-renames', ref, '--']), repoRoot);
+  const untracked = git(['ls-files', '--others', '--exclude-standard', '--full-name', repoRoot])
+    .split('\n')
+    .filter(Boolean)
+    .map((path): ChangedFile => ({ file: join(repoRoot, path) }));
+
+  return [...changes, ...untracked];
+}
+
+function touchesSymbol(change: ChangedFile, symbol: SymbolInfo): boolean {
+  return !change.lines || change.lines.some((range) => range.start <= symbol.endLine && range.end >= symbol.startLine);
+}
+
+/**
+ * Find what a change affects
+ * Importers are followed breadth-first, so each file is reported at its shortest distance from
+ * the change. Tests named after a changed file rank first, then by distance.
+ */
+export function analyzeImpact(index: Index, changes: ChangedFile[], options: ImpactOptions = {}): ImpactReport {
+  const maxDepth = options.maxDepth ?? Infinity;
+  const changedFiles = new Set(changes.map((change) => change.file));
+
+  const touchedSymbols: TouchedSymbol[] = changes.flatMap((change) =>
+    (index.symbols.get(change.file) ?? [])
+      .filter((symbol) => symbol.isExported && !symbol.parent && touchesSymbol(change, symbol))
+      .map((symbol) => ({ name: symbol.name, type: symbol.type, file: change.file, line: symbol.startLine }))
+  );
+
+  const importers = new Map<string, string[]>();
+  for (const edge of buildDependencyGraph(index).edges) {
+    importers.set(edge.to, [...(importers.get(edge.to) ?? []), edge.from]);
+  }
+
+  // Touched symbols a direct importer names; namespace and dynamic imports and `export *` take them all
+  const importedSymbols = (importer: string, target: string): string[] => {
+    const touched = touchedSymbols.filter((symbol) => symbol.file === target).map((symbol) => symbol.name);
+    const imports = (index.imports.get(importer) ?? []).filter((imp) => imp.resolved?.includes(target));
+    const names = imports.flatMap((imp) => imp.imported);
+    return imports.some((imp) => imp.dynamic) || names.some((name) => name === '*' || name.startsWith('* as '))
+      ? touched
+      : touched.filter((name) => names.includes(name));
+  };
+
+  const reached = new Map<string, ImpactedFile>();
+  let frontier = Array.from(changedFiles).sort();
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next: string[] = [];
+    for (const file of frontier) {
+      for (const importer of importers.get(file) ?? []) {
+        if (changedFiles.has(importer) || reached.has(importer)) {
+          continue;
+        }
+        reached.set(importer, {
+          file: importer,
+          depth,
+          via: file,
+          ...(depth === 1 ? { symbols: importedSymbols(importer, file) } : {})
+        });
+        next.push(importer);
+      }
+    }
+    frontier = next.sort();
+  }
+
+  const byDistance = (a: ImpactedFile, b: ImpactedFile): number => a.depth - b.depth || a.file.localeCompare(b.file);
+  const impacted = Array.from(reached.values()).sort(byDistance);
+
+  const changedStems = new Map(Array.from(changedFiles).filter((file) => !isTestFile(file)).map((file) => [moduleStem(file), file]));
+  const changedTests: ImpactedTest[] = Array.from(changedFiles)
+    .filter(isTestFile)
+    .sort()
+    .map((file) => ({ file, depth: 0, via: file, reason: 'changed' }));
+  const namesakes: ImpactedTest[] = [];
+  const importingTests: ImpactedTest[] = [];
+  for (const entry of impacted.filter((candidate) => isTestFile(candidate.file))) {
+    const namesake = changedStems.get(moduleStem(entry.file));
+    if (namesake) {
+      namesakes.push({ ...entry, reason: `named after ${basename(namesake)}` });
+    } else {
+      const reason = entry.depth === 1 ? 'imports a changed file' : `imports a changed file through ${entry.depth - 1} other file(s)`;
+      importingTests.push({ ...entry, reason });
+    }
+  }
+
+  return {
+    changed: changes,
+    touchedSymbols,
+    affected: impacted.filter((entry) => !isTestFile(entry.file)),
+    tests: [...changedTests, ...namesakes, ...importingTests]
+  };
+}
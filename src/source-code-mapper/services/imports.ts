@@ -3,7 +3,11 @@
  * Find imports for files and which files import specific modules
  */
 
-import type { Index, FileImports } from '../types.js';
+import { isAbsolute, resolve } from 'path';
+
+import type { Index, FileImports, Import } from '../types.js';
+
+import { findModuleFile, getIndexedFiles, moduleFileCandidates } from './resolver.js';
 
 export function getFileImports(index: Index, filepath: string): FileImports | null {
   const imports = index.imports.get(filepath);
@@ -18,15 +22,35 @@ export function getFileImports(index: Index, filepath: string): FileImports | nu
   };
 }
 
-export function findImporters(index: Index, importedModule: string): FileImports[] {
+/**
+ * Whether an import source or resolved project file ends with a partial module path such as
+ * `errors` or `shared/errors`
+ */
+function matchesModuleSuffix(imp: Import, importedModule: string, suffixes: string[]): boolean {
+  return imp.source === importedModule ||
+    imp.source.endsWith(`/${importedModule}`) ||
+    imp.source.endsWith(`/${importedModule}.js`) ||
+    imp.source.endsWith(`/${importedModule}.ts`) ||
+    (imp.resolved ?? []).some(file => suffixes.some(suffix => file.endsWith(suffix)));
+}
+
+/**
+ * Find the files importing a module
+ * A project file (absolute or relative to the project root, extension optional) matches the
+ * imports that resolve to it, so `../shared/errors.js` and `./errors.js` in another folder stay
+ * apart. Anything else (packages, partial paths) matches import sources and resolved files by
+ * suffix.
+ */
+export function findImporters(index: Index, importedModule: string, projectRoot = process.cwd()): FileImports[] {
   const results: FileImports[] = [];
+  const targetPath = isAbsolute(importedModule) ? importedModule : resolve(projectRoot, importedModule);
+  const target = findModuleFile(targetPath, getIndexedFiles(index));
+  const suffixes = moduleFileCandidates(importedModule).map(candidate => `/${candidate}`);
 
   for (const [file, imports] of index.imports.entries()) {
-    const matchingImports = imports.filter(imp =>
-      imp.source === importedModule ||
-      imp.source.endsWith(`/${importedModule}`) ||
-      imp.source.endsWith(`/${importedModule}.js`) ||
-      imp.source.endsWith(`/${importedModule}.ts`)
+    const matchingImports = imports.filter(imp => target
+      ? imp.resolved?.includes(target)
+      : matchesModuleSuffix(imp, importedModule, suffixes)
     );
 
     if (matchingImports.length > 0) {
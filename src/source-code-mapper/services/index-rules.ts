@@ -0,0 +1,122 @@
+/**
+ * Index rules
+ * Decides which files the code index covers and which parser reads them: default patterns,
+ * `.gitignore` and `.ignore` files, then the `index` section of cc-devtools/scm.yaml.
+ */
+
+import { extname, isAbsolute, relative, sep } from 'path';
+
+import ignore from 'ignore';
+
+import type { IndexConfig, IndexRules, SkipReason } from '../types.js';
+import { STANDARD_IGNORE_PATTERNS } from '../types.js';
+
+import { createIgnoreRules } from '../../shared/ignore-rules.js';
+
+import { getLanguageForFile } from './languages.js';
+
+const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Binary and media files; everything else is tried, and only files with symbols or imports
+ * end up with entries
+ */
+const BINARY_EXTENSIONS = [
+  // Executables
+  '.exe', '.dll', '.so', '.dylib', '.bin', '.app',
+  // Archives
+  '.zip', '.tar', '.gz', '.7z', '.rar', '.bz2', '.xz',
+  // Images
+  '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.ico', '.webp', '.tiff',
+  // Audio/Video
+  '.mp3', '.mp4', '.avi', '.mov', '.wav', '.flac', '.ogg', '.mkv', '.webm',
+  // Documents
+  '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx',
+  // Fonts
+  '.ttf', '.otf', '.woff', '.woff2', '.eot',
+  // Database
+  '.db', '.sqlite', '.sqlite3',
+  // Compiled
+  '.pyc', '.class', '.o', '.obj', '.a', '.lib',
+  // SVG (XML but often not code)
+  '.svg',
+];
+
+interface LanguageOverride {
+  matches: (path: string) => boolean;
+  language: string;
+}
+
+/**
+ * Leading directories of a pattern before its first wildcard, e.g. `build/generated` for
+ * `build/generated/*.ts`. Patterns without one can't reach into skipped directories.
+ */
+function getLiteralPrefix(pattern: string): string {
+  const segments = pattern.replace(/^\//, '').split('/');
+  const literal: string[] = [];
+  for (const segment of segments.slice(0, -1)) {
+    if (/[*?[\]{}]/.test(segment)) {
+      break;
+    }
+    literal.push(segment);
+  }
+  return literal.join('/');
+}
+
+export function createIndexRules(projectRoot: string, config: IndexConfig = {}): IndexRules {
+  const ignoreRules = createIgnoreRules(projectRoot, STANDARD_IGNORE_PATTERNS);
+  const include = ignore().add(config.include ?? []);
+  const exclude = ignore().add(config.exclude ?? []);
+  const includePrefixes = (config.include ?? [])
+    .filter((pattern) => !pattern.startsWith('!'))
+    .map(getLiteralPrefix)
+    .filter((prefix) => prefix.length > 0);
+  const languages: LanguageOverride[] = Object.entries(config.languages ?? {}).map(([pattern, language]) => {
+    const matcher = ignore().add(pattern);
+    return { matches: (path) => matcher.ignores(path), language };
+  });
+  const maxFileSize = config.max_file_size ?? DEFAULT_MAX_FILE_SIZE;
+
+  /** Path relative to the project root in ignore file form, or null outside of it */
+  const toRelative = (path: string): string | null => {
+    const rel = (isAbsolute(path) ? relative(projectRoot, path) : path).split(sep).join('/');
+    return rel.length > 0 && !rel.startsWith('..') ? rel : null;
+  };
+
+  const getOverride = (rel: string | null): string | undefined =>
+    rel !== null ? languages.find((override) => override.matches(rel))?.language : undefined;
+
+  return {
+    maxFileSize,
+    skipReason(path: string, isDirectory: boolean, size?: number): SkipReason | null {
+      const rel = toRelative(path);
+      if (rel === null) {
+        return null;
+      }
+
+      if (!isDirectory) {
+        if (size !== undefined && size > maxFileSize) {
+          return 'too-large';
+        }
+        if (getOverride(rel) === undefined && BINARY_EXTENSIONS.includes(extname(rel).toLowerCase())) {
+          return 'binary';
+        }
+      }
+
+      const candidate = isDirectory ? `${rel}/` : rel;
+      if (include.ignores(candidate)) {
+        return null;
+      }
+      return ignoreRules.match(candidate) ?? (exclude.ignores(candidate) ? 'exclude' : null);
+    },
+    mayContainIncluded(directory: string): boolean {
+      const rel = toRelative(directory);
+      return rel !== null && includePrefixes.some((prefix) =>
+        `${prefix}/`.startsWith(`${rel}/`) || `${rel}/`.startsWith(`${prefix}/`)
+      );
+    },
+    getLanguage(file: string): string | null {
+      return getOverride(toRelative(file)) ?? getLanguageForFile(file);
+    }
+  };
+}
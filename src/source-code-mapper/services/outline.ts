@@ -0,0 +1,105 @@
+/**
+ * Code outline
+ * Renders the symbols of a file or directory as a compact tree of signatures, dropping detail
+ * until it fits a token budget
+ */
+
+import { relative, sep } from 'path';
+
+import { OUTLINE_DETAILS } from '../types.js';
+import type { Index, Outline, OutlineDetail, OutlineOptions, SymbolInfo } from '../types.js';
+
+interface OutlineFile {
+  path: string;
+  symbols: SymbolInfo[];
+}
+
+/**
+ * Rough token count: one token per four characters
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * One outline line for a symbol: parameter lists follow the name, other signatures are
+ * annotations (`name: string`)
+ */
+function formatSymbol(symbol: SymbolInfo): string {
+  // Multi-line parameter lists collapse onto one line
+  const signature = symbol.signature?.replace(/\s+/g, ' ').replace(/([([{<]) | ([)\]}>])/g, '$1$2').trim();
+  const described = !signature
+    ? symbol.name
+    : /^[(<[]/.test(signature) ? `${symbol.name}${signature}` : `${symbol.name}: ${signature}`;
+  const lines = symbol.endLine > symbol.startLine ? `${symbol.startLine}-${symbol.endLine}` : `${symbol.startLine}`;
+  return `${symbol.isExported ? 'export ' : ''}${symbol.type} ${described}  :${lines}`;
+}
+
+function renderFile(file: OutlineFile, detail: OutlineDetail): string[] {
+  const topLevel = file.symbols.filter((symbol) => !symbol.parent);
+  switch (detail) {
+    case 'full':
+      return [
+        file.path,
+        ...file.symbols.map((symbol) => {
+          const depth = symbol.parent ? symbol.parent.split('.').length : 0;
+          return `${'  '.repeat(depth + 1)}${formatSymbol(symbol)}`;
+        })
+      ];
+    case 'top-level':
+      return [file.path, ...topLevel.map((symbol) => `  ${formatSymbol(symbol)}`)];
+    case 'names':
+      return [topLevel.length > 0 ? `${file.path}: ${topLevel.map((symbol) => symbol.name).join(', ')}` : file.path];
+    case 'files':
+      return [`${file.path} (${file.symbols.length} symbols)`];
+  }
+}
+
+/**
+ * Outline the indexed files at or under a path
+ * The most detailed rendering that fits `maxTokens` is returned. When even the file list is
+ * too long it is cut off and the remaining files are counted in `omittedFiles`.
+ */
+export function buildOutline(index: Index, path: string, options: OutlineOptions): Outline {
+  const files: OutlineFile[] = Array.from(index.symbols.keys())
+    .filter((file) => file === path || file.startsWith(path.endsWith(sep) ? path : `${path}${sep}`))
+    .sort()
+    .map((file) => ({
+      path: relative(options.projectRoot, file) || file,
+      symbols: [...(index.symbols.get(file) ?? [])].sort((a, b) => a.startLine - b.startLine)
+    }));
+
+  const result = (detail: OutlineDetail, lines: string[], omittedFiles = 0): Outline => {
+    const outline = lines.join('\n');
+    return {
+      path: relative(options.projectRoot, path) || '.',
+      detail,
+      files: files.length,
+      symbols: files.reduce((total, file) => total + file.symbols.length, 0),
+      omittedFiles,
+      estimatedTokens: estimateTokens(outline),
+      outline
+    };
+  };
+
+  for (const detail of OUTLINE_DETAILS) {
+    const lines = files.flatMap((file) => renderFile(file, detail));
+    if (estimateTokens(lines.join('\n')) <= options.maxTokens) {
+      return result(detail, lines);
+    }
+  }
+
+  // Even one line per file is too much: list as many files as fit
+  const lines: string[] = [];
+  let used = estimateTokens(`... ${files.length} more files`);
+  for (const file of files) {
+    const [line] = renderFile(file, 'files');
+    used += estimateTokens(`${line}\n`);
+    if (used > options.maxTokens) {
+      break;
+    }
+    lines.push(line);
+  }
+  const omittedFiles = files.length - lines.length;
+  return result('files', [...lines, `... ${omittedFiles} more files`], omittedFiles);
+}
@@ -6,6 +6,7 @@
 import { readFileSync } from 'fs';
 
 import type { ParseResult } from '../types.js';
+import { DEFAULT_PARSER_VERSION, PARSER_VERSIONS } from '../types.js';
 
 import { getLanguageForFile } from './languages.js';
 import parseAssembly from './parsers/assembly.js';
@@ -39,22 +40,45 @@ import parseRuby from './parsers/ruby.js';
 import parseRust from './parsers/rust.js';
 import parseScala from './parsers/scala.js';
 import parseSwift from './parsers/swift.js';
+import parseTypeScriptAst from './parsers/typescript-ast.js';
+
+import type { Parser } from './parsers/types.js';
+
+/**
+ * Parse with the TypeScript compiler API, falling back to the regex parser if it throws
+ */
+const parseTypeScriptWithFallback: Parser = (filePath, content, lines) => {
+  try {
+    return parseTypeScriptAst(filePath, content, lines);
+  } catch {
+    return parseJavaScriptTypeScript(filePath, content, lines);
+  }
+};
+
+/**
+ * Parser and version that handle a file, as recorded in the index (`typescript@2`)
+ */
+export function getParserVersion(filePath: string, language = getLanguageForFile(filePath)): string {
+  const name = language ?? 'generic';
+  return `${name}@${PARSER_VERSIONS[name] ?? DEFAULT_PARSER_VERSION}`;
+}
 
 /**
  * Parse a source file and extract symbols and imports
  * Routes to appropriate language-specific parser based on file extension
+ * @param source - File content, when the caller has already read it
+ * @param language - Language to parse as, instead of the one the extension names
  */
-export function parseFile(filePath: string): ParseResult {
+export function parseFile(filePath: string, source?: string, language = getLanguageForFile(filePath)): ParseResult {
   try {
-    const content = readFileSync(filePath, 'utf-8');
+    const content = source ?? readFileSync(filePath, 'utf-8');
     const lines = content.split('\n');
-    const language = getLanguageForFile(filePath);
 
     // Route to appropriate language parser
     switch (language) {
       case 'javascript':
       case 'typescript':
-        return parseJavaScriptTypeScript(filePath, content, lines);
+        return parseTypeScriptWithFallback(filePath, content, lines);
       case 'python':
         return parsePython(filePath, content, lines);
       case 'go':
@@ -1,15 +1,28 @@
 /**
  * Parse C# files
- * Extracts: classes, interfaces, structs, enums, methods, properties
+ * Extracts: namespaces, classes, interfaces, structs, enums, methods, properties and fields,
+ * nested under the namespaces and types that declare them
  */
 
+import { assignParents, findBraceEnd, getLineOffsets, maskCommentsAndStrings } from './scopes.js';
 import { matchAll, getLineNumber, getCapture, createSymbol, createImport } from './types.js';
 
 import type { Parser, SymbolInfo, Import } from './types.js';
 
-const parseCSharp : Parser = (filePath, content, _lines) => {
+const MODIFIERS = '(?:(?:public|private|protected|internal|static|virtual|override|abstract|sealed|partial|async|readonly|new|extern|unsafe|const|volatile|required)\\s+)*';
+
+/** Statements the member patterns mistake for declarations (`else if (x) {`, `return items;`) */
+const NOT_MEMBERS = new Set([
+  'if', 'for', 'foreach', 'while', 'switch', 'catch', 'using', 'lock', 'fixed', 'return', 'new', 'throw',
+  'else', 'do', 'try', 'when', 'nameof', 'typeof', 'sizeof', 'await', 'yield', 'goto'
+]);
+
+const parseCSharp : Parser = (filePath, content, lines) => {
   const symbols: SymbolInfo[] = [];
   const imports: Import[] = [];
+  const masked = maskCommentsAndStrings(content, 'c');
+  const lineOffsets = getLineOffsets(masked);
+  const endOf = (startLine: number): number => findBraceEnd(masked, lineOffsets, startLine);
 
   // Parse using directives
   const importRegex = /^\s*using\s+([\w.]+);/gm;
@@ -19,69 +32,134 @@ const parseCSharp : Parser = (filePath, content, _lines) => {
     imports.push(createImport(importPath, imported));
   }
 
-  // Parse classes
-  const classRegex = /^\s*(?:public|private|protected|internal)?\s*(?:static\s+)?(?:partial\s+)?(?:abstract\s+)?(?:sealed\s+)?class\s+(\w+)(?:<[^>]*>)?(?:\s*:\s*[\w<>,.]+)?\s*\{/gm;
-  for (const match of matchAll(classRegex, content)) {
+  // Parse namespaces; a file-scoped `namespace App;` covers the rest of the file
+  const namespaceRegex = /^[ \t]*namespace\s+([\w.]+)\s*([{;])/gm;
+  for (const match of matchAll(namespaceRegex, masked)) {
+    const startLine = getLineNumber(masked, match.index);
+
+    symbols.push(createSymbol(getCapture(match, 1), 'namespace', startLine, filePath, {
+      endLine: getCapture(match, 2) === ';' ? lines.length : endOf(startLine)
+    }));
+  }
+
+  // Parse classes and records
+  const classRegex = new RegExp(`^[ \\t]*${MODIFIERS}(?:class|record)\\s+(\\w+)(?:<[^>]*>)?(?:\\s*:[^{;]+)?\\s*\\{`, 'gm');
+  for (const match of matchAll(classRegex, masked)) {
     const name = getCapture(match, 1);
-    const startLine = getLineNumber(content, match.index);
+    const startLine = getLineNumber(masked, match.index);
     const isExported = match[0].includes('public');
 
     symbols.push(createSymbol(name, 'class', startLine, filePath, {
+      endLine: endOf(startLine),
       isExported
     }));
   }
 
   // Parse interfaces
-  const interfaceRegex = /^\s*(?:public|private|protected|internal)?\s*interface\s+(\w+)(?:<[^>]*>)?(?:\s*:\s*[\w<>,.]+)?\s*\{/gm;
-  for (const match of matchAll(interfaceRegex, content)) {
+  const interfaceRegex = new RegExp(`^[ \\t]*${MODIFIERS}interface\\s+(\\w+)(?:<[^>]*>)?(?:\\s*:[^{;]+)?\\s*\\{`, 'gm');
+  for (const match of matchAll(interfaceRegex, masked)) {
     const name = getCapture(match, 1);
-    const startLine = getLineNumber(content, match.index);
+    const startLine = getLineNumber(masked, match.index);
     const isExported = match[0].includes('public');
 
     symbols.push(createSymbol(name, 'interface', startLine, filePath, {
+      endLine: endOf(startLine),
       isExported
     }));
   }
 
   // Parse structs
-  const structRegex = /^\s*(?:public|private|protected|internal)?\s*struct\s+(\w+)(?:<[^>]*>)?\s*\{/gm;
-  for (const match of matchAll(structRegex, content)) {
+  const structRegex = new RegExp(`^[ \\t]*${MODIFIERS}struct\\s+(\\w+)(?:<[^>]*>)?(?:\\s*:[^{;]+)?\\s*\\{`, 'gm');
+  for (const match of matchAll(structRegex, masked)) {
     const name = getCapture(match, 1);
-    const startLine = getLineNumber(content, match.index);
+    const startLine = getLineNumber(masked, match.index);
     const isExported = match[0].includes('public');
 
     symbols.push(createSymbol(name, 'type', startLine, filePath, {
+      endLine: endOf(startLine),
       isExported
     }));
   }
 
   // Parse enums
-  const enumRegex = /^\s*(?:public|private|protected|internal)?\s*enum\s+(\w+)\s*\{/gm;
-  for (const match of matchAll(enumRegex, content)) {
+  const enumRegex = new RegExp(`^[ \\t]*${MODIFIERS}enum\\s+(\\w+)(?:\\s*:\\s*\\w+)?\\s*\\{`, 'gm');
+  for (const match of matchAll(enumRegex, masked)) {
     const name = getCapture(match, 1);
-    const startLine = getLineNumber(content, match.index);
+    const startLine = getLineNumber(masked, match.index);
     const isExported = match[0].includes('public');
 
     symbols.push(createSymbol(name, 'enum', startLine, filePath, {
+      endLine: endOf(startLine),
       isExported
     }));
   }
 
-  // Parse methods
-  const methodRegex = /^\s*(?:public|private|protected|internal)?\s*(?:static\s+)?(?:virtual\s+)?(?:override\s+)?(?:async\s+)?(?:\w+(?:<[^>]*>)?(?:\[\])?\s+)?(\w+)\s*\(([^)]*)\)\s*\{/gm;
-  for (const match of matchAll(methodRegex, content)) {
+  // Parse methods and constructors, including expression-bodied and interface members
+  const methodRegex = new RegExp(
+    `^[ \\t]*${MODIFIERS}(?:[\\w.]+(?:<[^>]*>)?(?:\\[\\])?\\??\\s+)?(\\w+)(?:<[^>]*>)?\\s*\\(([^)]*)\\)` +
+    '(?:\\s*:\\s*(?:base|this)\\([^)]*\\))?(?:\\s*where[^{;]*)?\\s*(?:\\{|=>|;)',
+    'gm'
+  );
+  for (const match of matchAll(methodRegex, masked)) {
     const name = getCapture(match, 1);
+    if (NOT_MEMBERS.has(name)) {
+      continue;
+    }
     const params = getCapture(match, 2);
-    const startLine = getLineNumber(content, match.index);
+    const startLine = getLineNumber(masked, match.index);
     const isPrivate = match[0].includes('private');
 
     symbols.push(createSymbol(name, 'function', startLine, filePath, {
+      endLine: endOf(startLine),
       isExported: !isPrivate,
       signature: `(${params})`
     }));
   }
 
-  return { symbols, imports };
+  // Parse properties: `public string Name { get; set; }`, `public int Count => items.Count;`
+  const propertyRegex = new RegExp(
+    `^[ \\t]*(${MODIFIERS})([\\w.]+(?:<[^;=(){}]*>)?(?:\\[\\])?\\??)\\s+(\\w+)\\s*` +
+    '(?:\\{\\s*(?:(?:public|private|protected|internal)\\s+)?(?:get|set|init)\\b|=>)',
+    'gm'
+  );
+  for (const match of matchAll(propertyRegex, masked)) {
+    const startLine = getLineNumber(masked, match.index);
+    const isBlock = !match[0].trimEnd().endsWith('=>');
+
+    symbols.push(createSymbol(getCapture(match, 3), 'property', startLine, filePath, {
+      endLine: isBlock ? endOf(startLine) : startLine,
+      isExported: !getCapture(match, 1).includes('private'),
+      signature: getCapture(match, 2)
+    }));
+  }
+
+  // Parse fields and constants: `private readonly ILogger _logger;`, `public const int Max = 10;`
+  const fieldRegex = new RegExp(`^[ \\t]*(${MODIFIERS})([\\w.]+(?:<[^;=(){}]*>)?(?:\\[\\])?\\??)\\s+(\\w+)\\s*(?:=(?!>)[^;]*)?;`, 'gm');
+  for (const match of matchAll(fieldRegex, masked)) {
+    const modifiers = getCapture(match, 1);
+    const fieldType = getCapture(match, 2);
+    if (NOT_MEMBERS.has(fieldType)) {
+      continue;
+    }
+    const startLine = getLineNumber(masked, match.index);
+
+    symbols.push(createSymbol(getCapture(match, 3), /\bconst\b/.test(modifiers) ? 'const' : 'field', startLine, filePath, {
+      isExported: !modifiers.includes('private'),
+      signature: fieldType
+    }));
+  }
+
+  assignParents(symbols);
+
+  // Members only exist inside types; anything else matched a statement in a body
+  const namespaces = new Set(symbols.filter((symbol) => symbol.type === 'namespace').map((symbol) => symbol.qualifiedName ?? symbol.name));
+  const isMember = (symbol: SymbolInfo): boolean =>
+    ['function', 'method', 'property', 'field', 'const'].includes(symbol.type);
+  const declared = symbols.filter((symbol) =>
+    !isMember(symbol) || (symbol.type !== 'function' && symbol.parent !== undefined && !namespaces.has(symbol.parent))
+  );
+
+  return { symbols: declared.sort((a, b) => a.startLine - b.startLine), imports };
 };
 
 export default parseCSharp;
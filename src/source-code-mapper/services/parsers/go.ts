@@ -1,15 +1,25 @@
 /**
  * Parse Go files with enhanced regex patterns
- * Extracts: functions, methods, structs, interfaces, constants
+ * Extracts: functions, methods (nested under their receiver type), structs and their fields,
+ * interfaces and their methods, package-level constants and variables
  */
 
+import { findBraceEnd, getLineOffsets, maskCommentsAndStrings } from './scopes.js';
 import { matchAll, getLineNumber, getCapture, createSymbol, createImport } from './types.js';
 
 import type { Parser, SymbolInfo, Import } from './types.js';
 
+function isExportedName(name: string): boolean {
+  // Go convention: capitalized names are exported
+  return name[0] === name[0].toUpperCase() && name[0] !== '_';
+}
+
 const parseGo : Parser = (filePath, content, _lines) => {
   const symbols: SymbolInfo[] = [];
   const imports: Import[] = [];
+  const masked = maskCommentsAndStrings(content, 'c');
+  const lineOffsets = getLineOffsets(masked);
+  const maskedLines = masked.split('\n');
 
   // Parse imports (both single and block imports)
   const importRegex = /import\s+(?:"([^"]+)"|(?:\(([^)]+)\)))/gs;
@@ -30,51 +40,87 @@ const parseGo : Parser = (filePath, content, _lines) => {
     }
   }
 
-  // Parse functions and methods
-  const functionRegex = /func\s+(?:\(([^)]+)\)\s+)?(\w+)\s*\(([^)]*)\)(?:\s*\()?([^{]*)?/gm;
-  for (const match of matchAll(functionRegex, content)) {
+  // Parse functions and methods; `func (s *Store) Load()` is the method Store.Load
+  const functionRegex = /^func\s+(?:\(([^)]+)\)\s+)?(\w+)(?:\[[^\]]*\])?\s*\(([^)]*)\)(?:\s*\()?([^{\n]*)?/gm;
+  for (const match of matchAll(functionRegex, masked)) {
     const receiver = getCapture(match, 1);
     const name = getCapture(match, 2);
     const params = getCapture(match, 3);
-    const returnType = getCapture(match, 4);
-    const startLine = getLineNumber(content, match.index);
-
-    // Go convention: capitalized names are exported
-    const isExported = name[0] === name[0].toUpperCase();
+    const returnType = getCapture(match, 4).trim();
+    const startLine = getLineNumber(masked, match.index);
+    const receiverType = /\*?\s*(\w+)(?:\[[^\]]*\])?\s*$/.exec(receiver)?.[1];
 
-    symbols.push(createSymbol(receiver ? `${receiver.trim()}.${name}` : name, 'function', startLine, filePath, {
-      isExported,
-      signature: `(${params})${returnType ? ` ${returnType.trim()}` : ''}`
+    symbols.push(createSymbol(name, receiverType ? 'method' : 'function', startLine, filePath, {
+      endLine: findBraceEnd(masked, lineOffsets, startLine),
+      isExported: isExportedName(name),
+      signature: `(${params})${returnType ? ` ${returnType}` : ''}`,
+      parent: receiverType
     }));
   }
 
   // Parse type declarations (struct, interface, aliases)
-  const typeRegex = /type\s+(\w+)\s+(struct|interface|\w+)/gm;
-  for (const match of matchAll(typeRegex, content)) {
+  const typeRegex = /^[ \t]*type\s+(\w+)(?:\[[^\]]*\])?\s+(struct|interface|\w+)/gm;
+  for (const match of matchAll(typeRegex, masked)) {
     const name = getCapture(match, 1);
     const typeKind = getCapture(match, 2);
-    const startLine = getLineNumber(content, match.index);
-    const isExported = name[0] === name[0].toUpperCase();
+    const startLine = getLineNumber(masked, match.index);
+    const isBody = typeKind === 'struct' || typeKind === 'interface';
+    const endLine = isBody ? findBraceEnd(masked, lineOffsets, startLine) : startLine;
 
     symbols.push(createSymbol(name, typeKind === 'interface' ? 'interface' : 'type', startLine, filePath, {
-      isExported,
+      endLine,
+      isExported: isExportedName(name),
       signature: typeKind
     }));
+
+    // Struct fields (`Name, Alias string`, embedded `Base`) and interface methods (`Load(id string) error`)
+    for (let line = startLine + 1; isBody && line < endLine; line++) {
+      const text = maskedLines[line - 1].trim();
+      const method = typeKind === 'interface' ? /^(\w+)\s*\(([^)]*)\)\s*(.*)$/.exec(text) : null;
+      if (method) {
+        symbols.push(createSymbol(method[1], 'method', line, filePath, {
+          isExported: isExportedName(method[1]),
+          signature: `(${method[2]})${method[3] ? ` ${method[3]}` : ''}`,
+          parent: name
+        }));
+        continue;
+      }
+
+      const field = typeKind === 'struct' ? /^(\w+(?:\s*,\s*\w+)*)\s+([^\s`]+)|^\*?([\w.]+)$/.exec(text) : null;
+      if (field) {
+        // An embedded type is a field named after the type
+        const names = field[1] ? field[1].split(/\s*,\s*/) : [getCapture(field, 3).split('.').pop() ?? ''];
+        for (const fieldName of names) {
+          symbols.push(createSymbol(fieldName, 'field', line, filePath, {
+            isExported: isExportedName(fieldName),
+            signature: field[2],
+            parent: name
+          }));
+        }
+      }
+    }
   }
 
-  // Parse constants
-  const constRegex = /const\s+(\w+)(?:\s+\w+)?\s*=/gm;
-  for (const match of matchAll(constRegex, content)) {
-    const name = getCapture(match, 1);
-    const startLine = getLineNumber(content, match.index);
-    const isExported = name[0] === name[0].toUpperCase();
+  // Parse package-level constants and variables, single or grouped in `const ( ... )`
+  const declarationRegex = /^(const|var)\s+(?:\(([^)]*)\)|(\w+))/gm;
+  for (const match of matchAll(declarationRegex, masked)) {
+    const type = getCapture(match, 1) === 'const' ? 'const' : 'variable';
+    const startLine = getLineNumber(masked, match.index);
+    const declarations = match[3]
+      ? [{ name: match[3], line: startLine }]
+      : getCapture(match, 2).split('\n').flatMap((text, offset) => {
+        const declared = /^\s*(\w+)/.exec(text);
+        return declared ? [{ name: declared[1], line: startLine + offset }] : [];
+      });
 
-    symbols.push(createSymbol(name, 'const', startLine, filePath, {
-      isExported
-    }));
+    for (const { name, line } of declarations) {
+      if (name !== '_') {
+        symbols.push(createSymbol(name, type, line, filePath, { isExported: isExportedName(name) }));
+      }
+    }
   }
 
-  return { symbols, imports };
+  return { symbols: symbols.sort((a, b) => a.startLine - b.startLine), imports };
 };
 
 export default parseGo;
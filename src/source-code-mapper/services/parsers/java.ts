@@ -1,15 +1,23 @@
 /**
  * Parse Java files
- * Extracts: classes, interfaces, enums, methods, constructors
+ * Extracts: classes, interfaces, enums, methods, constructors and fields, nested under the
+ * types that declare them
  */
 
+import { assignParents, findBraceEnd, getLineOffsets, maskCommentsAndStrings } from './scopes.js';
 import { matchAll, getLineNumber, getCapture, createSymbol, createImport } from './types.js';
 
 import type { Parser, SymbolInfo, Import } from './types.js';
 
+/** Statements the method and field patterns mistake for declarations (`else if (x) {`, `return id;`) */
+const NOT_METHODS = new Set(['if', 'for', 'while', 'switch', 'catch', 'synchronized', 'return', 'new', 'throw', 'else', 'do', 'try']);
+
 const parseJava : Parser = (filePath, content, _lines) => {
   const symbols: SymbolInfo[] = [];
   const imports: Import[] = [];
+  const masked = maskCommentsAndStrings(content, 'c');
+  const lineOffsets = getLineOffsets(masked);
+  const endOf = (startLine: number): number => findBraceEnd(masked, lineOffsets, startLine);
 
   // Parse imports
   const importRegex = /^\s*import\s+(?:static\s+)?([\w.]+)(?:\.\*)?;/gm;
@@ -20,56 +28,86 @@ const parseJava : Parser = (filePath, content, _lines) => {
   }
 
   // Parse classes
-  const classRegex = /^\s*(?:public|private|protected)?\s*(?:static\s+)?(?:final\s+)?(?:abstract\s+)?class\s+(\w+)(?:<[^>]*>)?(?:\s+extends\s+[\w<>,.]+)?(?:\s+implements\s+[\w<>,.]+)?\s*\{/gm;
-  for (const match of matchAll(classRegex, content)) {
+  const classRegex = /^[ \t]*(?:(?:public|private|protected|static|final|abstract)\s+)*class\s+(\w+)(?:<[^>]*>)?(?:\s+extends\s+[\w<>,.]+)?(?:\s+implements\s+[\w<>,.]+)?\s*\{/gm;
+  for (const match of matchAll(classRegex, masked)) {
     const name = getCapture(match, 1);
-    const startLine = getLineNumber(content, match.index);
+    const startLine = getLineNumber(masked, match.index);
     const isExported = match[0].includes('public');
 
     symbols.push(createSymbol(name, 'class', startLine, filePath, {
+      endLine: endOf(startLine),
       isExported
     }));
   }
 
   // Parse interfaces
-  const interfaceRegex = /^\s*(?:public|private|protected)?\s*interface\s+(\w+)(?:<[^>]*>)?(?:\s+extends\s+[\w<>,.]+)?\s*\{/gm;
-  for (const match of matchAll(interfaceRegex, content)) {
+  const interfaceRegex = /^[ \t]*(?:(?:public|private|protected|static)\s+)*interface\s+(\w+)(?:<[^>]*>)?(?:\s+extends\s+[\w<>,.]+)?\s*\{/gm;
+  for (const match of matchAll(interfaceRegex, masked)) {
     const name = getCapture(match, 1);
-    const startLine = getLineNumber(content, match.index);
+    const startLine = getLineNumber(masked, match.index);
     const isExported = match[0].includes('public');
 
     symbols.push(createSymbol(name, 'interface', startLine, filePath, {
+      endLine: endOf(startLine),
       isExported
     }));
   }
 
   // Parse enums
-  const enumRegex = /^\s*(?:public|private|protected)?\s*enum\s+(\w+)\s*\{/gm;
-  for (const match of matchAll(enumRegex, content)) {
+  const enumRegex = /^[ \t]*(?:(?:public|private|protected|static)\s+)*enum\s+(\w+)\s*\{/gm;
+  for (const match of matchAll(enumRegex, masked)) {
     const name = getCapture(match, 1);
-    const startLine = getLineNumber(content, match.index);
+    const startLine = getLineNumber(masked, match.index);
     const isExported = match[0].includes('public');
 
     symbols.push(createSymbol(name, 'enum', startLine, filePath, {
+      endLine: endOf(startLine),
       isExported
     }));
   }
 
   // Parse methods
-  const methodRegex = /^\s*(?:public|private|protected)?\s*(?:static\s+)?(?:final\s+)?(?:synchronized\s+)?(?:<[^>]*>\s+)?(?:\w+(?:<[^>]*>)?(?:\[\])?\s+)?(\w+)\s*\(([^)]*)\)(?:\s+throws\s+[\w,\s]+)?\s*(?:\{|;)/gm;
-  for (const match of matchAll(methodRegex, content)) {
+  const methodRegex = /^[ \t]*(?:(?:public|private|protected|static|final|abstract|synchronized|native|default)\s+)*(?:<[^>]*>\s+)?(?:\w+(?:<[^>]*>)?(?:\[\])?\s+)?(\w+)\s*\(([^)]*)\)(?:\s+throws\s+[\w,\s]+)?\s*(?:\{|;)/gm;
+  for (const match of matchAll(methodRegex, masked)) {
     const name = getCapture(match, 1);
+    if (NOT_METHODS.has(name)) {
+      continue;
+    }
     const params = getCapture(match, 2);
-    const startLine = getLineNumber(content, match.index);
+    const startLine = getLineNumber(masked, match.index);
     const isPrivate = match[0].includes('private');
 
     symbols.push(createSymbol(name, 'function', startLine, filePath, {
+      endLine: endOf(startLine),
       isExported: !isPrivate,
       signature: `(${params})`
     }));
   }
 
-  return { symbols, imports };
+  // Parse fields: `private final Map<String, User> cache = new HashMap<>();`
+  const fieldRegex = /^[ \t]*((?:(?:public|private|protected|static|final|transient|volatile)\s+)*)([\w.]+(?:<[^;=(){}]*>)?(?:\[\])*)\s+(\w+)\s*(?:=[^;]*)?;/gm;
+  for (const match of matchAll(fieldRegex, masked)) {
+    const modifiers = getCapture(match, 1);
+    const fieldType = getCapture(match, 2);
+    if (NOT_METHODS.has(fieldType)) {
+      continue;
+    }
+    const startLine = getLineNumber(masked, match.index);
+
+    symbols.push(createSymbol(getCapture(match, 3), 'field', startLine, filePath, {
+      isExported: !modifiers.includes('private'),
+      signature: fieldType
+    }));
+  }
+
+  assignParents(symbols);
+
+  // Methods and fields only exist inside types; anything else matched a statement in a body
+  const isMember = (symbol: SymbolInfo): boolean =>
+    symbol.type === 'method' || symbol.type === 'function' || symbol.type === 'field';
+  const declared = symbols.filter((symbol) => symbol.parent !== undefined || !isMember(symbol));
+
+  return { symbols: declared.sort((a, b) => a.startLine - b.startLine), imports };
 };
 
 export default parseJava;
@@ -3,6 +3,7 @@
  * Extracts: functions, arrow functions, classes, methods, interfaces, types, enums, constants
  */
 
+import { extractJavaScriptReferences } from './references.js';
 import { matchAll, getLineNumber, getCapture, createSymbol, createImport } from './types.js';
 
 import type { Parser, SymbolInfo, Import } from './types.js';
@@ -12,7 +13,7 @@ const parseJavaScriptTypeScript : Parser = (filePath, content, _lines) => {
   const imports: Import[] = [];
 
   // Parse imports - enhanced to handle more patterns
-  const importRegex = /^\s*import\s+(?:(?:{([^}]+)}|(\*\s+as\s+\w+|\w+))\s+from\s+)?['"]([^'"]+)['"]/gm;
+  const importRegex = /^[ \t]*import\s+(?:(?:{([^}]+)}|(\*\s+as\s+\w+|\w+))\s+from\s+)?['"]([^'"]+)['"]/gm;
   for (const match of matchAll(importRegex, content)) {
     const namedImports = getCapture(match, 1);
     const defaultImport = getCapture(match, 2);
@@ -30,7 +31,7 @@ const parseJavaScriptTypeScript : Parser = (filePath, content, _lines) => {
   }
 
   // 1. Regular function declarations (including async, generator, and export variations)
-  const functionRegex = /^\s*(?:export\s+)?(?:async\s+)?function\s*\*?\s+(\w+)\s*(<[^>]*>)?\s*\(([^)]*)\)/gm;
+  const functionRegex = /^[ \t]*(?:export\s+)?(?:async\s+)?function\s*\*?\s+(\w+)\s*(<[^>]*>)?\s*\(([^)]*)\)/gm;
   for (const match of matchAll(functionRegex, content)) {
     const isExported = match[0].includes('export');
     const name = getCapture(match, 1);
@@ -45,7 +46,7 @@ const parseJavaScriptTypeScript : Parser = (filePath, content, _lines) => {
   }
 
   // 2. Arrow functions (const/let/var with arrow function assignment)
-  const arrowFunctionRegex = /^\s*(?:export\s+)?(const|let|var)\s+(\w+)\s*:\s*[^=]*=\s*(?:async\s+)?\(([^)]*)\)\s*=>/gm;
+  const arrowFunctionRegex = /^[ \t]*(?:export\s+)?(const|let|var)\s+(\w+)\s*:\s*[^=]*=\s*(?:async\s+)?\(([^)]*)\)\s*=>/gm;
   for (const match of matchAll(arrowFunctionRegex, content)) {
     const isExported = match[0].includes('export');
     const name = getCapture(match, 2);
@@ -62,7 +63,7 @@ const parseJavaScriptTypeScript : Parser = (filePath, content, _lines) => {
   }
 
   // 2b. Arrow functions without type annotation
-  const arrowFunctionSimpleRegex = /^\s*(?:export\s+)?(const|let|var)\s+(\w+)\s*=\s*(?:async\s+)?\(([^)]*)\)\s*=>/gm;
+  const arrowFunctionSimpleRegex = /^[ \t]*(?:export\s+)?(const|let|var)\s+(\w+)\s*=\s*(?:async\s+)?\(([^)]*)\)\s*=>/gm;
   for (const match of matchAll(arrowFunctionSimpleRegex, content)) {
     const isExported = match[0].includes('export');
     const name = getCapture(match, 2);
@@ -79,7 +80,7 @@ const parseJavaScriptTypeScript : Parser = (filePath, content, _lines) => {
   }
 
   // 3. Classes (including abstract and default export)
-  const classRegex = /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+(\w+)(?:\s+extends\s+[\w<>,.]+)?(?:\s+implements\s+[\w<>,.]+)?\s*\{/gm;
+  const classRegex = /^[ \t]*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+(\w+)(?:\s+extends\s+[\w<>,.]+)?(?:\s+implements\s+[\w<>,.]+)?\s*\{/gm;
   for (const match of matchAll(classRegex, content)) {
     const isExported = match[0].includes('export');
     const name = getCapture(match, 1);
@@ -91,7 +92,7 @@ const parseJavaScriptTypeScript : Parser = (filePath, content, _lines) => {
   }
 
   // 4. Class methods (including static, async, getters, setters, constructors)
-  const methodRegex = /^\s*(?:public|private|protected)?\s*(?:static\s+)?(?:async\s+)?(?:\b(get|set)\s+)?(\w+)\s*(<[^>]*>)?\s*\(([^)]*)\)(?:\s*:\s*[^{]+)?\s*\{/gm;
+  const methodRegex = /^[ \t]*(?:(?:public|private|protected)\s+)?(?:static\s+)?(?:async\s+)?(?:\b(get|set)\s+)?(\w+)\s*(<[^>]*>)?\s*\(([^)]*)\)(?:\s*:\s*[^{]+)?\s*\{/gm;
   for (const match of matchAll(methodRegex, content)) {
     const getSetPrefix = getCapture(match, 1); // "get" or "set" or empty
     const baseName = getCapture(match, 2);
@@ -121,7 +122,7 @@ const parseJavaScriptTypeScript : Parser = (filePath, content, _lines) => {
   }
 
   // 5. Interfaces
-  const interfaceRegex = /^\s*(?:export\s+)?interface\s+(\w+)(<[^>]*>)?\s*(?:extends\s+[\w<>,.]+)?\s*\{/gm;
+  const interfaceRegex = /^[ \t]*(?:export\s+)?interface\s+(\w+)(<[^>]*>)?\s*(?:extends\s+[\w<>,.]+)?\s*\{/gm;
   for (const match of matchAll(interfaceRegex, content)) {
     const isExported = match[0].includes('export');
     const name = getCapture(match, 1);
@@ -135,7 +136,7 @@ const parseJavaScriptTypeScript : Parser = (filePath, content, _lines) => {
   }
 
   // 6. Type aliases
-  const typeRegex = /^\s*(?:export\s+)?type\s+(\w+)(<[^>]*>)?\s*=/gm;
+  const typeRegex = /^[ \t]*(?:export\s+)?type\s+(\w+)(<[^>]*>)?\s*=/gm;
   for (const match of matchAll(typeRegex, content)) {
     const isExported = match[0].includes('export');
     const name = getCapture(match, 1);
@@ -149,7 +150,7 @@ const parseJavaScriptTypeScript : Parser = (filePath, content, _lines) => {
   }
 
   // 7. Enums
-  const enumRegex = /^\s*(?:export\s+)?(?:const\s+)?enum\s+(\w+)\s*\{/gm;
+  const enumRegex = /^[ \t]*(?:export\s+)?(?:const\s+)?enum\s+(\w+)\s*\{/gm;
   for (const match of matchAll(enumRegex, content)) {
     const isExported = match[0].includes('export');
     const name = getCapture(match, 1);
@@ -161,7 +162,7 @@ const parseJavaScriptTypeScript : Parser = (filePath, content, _lines) => {
   }
 
   // 8. Exported constants (but avoid duplicating functions)
-  const constRegex = /^\s*export\s+(const|let|var)\s+(\w+)(?:\s*:\s*[^=]+)?\s*=/gm;
+  const constRegex = /^[ \t]*export\s+(const|let|var)\s+(\w+)(?:\s*:\s*[^=]+)?\s*=/gm;
   for (const match of matchAll(constRegex, content)) {
     const name = getCapture(match, 2);
     if (!name) continue;
@@ -176,7 +177,13 @@ const parseJavaScriptTypeScript : Parser = (filePath, content, _lines) => {
     }
   }
 
-  return { symbols, imports };
+  // Namespace imports are used through their alias (`* as path` -> `path.join()`)
+  const importedNames = imports.flatMap((imp) =>
+    imp.imported.map((name) => name.replace(/^\*\s+as\s+/, ''))
+  );
+  const references = extractJavaScriptReferences(content, symbols, importedNames);
+
+  return { symbols, imports, references };
 };
 
 export default parseJavaScriptTypeScript;
@@ -1,18 +1,26 @@
 /**
  * Parse Python files with enhanced regex patterns
- * Extracts: functions, async functions, methods, classes, decorators
+ * Extracts: functions, async functions, methods, properties, classes (nested by indentation),
+ * class attributes and module-level variables
  */
 
+import { extractPythonReferences } from './references.js';
+import { assignParents, findIndentEnd, indentOf, maskCommentsAndStrings } from './scopes.js';
 import { matchAll, getLineNumber, getCapture, createSymbol, createImport } from './types.js';
 
 import type { Parser, SymbolInfo, Import } from './types.js';
 
-const parsePython: Parser = (filePath, content, _lines) => {
+/** Statements that look like a bare `name` or `name: ...` assignment target */
+const STATEMENT_KEYWORDS = new Set([
+  'return', 'pass', 'break', 'continue', 'else', 'try', 'finally', 'raise', 'yield', 'global', 'nonlocal', 'del'
+]);
+
+const parsePython: Parser = (filePath, content, lines) => {
   const symbols: SymbolInfo[] = [];
   const imports: Import[] = [];
 
   // Parse imports (both 'import' and 'from...import')
-  const importRegex = /^\s*(?:from\s+([\w.]+)\s+)?import\s+(.+?)(?:\s+as\s+\w+)?$/gm;
+  const importRegex = /^[ \t]*(?:from\s+([\w.]+)\s+)?import\s+(.+?)(?:\s+as\s+\w+)?$/gm;
   for (const match of matchAll(importRegex, content)) {
     const source = getCapture(match, 1);
     const importedStr = getCapture(match, 2);
@@ -23,32 +31,98 @@ const parsePython: Parser = (filePath, content, _lines) => {
   }
 
   // Parse function definitions (including async and decorators)
-  const functionRegex = /^\s*(?:@\w+(?:\([^)]*\))?\s*)*(?:async\s+)?def\s+(\w+)\s*\(([^)]*)\)(?:\s*->\s*[^:]+)?:/gm;
+  const functionRegex = /^[ \t]*(?:@\w+(?:\([^)]*\))?\s*)*(?:async\s+)?def\s+(\w+)\s*\(([^)]*)\)(?:\s*->\s*[^:]+)?:/gm;
   for (const match of matchAll(functionRegex, content)) {
     const name = getCapture(match, 1);
     const params = getCapture(match, 2);
     const startLine = getLineNumber(content, match.index);
+    const declarationLine = getLineNumber(content, match.index + match[0].search(/\b(?:async\s+)?def\s/));
 
-    symbols.push(createSymbol(name, 'function', startLine, filePath, {
+    // Decorators the pattern above doesn't cover, like `@name.setter`, sit on the lines before
+    const decorators: string[] = [];
+    for (let line = declarationLine - 1; line >= 1 && lines[line - 1].trim().startsWith('@'); line--) {
+      decorators.push(lines[line - 1].trim());
+    }
+    // A property's setter and deleter are part of the property its getter declares
+    if (decorators.some((decorator) => /^@\w+\.(?:setter|deleter)\b/.test(decorator))) {
+      continue;
+    }
+    const isProperty = decorators.some((decorator) => /^@(?:\w+\.)*(?:property|cached_property)\b/.test(decorator));
+
+    symbols.push(createSymbol(name, isProperty ? 'property' : 'function', startLine, filePath, {
+      endLine: findIndentEnd(lines, declarationLine),
       isExported: !name.startsWith('_'),
       signature: `(${params})`
     }));
   }
 
   // Parse class definitions
-  const classRegex = /^\s*class\s+(\w+)(?:\(([^)]*)\))?:/gm;
+  const classRegex = /^[ \t]*class\s+(\w+)(?:\(([^)]*)\))?:/gm;
   for (const match of matchAll(classRegex, content)) {
     const name = getCapture(match, 1);
     const bases = getCapture(match, 2);
     const startLine = getLineNumber(content, match.index);
 
     symbols.push(createSymbol(name, 'class', startLine, filePath, {
+      endLine: findIndentEnd(lines, startLine),
       isExported: !name.startsWith('_'),
       signature: bases ? `(${bases})` : undefined
     }));
   }
 
-  return { symbols, imports };
+  // Parse assignments: module-level variables and class attributes (`name = ...`, `name: int`)
+  const masked = maskCommentsAndStrings(content, 'python');
+  const assignmentRegex = /^([ \t]*)([A-Za-z_]\w*)[ \t]*(?::[ \t]*([^=\n]+?))?[ \t]*(?:=(?!=)|$)/gm;
+  const assignments: SymbolInfo[] = [];
+  const assignmentIndents = new Map<SymbolInfo, number>();
+  for (const match of matchAll(assignmentRegex, masked)) {
+    const indent = getCapture(match, 1);
+    const name = getCapture(match, 2);
+    const annotation = getCapture(match, 3).trim();
+    if (STATEMENT_KEYWORDS.has(name)) {
+      continue;
+    }
+
+    const startLine = getLineNumber(masked, match.index);
+    const type = indent ? 'field' : /^[A-Z][A-Z0-9_]*$/.test(name) ? 'const' : 'variable';
+    const symbol = createSymbol(name, type, startLine, filePath, {
+      isExported: !name.startsWith('_'),
+      signature: annotation || undefined
+    });
+    assignments.push(symbol);
+    assignmentIndents.set(symbol, indent.length);
+  }
+
+  assignParents([...symbols, ...assignments]);
+
+  // Class attributes sit directly in a class body; anything deeper is a local or a statement
+  const maskedLines = masked.split('\n');
+  const bodyIndents = new Map<string, number>();
+  for (const symbol of symbols) {
+    if (symbol.type === 'class') {
+      const bodyLine = maskedLines.slice(symbol.startLine, symbol.endLine).find((line) => line.trim() !== '');
+      bodyIndents.set(symbol.qualifiedName ?? symbol.name, bodyLine ? indentOf(bodyLine) : -1);
+    }
+  }
+
+  const declared = new Set<string>();
+  for (const symbol of assignments) {
+    const key = symbol.qualifiedName ?? symbol.name;
+    const isClassAttribute = symbol.parent !== undefined && bodyIndents.get(symbol.parent) === assignmentIndents.get(symbol);
+    // Reassignments don't declare anything new
+    if ((symbol.type !== 'field' || isClassAttribute) && !declared.has(key)) {
+      declared.add(key);
+      symbols.push(symbol);
+    }
+  }
+
+  // `import os.path` binds `os`; parenthesized import lists leave stray parens
+  const importedNames = imports.flatMap((imp) =>
+    imp.imported.map((name) => name.replace(/[()]/g, '').trim().split('.')[0])
+  ).filter(Boolean);
+  const references = extractPythonReferences(content, lines, symbols, importedNames);
+
+  return { symbols, imports, references };
 };
 
 export default parsePython;
@@ -0,0 +1,172 @@
+/**
+ * Reference extraction shared by the TypeScript/JavaScript and Python parsers
+ * Finds call sites and uses of known names, and attributes each to the innermost
+ * function or class that contains it.
+ */
+
+import { findBraceEnd, findIndentEnd, getLineOffsets, lineAt, maskCommentsAndStrings } from './scopes.js';
+import { matchAll } from './types.js';
+
+import type { LineRange } from './types.js';
+import type { SymbolInfo, SymbolReference } from '../../types.js';
+
+const JS_KEYWORDS = new Set([
+  'if', 'for', 'while', 'switch', 'catch', 'function', 'return', 'typeof', 'void', 'delete',
+  'await', 'yield', 'new', 'super', 'import', 'export', 'in', 'of', 'instanceof', 'do', 'else',
+  'case', 'throw', 'class', 'extends', 'const', 'let', 'var', 'this', 'async', 'as', 'from'
+]);
+
+const PYTHON_KEYWORDS = new Set([
+  'if', 'elif', 'for', 'while', 'with', 'except', 'def', 'class', 'return', 'lambda', 'not',
+  'and', 'or', 'in', 'is', 'assert', 'yield', 'await', 'async', 'del', 'raise',
+  'import', 'from', 'as', 'global', 'nonlocal', 'pass', 'self', 'cls', 'super'
+]);
+
+/**
+ * Line the declaration itself is on
+ * A decorated Python function's symbol starts at its first decorator.
+ */
+function findDeclarationLine(lines: string[], symbol: SymbolInfo): number {
+  const namePattern = new RegExp(`\\b${symbol.name.replace(/\$/g, '\\$')}\\b`);
+  for (let line = symbol.startLine; line <= Math.min(lines.length, symbol.startLine + 10); line++) {
+    if (namePattern.test(lines[line - 1])) {
+      return line;
+    }
+  }
+  return symbol.startLine;
+}
+
+/**
+ * Innermost range containing a line; ranges are sorted by start line so the last match wins
+ */
+function findEnclosing(ranges: LineRange[], line: number): string | undefined {
+  let enclosing: LineRange | undefined;
+  for (const range of ranges) {
+    if (range.startLine > line) {
+      break;
+    }
+    if (line <= range.endLine && (!enclosing || range.startLine >= enclosing.startLine)) {
+      enclosing = range;
+    }
+  }
+  return enclosing?.name;
+}
+
+function extractReferences(
+  masked: string,
+  lines: string[],
+  symbols: SymbolInfo[],
+  importedNames: string[],
+  keywords: Set<string>,
+  getEndLine: (startLine: number) => number
+): SymbolReference[] {
+  const lineOffsets = getLineOffsets(masked);
+  const declared = symbols.map((symbol) => ({ symbol, line: findDeclarationLine(lines, symbol) }));
+
+  const ranges: LineRange[] = declared
+    .filter(({ symbol }) => symbol.type === 'function' || symbol.type === 'method' || symbol.type === 'class')
+    .map(({ symbol, line }) => ({
+      name: symbol.name,
+      startLine: line,
+      // Parsers that know the exact range report it; otherwise find the end of the body
+      endLine: symbol.endLine > symbol.startLine ? symbol.endLine : getEndLine(line)
+    }))
+    .sort((a, b) => a.startLine - b.startLine);
+
+  // Declarations look like calls (`function foo(`, `foo() {`), so skip a symbol's own name on its own line
+  const declarations = new Set(declared.map(({ symbol, line }) => `${symbol.name}:${line}`));
+  // Properties and fields are only ever read through a member access, which isn't tracked anyway
+  const tracked = new Set([
+    ...importedNames,
+    ...symbols.filter((symbol) => symbol.type !== 'property' && symbol.type !== 'field').map((symbol) => symbol.name)
+  ]);
+
+  const references: SymbolReference[] = [];
+  const seen = new Set<string>();
+
+  // Whole identifiers only, not the tail of a number literal like 0x1F
+  const identifierRegex = /(?<![\w$])[A-Za-z_$][\w$]*/g;
+  for (const match of matchAll(identifierRegex, masked)) {
+    const name = match[0];
+    const start = match.index;
+    const end = start + name.length;
+
+    if (keywords.has(name)) {
+      continue;
+    }
+
+    const rest = masked.slice(end, end + 200);
+    const isCall = /^\s*(?:<[^<>()]*>)?\s*\(/.test(rest);
+    const isMember = /\.\s*$/.test(masked.slice(Math.max(0, start - 20), start));
+
+    // Member accesses are only tracked as calls (`this.save()`, `index.symbols.get()`)
+    if (!isCall && (isMember || !tracked.has(name))) {
+      continue;
+    }
+
+    const line = lineAt(lineOffsets, start);
+    if (declarations.has(`${name}:${line}`)) {
+      continue;
+    }
+
+    // Definitions introduced by a keyword (`def foo(`, `function foo(`, `class Foo(`)
+    const before = masked.slice(Math.max(0, start - 12), start);
+    if (/\b(?:def|function|class)\s+$/.test(before)) {
+      continue;
+    }
+
+    const kind = isCall ? 'call' : 'reference';
+    const enclosing = findEnclosing(ranges, line);
+    const key = `${name}:${kind}:${line}:${enclosing ?? ''}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    references.push(enclosing ? { name, kind, line, enclosing } : { name, kind, line });
+  }
+
+  return references;
+}
+
+/**
+ * Extract references from a TypeScript/JavaScript file
+ * Import and re-export statements are skipped; the names they bring in are tracked as
+ * references wherever they are used.
+ */
+export function extractJavaScriptReferences(
+  content: string,
+  symbols: SymbolInfo[],
+  importedNames: string[]
+): SymbolReference[] {
+  let masked = maskCommentsAndStrings(content, 'c');
+  masked = masked.replace(
+    /^\s*(?:import\s|export\s+(?:type\s+)?[*{])[^;]*?\bfrom\s*['"][^'"]*['"]|^\s*import\s*['"][^'"]*['"]/gm,
+    (statement) => statement.replace(/[^\n]/g, ' ')
+  );
+
+  const lineOffsets = getLineOffsets(masked);
+  return extractReferences(masked, content.split('\n'), symbols, importedNames, JS_KEYWORDS, (startLine) =>
+    findBraceEnd(masked, lineOffsets, startLine)
+  );
+}
+
+/**
+ * Extract references from a Python file
+ */
+export function extractPythonReferences(
+  content: string,
+  lines: string[],
+  symbols: SymbolInfo[],
+  importedNames: string[]
+): SymbolReference[] {
+  let masked = maskCommentsAndStrings(content, 'python');
+  masked = masked.replace(
+    /^[ \t]*(?:from\s+[\w.]+\s+)?import\s+(?:\([^)]*\)|.*)$/gm,
+    (statement) => statement.replace(/[^\n]/g, ' ')
+  );
+
+  return extractReferences(masked, lines, symbols, importedNames, PYTHON_KEYWORDS, (startLine) =>
+    findIndentEnd(lines, startLine)
+  );
+}
@@ -1,15 +1,21 @@
 /**
  * Parse Rust files
- * Extracts: functions, structs, enums, traits, impl blocks, constants
+ * Extracts: functions, methods (nested under the type their impl block or trait is for),
+ * structs and their fields, enums, traits, modules, constants and statics
  */
 
+import { assignParents, findBraceEnd, getLineOffsets, maskCommentsAndStrings } from './scopes.js';
 import { matchAll, getLineNumber, getCapture, createSymbol, createImport } from './types.js';
 
-import type { Parser, SymbolInfo, Import } from './types.js';
+import type { LineRange, Parser, SymbolInfo, Import } from './types.js';
 
 const parseRust : Parser = (filePath, content, _lines) => {
   const symbols: SymbolInfo[] = [];
   const imports: Import[] = [];
+  const masked = maskCommentsAndStrings(content, 'rust');
+  const lineOffsets = getLineOffsets(masked);
+  const maskedLines = masked.split('\n');
+  const endOf = (startLine: number): number => findBraceEnd(masked, lineOffsets, startLine);
 
   // Parse use statements
   const importRegex = /^\s*(?:pub\s+)?use\s+([\w:]+)(?:\s*::\s*\{([^}]+)\})?;/gm;
@@ -26,68 +32,107 @@ const parseRust : Parser = (filePath, content, _lines) => {
   }
 
   // Parse functions
-  const functionRegex = /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+(?:"[^"]*"\s+)?)?fn\s+(\w+)(?:<[^>]*>)?\s*\(([^)]*)\)/gm;
-  for (const match of matchAll(functionRegex, content)) {
+  const functionRegex = /^[ \t]*(?:pub(?:\([^)]*\))?\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+(?:"[^"]*"\s+)?)?fn\s+(\w+)(?:<[^>]*>)?\s*\(([^)]*)\)/gm;
+  for (const match of matchAll(functionRegex, masked)) {
     const name = getCapture(match, 1);
     const params = getCapture(match, 2);
-    const startLine = getLineNumber(content, match.index);
+    const startLine = getLineNumber(masked, match.index);
     const isExported = match[0].includes('pub');
 
     symbols.push(createSymbol(name, 'function', startLine, filePath, {
+      endLine: endOf(startLine),
       isExported,
       signature: `(${params})`
     }));
   }
 
-  // Parse structs
-  const structRegex = /^\s*(?:pub(?:\([^)]*\))?\s+)?struct\s+(\w+)(?:<[^>]*>)?\s*[{;]/gm;
-  for (const match of matchAll(structRegex, content)) {
+  // Parse structs and their named fields
+  const structRegex = /^[ \t]*(?:pub(?:\([^)]*\))?\s+)?struct\s+(\w+)(?:<[^>]*>)?\s*[{;(]/gm;
+  for (const match of matchAll(structRegex, masked)) {
     const name = getCapture(match, 1);
-    const startLine = getLineNumber(content, match.index);
+    const startLine = getLineNumber(masked, match.index);
     const isExported = match[0].includes('pub');
+    const endLine = match[0].endsWith('{') ? endOf(startLine) : startLine;
 
     symbols.push(createSymbol(name, 'type', startLine, filePath, {
+      endLine,
       isExported
     }));
+
+    for (let line = startLine + 1; line < endLine; line++) {
+      const field = /^\s*(pub(?:\([^)]*\))?\s+)?(\w+)\s*:\s*(.+?),?\s*$/.exec(maskedLines[line - 1]);
+      if (field) {
+        symbols.push(createSymbol(getCapture(field, 2), 'field', line, filePath, {
+          isExported: Boolean(field[1]),
+          signature: getCapture(field, 3)
+        }));
+      }
+    }
   }
 
   // Parse enums
-  const enumRegex = /^\s*(?:pub(?:\([^)]*\))?\s+)?enum\s+(\w+)(?:<[^>]*>)?\s*\{/gm;
-  for (const match of matchAll(enumRegex, content)) {
+  const enumRegex = /^[ \t]*(?:pub(?:\([^)]*\))?\s+)?enum\s+(\w+)(?:<[^>]*>)?\s*\{/gm;
+  for (const match of matchAll(enumRegex, masked)) {
     const name = getCapture(match, 1);
-    const startLine = getLineNumber(content, match.index);
+    const startLine = getLineNumber(masked, match.index);
     const isExported = match[0].includes('pub');
 
     symbols.push(createSymbol(name, 'enum', startLine, filePath, {
+      endLine: endOf(startLine),
       isExported
     }));
   }
 
   // Parse traits
-  const traitRegex = /^\s*(?:pub(?:\([^)]*\))?\s+)?trait\s+(\w+)(?:<[^>]*>)?\s*\{/gm;
-  for (const match of matchAll(traitRegex, content)) {
+  const traitRegex = /^[ \t]*(?:pub(?:\([^)]*\))?\s+)?(?:unsafe\s+)?trait\s+(\w+)(?:<[^>]*>)?[^{;]*\{/gm;
+  for (const match of matchAll(traitRegex, masked)) {
     const name = getCapture(match, 1);
-    const startLine = getLineNumber(content, match.index);
+    const startLine = getLineNumber(masked, match.index);
     const isExported = match[0].includes('pub');
 
     symbols.push(createSymbol(name, 'interface', startLine, filePath, {
+      endLine: endOf(startLine),
       isExported
     }));
   }
 
-  // Parse constants
-  const constRegex = /^\s*(?:pub(?:\([^)]*\))?\s+)?const\s+(\w+)\s*:/gm;
-  for (const match of matchAll(constRegex, content)) {
+  // Parse modules, inline (`mod tests { ... }`) or in their own file (`mod config;`)
+  const moduleRegex = /^[ \t]*(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+)\s*([{;])/gm;
+  for (const match of matchAll(moduleRegex, masked)) {
     const name = getCapture(match, 1);
-    const startLine = getLineNumber(content, match.index);
+    const startLine = getLineNumber(masked, match.index);
     const isExported = match[0].includes('pub');
 
-    symbols.push(createSymbol(name, 'const', startLine, filePath, {
+    symbols.push(createSymbol(name, 'module', startLine, filePath, {
+      endLine: getCapture(match, 2) === '{' ? endOf(startLine) : startLine,
       isExported
     }));
   }
 
-  return { symbols, imports };
+  // Parse constants and statics
+  const constRegex = /^[ \t]*(?:pub(?:\([^)]*\))?\s+)?(const|static)\s+(?:mut\s+)?(\w+)\s*:\s*([^=;]+)/gm;
+  for (const match of matchAll(constRegex, masked)) {
+    const name = getCapture(match, 2);
+    const startLine = getLineNumber(masked, match.index);
+    const isExported = match[0].includes('pub');
+
+    symbols.push(createSymbol(name, getCapture(match, 1) === 'const' ? 'const' : 'variable', startLine, filePath, {
+      isExported,
+      signature: getCapture(match, 3).trim()
+    }));
+  }
+
+  // impl blocks hold methods for the type they implement: `impl<T> Display for Wrapper<T> {`
+  const implRegex = /^[ \t]*(?:unsafe\s+)?impl\b(?:<[^{]*?>)?\s+(?:[\w:]+(?:<[^{]*?>)?\s+for\s+)?(?:[\w]+::)*(\w+)[^{;]*\{/gm;
+  const implBlocks: LineRange[] = [];
+  for (const match of matchAll(implRegex, masked)) {
+    const startLine = getLineNumber(masked, match.index);
+    implBlocks.push({ name: getCapture(match, 1), startLine, endLine: endOf(startLine) });
+  }
+
+  assignParents(symbols, implBlocks);
+
+  return { symbols: symbols.sort((a, b) => a.startLine - b.startLine), imports };
 };
 
 export default parseRust;
@@ -0,0 +1,244 @@
+/**
+ * Block structure helpers shared by the regex parsers
+ * Masks comments and strings, finds where brace- and indentation-delimited blocks end,
+ * and nests symbols under the classes, namespaces and modules that contain them.
+ */
+
+import { setParent } from './types.js';
+
+import type { LineRange, SymbolInfo } from './types.js';
+import type { SymbolType } from '../../types.js';
+
+type CommentStyle = 'c' | 'rust' | 'python';
+
+/** Symbols whose functions are methods */
+const TYPE_CONTAINERS = new Set<SymbolType>(['class', 'interface', 'type', 'enum']);
+
+/** Symbols that qualify the names declared in them without changing their kind */
+const NAMESPACE_CONTAINERS = new Set<SymbolType>(['namespace', 'module']);
+
+/** Symbols whose bodies are local scopes: nothing declared in them is a member */
+const LOCAL_SCOPES = new Set<SymbolType>(['function', 'method', 'property']);
+
+interface Container extends LineRange {
+  kind: 'type' | 'namespace' | 'local';
+  symbol?: SymbolInfo;
+}
+
+/**
+ * Blank out comments and string literals, keeping newlines so offsets and line numbers still
+ * match the original content
+ * Rust lifetimes (`'a`) are not char literals, so a `'` only opens one when it closes right after.
+ */
+export function maskCommentsAndStrings(content: string, style: CommentStyle): string {
+  const out = content.split('');
+  const blank = (from: number, to: number): void => {
+    for (let i = from; i < to && i < out.length; i++) {
+      if (out[i] !== '\n') {
+        out[i] = ' ';
+      }
+    }
+  };
+  const cComments = style !== 'python';
+
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i];
+    const next = content[i + 1];
+
+    if (cComments && ch === '/' && next === '/') {
+      const end = content.indexOf('\n', i);
+      const stop = end === -1 ? content.length : end;
+      blank(i, stop);
+      i = stop;
+    } else if (cComments && ch === '/' && next === '*') {
+      const end = content.indexOf('*/', i + 2);
+      const stop = end === -1 ? content.length : end + 2;
+      blank(i, stop);
+      i = stop;
+    } else if (style === 'python' && ch === '#') {
+      const end = content.indexOf('\n', i);
+      const stop = end === -1 ? content.length : end;
+      blank(i, stop);
+      i = stop;
+    } else if (style === 'python' && (content.startsWith('"""', i) || content.startsWith("'''", i))) {
+      const quote = content.slice(i, i + 3);
+      const end = content.indexOf(quote, i + 3);
+      const stop = end === -1 ? content.length : end + 3;
+      blank(i, stop);
+      i = stop;
+    } else if (style === 'c' && ch === '/' && /(?:^|[(,=:[!&|?{};]|\breturn)\s*$/.test(content.slice(Math.max(0, i - 20), i))) {
+      // Regex literal: a slash where an expression starts, so `[{]` in a pattern can't unbalance braces
+      let j = i + 1;
+      let inClass = false;
+      while (j < content.length && content[j] !== '\n' && (inClass || content[j] !== '/')) {
+        if (content[j] === '[') {
+          inClass = true;
+        } else if (content[j] === ']') {
+          inClass = false;
+        }
+        j += content[j] === '\\' ? 2 : 1;
+      }
+      blank(i + 1, j);
+      i = j + 1;
+    } else if (style === 'rust' && ch === "'") {
+      const charLiteral = /^'(?:\\[^'\n]{1,10}|[^\\'\n])'/.exec(content.slice(i, i + 14));
+      if (charLiteral) {
+        blank(i + 1, i + charLiteral[0].length - 1);
+        i += charLiteral[0].length;
+      } else {
+        i++;
+      }
+    } else if (ch === '"' || ch === "'" || (style === 'c' && ch === '`')) {
+      let j = i + 1;
+      while (j < content.length && content[j] !== ch) {
+        // Only template literals may span lines; an unterminated quote ends at the newline
+        if (content[j] === '\n' && ch !== '`') {
+          break;
+        }
+        j += content[j] === '\\' ? 2 : 1;
+      }
+      const stop = Math.min(j + 1, content.length);
+      // Keep the quotes so `import x from './y'` style matches still see a string boundary
+      blank(i + 1, stop - 1);
+      i = stop;
+    } else {
+      i++;
+    }
+  }
+
+  return out.join('');
+}
+
+export function getLineOffsets(content: string): number[] {
+  const offsets = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') {
+      offsets.push(i + 1);
+    }
+  }
+  return offsets;
+}
+
+/**
+ * 1-based line containing an offset
+ */
+export function lineAt(lineOffsets: number[], offset: number): number {
+  let low = 0;
+  let high = lineOffsets.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineOffsets[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low + 1;
+}
+
+/**
+ * Find the line a brace-delimited body starting at or after a line ends on
+ * Bodies without braces (e.g. expression-bodied arrow functions, abstract methods) end on
+ * their first line.
+ */
+export function findBraceEnd(masked: string, lineOffsets: number[], startLine: number): number {
+  let parenDepth = 0;
+  let i = lineOffsets[startLine - 1] ?? 0;
+
+  for (; i < masked.length; i++) {
+    const ch = masked[i];
+    if (ch === '(') {
+      parenDepth++;
+    } else if (ch === ')') {
+      parenDepth--;
+    } else if (ch === ';' && parenDepth <= 0) {
+      return startLine;
+    } else if (ch === '{' && parenDepth <= 0) {
+      break;
+    }
+  }
+
+  let depth = 0;
+  for (; i < masked.length; i++) {
+    if (masked[i] === '{') {
+      depth++;
+    } else if (masked[i] === '}') {
+      depth--;
+      if (depth === 0) {
+        return lineAt(lineOffsets, i);
+      }
+    }
+  }
+
+  return startLine;
+}
+
+export function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Find the last line of an indentation-delimited Python block
+ */
+export function findIndentEnd(lines: string[], startLine: number): number {
+  const baseIndent = indentOf(lines[startLine - 1] ?? '');
+  let endLine = startLine;
+
+  for (let i = startLine; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trim() === '') {
+      continue;
+    }
+    if (indentOf(line) <= baseIndent) {
+      break;
+    }
+    endLine = i + 1;
+  }
+
+  return endLine;
+}
+
+function contains(outer: LineRange, inner: LineRange): boolean {
+  return inner.endLine <= outer.endLine &&
+    (outer.startLine < inner.startLine || (outer.startLine === inner.startLine && outer.endLine > inner.endLine));
+}
+
+/**
+ * Nest each symbol under the innermost class, interface, namespace or module whose range
+ * holds it; functions nested in a type become methods
+ * Symbols declared inside a function body are local and keep no parent. `memberScopes` are
+ * type bodies that aren't symbols themselves, like Rust `impl` blocks.
+ */
+export function assignParents(symbols: SymbolInfo[], memberScopes: LineRange[] = []): void {
+  const containers: Container[] = [
+    ...memberScopes.map((scope): Container => ({ ...scope, kind: 'type' })),
+    ...symbols.flatMap((symbol): Container[] => {
+      const kind = TYPE_CONTAINERS.has(symbol.type)
+        ? 'type'
+        : NAMESPACE_CONTAINERS.has(symbol.type) ? 'namespace' : LOCAL_SCOPES.has(symbol.type) ? 'local' : null;
+      return kind ? [{ name: symbol.name, startLine: symbol.startLine, endLine: symbol.endLine, kind, symbol }] : [];
+    })
+  ];
+
+  // Outer symbols first, so a container's qualified name is known before its members are named
+  const ordered = [...symbols].sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine);
+  for (const symbol of ordered) {
+    let innermost: Container | undefined;
+    for (const container of containers) {
+      if (container.symbol !== symbol && contains(container, symbol) && (!innermost || contains(innermost, container))) {
+        innermost = container;
+      }
+    }
+
+    if (!innermost || innermost.kind === 'local') {
+      continue;
+    }
+
+    const parent = innermost.symbol?.qualifiedName ?? innermost.name;
+    setParent(symbol, parent);
+    if (innermost.kind === 'type' && symbol.type === 'function') {
+      symbol.type = 'method';
+    }
+  }
+}
@@ -13,6 +13,15 @@ export type Import = ImportType;
  */
 export type Parser = (filePath: string, content: string, lines: string[]) => ParseResult;
 
+/**
+ * A named span of lines, e.g. a function body or a Rust `impl` block
+ */
+export interface LineRange {
+  name: string;
+  startLine: number;
+  endLine: number;
+}
+
 /**
  * Type-safe regex matching utilities
  */
@@ -43,6 +52,7 @@ export function getCapture(match: RegExpExecArray, index: number, defaultValue =
 
 /**
  * Create a symbol with proper typing
+ * A parent (the qualified name of the containing class, namespace...) also sets the qualified name.
  */
 export function createSymbol(
   name: string,
@@ -53,9 +63,10 @@ export function createSymbol(
     endLine?: number;
     isExported?: boolean;
     signature?: string;
+    parent?: string;
   } = {}
 ): SymbolInfo {
-  return {
+  const symbol: SymbolInfo = {
     name,
     type,
     startLine,
@@ -64,6 +75,18 @@ export function createSymbol(
     signature: options.signature,
     file
   };
+  if (options.parent) {
+    setParent(symbol, options.parent);
+  }
+  return symbol;
+}
+
+/**
+ * Nest a symbol under its containing class, interface, namespace or module
+ */
+export function setParent(symbol: SymbolInfo, parent: string): void {
+  symbol.parent = parent;
+  symbol.qualifiedName = `${parent}.${symbol.name}`;
 }
 
 /**
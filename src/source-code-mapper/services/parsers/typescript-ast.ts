@@ -0,0 +1,514 @@
+/**
+ * Parse JavaScript/TypeScript files with the TypeScript compiler API
+ * Extracts: functions (with overloads), classes with their methods and properties, interfaces
+ * with their members, types, enums, namespaces and modules, exported variables, imports
+ * (including type-only and require) and re-exports, with exact line ranges, full signatures,
+ * JSDoc summaries and the qualified names of nested symbols
+ */
+
+import { extname } from 'path';
+
+import ts from 'typescript';
+
+import { extractJavaScriptReferences } from './references.js';
+import { createImport, createSymbol } from './types.js';
+
+import type { Parser, SymbolInfo, Import } from './types.js';
+import type { SymbolType } from '../../types.js';
+
+interface WalkContext {
+  /** Directly inside a file or namespace body, where `export` makes a declaration public */
+  moduleScope: boolean;
+  /** Qualified name of the enclosing namespace or module */
+  parent?: string;
+}
+
+function getScriptKind(filePath: string): ts.ScriptKind {
+  switch (extname(filePath).toLowerCase()) {
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    case '.jsx':
+      return ts.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node)?.some((modifier) => modifier.kind === kind) ?? false);
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * First paragraph of the node's JSDoc comment
+ */
+function getDocSummary(node: ts.Node): string | undefined {
+  const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+  const text = docs.length > 0 ? ts.getTextOfJSDocComment(docs[docs.length - 1].comment) : undefined;
+  if (!text) {
+    return undefined;
+  }
+  return collapseWhitespace(text.split(/\n\s*\n/)[0]);
+}
+
+/**
+ * `<T>(a: string, b?: number): Promise<void>` for anything with parameters
+ */
+function getCallSignature(node: ts.SignatureDeclaration, sourceFile: ts.SourceFile): string {
+  const typeParameters = node.typeParameters
+    ? `<${node.typeParameters.map((p) => p.getText(sourceFile)).join(', ')}>`
+    : '';
+  const parameters = node.parameters.map((p) => p.getText(sourceFile)).join(', ');
+  const returnType = node.type ? `: ${node.type.getText(sourceFile)}` : '';
+  return collapseWhitespace(`${typeParameters}(${parameters})${returnType}`);
+}
+
+function getTypeParameters(
+  node: ts.ClassLikeDeclaration | ts.InterfaceDeclaration | ts.TypeAliasDeclaration,
+  sourceFile: ts.SourceFile
+): string {
+  return node.typeParameters ? `<${node.typeParameters.map((p) => p.getText(sourceFile)).join(', ')}>` : '';
+}
+
+function getHeritage(node: ts.ClassLikeDeclaration | ts.InterfaceDeclaration, sourceFile: ts.SourceFile): string {
+  return (node.heritageClauses ?? []).map((clause) => clause.getText(sourceFile)).join(' ');
+}
+
+function getModuleName(specifier: ts.Expression): string | null {
+  return ts.isStringLiteralLike(specifier) ? specifier.text : null;
+}
+
+function getMemberName(member: ts.ClassElement | ts.TypeElement, sourceFile: ts.SourceFile): string | null {
+  if (!member.name) {
+    return null;
+  }
+  return ts.isIdentifier(member.name) || ts.isPrivateIdentifier(member.name) || ts.isStringLiteral(member.name)
+    ? member.name.text
+    : member.name.getText(sourceFile);
+}
+
+function qualify(name: string, parent: string | undefined): string {
+  return parent ? `${parent}.${name}` : name;
+}
+
+function isFunctionInitializer(node: ts.Expression | undefined): node is ts.ArrowFunction | ts.FunctionExpression {
+  return node !== undefined && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+}
+
+function collectImports(sourceFile: ts.SourceFile): Import[] {
+  const imports: Import[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node)) {
+      const source = getModuleName(node.moduleSpecifier);
+      if (source === null) {
+        return;
+      }
+
+      const clause = node.importClause;
+      const imported: string[] = [];
+      let typeOnly = clause?.isTypeOnly ?? false;
+
+      if (clause?.name) {
+        imported.push(clause.name.text);
+      }
+      const bindings = clause?.namedBindings;
+      if (bindings && ts.isNamespaceImport(bindings)) {
+        imported.push(`* as ${bindings.name.text}`);
+      } else if (bindings) {
+        imported.push(...bindings.elements.map((element) => (element.propertyName ?? element.name).text));
+        // `import { type A, type B }` is type-only too
+        typeOnly ||= !clause?.name && bindings.elements.length > 0 && bindings.elements.every((element) => element.isTypeOnly);
+      }
+
+      const imp = createImport(source, imported);
+      if (typeOnly) {
+        imp.typeOnly = true;
+      }
+      imports.push(imp);
+      return;
+    }
+
+    if (ts.isExportDeclaration(node) && node.moduleSpecifier) {
+      const source = getModuleName(node.moduleSpecifier);
+      if (source === null) {
+        return;
+      }
+
+      const clause = node.exportClause;
+      let imported: string[];
+      if (!clause) {
+        imported = ['*'];
+      } else if (ts.isNamespaceExport(clause)) {
+        imported = [`* as ${clause.name.text}`];
+      } else {
+        imported = clause.elements.map((element) => (element.propertyName ?? element.name).text);
+      }
+
+      const imp = createImport(source, imported);
+      imp.reExport = true;
+      if (node.isTypeOnly) {
+        imp.typeOnly = true;
+      }
+      imports.push(imp);
+      return;
+    }
+
+    // import fs = require('fs')
+    if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+      const source = getModuleName(node.moduleReference.expression);
+      if (source !== null) {
+        imports.push(createImport(source, [node.name.text]));
+      }
+      return;
+    }
+
+    // const x = require('x') / const { a, b } = require('x')
+    if (
+      ts.isVariableDeclaration(node) &&
+      node.initializer &&
+      ts.isCallExpression(node.initializer) &&
+      ts.isIdentifier(node.initializer.expression) &&
+      node.initializer.expression.text === 'require' &&
+      node.initializer.arguments.length === 1
+    ) {
+      const source = getModuleName(node.initializer.arguments[0]);
+      if (source !== null) {
+        const imported = ts.isObjectBindingPattern(node.name)
+          ? node.name.elements.map((element) =>
+            element.propertyName && ts.isIdentifier(element.propertyName)
+              ? element.propertyName.text
+              : element.name.getText(sourceFile))
+          : [node.name.getText(sourceFile)];
+        imports.push(createImport(source, imported));
+      }
+    }
+
+    // import('./page') loads the whole module on demand
+    if (
+      ts.isCallExpression(node) &&
+      node.expression.kind === ts.SyntaxKind.ImportKeyword &&
+      node.arguments.length > 0
+    ) {
+      const source = getModuleName(node.arguments[0]);
+      if (source !== null) {
+        const imp = createImport(source, []);
+        imp.dynamic = true;
+        imports.push(imp);
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return imports;
+}
+
+function collectSymbols(sourceFile: ts.SourceFile, filePath: string): SymbolInfo[] {
+  const symbols: SymbolInfo[] = [];
+  const localExports = new Set<string>();
+
+  const lineOf = (position: number): number => sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+
+  const add = (
+    node: ts.Node,
+    name: string,
+    type: SymbolType,
+    options: { isExported: boolean; signature?: string; docNode?: ts.Node; start?: number; parent?: string }
+  ): SymbolInfo => {
+    const symbol = createSymbol(name, type, lineOf(options.start ?? node.getStart(sourceFile)), filePath, {
+      endLine: lineOf(node.getEnd()),
+      isExported: options.isExported,
+      signature: options.signature === '' ? undefined : options.signature,
+      parent: options.parent
+    });
+    const doc = getDocSummary(options.docNode ?? node);
+    if (doc) {
+      symbol.doc = doc;
+    }
+    symbols.push(symbol);
+    return symbol;
+  };
+
+  const isExportedDeclaration = (node: ts.Node, context: WalkContext): boolean =>
+    context.moduleScope && hasModifier(node, ts.SyntaxKind.ExportKeyword);
+
+  const visitClassMembers = (node: ts.ClassLikeDeclaration, parent: string): void => {
+    const accessors = new Set<string>();
+
+    for (const member of node.members) {
+      const name = getMemberName(member, sourceFile);
+      const isPrivate = hasModifier(member, ts.SyntaxKind.PrivateKeyword) ||
+        (member.name !== undefined && ts.isPrivateIdentifier(member.name));
+
+      if (name && ts.isMethodDeclaration(member)) {
+        // Overload signatures are folded into the implementation below
+        if (!member.body && !hasModifier(member, ts.SyntaxKind.AbstractKeyword)) {
+          continue;
+        }
+        add(member, name, 'method', { isExported: !isPrivate, signature: getCallSignature(member, sourceFile), parent });
+      } else if (name && (ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member))) {
+        // A get/set pair is one property, described by whichever accessor comes first
+        if (!accessors.has(name)) {
+          accessors.add(name);
+          const type = ts.isGetAccessorDeclaration(member) ? member.type : member.parameters[0]?.type;
+          add(member, name, 'property', { isExported: !isPrivate, signature: type?.getText(sourceFile), parent });
+        }
+      } else if (name && ts.isPropertyDeclaration(member)) {
+        if (isFunctionInitializer(member.initializer)) {
+          add(member, name, 'method', { isExported: !isPrivate, signature: getCallSignature(member.initializer, sourceFile), parent });
+        } else {
+          add(member, name, 'property', { isExported: !isPrivate, signature: member.type?.getText(sourceFile), parent });
+        }
+      } else if (ts.isConstructorDeclaration(member)) {
+        // constructor(private readonly store: Store) declares a property too
+        for (const parameter of member.parameters) {
+          if (ts.isParameterPropertyDeclaration(parameter, member) && ts.isIdentifier(parameter.name)) {
+            add(parameter, parameter.name.text, 'property', {
+              isExported: !hasModifier(parameter, ts.SyntaxKind.PrivateKeyword),
+              signature: parameter.type?.getText(sourceFile),
+              parent
+            });
+          }
+        }
+      }
+
+      ts.forEachChild(member, (child) => visit(child, { moduleScope: false }));
+    }
+  };
+
+  /**
+   * Property and method signatures; a property typed as a function is a method
+   */
+  const visitInterfaceMembers = (node: ts.InterfaceDeclaration, parent: string): void => {
+    const seen = new Set<string>();
+
+    for (const member of node.members) {
+      const name = getMemberName(member, sourceFile);
+      // Overloaded method signatures are described by the first one
+      if (!name || seen.has(name) || (!ts.isPropertySignature(member) && !ts.isMethodSignature(member))) {
+        continue;
+      }
+      seen.add(name);
+
+      const signature = ts.isMethodSignature(member) ? member : member.type;
+      if (signature && (ts.isMethodSignature(signature) || ts.isFunctionTypeNode(signature))) {
+        add(member, name, 'method', { isExported: true, signature: getCallSignature(signature, sourceFile), parent });
+      } else {
+        add(member, name, 'property', { isExported: true, signature: member.type?.getText(sourceFile), parent });
+      }
+    }
+  };
+
+  /**
+   * Overloads: one symbol spanning every signature, described by the first one
+   */
+  const addFunction = (node: ts.FunctionDeclaration, context: WalkContext, siblings: readonly ts.Node[]): void => {
+    const name = node.name?.text ?? 'default';
+    const isSameFunction = (sibling: ts.Node): sibling is ts.FunctionDeclaration =>
+      ts.isFunctionDeclaration(sibling) && (sibling.name?.text ?? 'default') === name;
+    const overloads = siblings.filter((sibling): sibling is ts.FunctionDeclaration => isSameFunction(sibling) && !sibling.body);
+
+    // Bodiless signatures are covered by the implementation, or by the first one in declaration files
+    if (!node.body && (siblings.some((sibling) => isSameFunction(sibling) && sibling.body) || (overloads.length > 0 && overloads[0] !== node))) {
+      return;
+    }
+
+    const first = overloads[0] ?? node;
+    const extra = node.body ? overloads.length : overloads.length - 1;
+    const signature = extra > 0
+      ? `${getCallSignature(first, sourceFile)} (+${extra} overload${extra > 1 ? 's' : ''})`
+      : getCallSignature(node, sourceFile);
+
+    add(node, name, 'function', {
+      isExported: isExportedDeclaration(first, context),
+      signature,
+      docNode: first,
+      start: first.getStart(sourceFile),
+      parent: context.parent
+    });
+  };
+
+  const visitStatements = (statements: readonly ts.Statement[], context: WalkContext): void => {
+    for (const statement of statements) {
+      visit(statement, context, statements);
+    }
+  };
+
+  function visit(node: ts.Node, context: WalkContext, siblings: readonly ts.Node[] = []): void {
+    if (ts.isFunctionDeclaration(node)) {
+      addFunction(node, context, siblings);
+      if (node.body) {
+        visitStatements(node.body.statements, { moduleScope: false });
+      }
+      return;
+    }
+
+    if (ts.isClassDeclaration(node)) {
+      const name = node.name?.text ?? 'default';
+      add(node, name, 'class', {
+        isExported: isExportedDeclaration(node, context),
+        signature: collapseWhitespace(`${getTypeParameters(node, sourceFile)} ${getHeritage(node, sourceFile)}`),
+        parent: context.parent
+      });
+      visitClassMembers(node, qualify(name, context.parent));
+      return;
+    }
+
+    if (ts.isInterfaceDeclaration(node)) {
+      add(node, node.name.text, 'interface', {
+        isExported: isExportedDeclaration(node, context),
+        signature: collapseWhitespace(`${getTypeParameters(node, sourceFile)} ${getHeritage(node, sourceFile)}`),
+        parent: context.parent
+      });
+      visitInterfaceMembers(node, qualify(node.name.text, context.parent));
+      return;
+    }
+
+    if (ts.isTypeAliasDeclaration(node)) {
+      add(node, node.name.text, 'type', {
+        isExported: isExportedDeclaration(node, context),
+        signature: getTypeParameters(node, sourceFile),
+        parent: context.parent
+      });
+      return;
+    }
+
+    if (ts.isEnumDeclaration(node)) {
+      add(node, node.name.text, 'enum', { isExported: isExportedDeclaration(node, context), parent: context.parent });
+      return;
+    }
+
+    if (ts.isModuleDeclaration(node)) {
+      // `declare global {}` adds to the global scope rather than declaring anything
+      if (node.flags & ts.NodeFlags.GlobalAugmentation) {
+        if (node.body && ts.isModuleBlock(node.body)) {
+          visitStatements(node.body.statements, { moduleScope: true });
+        }
+        return;
+      }
+
+      // `namespace A.B {}` nests a ModuleDeclaration as the body
+      let body = node.body;
+      let name = node.name.text;
+      while (body && ts.isModuleDeclaration(body)) {
+        name = `${name}.${body.name.text}`;
+        body = body.body;
+      }
+
+      // `declare module 'express' {}` and the legacy `module Foo {}` are modules, not namespaces
+      const type = node.flags & ts.NodeFlags.Namespace ? 'namespace' : 'module';
+      add(node, name, type, { isExported: isExportedDeclaration(node, context), parent: context.parent });
+      if (body && ts.isModuleBlock(body)) {
+        visitStatements(body.statements, { moduleScope: true, parent: qualify(name, context.parent) });
+      }
+      return;
+    }
+
+    if (ts.isVariableStatement(node)) {
+      const isExported = isExportedDeclaration(node, context);
+      const isConst = (node.declarationList.flags & ts.NodeFlags.Const) !== 0;
+      for (const declaration of node.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          const name = declaration.name.text;
+          const docNode = node.declarationList.declarations.length === 1 ? node : declaration;
+
+          if (isFunctionInitializer(declaration.initializer)) {
+            add(declaration, name, 'function', {
+              isExported,
+              signature: getCallSignature(declaration.initializer, sourceFile),
+              docNode,
+              start: node.declarationList.declarations.length === 1 ? node.getStart(sourceFile) : undefined,
+              parent: context.parent
+            });
+          } else if (isExported) {
+            add(declaration, name, isConst ? 'const' : 'variable', {
+              isExported,
+              docNode,
+              start: node.declarationList.declarations.length === 1 ? node.getStart(sourceFile) : undefined,
+              parent: context.parent
+            });
+          }
+        }
+
+        if (declaration.initializer) {
+          visit(declaration.initializer, { moduleScope: false });
+        }
+      }
+      return;
+    }
+
+    // export { a, b as c } marks local declarations as exported
+    if (ts.isExportDeclaration(node) && !node.moduleSpecifier && node.exportClause && ts.isNamedExports(node.exportClause)) {
+      for (const element of node.exportClause.elements) {
+        localExports.add((element.propertyName ?? element.name).text);
+      }
+      return;
+    }
+
+    // export default foo / export = foo
+    if (ts.isExportAssignment(node)) {
+      const expression = node.expression;
+      if (ts.isIdentifier(expression)) {
+        localExports.add(expression.text);
+      } else if (isFunctionInitializer(expression)) {
+        add(node, 'default', 'function', { isExported: true, signature: getCallSignature(expression, sourceFile) });
+      } else if (ts.isClassExpression(expression)) {
+        const name = expression.name?.text ?? 'default';
+        add(node, name, 'class', { isExported: true });
+        visitClassMembers(expression, name);
+        return;
+      }
+      visit(expression, { moduleScope: false });
+      return;
+    }
+
+    // const Store = class { ... } names the class after the variable
+    if (ts.isClassExpression(node)) {
+      const name = node.name?.text ??
+        (ts.isVariableDeclaration(node.parent) && ts.isIdentifier(node.parent.name) ? node.parent.name.text : 'default');
+      visitClassMembers(node, name);
+      return;
+    }
+
+    ts.forEachChild(node, (child) => visit(child, { moduleScope: false }));
+  }
+
+  visitStatements(sourceFile.statements, { moduleScope: true });
+
+  for (const symbol of symbols) {
+    if (!symbol.parent && localExports.has(symbol.name)) {
+      symbol.isExported = true;
+    }
+  }
+
+  return symbols.sort((a, b) => a.startLine - b.startLine);
+}
+
+/**
+ * Throws when the file can't be parsed, so the caller can fall back to the regex parser
+ */
+const parseTypeScriptAst: Parser = (filePath, content, _lines) => {
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, getScriptKind(filePath));
+
+  const symbols = collectSymbols(sourceFile, filePath);
+  const imports = collectImports(sourceFile);
+
+  // Namespace imports are used through their alias (`* as path` -> `path.join()`)
+  const importedNames = imports
+    .filter((imp) => !imp.reExport)
+    .flatMap((imp) => imp.imported.map((name) => name.replace(/^\*\s+as\s+/, '')));
+  const references = extractJavaScriptReferences(content, symbols, importedNames);
+
+  return { symbols, imports, references };
+};
+
+export default parseTypeScriptAst;
@@ -0,0 +1,218 @@
+/**
+ * Query syntax for search_code
+ * Splits `kind:function exported:true path:src/web/** lang:ts name:/^use[A-Z]/ "session"` into
+ * free text and SearchFilters. Has no Node dependencies, so the web editor's search box parses
+ * queries the same way.
+ */
+
+import { SUPPORTED_LANGUAGES, SYMBOL_TYPES } from '../types.js';
+import type { ParsedSearchQuery, SearchFilters, SearchMode, SymbolType } from '../types.js';
+
+interface QueryTerm {
+  /** Known filter key, absent for free text */
+  key?: string;
+  value: string;
+}
+
+interface ScannedText {
+  value: string;
+  /** Position after the text and its closing character */
+  end: number;
+}
+
+const SEARCH_MODES: SearchMode[] = ['exact', 'semantic', 'fuzzy'];
+
+/** Filter keys and the aliases that mean the same */
+const KEY_ALIASES: Record<string, string> = {
+  kind: 'kind',
+  type: 'kind',
+  exported: 'exported',
+  path: 'path',
+  lang: 'lang',
+  language: 'lang',
+  name: 'name',
+  parent: 'parent',
+  in: 'parent',
+  mode: 'mode'
+};
+
+/**
+ * Parse a search_code query; terms with unknown keys (`http://...`) are kept as text
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const errors: string[] = [];
+  const filters: SearchFilters = {};
+  const text: string[] = [];
+  let mode: SearchMode | undefined;
+
+  for (const term of tokenize(query, errors)) {
+    const { key, value } = term;
+    if (key === undefined) {
+      text.push(value);
+      continue;
+    }
+
+    if (value === '') {
+      errors.push(`Missing value for "${key}:"`);
+      continue;
+    }
+
+    switch (key) {
+      case 'kind':
+        for (const kind of splitList(value)) {
+          if (SYMBOL_TYPES.includes(kind as SymbolType)) {
+            filters.type = addUnique(filters.type, kind as SymbolType);
+          } else {
+            errors.push(`Unknown kind "${kind}" (expected one of: ${SYMBOL_TYPES.join(', ')})`);
+          }
+        }
+        break;
+      case 'exported':
+        if (value === 'true' || value === 'false') {
+          filters.exported = value === 'true';
+        } else {
+          errors.push(`Invalid value for "exported:": "${value}" (expected true or false)`);
+        }
+        break;
+      case 'path':
+        filters.path = addUnique(filters.path, value);
+        break;
+      case 'lang':
+        for (const lang of splitList(value)) {
+          const language = resolveLanguage(lang);
+          if (language) {
+            filters.language = addUnique(filters.language, language);
+          } else {
+            errors.push(`Unknown language "${lang}"`);
+          }
+        }
+        break;
+      case 'name': {
+        const pattern = value.startsWith('/') ? value : `^${escapeRegExp(value)}$`;
+        try {
+          compileNamePattern(pattern);
+          filters.name = pattern;
+        } catch (error) {
+          errors.push(`Invalid pattern for "name:": ${error instanceof Error ? error.message : String(error)}`);
+        }
+        break;
+      }
+      case 'parent':
+        filters.parent = value;
+        break;
+      case 'mode':
+        if (SEARCH_MODES.includes(value as SearchMode)) {
+          mode = value as SearchMode;
+        } else {
+          errors.push(`Unknown mode "${value}" (expected one of: ${SEARCH_MODES.join(', ')})`);
+        }
+        break;
+    }
+  }
+
+  return {
+    text: text.join(' '),
+    filters,
+    ...(mode && { mode }),
+    errors
+  };
+}
+
+/**
+ * Compile the `name` filter: a pattern (`^use[A-Z]`) or a pattern in slashes with flags (`/^use/i`)
+ * @throws SyntaxError if the pattern isn't a valid regular expression
+ */
+export function compileNamePattern(pattern: string): RegExp {
+  const slashed = /^\/(.*)\/([a-z]*)$/s.exec(pattern);
+  // Stateful flags would make test() skip matches on reuse
+  return slashed ? new RegExp(slashed[1], slashed[2].replace(/[gy]/g, '')) : new RegExp(pattern);
+}
+
+/**
+ * Split a query into terms; quotes group words (`"token store"`, `path:"my docs/**"`) and a
+ * `name:/.../` pattern runs to its closing slash, spaces included
+ */
+function tokenize(query: string, errors: string[]): QueryTerm[] {
+  const terms: QueryTerm[] = [];
+  let position = 0;
+
+  const readUntil = (closing: string, from: number): ScannedText => {
+    let end = from;
+    while (end < query.length && query[end] !== closing) {
+      end += query[end] === '\\' && closing === '/' ? 2 : 1;
+    }
+    if (end >= query.length) {
+      errors.push(`Missing closing ${closing} in: ${query.slice(from - 1)}`);
+      return { value: query.slice(from), end: query.length };
+    }
+    return { value: query.slice(from, end), end: end + 1 };
+  };
+
+  const readWord = (from: number): ScannedText => {
+    let end = from;
+    while (end < query.length && !/\s/.test(query[end])) {
+      end++;
+    }
+    return { value: query.slice(from, end), end };
+  };
+
+  while (position < query.length) {
+    if (/\s/.test(query[position])) {
+      position++;
+      continue;
+    }
+
+    if (query[position] === '"') {
+      const { value, end } = readUntil('"', position + 1);
+      terms.push({ value });
+      position = end;
+      continue;
+    }
+
+    const keyMatch = /^([a-z]+):/i.exec(query.slice(position));
+    const key = keyMatch ? KEY_ALIASES[keyMatch[1].toLowerCase()] : undefined;
+    if (!keyMatch || key === undefined) {
+      const { value, end } = readWord(position);
+      terms.push({ value });
+      position = end;
+      continue;
+    }
+
+    const valueStart = position + keyMatch[0].length;
+    if (query[valueStart] === '"') {
+      const { value, end } = readUntil('"', valueStart + 1);
+      terms.push({ key, value });
+      position = end;
+    } else if (key === 'name' && query[valueStart] === '/') {
+      const { end } = readUntil('/', valueStart + 1);
+      const flags = readWord(end);
+      terms.push({ key, value: query.slice(valueStart, flags.end) });
+      position = flags.end;
+    } else {
+      const { value, end } = readWord(valueStart);
+      terms.push({ key, value });
+      position = end;
+    }
+  }
+
+  return terms;
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map((item) => item.trim().toLowerCase()).filter(Boolean);
+}
+
+function addUnique<T>(list: T[] | undefined, item: T): T[] {
+  return list?.includes(item) === true ? list : [...(list ?? []), item];
+}
+
+/**
+ * Language name for a name or extension (`ts` is `typescript`), or undefined if unknown
+ */
+export function resolveLanguage(lang: string): string | undefined {
+  return SUPPORTED_LANGUAGES.find((language) => language.name === lang || language.extensions.includes(`.${lang}`))?.name;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
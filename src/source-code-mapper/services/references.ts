@@ -0,0 +1,287 @@
+/**
+ * Reference and call graph queries
+ * Resolves stored reference sites back to definitions through each file's imports,
+ * following re-exports through barrel files
+ */
+
+import { dirname, extname, resolve, sep } from 'path';
+
+import type {
+  CallGraph,
+  CallGraphDirection,
+  CallGraphNode,
+  Index,
+  ReferenceKind,
+  ReferenceLocation,
+  SymbolInfo
+} from '../types.js';
+
+/** Caller node for calls made at the top level of a file rather than inside a function */
+const MODULE_SCOPE = '<module>';
+
+/** Barrel files followed before giving up on a re-export chain */
+const MAX_REEXPORT_DEPTH = 5;
+
+interface Definition {
+  name: string;
+  file: string;
+  line: number;
+}
+
+function stripExtension(file: string): string {
+  const ext = extname(file);
+  return ext ? file.slice(0, -ext.length) : file;
+}
+
+/**
+ * Whether an import source plausibly refers to a file
+ * Relative JavaScript imports are resolved exactly; package specifiers, path aliases and
+ * Python module paths are matched on their trailing path segments.
+ */
+function importPointsTo(source: string, importingFile: string, targetFile: string): boolean {
+  const target = stripExtension(targetFile);
+  const targetModule = target.endsWith(`${sep}index`) || target.endsWith(`${sep}__init__`)
+    ? dirname(target)
+    : target;
+
+  if (source.startsWith('./') || source.startsWith('../')) {
+    const resolved = stripExtension(resolve(dirname(importingFile), source));
+    return resolved === target || resolved === targetModule;
+  }
+
+  // Python relative (`.models`) and absolute (`app.models`) module paths
+  const modulePath = /^[\w.]+$/.test(source) && !source.includes('/')
+    ? source.replace(/^\.+/, '').split('.').join(sep)
+    : stripExtension(source.replace(/^[@~]\//, ''));
+  if (!modulePath) {
+    return false;
+  }
+
+  return targetModule.endsWith(`${sep}${modulePath}`) || target.endsWith(`${sep}${modulePath}`);
+}
+
+/**
+ * Whether importing a name from a source reaches the defining file, directly or through
+ * barrel files that re-export it (`export { name } from`, `export * from`)
+ */
+function importReaches(
+  index: Index,
+  source: string,
+  importingFile: string,
+  name: string,
+  definitionFile: string,
+  depth = 0
+): boolean {
+  if (importPointsTo(source, importingFile, definitionFile)) {
+    return true;
+  }
+  if (depth >= MAX_REEXPORT_DEPTH) {
+    return false;
+  }
+
+  for (const [barrel, barrelImports] of index.imports.entries()) {
+    if (barrel === importingFile || !importPointsTo(source, importingFile, barrel)) {
+      continue;
+    }
+    const reExports = barrelImports.filter((imp) =>
+      imp.reExport && imp.imported.some((imported) => imported === name || imported === '*')
+    );
+    if (reExports.some((imp) => importReaches(index, imp.source, barrel, name, definitionFile, depth + 1))) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Whether code in a file can refer to a symbol defined in another file by name
+ */
+function fileCanSee(index: Index, file: string, name: string, definitionFile: string): boolean {
+  if (file === definitionFile) {
+    return true;
+  }
+
+  const imports = index.imports.get(file) ?? [];
+  return imports.some((imp) =>
+    !imp.reExport &&
+    imp.imported.some((imported) => imported === name || imported.startsWith('*')) &&
+    importReaches(index, imp.source, file, name, definitionFile)
+  );
+}
+
+/**
+ * All definitions of a name, optionally restricted to one file
+ */
+export function findDefinitions(index: Index, name: string, filepath?: string): SymbolInfo[] {
+  const files = filepath ? [filepath] : Array.from(index.symbols.keys());
+  return files.flatMap((file) => (index.symbols.get(file) ?? []).filter((symbol) => symbol.name === name));
+}
+
+/**
+ * Resolve a name used in a file to its definition: the file itself first, then its imports
+ */
+function resolveDefinition(index: Index, file: string, name: string): Definition | null {
+  const local = (index.symbols.get(file) ?? []).find((symbol) =>
+    symbol.name === name && (symbol.type === 'function' || symbol.type === 'method' || symbol.type === 'class')
+  );
+  if (local) {
+    return { name, file, line: local.startLine };
+  }
+
+  const imports = (index.imports.get(file) ?? []).filter((imp) => !imp.reExport && imp.imported.includes(name));
+  for (const [candidateFile, symbols] of index.symbols.entries()) {
+    const symbol = symbols.find((s) => s.name === name);
+    if (symbol && imports.some((imp) => importReaches(index, imp.source, file, name, candidateFile))) {
+      return { name, file: candidateFile, line: symbol.startLine };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find every place a symbol is used
+ * When the symbol has exactly one definition (or filepath picks one), references in other
+ * files only count if the file imports the name from the defining file. With several
+ * same-named definitions and no filepath, every use of the name is returned.
+ */
+export function findReferences(
+  index: Index,
+  name: string,
+  filepath?: string,
+  kind?: ReferenceKind
+): ReferenceLocation[] {
+  const definitions = findDefinitions(index, name, filepath);
+  const definitionFile = definitions.length === 1 ? definitions[0].file : filepath;
+
+  const results: ReferenceLocation[] = [];
+  for (const [file, references] of index.references.entries()) {
+    if (definitionFile && !fileCanSee(index, file, name, definitionFile)) {
+      continue;
+    }
+
+    for (const reference of references) {
+      if (reference.name === name && (!kind || reference.kind === kind)) {
+        results.push({ ...reference, file });
+      }
+    }
+  }
+
+  return results.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+}
+
+function nodeKey(file: string, name: string): string {
+  return `${file}#${name}`;
+}
+
+function findCallers(index: Index, target: Definition, depth: number, path: Set<string>): CallGraphNode[] {
+  const grouped = new Map<string, CallGraphNode>();
+
+  for (const reference of findReferences(index, target.name, target.file, 'call')) {
+    const caller = reference.enclosing ?? MODULE_SCOPE;
+    const key = nodeKey(reference.file, caller);
+    const existing = grouped.get(key);
+    if (existing) {
+      existing.callSites.push(reference.line);
+      continue;
+    }
+
+    const definition = reference.enclosing
+      ? resolveDefinition(index, reference.file, reference.enclosing)
+      : null;
+    grouped.set(key, {
+      name: caller,
+      file: reference.file,
+      line: definition?.file === reference.file ? definition.line : reference.line,
+      callSites: [reference.line]
+    });
+  }
+
+  const nodes = Array.from(grouped.values());
+  for (const node of nodes) {
+    expand(node, depth, path, (next) =>
+      node.name === MODULE_SCOPE ? [] : findCallers(index, node, depth - 1, next)
+    );
+  }
+  return nodes;
+}
+
+function findCallees(index: Index, source: Definition, depth: number, path: Set<string>): CallGraphNode[] {
+  const grouped = new Map<string, CallGraphNode>();
+
+  for (const reference of index.references.get(source.file) ?? []) {
+    if (reference.kind !== 'call' || reference.enclosing !== source.name) {
+      continue;
+    }
+
+    // Calls that resolve to nothing in the index (built-ins, library methods) are left out
+    const definition = resolveDefinition(index, source.file, reference.name);
+    if (!definition) {
+      continue;
+    }
+
+    const key = nodeKey(definition.file, definition.name);
+    const existing = grouped.get(key);
+    if (existing) {
+      existing.callSites.push(reference.line);
+    } else {
+      grouped.set(key, { ...definition, callSites: [reference.line] });
+    }
+  }
+
+  const nodes = Array.from(grouped.values());
+  for (const node of nodes) {
+    expand(node, depth, path, (next) => findCallees(index, node, depth - 1, next));
+  }
+  return nodes;
+}
+
+/**
+ * Fill in a node's children unless it is at the depth limit or already on the current path
+ */
+function expand(
+  node: CallGraphNode,
+  depth: number,
+  path: Set<string>,
+  next: (path: Set<string>) => CallGraphNode[]
+): void {
+  const key = nodeKey(node.file, node.name);
+  if (path.has(key)) {
+    node.recursive = true;
+    return;
+  }
+  if (depth > 1) {
+    node.children = next(new Set([...path, key]));
+  }
+}
+
+/**
+ * Build the callers and/or callees of a function to the given depth
+ * Returns null when the function is not defined in the index.
+ */
+export function getCallGraph(
+  index: Index,
+  name: string,
+  direction: CallGraphDirection,
+  depth: number,
+  filepath?: string
+): CallGraph | null {
+  const symbol = findDefinitions(index, name, filepath)[0];
+  if (!symbol) {
+    return null;
+  }
+
+  const root: Definition = { name, file: symbol.file, line: symbol.startLine };
+  const path = new Set([nodeKey(root.file, root.name)]);
+
+  const graph: CallGraph = { symbol: name, file: root.file, line: root.line, depth };
+  if (direction === 'callers' || direction === 'both') {
+    graph.callers = findCallers(index, root, depth, path);
+  }
+  if (direction === 'callees' || direction === 'both') {
+    graph.callees = findCallees(index, root, depth, path);
+  }
+
+  return graph;
+}
@@ -0,0 +1,466 @@
+/**
+ * Module resolution
+ * Resolves import sources to project files: relative paths (including TypeScript's `.js` ->
+ * `.ts` mapping), tsconfig `paths`/`baseUrl`, package.json `exports` for workspace packages and
+ * self references, Python packages and Go modules
+ */
+
+import { existsSync, readFileSync, realpathSync } from 'fs';
+import { builtinModules } from 'module';
+import { dirname, extname, isAbsolute, join, resolve, sep } from 'path';
+
+import ts from 'typescript';
+
+import type { Import, Index, ModuleResolver, PackageManifest } from '../types.js';
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+
+/** TypeScript ESM imports name the emitted file: `./errors.js` is `./errors.ts` in the sources */
+const EMITTED_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts']
+};
+
+const JS_FILE_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts', '.vue', '.svelte']);
+
+/** package.json `exports` conditions that lead to code, in Node's first-listed-wins order */
+const EXPORT_CONDITIONS = new Set(['source', 'import', 'require', 'node', 'module', 'default']);
+
+/** Build output directories that workspace packages export in place of their sources */
+const BUILD_DIRECTORY = /^(?:dist|build|lib|out)(?=\/|$)/;
+
+/** tsconfig `extends` chains followed before giving up */
+const MAX_EXTENDS_DEPTH = 5;
+
+interface PathsConfig {
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  /** Directory of the tsconfig that declared `paths`, which targets are relative to without a baseUrl */
+  pathsDir?: string;
+}
+
+interface RawTsConfig {
+  extends?: string | string[];
+  compilerOptions?: {
+    baseUrl?: string;
+    paths?: Record<string, string[]>;
+  };
+}
+
+interface ConfigFileResult {
+  config?: RawTsConfig;
+}
+
+interface PatternMatch<T> {
+  value: T;
+  /** Text the `*` stood for */
+  captured: string;
+}
+
+interface PackageSpecifier {
+  name: string;
+  /** `.` for the package root, `./utils` for `pkg/utils` */
+  subpath: string;
+}
+
+interface PackageLocation {
+  dir: string;
+  manifest: PackageManifest;
+}
+
+/**
+ * JavaScript and TypeScript family files, which resolve through tsconfig and package.json
+ */
+export function isScriptFile(file: string): boolean {
+  return JS_FILE_EXTENSIONS.has(extname(file).toLowerCase());
+}
+
+function readJson<T>(file: string): T | null {
+  try {
+    return JSON.parse(readFileSync(file, 'utf-8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Candidate files for an import path without an extension, with an emitted extension or
+ * naming a directory
+ */
+export function moduleFileCandidates(base: string): string[] {
+  const ext = extname(base);
+  const stem = base.slice(0, base.length - ext.length);
+  return [
+    base,
+    ...(EMITTED_EXTENSIONS[ext] ?? []).map((emitted) => `${stem}${emitted}`),
+    ...SCRIPT_EXTENSIONS.map((candidate) => `${base}${candidate}`),
+    ...SCRIPT_EXTENSIONS.map((candidate) => join(base, `index${candidate}`))
+  ];
+}
+
+/**
+ * The project file an import path refers to, if any
+ */
+export function findModuleFile(base: string, files: ReadonlySet<string>): string | null {
+  return moduleFileCandidates(base).find((candidate) => files.has(candidate)) ?? null;
+}
+
+/**
+ * The project file a package.json target (`./dist/index.js`) refers to, falling back to the
+ * sources when it points into a build directory
+ */
+export function findPackageFile(packageDir: string, target: string, files: ReadonlySet<string>): string | null {
+  const relativeTarget = target.replace(/^\.\//, '');
+  return findModuleFile(join(packageDir, relativeTarget), files) ??
+    (BUILD_DIRECTORY.test(relativeTarget) ? findModuleFile(join(packageDir, relativeTarget.replace(BUILD_DIRECTORY, 'src')), files) : null);
+}
+
+function matchPattern(pattern: string, specifier: string): string | null {
+  const star = pattern.indexOf('*');
+  if (star === -1) {
+    return pattern === specifier ? '' : null;
+  }
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  if (specifier.length < prefix.length + suffix.length || !specifier.startsWith(prefix) || !specifier.endsWith(suffix)) {
+    return null;
+  }
+  return specifier.slice(prefix.length, specifier.length - suffix.length);
+}
+
+/**
+ * The entry of a pattern map (`paths`, `exports`) that matches a specifier; exact keys win,
+ * then the longest prefix before the `*`
+ */
+function matchPatternMap<T>(map: Record<string, T>, specifier: string): PatternMatch<T> | null {
+  if (specifier in map) {
+    return { value: map[specifier], captured: '' };
+  }
+
+  let best: PatternMatch<T> | null = null;
+  let bestPrefixLength = -1;
+  for (const [pattern, value] of Object.entries(map)) {
+    const captured = pattern.includes('*') ? matchPattern(pattern, specifier) : null;
+    const prefixLength = pattern.indexOf('*');
+    if (captured !== null && prefixLength > bestPrefixLength) {
+      best = { value, captured };
+      bestPrefixLength = prefixLength;
+    }
+  }
+  return best;
+}
+
+function resolveExportTarget(target: unknown): string | null {
+  if (typeof target === 'string') {
+    return target;
+  }
+  if (Array.isArray(target)) {
+    for (const fallback of target) {
+      const resolved = resolveExportTarget(fallback);
+      if (resolved) {
+        return resolved;
+      }
+    }
+    return null;
+  }
+  if (target && typeof target === 'object') {
+    for (const [condition, value] of Object.entries(target)) {
+      const resolved = EXPORT_CONDITIONS.has(condition) ? resolveExportTarget(value) : null;
+      if (resolved) {
+        return resolved;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve a subpath (`.`, `./utils`) through a package.json `exports` field
+ */
+function resolvePackageExports(exports: unknown, subpath: string): string | null {
+  // `"exports": "./index.js"` and a bare conditions object both describe the package root
+  const isSubpathMap = exports !== null && typeof exports === 'object' && !Array.isArray(exports) &&
+    Object.keys(exports).some((key) => key.startsWith('.'));
+  const map = isSubpathMap ? exports as Record<string, unknown> : { '.': exports };
+
+  const match = matchPatternMap(map, subpath);
+  const target = match ? resolveExportTarget(match.value) : null;
+  return target && match ? target.replace(/\*/g, match.captured) : null;
+}
+
+function parsePackageSpecifier(specifier: string): PackageSpecifier | null {
+  const parts = specifier.split('/');
+  const nameLength = specifier.startsWith('@') ? 2 : 1;
+  if (parts.length < nameLength || parts.slice(0, nameLength).some((part) => !part)) {
+    return null;
+  }
+  return {
+    name: parts.slice(0, nameLength).join('/'),
+    subpath: parts.length > nameLength ? `./${parts.slice(nameLength).join('/')}` : '.'
+  };
+}
+
+function resolveExtends(specifier: string, fromDir: string): string | null {
+  if (specifier.startsWith('.') || isAbsolute(specifier)) {
+    const path = resolve(fromDir, specifier);
+    return [path, `${path}.json`].find((candidate) => existsSync(candidate)) ?? null;
+  }
+
+  // Shared configs from packages, e.g. `@tsconfig/node20/tsconfig.json`
+  for (let dir = fromDir; ; dir = dirname(dir)) {
+    const path = join(dir, 'node_modules', specifier);
+    const found = [path, `${path}.json`, join(path, 'tsconfig.json')].find((candidate) => existsSync(candidate));
+    if (found) {
+      return found;
+    }
+    if (dirname(dir) === dir) {
+      return null;
+    }
+  }
+}
+
+/**
+ * `baseUrl` and `paths` from a tsconfig and the configs it extends
+ */
+function loadPathsConfig(configPath: string, depth = 0): PathsConfig {
+  const { config } = ts.readConfigFile(configPath, (path) => ts.sys.readFile(path)) as ConfigFileResult;
+  if (!config) {
+    return {};
+  }
+
+  const dir = dirname(configPath);
+  let inherited: PathsConfig = {};
+  const parents = typeof config.extends === 'string' ? [config.extends] : config.extends ?? [];
+  for (const parent of parents) {
+    const parentPath = depth < MAX_EXTENDS_DEPTH ? resolveExtends(parent, dir) : null;
+    if (parentPath) {
+      inherited = { ...inherited, ...loadPathsConfig(parentPath, depth + 1) };
+    }
+  }
+
+  const options = config.compilerOptions ?? {};
+  return {
+    baseUrl: options.baseUrl !== undefined ? resolve(dir, options.baseUrl) : inherited.baseUrl,
+    paths: options.paths ?? inherited.paths,
+    pathsDir: options.paths ? dir : inherited.pathsDir
+  };
+}
+
+/**
+ * Create a resolver for a set of project files
+ * Config files (tsconfig.json, package.json, go.mod) are read once per directory.
+ */
+export function createModuleResolver(projectFiles: Iterable<string>): ModuleResolver {
+  const files = new Set(projectFiles);
+  const filesByDir = new Map<string, string[]>();
+  for (const file of files) {
+    const dir = dirname(file);
+    filesByDir.set(dir, [...(filesByDir.get(dir) ?? []), file]);
+  }
+
+  const nearestCache = new Map<string, string | null>();
+  const nearest = (startDir: string, name: string): string | null => {
+    const key = `${name}\0${startDir}`;
+    const cached = nearestCache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const candidate = join(startDir, name);
+    const parent = dirname(startDir);
+    const found = existsSync(candidate) ? candidate : parent === startDir ? null : nearest(parent, name);
+    nearestCache.set(key, found);
+    return found;
+  };
+
+  const pathsConfigs = new Map<string, PathsConfig>();
+  const getPathsConfig = (fromDir: string): PathsConfig => {
+    const configPath = nearest(fromDir, 'tsconfig.json') ?? nearest(fromDir, 'jsconfig.json');
+    if (!configPath) {
+      return {};
+    }
+    let config = pathsConfigs.get(configPath);
+    if (!config) {
+      config = loadPathsConfig(configPath);
+      pathsConfigs.set(configPath, config);
+    }
+    return config;
+  };
+
+  const findPackage = (name: string, fromDir: string): PackageLocation | null => {
+    // A package can import itself by name
+    const ownManifestPath = nearest(fromDir, 'package.json');
+    const ownManifest = ownManifestPath ? readJson<PackageManifest>(ownManifestPath) : null;
+    if (ownManifestPath && ownManifest?.name === name) {
+      return { dir: dirname(ownManifestPath), manifest: ownManifest };
+    }
+
+    const manifestPath = nearest(fromDir, join('node_modules', name, 'package.json'));
+    if (!manifestPath) {
+      return null;
+    }
+    // Workspace packages are symlinked into node_modules; installed ones stay external
+    const dir = realpathSync(dirname(manifestPath));
+    const manifest = readJson<PackageManifest>(join(dir, 'package.json'));
+    return manifest && !dir.split(sep).includes('node_modules') ? { dir, manifest } : null;
+  };
+
+  const resolvePackage = (specifier: string, fromDir: string): string | null => {
+    const parsed = parsePackageSpecifier(specifier);
+    const location = parsed ? findPackage(parsed.name, fromDir) : null;
+    if (!parsed || !location) {
+      return null;
+    }
+
+    const { dir, manifest } = location;
+    let targets: string[];
+    if (manifest.exports !== undefined) {
+      const target = resolvePackageExports(manifest.exports, parsed.subpath);
+      targets = target ? [target] : [];
+    } else if (parsed.subpath !== '.') {
+      targets = [parsed.subpath];
+    } else {
+      targets = [manifest.module, manifest.main, '.'].filter((target): target is string => typeof target === 'string');
+    }
+
+    for (const target of targets) {
+      const found = findPackageFile(dir, target, files);
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  };
+
+  const resolveScript = (importingFile: string, specifier: string): string[] => {
+    const fromDir = dirname(importingFile);
+    if (specifier.startsWith('node:') || builtinModules.includes(specifier)) {
+      return [];
+    }
+    if (specifier.startsWith('.') || isAbsolute(specifier)) {
+      const found = findModuleFile(resolve(fromDir, specifier), files);
+      return found ? [found] : [];
+    }
+
+    const { baseUrl, paths, pathsDir } = getPathsConfig(fromDir);
+    const pathsBase = baseUrl ?? pathsDir;
+    const match = paths && pathsBase ? matchPatternMap(paths, specifier) : null;
+    for (const target of match?.value ?? []) {
+      const found = findModuleFile(resolve(pathsBase ?? fromDir, target.replace('*', match?.captured ?? '')), files);
+      if (found) {
+        return [found];
+      }
+    }
+
+    const fromBaseUrl = baseUrl ? findModuleFile(join(baseUrl, specifier), files) : null;
+    const found = fromBaseUrl ?? resolvePackage(specifier, fromDir);
+    return found ? [found] : [];
+  };
+
+  const pythonModule = (base: string): string | null =>
+    [`${base}.py`, join(base, '__init__.py')].find((candidate) => files.has(candidate)) ?? null;
+
+  /**
+   * `from .models import User`, `from app import models`, `import app.models`: relative imports
+   * climb one package per extra dot, absolute ones are looked up from each enclosing directory
+   */
+  const resolvePython = (importingFile: string, imp: Import): string[] => {
+    const names = imp.imported.map((name) => name.replace(/[()]/g, '').trim()).filter((name) => name && name !== '*');
+    const modules = imp.source ? [imp.source] : names;
+    const results: string[] = [];
+
+    for (const moduleName of modules) {
+      const dots = /^\.*/.exec(moduleName)?.[0].length ?? 0;
+      const modulePath = moduleName.slice(dots).split('.').filter(Boolean).join(sep);
+
+      const roots: string[] = [];
+      let dir = dirname(importingFile);
+      for (let level = 1; level < dots; level++) {
+        dir = dirname(dir);
+      }
+      for (; roots.length === 0 || (dots === 0 && dirname(dir) !== dir); dir = dirname(dir)) {
+        roots.push(dir);
+        if (dots > 0) {
+          break;
+        }
+      }
+
+      for (const root of roots) {
+        const base = modulePath ? join(root, modulePath) : root;
+        const module = pythonModule(base);
+        // `from app import models` may name submodules rather than attributes
+        const submodules = imp.source ? names.map((name) => pythonModule(join(base, name))).filter((found): found is string => found !== null) : [];
+        if (module !== null || submodules.length > 0) {
+          results.push(...(module ? [module] : []), ...submodules);
+          break;
+        }
+      }
+    }
+
+    return Array.from(new Set(results));
+  };
+
+  /**
+   * Imports under the module path in the nearest go.mod resolve to every file of the package
+   */
+  const goModules = new Map<string, string | null>();
+  const resolveGo = (importingFile: string, source: string): string[] => {
+    const goModPath = nearest(dirname(importingFile), 'go.mod');
+    if (!goModPath) {
+      return [];
+    }
+    if (!goModules.has(goModPath)) {
+      const content = readFileSync(goModPath, 'utf-8');
+      goModules.set(goModPath, /^module\s+(\S+)/m.exec(content)?.[1] ?? null);
+    }
+
+    const modulePath = goModules.get(goModPath);
+    if (!modulePath || (source !== modulePath && !source.startsWith(`${modulePath}/`))) {
+      return [];
+    }
+    const packageDir = join(dirname(goModPath), source.slice(modulePath.length));
+    return (filesByDir.get(packageDir) ?? []).filter((file) => file.endsWith('.go') && !file.endsWith('_test.go')).sort();
+  };
+
+  return (importingFile, imp) => {
+    const ext = extname(importingFile).toLowerCase();
+    try {
+      if (isScriptFile(importingFile)) {
+        return resolveScript(importingFile, imp.source);
+      }
+      if (ext === '.py') {
+        return resolvePython(importingFile, imp);
+      }
+      if (ext === '.go') {
+        return resolveGo(importingFile, imp.source);
+      }
+    } catch {
+      // Unreadable config files leave the import unresolved
+      return [];
+    }
+
+    // Other languages: relative paths naming a project file
+    const path = imp.source.startsWith('.') ? resolve(dirname(importingFile), imp.source) : null;
+    return path && files.has(path) ? [path] : [];
+  };
+}
+
+/**
+ * Every file the index knows about
+ */
+export function getIndexedFiles(index: Index): Set<string> {
+  return new Set([...index.symbols.keys(), ...index.imports.keys(), ...index.references.keys()]);
+}
+
+/**
+ * Resolve every import in the index against the files it holds
+ */
+export function resolveIndexImports(index: Index): void {
+  const resolveImport = createModuleResolver(getIndexedFiles(index));
+  for (const [file, imports] of index.imports.entries()) {
+    for (const imp of imports) {
+      imp.resolved = resolveImport(file, imp);
+    }
+  }
+}
@@ -1,270 +1,322 @@
 /**
  * File scanner and indexer
- * Scans directories for source files and builds the symbol index
+ * Scans directories for source files and keeps the symbol index in sync with them. Each file's
+ * content hash and parser version are stored, so only new and changed files are re-parsed.
  */
 
-import { existsSync, readFileSync } from 'fs';
-import { readdir, stat } from 'fs/promises';
-import { join, relative, extname } from 'path';
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { readdir, readFile, stat } from 'fs/promises';
+import { join, relative, sep } from 'path';
 
-import ignore from 'ignore';
+import { loadScmConfig } from '../core/config.js';
+import { createInProcessEmbedder, getSymbolEmbeddingText } from '../core/embeddings.js';
+import type {
+  EmbeddingQueue,
+  Index,
+  IndexedFile,
+  IndexingOptions,
+  IndexingProgress,
+  IndexRules,
+  SkippedFiles,
+  SkipReason
+} from '../types.js';
 
-import { generateSymbolEmbedding } from '../core/embeddings.js';
-import type { Index } from '../types.js';
-import { STANDARD_IGNORE_PATTERNS } from '../types.js';
+import { addVector, buildVectorIndex, createVectorIndex, removeVector } from '../../shared/vector-index.js';
 
-import { parseFile } from './parser.js';
+import { createEmbeddingQueue, getEmbeddingKey } from './embedding-queue.js';
+import { createIndexRules } from './index-rules.js';
+import { getParserVersion, parseFile } from './parser.js';
+import { resolveIndexImports } from './resolver.js';
 
-/**
- * Check if a file is likely NOT a binary file
- * We'll try to parse all text files and only index those with actual code symbols
- */
-function isPotentiallyTextFile(filename: string): boolean {
-  const ext = extname(filename).toLowerCase();
-
-  // Exclude binary and media files only
-  const binaryExtensions = [
-    // Executables
-    '.exe', '.dll', '.so', '.dylib', '.bin', '.app',
-    // Archives
-    '.zip', '.tar', '.gz', '.7z', '.rar', '.bz2', '.xz',
-    // Images
-    '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.ico', '.webp', '.tiff',
-    // Audio/Video
-    '.mp3', '.mp4', '.avi', '.mov', '.wav', '.flac', '.ogg', '.mkv', '.webm',
-    // Documents
-    '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx',
-    // Fonts
-    '.ttf', '.otf', '.woff', '.woff2', '.eot',
-    // Database
-    '.db', '.sqlite', '.sqlite3',
-    // Compiled
-    '.pyc', '.class', '.o', '.obj', '.a', '.lib',
-    // SVG (XML but often not code)
-    '.svg',
-  ];
-
-  return !binaryExtensions.includes(ext);
+import type { VectorIndex } from '../../shared/types/vector-index.js';
+
+/** Files parsed between yields to the event loop, so queries are answered during indexing */
+const FILES_PER_YIELD = 25;
+
+/** Skipped paths listed per reason in the index metadata */
+const SKIPPED_EXAMPLES = 5;
+
+type SyncOutcome = 'unchanged' | 'changed' | 'removed';
+
+interface FoundFiles {
+  files: string[];
+  skipped: SkippedFiles;
 }
 
-interface ScanProgress {
-  totalFiles: number;
-  processedFiles: number;
-  totalSymbols: number;
+function hashContent(content: string): string {
+  return createHash('sha1').update(content).digest('hex');
 }
 
-export async function scanAndIndexDirectory(
-  directory: string,
-  onProgress?: (progress: ScanProgress) => void
-): Promise<Index> {
-  const files = await findSourceFiles(directory);
-  const index: Index = {
-    symbols: new Map(),
-    imports: new Map(),
-    embeddings: new Map(),
-    metadata: {
-      version: '1.0.0',
-      indexedAt: Date.now(),
-      fileCount: 0,
-      symbolCount: 0
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * Drop a file from the index
+ * @returns Its embeddings by embedding text, for symbols that survive a re-parse unchanged
+ */
+function removeFile(index: Index, file: string, vectors: VectorIndex): Map<string, Float32Array> {
+  const reusable = new Map<string, Float32Array>();
+  for (const symbol of index.symbols.get(file) ?? []) {
+    const key = getEmbeddingKey(file, symbol);
+    const embedding = index.embeddings.get(key);
+    if (embedding) {
+      reusable.set(getSymbolEmbeddingText(symbol), embedding);
+      index.embeddings.delete(key);
+      removeVector(vectors, key);
     }
-  };
+  }
 
-  const progress: ScanProgress = {
-    totalFiles: files.length,
-    processedFiles: 0,
-    totalSymbols: 0
-  };
+  index.symbols.delete(file);
+  index.imports.delete(file);
+  index.references.delete(file);
+  index.files.delete(file);
+  return reusable;
+}
 
-  for (const file of files) {
-    try {
-      const parseResult = parseFile(file);
+/**
+ * Re-parse a file into the index, reusing embeddings of symbols whose embedding text is unchanged
+ */
+function indexFile(
+  index: Index,
+  file: string,
+  content: string,
+  state: IndexedFile,
+  vectors: VectorIndex,
+  language?: string | null
+): void {
+  const reusable = removeFile(index, file, vectors);
+  const parseResult = parseFile(file, content, language);
+
+  if (parseResult.symbols.length > 0) {
+    index.symbols.set(file, parseResult.symbols);
+  }
+  if (parseResult.imports.length > 0) {
+    index.imports.set(file, parseResult.imports);
+  }
+  if (parseResult.references && parseResult.references.length > 0) {
+    index.references.set(file, parseResult.references);
+  }
+  index.files.set(file, state);
+
+  for (const symbol of parseResult.symbols) {
+    const embedding = reusable.get(getSymbolEmbeddingText(symbol));
+    if (embedding) {
+      const key = getEmbeddingKey(file, symbol);
+      index.embeddings.set(key, embedding);
+      addVector(vectors, key, Array.from(embedding));
+    }
+  }
+}
 
-      if (parseResult.symbols.length > 0) {
-        index.symbols.set(file, parseResult.symbols);
+/**
+ * Bring one file's entries up to date
+ * Files whose size and modification time match the recorded ones are skipped without reading;
+ * otherwise the content hash and parser version decide whether the file is re-parsed. Files the
+ * rules skip (e.g. grown past the size limit) are dropped.
+ */
+async function syncFile(index: Index, file: string, vectors: VectorIndex, rules?: IndexRules): Promise<SyncOutcome> {
+  const stats = existsSync(file) ? await stat(file) : null;
+  if (!stats || rules?.skipReason(file, false, stats.size)) {
+    const known = index.files.has(file) || index.symbols.has(file) || index.imports.has(file) || index.references.has(file);
+    if (known) {
+      removeFile(index, file, vectors);
+    }
+    return known ? 'removed' : 'unchanged';
+  }
 
-        for (const symbol of parseResult.symbols) {
-          const embedding = await generateSymbolEmbedding(symbol);
-          if (embedding) {
-            const key = `${file}:${symbol.name}:${symbol.startLine}`;
-            index.embeddings.set(key, new Float32Array(embedding));
-          }
-        }
+  const language = rules ? rules.getLanguage(file) : undefined;
+  const parser = getParserVersion(file, language);
+  const recorded = index.files.get(file);
+  if (recorded?.parser === parser && recorded.size === stats.size && recorded.mtimeMs === stats.mtimeMs) {
+    return 'unchanged';
+  }
 
-        progress.totalSymbols += parseResult.symbols.length;
-      }
+  const content = await readFile(file, 'utf-8');
+  const state: IndexedFile = { hash: hashContent(content), parser, size: stats.size, mtimeMs: stats.mtimeMs };
+  if (recorded?.parser === parser && recorded.hash === state.hash) {
+    // Touched or checked out again with the same content
+    index.files.set(file, state);
+    return 'unchanged';
+  }
 
-      if (parseResult.imports.length > 0) {
-        index.imports.set(file, parseResult.imports);
-      }
+  indexFile(index, file, content, state, vectors, language);
+  return 'changed';
+}
 
-      progress.processedFiles++;
-      onProgress?.(progress);
-    } catch {
-      // Skip files that fail to index
+/**
+ * Queue the symbols of the given files that have no embedding yet
+ */
+function queueMissingEmbeddings(index: Index, files: Iterable<string>, queue: EmbeddingQueue): void {
+  for (const file of files) {
+    const missing = (index.symbols.get(file) ?? []).filter((symbol) => !index.embeddings.has(getEmbeddingKey(file, symbol)));
+    if (missing.length > 0) {
+      queue.add(file, missing);
     }
   }
-
-  index.metadata.fileCount = index.symbols.size;
-  index.metadata.symbolCount = progress.totalSymbols;
-
-  return index;
 }
 
-export async function updateIndexForFiles(
-  index: Index,
-  files: string[]
-): Promise<void> {
-  let _successCount = 0;
-  let _skippedCount = 0;
-  let _errorCount = 0;
+async function syncFiles(index: Index, files: string[], options: IndexingOptions, embedAll: boolean): Promise<void> {
+  // Indexes saved before vector indexes existed get one built from the embeddings they hold
+  const vectors = (index.vectors ??= buildVectorIndex(index.embeddings));
+  const queue = options.embeddings ?? createEmbeddingQueue(index, createInProcessEmbedder());
+  const progress: IndexingProgress = {
+    phase: 'parsing',
+    totalFiles: files.length,
+    processedFiles: 0,
+    changedFiles: 0,
+    removedFiles: 0
+  };
+  const changed: string[] = [];
 
   for (const file of files) {
     try {
-      index.symbols.delete(file);
-      index.imports.delete(file);
-
-      const keysToDelete: string[] = [];
-      for (const key of index.embeddings.keys()) {
-        if (key.startsWith(`${file}:`)) {
-          keysToDelete.push(key);
-        }
-      }
-      for (const key of keysToDelete) {
-        index.embeddings.delete(key);
-      }
-
-      if (existsSync(file)) {
-        const parseResult = parseFile(file);
-
-        if (parseResult.symbols.length > 0) {
-          index.symbols.set(file, parseResult.symbols);
-
-          for (const symbol of parseResult.symbols) {
-            const embedding = await generateSymbolEmbedding(symbol);
-            if (embedding) {
-              const key = `${file}:${symbol.name}:${symbol.startLine}`;
-              index.embeddings.set(key, new Float32Array(embedding));
-            }
-          }
-          _successCount++;
-        } else {
-          _skippedCount++;
-        }
-
-        if (parseResult.imports.length > 0) {
-          index.imports.set(file, parseResult.imports);
-        }
+      const outcome = await syncFile(index, file, vectors, options.rules);
+      if (outcome === 'changed') {
+        changed.push(file);
+        progress.changedFiles++;
+      } else if (outcome === 'removed') {
+        queue.remove(file);
+        progress.removedFiles++;
       }
     } catch {
-      _errorCount++;
-      // Skip files that fail to update
+      // Skip files that fail to index
+    }
+
+    progress.processedFiles++;
+    options.onProgress?.(progress);
+    if (progress.processedFiles % FILES_PER_YIELD === 0) {
+      await yieldToEventLoop();
     }
   }
 
+  const unresolved = [...index.imports.values()].some((imports) => imports.some((imp) => imp.resolved === undefined));
+  if (progress.changedFiles > 0 || progress.removedFiles > 0 || unresolved) {
+    // Added and removed files change what other files' imports resolve to
+    resolveIndexImports(index);
+  }
+
+  // Symbols left unembedded by an earlier run (no model, or stopped midway) are picked up too
+  queueMissingEmbeddings(index, embedAll ? index.symbols.keys() : changed, queue);
+
   let totalSymbols = 0;
   for (const symbols of index.symbols.values()) {
     totalSymbols += symbols.length;
   }
-
   index.metadata.fileCount = index.symbols.size;
   index.metadata.symbolCount = totalSymbols;
   index.metadata.indexedAt = Date.now();
+
+  if (!options.embeddings) {
+    await queue.drain();
+  }
+}
+
+/**
+ * Build an index of a directory from scratch
+ */
+export async function scanAndIndexDirectory(directory: string, options: IndexingOptions = {}): Promise<Index> {
+  const index: Index = {
+    symbols: new Map(),
+    imports: new Map(),
+    references: new Map(),
+    embeddings: new Map(),
+    vectors: createVectorIndex(),
+    files: new Map(),
+    metadata: {
+      version: '1.0.0',
+      indexedAt: Date.now(),
+      fileCount: 0,
+      symbolCount: 0
+    }
+  };
+
+  await validateAndSyncIndex(index, directory, options);
+  return index;
+}
+
+/**
+ * Re-index changed files (from the file watcher); unchanged content is left alone
+ */
+export async function updateIndexForFiles(index: Index, files: string[], options: IndexingOptions = {}): Promise<void> {
+  await syncFiles(index, files, options, false);
 }
 
 /**
  * Validate and sync index with filesystem
  * - Remove entries for deleted files
  * - Add entries for new files
- * - Update entries for modified files
+ * - Re-parse files whose content or parser version changed
+ * - Queue embeddings for symbols that have none
  * Should be called on startup to sync stale index
  */
 export async function validateAndSyncIndex(
   index: Index,
-  projectRoot: string
+  projectRoot: string,
+  options: IndexingOptions = {}
 ): Promise<void> {
-  const filesToUpdate: string[] = [];
-  const indexedAt = index.metadata.indexedAt;
-
-  // 1. Check for deleted files
-  for (const file of index.symbols.keys()) {
-    if (!existsSync(file)) {
-      filesToUpdate.push(file);
-    }
-  }
-
-  for (const file of index.imports.keys()) {
-    if (!existsSync(file) && !filesToUpdate.includes(file)) {
-      filesToUpdate.push(file);
-    }
-  }
-
-  // 2. Scan for new and modified files
-  const currentFiles = await findSourceFiles(projectRoot);
-  const indexedFiles = new Set(index.symbols.keys());
+  options.onProgress?.({ phase: 'scanning', totalFiles: 0, processedFiles: 0, changedFiles: 0, removedFiles: 0 });
+  const rules = options.rules ?? createIndexRules(projectRoot, loadScmConfig(projectRoot).index);
+  const { files: currentFiles, skipped } = await findSourceFiles(projectRoot, rules);
+  const current = new Set(currentFiles);
 
-  for (const file of currentFiles) {
-    // New file - not in index
-    if (!indexedFiles.has(file)) {
-      filesToUpdate.push(file);
-      continue;
-    }
+  const known = new Set([...index.files.keys(), ...index.symbols.keys(), ...index.imports.keys(), ...index.references.keys()]);
+  const removed = Array.from(known).filter((file) => !current.has(file));
 
-    // Modified file - check mtime
-    try {
-      const stats = await stat(file);
-      if (stats.mtimeMs > indexedAt) {
-        filesToUpdate.push(file);
-      }
-    } catch {
-      // If we can't stat the file, skip it
-    }
-  }
+  await syncFiles(index, [...removed, ...currentFiles], { ...options, rules }, true);
+  index.metadata.skipped = skipped;
+}
 
-  // 3. Update all changed files
-  if (filesToUpdate.length > 0) {
-    await updateIndexForFiles(index, filesToUpdate);
+function recordSkipped(skipped: SkippedFiles, reason: SkipReason, path: string): void {
+  const entry = (skipped[reason] ??= { count: 0, examples: [] });
+  entry.count++;
+  if (entry.examples.length < SKIPPED_EXAMPLES) {
+    entry.examples.push(path);
   }
 }
 
-async function findSourceFiles(directory: string): Promise<string[]> {
+/**
+ * Files to index under a directory, and the paths the rules left out
+ * Skipped directories aren't scanned, unless an `include` pattern reaches into them.
+ */
+async function findSourceFiles(directory: string, rules: IndexRules): Promise<FoundFiles> {
   const files: string[] = [];
-  const ig = ignore().add(STANDARD_IGNORE_PATTERNS);
-
-  const gitignorePath = join(directory, '.gitignore');
-  if (existsSync(gitignorePath)) {
-    const gitignoreContent = readFileSync(gitignorePath, 'utf-8');
-    ig.add(gitignoreContent);
-  }
-
-  async function scan(dir: string): Promise<void> {
+  const skipped: SkippedFiles = {};
+  const toRelative = (path: string): string => relative(directory, path).split(sep).join('/');
+
+  /**
+   * @param withinSkipped - Scanning a skipped directory for included files; what it skips
+   *   otherwise is already counted with the directory
+   */
+  async function scan(dir: string, withinSkipped: boolean): Promise<void> {
     const entries = await readdir(dir, { withFileTypes: true });
 
     for (const entry of entries) {
       const fullPath = join(dir, entry.name);
-      const relativePath = relative(directory, fullPath);
-
-      if (ig.ignores(relativePath)) {
-        continue;
-      }
 
       if (entry.isDirectory()) {
-        await scan(fullPath);
+        const reason = rules.skipReason(fullPath, true);
+        if (!reason) {
+          await scan(fullPath, withinSkipped);
+        } else if (rules.mayContainIncluded(fullPath)) {
+          await scan(fullPath, true);
+        } else if (!withinSkipped) {
+          recordSkipped(skipped, reason, `${toRelative(fullPath)}/`);
+        }
       } else if (entry.isFile()) {
-        // Try all potentially text-based files (exclude only binaries)
-        // We'll only index files where we actually find symbols/imports
-        if (isPotentiallyTextFile(entry.name)) {
-          const stats = await stat(fullPath);
-          // Skip files larger than 1MB
-          if (stats.size < 1024 * 1024) {
-            files.push(fullPath);
-          }
+        // Rules that don't need the size come first, so ignored files aren't stat'ed
+        const reason = rules.skipReason(fullPath, false) ?? rules.skipReason(fullPath, false, (await stat(fullPath)).size);
+        if (!reason) {
+          files.push(fullPath);
+        } else if (!withinSkipped) {
+          recordSkipped(skipped, reason, toRelative(fullPath));
         }
       }
     }
   }
 
-  await scan(directory);
+  await scan(directory, false);
 
-  return files;
+  return { files, skipped };
 }
@@ -3,17 +3,35 @@
  * Combines multiple search strategies with score merging
  */
 
-import { generateEmbedding, cosineSimilarity } from '../core/embeddings.js';
+import { minimatch } from 'minimatch';
+
+import { generateEmbedding } from '../core/embeddings.js';
 import type { Index, SearchResult, SearchFilters, SearchMode, SymbolInfo } from '../types.js';
 
+import { fuseScores } from '../../shared/hybrid-search.js';
+import { loadFusionConfig } from '../../shared/search-config.js';
+import { findNearestVectors } from '../../shared/vector-index.js';
+
+import { getLanguageForFile } from './languages.js';
+import { compileNamePattern, resolveLanguage } from './query.js';
+
 const DEFAULT_LIMIT = 10;
 
+// Semantic candidates fetched per requested result, leaving room for keyword merging to reorder them
+const SEMANTIC_CANDIDATES_PER_RESULT = 10;
+const MIN_SEMANTIC_CANDIDATES = 100;
+
+/**
+ * Search symbols; semantic mode fuses keyword and semantic scores as configured for
+ * `source-code-mapper` in cc-devtools/search.yaml, and with explain attaches the breakdown
+ */
 export async function searchSymbols(
   index: Index,
   query: string,
   mode: SearchMode = 'semantic',
   filters?: SearchFilters,
-  limit: number = DEFAULT_LIMIT
+  limit: number = DEFAULT_LIMIT,
+  explain: boolean = false
 ): Promise<SearchResult[]> {
   let results: SearchResult[] = [];
 
@@ -26,7 +44,7 @@ export async function searchSymbols(
       break;
     case 'semantic':
     default:
-      results = await semanticSearchWithKeyword(index, query, filters);
+      results = await semanticSearchWithKeyword(index, query, filters, limit, explain);
       break;
   }
 
@@ -41,21 +59,29 @@ function keywordSearch(
 ): SearchResult[] {
   const results: SearchResult[] = [];
   const queryLower = query.toLowerCase();
+  const matchesFilters = createSymbolFilter(index, filters);
 
   for (const [file, symbols] of index.symbols.entries()) {
     for (const symbol of symbols) {
-      if (filters && !matchesFilters(symbol, filters)) {
+      if (!matchesFilters(symbol)) {
         continue;
       }
 
       const nameLower = symbol.name.toLowerCase();
+      const qualifiedLower = symbol.qualifiedName?.toLowerCase();
       let score = 0;
       let matchReason = '';
 
-      if (nameLower === queryLower) {
+      if (!queryLower) {
+        score = 1.0;
+        matchReason = 'matches filters';
+      } else if (nameLower === queryLower) {
         score = 1.0;
         matchReason = 'exact name match';
-      } else if (nameLower.includes(queryLower)) {
+      } else if (qualifiedLower && (qualifiedLower === queryLower || qualifiedLower.endsWith(`.${queryLower}`))) {
+        score = 1.0;
+        matchReason = 'exact qualified name match';
+      } else if (nameLower.includes(queryLower) || qualifiedLower?.includes(queryLower)) {
         score = 0.7;
         matchReason = 'partial name match';
       } else if (file.toLowerCase().includes(queryLower)) {
@@ -79,67 +105,70 @@ function keywordSearch(
 async function semanticSearchWithKeyword(
   index: Index,
   query: string,
-  filters?: SearchFilters
+  filters: SearchFilters | undefined,
+  limit: number,
+  explain: boolean
 ): Promise<SearchResult[]> {
-  const keywordResults = keywordSearch(index, query, filters);
-  const semanticResults = await semanticSearch(index, query, filters);
-
-  const mergedMap = new Map<string, SearchResult>();
-
-  for (const result of keywordResults) {
-    const key = `${result.file}:${result.name}:${result.startLine}`;
-    mergedMap.set(key, result);
-  }
-
-  for (const result of semanticResults) {
-    const key = `${result.file}:${result.name}:${result.startLine}`;
-    const existing = mergedMap.get(key);
-
-    if (existing) {
-      existing.score += result.score;
-      existing.match_reason = `${existing.match_reason} + ${result.match_reason}`;
-    } else {
-      mergedMap.set(key, result);
-    }
-  }
-
-  return Array.from(mergedMap.values());
+  const fusion = loadFusionConfig('source-code-mapper');
+  const keyOf = (result: SearchResult): string => `${result.file}:${result.name}:${result.startLine}`;
+
+  const keywordResults = new Map(keywordSearch(index, query, filters).map(r => [keyOf(r), r]));
+  const semanticResults = new Map(
+    (await semanticSearch(index, query, filters, limit, fusion.similarity_threshold)).map(r => [keyOf(r), r])
+  );
+
+  const fused = fuseScores({
+    keyword: new Map(Array.from(keywordResults, ([key, r]) => [key, r.score])),
+    semantic: new Map(Array.from(semanticResults, ([key, r]) => [key, r.score]))
+  }, fusion);
+
+  return Array.from(fused, ([key, { score, explanation }]) => {
+    const keyword = keywordResults.get(key);
+    const semantic = semanticResults.get(key);
+    const reasons = [keyword?.match_reason, semantic?.match_reason].filter(Boolean);
+
+    return {
+      ...(keyword ?? semantic as SearchResult),
+      score,
+      match_reason: reasons.join(' + '),
+      ...(explain && { explanation })
+    };
+  });
 }
 
 async function semanticSearch(
   index: Index,
   query: string,
-  filters?: SearchFilters
+  filters: SearchFilters | undefined,
+  limit: number,
+  threshold: number
 ): Promise<SearchResult[]> {
-  const results: SearchResult[] = [];
   const queryEmbedding = await generateEmbedding(query);
 
   if (!queryEmbedding) {
-    return results;
+    return [];
   }
 
-  for (const [embeddingKey, symbolEmbedding] of index.embeddings.entries()) {
-    const [symbolFile, name, lineStr] = embeddingKey.split(':');
-    const startLine = parseInt(lineStr, 10);
+  const matchesFilters = createSymbolFilter(index, filters);
 
-    let symbol = null;
-    const fileSymbols = index.symbols.get(symbolFile);
-    if (fileSymbols) {
-      symbol = fileSymbols.find(s => s.name === name && s.startLine === startLine);
-    }
-
-    if (!symbol) continue;
-
-    if (filters && !matchesFilters(symbol, filters)) {
-      continue;
-    }
-
-    const similarity = cosineSimilarity(queryEmbedding, Array.from(symbolEmbedding));
+  const matches = findNearestVectors(index.vectors, index.embeddings, queryEmbedding, {
+    k: Math.max(limit * SEMANTIC_CANDIDATES_PER_RESULT, MIN_SEMANTIC_CANDIDATES),
+    threshold,
+    filter: filters
+      ? (key): boolean => {
+        const symbol = findSymbolByKey(index, key);
+        return symbol !== undefined && matchesFilters(symbol);
+      }
+      : undefined
+  });
 
-    if (similarity > 0.3) {
+  const results: SearchResult[] = [];
+  for (const match of matches) {
+    const symbol = findSymbolByKey(index, match.id);
+    if (symbol) {
       results.push({
         ...symbol,
-        score: similarity,
+        score: match.similarity,
         match_reason: 'semantic similarity'
       });
     }
@@ -148,6 +177,16 @@ async function semanticSearch(
   return results;
 }
 
+/**
+ * Resolve an embedding key (file:name:startLine) to its symbol
+ */
+function findSymbolByKey(index: Index, key: string): SymbolInfo | undefined {
+  const [symbolFile, name, lineStr] = key.split(':');
+  const startLine = parseInt(lineStr, 10);
+
+  return index.symbols.get(symbolFile)?.find(s => s.name === name && s.startLine === startLine);
+}
+
 function fuzzySearch(
   index: Index,
   query: string,
@@ -155,16 +194,18 @@ function fuzzySearch(
 ): SearchResult[] {
   const results: SearchResult[] = [];
   const queryLower = query.toLowerCase();
+  const matchesFilters = createSymbolFilter(index, filters);
 
   for (const symbols of index.symbols.values()) {
     for (const symbol of symbols) {
-      if (filters && !matchesFilters(symbol, filters)) {
+      if (!matchesFilters(symbol)) {
         continue;
       }
 
-      const nameLower = symbol.name.toLowerCase();
-      const distance = levenshteinDistance(queryLower, nameLower);
-      const maxLen = Math.max(queryLower.length, nameLower.length);
+      // A dotted query (`TokenStor.lod`) is compared with the qualified name
+      const candidate = (queryLower.includes('.') ? symbol.qualifiedName ?? symbol.name : symbol.name).toLowerCase();
+      const distance = levenshteinDistance(queryLower, candidate);
+      const maxLen = Math.max(queryLower.length, candidate.length);
       const score = 1 - distance / maxLen;
 
       if (score > 0.5) {
@@ -180,16 +221,51 @@ function fuzzySearch(
   return results;
 }
 
-function matchesFilters(symbol: Pick<SymbolInfo, 'type' | 'isExported'>, filters: SearchFilters): boolean {
-  if (filters.type && !filters.type.includes(symbol.type as 'function' | 'class' | 'interface' | 'type' | 'const' | 'enum')) {
-    return false;
+/**
+ * Compile filters once into a test for symbols; a file's language is the one it was parsed as
+ */
+function createSymbolFilter(index: Index, filters: SearchFilters | undefined): (symbol: SymbolInfo) => boolean {
+  if (!filters) {
+    return () => true;
   }
 
-  if (filters.exported_only && !symbol.isExported) {
-    return false;
-  }
+  const namePattern = filters.name !== undefined ? compileNamePattern(filters.name) : undefined;
+  const pathGlobs = filters.path?.map((glob) => (glob.startsWith('/') ? glob : `**/${glob}`));
+  const languages = filters.language?.map((lang) => resolveLanguage(lang.toLowerCase()) ?? lang);
+  const languageOf = (file: string): string | null => index.files.get(file)?.parser.split('@')[0] ?? getLanguageForFile(file);
+
+  return (symbol) => {
+    if (filters.type && !filters.type.includes(symbol.type)) {
+      return false;
+    }
+
+    if (filters.exported_only && !symbol.isExported) {
+      return false;
+    }
+
+    if (filters.exported !== undefined && symbol.isExported !== filters.exported) {
+      return false;
+    }
+
+    // `TokenStore` matches members of `auth.TokenStore` too
+    if (filters.parent && symbol.parent !== filters.parent && !symbol.parent?.endsWith(`.${filters.parent}`)) {
+      return false;
+    }
+
+    if (namePattern && !namePattern.test(symbol.name) && !(symbol.qualifiedName !== undefined && namePattern.test(symbol.qualifiedName))) {
+      return false;
+    }
+
+    if (pathGlobs && !pathGlobs.some((glob) => minimatch(symbol.file, glob, { dot: true }))) {
+      return false;
+    }
+
+    if (languages && !languages.includes(languageOf(symbol.file) ?? '')) {
+      return false;
+    }
 
-  return true;
+    return true;
+  };
 }
 
 function levenshteinDistance(a: string, b: string): number {
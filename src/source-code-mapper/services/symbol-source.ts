@@ -0,0 +1,86 @@
+/**
+ * Symbol source retrieval
+ * Reads the exact source of indexed symbols, so a function or class can be looked at
+ * without reading its whole file
+ */
+
+import { readFileSync } from 'fs';
+
+import type { Index, SymbolInfo, SymbolMatch, SymbolSource, SymbolSourceOptions } from '../types.js';
+
+/**
+ * Whether a symbol answers to a name: `load` matches every symbol named load, `TokenStore.load`
+ * matches that qualified name and any qualified name ending in it (`auth.TokenStore.load`)
+ */
+function matchesName(symbol: SymbolInfo, name: string): boolean {
+  if (!name.includes('.')) {
+    return symbol.name === name;
+  }
+  const qualified = symbol.qualifiedName ?? symbol.name;
+  return qualified === name || qualified.endsWith(`.${name}`);
+}
+
+/**
+ * Find symbols by name or qualified name
+ * Exact qualified name matches come first, then top-level symbols, then by file and line.
+ * @param filepath - Only look in this file
+ */
+export function findSymbols(index: Index, name: string, filepath?: string): SymbolMatch[] {
+  const files = filepath ? [filepath] : Array.from(index.symbols.keys());
+
+  const matches = files
+    .flatMap((file) => (index.symbols.get(file) ?? []).map((symbol) => ({ file, symbol })))
+    .filter(({ symbol }) => matchesName(symbol, name));
+
+  const rank = (symbol: SymbolInfo): number =>
+    ((symbol.qualifiedName ?? symbol.name) === name ? 0 : 2) + (symbol.parent ? 1 : 0);
+  return matches.sort((a, b) =>
+    rank(a.symbol) - rank(b.symbol) || a.file.localeCompare(b.file) || a.symbol.startLine - b.symbol.startLine
+  );
+}
+
+/**
+ * Find symbols by name or qualified name and read their source, ordered as by findSymbols
+ * Symbols whose file can no longer be read are left out.
+ */
+export function getSymbolSource(index: Index, name: string, options: SymbolSourceOptions = {}): SymbolSource[] {
+  const context = Math.max(0, options.context ?? 0);
+  const matches = findSymbols(index, name, options.filepath);
+
+  const contents = new Map<string, string[] | null>();
+  const readLines = (file: string): string[] | null => {
+    if (!contents.has(file)) {
+      try {
+        contents.set(file, readFileSync(file, 'utf-8').split('\n'));
+      } catch {
+        contents.set(file, null);
+      }
+    }
+    return contents.get(file) ?? null;
+  };
+
+  const results: SymbolSource[] = [];
+  for (const { file, symbol } of matches) {
+    const lines = readLines(file);
+    if (!lines) {
+      continue;
+    }
+    const sourceStart = Math.max(1, symbol.startLine - context);
+    const sourceEnd = Math.min(lines.length, Math.max(symbol.endLine, symbol.startLine) + context);
+
+    results.push({
+      name: symbol.name,
+      ...(symbol.qualifiedName ? { qualifiedName: symbol.qualifiedName } : {}),
+      type: symbol.type,
+      file,
+      startLine: symbol.startLine,
+      endLine: symbol.endLine,
+      ...(symbol.signature ? { signature: symbol.signature } : {}),
+      source: lines.slice(sourceStart - 1, sourceEnd).join('\n'),
+      sourceStart,
+      sourceEnd
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,331 @@
+/**
+ * Unused code report
+ * Finds exports no other file imports, script files unreachable from the project's entry
+ * points and imported names a file never uses
+ */
+
+import { readFileSync } from 'fs';
+import { basename, dirname, extname, isAbsolute, join, relative, resolve, sep } from 'path';
+
+import { minimatch } from 'minimatch';
+
+import type { Import, Index, PackageManifest, SymbolInfo, UnusedExport, UnusedImport, UnusedOptions, UnusedReport } from '../types.js';
+
+import { buildDependencyGraph } from './graph.js';
+import { isTestFile } from './impact.js';
+import { findPackageFile, getIndexedFiles, isScriptFile } from './resolver.js';
+
+interface McpServerEntry {
+  args?: string[];
+}
+
+interface McpConfigFile {
+  mcpServers?: Record<string, McpServerEntry>;
+}
+
+interface AllowRule {
+  files: string;
+  /** Symbol name pattern; without one the rule covers the whole file */
+  name?: string;
+}
+
+/** Requested name standing for every export of a file */
+const ALL_EXPORTS = '*';
+
+/** Tooling config files (`vitest.config.ts`) are loaded by their tools rather than imported */
+const CONFIG_FILE = /\.config\.[cm]?[jt]s$/;
+
+function readJson<T>(file: string): T | null {
+  try {
+    return JSON.parse(readFileSync(file, 'utf-8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Every concrete target in a package.json `exports` field; subpath patterns are skipped
+ */
+function collectExportTargets(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value.includes('*') ? [] : [value];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectExportTargets);
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).flatMap(collectExportTargets);
+  }
+  return [];
+}
+
+/**
+ * Files whose exports are only reported, never used, by other project files
+ */
+function isReportable(file: string): boolean {
+  return (isScriptFile(file) || extname(file) === '.py') &&
+    !isTestFile(file) && !CONFIG_FILE.test(file) && !file.endsWith('.d.ts');
+}
+
+/**
+ * Entry points of the project: package.json `bin`, `main`, `module` and `exports`, files run by
+ * .mcp.json servers and the configured globs. Build output paths map back to their sources.
+ */
+export function findEntryPoints(index: Index, options: UnusedOptions): string[] {
+  const files = getIndexedFiles(index);
+  const root = options.projectRoot;
+  const entries = new Set<string>();
+  const add = (target: string): void => {
+    const found = findPackageFile(root, target, files);
+    if (found) {
+      entries.add(found);
+    }
+  };
+
+  const manifest = readJson<PackageManifest>(join(root, 'package.json'));
+  if (manifest) {
+    const bin = typeof manifest.bin === 'string' ? [manifest.bin] : Object.values(manifest.bin ?? {});
+    [...bin, manifest.main, manifest.module, ...collectExportTargets(manifest.exports)]
+      .filter((target): target is string => typeof target === 'string')
+      .forEach(add);
+  }
+
+  // MCP servers run a file directly, either from the project or from this package installed in node_modules
+  const ownInstall = manifest?.name ? join(root, 'node_modules', manifest.name) : null;
+  const mcpConfig = readJson<McpConfigFile>(join(root, '.mcp.json'));
+  for (const server of Object.values(mcpConfig?.mcpServers ?? {})) {
+    for (const arg of server.args ?? []) {
+      if (!/\.[cm]?[jt]sx?$/.test(arg)) {
+        continue;
+      }
+      const path = isAbsolute(arg) ? arg : resolve(root, arg);
+      add(ownInstall && path.startsWith(`${ownInstall}${sep}`) ? relative(ownInstall, path) : relative(root, path));
+    }
+  }
+
+  for (const pattern of options.entryPoints ?? []) {
+    for (const file of files) {
+      if (minimatch(relative(root, file), pattern, { dot: true })) {
+        entries.add(file);
+      }
+    }
+  }
+
+  return Array.from(entries).sort();
+}
+
+function createAllowlist(patterns: string[], root: string): (file: string, name?: string) => boolean {
+  const rules: AllowRule[] = patterns.map((pattern) => {
+    const hash = pattern.lastIndexOf('#');
+    return hash === -1 ? { files: pattern } : { files: pattern.slice(0, hash) || '**', name: pattern.slice(hash + 1) };
+  });
+
+  return (file, name) => {
+    const path = relative(root, file);
+    return rules.some((rule) =>
+      minimatch(path, rule.files, { dot: true }) &&
+      (rule.name === undefined || (name !== undefined && minimatch(name, rule.name)))
+    );
+  };
+}
+
+/**
+ * Names an import asks of a file it resolves to; namespace and dynamic imports, Python module
+ * imports and `from pkg import module` take every export
+ */
+function requestedNames(imp: Import, target: string): string[] {
+  const moduleName = basename(target, '.py') === '__init__' ? basename(dirname(target)) : basename(target, '.py');
+  if (
+    imp.dynamic === true ||
+    imp.imported.some((name) => name.startsWith('* as ')) ||
+    (target.endsWith('.py') && (!imp.source || imp.imported.includes(moduleName)))
+  ) {
+    return [ALL_EXPORTS];
+  }
+  return imp.imported;
+}
+
+/**
+ * The local name an imported name is used under in the importing file
+ */
+function localName(name: string, imp: Import): string {
+  if (name.startsWith('* as ')) {
+    return name.slice('* as '.length);
+  }
+  // `import os.path` is used as `os.path.join()`
+  return imp.source ? name : name.split('.')[0];
+}
+
+/**
+ * Build the unused code report
+ * An export counts as used when another file imports it by name, through a namespace import or
+ * through `export *` barrels that are themselves used. Entry point exports are public API.
+ */
+export function findUnused(index: Index, options: UnusedOptions): UnusedReport {
+  const root = options.projectRoot;
+  const isAllowed = createAllowlist(options.allow ?? [], root);
+  const entryPoints = findEntryPoints(index, options);
+  let allowed = 0;
+
+  const contents = new Map<string, string>();
+  const readSource = (file: string): string => {
+    if (!contents.has(file)) {
+      try {
+        contents.set(file, readFileSync(file, 'utf-8'));
+      } catch {
+        contents.set(file, '');
+      }
+    }
+    return contents.get(file) ?? '';
+  };
+
+  // Names asked of each file, propagated through `export *` barrels
+  const requested = new Map<string, Set<string>>();
+  const request = (file: string, names: Iterable<string>): boolean => {
+    const set = requested.get(file) ?? new Set<string>();
+    requested.set(file, set);
+    const before = set.size;
+    for (const name of names) {
+      set.add(name);
+    }
+    return set.size > before;
+  };
+
+  const starExports: [string, string][] = [];
+  for (const [importer, imports] of index.imports.entries()) {
+    for (const imp of imports) {
+      for (const target of imp.resolved ?? []) {
+        if (target === importer) {
+          continue;
+        }
+        if (imp.reExport && imp.imported.includes('*')) {
+          starExports.push([importer, target]);
+        } else {
+          request(target, requestedNames(imp, target));
+        }
+      }
+    }
+  }
+  for (const entry of entryPoints) {
+    request(entry, [ALL_EXPORTS]);
+  }
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const [barrel, target] of starExports) {
+      const names = requested.get(barrel);
+      changed = (names !== undefined && request(target, names)) || changed;
+    }
+  }
+
+  const isDefaultExport = (file: string, symbol: SymbolInfo): boolean => {
+    const source = readSource(file);
+    const line = source.split('\n')[symbol.startLine - 1] ?? '';
+    const name = escapeRegExp(symbol.name);
+    return symbol.name === 'default' || /\bexport\s+default\b/.test(line) ||
+      new RegExp(`\\bexport\\s+default\\s+${name}\\b|\\b${name}\\s+as\\s+default\\b`).test(source);
+  };
+
+  const unusedExports: UnusedExport[] = [];
+  const entrySet = new Set(entryPoints);
+  for (const [file, symbols] of index.symbols.entries()) {
+    const names = requested.get(file) ?? new Set<string>();
+    if (!isReportable(file) || entrySet.has(file) || names.has(ALL_EXPORTS)) {
+      continue;
+    }
+
+    const exported = symbols.filter((symbol) => symbol.isExported && !symbol.parent);
+    const exportedNames = new Set(exported.map((symbol) => symbol.name));
+    // A default import brings the export in under a name the file doesn't declare
+    const defaultImported = Array.from(names).some((name) => !exportedNames.has(name));
+    const references = index.references.get(file) ?? [];
+
+    for (const symbol of exported) {
+      if (names.has(symbol.name) || (defaultImported && isDefaultExport(file, symbol))) {
+        continue;
+      }
+      if (isAllowed(file, symbol.name)) {
+        allowed++;
+        continue;
+      }
+      unusedExports.push({
+        name: symbol.name,
+        type: symbol.type,
+        file,
+        line: symbol.startLine,
+        usedInFile: references.some((reference) => reference.name === symbol.name)
+      });
+    }
+  }
+
+  // Orphans need somewhere to start from; without entry points everything would be one
+  const orphanFiles: string[] = [];
+  if (entryPoints.length > 0) {
+    const successors = new Map<string, string[]>();
+    for (const edge of buildDependencyGraph(index).edges) {
+      successors.set(edge.from, [...(successors.get(edge.from) ?? []), edge.to]);
+    }
+    const reached = new Set(entryPoints);
+    const queue = [...entryPoints];
+    for (let file = queue.shift(); file !== undefined; file = queue.shift()) {
+      for (const next of successors.get(file) ?? []) {
+        if (!reached.has(next)) {
+          reached.add(next);
+          queue.push(next);
+        }
+      }
+    }
+
+    for (const file of getIndexedFiles(index)) {
+      if (!isScriptFile(file) || !isReportable(file) || reached.has(file)) {
+        continue;
+      }
+      if (isAllowed(file)) {
+        allowed++;
+      } else {
+        orphanFiles.push(file);
+      }
+    }
+  }
+
+  // References skip aliases (`a as b`) and template literals, so confirm candidates against the source
+  const isUsedInSource = (file: string, name: string, local: string): boolean => {
+    const source = readSource(file);
+    const alias = new RegExp(`\\b${escapeRegExp(name)}\\s+as\\s+([\\w$]+)`).exec(source)?.[1];
+    // A use is not a property access (`obj.name`), but a spread (`...name`) is
+    const uses = source.match(new RegExp(`(?<![\\w$])(?<!(?:^|[^.])\\.)${escapeRegExp(alias ?? local)}(?![\\w$])`, 'g'));
+    return (uses?.length ?? 0) > 1;
+  };
+
+  const unusedImports: UnusedImport[] = [];
+  for (const [file, imports] of index.imports.entries()) {
+    if (!isScriptFile(file) && extname(file) !== '.py') {
+      continue;
+    }
+    const referenced = new Set((index.references.get(file) ?? []).map((reference) => reference.name));
+
+    for (const imp of imports.filter((candidate) => !candidate.reExport)) {
+      for (const rawName of imp.imported) {
+        const name = rawName.replace(/[()]/g, '').trim();
+        const local = localName(name, imp);
+        if (!name || name === '*' || referenced.has(local) || isUsedInSource(file, name, local)) {
+          continue;
+        }
+        unusedImports.push({ file, source: imp.source, name });
+      }
+    }
+  }
+
+  const byLocation = (a: UnusedExport, b: UnusedExport): number => a.file.localeCompare(b.file) || a.line - b.line;
+  return {
+    entryPoints,
+    unusedExports: unusedExports.sort(byLocation),
+    orphanFiles: orphanFiles.sort(),
+    unusedImports: unusedImports.sort((a, b) => a.file.localeCompare(b.file)),
+    allowed
+  };
+}
@@ -3,20 +3,23 @@
  * Watches source files and triggers index updates on changes
  */
 
-import { existsSync, readFileSync } from 'fs';
-import { join, relative } from 'path';
+import { relative } from 'path';
 
 import chokidar, { type FSWatcher } from 'chokidar';
-import ignore from 'ignore';
 
-import type { FileWatcher } from '../types.js';
-import { STANDARD_IGNORE_PATTERNS } from '../types.js';
+import type { FileWatcher, IndexRules } from '../types.js';
+
+import { createIndexRules } from './index-rules.js';
 
 const BATCH_DELAY_MS = 1500;
 
+/**
+ * @param rules - Files the index covers; defaults and ignore files when not given
+ */
 export function createFileWatcher(
   directory: string,
-  onChange: (files: string[]) => void
+  onChange: (files: string[]) => void,
+  rules: IndexRules = createIndexRules(directory)
 ): FileWatcher {
   let watcher: FSWatcher | null = null;
   const pendingChanges = new Set<string>();
@@ -46,15 +49,7 @@ export function createFileWatcher(
   function start(): void {
     if (watcher) return;
 
-    // Build ignore matcher using same logic as scanner for consistency
-    const ig = ignore().add(STANDARD_IGNORE_PATTERNS);
-
-    const gitignorePath = join(directory, '.gitignore');
-    if (existsSync(gitignorePath)) {
-      const gitignoreContent = readFileSync(gitignorePath, 'utf-8');
-      ig.add(gitignoreContent);
-    }
-
+    // Same rules as the scanner; sizes are checked when changed files are indexed
     watcher = chokidar.watch(directory, {
       ignored: (path: string, stats) => {
         // Get path relative to watch root
@@ -63,10 +58,8 @@ export function createFileWatcher(
         // Don't ignore the root or parent paths
         if (!rel || rel.startsWith('..')) return false;
 
-        // Append trailing slash for directories (ignore package expects this)
-        const candidate = stats?.isDirectory?.() ? `${rel}/` : rel;
-
-        return ig.ignores(candidate);
+        const isDirectory = stats?.isDirectory?.() === true;
+        return rules.skipReason(path, isDirectory) !== null && !(isDirectory && rules.mayContainIncluded(path));
       },
       persistent: true,
       ignoreInitial: true,
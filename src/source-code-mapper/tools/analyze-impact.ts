@@ -0,0 +1,75 @@
+/**
+ * MCP tool: analyze_impact
+ * Find the files, exported symbols and tests affected by changing files
+ */
+
+import { isAbsolute, resolve } from 'path';
+
+import { analyzeImpact, getChangedFiles } from '../services/impact.js';
+import type { ChangedFile, Index } from '../types.js';
+
+interface AnalyzeImpactParams {
+  files?: string[];
+  ref?: string;
+  depth?: number;
+  limit?: number;
+}
+
+export function handleAnalyzeImpact(
+  index: Index | null,
+  indexingProgress: { isIndexing: boolean; progress: number; total: number },
+  params: AnalyzeImpactParams,
+  projectRoot = process.cwd()
+): Record<string, unknown> {
+  if (indexingProgress.isIndexing) {
+    const percent = indexingProgress.total > 0
+      ? Math.round((indexingProgress.progress / indexingProgress.total) * 100)
+      : 0;
+    return {
+      success: false,
+      error: `Indexing in progress: ${percent}% (${indexingProgress.progress}/${indexingProgress.total} files), try again in a few seconds`
+    };
+  }
+
+  if (!index) {
+    return {
+      success: false,
+      error: 'Index not initialized'
+    };
+  }
+
+  const { files = [], ref, depth, limit = 50 } = params;
+
+  if (files.length === 0 && !ref) {
+    return {
+      success: false,
+      error: 'Either files or ref parameter is required'
+    };
+  }
+
+  const changes: ChangedFile[] = files.map((file) => ({ file: isAbsolute(file) ? file : resolve(projectRoot, file) }));
+  if (ref) {
+    try {
+      const listed = new Set(changes.map((change) => change.file));
+      changes.push(...getChangedFiles(ref, projectRoot).filter((change) => !listed.has(change.file)));
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  const report = analyzeImpact(index, changes, depth !== undefined ? { maxDepth: Math.max(1, depth) } : {});
+
+  return {
+    success: true,
+    data: {
+      ...report,
+      totalAffected: report.affected.length,
+      totalTests: report.tests.length,
+      affected: report.affected.slice(0, limit),
+      tests: report.tests.slice(0, limit)
+    }
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * MCP tool: find_references
+ * Find call sites and other uses of a symbol
+ */
+
+import { findDefinitions, findReferences } from '../services/references.js';
+import type { Index, ReferenceKind } from '../types.js';
+
+interface FindReferencesParams {
+  symbol: string;
+  filepath?: string;
+  kind?: ReferenceKind;
+  limit?: number;
+}
+
+export function handleFindReferences(
+  index: Index | null,
+  indexingProgress: { isIndexing: boolean; progress: number; total: number },
+  params: FindReferencesParams
+): Record<string, unknown> {
+  if (indexingProgress.isIndexing) {
+    const percent = indexingProgress.total > 0
+      ? Math.round((indexingProgress.progress / indexingProgress.total) * 100)
+      : 0;
+    return {
+      success: false,
+      error: `Indexing in progress: ${percent}% (${indexingProgress.progress}/${indexingProgress.total} files), try again in a few seconds`
+    };
+  }
+
+  if (!index) {
+    return {
+      success: false,
+      error: 'Index not initialized'
+    };
+  }
+
+  const { symbol, filepath, kind, limit = 100 } = params;
+
+  if (!symbol) {
+    return {
+      success: false,
+      error: 'symbol parameter is required'
+    };
+  }
+
+  const definitions = findDefinitions(index, symbol, filepath);
+  const references = findReferences(index, symbol, filepath, kind);
+
+  return {
+    success: true,
+    data: {
+      symbol,
+      definitions,
+      total: references.length,
+      references: references.slice(0, limit)
+    }
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * MCP tool: find_unused
+ * Report unused exports, orphan files and unused imports
+ */
+
+import { relative } from 'path';
+
+import { minimatch } from 'minimatch';
+
+import { loadScmConfig } from '../core/config.js';
+import { findUnused } from '../services/unused.js';
+import type { Index } from '../types.js';
+
+interface FindUnusedParams {
+  kind?: 'exports' | 'files' | 'imports' | 'all';
+  path?: string;
+  limit?: number;
+}
+
+export function handleFindUnused(
+  index: Index | null,
+  indexingProgress: { isIndexing: boolean; progress: number; total: number },
+  params: FindUnusedParams,
+  projectRoot = process.cwd()
+): Record<string, unknown> {
+  if (indexingProgress.isIndexing) {
+    const percent = indexingProgress.total > 0
+      ? Math.round((indexingProgress.progress / indexingProgress.total) * 100)
+      : 0;
+    return {
+      success: false,
+      error: `Indexing in progress: ${percent}% (${indexingProgress.progress}/${indexingProgress.total} files), try again in a few seconds`
+    };
+  }
+
+  if (!index) {
+    return {
+      success: false,
+      error: 'Index not initialized'
+    };
+  }
+
+  const { kind = 'all', path, limit = 50 } = params;
+
+  let config;
+  try {
+    config = loadScmConfig(projectRoot);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+
+  const report = findUnused(index, {
+    projectRoot,
+    entryPoints: config.unused?.entry_points,
+    allow: config.unused?.allow
+  });
+
+  const matches = (file: string): boolean => !path || minimatch(relative(projectRoot, file), path, { dot: true });
+  const unusedExports = report.unusedExports.filter((entry) => matches(entry.file));
+  const orphanFiles = report.orphanFiles.filter(matches);
+  const unusedImports = report.unusedImports.filter((entry) => matches(entry.file));
+
+  return {
+    success: true,
+    data: {
+      entryPoints: report.entryPoints,
+      allowed: report.allowed,
+      ...(kind === 'all' || kind === 'exports'
+        ? { totalUnusedExports: unusedExports.length, unusedExports: unusedExports.slice(0, limit) }
+        : {}),
+      ...(kind === 'all' || kind === 'files'
+        ? { totalOrphanFiles: orphanFiles.length, orphanFiles: orphanFiles.slice(0, limit) }
+        : {}),
+      ...(kind === 'all' || kind === 'imports'
+        ? { totalUnusedImports: unusedImports.length, unusedImports: unusedImports.slice(0, limit) }
+        : {})
+    }
+  };
+}
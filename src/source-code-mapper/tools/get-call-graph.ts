@@ -0,0 +1,68 @@
+/**
+ * MCP tool: get_call_graph
+ * Get the functions that call a function, or that it calls, to a given depth
+ */
+
+import { getCallGraph } from '../services/references.js';
+import type { CallGraphDirection, Index } from '../types.js';
+
+interface GetCallGraphParams {
+  symbol: string;
+  filepath?: string;
+  direction?: CallGraphDirection;
+  depth?: number;
+}
+
+const MAX_DEPTH = 5;
+
+export function handleGetCallGraph(
+  index: Index | null,
+  indexingProgress: { isIndexing: boolean; progress: number; total: number },
+  params: GetCallGraphParams
+): Record<string, unknown> {
+  if (indexingProgress.isIndexing) {
+    const percent = indexingProgress.total > 0
+      ? Math.round((indexingProgress.progress / indexingProgress.total) * 100)
+      : 0;
+    return {
+      success: false,
+      error: `Indexing in progress: ${percent}% (${indexingProgress.progress}/${indexingProgress.total} files), try again in a few seconds`
+    };
+  }
+
+  if (!index) {
+    return {
+      success: false,
+      error: 'Index not initialized'
+    };
+  }
+
+  const { symbol, filepath, direction = 'both', depth = 1 } = params;
+
+  if (!symbol) {
+    return {
+      success: false,
+      error: 'symbol parameter is required'
+    };
+  }
+
+  if (!['callers', 'callees', 'both'].includes(direction)) {
+    return {
+      success: false,
+      error: `Invalid direction: ${direction}. Expected callers, callees or both`
+    };
+  }
+
+  const graph = getCallGraph(index, symbol, direction, Math.min(Math.max(1, depth), MAX_DEPTH), filepath);
+  if (!graph) {
+    return {
+      success: false,
+      error: filepath ? `Symbol ${symbol} not found in ${filepath}` : `Symbol not found: ${symbol}`
+    };
+  }
+
+  return {
+    success: true,
+    data: graph
+  };
+}
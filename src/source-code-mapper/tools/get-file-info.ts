@@ -1,18 +1,25 @@
 /**
  * MCP tool: get_file_info
- * Get complete information about a file (symbols, imports, exports)
+ * Get complete information about a file (symbols, imports, exports), or a compact outline of a
+ * file or directory
  */
 
+import { isAbsolute, resolve } from 'path';
+
+import { buildOutline } from '../services/outline.js';
 import type { Index, FileInfo } from '../types.js';
 
 interface GetFileInfoParams {
   filepath: string;
+  mode?: 'full' | 'outline';
+  max_tokens?: number;
 }
 
 export function handleGetFileInfo(
   index: Index | null,
   indexingProgress: { isIndexing: boolean; progress: number; total: number },
-  params: GetFileInfoParams
+  params: GetFileInfoParams,
+  projectRoot = process.cwd()
 ): Record<string, unknown> {
   if (indexingProgress.isIndexing) {
     const percent = indexingProgress.total > 0
@@ -31,7 +38,7 @@ export function handleGetFileInfo(
     };
   }
 
-  const { filepath } = params;
+  const { filepath, mode = 'full', max_tokens: maxTokens = 2000 } = params;
 
   if (!filepath) {
     return {
@@ -40,12 +47,30 @@ export function handleGetFileInfo(
     };
   }
 
+  if (mode === 'outline') {
+    const path = isAbsolute(filepath) ? filepath : resolve(projectRoot, filepath);
+    const outline = buildOutline(index, path.replace(/[\\/]+$/, '') || path, { projectRoot, maxTokens });
+    if (outline.files === 0) {
+      return {
+        success: false,
+        error: `No indexed files at ${filepath}`
+      };
+    }
+    return {
+      success: true,
+      data: outline
+    };
+  }
+
   const symbols = index.symbols.get(filepath) ?? [];
   const imports = index.imports.get(filepath) ?? [];
 
-  const exports = symbols
-    .filter(s => s.isExported)
-    .map(s => s.name);
+  // Re-exported names count too; `export *` has no names to list. Public members of exported
+  // classes and namespaces are reached through their parent, so they aren't listed.
+  const exports = [
+    ...symbols.filter(s => s.isExported && !s.parent).map(s => s.name),
+    ...imports.filter(imp => imp.reExport).flatMap(imp => imp.imported.filter(name => name !== '*'))
+  ];
 
   const fileInfo: FileInfo = {
     file: filepath,
@@ -0,0 +1,42 @@
+/**
+ * MCP tool: get_index_status
+ * Report indexing progress and how much of the index has embeddings
+ */
+
+import { countMissingEmbeddings } from '../core/status.js';
+import type { Index, IndexStatus } from '../types.js';
+
+export function handleGetIndexStatus(index: Index | null, status: IndexStatus): Record<string, unknown> {
+  const missingEmbeddings = index && !status.isIndexing ? countMissingEmbeddings(index) : null;
+
+  return {
+    success: true,
+    data: {
+      phase: status.phase,
+      ready: index !== null && !status.isIndexing,
+      files: {
+        checked: status.progress,
+        total: status.total,
+        changed: status.changedFiles,
+        removed: status.removedFiles
+      },
+      embeddings: {
+        mode: status.embeddingMode,
+        embedded: status.embedded,
+        pending: status.pendingEmbeddings,
+        ...(missingEmbeddings !== null ? { missing: missingEmbeddings } : {}),
+        ...(status.embeddingError ? { error: status.embeddingError } : {})
+      },
+      index: index && !status.isIndexing
+        ? {
+          files: index.metadata.fileCount,
+          trackedFiles: index.files.size,
+          symbols: index.metadata.symbolCount,
+          indexedAt: new Date(index.metadata.indexedAt).toISOString()
+        }
+        : null,
+      startedAt: new Date(status.startedAt).toISOString(),
+      updatedAt: new Date(status.updatedAt).toISOString()
+    }
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * MCP tool: get_symbol_history
+ * Get the commits that changed a symbol, with the stories they belong to
+ */
+
+import { isAbsolute, relative, resolve } from 'path';
+
+import { getSymbolHistory } from '../services/history.js';
+import { findSymbols } from '../services/symbol-source.js';
+import type { Index } from '../types.js';
+
+import { readConfig } from '../../kanban/services/storage.js';
+
+// @type-duplicate-allowed - Same lookup parameters as the other symbol tools, with a commit limit
+interface GetSymbolHistoryParams {
+  symbol: string;
+  filepath?: string;
+  limit?: number;
+}
+
+/** Other symbols of the same name listed, so the caller can narrow by file */
+const MAX_OTHER_MATCHES = 10;
+
+export async function handleGetSymbolHistory(
+  index: Index | null,
+  indexingProgress: { isIndexing: boolean; progress: number; total: number },
+  params: GetSymbolHistoryParams,
+  projectRoot = process.cwd()
+): Promise<Record<string, unknown>> {
+  if (indexingProgress.isIndexing) {
+    const percent = indexingProgress.total > 0
+      ? Math.round((indexingProgress.progress / indexingProgress.total) * 100)
+      : 0;
+    return {
+      success: false,
+      error: `Indexing in progress: ${percent}% (${indexingProgress.progress}/${indexingProgress.total} files), try again in a few seconds`
+    };
+  }
+
+  if (!index) {
+    return {
+      success: false,
+      error: 'Index not initialized'
+    };
+  }
+
+  const { symbol, filepath, limit } = params;
+
+  if (!symbol) {
+    return {
+      success: false,
+      error: 'symbol parameter is required'
+    };
+  }
+
+  const [match, ...others] = findSymbols(index, symbol, filepath && !isAbsolute(filepath) ? resolve(projectRoot, filepath) : filepath);
+
+  if (!match) {
+    return {
+      success: false,
+      error: `No symbol named "${symbol}"${filepath ? ` in ${filepath}` : ''} found. Use search_code to look it up.`
+    };
+  }
+
+  try {
+    // Story IDs are only recognized with the board's phases as prefixes
+    const { phases } = await readConfig();
+    const history = await getSymbolHistory(match, { projectRoot, limit, phases });
+    return {
+      success: true,
+      data: {
+        ...history,
+        ...(others.length > 0
+          ? {
+            otherMatches: others
+              .slice(0, MAX_OTHER_MATCHES)
+              .map((other) => `${relative(projectRoot, other.file)}:${other.symbol.startLine} ${other.symbol.qualifiedName ?? other.symbol.name}`)
+          }
+          : {})
+      }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * MCP tool: get_symbol_source
+ * Get the exact source of a symbol by name or qualified name
+ */
+
+import { isAbsolute, resolve } from 'path';
+
+import { getSymbolSource } from '../services/symbol-source.js';
+import type { Index } from '../types.js';
+
+interface GetSymbolSourceParams {
+  symbol: string;
+  filepath?: string;
+  context?: number;
+  limit?: number;
+}
+
+export function handleGetSymbolSource(
+  index: Index | null,
+  indexingProgress: { isIndexing: boolean; progress: number; total: number },
+  params: GetSymbolSourceParams,
+  projectRoot = process.cwd()
+): Record<string, unknown> {
+  if (indexingProgress.isIndexing) {
+    const percent = indexingProgress.total > 0
+      ? Math.round((indexingProgress.progress / indexingProgress.total) * 100)
+      : 0;
+    return {
+      success: false,
+      error: `Indexing in progress: ${percent}% (${indexingProgress.progress}/${indexingProgress.total} files), try again in a few seconds`
+    };
+  }
+
+  if (!index) {
+    return {
+      success: false,
+      error: 'Index not initialized'
+    };
+  }
+
+  const { symbol, filepath, context = 0, limit = 5 } = params;
+
+  if (!symbol) {
+    return {
+      success: false,
+      error: 'symbol parameter is required'
+    };
+  }
+
+  const matches = getSymbolSource(index, symbol, {
+    filepath: filepath && !isAbsolute(filepath) ? resolve(projectRoot, filepath) : filepath,
+    context
+  });
+
+  if (matches.length === 0) {
+    return {
+      success: false,
+      error: `No symbol named "${symbol}"${filepath ? ` in ${filepath}` : ''} found. Use search_code to look it up.`
+    };
+  }
+
+  return {
+    success: true,
+    data: {
+      symbol,
+      total: matches.length,
+      matches: matches.slice(0, limit)
+    }
+  };
+}
@@ -1,8 +1,9 @@
 /**
  * MCP tool: search_code
- * Search for symbols in the codebase
+ * Search for symbols in the codebase; the query may carry filters (`kind:function path:src/**`)
  */
 
+import { parseSearchQuery } from '../services/query.js';
 import { searchSymbols } from '../services/search.js';
 import type { Index, SearchMode, SearchFilters } from '../types.js';
 
@@ -12,6 +13,7 @@ interface SearchSymbolsParams {
   mode?: SearchMode;
   filters?: SearchFilters;
   limit?: number;
+  explain?: boolean;
 }
 
 export async function handleSearchCode(
@@ -37,7 +39,7 @@ export async function handleSearchCode(
     };
   }
 
-  const { query, mode = 'semantic', filters, limit = 10 } = params;
+  const { query, filters, limit = 10, explain = false } = params;
 
   if (!query) {
     return {
@@ -46,6 +48,26 @@ export async function handleSearchCode(
     };
   }
 
+  const parsed = parseSearchQuery(query);
+  if (parsed.errors.length > 0) {
+    return {
+      success: false,
+      error: `Invalid query: ${parsed.errors.join('; ')}`
+    };
+  }
+
+  const queryFilters = { ...filters, ...parsed.filters };
+  const hasFilters = Object.keys(queryFilters).length > 0;
+  if (!parsed.text && !hasFilters) {
+    return {
+      success: false,
+      error: 'Query has neither search text nor filters'
+    };
+  }
+
+  // Filters alone list every matching symbol, which only exact mode does
+  const mode = parsed.text ? parsed.mode ?? params.mode ?? 'semantic' : 'exact';
+
   // Check embeddings availability for semantic search
   if (mode === 'semantic' && !embeddingsState.available) {
     const nextRetryMinutes = Math.ceil(
@@ -57,7 +79,7 @@ export async function handleSearchCode(
     };
   }
 
-  const results = await searchSymbols(index, query, mode, filters, limit);
+  const results = await searchSymbols(index, parsed.text, mode, hasFilters ? queryFilters : undefined, limit, explain === true);
   return {
     success: true,
     data: results
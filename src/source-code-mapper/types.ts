@@ -3,8 +3,38 @@
  */
 
 import type { WithScore } from '../shared/types/common.js';
-
-export type SymbolType = 'function' | 'class' | 'interface' | 'type' | 'const' | 'enum';
+import type { EmbeddingModelInfo } from '../shared/types/embeddings.js';
+import type { IgnoreSource } from '../shared/types/ignore-rules.js';
+import type { VectorIndex } from '../shared/types/vector-index.js';
+
+export type SymbolType =
+  | 'function'
+  | 'method'
+  | 'class'
+  | 'interface'
+  | 'type'
+  | 'const'
+  | 'variable'
+  | 'enum'
+  | 'property'
+  | 'field'
+  | 'namespace'
+  | 'module';
+
+export const SYMBOL_TYPES: SymbolType[] = [
+  'function',
+  'method',
+  'class',
+  'interface',
+  'type',
+  'const',
+  'variable',
+  'enum',
+  'property',
+  'field',
+  'namespace',
+  'module'
+];
 
 export interface SymbolInfo {
   name: string;
@@ -13,6 +43,12 @@ export interface SymbolInfo {
   endLine: number;
   isExported: boolean;
   signature?: string;
+  /** First paragraph of the symbol's doc comment, where the parser reads them */
+  doc?: string;
+  /** Qualified name of the class, interface, namespace or module the symbol is declared in */
+  parent?: string;
+  /** `parent.name` for nested symbols, e.g. `TokenStore.load` */
+  qualifiedName?: string;
   file: string;
 }
 
@@ -20,6 +56,265 @@ export interface Import {
   source: string;
   imported: string[];
   usedBy: string[];
+  /** `import type` / `export type`: erased at runtime */
+  typeOnly?: boolean;
+  /** Re-export (`export { a } from`, `export * from`) rather than an import */
+  reExport?: boolean;
+  /** Dynamic `import()`: the module is loaded at runtime with every export available */
+  dynamic?: boolean;
+  /**
+   * Project files the import resolves to; empty for packages, the standard library and
+   * anything that can't be resolved. A Go import resolves to every file of the package.
+   */
+  resolved?: string[];
+}
+
+/**
+ * Resolves an import in a file to the project files it points at
+ */
+export type ModuleResolver = (importingFile: string, imp: Import) => string[];
+
+/**
+ * The package.json fields module resolution and entry point discovery read
+ */
+export interface PackageManifest {
+  name?: string;
+  main?: string;
+  module?: string;
+  bin?: string | Record<string, string>;
+  exports?: unknown;
+}
+
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  /** Every import behind the edge is type-only */
+  typeOnly?: boolean;
+}
+
+/**
+ * File-to-file dependency graph built from resolved imports
+ */
+export interface DependencyGraph {
+  files: string[];
+  edges: DependencyEdge[];
+  /** Strongly connected groups of files that import each other, each sorted */
+  cycles: string[][];
+}
+
+export interface DependencyGraphOptions {
+  /** Leave out edges whose imports are all type-only, which disappear at runtime */
+  runtimeOnly?: boolean;
+}
+
+export type GraphFormat = 'dot' | 'mermaid' | 'json';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['dot', 'mermaid', 'json'];
+
+/**
+ * How a symbol is used at a reference site
+ * - call: invoked or instantiated, e.g. `runConfig(config)` or `new Watcher()`
+ * - reference: any other use of an imported or file-local name (passed as a value, used as a type)
+ */
+export type ReferenceKind = 'call' | 'reference';
+
+/**
+ * A use of a symbol name inside a file; the file is the key it is stored under in the index
+ */
+export interface SymbolReference {
+  name: string;
+  kind: ReferenceKind;
+  line: number;
+  /** Innermost function or class containing the reference, absent at module level */
+  enclosing?: string;
+}
+
+export interface ReferenceLocation extends SymbolReference {
+  file: string;
+}
+
+export type CallGraphDirection = 'callers' | 'callees' | 'both';
+
+/**
+ * A function in a call graph, with the functions that call it (or that it calls) below it
+ */
+export interface CallGraphNode {
+  name: string;
+  file: string;
+  line: number;
+  /** Lines where the call happens: in this node for callers, in the parent node for callees */
+  callSites: number[];
+  /** Next level of the graph; absent at the depth limit, empty when there is nothing further */
+  children?: CallGraphNode[];
+  /** Already expanded higher up the same path (recursion), so not expanded again */
+  recursive?: boolean;
+}
+
+export interface CallGraph {
+  symbol: string;
+  file: string;
+  line: number;
+  depth: number;
+  callers?: CallGraphNode[];
+  callees?: CallGraphNode[];
+}
+
+/**
+ * A file being changed; without lines the whole file counts as changed
+ */
+export interface ChangedFile {
+  file: string;
+  /** Changed line ranges (1-based, inclusive) on the new side of the diff */
+  lines?: ChangedLines[];
+}
+
+export interface ChangedLines {
+  start: number;
+  end: number;
+}
+
+/**
+ * An exported top-level symbol of a changed file whose lines overlap the change
+ */
+export interface TouchedSymbol {
+  name: string;
+  type: SymbolType;
+  file: string;
+  line: number;
+}
+
+/**
+ * A file that imports a changed file, directly (depth 1) or through other files
+ */
+export interface ImpactedFile {
+  file: string;
+  depth: number;
+  /** The imported file the change reaches this one through */
+  via: string;
+  /** Touched symbols this file imports by name; direct importers only */
+  symbols?: string[];
+}
+
+export interface ImpactedTest extends ImpactedFile {
+  /** Why the test is likely to exercise the change */
+  reason: string;
+}
+
+export interface ImpactReport {
+  changed: ChangedFile[];
+  touchedSymbols: TouchedSymbol[];
+  /** Affected non-test files, nearest first */
+  affected: ImpactedFile[];
+  /** Affected test files, most likely to exercise the change first */
+  tests: ImpactedTest[];
+}
+
+export interface ImpactOptions {
+  /** Levels of importers to follow; unlimited by default */
+  maxDepth?: number;
+}
+
+/**
+ * An exported top-level symbol no other file imports
+ */
+export interface UnusedExport {
+  name: string;
+  type: SymbolType;
+  file: string;
+  line: number;
+  /** Referenced inside its own file, so only the `export` is unneeded */
+  usedInFile: boolean;
+}
+
+/**
+ * An imported name the importing file never uses
+ */
+export interface UnusedImport {
+  file: string;
+  source: string;
+  name: string;
+}
+
+export interface UnusedReport {
+  /** Files reachability starts from: package.json bin/main/exports, .mcp.json servers, configured entry points */
+  entryPoints: string[];
+  unusedExports: UnusedExport[];
+  /** Script files not reachable from any entry point; empty when no entry points were found */
+  orphanFiles: string[];
+  unusedImports: UnusedImport[];
+  /** Findings left out by the allowlist */
+  allowed: number;
+}
+
+export interface UnusedOptions {
+  projectRoot: string;
+  /** Extra entry point globs, relative to the project root */
+  entryPoints?: string[];
+  /** `glob` (every export of matching files, and the files themselves) or `glob#name` */
+  allow?: string[];
+}
+
+/**
+ * `unused` section of cc-devtools/scm.yaml
+ */
+export interface UnusedConfig {
+  entry_points?: string[];
+  allow?: string[];
+}
+
+/**
+ * `index` section of cc-devtools/scm.yaml
+ * Patterns use .gitignore syntax and are relative to the project root.
+ */
+export interface IndexConfig {
+  /** Indexed even when default patterns, ignore files or `exclude` leave them out */
+  include?: string[];
+  exclude?: string[];
+  /** Larger files are skipped, in bytes; `512KB`/`2MB` in the file (default: 1MB) */
+  max_file_size?: number;
+  /** Pattern -> language to parse matching files as, whatever their extension */
+  languages?: Record<string, string>;
+}
+
+/**
+ * Contents of cc-devtools/scm.yaml
+ */
+export interface ScmConfigFile {
+  index?: IndexConfig;
+  unused?: UnusedConfig;
+}
+
+/**
+ * Why a path was left out of the index: ignored by the default patterns, a `.gitignore`, a
+ * `.ignore` or `index.exclude`; a binary file; or a file over the size limit
+ */
+export type SkipReason = IgnoreSource | 'exclude' | 'binary' | 'too-large';
+
+export interface SkippedPaths {
+  count: number;
+  /** A few of the paths, relative to the project root; directories end in `/` */
+  examples: string[];
+}
+
+/**
+ * Paths skipped by the last full scan, by reason. An ignored directory counts once.
+ */
+export type SkippedFiles = Partial<Record<SkipReason, SkippedPaths>>;
+
+/**
+ * Which files the index covers and how they are parsed, from ignore files and scm.yaml
+ */
+export interface IndexRules {
+  readonly maxFileSize: number;
+  /**
+   * Why a path is left out of the index, or null if it is indexed
+   * @param size - File size, when known; directories have none
+   */
+  skipReason(path: string, isDirectory: boolean, size?: number): SkipReason | null;
+  /** Whether a skipped directory may hold `include`d files, so it is scanned anyway */
+  mayContainIncluded(directory: string): boolean;
+  /** Language to parse a file as, or null for the generic parser */
+  getLanguage(file: string): string | null;
 }
 
 export interface FileImports {
@@ -34,24 +329,282 @@ export interface FileInfo {
   exports: string[];
 }
 
+export interface SymbolSource {
+  name: string;
+  qualifiedName?: string;
+  type: SymbolType;
+  file: string;
+  startLine: number;
+  endLine: number;
+  signature?: string;
+  /** Source of the symbol with the requested context lines around it */
+  source: string;
+  /** Lines `source` spans, context included */
+  sourceStart: number;
+  sourceEnd: number;
+}
+
+export interface SymbolMatch {
+  file: string;
+  symbol: SymbolInfo;
+}
+
+export interface SymbolCommit {
+  hash: string;
+  author: string;
+  email: string;
+  /** Author date, ISO 8601 */
+  date: string;
+  subject: string;
+  /** Message without the subject line; absent when empty */
+  body?: string;
+  /** Feature branch the commit was merged from, or is still on */
+  branch?: string;
+  /** Story IDs from the message, the branch and the message of the merge that brought it in */
+  storyIds: string[];
+}
+
+export interface SymbolHistory {
+  name: string;
+  qualifiedName?: string;
+  type: SymbolType;
+  /** Relative to the project root */
+  file: string;
+  startLine: number;
+  endLine: number;
+  /** Commits that changed the symbol's lines, newest first */
+  commits: SymbolCommit[];
+  /** Story IDs of those commits, newest first */
+  storyIds: string[];
+  /** The file differs from HEAD, so the lines traced may be off where it was edited */
+  uncommittedChanges: boolean;
+}
+
+export interface SymbolHistoryOptions {
+  projectRoot: string;
+  /** Maximum commits to return (default: 10, at most 50) */
+  limit?: number;
+  /** Kanban phases, the only prefixes recognized as story IDs in commit messages */
+  phases?: string[];
+}
+
+export interface SymbolSourceOptions {
+  /** Only look in this file */
+  filepath?: string;
+  /** Lines of context before and after the symbol */
+  context?: number;
+}
+
+/**
+ * How much an outline shows, from most to least: every symbol with signatures, top-level
+ * symbols with signatures, top-level symbol names, file names with symbol counts
+ */
+export type OutlineDetail = 'full' | 'top-level' | 'names' | 'files';
+
+export const OUTLINE_DETAILS: OutlineDetail[] = ['full', 'top-level', 'names', 'files'];
+
+export interface OutlineOptions {
+  projectRoot: string;
+  /** Approximate token budget for the outline text */
+  maxTokens: number;
+}
+
+export interface Outline {
+  /** File or directory outlined, relative to the project root */
+  path: string;
+  detail: OutlineDetail;
+  files: number;
+  symbols: number;
+  /** Files left out because even file names alone exceeded the budget */
+  omittedFiles: number;
+  estimatedTokens: number;
+  outline: string;
+}
+
+/**
+ * What a file's index entries were built from, so unchanged files are skipped on startup
+ */
+export interface IndexedFile {
+  /** SHA-1 of the file content */
+  hash: string;
+  /** Parser and version that produced the entries, e.g. `typescript@2` */
+  parser: string;
+  /** Size and modification time when hashed; while both match, the file isn't read again */
+  size: number;
+  mtimeMs: number;
+}
+
 export interface Index {
   symbols: Map<string, SymbolInfo[]>;
   imports: Map<string, Import[]>;
+  /** Call and usage sites per file, for find_references and get_call_graph */
+  references: Map<string, SymbolReference[]>;
   embeddings: Map<string, Float32Array>;
+  /** Nearest-neighbour index over embeddings, persisted in a sibling -vectors.msgpack file */
+  vectors?: VectorIndex;
+  /** Every scanned file, including those without symbols or imports */
+  files: Map<string, IndexedFile>;
   metadata: IndexMetadata;
 }
 
+/**
+ * Parser version per language, recorded for every indexed file. Bump a language's version when
+ * its parser output changes, so files it parsed are re-parsed on the next startup.
+ */
+export const PARSER_VERSIONS: Record<string, number> = {
+  typescript: 2,
+  javascript: 2
+};
+
+/** Version of parsers not listed in PARSER_VERSIONS */
+export const DEFAULT_PARSER_VERSION = 1;
+
+/**
+ * Stage of indexing: `scanning` lists files, `parsing` re-parses changed ones, `embedding`
+ * computes vectors for new symbols in the background while queries are answered
+ */
+export type IndexingPhase = 'idle' | 'scanning' | 'parsing' | 'embedding';
+
+/**
+ * Where symbol embeddings are computed: a worker thread, the server's own thread (when no
+ * worker can be started) or nowhere, when no embedding model could be loaded
+ */
+export type EmbeddingMode = 'worker' | 'in-process' | 'unavailable';
+
+export interface IndexStatus {
+  phase: IndexingPhase;
+  /** The first index is being built and queries can't be answered yet */
+  isIndexing: boolean;
+  /** Files checked so far in the scanning and parsing phases */
+  progress: number;
+  total: number;
+  /** Files re-parsed because they were new, changed or parsed by an older parser */
+  changedFiles: number;
+  removedFiles: number;
+  /** Symbols waiting for an embedding */
+  pendingEmbeddings: number;
+  embedded: number;
+  embeddingMode: EmbeddingMode;
+  /** Last embedding failure; embedding stops until the next startup */
+  embeddingError?: string;
+  startedAt: number;
+  updatedAt: number;
+  /** Process writing the status, so readers can tell whether it is still running */
+  pid: number;
+}
+
+/**
+ * Message from the indexer to the embedding worker
+ */
+export interface EmbeddingWorkerRequest {
+  id: number;
+  texts: string[];
+}
+
+/**
+ * Reply from the embedding worker: one vector (or null) per text, or why the batch failed
+ */
+export interface EmbeddingWorkerResponse {
+  id: number;
+  embeddings?: Array<number[] | null>;
+  error?: string;
+}
+
+/**
+ * Computes embeddings for batches of texts
+ */
+export interface BatchEmbedder {
+  readonly mode: EmbeddingMode;
+  embed(texts: string[]): Promise<Array<number[] | null>>;
+  close(): Promise<void>;
+}
+
+/**
+ * Symbols waiting for embeddings, embedded in batches in the background
+ */
+export interface EmbeddingQueue {
+  readonly mode: EmbeddingMode;
+  /** Queue a file's symbols, replacing any still queued for it */
+  add(file: string, symbols: SymbolInfo[]): void;
+  /** Drop a file's queued symbols and ignore results still on their way */
+  remove(file: string): void;
+  pending(): number;
+  embedded(): number;
+  /** Why embedding stopped, if it failed */
+  error(): string | undefined;
+  /** Resolves once nothing is queued or embedding has failed */
+  drain(): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Progress of scanning the project and re-parsing changed files
+ */
+export interface IndexingProgress {
+  phase: 'scanning' | 'parsing';
+  totalFiles: number;
+  processedFiles: number;
+  changedFiles: number;
+  removedFiles: number;
+}
+
+export interface IndexingOptions {
+  onProgress?: (progress: IndexingProgress) => void;
+  /** Queue for symbol embeddings; without one, new symbols are embedded before indexing returns */
+  embeddings?: EmbeddingQueue;
+  /** Files to skip and language overrides; read from the project when a full scan has none */
+  rules?: IndexRules;
+}
+
+export interface EmbeddingQueueOptions {
+  /** Texts sent to the embedder at once (default: 32) */
+  batchSize?: number;
+  /** Called after every batch */
+  onBatch?: () => void;
+}
+
 // @type-duplicate-allowed
 export type IndexMetadata = {
   version: string;
   indexedAt: number;
   fileCount: number;
   symbolCount: number;
+  /** Model that produced the embeddings; absent for indexes written before it was recorded */
+  embeddingModel?: EmbeddingModelInfo;
+  /** Paths left out by the last full scan */
+  skipped?: SkippedFiles;
 };
 
 export interface SearchFilters {
   type?: SymbolType[];
   exported_only?: boolean;
+  /** Only exported symbols when true, only symbols that aren't exported when false */
+  exported?: boolean;
+  /** Only members of this class, interface, namespace or module, by qualified name */
+  parent?: string;
+  /**
+   * Globs the file must match one of; a relative glob matches the end of the path, so
+   * `src/web/**` matches files under any `src/web` directory
+   */
+  path?: string[];
+  /** Languages the file must be in one of, by name (`typescript`) or extension (`ts`) */
+  language?: string[];
+  /** Regular expression the symbol's name or qualified name must match */
+  name?: string;
+}
+
+/**
+ * A `search_code` query split into free text and filters, e.g.
+ * `kind:function exported:true path:src/web/** lang:ts name:/^use[A-Z]/ "session"`
+ */
+export interface ParsedSearchQuery {
+  /** Words and quoted phrases that aren't filters */
+  text: string;
+  filters: SearchFilters;
+  /** Set by a `mode:` term */
+  mode?: SearchMode;
+  /** Terms that couldn't be parsed; the rest of the query still applies */
+  errors: string[];
 }
 
 export type SearchResult = WithScore<SymbolInfo>;
@@ -169,19 +722,25 @@ export const SUPPORTED_LANGUAGES: LanguageConfig[] = [
   { name: 'comment', extensions: [] },
 ];
 
+/**
+ * Paths the code index skips unless `index.include` names them, in .gitignore syntax
+ * Directory names match at any depth, so nested `node_modules/` are skipped too.
+ */
 export const STANDARD_IGNORE_PATTERNS = [
-  'node_modules/**',
-  '.venv/**',
-  'venv/**',
-  '__pycache__/**',
-  'vendor/**',
-  'target/**',
-  'dist/**',
-  'build/**',
-  '.git/**',
-  '.next/**',
-  '.nuxt/**',
-  'coverage/**',
+  'node_modules/',
+  '.venv/',
+  'venv/',
+  '__pycache__/',
+  'vendor/',
+  'target/',
+  'dist/',
+  'build/',
+  '.git/',
+  '.next/',
+  '.nuxt/',
+  'coverage/',
+  // The index and its status file, rewritten while indexing
+  'cc-devtools/.cache/',
   '*.min.js',
   '*.bundle.js',
 ];
@@ -200,4 +759,6 @@ export interface FileWatcher {
 export interface ParseResult {
   symbols: SymbolInfo[];
   imports: Import[];
+  /** Only produced by parsers that support reference extraction (TypeScript/JavaScript, Python) */
+  references?: SymbolReference[];
 }
@@ -10,6 +10,7 @@ import { syncTokenToVibeTunnel } from './services/api.service';
 
 // Lazy load heavy pages for better initial bundle size
 const KanbanPage = lazy(() => import('./pages/KanbanPage').then(m => ({ default: m.KanbanPage })));
+const AnalyticsPage = lazy(() => import('./pages/AnalyticsPage').then(m => ({ default: m.AnalyticsPage })));
 const EditorPage = lazy(() => import('./pages/EditorPage').then(m => ({ default: m.EditorPage })));
 const ConsolePage = lazy(() => import('./pages/ConsolePage').then(m => ({ default: m.ConsolePage })));
 const MemoryExplorer = lazy(() => import('./pages/MemoryExplorer').then(m => ({ default: m.MemoryExplorer })));
@@ -53,6 +54,7 @@ function ProtectedRoute({ children }: ProtectedRouteProps): JSX.Element {
  * - /login - Authentication page
  * - / - Redirects to /kanban
  * - /kanban - Kanban board (protected)
+ * - /analytics - Kanban flow analytics (protected)
  * - /editor - Code editor (protected)
  * - /console - Remote terminal console (protected)
  * - /memory - Memory explorer (protected)
@@ -121,6 +123,16 @@ export function App(): JSX.Element {
               </PageErrorBoundary>
             }
           />
+          <Route
+            path="/analytics"
+            element={
+              <PageErrorBoundary>
+                <Suspense fallback={loadingFallback}>
+                  <AnalyticsPage />
+                </Suspense>
+              </PageErrorBoundary>
+            }
+          />
           <Route
             path="/editor"
             element={
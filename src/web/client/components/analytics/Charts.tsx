@@ -0,0 +1,173 @@
+/**
+ * Small dependency-free SVG charts for the analytics page.
+ * Charts scale to their container width through the SVG viewBox.
+ */
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PAD = { top: 12, right: 12, bottom: 28, left: 36 };
+const PLOT_WIDTH = WIDTH - PAD.left - PAD.right;
+const PLOT_HEIGHT = HEIGHT - PAD.top - PAD.bottom;
+
+/** Used for series without a configured color */
+export const CHART_PALETTE = ['#94a3b8', '#3b82f6', '#a855f7', '#22c55e', '#f59e0b', '#ef4444', '#14b8a6', '#ec4899'];
+
+export interface ChartSeries {
+  name: string;
+  color: string;
+  values: number[];
+}
+
+interface AxesProps {
+  labels: string[];
+  max: number;
+}
+
+/**
+ * Y gridlines with values and a handful of evenly spaced x labels
+ */
+function Axes({ labels, max }: AxesProps): JSX.Element {
+  const ticks = [0, 0.25, 0.5, 0.75, 1];
+  const step = Math.max(1, Math.ceil(labels.length / 6));
+  return (
+    <g className="text-gray-400 dark:text-gray-500" fontSize={10} fill="currentColor">
+      {ticks.map(tick => {
+        const y = PAD.top + PLOT_HEIGHT * (1 - tick);
+        return (
+          <g key={tick}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y} y2={y} stroke="currentColor" strokeOpacity={0.25} />
+            <text x={PAD.left - 4} y={y + 3} textAnchor="end">{Math.round(max * tick * 10) / 10}</text>
+          </g>
+        );
+      })}
+      {labels.map((label, index) => index % step === 0 && (
+        <text
+          key={label}
+          x={PAD.left + xFor(index, labels.length)}
+          y={HEIGHT - 8}
+          textAnchor="middle"
+        >
+          {label.slice(5)}
+        </text>
+      ))}
+    </g>
+  );
+}
+
+function xFor(index: number, count: number): number {
+  return count <= 1 ? PLOT_WIDTH / 2 : (PLOT_WIDTH * index) / (count - 1);
+}
+
+function yFor(value: number, max: number): number {
+  return PAD.top + PLOT_HEIGHT * (1 - (max === 0 ? 0 : value / max));
+}
+
+interface BarChartProps {
+  labels: string[];
+  values: number[];
+  color?: string;
+}
+
+export function BarChart({ labels, values, color = '#3b82f6' }: BarChartProps): JSX.Element {
+  const max = Math.max(1, ...values);
+  const slot = PLOT_WIDTH / Math.max(1, values.length);
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+      <Axes labels={[]} max={max} />
+      {values.map((value, index) => {
+        const y = yFor(value, max);
+        return (
+          <g key={labels[index]}>
+            <rect
+              x={PAD.left + slot * index + slot * 0.15}
+              y={y}
+              width={slot * 0.7}
+              height={PAD.top + PLOT_HEIGHT - y}
+              fill={color}
+              rx={2}
+            >
+              <title>{`${labels[index]}: ${value}`}</title>
+            </rect>
+            {(values.length <= 12 || index % Math.ceil(values.length / 12) === 0) && (
+              <text
+                x={PAD.left + slot * index + slot / 2}
+                y={HEIGHT - 8}
+                textAnchor="middle"
+                fontSize={10}
+                className="fill-gray-400 dark:fill-gray-500"
+              >
+                {labels[index].slice(5)}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+interface SeriesChartProps {
+  labels: string[];
+  series: ChartSeries[];
+}
+
+/**
+ * Series stacked on top of each other, first series at the bottom
+ */
+export function StackedAreaChart({ labels, series }: SeriesChartProps): JSX.Element {
+  const totals = labels.map((_, index) => series.reduce((sum, s) => sum + (s.values[index] ?? 0), 0));
+  const max = Math.max(1, ...totals);
+  const baseline = labels.map(() => 0);
+
+  const areas = series.map(s => {
+    const lower = [...baseline];
+    const upper = labels.map((_, index) => (baseline[index] += s.values[index] ?? 0));
+    const top = upper.map((value, index) => `${PAD.left + xFor(index, labels.length)},${yFor(value, max)}`);
+    const bottom = lower.map((value, index) => `${PAD.left + xFor(index, labels.length)},${yFor(value, max)}`).reverse();
+    return { ...s, points: [...top, ...bottom].join(' ') };
+  });
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+      <Axes labels={labels} max={max} />
+      {areas.map(area => (
+        <polygon key={area.name} points={area.points} fill={area.color} fillOpacity={0.75}>
+          <title>{area.name}</title>
+        </polygon>
+      ))}
+    </svg>
+  );
+}
+
+export function LineChart({ labels, series }: SeriesChartProps): JSX.Element {
+  const max = Math.max(1, ...series.flatMap(s => s.values));
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+      <Axes labels={labels} max={max} />
+      {series.map(s => (
+        <polyline
+          key={s.name}
+          points={s.values.map((value, index) => `${PAD.left + xFor(index, labels.length)},${yFor(value, max)}`).join(' ')}
+          fill="none"
+          stroke={s.color}
+          strokeWidth={2}
+        >
+          <title>{s.name}</title>
+        </polyline>
+      ))}
+    </svg>
+  );
+}
+
+export function ChartLegend({ series }: Pick<SeriesChartProps, 'series'>): JSX.Element {
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2">
+      {series.map(s => (
+        <span key={s.name} className="flex items-center space-x-1 text-xs text-gray-600 dark:text-gray-400">
+          <span className="inline-block h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: s.color }} />
+          <span>{s.name}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@
 import React, { useState, useCallback, useEffect, Suspense, lazy, useRef } from 'react';
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
 import { FileTree } from './FileTree';
+import { SymbolSearch } from './SymbolSearch';
 import { MobileFilePicker } from './mobile/MobileFilePicker';
 import { MobileEditorToolbar } from './mobile/MobileEditorToolbar';
 import { MobileContextMenu } from './mobile/MobileContextMenu';
@@ -326,11 +327,15 @@ export const EditorLayout: React.FC<EditorLayoutProps> = ({
       <PanelGroup direction="horizontal">
         {/* File Tree Panel */}
         <Panel defaultSize={20} minSize={15} maxSize={40}>
-          <FileTree
-            tree={fileTree}
-            onFileSelect={onFileSelect}
-            selectedFile={selectedFile ?? undefined}
-          />
+          <div className="h-full flex flex-col">
+            <SymbolSearch onFileSelect={onFileSelect} />
+            <FileTree
+              tree={fileTree}
+              onFileSelect={onFileSelect}
+              selectedFile={selectedFile ?? undefined}
+              className="flex-1 min-h-0"
+            />
+          </div>
         </Panel>
 
         {/* Resize Handle */}
@@ -0,0 +1,140 @@
+/**
+ * Symbol search box for the editor
+ * Accepts the same query syntax as the search_code tool (`kind:function path:src/web/** "session"`),
+ * parsed here with the tool's own parser so filters and mistakes show while typing.
+ */
+
+import React, { useState, useMemo, useCallback } from 'react';
+import { Code2, X } from 'lucide-react';
+import { useDebounce } from '../../hooks/useDebounce';
+import { useUnifiedSearch } from '../../hooks/useUnifiedSearch';
+import { parseSearchQuery } from '../../../../source-code-mapper/services/query.js';
+import type { SearchFilters } from '../../../../source-code-mapper/types.js';
+import type { SearchModule, UnifiedSearchResult } from '../../../shared/types/search';
+
+interface SymbolSearchProps {
+  onFileSelect: (path: string) => void;
+}
+
+const CODE_MODULE: SearchModule[] = ['source-code-mapper'];
+
+/**
+ * Describe parsed filters as chips, in the order the syntax documents them
+ */
+function describeFilters(filters: SearchFilters): string[] {
+  return [
+    ...(filters.type ? [`kind: ${filters.type.join(', ')}`] : []),
+    ...(filters.exported !== undefined ? [filters.exported ? 'exported' : 'not exported'] : []),
+    ...(filters.path ?? []).map((glob) => `path: ${glob}`),
+    ...(filters.language ? [`lang: ${filters.language.join(', ')}`] : []),
+    ...(filters.name !== undefined ? [`name: ${filters.name}`] : []),
+    ...(filters.parent !== undefined ? [`in: ${filters.parent}`] : []),
+  ];
+}
+
+export const SymbolSearch: React.FC<SymbolSearchProps> = ({ onFileSelect }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const debouncedQuery = useDebounce(query, 300);
+  const parsed = useMemo(() => parseSearchQuery(debouncedQuery), [debouncedQuery]);
+  const valid = parsed.errors.length === 0;
+  const { data, isFetching, error } = useUnifiedSearch(debouncedQuery, 20, CODE_MODULE, valid);
+  const results = debouncedQuery.trim() && valid ? data?.results ?? [] : [];
+  const chips = describeFilters(parsed.filters);
+
+  const openResult = useCallback((result: UnifiedSearchResult): void => {
+    if (result.file) {
+      onFileSelect(result.file);
+    }
+  }, [onFileSelect]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key === 'Escape') {
+      setQuery('');
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      openResult(results[activeIndex]);
+    }
+  };
+
+  return (
+    <div className="border-b border-gray-200 dark:border-gray-700 p-2">
+      <div className="relative">
+        <Code2 className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" aria-hidden="true" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder='kind:function path:src/** "session"'
+          aria-label="Search symbols"
+          className="w-full pl-8 pr-7 py-1 text-sm font-mono rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        {query && (
+          <button
+            type="button"
+            onClick={() => setQuery('')}
+            className="absolute right-1.5 top-1/2 -translate-y-1/2 p-1 rounded-full text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            aria-label="Clear symbol search"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+
+      {chips.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1.5">
+          {chips.map((chip) => (
+            <span key={chip} className="px-1.5 py-0.5 rounded text-xs font-mono bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200">
+              {chip}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {parsed.errors.map((message) => (
+        <p key={message} className="mt-1 text-xs text-red-600 dark:text-red-400">{message}</p>
+      ))}
+
+      {debouncedQuery.trim() && valid && (
+        <div className="mt-1.5 max-h-64 overflow-y-auto" role="listbox" aria-label="Symbol search results">
+          {error && <p className="text-xs text-red-600 dark:text-red-400">Search failed: {error.message}</p>}
+          {data?.errors.map((e) => (
+            <p key={e.module} className="text-xs text-red-600 dark:text-red-400">{e.error}</p>
+          ))}
+          {!error && results.length === 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">{isFetching ? 'Searching...' : 'No symbols found'}</p>
+          )}
+          {results.map((result, i) => (
+            <button
+              key={result.id}
+              type="button"
+              role="option"
+              aria-selected={i === activeIndex}
+              onMouseEnter={() => setActiveIndex(i)}
+              onClick={() => openResult(result)}
+              className={`w-full text-left px-2 py-1 rounded ${
+                i === activeIndex ? 'bg-primary-50 dark:bg-primary-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+              }`}
+            >
+              <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{result.title}</p>
+              <p className="text-xs font-mono text-gray-500 dark:text-gray-400 truncate">
+                {result.file}{result.line !== undefined ? `:${result.line}` : ''}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,267 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import type { DependencyEdge, DependencyGraph as Graph, DependencyNode } from '../../../../kanban/types';
+
+const NODE_WIDTH = 184;
+const NODE_HEIGHT = 52;
+const COLUMN_GAP = 72;
+const ROW_GAP = 20;
+const MARGIN = 16;
+
+interface DependencyGraphProps {
+  graph: Graph;
+  onOpenStory: (storyId: string) => void;
+}
+
+interface PositionedNode {
+  node: DependencyNode;
+  x: number;
+  y: number;
+}
+
+/**
+ * Story dependencies laid out left to right by dependency depth.
+ * Blocked stories and the dependencies holding them up are red, the critical path is amber and
+ * cycles are violet. Clicking a story highlights everything upstream and downstream of it;
+ * double-clicking opens it.
+ */
+export function DependencyGraph({ graph, onOpenStory }: DependencyGraphProps): JSX.Element {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [blockedOnly, setBlockedOnly] = useState(false);
+
+  const cycleEdges = useMemo(() => {
+    const keys = new Set<string>();
+    for (const cycle of graph.cycles) {
+      cycle.forEach((id, index) => keys.add(`${cycle[(index + 1) % cycle.length]}>${id}`));
+    }
+    return keys;
+  }, [graph]);
+
+  const criticalEdges = useMemo(() => {
+    const ids = graph.critical_path.ids;
+    return new Set(ids.slice(1).map((id, index) => `${ids[index]}>${id}`));
+  }, [graph]);
+
+  // Blocked chains: blocked stories and everything upstream that isn't done yet
+  const visibleNodes = useMemo(() => {
+    if (!blockedOnly) return graph.nodes;
+    const keep = new Set(graph.nodes.filter(node => node.blocked).map(node => node.id));
+    for (const id of [...keep]) {
+      for (const upstreamId of walk(graph.edges, id, 'up')) {
+        if (!graph.nodes.find(node => node.id === upstreamId)?.done) keep.add(upstreamId);
+      }
+    }
+    return graph.nodes.filter(node => keep.has(node.id));
+  }, [graph, blockedOnly]);
+
+  const positioned = useMemo((): PositionedNode[] => {
+    const columns = new Map<number, DependencyNode[]>();
+    for (const node of visibleNodes) {
+      columns.set(node.depth, [...(columns.get(node.depth) ?? []), node]);
+    }
+    const depths = [...columns.keys()].sort((a, b) => a - b);
+    return depths.flatMap((depth, column) =>
+      (columns.get(depth) ?? []).map((node, row) => ({
+        node,
+        x: MARGIN + column * (NODE_WIDTH + COLUMN_GAP),
+        y: MARGIN + row * (NODE_HEIGHT + ROW_GAP),
+      }))
+    );
+  }, [visibleNodes]);
+
+  const related = useMemo(() => {
+    if (!selectedId) return null;
+    return new Set([...walk(graph.edges, selectedId, 'up'), ...walk(graph.edges, selectedId, 'down')]);
+  }, [graph, selectedId]);
+
+  const byId = new Map(positioned.map(p => [p.node.id, p]));
+  const width = Math.max(...positioned.map(p => p.x + NODE_WIDTH), 0) + MARGIN;
+  const height = Math.max(...positioned.map(p => p.y + NODE_HEIGHT), 0) + MARGIN;
+  const blockedCount = graph.nodes.filter(node => node.blocked).length;
+
+  if (graph.nodes.length === 0) {
+    return <div className="text-center py-12 text-gray-500 dark:text-gray-400">No stories to show.</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-gray-600 dark:text-gray-400">
+        <span>{graph.nodes.length} stories, {graph.edges.length} dependencies, {blockedCount} blocked</span>
+        {graph.critical_path.ids.length > 0 && (
+          <span>
+            Critical path: <span className="font-medium text-amber-600 dark:text-amber-400">{graph.critical_path.ids.join(' → ')}</span>
+            {' '}({graph.critical_path.hours}h)
+          </span>
+        )}
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={blockedOnly} onChange={(e) => setBlockedOnly(e.target.checked)} />
+          Blocked chains only
+        </label>
+      </div>
+
+      {graph.cycles.length > 0 && (
+        <div className="flex items-start gap-2 p-3 rounded-md bg-violet-50 dark:bg-violet-900/20 text-sm text-violet-800 dark:text-violet-200">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <div>
+            {graph.cycles.map(cycle => (
+              <div key={cycle.join('>')}>Dependency cycle: {[...cycle, cycle[0]].join(' → ')}</div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-auto border border-gray-200 dark:border-neutral-700 rounded-lg bg-gray-50 dark:bg-neutral-950">
+        <svg width={width} height={height} onClick={() => setSelectedId(null)} role="img" aria-label="Story dependency graph">
+          <defs>
+            {(Object.keys(EDGE_CLASSES) as EdgeKind[]).map(kind => (
+              <marker key={kind} id={`arrow-${kind}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" className={ARROW_CLASSES[kind]} />
+              </marker>
+            ))}
+          </defs>
+
+          {graph.edges.map(edge => {
+            const from = byId.get(edge.from);
+            const to = byId.get(edge.to);
+            if (!from || !to) return null;
+            const key = `${edge.from}>${edge.to}`;
+            const kind: EdgeKind = cycleEdges.has(key) ? 'cycle' : criticalEdges.has(key) ? 'critical' : edge.blocking ? 'blocking' : 'default';
+            const dimmed = related !== null && !(related.has(edge.from) && related.has(edge.to));
+            const x1 = from.x + NODE_WIDTH;
+            const y1 = from.y + NODE_HEIGHT / 2;
+            const x2 = to.x;
+            const y2 = to.y + NODE_HEIGHT / 2;
+            const bend = Math.max(COLUMN_GAP / 2, Math.abs(x2 - x1) / 2);
+            return (
+              <path
+                key={key}
+                d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                fill="none"
+                strokeWidth={kind === 'default' ? 1.5 : 2.5}
+                strokeDasharray={kind === 'cycle' ? '6 4' : undefined}
+                markerEnd={`url(#arrow-${kind})`}
+                className={EDGE_CLASSES[kind]}
+                opacity={dimmed ? 0.15 : 1}
+              />
+            );
+          })}
+
+          {positioned.map(({ node, x, y }) => {
+            const dimmed = related !== null && !related.has(node.id);
+            return (
+              <g
+                key={node.id}
+                transform={`translate(${x}, ${y})`}
+                opacity={dimmed ? 0.3 : 1}
+                className="cursor-pointer"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setSelectedId(selectedId === node.id ? null : node.id);
+                }}
+                onDoubleClick={() => !node.missing && onOpenStory(node.story_id)}
+              >
+                <title>{`${node.id}: ${node.title}${node.effort_hours !== undefined ? ` (${node.effort_hours}h)` : ''}`}</title>
+                <rect
+                  width={NODE_WIDTH}
+                  height={NODE_HEIGHT}
+                  rx={6}
+                  strokeWidth={node.critical || node.id === selectedId ? 2.5 : 1}
+                  strokeDasharray={node.missing ? '4 3' : undefined}
+                  className={nodeClasses(node, node.id === selectedId)}
+                />
+                <text x={10} y={20} fontSize={12} fontWeight={600} className="fill-gray-900 dark:fill-gray-100">
+                  {node.id}
+                  <tspan fontWeight={400} className="fill-gray-500 dark:fill-gray-400">{`  ${node.missing ? 'missing' : node.status}`}</tspan>
+                </text>
+                <text x={10} y={38} fontSize={12} className="fill-gray-700 dark:fill-gray-300">
+                  {truncate(node.title, 26)}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <div className="flex flex-wrap gap-x-5 gap-y-1 text-xs text-gray-600 dark:text-gray-400">
+        <LegendItem className="bg-green-100 border-green-500 dark:bg-green-900/40">Done</LegendItem>
+        <LegendItem className="bg-red-100 border-red-500 dark:bg-red-900/40">Blocked</LegendItem>
+        <LegendItem className="bg-white border-amber-500 border-2 dark:bg-neutral-800">Critical path</LegendItem>
+        <LegendItem className="bg-white border-violet-500 border-dashed dark:bg-neutral-800">Cycle</LegendItem>
+        <span>Click a story to trace its chain, double-click to open it</span>
+      </div>
+    </div>
+  );
+}
+
+type EdgeKind = 'default' | 'blocking' | 'critical' | 'cycle';
+
+const EDGE_CLASSES: Record<EdgeKind, string> = {
+  default: 'stroke-gray-400 dark:stroke-gray-500',
+  blocking: 'stroke-red-500',
+  critical: 'stroke-amber-500',
+  cycle: 'stroke-violet-500',
+};
+
+const ARROW_CLASSES: Record<EdgeKind, string> = {
+  default: 'fill-gray-400 dark:fill-gray-500',
+  blocking: 'fill-red-500',
+  critical: 'fill-amber-500',
+  cycle: 'fill-violet-500',
+};
+
+function nodeClasses(node: DependencyNode, selected: boolean): string {
+  const fill = node.missing
+    ? 'fill-gray-100 dark:fill-neutral-800'
+    : node.done
+      ? 'fill-green-50 dark:fill-green-900/40'
+      : node.blocked
+        ? 'fill-red-50 dark:fill-red-900/40'
+        : 'fill-white dark:fill-neutral-800';
+  const stroke = selected
+    ? 'stroke-blue-500'
+    : node.critical
+      ? 'stroke-amber-500'
+      : node.done
+        ? 'stroke-green-500'
+        : node.blocked
+          ? 'stroke-red-500'
+          : 'stroke-gray-300 dark:stroke-neutral-600';
+  return `${fill} ${stroke}`;
+}
+
+interface LegendItemProps {
+  className: string;
+  children: React.ReactNode;
+}
+
+function LegendItem({ className, children }: LegendItemProps): JSX.Element {
+  return (
+    <span className="flex items-center gap-1.5">
+      <span className={`inline-block h-3 w-4 rounded-sm border ${className}`} />
+      {children}
+    </span>
+  );
+}
+
+/**
+ * IDs reachable from a node, following dependencies (up) or dependents (down), including itself
+ */
+function walk(edges: DependencyEdge[], start: string, direction: 'up' | 'down'): Set<string> {
+  const seen = new Set([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const edge of edges) {
+      const [here, next] = direction === 'up' ? [edge.to, edge.from] : [edge.from, edge.to];
+      if (here === id && !seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return seen;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
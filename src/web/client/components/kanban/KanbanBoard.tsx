@@ -13,15 +13,10 @@ import { KanbanColumn } from './KanbanColumn.jsx';
 import { StoryCard } from './StoryCard.jsx';
 import { SkeletonKanbanColumn } from '../common/Skeleton.jsx';
 import { useStories, useKanbanConfig, useKanbanMutations } from '../../hooks/useStories.js';
+import { buildStatusColumns, type StatusColumn } from '../../utils/column-utils.js';
 import type { Story, StoryStatus, SubtaskStatus } from '../../../../kanban/types.js';
 import clsx from 'clsx';
 
-interface Column {
-  id: StoryStatus;
-  title: string;
-  color: string;
-}
-
 interface KanbanBoardProps {
   stories?: Story[];
 }
@@ -48,32 +43,9 @@ export function KanbanBoard({ stories: storiesProp }: KanbanBoardProps = {}): JS
   );
 
   // Define columns based on config or use defaults
-  const storyColumns: Column[] = config?.story?.map((status) => {
-    const titles: Record<string, string> = {
-      'todo': 'To Do',
-      'in_progress': 'In Progress',
-      'in_review': 'In Review',
-      'done': 'Done',
-    };
-    const colors: Record<string, string> = {
-      'todo': '#6b7280',
-      'in_progress': '#3b82f6',
-      'in_review': '#f59e0b',
-      'done': '#10b981',
-    };
-    return {
-      id: status,
-      title: titles[status] ?? status,
-      color: colors[status] ?? '#6b7280',
-    };
-  }) ?? [
-    { id: 'todo' as StoryStatus, title: 'To Do', color: '#6b7280' },
-    { id: 'in_progress' as StoryStatus, title: 'In Progress', color: '#3b82f6' },
-    { id: 'in_review' as StoryStatus, title: 'In Review', color: '#f59e0b' },
-    { id: 'done' as StoryStatus, title: 'Done', color: '#10b981' },
-  ];
-
-  const completedTaskStatuses: SubtaskStatus[] = config?.subtask?.filter(s => s === 'done') ?? ['done'];
+  const storyColumns: StatusColumn[] = buildStatusColumns(config?.story, ['todo', 'in_progress', 'in_review', 'done']);
+
+  const completedTaskStatuses: SubtaskStatus[] = config?.subtask?.filter(s => s.terminal === true).map(s => s.name) ?? ['done'];
 
   // Drag handlers
   const handleDragStart = (event: DragStartEvent): void => {
@@ -144,9 +116,11 @@ export function KanbanBoard({ stories: storiesProp }: KanbanBoardProps = {}): JS
         >
           <div className={clsx(
             'grid gap-6 min-h-[400px]',
+            storyColumns.length <= 2 && 'grid-cols-1 lg:grid-cols-2',
             storyColumns.length === 3 && 'grid-cols-1 lg:grid-cols-3',
             storyColumns.length === 4 && 'grid-cols-1 lg:grid-cols-4',
-            storyColumns.length === 5 && 'grid-cols-1 lg:grid-cols-5'
+            storyColumns.length === 5 && 'grid-cols-1 lg:grid-cols-5',
+            storyColumns.length >= 6 && 'grid-cols-1 lg:grid-cols-6'
           )}>
             {storyColumns.map((column) => {
               const columnStories = stories.filter((story) => story.status === column.id);
@@ -8,6 +8,8 @@ interface Column {
   id: StoryStatus | string;
   title: string;
   color: string;
+  /** Configured WIP limit, shown next to the item count */
+  wipLimit?: number;
 }
 
 interface KanbanColumnProps {
@@ -35,6 +37,7 @@ export function KanbanColumn({
 
   const itemCount = stories.length + subtasks.length;
   const isSubtaskColumn = subtasks.length > 0;
+  const overWipLimit = column.wipLimit !== undefined && itemCount > column.wipLimit;
 
   return (
     <div
@@ -58,8 +61,16 @@ export function KanbanColumn({
             {column.title}
           </h3>
         </div>
-        <span className="text-xs text-gray-500 dark:text-gray-400 bg-gray-200 dark:bg-neutral-700 px-2 py-1 rounded-full">
-          {itemCount}
+        <span
+          className={clsx(
+            'text-xs px-2 py-1 rounded-full',
+            overWipLimit
+              ? 'text-red-700 dark:text-red-300 bg-red-100 dark:bg-red-900/40'
+              : 'text-gray-500 dark:text-gray-400 bg-gray-200 dark:bg-neutral-700'
+          )}
+          title={column.wipLimit !== undefined ? `WIP limit: ${column.wipLimit}` : undefined}
+        >
+          {column.wipLimit !== undefined ? `${itemCount}/${column.wipLimit}` : itemCount}
         </span>
       </div>
 
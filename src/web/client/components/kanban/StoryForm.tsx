@@ -8,9 +8,12 @@ import type { Story, BusinessValue } from '../../../../kanban/types.js';
 import { useCreateStory, useUpdateStory, useStories, useKanbanConfig } from '../../hooks/useStories';
 import { UnsavedChangesModal } from './UnsavedChangesModal';
 import { ReviewsModal } from './ReviewsModal';
+import { StoryHistory } from './StoryHistory';
 import { useQuery } from '@tanstack/react-query';
 import { fetchStoryReviews } from '../../services/kanban.service';
 
+type StoryFormTab = 'details' | 'history';
+
 interface StoryFormProps {
   story?: Story;
   onClose: () => void;
@@ -50,6 +53,7 @@ export function StoryForm({ story, onClose, defaultPhase }: StoryFormProps): JSX
   const [isDirty, setIsDirty] = useState(false);
   const [showUnsavedWarning, setShowUnsavedWarning] = useState(false);
   const [showReviewsModal, setShowReviewsModal] = useState(false);
+  const [activeTab, setActiveTab] = useState<StoryFormTab>('details');
 
   const { data: reviews = [] } = useQuery({
     queryKey: ['story-reviews', story?.id],
@@ -173,9 +177,34 @@ export function StoryForm({ story, onClose, defaultPhase }: StoryFormProps): JSX
               </button>
             )}
           </div>
+          {isEditing && (
+            <div className="flex space-x-4 mt-3 -mb-4">
+              {(['details', 'history'] as const).map(tab => (
+                <button
+                  key={tab}
+                  type="button"
+                  onClick={() => setActiveTab(tab)}
+                  className={`pb-2 text-sm font-medium border-b-2 transition-colors ${
+                    activeTab === tab
+                      ? 'border-blue-600 text-blue-600 dark:border-blue-400 dark:text-blue-400'
+                      : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+                  }`}
+                >
+                  {tab === 'details' ? 'Details' : 'History'}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
-        <form onSubmit={(e) => void handleSubmit(e)} className="space-y-6">
+        {isEditing && activeTab === 'history' && (
+          <div className="pt-4">
+            <StoryHistory storyId={story.id} />
+          </div>
+        )}
+
+        {/* Hidden rather than unmounted so unsaved edits survive a look at the history */}
+        <form onSubmit={(e) => void handleSubmit(e)} className={`space-y-6 ${activeTab === 'history' ? 'hidden' : ''}`}>
           {error && (
             <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-800 text-sm">
               {error}
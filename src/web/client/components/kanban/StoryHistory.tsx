@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { ArrowRight, ChevronDown, ChevronRight, FileText, Pencil, Plus, Trash2 } from 'lucide-react';
+import type { KanbanEvent, StatusDefinition } from '../../../../kanban/types';
+import { useKanbanConfig, useStoryHistory } from '../../hooks/useStories';
+
+interface StoryHistoryProps {
+  storyId: string;
+}
+
+/**
+ * Event log of a story and its subtasks, newest first.
+ * Field edits expand to show the value before and after the change.
+ */
+export function StoryHistory({ storyId }: StoryHistoryProps): JSX.Element {
+  const { data: events = [], isLoading, error } = useStoryHistory(storyId);
+  const { data: config } = useKanbanConfig();
+  const [expanded, setExpanded] = useState<Record<number, boolean>>({});
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-gray-500 dark:text-gray-400">Loading history...</div>;
+  }
+
+  if (error) {
+    return <div className="text-center py-8 text-red-600 dark:text-red-400">Failed to load history: {error.message}</div>;
+  }
+
+  if (events.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+        No history recorded for this story yet.
+      </div>
+    );
+  }
+
+  const statusLabel = (event: KanbanEvent, value: unknown): string => {
+    const statuses: StatusDefinition[] = (event.id === event.story_id ? config?.story : config?.subtask) ?? [];
+    const name = String(value);
+    return statuses.find(status => status.name === name)?.label ?? name;
+  };
+
+  const describe = (event: KanbanEvent): string => {
+    const subject = event.id === event.story_id ? 'Story' : event.id;
+    switch (event.type) {
+      case 'story_created':
+        return `Story created in ${statusLabel(event, event.to)}`;
+      case 'story_deleted':
+        return 'Story deleted';
+      case 'subtask_created':
+        return `Subtask ${event.id} added: ${event.title ?? ''}`;
+      case 'subtask_deleted':
+        return `Subtask ${event.id} deleted: ${event.title ?? ''}`;
+      case 'status_changed':
+        return `${subject} moved from ${statusLabel(event, event.from)} to ${statusLabel(event, event.to)}`;
+      case 'field_changed':
+        return `${subject} ${event.field ?? 'field'} edited`;
+      case 'review_added':
+        return `Review round ${event.round ?? '?'} added`;
+    }
+  };
+
+  const iconFor = (event: KanbanEvent): JSX.Element => {
+    const className = 'h-4 w-4 flex-shrink-0';
+    switch (event.type) {
+      case 'story_created':
+      case 'subtask_created':
+        return <Plus className={`${className} text-green-600 dark:text-green-400`} />;
+      case 'story_deleted':
+      case 'subtask_deleted':
+        return <Trash2 className={`${className} text-red-600 dark:text-red-400`} />;
+      case 'status_changed':
+        return <ArrowRight className={`${className} text-blue-600 dark:text-blue-400`} />;
+      case 'review_added':
+        return <FileText className={`${className} text-purple-600 dark:text-purple-400`} />;
+      default:
+        return <Pencil className={`${className} text-gray-500 dark:text-gray-400`} />;
+    }
+  };
+
+  const newestFirst = events.map((event, index) => ({ event, index })).reverse();
+
+  return (
+    <ol className="space-y-2 max-h-[70vh] overflow-y-auto">
+      {newestFirst.map(({ event, index }) => {
+        const canExpand = event.type === 'field_changed';
+        const isExpanded = expanded[index] ?? false;
+        return (
+          <li
+            key={`${event.timestamp}-${index}`}
+            className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden"
+          >
+            <button
+              type="button"
+              onClick={() => canExpand && setExpanded(prev => ({ ...prev, [index]: !isExpanded }))}
+              className={`w-full flex items-start gap-2 p-3 text-left ${canExpand ? 'hover:bg-gray-50 dark:hover:bg-gray-700/50 cursor-pointer' : 'cursor-default'}`}
+            >
+              {canExpand ? (
+                isExpanded
+                  ? <ChevronDown className="h-4 w-4 mt-0.5 flex-shrink-0 text-gray-500 dark:text-gray-400" />
+                  : <ChevronRight className="h-4 w-4 mt-0.5 flex-shrink-0 text-gray-500 dark:text-gray-400" />
+              ) : (
+                <span className="mt-0.5">{iconFor(event)}</span>
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-gray-900 dark:text-gray-100">{describe(event)}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {event.actor}
+                  {event.source && ` via ${event.source}`}
+                  {' · '}
+                  {new Date(event.timestamp).toLocaleDateString(undefined, {
+                    year: 'numeric',
+                    month: 'short',
+                    day: 'numeric',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+                </div>
+              </div>
+            </button>
+            {canExpand && isExpanded && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 px-3 pb-3 pt-2 border-t border-gray-200 dark:border-gray-700">
+                <ChangeValue label="Before" value={event.from} />
+                <ChangeValue label="After" value={event.to} />
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+interface ChangeValueProps {
+  label: string;
+  value: unknown;
+}
+
+function ChangeValue({ label, value }: ChangeValueProps): JSX.Element {
+  const text = value === undefined || value === null
+    ? ''
+    : Array.isArray(value)
+      ? value.map(String).join('\n')
+      : typeof value === 'object'
+        ? JSON.stringify(value, null, 2)
+        : String(value);
+
+  return (
+    <div>
+      <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{label}</div>
+      <pre className="text-xs whitespace-pre-wrap break-words bg-gray-50 dark:bg-gray-800 rounded p-2 text-gray-800 dark:text-gray-200">
+        {text || <span className="italic text-gray-400">(empty)</span>}
+      </pre>
+    </div>
+  );
+}
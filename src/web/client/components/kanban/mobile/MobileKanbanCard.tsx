@@ -4,6 +4,7 @@ import { isStoryReadyForReady } from '../../../utils/readiness-utils';
 import type { Story, SubtaskStatus } from '../../../../../kanban/types.js';
 import { useQuery } from '@tanstack/react-query';
 import { fetchStoryReviews } from '../../../services/kanban.service';
+import { useKanbanConfig } from '../../../hooks/useStories';
 
 interface MobileKanbanCardProps {
   story: Story;
@@ -57,7 +58,8 @@ export function MobileKanbanCard({
   const totalSubtasks = story.subtasks?.length ?? 0;
   const hasSubtasks = totalSubtasks > 0;
 
-  const isReadyForReady = isStoryReadyForReady(story);
+  const { data: config } = useKanbanConfig();
+  const isReadyForReady = isStoryReadyForReady(story, config?.story, config?.default_status?.story);
 
   const { data: reviews = [] } = useQuery({
     queryKey: ['story-reviews', story.id],
@@ -5,26 +5,14 @@ import { MobileSubtaskViewEmptyState } from './MobileSubtaskViewEmptyState';
 import { BottomSheet, type BottomSheetAction } from '../../common/BottomSheet';
 import { useState, useMemo } from 'react';
 import { Pencil, Plus, Filter, Trash2, List } from 'lucide-react';
-import { formatColumnDisplayName } from '../../../utils/column-utils';
+import { formatColumnDisplayName, DEFAULT_SUBTASK_COLUMNS, type StatusColumn } from '../../../utils/column-utils';
 import { useKanbanStore } from '../../../stores/kanbanStore.js';
 import type { Story, StoryStatus, SubtaskStatus } from '../../../../../kanban/types.js';
 
-const STATUS_COLORS: Record<StoryStatus, string> = {
-  'todo': '#6b7280',
-  'in_progress': '#3b82f6',
-  'in_review': '#f59e0b',
-  'done': '#10b981',
-};
-
-const SUBTASK_STATUS_COLORS: Record<SubtaskStatus, string> = {
-  'todo': '#6b7280',
-  'in_progress': '#3b82f6',
-  'done': '#10b981',
-};
-
 interface MobileKanbanListViewProps {
   stories: Story[];
-  storyColumns: StoryStatus[];
+  storyColumns: StatusColumn[];
+  subtaskColumns?: StatusColumn[];
   onStoryEdit: (story: Story) => void;
   onStoryMoveStatus: (story: Story, newStatus: StoryStatus) => void;
   onStoryFilter: (story: Story) => void;
@@ -42,7 +30,8 @@ interface MobileKanbanListViewProps {
  */
 export function MobileKanbanListView({
   stories,
-  storyColumns,
+  storyColumns: storyStatusColumns,
+  subtaskColumns: subtaskStatusColumns = DEFAULT_SUBTASK_COLUMNS,
   onStoryEdit,
   onStoryMoveStatus,
   onStoryFilter: _onStoryFilter,
@@ -53,24 +42,30 @@ export function MobileKanbanListView({
   onSubtaskDelete,
 }: MobileKanbanListViewProps): JSX.Element {
   const { mobileViewMode, mobileSelectedStoryId, enterSubtaskView } = useKanbanStore();
+  const storyColumns = useMemo(() => storyStatusColumns.map(column => column.id), [storyStatusColumns]);
+  const subtaskColumns = useMemo(() => subtaskStatusColumns.map(column => column.id), [subtaskStatusColumns]);
+  const completedTaskStatuses = useMemo(
+    () => subtaskStatusColumns.filter(column => column.terminal).map(column => column.id),
+    [subtaskStatusColumns]
+  );
   const [selectedStory, setSelectedStory] = useState<Story | null>(null);
   const [selectedSubtask, setSelectedSubtask] = useState<SubtaskWithParent | null>(null);
   const [showBottomSheet, setShowBottomSheet] = useState(false);
 
   const getStatusColor = (status: StoryStatus): string => {
-    return STATUS_COLORS[status] ?? '#6b7280';
+    return storyStatusColumns.find(column => column.id === status)?.color ?? '#6b7280';
   };
 
   const getSubtaskStatusColor = (status: SubtaskStatus): string => {
-    return SUBTASK_STATUS_COLORS[status] ?? '#6b7280';
+    return subtaskStatusColumns.find(column => column.id === status)?.color ?? '#6b7280';
   };
 
   const getStatusDisplayName = (status: StoryStatus): string => {
-    return formatColumnDisplayName(status);
+    return storyStatusColumns.find(column => column.id === status)?.title ?? formatColumnDisplayName(status);
   };
 
   const getSubtaskStatusDisplayName = (status: SubtaskStatus): string => {
-    return formatColumnDisplayName(status);
+    return subtaskStatusColumns.find(column => column.id === status)?.title ?? formatColumnDisplayName(status);
   };
 
   const getNextStatus = (currentStatus: StoryStatus): StoryStatus | null => {
@@ -92,7 +87,6 @@ export function MobileKanbanListView({
   };
 
   const getNextSubtaskStatus = (currentStatus: SubtaskStatus): SubtaskStatus | null => {
-    const subtaskColumns: SubtaskStatus[] = ['todo', 'in_progress', 'done'];
     const currentIndex = subtaskColumns.indexOf(currentStatus);
     if (currentIndex >= 0 && currentIndex < subtaskColumns.length - 1) {
       return subtaskColumns[currentIndex + 1] ?? null;
@@ -101,7 +95,6 @@ export function MobileKanbanListView({
   };
 
   const getPreviousSubtaskStatus = (currentStatus: SubtaskStatus): SubtaskStatus | null => {
-    const subtaskColumns: SubtaskStatus[] = ['todo', 'in_progress', 'done'];
     const currentIndex = subtaskColumns.indexOf(currentStatus);
     if (currentIndex > 0) {
       return subtaskColumns[currentIndex - 1] ?? null;
@@ -118,7 +111,6 @@ export function MobileKanbanListView({
 
   const subtasksByStatus = useMemo(() => {
     if (mobileViewMode === 'subtasks' && currentStory) {
-      const subtaskColumns: SubtaskStatus[] = ['todo', 'in_progress', 'done'];
       return subtaskColumns.reduce((acc: Record<SubtaskStatus, SubtaskWithParent[]>, status: SubtaskStatus) => {
         acc[status] = (currentStory.subtasks ?? [])
           .map(subtask => ({
@@ -131,7 +123,7 @@ export function MobileKanbanListView({
       }, {} as Record<SubtaskStatus, SubtaskWithParent[]>);
     }
     return {} as Record<SubtaskStatus, SubtaskWithParent[]>;
-  }, [mobileViewMode, currentStory]);
+  }, [mobileViewMode, currentStory, subtaskColumns]);
 
   const handleLongPress = (story: Story): void => {
     setSelectedStory(story);
@@ -243,7 +235,7 @@ export function MobileKanbanListView({
           <MobileSubtaskViewEmptyState story={currentStory} onAddSubtask={onAddSubtask} />
         ) : (
           <div className="space-y-6 py-4">
-            {(['todo', 'in_progress', 'done'] as SubtaskStatus[]).map((status: SubtaskStatus) => {
+            {subtaskColumns.map((status: SubtaskStatus) => {
               const statusSubtasks = subtasksByStatus[status] ?? [];
               if (statusSubtasks.length === 0) return null;
 
@@ -272,7 +264,7 @@ export function MobileKanbanListView({
                         onEdit={onSubtaskEdit}
                         onLongPress={handleSubtaskLongPress}
                         onDragMove={handleSubtaskDragMove}
-                        completedTaskStatuses={['done']}
+                        completedTaskStatuses={completedTaskStatuses}
                       />
                     ))}
                   </div>
@@ -327,7 +319,7 @@ export function MobileKanbanListView({
                   onEdit={onStoryEdit}
                   onLongPress={handleLongPress}
                   onDragMove={handleDragMove}
-                  completedTaskStatuses={['done']}
+                  completedTaskStatuses={completedTaskStatuses}
                 />
               ))}
             </div>
@@ -5,27 +5,15 @@ import { MobileSubtaskViewHeader } from './MobileSubtaskViewHeader';
 import { MobileSubtaskViewEmptyState } from './MobileSubtaskViewEmptyState';
 import { BottomSheet, type BottomSheetAction } from '../../common/BottomSheet';
 import { Pencil, Plus, Filter, Trash2, List } from 'lucide-react';
-import { formatColumnDisplayName } from '../../../utils/column-utils';
+import { formatColumnDisplayName, DEFAULT_SUBTASK_COLUMNS, type StatusColumn } from '../../../utils/column-utils';
 import { useKanbanStore } from '../../../stores/kanbanStore.js';
 import type { Story, StoryStatus, SubtaskStatus } from '../../../../../kanban/types.js';
 import { Button } from '../../shared/Button';
 
-const STATUS_COLORS: Record<StoryStatus, string> = {
-  'todo': '#6b7280',
-  'in_progress': '#3b82f6',
-  'in_review': '#f59e0b',
-  'done': '#10b981',
-};
-
-const SUBTASK_STATUS_COLORS: Record<SubtaskStatus, string> = {
-  'todo': '#6b7280',
-  'in_progress': '#3b82f6',
-  'done': '#10b981',
-};
-
 interface MobileKanbanTabViewProps {
   stories: Story[];
-  storyColumns: StoryStatus[];
+  storyColumns: StatusColumn[];
+  subtaskColumns?: StatusColumn[];
   onStoryEdit: (story: Story) => void;
   onStoryMoveStatus: (story: Story, newStatus: StoryStatus) => void;
   onStoryFilter: (story: Story) => void;
@@ -43,7 +31,8 @@ interface MobileKanbanTabViewProps {
  */
 export function MobileKanbanTabView({
   stories,
-  storyColumns,
+  storyColumns: storyStatusColumns,
+  subtaskColumns: subtaskStatusColumns = DEFAULT_SUBTASK_COLUMNS,
   onStoryEdit,
   onStoryMoveStatus,
   onStoryFilter: _onStoryFilter,
@@ -54,6 +43,12 @@ export function MobileKanbanTabView({
   onSubtaskDelete,
 }: MobileKanbanTabViewProps): JSX.Element {
   const { mobileViewMode, mobileSelectedStoryId, enterSubtaskView } = useKanbanStore();
+  const storyColumns = useMemo(() => storyStatusColumns.map(column => column.id), [storyStatusColumns]);
+  const subtaskColumns = useMemo(() => subtaskStatusColumns.map(column => column.id), [subtaskStatusColumns]);
+  const completedTaskStatuses = useMemo(
+    () => subtaskStatusColumns.filter(column => column.terminal).map(column => column.id),
+    [subtaskStatusColumns]
+  );
   const [activeTab, setActiveTab] = useState(0);
   const [selectedStory, setSelectedStory] = useState<Story | null>(null);
   const [selectedSubtask, setSelectedSubtask] = useState<SubtaskWithParent | null>(null);
@@ -63,11 +58,11 @@ export function MobileKanbanTabView({
   const contentRef = useRef<HTMLDivElement>(null);
 
   const getStatusColor = (status: StoryStatus): string => {
-    return STATUS_COLORS[status] ?? '#6b7280';
+    return storyStatusColumns.find(column => column.id === status)?.color ?? '#6b7280';
   };
 
   const getStatusDisplayName = (status: StoryStatus): string => {
-    return formatColumnDisplayName(status);
+    return storyStatusColumns.find(column => column.id === status)?.title ?? formatColumnDisplayName(status);
   };
 
   const getNextStatus = (currentStatus: StoryStatus): StoryStatus | null => {
@@ -87,7 +82,6 @@ export function MobileKanbanTabView({
   };
 
   const getNextSubtaskStatus = (currentStatus: SubtaskStatus): SubtaskStatus | null => {
-    const subtaskColumns: SubtaskStatus[] = ['todo', 'in_progress', 'done'];
     const currentIndex = subtaskColumns.indexOf(currentStatus);
     if (currentIndex >= 0 && currentIndex < subtaskColumns.length - 1) {
       return subtaskColumns[currentIndex + 1] ?? null;
@@ -96,7 +90,6 @@ export function MobileKanbanTabView({
   };
 
   const getPreviousSubtaskStatus = (currentStatus: SubtaskStatus): SubtaskStatus | null => {
-    const subtaskColumns: SubtaskStatus[] = ['todo', 'in_progress', 'done'];
     const currentIndex = subtaskColumns.indexOf(currentStatus);
     if (currentIndex > 0) {
       return subtaskColumns[currentIndex - 1] ?? null;
@@ -105,11 +98,11 @@ export function MobileKanbanTabView({
   };
 
   const getSubtaskStatusColor = (status: SubtaskStatus): string => {
-    return SUBTASK_STATUS_COLORS[status] ?? '#6b7280';
+    return subtaskStatusColumns.find(column => column.id === status)?.color ?? '#6b7280';
   };
 
   const getSubtaskStatusDisplayName = (status: SubtaskStatus): string => {
-    return formatColumnDisplayName(status);
+    return subtaskStatusColumns.find(column => column.id === status)?.title ?? formatColumnDisplayName(status);
   };
 
   const storiesByStatus = storyColumns.map((status: StoryStatus) => ({
@@ -128,7 +121,6 @@ export function MobileKanbanTabView({
 
   const subtasksByStatus = useMemo(() => {
     if (mobileViewMode === 'subtasks' && currentStory) {
-      const subtaskColumns: SubtaskStatus[] = ['todo', 'in_progress', 'done'];
       return subtaskColumns.map((status: SubtaskStatus) => ({
         status,
         displayName: getSubtaskStatusDisplayName(status),
@@ -141,7 +133,7 @@ export function MobileKanbanTabView({
       }));
     }
     return [];
-  }, [mobileViewMode, currentStory]);
+  }, [mobileViewMode, currentStory, subtaskColumns]);
 
   const handleLongPress = (story: Story): void => {
     setSelectedStory(story);
@@ -369,7 +361,7 @@ export function MobileKanbanTabView({
                     onEdit={onSubtaskEdit}
                     onLongPress={handleSubtaskLongPress}
                     onDragMove={handleSubtaskDragMove}
-                    completedTaskStatuses={['done']}
+                    completedTaskStatuses={completedTaskStatuses}
                   />
                 ))}
 
@@ -464,7 +456,7 @@ export function MobileKanbanTabView({
               onEdit={onStoryEdit}
               onLongPress={handleLongPress}
               onDragMove={handleDragMove}
-              completedTaskStatuses={['done']}
+              completedTaskStatuses={completedTaskStatuses}
             />
           ))}
 
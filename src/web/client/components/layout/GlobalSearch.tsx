@@ -0,0 +1,160 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { Search as SearchIcon, X } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useDebounce } from '../../hooks/useDebounce';
+import { useUnifiedSearch } from '../../hooks/useUnifiedSearch';
+import type { UnifiedResultType, UnifiedSearchResult } from '../../../shared/types/search';
+
+const typeBadgeClasses: Record<UnifiedResultType, string> = {
+  memory: 'bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-200',
+  plan: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200',
+  story: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200',
+  subtask: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200',
+  symbol: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200',
+  doc: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+};
+
+/**
+ * Header search box that queries every enabled module at once.
+ * Results are interleaved across modules and open the matching page on click or Enter.
+ */
+export function GlobalSearch(): JSX.Element {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const debouncedQuery = useDebounce(query, 300);
+  const { data, isFetching, error } = useUnifiedSearch(debouncedQuery);
+  const results = debouncedQuery.trim() ? data?.results ?? [] : [];
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [data]);
+
+  // Close results when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent): void => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    if (open) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [open]);
+
+  const openResult = useCallback((result: UnifiedSearchResult): void => {
+    setOpen(false);
+    navigate(result.link);
+  }, [navigate]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key === 'Escape') {
+      setOpen(false);
+      e.currentTarget.blur();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      openResult(results[activeIndex]);
+    }
+  };
+
+  const showPanel = open && debouncedQuery.trim() !== '';
+
+  return (
+    <div className="relative w-64 xl:w-96" ref={containerRef}>
+      <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" aria-hidden="true" />
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search everything..."
+        aria-label="Search memories, plans, stories, code and docs"
+        role="combobox"
+        aria-expanded={showPanel}
+        aria-controls="global-search-results"
+        className="w-full pl-9 pr-8 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-primary-500"
+      />
+      {query && (
+        <button
+          type="button"
+          onClick={() => {
+            setQuery('');
+            setOpen(false);
+          }}
+          className="absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded-full text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          aria-label="Clear search"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+
+      {showPanel && (
+        <div
+          id="global-search-results"
+          role="listbox"
+          className="absolute right-0 top-full mt-1 w-[32rem] max-w-[90vw] bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-50 max-h-[70vh] overflow-y-auto"
+        >
+          {error && (
+            <p className="px-4 py-3 text-sm text-red-600 dark:text-red-400">Search failed: {error.message}</p>
+          )}
+
+          {!error && results.length === 0 && (
+            <p className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">
+              {isFetching ? 'Searching...' : 'No results'}
+            </p>
+          )}
+
+          {results.map((result, i) => (
+            <button
+              key={`${result.module}:${result.id}`}
+              type="button"
+              role="option"
+              aria-selected={i === activeIndex}
+              onMouseEnter={() => setActiveIndex(i)}
+              onClick={() => openResult(result)}
+              className={`w-full text-left px-4 py-2 border-b border-gray-100 dark:border-gray-700 last:border-b-0 ${
+                i === activeIndex ? 'bg-primary-50 dark:bg-primary-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <span className={`shrink-0 px-1.5 py-0.5 rounded text-xs font-medium ${typeBadgeClasses[result.type]}`}>
+                  {result.source}
+                </span>
+                <span className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{result.title}</span>
+              </div>
+              {result.file && (
+                <p className="mt-0.5 text-xs font-mono text-gray-500 dark:text-gray-400 truncate">
+                  {result.file}{result.line !== undefined ? `:${result.line}` : ''}
+                </p>
+              )}
+              {result.snippet && (
+                <p className="mt-0.5 text-xs text-gray-600 dark:text-gray-300 line-clamp-2">{result.snippet}</p>
+              )}
+            </button>
+          ))}
+
+          {data && data.errors.length > 0 && (
+            <p className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+              Unavailable: {data.errors.map((e) => e.module).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
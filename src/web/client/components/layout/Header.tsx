@@ -4,6 +4,7 @@ import { useLocation } from 'react-router-dom';
 import { useAppStore } from '../../stores/appStore';
 import { ShortcutsHelp, type ShortcutsHelpRef } from '../shared/ShortcutsHelp';
 import { Button } from '../shared/Button';
+import { GlobalSearch } from './GlobalSearch';
 import type { ConsoleTab } from '../../../shared/types/console';
 
 interface HeaderProps {
@@ -19,6 +20,7 @@ interface HeaderProps {
 
 const routeToSectionName: Record<string, string> = {
   '/kanban': 'Kanban',
+  '/analytics': 'Analytics',
   '/plans': 'Plans',
   '/memory': 'Memory',
   '/editor': 'Editor',
@@ -27,7 +29,7 @@ const routeToSectionName: Record<string, string> = {
 };
 
 /**
- * Main application header providing project context and quick access to tools.
+ * Main application header providing project context, global search and quick access to tools.
  * Adapts layout for mobile devices and displays current project and section.
  * On console page (mobile only), shows a dropdown menu for tabs and new session.
  */
@@ -152,6 +154,9 @@ export const Header = forwardRef<ShortcutsHelpRef, HeaderProps>(({ onToggleMobil
             </div>
           )}
 
+          <div className="hidden lg:block">
+            <GlobalSearch />
+          </div>
           <div className="hidden lg:block">
             <ShortcutsHelp ref={shortcutsHelpRef} />
           </div>
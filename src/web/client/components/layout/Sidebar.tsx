@@ -1,5 +1,5 @@
 import { NavLink } from 'react-router-dom';
-import { Trello, Code, Terminal, ChevronLeft, ChevronRight, Database, FolderKanban, Moon, Sun, FileText } from 'lucide-react';
+import { Trello, BarChart3, Code, Terminal, ChevronLeft, ChevronRight, Database, FolderKanban, Moon, Sun, FileText } from 'lucide-react';
 import { clsx } from 'clsx';
 import { useAppStore } from '../../stores/appStore';
 import { Button } from '../shared/Button';
@@ -23,6 +23,11 @@ const navItems: NavItem[] = [
     label: 'Kanban',
     icon: Trello
   },
+  {
+    path: '/analytics',
+    label: 'Analytics',
+    icon: BarChart3
+  },
   {
     path: '/plans',
     label: 'Plans',
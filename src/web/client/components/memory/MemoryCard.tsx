@@ -74,6 +74,36 @@ export function MemoryCard({
           {memory.details}
         </p>
 
+        {/* Lifecycle metadata */}
+        {(memory.expires_at !== undefined || memory.confidence !== undefined || (memory.supersedes?.length ?? 0) > 0) && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {memory.expires_at !== undefined && (
+              memory.expires_at <= Date.now() ? (
+                <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
+                  Expired {formatDate(memory.expires_at)}
+                </span>
+              ) : (
+                <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
+                  Expires {formatDate(memory.expires_at)}
+                </span>
+              )
+            )}
+            {memory.confidence !== undefined && memory.confidence < 1 && (
+              <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                {Math.round(memory.confidence * 100)}% confidence
+              </span>
+            )}
+            {memory.supersedes && memory.supersedes.length > 0 && (
+              <span
+                className="px-2 py-0.5 text-xs font-medium rounded-full bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200"
+                title={memory.supersedes.join(', ')}
+              >
+                Supersedes {memory.supersedes.length}
+              </span>
+            )}
+          </div>
+        )}
+
         {/* Tags */}
         {memory.tags.length > 0 && (
           <div className="flex flex-wrap gap-1 mt-2">
@@ -0,0 +1,135 @@
+import { useMemo } from 'react';
+import { X } from 'lucide-react';
+import { Chip } from '../shared/Chip.js';
+import { Select } from '../shared/Select.js';
+import { Button } from '../common/Button.js';
+import type { MemoryFilterParams } from '../../../../web/shared/types/memory.js';
+
+interface MemoryFiltersProps {
+  availableTags: string[];
+  filters: MemoryFilterParams;
+  onChange: (filters: MemoryFilterParams) => void;
+}
+
+const TAG_MATCH_OPTIONS = [
+  { value: 'any', label: 'Any tag' },
+  { value: 'all', label: 'All tags' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Convert a Unix ms timestamp to the yyyy-mm-dd value used by date inputs
+ */
+function toDateInputValue(timestamp: number | string | undefined): string {
+  if (timestamp === undefined) return '';
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Filter bar for the Memory Explorer.
+ * Clicking a tag cycles it through include → exclude → off; dates bound creation time (inclusive).
+ */
+export function MemoryFilters({ availableTags, filters, onChange }: MemoryFiltersProps): JSX.Element {
+  const included = useMemo(() => new Set(filters.tags ?? []), [filters.tags]);
+  const excluded = useMemo(() => new Set(filters.exclude_tags ?? []), [filters.exclude_tags]);
+
+  const hasActiveFilters = included.size > 0 || excluded.size > 0 ||
+    filters.since !== undefined || filters.until !== undefined;
+
+  const handleTagClick = (tag: string): void => {
+    const tags = new Set(included);
+    const excludeTags = new Set(excluded);
+
+    if (tags.has(tag)) {
+      tags.delete(tag);
+      excludeTags.add(tag);
+    } else if (excludeTags.has(tag)) {
+      excludeTags.delete(tag);
+    } else {
+      tags.add(tag);
+    }
+
+    onChange({
+      ...filters,
+      tags: tags.size > 0 ? [...tags] : undefined,
+      exclude_tags: excludeTags.size > 0 ? [...excludeTags] : undefined,
+    });
+  };
+
+  const handleDateChange = (field: 'since' | 'until', value: string): void => {
+    if (!value) {
+      onChange({ ...filters, [field]: undefined });
+      return;
+    }
+    // Date inputs are UTC midnight; make "until" cover the whole day
+    const timestamp = Date.parse(value) + (field === 'until' ? DAY_MS - 1 : 0);
+    onChange({ ...filters, [field]: timestamp });
+  };
+
+  const dateInputClasses = 'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+
+  return (
+    <div className="flex flex-col gap-3 mt-3">
+      {availableTags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {availableTags.map((tag) => {
+            const state = included.has(tag) ? 'include' : excluded.has(tag) ? 'exclude' : 'off';
+            return (
+              <Chip
+                key={tag}
+                label={state === 'exclude' ? `-${tag}` : tag}
+                size="sm"
+                variant={state === 'include' ? 'primary' : state === 'exclude' ? 'danger' : 'default'}
+                onClick={() => handleTagClick(tag)}
+                aria-pressed={state !== 'off'}
+                aria-label={`Tag ${tag}: ${state}`}
+              />
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600 dark:text-gray-300">
+        <Select
+          value={filters.tag_match ?? 'any'}
+          onChange={(value) => onChange({ ...filters, tag_match: value as 'any' | 'all' })}
+          options={TAG_MATCH_OPTIONS}
+          disabled={included.size < 2}
+          className="w-32"
+        />
+
+        <label className="flex items-center gap-2">
+          Since
+          <input
+            type="date"
+            value={toDateInputValue(filters.since)}
+            onChange={(e) => handleDateChange('since', e.target.value)}
+            className={dateInputClasses}
+          />
+        </label>
+
+        <label className="flex items-center gap-2">
+          Until
+          <input
+            type="date"
+            value={toDateInputValue(filters.until)}
+            onChange={(e) => handleDateChange('until', e.target.value)}
+            className={dateInputClasses}
+          />
+        </label>
+
+        {hasActiveFilters && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ tag_match: filters.tag_match })}
+          >
+            <X className="w-4 h-4 mr-1" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
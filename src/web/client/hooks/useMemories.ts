@@ -1,23 +1,39 @@
 import { useQuery, useMutation, useQueryClient, type UseQueryResult, type UseMutationResult } from '@tanstack/react-query';
-import type { Memory, MemorySearchParams, MemorySearchResponse } from '../../../web/shared/types/memory.js';
+import type {
+  Memory,
+  MemoryFilterParams,
+  MemoryMergeParams,
+  MemoryMergeResponse,
+  MemorySearchParams,
+  MemorySearchResponse,
+  MemoryUpdateParams,
+  MemoryUpdateResponse,
+} from '../../../web/shared/types/memory.js';
 import * as memoryService from '../services/memory.service.js';
 import { useToast } from './useToast.js';
 
 /**
  * React Query hook for fetching all memories (sorted by most recent)
- * @param params Optional search parameters. If omitted or query is empty, fetches all memories.
+ * @param params Optional search parameters. If the query is empty and no filters are set, fetches all memories.
  */
-export function useMemories(params?: { query: string; limit?: number }): UseQueryResult<Memory[], Error> {
-  const query = params?.query ?? '';
-  const limit = params?.limit ?? 200;
+export function useMemories(
+  params?: { query: string; limit?: number } & MemoryFilterParams
+): UseQueryResult<Memory[], Error> {
+  const { query = '', limit = 200, ...filters } = params ?? {};
+  const hasFilters = Boolean(
+    filters.tags?.length ||
+    filters.exclude_tags?.length ||
+    filters.since !== undefined ||
+    filters.until !== undefined
+  );
 
   return useQuery({
-    queryKey: ['memories', { query, limit }],
+    queryKey: ['memories', { query, limit, ...filters }],
     queryFn: async () => {
-      if (!query.trim()) {
+      if (!query.trim() && !hasFilters) {
         return memoryService.fetchMemories();
       }
-      const response = await memoryService.searchMemories({ query, limit });
+      const response = await memoryService.searchMemories({ query, limit, ...filters });
       return response.results;
     },
     keepPreviousData: true,
@@ -77,3 +93,50 @@ export function useDeleteMemory(): UseMutationResult<void, Error, string> {
     },
   });
 }
+
+/**
+ * React Query mutation hook for updating a memory in place
+ */
+export function useUpdateMemory(): UseMutationResult<
+  MemoryUpdateResponse,
+  Error,
+  { memoryId: string; params: MemoryUpdateParams }
+> {
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ memoryId, params }: { memoryId: string; params: MemoryUpdateParams }) =>
+      memoryService.updateMemory(memoryId, params),
+    onSuccess: () => {
+      showToast('Memory updated successfully', 'success');
+    },
+    onError: (error: Error) => {
+      showToast(`Failed to update memory: ${error.message}`, 'error');
+    },
+    onSettled: () => {
+      void queryClient.invalidateQueries({ queryKey: ['memories'] });
+    },
+  });
+}
+
+/**
+ * React Query mutation hook for merging memories into the first selected one
+ */
+export function useMergeMemories(): UseMutationResult<MemoryMergeResponse, Error, MemoryMergeParams> {
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+
+  return useMutation({
+    mutationFn: (params: MemoryMergeParams) => memoryService.mergeMemories(params),
+    onSuccess: (_data, params) => {
+      showToast(`Merged ${params.ids.length} memories`, 'success');
+    },
+    onError: (error: Error) => {
+      showToast(`Failed to merge memories: ${error.message}`, 'error');
+    },
+    onSettled: () => {
+      void queryClient.invalidateQueries({ queryKey: ['memories'] });
+    },
+  });
+}
@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient, type UseQueryResult, type UseMutationResult } from '@tanstack/react-query';
-import type { Story, Subtask, StoryStatus, SubtaskStatus, KanbanSearchResult } from '../../../kanban/types.js';
+import type { Story, Subtask, StoryStatus, SubtaskStatus, KanbanSearchResult, KanbanEvent, KanbanAnalytics, AnalyticsOptions, DependencyGraph } from '../../../kanban/types.js';
 import * as kanbanService from '../services/kanban.service.js';
 import type {
   KanbanStoryFilters,
@@ -35,6 +35,41 @@ export function useStory(storyId: string | null): UseQueryResult<Story, Error> {
   });
 }
 
+/**
+ * React Query hook for fetching the event log of a story and its subtasks
+ * Refetched whenever story mutations invalidate ['kanban', 'stories'].
+ */
+export function useStoryHistory(storyId: string | null): UseQueryResult<KanbanEvent[], Error> {
+  return useQuery({
+    queryKey: ['kanban', 'stories', storyId, 'history'],
+    queryFn: () => kanbanService.fetchStoryHistory(storyId!),
+    enabled: !!storyId,
+  });
+}
+
+/**
+ * React Query hook for fetching flow analytics (cycle time, throughput, cumulative flow, ...)
+ */
+export function useKanbanAnalytics(options: AnalyticsOptions): UseQueryResult<KanbanAnalytics, Error> {
+  return useQuery({
+    queryKey: ['kanban', 'analytics', options],
+    queryFn: () => kanbanService.fetchAnalytics(options),
+    placeholderData: (prev) => prev,
+  });
+}
+
+/**
+ * React Query hook for fetching the story dependency graph
+ * Keyed under ['kanban', 'stories'] so story mutations refetch it.
+ */
+export function useDependencyGraph(phase?: string, enabled = true): UseQueryResult<DependencyGraph, Error> {
+  return useQuery({
+    queryKey: ['kanban', 'stories', 'graph', phase ?? 'all'],
+    queryFn: () => kanbanService.fetchDependencyGraph(phase),
+    enabled,
+  });
+}
+
 /**
  * React Query hook for fetching kanban configuration
  */
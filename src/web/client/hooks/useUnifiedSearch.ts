@@ -0,0 +1,23 @@
+import { useQuery, type UseQueryResult } from '@tanstack/react-query';
+import type { SearchModule, UnifiedSearchResponse } from '../../../web/shared/types/search.js';
+import * as searchService from '../services/search.service.js';
+
+/**
+ * React Query hook for searching every enabled module at once, or only the given modules
+ * Disabled until the query is non-empty.
+ */
+export function useUnifiedSearch(
+  query: string,
+  limit = 10,
+  modules?: SearchModule[],
+  enabled = true
+): UseQueryResult<UnifiedSearchResponse, Error> {
+  const trimmed = query.trim();
+
+  return useQuery({
+    queryKey: ['search', { query: trimmed, limit, modules }],
+    queryFn: () => searchService.searchAll({ query: trimmed, limit, modules }),
+    enabled: enabled && trimmed !== '',
+    placeholderData: (prev) => prev,
+  });
+}
@@ -0,0 +1,225 @@
+import { useMemo, useState } from 'react';
+import { useKanbanAnalytics, useKanbanConfig } from '../hooks/useStories.js';
+import { LoadingSpinner } from '../components/shared/LoadingSpinner.js';
+import { ErrorMessage } from '../components/shared/ErrorMessage.js';
+import { BarChart, ChartLegend, CHART_PALETTE, LineChart, StackedAreaChart, type ChartSeries } from '../components/analytics/Charts.js';
+import type { AnalyticsOptions } from '../../../kanban/types.js';
+
+interface SummaryCardProps {
+  label: string;
+  value: number | null;
+  unit?: string;
+  hint?: string;
+}
+
+function SummaryCard({ label, value, unit, hint }: SummaryCardProps): JSX.Element {
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg" title={hint}>
+      <div className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">{label}</div>
+      <div className="mt-1 text-2xl font-semibold text-gray-900 dark:text-gray-100">
+        {value ?? '—'}
+        {value !== null && unit && <span className="ml-1 text-sm font-normal text-gray-500 dark:text-gray-400">{unit}</span>}
+      </div>
+    </div>
+  );
+}
+
+interface PanelProps {
+  title: string;
+  children: React.ReactNode;
+}
+
+function Panel({ title, children }: PanelProps): JSX.Element {
+  return (
+    <section className="p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+      <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-3">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+/**
+ * Flow analytics for the kanban board: cycle and lead time, weekly throughput, estimate
+ * accuracy, cumulative flow and phase burndown, all rebuilt from the kanban event log.
+ */
+export function AnalyticsPage(): JSX.Element {
+  const [options, setOptions] = useState<AnalyticsOptions>({});
+  const { data: analytics, isLoading, error } = useKanbanAnalytics(options);
+  const { data: config } = useKanbanConfig();
+
+  const statusSeries = useMemo((): ChartSeries[] => {
+    if (!analytics) return [];
+    return analytics.statuses.map((status, index) => {
+      const definition = config?.story.find(s => s.name === status);
+      return {
+        name: definition?.label ?? status,
+        color: definition?.color ?? CHART_PALETTE[index % CHART_PALETTE.length],
+        values: analytics.cumulative_flow.map(point => point.counts[status] ?? 0),
+      };
+    });
+  }, [analytics, config]);
+
+  const burndownSeries = useMemo((): ChartSeries[] => {
+    if (!analytics) return [];
+    return analytics.burndown.map((phase, index) => ({
+      name: `${phase.phase} (${phase.total})`,
+      color: CHART_PALETTE[(index + 1) % CHART_PALETTE.length],
+      values: phase.points.map(point => point.remaining),
+    }));
+  }, [analytics]);
+
+  const completed = useMemo(
+    () => (analytics?.stories ?? [])
+      .filter(story => story.completed_at)
+      .sort((a, b) => (b.completed_at ?? '').localeCompare(a.completed_at ?? '')),
+    [analytics]
+  );
+
+  const days = analytics?.cumulative_flow.map(point => point.date) ?? [];
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="max-w-7xl mx-auto p-4 sm:p-6 space-y-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label htmlFor="analytics-since" className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">From</label>
+            <input
+              id="analytics-since"
+              type="date"
+              value={options.since ?? analytics?.since ?? ''}
+              onChange={(e) => setOptions({ ...options, since: e.target.value || undefined })}
+              className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            />
+          </div>
+          <div>
+            <label htmlFor="analytics-until" className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">To</label>
+            <input
+              id="analytics-until"
+              type="date"
+              value={options.until ?? analytics?.until ?? ''}
+              onChange={(e) => setOptions({ ...options, until: e.target.value || undefined })}
+              className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            />
+          </div>
+          <div>
+            <label htmlFor="analytics-phase" className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Phase</label>
+            <select
+              id="analytics-phase"
+              value={options.phase ?? ''}
+              onChange={(e) => setOptions({ ...options, phase: e.target.value || undefined })}
+              className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            >
+              <option value="">All phases</option>
+              {(config?.phases ?? []).map(phase => (
+                <option key={phase} value={phase}>{phase}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {error && <ErrorMessage message="Failed to load analytics" details={error.message} />}
+        {isLoading && !analytics && <LoadingSpinner message="Loading analytics..." />}
+
+        {analytics && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+              <SummaryCard label="Completed" value={analytics.summary.completed} />
+              <SummaryCard label="Throughput" value={analytics.summary.avg_throughput_per_week} unit="/ week" />
+              <SummaryCard label="Avg cycle time" value={analytics.summary.avg_cycle_time_days} unit="days" hint="From first leaving the default status to done" />
+              <SummaryCard label="Median cycle time" value={analytics.summary.median_cycle_time_days} unit="days" />
+              <SummaryCard label="Avg lead time" value={analytics.summary.avg_lead_time_days} unit="days" hint="From creation to done" />
+              <SummaryCard label="Estimate ratio" value={analytics.summary.median_estimate_ratio} unit="×" hint="Median of hours in progress / estimated hours" />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <Panel title="Cumulative flow">
+                <StackedAreaChart labels={days} series={statusSeries} />
+                <ChartLegend series={statusSeries} />
+              </Panel>
+              <Panel title="Burndown (stories remaining)">
+                {burndownSeries.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No stories in this range.</p>
+                ) : (
+                  <>
+                    <LineChart labels={days} series={burndownSeries} />
+                    <ChartLegend series={burndownSeries} />
+                  </>
+                )}
+              </Panel>
+              <Panel title="Throughput per week">
+                <BarChart
+                  labels={analytics.throughput.map(week => week.week)}
+                  values={analytics.throughput.map(week => week.completed)}
+                />
+              </Panel>
+              <Panel title="Estimated effort vs elapsed time (hours)">
+                {analytics.estimates.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    No finished stories with an effort estimate and recorded time in progress.
+                  </p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                        <th className="py-1 font-medium">Story</th>
+                        <th className="py-1 font-medium text-right">Estimate</th>
+                        <th className="py-1 font-medium text-right" title="Wall-clock hours from leaving the default status to finishing, nights and weekends included">Elapsed</th>
+                        <th className="py-1 font-medium text-right">Ratio</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.estimates.map(estimate => (
+                        <tr key={estimate.id} className="border-t border-gray-100 dark:border-gray-700 text-gray-900 dark:text-gray-100">
+                          <td className="py-1 truncate max-w-[16rem]" title={estimate.title}>{estimate.id} {estimate.title}</td>
+                          <td className="py-1 text-right">{estimate.estimate_hours}</td>
+                          <td className="py-1 text-right">{estimate.actual_hours}</td>
+                          <td className={`py-1 text-right ${estimate.ratio > 1 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                            {estimate.ratio}×
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  Elapsed is wall-clock time while the story was being worked on, nights and weekends included.
+                </p>
+              </Panel>
+            </div>
+
+            <Panel title="Cycle and lead time">
+              {completed.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No completed stories yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                        <th className="py-1 font-medium">Story</th>
+                        <th className="py-1 font-medium">Phase</th>
+                        <th className="py-1 font-medium">Completed</th>
+                        <th className="py-1 font-medium text-right">Cycle (days)</th>
+                        <th className="py-1 font-medium text-right">Lead (days)</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {completed.map(story => (
+                        <tr key={story.id} className="border-t border-gray-100 dark:border-gray-700 text-gray-900 dark:text-gray-100">
+                          <td className="py-1 truncate max-w-[24rem]" title={story.title}>{story.id} {story.title}</td>
+                          <td className="py-1">{story.phase}</td>
+                          <td className="py-1">{story.completed_at?.slice(0, 10)}</td>
+                          <td className="py-1 text-right">{story.cycle_time_days ?? '—'}</td>
+                          <td className="py-1 text-right">{story.lead_time_days ?? '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Panel>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
  */
 
 import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { EditorLayout } from '../components/editor/EditorLayout';
 import { useFileTree, useFileContent, useSaveFile } from '../hooks/useFiles';
 import { useToast } from '../hooks/useToast';
@@ -44,6 +45,15 @@ export const EditorPage: React.FC = () => {
     setIsDirty(false);
   }, []);
 
+  // Deep link from global search: /editor?file=<project-relative path> opens that file
+  const [searchParams] = useSearchParams();
+  const linkedFile = searchParams.get('file');
+  useEffect(() => {
+    if (linkedFile) {
+      handleFileSelect(linkedFile);
+    }
+  }, [linkedFile, handleFileSelect]);
+
   // Handle file content change
   const handleFileChange = useCallback((content: string) => {
     setFileContent(content);
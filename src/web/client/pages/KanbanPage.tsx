@@ -1,5 +1,6 @@
 import { useState, useMemo, useRef, useEffect, useCallback } from 'react';
-import { Plus, X, ChevronDown, ChevronUp } from 'lucide-react';
+import { Plus, X, ChevronDown, ChevronUp, Columns, Network } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
 import {
   DndContext,
   DragOverlay,
@@ -17,9 +18,10 @@ import { KanbanFilters } from '../components/kanban/KanbanFilters';
 import { StoryForm } from '../components/kanban/StoryForm';
 import { SubtaskForm } from '../components/kanban/SubtaskForm';
 import { DeleteStoryModal } from '../components/kanban/DeleteStoryModal';
+import { DependencyGraph } from '../components/kanban/DependencyGraph';
 import { Button } from '../components/common/Button';
 import { Select, SearchBar } from '../components/shared';
-import { useStories, useTags, useKanbanConfig, useKanbanMutations, useSearchKanban, useDeleteStory } from '../hooks/useStories';
+import { useStories, useTags, useKanbanConfig, useKanbanMutations, useSearchKanban, useDeleteStory, useDependencyGraph } from '../hooks/useStories';
 import { useUIStore } from '../stores/uiStore';
 import { useKanbanStore } from '../stores/kanbanStore';
 import { useDebounce } from '../hooks/useDebounce';
@@ -30,13 +32,18 @@ import { MobileKanbanTabView } from '../components/kanban/mobile/MobileKanbanTab
 import { MobileKanbanSwipeView } from '../components/kanban/mobile/MobileKanbanSwipeView';
 import { MobileLayoutSwitcher } from '../components/kanban/mobile/MobileLayoutSwitcher';
 import type { SubtaskWithParent } from '../components/kanban/mobile/MobileSubtaskCard';
+import { buildStatusColumns, type StatusColumn } from '../utils/column-utils';
 import type { Story, Subtask, StoryStatus, SubtaskStatus } from '../../../kanban/types.js';
 
-interface Column {
-  id: StoryStatus | SubtaskStatus;
-  title: string;
-  color: string;
-}
+/** Desktop grid classes by column count (spelled out so Tailwind keeps them) */
+const GRID_COLUMNS: Record<number, string> = {
+  1: 'lg:grid-cols-1',
+  2: 'lg:grid-cols-2',
+  3: 'lg:grid-cols-3',
+  4: 'lg:grid-cols-4',
+  5: 'lg:grid-cols-5',
+  6: 'lg:grid-cols-6',
+};
 
 /**
  * Kanban Board page - dual-panel layout with stories + filtered tasks
@@ -54,10 +61,12 @@ export function KanbanPage(): JSX.Element {
     selectedPhase,
     storiesExpanded,
     tasksExpanded,
+    desktopViewMode,
     setSelectedStoryId,
     setSelectedPhase,
     setStoriesExpanded,
-    setTasksExpanded
+    setTasksExpanded,
+    setDesktopViewMode
   } = useKanbanStore();
 
   // Mobile detection and layout mode
@@ -67,6 +76,16 @@ export function KanbanPage(): JSX.Element {
   const searchInputRef = useRef<HTMLInputElement>(null);
   const cursorPositionRef = useRef<number | null>(null);
 
+  // Deep link from global search: /kanban?story=<story id> shows that story and its subtasks
+  const [searchParams] = useSearchParams();
+  const linkedStoryId = searchParams.get('story');
+  useEffect(() => {
+    if (linkedStoryId) {
+      setFilteredStoryId(linkedStoryId);
+      setSelectedStoryId(linkedStoryId);
+    }
+  }, [linkedStoryId, setFilteredStoryId, setSelectedStoryId]);
+
   // Preserve cursor position and focus across re-renders
   useEffect(() => {
     const input = searchInputRef.current;
@@ -100,6 +119,10 @@ export function KanbanPage(): JSX.Element {
   const { data: config } = useKanbanConfig();
   const { updateStoryStatus, updateSubtaskStatus } = useKanbanMutations();
   const deleteStory = useDeleteStory();
+  const { data: dependencyGraph, isLoading: isGraphLoading } = useDependencyGraph(
+    selectedPhase === 'all' ? undefined : selectedPhase,
+    !isMobile && desktopViewMode === 'graph'
+  );
 
   const [activeStory, setActiveStory] = useState<Story | null>(null);
   const [activeSubtask, setActiveSubtask] = useState<Subtask | null>(null);
@@ -228,62 +251,21 @@ export function KanbanPage(): JSX.Element {
   const filteredStory = filteredStoryId ? allStories.find(s => s.id === filteredStoryId) : null;
 
   // Define columns based on config (memoized to prevent recreation on every render)
-  const storyColumns: Column[] = useMemo(() => {
-    return config?.story?.map((status) => {
-      const titles: Record<string, string> = {
-        'todo': 'To Do',
-        'in_progress': 'In Progress',
-        'in_review': 'In Review',
-        'done': 'Done',
-      };
-      const colors: Record<string, string> = {
-        'todo': '#6b7280',
-        'in_progress': '#3b82f6',
-        'in_review': '#f59e0b',
-        'done': '#10b981',
-      };
-      return {
-        id: status,
-        title: titles[status] ?? status,
-        color: colors[status] ?? '#6b7280',
-      };
-    }) ?? [
-      { id: 'todo' as StoryStatus, title: 'To Do', color: '#6b7280' },
-      { id: 'in_progress' as StoryStatus, title: 'In Progress', color: '#3b82f6' },
-      { id: 'in_review' as StoryStatus, title: 'In Review', color: '#f59e0b' },
-      { id: 'done' as StoryStatus, title: 'Done', color: '#10b981' },
-    ];
-  }, [config?.story]);
-
-  const subtaskColumns: Column[] = useMemo(() => {
-    return config?.subtask?.map((status) => {
-      const titles: Record<string, string> = {
-        'todo': 'To Do',
-        'in_progress': 'In Progress',
-        'done': 'Done',
-      };
-      const colors: Record<string, string> = {
-        'todo': '#6b7280',
-        'in_progress': '#3b82f6',
-        'done': '#10b981',
-      };
-      return {
-        id: status,
-        title: titles[status] ?? status,
-        color: colors[status] ?? '#6b7280',
-      };
-    }) ?? [
-      { id: 'todo' as SubtaskStatus, title: 'To Do', color: '#6b7280' },
-      { id: 'in_progress' as SubtaskStatus, title: 'In Progress', color: '#3b82f6' },
-      { id: 'done' as SubtaskStatus, title: 'Done', color: '#10b981' },
-    ];
-  }, [config?.subtask]);
+  const storyColumns: StatusColumn[] = useMemo(
+    () => buildStatusColumns(config?.story, ['todo', 'in_progress', 'in_review', 'done']),
+    [config?.story]
+  );
 
-  const completedTaskStatuses: SubtaskStatus[] = useMemo(
-    () => config?.subtask?.filter(s => s === 'done') ?? ['done'],
+  const subtaskColumns: StatusColumn[] = useMemo(
+    () => buildStatusColumns(config?.subtask, ['todo', 'in_progress', 'done']),
     [config?.subtask]
   );
 
+  const completedTaskStatuses: SubtaskStatus[] = useMemo(
+    () => subtaskColumns.filter(c => c.terminal).map(c => c.id),
+    [subtaskColumns]
+  );
+
   // Drag handlers
   const handleDragStart = (event: DragStartEvent): void => {
     const id = event.active.id as string;
@@ -386,7 +368,8 @@ export function KanbanPage(): JSX.Element {
   if (isMobile) {
     const mobileProps = {
       stories: filteredStories,
-      storyColumns: storyColumns.map(c => c.id),
+      storyColumns,
+      subtaskColumns,
       onStoryEdit: handleStoryEdit,
       onStoryMoveStatus: handleStoryMoveStatus,
       onStoryFilter: handleStoryFilter,
@@ -518,6 +501,29 @@ export function KanbanPage(): JSX.Element {
               />
             </div>
 
+            {/* Board / Dependency Graph Toggle */}
+            <div className="flex flex-shrink-0 rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label="Board view">
+              {([
+                { mode: 'board', label: 'Board', Icon: Columns },
+                { mode: 'graph', label: 'Dependencies', Icon: Network },
+              ] as const).map(({ mode, label, Icon }) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setDesktopViewMode(mode)}
+                  aria-pressed={desktopViewMode === mode}
+                  className={`flex items-center gap-1.5 px-3 py-2 text-sm ${
+                    desktopViewMode === mode
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <Icon className="h-4 w-4" />
+                  <span>{label}</span>
+                </button>
+              ))}
+            </div>
+
             {/* New Story Button */}
             <Button
               onClick={() => setShowNewStoryForm(true)}
@@ -567,7 +573,27 @@ export function KanbanPage(): JSX.Element {
         </div>
       )}
 
+      {/* Dependency Graph */}
+      {desktopViewMode === 'graph' && (
+        <div className="p-6">
+          <div className="bg-white dark:bg-neutral-900 rounded-lg border border-gray-200 dark:border-neutral-700 p-4">
+            {isGraphLoading || !dependencyGraph ? (
+              <div className="text-center py-12 text-gray-500 dark:text-gray-400">Loading dependency graph...</div>
+            ) : (
+              <DependencyGraph
+                graph={dependencyGraph}
+                onOpenStory={(storyId) => {
+                  const story = allStories.find(s => s.id === storyId);
+                  if (story) handleStoryEdit(story);
+                }}
+              />
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Dual-Panel Layout */}
+      {desktopViewMode === 'board' && (
       <div className="p-6 space-y-6">
           {isLoading ? (
             <div className="text-center py-12 text-gray-500 dark:text-gray-400">
@@ -613,7 +639,7 @@ export function KanbanPage(): JSX.Element {
                 {storiesExpanded && (
                   <div className="p-4 border-t border-gray-200 dark:border-neutral-700">
                     <div className="results-viewport">
-                      <div className="grid gap-6 min-h-[400px] grid-cols-1 lg:grid-cols-4">
+                      <div className={`grid gap-6 min-h-[400px] grid-cols-1 ${GRID_COLUMNS[Math.min(storyColumns.length, 6)] ?? 'lg:grid-cols-4'}`}>
                         {storyColumns.map((column) => {
                           const columnStories = filteredStories.filter((story) => story.status === column.id);
                           return (
@@ -657,7 +683,7 @@ export function KanbanPage(): JSX.Element {
                 {tasksExpanded && (
                   <div className="p-4 border-t border-gray-200 dark:border-neutral-700">
                     <div className="results-viewport">
-                      <div className="grid gap-6 min-h-[300px] grid-cols-1 lg:grid-cols-3">
+                      <div className={`grid gap-6 min-h-[300px] grid-cols-1 ${GRID_COLUMNS[Math.min(subtaskColumns.length, 6)] ?? 'lg:grid-cols-3'}`}>
                         {subtaskColumns.map((column) => {
                           const columnTasks = tasksToShow.filter((task) => task.status === column.id);
                           return (
@@ -702,6 +728,7 @@ export function KanbanPage(): JSX.Element {
             </DndContext>
           )}
       </div>
+      )}
 
       {/* New Story Form */}
       {showNewStoryForm && (
@@ -710,6 +737,14 @@ export function KanbanPage(): JSX.Element {
           defaultPhase={selectedPhase === 'all' ? undefined : selectedPhase}
         />
       )}
+
+      {/* Edit Story Form (opened from the dependency graph) */}
+      {storyToEdit && (
+        <StoryForm
+          story={storyToEdit}
+          onClose={() => setStoryToEdit(null)}
+        />
+      )}
     </div>
   );
 }
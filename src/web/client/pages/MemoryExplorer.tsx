@@ -1,13 +1,15 @@
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useMemories, useDeleteMemory } from '../hooks/useMemories.js';
 import { useDebounce } from '../hooks/useDebounce.js';
 import { VirtualizedMemoryList } from '../components/memory/VirtualizedMemoryList.js';
+import { MemoryFilters } from '../components/memory/MemoryFilters.js';
 import { DeleteMemoryModal } from '../components/memory/DeleteMemoryModal.js';
 import { LoadingSpinner } from '../components/shared/LoadingSpinner.js';
 import { ErrorMessage } from '../components/shared/ErrorMessage.js';
 import { SearchBar } from '../components/shared/SearchBar.js';
 import { Button } from '../components/common/Button.js';
-import type { Memory } from '../../../web/shared/types/memory.js';
+import type { Memory, MemoryFilterParams } from '../../../web/shared/types/memory.js';
 
 /**
  * Memory Explorer page component providing comprehensive search, browsing, and management
@@ -15,6 +17,7 @@ import type { Memory } from '../../../web/shared/types/memory.js';
  */
 export function MemoryExplorer(): JSX.Element {
   const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<MemoryFilterParams>({});
   const [expandedMemory, setExpandedMemory] = useState<string | null>(null);
   const [contextMenuVisible, setContextMenuVisible] = useState(false);
   const [contextMenuPosition, setContextMenuPosition] = useState({ x: 0, y: 0 });
@@ -27,6 +30,15 @@ export function MemoryExplorer(): JSX.Element {
   const searchInputRef = useRef<HTMLInputElement>(null);
   const cursorPositionRef = useRef<number | null>(null);
 
+  // Deep link from global search: /memory?id=<memory id> expands that memory
+  const [searchParams] = useSearchParams();
+  const linkedMemoryId = searchParams.get('id');
+  useEffect(() => {
+    if (linkedMemoryId) {
+      setExpandedMemory(linkedMemoryId);
+    }
+  }, [linkedMemoryId]);
+
   // Use debounced value for search - prevents excessive queries while typing
   const debouncedSearchQuery = useDebounce(searchQuery, 300);
 
@@ -34,8 +46,21 @@ export function MemoryExplorer(): JSX.Element {
   const { data: memories = [], isFetching: isLoading, error } = useMemories({
     query: debouncedSearchQuery,
     limit: 200,
+    ...filters,
   });
 
+  // Unfiltered list supplies the tag chips so filtering never hides its own options
+  const { data: allMemories = [] } = useMemories();
+  const availableTags = useMemo(() => {
+    const tags = new Set<string>();
+    allMemories.forEach((memory) => memory.tags.forEach((tag) => tags.add(tag.toLowerCase())));
+    return [...tags].sort((a, b) => a.localeCompare(b));
+  }, [allMemories]);
+
+  const hasActiveFilters = Boolean(
+    filters.tags?.length || filters.exclude_tags?.length || filters.since !== undefined || filters.until !== undefined
+  );
+
   // Preserve cursor position and focus across re-renders
   useEffect(() => {
     const input = searchInputRef.current;
@@ -198,10 +223,16 @@ export function MemoryExplorer(): JSX.Element {
                     {/* Results Count */}
                     {sortedMemories.length > 0 && (
                       <div className="text-sm text-gray-500 dark:text-gray-400 flex-shrink-0">
-                        {searchQuery.trim() ? `Found ${sortedMemories.length} memories` : `${sortedMemories.length} total memories`}
+                        {searchQuery.trim() || hasActiveFilters ? `Found ${sortedMemories.length} memories` : `${sortedMemories.length} total memories`}
                       </div>
                     )}
                   </div>
+
+                  <MemoryFilters
+                    availableTags={availableTags}
+                    filters={filters}
+                    onChange={setFilters}
+                  />
                 </div>
               </div>
 
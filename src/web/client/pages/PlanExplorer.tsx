@@ -8,6 +8,7 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Trash2 } from 'lucide-react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSearchParams } from 'react-router-dom';
 import { searchPlans, fetchAllPlans } from '../services/plans.service.js';
 import { LoadingSpinner } from '../components/shared/LoadingSpinner.js';
 import { ErrorMessage } from '../components/shared/ErrorMessage.js';
@@ -37,6 +38,15 @@ export const PlanExplorer: React.FC = () => {
   const searchInputRef = useRef<HTMLInputElement>(null);
   const cursorPositionRef = useRef<number | null>(null);
 
+  // Deep link from global search: /plans?id=<plan id> expands that plan
+  const [searchParams] = useSearchParams();
+  const linkedPlanId = searchParams.get('id');
+  useEffect(() => {
+    if (linkedPlanId) {
+      setExpandedPlanId(linkedPlanId);
+    }
+  }, [linkedPlanId]);
+
   // Touch handling: 500ms hold triggers context menu
   const [touchTimeout, setTouchTimeout] = useState<NodeJS.Timeout | null>(null);
   const [touchStartPos, setTouchStartPos] = useState({ x: 0, y: 0 });
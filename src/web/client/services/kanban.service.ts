@@ -1,4 +1,4 @@
-import type { Story, Subtask, StoryStatus, SubtaskStatus, KanbanSearchResult, StoryReviewFeedback } from '../../../kanban/types.js';
+import type { Story, Subtask, StoryStatus, SubtaskStatus, StatusDefinition, DefaultStatus, KanbanSearchResult, StoryReviewFeedback, KanbanEvent, KanbanAnalytics, AnalyticsOptions, DependencyGraph } from '../../../kanban/types.js';
 import api from './api.service.js';
 
 /**
@@ -6,8 +6,12 @@ import api from './api.service.js';
  */
 
 export interface KanbanConfig {
-  story: StoryStatus[];
-  subtask: SubtaskStatus[];
+  /** Story statuses in column order, with labels and terminal and in-progress flags filled in */
+  story: StatusDefinition[];
+  /** Subtask statuses in column order, with labels and terminal and in-progress flags filled in */
+  subtask: StatusDefinition[];
+  /** Statuses new stories and subtasks start in */
+  default_status: DefaultStatus;
   phases: string[];
   business_values: string[];
 }
@@ -182,3 +186,29 @@ export const fetchStoryReviews = async (storyId: string): Promise<StoryReviewFee
   const response = await api.get<StoryReviewFeedback[]>(`/kanban/stories/${storyId}/reviews`);
   return response.data;
 };
+
+// History operations
+export const fetchStoryHistory = async (storyId: string): Promise<KanbanEvent[]> => {
+  const response = await api.get<KanbanEvent[]>(`/kanban/stories/${storyId}/history`);
+  return response.data;
+};
+
+// Analytics operations
+export const fetchAnalytics = async (options: AnalyticsOptions = {}): Promise<KanbanAnalytics> => {
+  const params = new URLSearchParams();
+  if (options.since) params.append('since', options.since);
+  if (options.until) params.append('until', options.until);
+  if (options.phase) params.append('phase', options.phase);
+
+  const response = await api.get<KanbanAnalytics>(`/kanban/analytics?${params.toString()}`);
+  return response.data;
+};
+
+// Dependency graph operations
+export const fetchDependencyGraph = async (phase?: string): Promise<DependencyGraph> => {
+  const params = new URLSearchParams();
+  if (phase) params.append('phase', phase);
+
+  const response = await api.get<DependencyGraph>(`/kanban/graph?${params.toString()}`);
+  return response.data;
+};
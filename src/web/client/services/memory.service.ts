@@ -1,4 +1,12 @@
-import type { Memory, MemorySearchParams, MemorySearchResponse } from '../../../web/shared/types/memory.js';
+import type {
+  Memory,
+  MemoryMergeParams,
+  MemoryMergeResponse,
+  MemorySearchParams,
+  MemorySearchResponse,
+  MemoryUpdateParams,
+  MemoryUpdateResponse,
+} from '../../../web/shared/types/memory.js';
 import api from './api.service.js';
 
 /**
@@ -27,3 +35,19 @@ export const searchMemories = async (params: MemorySearchParams): Promise<Memory
 export const deleteMemory = async (memoryId: string): Promise<void> => {
   await api.delete(`/memory/${memoryId}`);
 };
+
+/**
+ * Update a memory in place
+ */
+export const updateMemory = async (memoryId: string, params: MemoryUpdateParams): Promise<MemoryUpdateResponse> => {
+  const response = await api.put<MemoryUpdateResponse>(`/memory/${memoryId}`, params);
+  return response.data;
+};
+
+/**
+ * Merge several memories into the first one
+ */
+export const mergeMemories = async (params: MemoryMergeParams): Promise<MemoryMergeResponse> => {
+  const response = await api.post<MemoryMergeResponse>('/memory/merge', params);
+  return response.data;
+};
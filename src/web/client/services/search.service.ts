@@ -0,0 +1,14 @@
+import type { UnifiedSearchParams, UnifiedSearchResponse } from '../../../web/shared/types/search.js';
+import api from './api.service.js';
+
+/**
+ * API service for unified search
+ */
+
+/**
+ * Search memories, plans, kanban items, code and docs in one request
+ */
+export const searchAll = async (params: UnifiedSearchParams): Promise<UnifiedSearchResponse> => {
+  const response = await api.post<UnifiedSearchResponse>('/search', params);
+  return response.data;
+};
@@ -11,6 +11,9 @@ interface KanbanState {
   storiesExpanded: boolean;
   tasksExpanded: boolean;
 
+  // Desktop view: status columns or the story dependency graph
+  desktopViewMode: 'board' | 'graph';
+
   // Mobile view mode: stories (default) or subtasks
   mobileViewMode: 'stories' | 'subtasks';
 
@@ -22,6 +25,7 @@ interface KanbanState {
   setSelectedPhase: (phase: string) => void;
   setStoriesExpanded: (expanded: boolean) => void;
   setTasksExpanded: (expanded: boolean) => void;
+  setDesktopViewMode: (mode: 'board' | 'graph') => void;
 
   // Toggle selected story (for filtering tasks)
   toggleStorySelection: (storyId: string) => void;
@@ -45,6 +49,7 @@ export const useKanbanStore = create<KanbanState>((set) => ({
   selectedPhase: 'all',
   storiesExpanded: true,
   tasksExpanded: true,
+  desktopViewMode: 'board',
   mobileViewMode: 'stories',
   mobileSelectedStoryId: null,
 
@@ -56,6 +61,8 @@ export const useKanbanStore = create<KanbanState>((set) => ({
 
   setTasksExpanded: (expanded: boolean): void => set({ tasksExpanded: expanded }),
 
+  setDesktopViewMode: (mode: 'board' | 'graph'): void => set({ desktopViewMode: mode }),
+
   toggleStorySelection: (storyId: string): void =>
     set((state) => ({
       selectedStoryId: state.selectedStoryId === storyId ? null : storyId,
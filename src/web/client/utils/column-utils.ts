@@ -1,3 +1,13 @@
+import type { StatusDefinition } from '../../../kanban/types.js';
+
+export interface StatusColumn {
+  id: string;
+  title: string;
+  color: string;
+  wipLimit?: number;
+  terminal: boolean;
+}
+
 /**
  * Transforms column identifiers into human-readable display names for UI consistency.
  * Normalizes various separator formats (dashes, dots, underscores) to spaces with title case.
@@ -13,3 +23,33 @@ export function formatColumnDisplayName(columnId: string): string {
     .map(word => word.charAt(0).toUpperCase() + word.slice(1))
     .join(' ');
 }
+
+/** Colors of the built-in statuses; other statuses use their configured color or gray */
+const STATUS_COLORS: Record<string, string> = {
+  todo: '#6b7280',
+  in_progress: '#3b82f6',
+  in_review: '#f59e0b',
+  done: '#10b981',
+};
+
+/**
+ * Builds board columns from configured status definitions, in configured order.
+ * Falls back to the given status names (built-in defaults) while the config is loading.
+ *
+ * @example
+ * buildStatusColumns([{ name: 'blocked', label: 'Blocked', color: '#ef4444', wip_limit: 2 }], [])
+ * // Returns [{ id: 'blocked', title: 'Blocked', color: '#ef4444', wipLimit: 2, terminal: false }]
+ */
+export function buildStatusColumns(statuses: StatusDefinition[] | undefined, fallback: string[]): StatusColumn[] {
+  const definitions = statuses ?? fallback.map((name): StatusDefinition => ({ name }));
+  return definitions.map((status) => ({
+    id: status.name,
+    title: status.label ?? (status.name === 'todo' ? 'To Do' : formatColumnDisplayName(status.name)),
+    color: status.color ?? STATUS_COLORS[status.name] ?? '#6b7280',
+    wipLimit: status.wip_limit,
+    terminal: status.terminal ?? status.name === 'done',
+  }));
+}
+
+/** Subtask columns to use until the kanban config has loaded */
+export const DEFAULT_SUBTASK_COLUMNS: StatusColumn[] = buildStatusColumns(undefined, ['todo', 'in_progress', 'done']);
@@ -1,4 +1,4 @@
-import type { Story, Subtask } from '../../../kanban/types.js';
+import type { StatusDefinition, Story, Subtask } from '../../../kanban/types.js';
 
 /**
  * Utilities for detecting kanban item readiness for moving to ready columns.
@@ -15,13 +15,28 @@ function isFieldIncomplete(value: unknown): boolean {
   return false;
 }
 
+/**
+ * Determines if work in a status has not started: the status is not terminal and comes no later
+ * than the default status in column order. Without a loaded config the built-in statuses apply.
+ */
+function isNotStarted(status: string, statuses: StatusDefinition[] | undefined, defaultStatus: string): boolean {
+  const definitions = statuses ?? [{ name: 'todo' }];
+  const index = definitions.findIndex((definition) => definition.name === status);
+  const defaultIndex = definitions.findIndex((definition) => definition.name === defaultStatus);
+  return index !== -1 && index <= defaultIndex && !(definitions[index].terminal ?? status === 'done');
+}
+
 /**
  * Determines if a story meets basic criteria to be moved to the ready status.
  * In the new schema, we check for required fields like title, description, and business_value.
  */
-export function isStoryReadyForReady(story: Story): boolean {
-  // Skip stories already in progress or done
-  if (story.status === 'in_progress' || story.status === 'in_review' || story.status === 'done') {
+export function isStoryReadyForReady(
+  story: Story,
+  statuses?: StatusDefinition[],
+  defaultStatus: string = 'todo'
+): boolean {
+  // Skip stories already started or finished
+  if (!isNotStarted(story.status, statuses, defaultStatus)) {
     return false;
   }
 
@@ -36,9 +51,13 @@ export function isStoryReadyForReady(story: Story): boolean {
 /**
  * Determines if a subtask meets basic criteria to be moved to the ready status.
  */
-export function isSubtaskReadyForReady(subtask: Subtask): boolean {
-  // Skip subtasks already in progress or done
-  if (subtask.status === 'in_progress' || subtask.status === 'done') {
+export function isSubtaskReadyForReady(
+  subtask: Subtask,
+  statuses?: StatusDefinition[],
+  defaultStatus: string = 'todo'
+): boolean {
+  // Skip subtasks already started or finished
+  if (!isNotStarted(subtask.status, statuses, defaultStatus)) {
     return false;
   }
 
@@ -18,6 +18,7 @@ import { memoryRouter } from './memory.routes.js';
 import { perFileRunnerRouter } from './per-file-runner.routes.js';
 import { plansRouter } from './plans.routes.js';
 import { projectRouter } from './project.routes.js';
+import { searchRouter } from './search.routes.js';
 import { systemRouter } from './system.routes.js';
 
 import type { WebConfig } from '../../shared/types.js';
@@ -52,6 +53,9 @@ export function createAPIRouter(tokenStore: TokenStore, config: WebConfig): Rout
   // Apply authentication to all plans routes
   router.use('/plans', createAuthMiddleware(tokenStore), plansRouter);
 
+  // Apply authentication to unified search routes
+  router.use('/search', createAuthMiddleware(tokenStore), searchRouter);
+
   // Apply authentication to all git routes
   router.use('/git', createAuthMiddleware(tokenStore), gitRouter);
 
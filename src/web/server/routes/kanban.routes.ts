@@ -8,12 +8,16 @@ import { z } from 'zod';
 
 import * as logger from '../utils/logger.js';
 
+import { computeAnalytics } from '../../../kanban/services/analytics.js';
+import { buildDependencyGraph } from '../../../kanban/services/graph.js';
+import { readHistory } from '../../../kanban/services/history.js';
 import {
   filterStories,
   groupByStatus
 } from '../../../kanban/services/query.js';
 import { getAllReviewsForStory } from '../../../kanban/services/review-storage.js';
 import { searchKanban } from '../../../kanban/services/search.js';
+import { applyStatus, getStatuses } from '../../../kanban/services/statuses.js';
 import {
   readAllStories,
   readStory,
@@ -32,7 +36,6 @@ import type {
   Story,
   Subtask,
   StoryStatus,
-  SubtaskStatus,
   BusinessValue,
   Phase,
   FilterCriteria,
@@ -63,7 +66,7 @@ const createStorySchema = z.object({
 
 const updateStorySchema = z.object({
   title: z.string().min(1).optional(),
-  status: z.enum(['todo', 'in_progress', 'in_review', 'done']).optional(),
+  status: z.string().min(1).optional(),
   phase: z.string().min(1).optional(),
   description: z.string().optional(),
   details: z.string().optional(),
@@ -77,12 +80,13 @@ const updateStorySchema = z.object({
   implementation_notes: z.string().optional()
 });
 
+// Statuses are checked against the configured statuses by validateStoryMove/validateSubtaskMove
 const updateStatusSchema = z.object({
-  status: z.enum(['todo', 'in_progress', 'in_review', 'done'])
+  status: z.string().min(1)
 });
 
 const updateSubtaskStatusSchema = z.object({
-  status: z.enum(['todo', 'in_progress', 'done'])
+  status: z.string().min(1)
 });
 
 const createSubtaskSchema = z.object({
@@ -98,7 +102,7 @@ const createSubtaskSchema = z.object({
 
 const updateSubtaskSchema = z.object({
   title: z.string().min(1).optional(),
-  status: z.enum(['todo', 'in_progress', 'done']).optional(),
+  status: z.string().min(1).optional(),
   description: z.string().optional(),
   details: z.string().optional(),
   effort_estimation_hours: z.number().positive().optional(),
@@ -184,13 +188,14 @@ router.get('/stories', asyncHandler(async (req: Request, res: Response) => {
     criteria.ready = req.query.ready === 'true';
   }
 
+  const config = await readConfig();
   const filtered = Object.keys(criteria).length > 0
-    ? filterStories(stories, criteria)
+    ? filterStories(stories, criteria, config)
     : stories;
 
   // Optionally group by status
   if (req.query.groupBy === 'status') {
-    const grouped = groupByStatus(filtered);
+    const grouped = groupByStatus(filtered, config);
     res.json(grouped);
   } else {
     res.json(filtered);
@@ -237,6 +242,21 @@ router.get('/stories/:id/reviews', asyncHandler(async (req: Request, res: Respon
   res.json(reviews);
 }));
 
+/**
+ * GET /api/kanban/stories/:id/history
+ * Get the event log of a story and its subtasks, oldest first
+ */
+router.get('/stories/:id/history', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  logger.debug(`GET /api/kanban/stories/${id}/history`);
+
+  const events = await readHistory(id);
+
+  logger.debug(`Found ${events.length} history events for story ${id}`);
+
+  res.json(events);
+}));
+
 /**
  * POST /api/kanban/stories
  * Create new story
@@ -277,7 +297,7 @@ router.post('/stories', asyncHandler(async (req: Request, res: Response) => {
   };
 
   // Save story
-  await saveStory(newStory);
+  await saveStory(newStory, { source: 'web' });
 
   logger.info(`✅ Created story ${storyId}`);
 
@@ -308,34 +328,39 @@ router.put('/stories/:id', asyncHandler(async (req: Request, res: Response) => {
     return;
   }
 
-  // If status is being changed, validate the move
+  const config = await readConfig();
+
+  // Merge updates; the status is applied separately once the move is validated
+  const updatedStory: Story = {
+    ...existingStory,
+    ...data,
+    status: existingStory.status,
+    updated_at: new Date().toISOString()
+  };
+
+  // If status is being changed, validate the move against the story as this request leaves it,
+  // so fields set alongside the status count towards required fields and dependencies
   if (data.status && data.status !== existingStory.status) {
-    const allStories = await readAllStories();
-    const validation = await validateStoryMove(id, data.status, allStories);
+    const allStories = (await readAllStories()).map(s => (s.id === id ? updatedStory : s));
+    const validation = await validateStoryMove(id, data.status, allStories, config);
 
     if (!validation.valid) {
       sendError(res, 400, validation.error ?? 'Invalid status transition', 'VALIDATION_ERROR', {
         blockingStories: validation.blockingStories,
         incompleteSubtasks: validation.incompleteSubtasks,
-        blockingDependencies: validation.blockingDependencies
+        blockingDependencies: validation.blockingDependencies,
+        violations: validation.violations
       });
       return;
     }
   }
 
-  // Merge updates
-  const updatedStory: Story = {
-    ...existingStory,
-    ...data,
-    updated_at: new Date().toISOString()
-  };
-
-  // If status changed to 'done', set completion timestamp
-  if (data.status === 'done' && existingStory.status !== 'done') {
-    updatedStory.completion_timestamp = new Date().toISOString();
+  // Set or clear the completion timestamp when entering or leaving a terminal status
+  if (data.status) {
+    applyStatus(updatedStory, data.status, 'story', config, updatedStory.updated_at);
   }
 
-  await saveStory(updatedStory);
+  await saveStory(updatedStory, { source: 'web' });
 
   logger.info(`✅ Updated story ${id}`);
 
@@ -367,31 +392,23 @@ router.patch('/stories/:id/status', asyncHandler(async (req: Request, res: Respo
   }
 
   // Validate status move
-  const allStories = await readAllStories();
-  const validation = await validateStoryMove(id, status, allStories);
+  const [allStories, config] = await Promise.all([readAllStories(), readConfig()]);
+  const validation = await validateStoryMove(id, status, allStories, config);
 
   if (!validation.valid) {
     sendError(res, 400, validation.error ?? 'Invalid status transition', 'VALIDATION_ERROR', {
       blockingStories: validation.blockingStories,
       incompleteSubtasks: validation.incompleteSubtasks,
-      blockingDependencies: validation.blockingDependencies
+      blockingDependencies: validation.blockingDependencies,
+      violations: validation.violations
     });
     return;
   }
 
-  // Update status
-  const updatedStory: Story = {
-    ...existingStory,
-    status,
-    updated_at: new Date().toISOString()
-  };
-
-  // If status changed to 'done', set completion timestamp
-  if (status === 'done' && existingStory.status !== 'done') {
-    updatedStory.completion_timestamp = new Date().toISOString();
-  }
+  // Update status, setting or clearing the completion timestamp
+  const updatedStory = applyStatus({ ...existingStory }, status, 'story', config);
 
-  await saveStory(updatedStory);
+  await saveStory(updatedStory, { source: 'web' });
 
   logger.info(`✅ Updated story ${id} status to ${status}`);
 
@@ -406,7 +423,7 @@ router.delete('/stories/:id', asyncHandler(async (req: Request, res: Response) =
   const { id } = req.params;
   logger.debug(`DELETE /api/kanban/stories/${id}`);
 
-  const deletedStory = await deleteStory(id);
+  const deletedStory = await deleteStory(id, { source: 'web' });
 
   if (!deletedStory) {
     sendError(res, 404, `Story ${id} not found`, 'NOT_FOUND');
@@ -534,7 +551,7 @@ router.post('/stories/:storyId/subtasks', asyncHandler(async (req: Request, res:
     updated_at: new Date().toISOString()
   };
 
-  await saveStory(updatedStory);
+  await saveStory(updatedStory, { source: 'web' });
 
   logger.info(`✅ Created subtask ${subtaskId}`);
 
@@ -589,30 +606,36 @@ router.put('/subtasks/:id', asyncHandler(async (req: Request, res: Response) =>
 
   const existingSubtask = (story.subtasks ?? [])[subtaskIndex];
 
-  // If status is being changed, validate the move
+  const config = await readConfig();
+
+  // Merge updates; the status is applied separately once the move is validated
+  const updatedSubtask: Subtask = {
+    ...existingSubtask,
+    ...data,
+    status: existingSubtask.status,
+    updated_at: new Date().toISOString()
+  };
+
+  // If status is being changed, validate the move against the subtask as this request leaves it
   if (data.status && data.status !== existingSubtask.status) {
-    const allStories = await readAllStories();
-    const validation = await validateSubtaskMove(id, data.status, allStories);
+    const allStories = (await readAllStories()).map(s => (s.id === story.id
+      ? { ...s, subtasks: (s.subtasks ?? []).map(st => (st.id === id ? updatedSubtask : st)) }
+      : s));
+    const validation = await validateSubtaskMove(id, data.status, allStories, config);
 
     if (!validation.valid) {
       sendError(res, 400, validation.error ?? 'Invalid status transition', 'VALIDATION_ERROR', {
         blockingStories: validation.blockingStories,
-        blockingDependencies: validation.blockingDependencies
+        blockingDependencies: validation.blockingDependencies,
+        violations: validation.violations
       });
       return;
     }
   }
 
-  // Merge updates
-  const updatedSubtask: Subtask = {
-    ...existingSubtask,
-    ...data,
-    updated_at: new Date().toISOString()
-  };
-
-  // If status changed to 'done', set completion timestamp
-  if (data.status === 'done' && existingSubtask.status !== 'done') {
-    updatedSubtask.completion_timestamp = new Date().toISOString();
+  // Set or clear the completion timestamp when entering or leaving a terminal status
+  if (data.status) {
+    applyStatus(updatedSubtask, data.status, 'subtask', config, updatedSubtask.updated_at);
   }
 
   // Update subtask in story
@@ -625,7 +648,7 @@ router.put('/subtasks/:id', asyncHandler(async (req: Request, res: Response) =>
     updated_at: new Date().toISOString()
   };
 
-  await saveStory(updatedStory);
+  await saveStory(updatedStory, { source: 'web' });
 
   logger.info(`✅ Updated subtask ${id}`);
 
@@ -681,28 +704,20 @@ router.patch('/subtasks/:id/status', asyncHandler(async (req: Request, res: Resp
   const existingSubtask = (story.subtasks ?? [])[subtaskIndex];
 
   // Validate status move
-  const allStories = await readAllStories();
-  const validation = await validateSubtaskMove(id, status, allStories);
+  const [allStories, config] = await Promise.all([readAllStories(), readConfig()]);
+  const validation = await validateSubtaskMove(id, status, allStories, config);
 
   if (!validation.valid) {
     sendError(res, 400, validation.error ?? 'Invalid status transition', 'VALIDATION_ERROR', {
       blockingStories: validation.blockingStories,
-      blockingDependencies: validation.blockingDependencies
+      blockingDependencies: validation.blockingDependencies,
+      violations: validation.violations
     });
     return;
   }
 
-  // Update subtask status
-  const updatedSubtask: Subtask = {
-    ...existingSubtask,
-    status,
-    updated_at: new Date().toISOString()
-  };
-
-  // If status changed to 'done', set completion timestamp
-  if (status === 'done' && existingSubtask.status !== 'done') {
-    updatedSubtask.completion_timestamp = new Date().toISOString();
-  }
+  // Update subtask status, setting or clearing the completion timestamp
+  const updatedSubtask = applyStatus({ ...existingSubtask }, status, 'subtask', config);
 
   // Update subtask in story
   const updatedSubtasks = [...(story.subtasks ?? [])];
@@ -714,7 +729,7 @@ router.patch('/subtasks/:id/status', asyncHandler(async (req: Request, res: Resp
     updated_at: new Date().toISOString()
   };
 
-  await saveStory(updatedStory);
+  await saveStory(updatedStory, { source: 'web' });
 
   logger.info(`✅ Updated subtask ${id} status to ${status}`);
 
@@ -769,7 +784,7 @@ router.delete('/subtasks/:id', asyncHandler(async (req: Request, res: Response)
     updated_at: new Date().toISOString()
   };
 
-  await saveStory(updatedStory);
+  await saveStory(updatedStory, { source: 'web' });
 
   logger.info(`✅ Deleted subtask ${id}`);
 
@@ -803,16 +818,58 @@ router.get('/tags', asyncHandler(async (_req: Request, res: Response) => {
   res.json(tags);
 }));
 
+/**
+ * GET /api/kanban/analytics
+ * Flow analytics from the event log; optional since/until (YYYY-MM-DD) and phase query params
+ */
+router.get('/analytics', asyncHandler(async (req: Request, res: Response) => {
+  logger.debug('GET /api/kanban/analytics', { query: req.query });
+
+  const [stories, config, events] = await Promise.all([readAllStories(), readConfig(), readHistory()]);
+
+  try {
+    const analytics = computeAnalytics(stories, events, config, {
+      since: typeof req.query.since === 'string' && req.query.since ? req.query.since : undefined,
+      until: typeof req.query.until === 'string' && req.query.until ? req.query.until : undefined,
+      phase: typeof req.query.phase === 'string' && req.query.phase ? req.query.phase : undefined
+    });
+    res.json(analytics);
+  } catch (error) {
+    const err = error as CaughtError;
+    sendError(res, 400, err.message ?? 'Invalid analytics options', 'INVALID_INPUT');
+  }
+}));
+
+/**
+ * GET /api/kanban/graph
+ * Story dependency graph with cycles and the critical path; optional phase and subtasks=true
+ * query params
+ */
+router.get('/graph', asyncHandler(async (req: Request, res: Response) => {
+  logger.debug('GET /api/kanban/graph', { query: req.query });
+
+  const [stories, config] = await Promise.all([readAllStories(), readConfig()]);
+  const graph = buildDependencyGraph(stories, config, {
+    phase: typeof req.query.phase === 'string' && req.query.phase ? req.query.phase : undefined,
+    subtasks: req.query.subtasks === 'true'
+  });
+  res.json(graph);
+}));
+
 /**
  * GET /api/kanban/config
- * Get kanban configuration
+ * Get kanban configuration, with story and subtask status definitions (columns) in board order
  */
 router.get('/config', asyncHandler(async (_req: Request, res: Response) => {
   logger.debug('GET /api/kanban/config');
 
   const config = await readConfig();
 
-  res.json(config);
+  res.json({
+    ...config,
+    story: getStatuses(config, 'story'),
+    subtask: getStatuses(config, 'subtask')
+  });
 }));
 
 /**
@@ -837,7 +894,7 @@ router.post('/search', asyncHandler(async (req: Request, res: Response) => {
     limit: data.limit,
     similarityThreshold: data.similarityThreshold,
     scope: data.scope,
-    status: data.status as StoryStatus | SubtaskStatus | undefined,
+    status: data.status,
     storyId: data.storyId
   };
 
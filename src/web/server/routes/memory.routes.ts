@@ -1,6 +1,6 @@
 /**
  * Memory API routes
- * RESTful endpoints for memory search and storage
+ * RESTful endpoints for memory search, storage, updates and merges
  */
 
 import { Router, type Request, type Response } from 'express';
@@ -8,15 +8,26 @@ import { z } from 'zod';
 
 import * as logger from '../utils/logger.js';
 
-import { readMemories, saveMemories } from '../../../memory/core/storage.js';
+import { readMemories, saveMemories, withMemoryLock } from '../../../memory/core/storage.js';
+import { parseMemoryFilters } from '../../../memory/services/filters.js';
+import { assertSupersededExist, normalizeMetadata } from '../../../memory/services/lifecycle.js';
 import { searchMemories } from '../../../memory/services/search.js';
+import { deleteMemory } from '../../../memory/tools/delete.js';
+import { mergeMemories } from '../../../memory/tools/merge.js';
+import { updateMemory } from '../../../memory/tools/update.js';
+import { isCCDevToolsError } from '../../../shared/errors.js';
+import { ErrorCodes } from '../../../shared/types/errors.js';
 
 import type { Memory } from '../../../memory/types.js';
 import type {
+  MemoryMergeParams,
+  MemoryMergeResponse,
   MemorySearchParams,
   MemorySearchResponse,
   MemoryStoreParams,
-  MemoryStoreResponse
+  MemoryStoreResponse,
+  MemoryUpdateParams,
+  MemoryUpdateResponse
 } from '../../shared/types/memory.js';
 
 const router = Router();
@@ -27,15 +38,37 @@ const router = Router();
 
 const searchSchema = z.object({
   query: z.string(),
-  limit: z.number().int().positive().optional()
+  limit: z.number().int().positive().optional(),
+  include_inactive: z.boolean().optional(),
+  tags: z.array(z.string()).optional(),
+  tag_match: z.enum(['any', 'all']).optional(),
+  exclude_tags: z.array(z.string()).optional(),
+  since: z.union([z.number().int().nonnegative(), z.string()]).optional(),
+  until: z.union([z.number().int().nonnegative(), z.string()]).optional()
 });
 
-const storeSchema = z.object({
+const metadataSchema = z.object({
+  expires_at: z.number().int().nonnegative().optional(),
+  supersedes: z.array(z.string().min(1)).optional(),
+  confidence: z.number().min(0).max(1).optional()
+});
+
+const storeSchema = metadataSchema.extend({
   summary: z.string().min(1),
   details: z.string(),
   tags: z.array(z.string()).optional()
 });
 
+const updateSchema = metadataSchema.extend({
+  summary: z.string().min(1).optional(),
+  details: z.string().min(1).optional(),
+  tags: z.array(z.string()).optional()
+});
+
+const mergeSchema = updateSchema.extend({
+  ids: z.array(z.string().min(1)).min(2)
+});
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -61,6 +94,26 @@ function sendError(res: Response, statusCode: number, message: string, code: str
   });
 }
 
+/**
+ * Map errors thrown by the memory tools to HTTP status codes
+ */
+function sendToolError(res: Response, error: unknown, fallbackMessage: string, fallbackCode: string): void {
+  if (isCCDevToolsError(error)) {
+    if (error.code === ErrorCodes.NOT_FOUND) {
+      sendError(res, 404, error.message, 'NOT_FOUND');
+      return;
+    }
+    if (error.code === ErrorCodes.VALIDATION_FAILED) {
+      sendError(res, 400, error.message, 'VALIDATION_ERROR');
+      return;
+    }
+  }
+
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.error(`${fallbackMessage}:`, errorMessage);
+  sendError(res, 500, fallbackMessage, fallbackCode);
+}
+
 // ============================================================================
 // Memory Endpoints
 // ============================================================================
@@ -82,6 +135,8 @@ router.post('/search', asyncHandler(async (req: Request, res: Response) => {
   const params = parseResult.data as MemorySearchParams;
 
   try {
+    const filters = parseMemoryFilters(params);
+
     // Read all memories
     const memories = readMemories();
 
@@ -89,7 +144,8 @@ router.post('/search', asyncHandler(async (req: Request, res: Response) => {
     const results = await searchMemories(
       params.query,
       memories,
-      params.limit ?? 3
+      params.limit ?? 3,
+      { ...filters, includeInactive: params.include_inactive ?? false }
     );
 
     const response: MemorySearchResponse = {
@@ -98,9 +154,7 @@ router.post('/search', asyncHandler(async (req: Request, res: Response) => {
 
     res.json(response);
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    logger.error('Memory search failed:', errorMessage);
-    sendError(res, 500, 'Search failed', 'SEARCH_ERROR');
+    sendToolError(res, error, 'Search failed', 'SEARCH_ERROR');
   }
 }));
 
@@ -108,43 +162,50 @@ router.post('/search', asyncHandler(async (req: Request, res: Response) => {
  * POST /api/memory/store
  * Store new memory
  */
-router.post('/store', asyncHandler((req: Request, res: Response) => {
+router.post('/store', asyncHandler(async (req: Request, res: Response) => {
   logger.debug('POST /api/memory/store', { body: req.body as unknown });
 
   // Validate request body
   const parseResult = storeSchema.safeParse(req.body as unknown);
   if (!parseResult.success) {
     sendError(res, 400, 'Validation failed', 'VALIDATION_ERROR');
-    return Promise.resolve();
+    return;
   }
 
-  const params = parseResult.data as MemoryStoreParams;
+  const { expires_at, supersedes, confidence, ...params } = parseResult.data as MemoryStoreParams;
 
   try {
-    // Read existing memories
-    const memories = readMemories();
-
-    // Generate new ID
-    const maxId = memories.reduce((max, m) => {
-      const numericId = parseInt(m.id, 10);
-      return isNaN(numericId) ? max : Math.max(max, numericId);
-    }, 0);
-    const newId = String(maxId + 1);
-
-    // Create new memory
-    const newMemory: Memory = {
-      id: newId,
-      summary: params.summary,
-      details: params.details,
-      tags: params.tags ?? [],
-      created_at: Date.now()
-    };
-
-    // Add to memories and save
-    const updatedMemories = [...memories, newMemory];
-    saveMemories(updatedMemories);
-
-    logger.info(`✅ Created memory ${newId}`);
+    const newMemory = await withMemoryLock(() => {
+      // Read existing memories
+      const memories = readMemories();
+
+      // Generate new ID
+      const maxId = memories.reduce((max, m) => {
+        const numericId = parseInt(m.id, 10);
+        return isNaN(numericId) ? max : Math.max(max, numericId);
+      }, 0);
+      const id = String(maxId + 1);
+
+      // Superseded ids must exist and not be the new memory's own, as memory_store requires
+      const metadata = normalizeMetadata({ expires_at, supersedes, confidence }, id);
+      assertSupersededExist(metadata.supersedes, memories);
+
+      // Create new memory
+      const memory: Memory = {
+        id,
+        summary: params.summary,
+        details: params.details,
+        tags: params.tags ?? [],
+        created_at: Date.now(),
+        ...metadata
+      };
+
+      // Add to memories and save
+      saveMemories([...memories, memory]);
+      return memory;
+    });
+
+    logger.info(`✅ Created memory ${newMemory.id}`);
 
     const response: MemoryStoreResponse = {
       success: true,
@@ -154,17 +215,18 @@ router.post('/store', asyncHandler((req: Request, res: Response) => {
     res.status(201).json(response);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    logger.error('Memory store failed:', errorMessage);
+    const invalid = isCCDevToolsError(error) && error.code === ErrorCodes.VALIDATION_FAILED;
+    if (!invalid) {
+      logger.error('Memory store failed:', errorMessage);
+    }
 
     const response: MemoryStoreResponse = {
       success: false,
       error: errorMessage
     };
 
-    res.status(500).json(response);
+    res.status(invalid ? 400 : 500).json(response);
   }
-
-  return Promise.resolve();
 }));
 
 /**
@@ -190,4 +252,88 @@ router.get('/list', asyncHandler((_req: Request, res: Response) => {
   return Promise.resolve();
 }));
 
+/**
+ * POST /api/memory/merge
+ * Merge several memories into the first one
+ */
+router.post('/merge', asyncHandler(async (req: Request, res: Response) => {
+  logger.debug('POST /api/memory/merge', { body: req.body as unknown });
+
+  // Validate request body
+  const parseResult = mergeSchema.safeParse(req.body as unknown);
+  if (!parseResult.success) {
+    sendError(res, 400, 'Validation failed', 'VALIDATION_ERROR');
+    return;
+  }
+
+  const params = parseResult.data as MemoryMergeParams;
+
+  try {
+    const result = await mergeMemories(params);
+
+    logger.info(`✅ Merged memories ${params.ids.join(', ')} into ${params.ids[0]}`);
+
+    const response: MemoryMergeResponse = {
+      success: true,
+      memory: result.memory,
+      merged_ids: result.merged_ids
+    };
+
+    res.json(response);
+  } catch (error) {
+    sendToolError(res, error, 'Merge failed', 'MERGE_ERROR');
+  }
+}));
+
+/**
+ * PUT /api/memory/:id
+ * Update an existing memory in place
+ */
+router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  logger.debug(`PUT /api/memory/${id}`, { body: req.body as unknown });
+
+  // Validate request body
+  const parseResult = updateSchema.safeParse(req.body as unknown);
+  if (!parseResult.success) {
+    sendError(res, 400, 'Validation failed', 'VALIDATION_ERROR');
+    return;
+  }
+
+  const params = parseResult.data as MemoryUpdateParams;
+
+  try {
+    const result = await updateMemory({ id, ...params });
+
+    logger.info(`✅ Updated memory ${id}`);
+
+    const response: MemoryUpdateResponse = {
+      success: true,
+      memory: result.memory
+    };
+
+    res.json(response);
+  } catch (error) {
+    sendToolError(res, error, 'Update failed', 'UPDATE_ERROR');
+  }
+}));
+
+/**
+ * DELETE /api/memory/:id
+ * Delete a memory by ID
+ */
+router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  logger.debug(`DELETE /api/memory/${id}`);
+
+  try {
+    await deleteMemory({ id });
+
+    logger.info(`✅ Deleted memory ${id}`);
+    res.status(204).send();
+  } catch (error) {
+    sendToolError(res, error, 'Delete failed', 'DELETE_ERROR');
+  }
+}));
+
 export { router as memoryRouter };
@@ -0,0 +1,85 @@
+/**
+ * Unified search API routes
+ * One endpoint that searches every enabled module and interleaves the results
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+
+import * as logger from '../utils/logger.js';
+
+import { unifiedSearch } from '../../../search/services/unified-search.js';
+import { SEARCH_MODULES } from '../../../shared/types/search.js';
+
+import type { UnifiedSearchParams, UnifiedSearchResponse } from '../../shared/types/search.js';
+
+const router = Router();
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const searchSchema = z.object({
+  query: z.string().min(1),
+  limit: z.number().int().positive().max(50).optional(),
+  modules: z.array(z.enum(SEARCH_MODULES as [string, ...string[]])).optional()
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Handle async route errors
+ */
+function asyncHandler(fn: (req: Request, res: Response) => Promise<void>) {
+  return (req: Request, res: Response, next: (err: unknown) => void): void => {
+    Promise.resolve(fn(req, res)).catch(next);
+  };
+}
+
+/**
+ * Send error response with consistent format
+ */
+function sendError(res: Response, statusCode: number, message: string, code: string): void {
+  res.status(statusCode).json({
+    error: {
+      message,
+      code
+    }
+  });
+}
+
+// ============================================================================
+// Search Endpoints
+// ============================================================================
+
+/**
+ * POST /api/search
+ * Search memories, plans, kanban items, code and docs in one request
+ */
+router.post('/', asyncHandler(async (req: Request, res: Response) => {
+  logger.debug('POST /api/search', { body: req.body as unknown });
+
+  const parseResult = searchSchema.safeParse(req.body as unknown);
+  if (!parseResult.success) {
+    sendError(res, 400, 'Validation failed', 'VALIDATION_ERROR');
+    return;
+  }
+
+  const params = parseResult.data as UnifiedSearchParams;
+
+  try {
+    const response: UnifiedSearchResponse = await unifiedSearch(params.query, {
+      limit: params.limit,
+      modules: params.modules
+    });
+    res.json(response);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Unified search failed:', errorMessage);
+    sendError(res, 500, 'Search failed', 'SEARCH_ERROR');
+  }
+}));
+
+export { router as searchRouter };
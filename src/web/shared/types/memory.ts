@@ -9,6 +9,9 @@ export interface Memory {
   details: string;
   tags: string[];
   created_at: number;
+  expires_at?: number;
+  supersedes?: string[];
+  confidence?: number;
 }
 
 export interface MemorySearchResult extends Memory {
@@ -23,8 +26,21 @@ export interface MemorySearchResult extends Memory {
 export interface MemorySearchParams {
   query: string;
   limit?: number;
+  include_inactive?: boolean;
+  tags?: string[];
+  tag_match?: 'any' | 'all';
+  exclude_tags?: string[];
+  /** Unix ms timestamp or ISO 8601 date (inclusive) */
+  since?: number | string;
+  /** Unix ms timestamp or ISO 8601 date (inclusive) */
+  until?: number | string;
 }
 
+/**
+ * Tag and date filters applied before hybrid scoring
+ */
+export type MemoryFilterParams = Pick<MemorySearchParams, 'tags' | 'tag_match' | 'exclude_tags' | 'since' | 'until'>;
+
 /**
  * Memory search response
  */
@@ -39,6 +55,9 @@ export interface MemoryStoreParams {
   summary: string;
   details: string;
   tags?: string[];
+  expires_at?: number;
+  supersedes?: string[];
+  confidence?: number;
 }
 
 /**
@@ -49,3 +68,28 @@ export interface MemoryStoreResponse {
   memory?: Memory;
   error?: string;
 }
+
+/**
+ * Memory update request parameters
+ */
+export type MemoryUpdateParams = Partial<MemoryStoreParams>;
+
+/**
+ * Memory update response
+ */
+export type MemoryUpdateResponse = MemoryStoreResponse;
+
+/**
+ * Memory merge request parameters
+ * The first id is kept; the others are folded into it and removed
+ */
+export interface MemoryMergeParams extends MemoryUpdateParams {
+  ids: string[];
+}
+
+/**
+ * Memory merge response
+ */
+export interface MemoryMergeResponse extends MemoryStoreResponse {
+  merged_ids?: string[];
+}
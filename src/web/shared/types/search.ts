@@ -0,0 +1,26 @@
+/**
+ * Shared types for the unified search API
+ * Used by both server and client
+ */
+
+import type {
+  DevtoolsSearchParams,
+  ModuleSearchError,
+  SearchModule,
+  UnifiedResultType,
+  UnifiedSearchResult,
+  UnifiedSearchResults
+} from '../../../search/types.js';
+
+// Re-export core types for convenience
+export type { ModuleSearchError, SearchModule, UnifiedResultType, UnifiedSearchResult };
+
+/**
+ * Unified search request parameters (the same as the devtools_search tool's)
+ */
+export type UnifiedSearchParams = DevtoolsSearchParams;
+
+/**
+ * Unified search response
+ */
+export type UnifiedSearchResponse = UnifiedSearchResults;
@@ -7,7 +7,15 @@ import { execSync } from 'child_process';
 
 import type { WorkflowState, StateVariables, ParsedStoryId, WorkflowLogger } from '../types/workflow.js';
 
+import {
+  getDefaultStatus,
+  getStatusNames,
+  isActiveStatus,
+  isInProgressStatus,
+  isTerminalStatus
+} from '../../kanban/services/statuses.js';
 import { readAllStories, readConfig } from '../../kanban/services/storage.js';
+import { getStoryIdFromBranch } from '../../shared/story-ids.js';
 
 import type { Story, Subtask, Phase } from '../../kanban/types.js';
 
@@ -38,10 +46,9 @@ function runCommand(command: string, logger?: WorkflowLogger): string {
 function extractStoryIdFromBranch(branchName: string, logger?: WorkflowLogger): string | null {
   logger?.debug(`Extracting story ID from branch: ${branchName}`);
 
-  const match = branchName.match(/^feature\/([A-Z]+-\d+)(?:-|$)/);
+  const storyId = getStoryIdFromBranch(branchName);
 
-  if (match) {
-    const storyId = match[1];
+  if (storyId) {
     logger?.debug(`Extracted story ID: ${storyId}`);
     return storyId;
   }
@@ -179,6 +186,8 @@ function sortStoriesByPhase(stories: Story[], phases: Phase[]): Story[] {
 
 /**
  * Derive all state variables from git, kanban, and config state
+ * Work not yet started is in the configured default status and work being done is in a status
+ * flagged `in_progress`; stories in `in_review` are kept apart for the review branch of the tree.
  */
 export async function deriveStateVariables(
   gitState: WorkflowState,
@@ -190,14 +199,22 @@ export async function deriveStateVariables(
   const kanbanConfig = await readConfig();
   const phases = kanbanConfig.phases;
 
-  const stories_in_progress = stories.filter((s) => s.status === 'in_progress');
+  const storyTodoStatus = getDefaultStatus(kanbanConfig, 'story');
+  const subtaskTodoStatus = getDefaultStatus(kanbanConfig, 'subtask');
+  const isSubtaskActive = (st: Subtask): boolean => isActiveStatus(kanbanConfig, 'subtask', st.status);
+
+  const stories_in_progress = stories.filter((s) => isInProgressStatus(kanbanConfig, 'story', s.status));
   const stories_in_review = stories.filter((s) => s.status === 'in_review');
-  const stories_done = stories.filter((s) => s.status === 'done');
+  const stories_done = stories.filter((s) => isTerminalStatus(kanbanConfig, 'story', s.status));
   const stories_todo = sortStoriesByPhase(
-    stories.filter((s) => s.status === 'todo'),
+    stories.filter((s) => s.status === storyTodoStatus),
     phases
   );
   const stories_blocked: Story[] = [];
+  const stories_by_status: Record<string, Story[]> = {};
+  for (const status of getStatusNames(kanbanConfig, 'story')) {
+    stories_by_status[status] = stories.filter((s) => s.status === status);
+  }
 
   const current_story = stories_in_progress[0] ?? stories_in_review[0] ?? null;
   const current_story_id = current_story?.id ?? null;
@@ -214,14 +231,14 @@ export async function deriveStateVariables(
   let next_subtask_title: string | null = null;
 
   if (current_story_subtasks && Array.isArray(current_story_subtasks)) {
-    subtasks_in_progress = current_story_subtasks.filter((st) => st.status === 'in_progress').length;
-    subtasks_todo = current_story_subtasks.filter((st) => st.status === 'todo').length;
-    subtasks_done = current_story_subtasks.filter((st) => st.status === 'done').length;
+    subtasks_in_progress = current_story_subtasks.filter(isSubtaskActive).length;
+    subtasks_todo = current_story_subtasks.filter((st) => st.status === subtaskTodoStatus).length;
+    subtasks_done = current_story_subtasks.filter((st) => isTerminalStatus(kanbanConfig, 'subtask', st.status)).length;
 
-    current_subtask = current_story_subtasks.find((st) => st.status === 'in_progress') ?? null;
+    current_subtask = current_story_subtasks.find(isSubtaskActive) ?? null;
     current_subtask_id = current_subtask?.id ?? null;
 
-    next_subtask = current_story_subtasks.find((st) => st.status === 'todo') ?? null;
+    next_subtask = current_story_subtasks.find((st) => st.status === subtaskTodoStatus) ?? null;
     next_subtask_id = next_subtask?.id ?? null;
     next_subtask_title = next_subtask?.title ?? null;
   }
@@ -254,7 +271,7 @@ export async function deriveStateVariables(
   }
 
   let feature_branch_exists_for_current_story = false;
-  if (current_story_id && current_story_status === 'in_progress') {
+  if (current_story_id && current_story_status && isInProgressStatus(kanbanConfig, 'story', current_story_status)) {
     const currentFeatureBranch = findFeatureBranchForStory(current_story_id, logger);
     feature_branch_exists_for_current_story = Boolean(currentFeatureBranch);
   }
@@ -267,6 +284,7 @@ export async function deriveStateVariables(
     stories_done,
     stories_todo,
     stories_blocked,
+    stories_by_status,
     current_story,
     current_story_id,
     current_story_status,
@@ -39,7 +39,8 @@ export async function postProcessReview(
       metadata.story_id,
       metadata.round_number,
       reviewerName.toLowerCase(),
-      reviewContent
+      reviewContent,
+      { source: 'workflow' }
     );
 
     onProgress?.(
@@ -26,6 +26,8 @@ export interface KanbanState {
   stories_done: Story[];
   stories_todo: Story[];
   stories_blocked: Story[];
+  /** Stories in each configured story status, in column order */
+  stories_by_status: Record<string, Story[]>;
   current_story: Story | null;
   current_story_id: string | null;
   current_story_status: string | null;
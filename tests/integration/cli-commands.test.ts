@@ -211,6 +211,11 @@ describe('CLI Commands Integration', () => {
         { command: 'node', args: ['./dist/source-code-mapper/mcp-server/index.js'], disabled: false },
         tempDir
       );
+      await addMcpServer(
+        'cc-devtools-search',
+        { command: 'node', args: ['./dist/search/index.js'], disabled: false },
+        tempDir
+      );
       await addMcpServer(
         'cc-devtools-clipboard',
         { command: 'node', args: ['./dist/clipboard/index.js'], disabled: false },
@@ -0,0 +1,302 @@
+/**
+ * Unit tests for Kanban flow analytics
+ * Tests status timelines rebuilt from the event log, cycle/lead time, throughput, estimate
+ * accuracy, cumulative flow, burndown, range handling and the analytics command's text output
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { join } from 'path';
+import { existsSync, mkdirSync, rmSync } from 'fs';
+import { computeAnalytics } from '../../../src/kanban/services/analytics.js';
+import { saveStory } from '../../../src/kanban/services/storage.js';
+import { analyticsCommand } from '../../../src/cli/commands/kanban/analytics.js';
+import { renderCsv, renderTable } from '../../../src/cli/core/tabular.js';
+import type { SuccessResponse } from '../../../src/cli/types.js';
+import type { Story, Config, KanbanEvent } from '../../../src/kanban/types.js';
+
+describe('Kanban Analytics (Unit)', () => {
+  const config: Config = {
+    statuses: {
+      story: ['todo', 'in_progress', 'in_review', 'done'],
+      subtask: ['todo', 'in_progress', 'done'],
+    },
+    business_values: ['XS', 'S', 'M', 'L', 'XL'],
+    phases: ['MVP', 'BETA'],
+    default_status: { story: 'todo', subtask: 'todo' },
+  };
+
+  const now = new Date('2026-01-14T12:00:00.000Z');
+  const range = { since: '2026-01-05', until: '2026-01-14' };
+
+  const story = (id: string, status: string, extra: Partial<Story> = {}): Story => ({
+    id,
+    title: `Story ${id}`,
+    status,
+    phase: id.split('-')[0],
+    ...extra,
+  });
+
+  const created = (id: string, timestamp: string): KanbanEvent => ({
+    timestamp, type: 'story_created', id, story_id: id, actor: 'alice', to: 'todo',
+  });
+
+  const moved = (id: string, timestamp: string, from: string, to: string): KanbanEvent => ({
+    timestamp, type: 'status_changed', id, story_id: id, actor: 'alice', field: 'status', from, to,
+  });
+
+  // MVP-001 finished in range, MVP-002 still in progress, BETA-001 predates the log
+  const stories = [
+    story('MVP-001', 'done', { effort_estimation_hours: 40 }),
+    story('MVP-002', 'in_progress', { effort_estimation_hours: 8 }),
+    story('BETA-001', 'done'),
+  ];
+  const events: KanbanEvent[] = [
+    created('MVP-001', '2026-01-05T09:00:00.000Z'),
+    created('MVP-002', '2026-01-05T10:00:00.000Z'),
+    moved('MVP-001', '2026-01-06T09:00:00.000Z', 'todo', 'in_progress'),
+    { timestamp: '2026-01-07T09:00:00.000Z', type: 'field_changed', id: 'MVP-001', story_id: 'MVP-001', actor: 'alice', field: 'title', from: 'Old', to: 'New' },
+    moved('MVP-001', '2026-01-08T09:00:00.000Z', 'in_progress', 'done'),
+    moved('MVP-002', '2026-01-12T00:00:00.000Z', 'todo', 'in_progress'),
+    moved('BETA-001', '2026-01-13T00:00:00.000Z', 'in_progress', 'done'),
+  ];
+
+  describe('computeAnalytics', () => {
+    it('should compute cycle and lead time per story', () => {
+      const analytics = computeAnalytics(stories, events, config, range, now);
+
+      expect(analytics.stories).toEqual([
+        {
+          id: 'MVP-001', title: 'Story MVP-001', phase: 'MVP', status: 'done',
+          created_at: '2026-01-05T09:00:00.000Z',
+          started_at: '2026-01-06T09:00:00.000Z',
+          completed_at: '2026-01-08T09:00:00.000Z',
+          cycle_time_days: 2,
+          lead_time_days: 3,
+        },
+        {
+          id: 'MVP-002', title: 'Story MVP-002', phase: 'MVP', status: 'in_progress',
+          created_at: '2026-01-05T10:00:00.000Z',
+          started_at: '2026-01-12T00:00:00.000Z',
+          completed_at: undefined,
+          cycle_time_days: undefined,
+          lead_time_days: undefined,
+        },
+        {
+          id: 'BETA-001', title: 'Story BETA-001', phase: 'BETA', status: 'done',
+          created_at: undefined,
+          started_at: undefined,
+          completed_at: '2026-01-13T00:00:00.000Z',
+          cycle_time_days: undefined,
+          lead_time_days: undefined,
+        },
+      ]);
+    });
+
+    it('should summarize stories completed in range and bucket throughput by week', () => {
+      const analytics = computeAnalytics(stories, events, config, range, now);
+
+      expect(analytics.throughput).toEqual([
+        { week: '2026-01-05', completed: 1 },
+        { week: '2026-01-12', completed: 1 },
+      ]);
+      expect(analytics.summary).toEqual({
+        stories: 3,
+        completed: 2,
+        avg_cycle_time_days: 2,
+        median_cycle_time_days: 2,
+        avg_lead_time_days: 3,
+        median_lead_time_days: 3,
+        avg_throughput_per_week: 1,
+        median_estimate_ratio: 1.2,
+      });
+    });
+
+    it('should compare estimates with hours spent in progress for finished stories', () => {
+      const analytics = computeAnalytics(stories, events, config, range, now);
+
+      expect(analytics.estimates).toEqual([
+        { id: 'MVP-001', title: 'Story MVP-001', estimate_hours: 40, actual_hours: 48, ratio: 1.2 },
+      ]);
+    });
+
+    it('should count every started, unfinished status as time worked on custom boards', () => {
+      const custom: Config = {
+        ...config,
+        statuses: { story: ['backlog', 'doing', { name: 'qa' }, { name: 'shipped', terminal: true }], subtask: ['todo', 'done'] },
+        default_status: { story: 'backlog', subtask: 'todo' },
+      };
+      const shipped = story('MVP-005', 'shipped', { effort_estimation_hours: 10 });
+      const flow: KanbanEvent[] = [
+        { ...created('MVP-005', '2026-01-05T00:00:00.000Z'), to: 'backlog' },
+        moved('MVP-005', '2026-01-06T00:00:00.000Z', 'backlog', 'doing'),
+        moved('MVP-005', '2026-01-06T10:00:00.000Z', 'doing', 'qa'),
+        moved('MVP-005', '2026-01-06T12:00:00.000Z', 'qa', 'shipped'),
+      ];
+
+      const analytics = computeAnalytics([shipped], flow, custom, range, now);
+
+      expect(analytics.estimates).toEqual([
+        { id: 'MVP-005', title: 'Story MVP-005', estimate_hours: 10, actual_hours: 12, ratio: 1.2 },
+      ]);
+    });
+
+    it('should leave stories closed without completing them out of throughput and cycle time', () => {
+      const withCancelled: Config = {
+        ...config,
+        statuses: { ...config.statuses, story: ['todo', 'in_progress', 'in_review', 'done', { name: 'cancelled', terminal: true }] },
+      };
+      const cancelled = story('MVP-004', 'cancelled', { effort_estimation_hours: 4 });
+      const flow: KanbanEvent[] = [
+        ...events,
+        created('MVP-004', '2026-01-05T00:00:00.000Z'),
+        moved('MVP-004', '2026-01-06T00:00:00.000Z', 'todo', 'in_progress'),
+        moved('MVP-004', '2026-01-09T00:00:00.000Z', 'in_progress', 'cancelled'),
+      ];
+
+      const analytics = computeAnalytics([...stories, cancelled], flow, withCancelled, range, now);
+
+      expect(analytics.stories.find(s => s.id === 'MVP-004')).toMatchObject({
+        started_at: '2026-01-06T00:00:00.000Z',
+        completed_at: undefined,
+        cycle_time_days: undefined,
+        lead_time_days: undefined,
+      });
+      expect(analytics.throughput).toEqual([
+        { week: '2026-01-05', completed: 1 },
+        { week: '2026-01-12', completed: 1 },
+      ]);
+      expect(analytics.summary).toMatchObject({ stories: 4, completed: 2, avg_cycle_time_days: 2, avg_lead_time_days: 3 });
+      expect(analytics.estimates.map(e => e.id)).toEqual(['MVP-001']);
+      expect(analytics.burndown[0].points[4]).toMatchObject({ date: '2026-01-09', remaining: 1 });
+    });
+
+    it('should count stories per status at the end of each day', () => {
+      const analytics = computeAnalytics(stories, events, config, range, now);
+      const flow = new Map(analytics.cumulative_flow.map(point => [point.date, point.counts]));
+
+      expect(analytics.statuses).toEqual(['todo', 'in_progress', 'in_review', 'done']);
+      expect(analytics.cumulative_flow).toHaveLength(10);
+      expect(flow.get('2026-01-05')).toEqual({ todo: 2, in_progress: 1, in_review: 0, done: 0 });
+      expect(flow.get('2026-01-08')).toEqual({ todo: 1, in_progress: 1, in_review: 0, done: 1 });
+      expect(flow.get('2026-01-14')).toEqual({ todo: 0, in_progress: 1, in_review: 0, done: 2 });
+    });
+
+    it('should burn down unfinished stories and estimated hours per phase', () => {
+      const analytics = computeAnalytics(stories, events, config, range, now);
+      const [mvp, beta] = analytics.burndown;
+
+      expect(mvp).toMatchObject({ phase: 'MVP', total: 2 });
+      expect(mvp.points[0]).toEqual({ date: '2026-01-05', remaining: 2, remaining_hours: 48 });
+      expect(mvp.points[3]).toEqual({ date: '2026-01-08', remaining: 1, remaining_hours: 8 });
+      expect(beta.points.map(point => point.remaining)).toEqual([1, 1, 1, 1, 1, 1, 1, 1, 0, 0]);
+    });
+
+    it('should restrict every report to the requested phase', () => {
+      const analytics = computeAnalytics(stories, events, config, { ...range, phase: 'BETA' }, now);
+
+      expect(analytics.phase).toBe('BETA');
+      expect(analytics.stories.map(s => s.id)).toEqual(['BETA-001']);
+      expect(analytics.burndown.map(b => b.phase)).toEqual(['BETA']);
+      expect(analytics.summary).toMatchObject({ stories: 1, completed: 1, avg_cycle_time_days: null });
+    });
+
+    it('should fall back to completion_timestamp for stories finished outside the tools', () => {
+      const finished = story('MVP-003', 'done', { completion_timestamp: '2026-01-09T12:00:00.000Z' });
+
+      const analytics = computeAnalytics([finished], [], config, range, now);
+
+      expect(analytics.stories[0].completed_at).toBe('2026-01-09T12:00:00.000Z');
+      expect(analytics.throughput).toEqual([
+        { week: '2026-01-05', completed: 1 },
+        { week: '2026-01-12', completed: 0 },
+      ]);
+    });
+
+    it('should start over when a story ID is deleted and created again', () => {
+      const reused = [
+        created('MVP-001', '2026-01-01T00:00:00.000Z'),
+        moved('MVP-001', '2026-01-02T00:00:00.000Z', 'todo', 'done'),
+        created('MVP-001', '2026-01-10T00:00:00.000Z'),
+      ];
+
+      const analytics = computeAnalytics([story('MVP-001', 'todo')], reused, config, range, now);
+
+      expect(analytics.stories[0]).toMatchObject({ created_at: '2026-01-10T00:00:00.000Z', completed_at: undefined });
+      expect(analytics.cumulative_flow[0].counts).toMatchObject({ todo: 0, done: 0 });
+    });
+
+    it('should default to the last 30 days and reject invalid ranges', () => {
+      const analytics = computeAnalytics([], [], config, {}, now);
+      expect([analytics.since, analytics.until]).toEqual(['2025-12-16', '2026-01-14']);
+      expect(analytics.cumulative_flow).toHaveLength(30);
+
+      expect(() => computeAnalytics([], [], config, { since: '2026-13-45' }, now)).toThrow('Invalid since date');
+      expect(() => computeAnalytics([], [], config, { until: 'yesterday' }, now)).toThrow('Invalid until date');
+      expect(() => computeAnalytics([], [], config, { since: '2026-01-10', until: '2026-01-01' }, now)).toThrow('must not be after');
+    });
+  });
+
+  describe('tabular output', () => {
+    const table = {
+      columns: ['id', 'ratio', 'title'],
+      rows: [
+        ['MVP-1', 1.2, 'Login, "basic"'],
+        ['MVP-10', null, 'Signup'],
+      ],
+    };
+
+    it('should align columns and right-align numbers in tables', () => {
+      expect(renderTable(table)).toBe([
+        'id      ratio  title',
+        '------  -----  --------------',
+        'MVP-1     1.2  Login, "basic"',
+        'MVP-10         Signup',
+      ].join('\n'));
+    });
+
+    it('should quote CSV fields containing commas or quotes', () => {
+      expect(renderCsv(table)).toBe('id,ratio,title\nMVP-1,1.2,"Login, ""basic"""\nMVP-10,,Signup');
+    });
+  });
+
+  describe('analytics command', () => {
+    const originalCwd = process.cwd();
+    let testDir: string;
+
+    beforeEach(() => {
+      testDir = join(originalCwd, 'test-tmp-analytics-' + Date.now());
+      mkdirSync(join(testDir, 'cc-devtools'), { recursive: true });
+      process.chdir(testDir);
+    });
+
+    afterEach(() => {
+      process.chdir(originalCwd);
+      if (existsSync(testDir)) {
+        rmSync(testDir, { recursive: true, force: true, maxRetries: 3, retryDelay: 100 });
+      }
+    });
+
+    it('should return one report as JSON or as CSV text', async () => {
+      const saved = story('MVP-001', 'todo');
+      await saveStory(saved, { source: 'cli' });
+      await saveStory({ ...saved, status: 'in_progress' }, { source: 'cli' });
+      await saveStory({ ...saved, status: 'done' }, { source: 'cli' });
+
+      const json = await analyticsCommand([], { report: 'throughput' });
+      expect(json).toMatchObject({ success: true, data: { report: 'throughput' } });
+      expect(json).not.toHaveProperty('text');
+
+      const csv = await analyticsCommand([], { report: 'cycle-time', format: 'csv' });
+      expect(csv.success).toBe(true);
+      const [header, row] = String((csv as SuccessResponse).text).split('\n');
+      expect(header).toBe('id,phase,status,started_at,completed_at,cycle_time_days,lead_time_days,title');
+      expect(row).toMatch(/^MVP-001,MVP,done,/);
+    });
+
+    it('should reject unknown reports, formats and phases', async () => {
+      expect(await analyticsCommand([], { report: 'velocity' })).toMatchObject({ success: false });
+      expect(await analyticsCommand([], { format: 'xml' })).toMatchObject({ success: false });
+      expect(await analyticsCommand([], { phase: 'GA' })).toMatchObject({ success: false });
+    });
+  });
+});
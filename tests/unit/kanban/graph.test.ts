@@ -0,0 +1,193 @@
+/**
+ * Unit tests for the Kanban dependency graph
+ * Tests blocked items, cycle detection, the critical path, phase and focus filtering, DOT and
+ * Mermaid rendering, and cycle violations when validating moves
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildDependencyGraph, findDependencyCycles, toDot, toMermaid } from '../../../src/kanban/services/graph.js';
+import { validateStoryMove, validateSubtaskMove } from '../../../src/kanban/services/validation.js';
+import type { Story, Config } from '../../../src/kanban/types.js';
+
+describe('Kanban Dependency Graph (Unit)', () => {
+  const config: Config = {
+    statuses: {
+      story: ['todo', 'in_progress', 'in_review', 'done'],
+      subtask: ['todo', 'in_progress', 'done'],
+    },
+    business_values: ['XS', 'S', 'M', 'L', 'XL'],
+    phases: ['MVP', 'BETA'],
+    default_status: { story: 'todo', subtask: 'todo' },
+    workflow_rules: {
+      max_stories_in_progress: 3,
+      subtasks_require_story_in_progress: false,
+      all_subtasks_completed_before_review: false,
+    },
+  };
+
+  const story = (id: string, status: string, extra: Partial<Story> = {}): Story => ({
+    id,
+    title: `Story ${id}`,
+    status,
+    phase: id.split('-')[0],
+    ...extra,
+  });
+
+  // MVP-001 done -> MVP-002 -> MVP-003, MVP-004 -> MVP-003, BETA-001 <-> BETA-002
+  const stories = [
+    story('MVP-001', 'done', { effort_estimation_hours: 5 }),
+    story('MVP-002', 'in_progress', { effort_estimation_hours: 8, dependent_upon: ['MVP-001'] }),
+    story('MVP-003', 'todo', { effort_estimation_hours: 3, dependent_upon: ['MVP-002', 'MVP-004'] }),
+    story('MVP-004', 'todo', { effort_estimation_hours: 2 }),
+    story('BETA-001', 'todo', { dependent_upon: ['BETA-002', 'MVP-003'] }),
+    story('BETA-002', 'todo', { dependent_upon: ['BETA-001'] }),
+  ];
+
+  describe('buildDependencyGraph', () => {
+    it('should mark done and blocked stories and the edges holding them up', () => {
+      const graph = buildDependencyGraph(stories, config);
+      const node = (id: string) => graph.nodes.find(n => n.id === id);
+
+      expect(node('MVP-001')).toMatchObject({ done: true, blocked: false, depth: 0 });
+      expect(node('MVP-002')).toMatchObject({ done: false, blocked: false, depth: 1 });
+      expect(node('MVP-003')).toMatchObject({ done: false, blocked: true, depth: 2 });
+      expect(graph.edges).toContainEqual({ from: 'MVP-001', to: 'MVP-002', blocking: false });
+      expect(graph.edges).toContainEqual({ from: 'MVP-002', to: 'MVP-003', blocking: true });
+    });
+
+    it('should report each cycle once, every item depending on the next', () => {
+      const graph = buildDependencyGraph(stories, config);
+
+      expect(graph.cycles).toEqual([['BETA-001', 'BETA-002']]);
+      expect(graph.nodes.find(n => n.id === 'BETA-001')?.depth).toBe(3);
+    });
+
+    it('should follow the chain with the most remaining effort as the critical path', () => {
+      const graph = buildDependencyGraph(stories, config);
+
+      expect(graph.critical_path).toEqual({ ids: ['MVP-002', 'MVP-003'], hours: 11 });
+      expect(graph.nodes.filter(n => n.critical).map(n => n.id)).toEqual(['MVP-002', 'MVP-003']);
+    });
+
+    it('should compare chains by length when nothing is estimated', () => {
+      const unestimated = [
+        story('MVP-001', 'todo'),
+        story('MVP-002', 'todo', { dependent_upon: ['MVP-001'] }),
+        story('MVP-003', 'todo'),
+      ];
+
+      expect(buildDependencyGraph(unestimated, config).critical_path).toEqual({ ids: ['MVP-001', 'MVP-002'], hours: 0 });
+    });
+
+    it('should add placeholders for dependencies that are not on the board', () => {
+      const graph = buildDependencyGraph([story('MVP-001', 'todo', { dependent_upon: ['MVP-009'] })], config);
+
+      expect(graph.nodes.find(n => n.id === 'MVP-009')).toMatchObject({ missing: true, done: false });
+      expect(graph.nodes.find(n => n.id === 'MVP-001')?.blocked).toBe(true);
+    });
+
+    it('should keep a phase and everything it depends on', () => {
+      const graph = buildDependencyGraph(stories, config, { phase: 'BETA' });
+
+      expect(graph.nodes.map(n => n.id).sort()).toEqual(['BETA-001', 'BETA-002', 'MVP-001', 'MVP-002', 'MVP-003', 'MVP-004']);
+      expect(buildDependencyGraph(stories, config, { phase: 'MVP' }).nodes.map(n => n.id)).not.toContain('BETA-001');
+    });
+
+    it('should focus on one item and its upstream and downstream chain', () => {
+      const graph = buildDependencyGraph(stories, config, { focus: 'MVP-002' });
+
+      expect(graph.nodes.map(n => n.id).sort()).toEqual(['BETA-001', 'BETA-002', 'MVP-001', 'MVP-002', 'MVP-003']);
+      expect(() => buildDependencyGraph(stories, config, { focus: 'MVP-099' })).toThrow('MVP-099 not found');
+    });
+
+    it('should include subtask dependencies within their story', () => {
+      const withSubtasks = [
+        story('MVP-001', 'in_progress', {
+          subtasks: [
+            { id: 'MVP-001-1', title: 'Form', status: 'done' },
+            { id: 'MVP-001-2', title: 'Api', status: 'todo', dependent_upon: ['MVP-001-1'] },
+          ],
+        }),
+      ];
+
+      const graph = buildDependencyGraph(withSubtasks, config, { subtasks: true });
+
+      expect(graph.nodes.map(n => [n.id, n.type, n.story_id])).toEqual([
+        ['MVP-001', 'story', 'MVP-001'],
+        ['MVP-001-1', 'subtask', 'MVP-001'],
+        ['MVP-001-2', 'subtask', 'MVP-001'],
+      ]);
+      expect(graph.edges).toEqual([{ from: 'MVP-001-1', to: 'MVP-001-2', blocking: false }]);
+    });
+  });
+
+  describe('rendering', () => {
+    it('should render DOT with escaped labels and highlighted edges', () => {
+      const graph = buildDependencyGraph([story('MVP-001', 'todo', { title: 'Say "hi"' }), ...stories.slice(1)], config);
+      const dot = toDot(graph);
+
+      expect(dot.startsWith('digraph dependencies {')).toBe(true);
+      expect(dot).toContain('"MVP-001" [label="MVP-001\\nSay \\"hi\\"\\n[todo]", color="#d97706", penwidth=2];');
+      expect(dot).toContain('"MVP-003" [label="MVP-003\\nStory MVP-003\\n[todo]", fillcolor="#fee2e2", color="#d97706", penwidth=2];');
+      expect(dot).toContain('"MVP-002" -> "MVP-003" [color="#d97706", penwidth=2];');
+      expect(dot).toContain('"MVP-004" -> "MVP-003" [color="#dc2626"];');
+      expect(dot).toContain('"BETA-002" -> "BETA-001" [color="#7c3aed", style=bold];');
+    });
+
+    it('should render a Mermaid flowchart with classes for node states', () => {
+      const mermaid = toMermaid(buildDependencyGraph(stories, config)).split('\n');
+
+      expect(mermaid[0]).toBe('flowchart LR');
+      expect(mermaid).toContain('  MVP_001["MVP-001: Story MVP-001<br/>done"]');
+      expect(mermaid).toContain('  MVP_002 ==> MVP_003');
+      expect(mermaid).toContain('  MVP_004 --> MVP_003');
+      expect(mermaid).toContain('  class MVP_001 done');
+    });
+  });
+
+  describe('cycle validation', () => {
+    it('should find story and subtask cycles', () => {
+      const withSubtaskCycle = [
+        ...stories,
+        story('MVP-005', 'todo', {
+          subtasks: [
+            { id: 'MVP-005-1', title: 'A', status: 'todo', dependent_upon: ['MVP-005-1'] },
+          ],
+        }),
+      ];
+
+      expect(findDependencyCycles(withSubtaskCycle, config)).toEqual([['BETA-001', 'BETA-002'], ['MVP-005-1']]);
+    });
+
+    it('should block starting work in a cycle but allow moving back to the default status', async () => {
+      const result = await validateStoryMove('BETA-002', 'in_progress', stories, config);
+
+      expect(result.valid).toBe(false);
+      expect(result.violations).toContainEqual({
+        rule: 'dependency_cycle',
+        message: 'Dependency cycle: BETA-002 → BETA-001 → BETA-002',
+        suggestion: 'Remove BETA-002 from the dependent_upon of BETA-001, or break the cycle elsewhere',
+        items: ['BETA-002', 'BETA-001'],
+      });
+
+      const inProgress = stories.map(s => (s.id === 'BETA-002' ? { ...s, status: 'in_progress' } : s));
+      expect(await validateStoryMove('BETA-002', 'todo', inProgress, config)).toEqual({ valid: true });
+      expect(await validateStoryMove('MVP-004', 'in_progress', stories, config)).toEqual({ valid: true });
+    });
+
+    it('should reject a subtask that depends on itself', async () => {
+      const selfDependent = [
+        story('MVP-001', 'in_progress', {
+          subtasks: [{ id: 'MVP-001-1', title: 'A', status: 'todo', dependent_upon: ['MVP-001-1'] }],
+        }),
+      ];
+
+      const result = await validateSubtaskMove('MVP-001-1', 'in_progress', selfDependent, config);
+
+      expect(result.violations?.map(v => [v.rule, v.suggestion])).toContainEqual([
+        'dependency_cycle',
+        'Remove MVP-001-1 from its own dependent_upon',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for the Kanban event log
+ * Tests diffing story versions into events, recording them from saveStory, deleteStory and
+ * addReview without failing the save when the log can't be written, and reading them back per
+ * story or subtask
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { join } from 'path';
+import { existsSync, mkdirSync, rmSync, appendFileSync } from 'fs';
+import { diffStories, readHistory } from '../../../src/kanban/services/history.js';
+import { addReview } from '../../../src/kanban/services/review-storage.js';
+import { saveStory, deleteStory, readStory } from '../../../src/kanban/services/storage.js';
+import { historyCommand } from '../../../src/cli/commands/kanban/history.js';
+import type { Story } from '../../../src/kanban/types.js';
+
+describe('Kanban History (Unit)', () => {
+  const context = { actor: 'alice', source: 'cli' as const };
+  const timestamp = '2026-01-01T00:00:00.000Z';
+
+  const story = (extra: Partial<Story> = {}): Story => ({
+    id: 'MVP-001',
+    title: 'Login',
+    status: 'todo',
+    phase: 'MVP',
+    ...extra,
+  });
+
+  describe('diffStories', () => {
+    it('should record creation of the story and its subtasks', () => {
+      const created = story({ subtasks: [{ id: 'MVP-001-1', title: 'Form', status: 'todo' }] });
+
+      expect(diffStories(null, created, context, timestamp).map(e => [e.type, e.id, e.title])).toEqual([
+        ['story_created', 'MVP-001', 'Login'],
+        ['subtask_created', 'MVP-001-1', 'Form'],
+      ]);
+    });
+
+    it('should record status changes and field edits with old and new values', () => {
+      const before = story({ description: 'Old', labels: ['auth'], updated_at: '2025-12-01T00:00:00.000Z' });
+      const after = story({ status: 'in_progress', description: 'New', labels: ['auth'], updated_at: timestamp });
+
+      expect(diffStories(before, after, context, timestamp)).toEqual([
+        { timestamp, type: 'status_changed', id: 'MVP-001', story_id: 'MVP-001', actor: 'alice', source: 'cli', field: 'status', from: 'todo', to: 'in_progress' },
+        { timestamp, type: 'field_changed', id: 'MVP-001', story_id: 'MVP-001', actor: 'alice', source: 'cli', field: 'description', from: 'Old', to: 'New' },
+      ]);
+    });
+
+    it('should treat empty values as unset', () => {
+      expect(diffStories(story(), story({ description: '', labels: [], implementation_notes: null }), context)).toEqual([]);
+    });
+
+    it('should record subtask changes against the subtask', () => {
+      const before = story({
+        subtasks: [
+          { id: 'MVP-001-1', title: 'Form', status: 'todo' },
+          { id: 'MVP-001-2', title: 'Old task', status: 'todo' },
+        ],
+      });
+      const after = story({
+        subtasks: [
+          { id: 'MVP-001-1', title: 'Form', status: 'done' },
+          { id: 'MVP-001-3', title: 'New task', status: 'todo' },
+        ],
+      });
+
+      expect(diffStories(before, after, context).map(e => [e.type, e.id])).toEqual([
+        ['status_changed', 'MVP-001-1'],
+        ['subtask_created', 'MVP-001-3'],
+        ['subtask_deleted', 'MVP-001-2'],
+      ]);
+    });
+  });
+
+  describe('event log', () => {
+    const originalCwd = process.cwd();
+    let testDir: string;
+
+    beforeEach(() => {
+      testDir = join(originalCwd, 'test-tmp-history-' + Date.now());
+      mkdirSync(join(testDir, 'cc-devtools'), { recursive: true });
+      process.chdir(testDir);
+    });
+
+    afterEach(() => {
+      process.chdir(originalCwd);
+      if (existsSync(testDir)) {
+        rmSync(testDir, { recursive: true, force: true, maxRetries: 3, retryDelay: 100 });
+      }
+    });
+
+    it('should append events from saveStory, addReview and deleteStory', async () => {
+      await saveStory(story({ subtasks: [{ id: 'MVP-001-1', title: 'Form', status: 'todo' }] }), context);
+      await saveStory(story({ id: 'MVP-002', title: 'Other' }), context);
+
+      const saved = await readStory('MVP-001');
+      saved!.status = 'in_progress';
+      saved!.subtasks![0].status = 'in_progress';
+      await saveStory(saved!, { source: 'web' });
+      await addReview('MVP-001', 1, 'bob', 'Looks good', { source: 'workflow' });
+      await deleteStory('MVP-001', context);
+
+      const events = await readHistory('MVP-001');
+      expect(events.map(e => [e.type, e.id, e.actor, e.source])).toEqual([
+        ['story_created', 'MVP-001', 'alice', 'cli'],
+        ['subtask_created', 'MVP-001-1', 'alice', 'cli'],
+        ['status_changed', 'MVP-001', expect.any(String), 'web'],
+        ['status_changed', 'MVP-001-1', expect.any(String), 'web'],
+        ['review_added', 'MVP-001', 'bob', 'workflow'],
+        ['story_deleted', 'MVP-001', 'alice', 'cli'],
+      ]);
+      expect((await readHistory('MVP-001-1')).map(e => e.type)).toEqual(['subtask_created', 'status_changed']);
+      expect(await readHistory()).toHaveLength(7);
+    });
+
+    it('should skip a line cut short by an interrupted write', async () => {
+      await saveStory(story(), context);
+      appendFileSync(join(testDir, 'cc-devtools', 'kanban-history.jsonl'), '{"type":"status_ch');
+
+      expect(await readHistory('MVP-001')).toHaveLength(1);
+    });
+
+    it('should save and delete stories when the event log cannot be written', async () => {
+      // A directory where the log should be makes every append fail
+      mkdirSync(join(testDir, 'cc-devtools', 'kanban-history.jsonl'));
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      try {
+        await expect(saveStory(story({ status: 'in_progress' }), context)).resolves.toBeUndefined();
+        expect((await readStory('MVP-001'))?.status).toBe('in_progress');
+
+        await expect(deleteStory('MVP-001', context)).resolves.toMatchObject({ id: 'MVP-001' });
+        expect(await readStory('MVP-001')).toBeNull();
+
+        expect(consoleError).toHaveBeenCalledTimes(2);
+        expect(consoleError.mock.calls[0][0]).toContain('kanban-history.jsonl');
+      } finally {
+        consoleError.mockRestore();
+      }
+    });
+
+    it('should filter and limit events in the history command', async () => {
+      const saved = story();
+      await saveStory(saved, context);
+      for (const status of ['in_progress', 'in_review', 'done']) {
+        await saveStory({ ...saved, status }, context);
+      }
+
+      const result = await historyCommand(['MVP-001'], { type: 'status_changed', limit: '2' });
+      expect(result).toMatchObject({ success: true, data: { id: 'MVP-001', type: 'story', total: 3 } });
+      expect((result.data as { events: Array<{ to: string }> }).events.map(e => e.to)).toEqual(['in_review', 'done']);
+
+      expect(await historyCommand(['MVP-001'], { type: 'moved' })).toMatchObject({ success: false });
+    });
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Unit tests for the Kanban rules engine
+ * Tests configured rules, the rules implied by statuses and workflow_rules, structured violations
+ * and validation of the rules section
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { join } from 'path';
+import { existsSync, mkdirSync, rmSync } from 'fs';
+import { getRules, evaluateRules, validateRulesConfig } from '../../../src/kanban/services/rules.js';
+import { addReview } from '../../../src/kanban/services/review-storage.js';
+import { validateStoryMove, validateSubtaskMove } from '../../../src/kanban/services/validation.js';
+import type { Story, Config, KanbanRule, RuleMove } from '../../../src/kanban/types.js';
+
+describe('Kanban Rules Engine (Unit)', () => {
+  const baseConfig: Config = {
+    statuses: {
+      story: ['todo', 'in_progress', 'in_review', 'done'],
+      subtask: ['todo', 'in_progress', 'done'],
+    },
+    business_values: ['XS', 'S', 'M', 'L', 'XL'],
+    phases: ['MVP', 'BETA'],
+    default_status: { story: 'todo', subtask: 'todo' },
+    workflow_rules: {
+      max_stories_in_progress: 3,
+      subtasks_require_story_in_progress: true,
+      all_subtasks_completed_before_review: true,
+    },
+  };
+
+  const story = (id: string, status: string, extra: Partial<Story> = {}): Story => ({
+    id,
+    title: `Story ${id}`,
+    status,
+    phase: id.split('-')[0],
+    ...extra,
+  });
+
+  const move = (item: Story, newStatus: string, allStories: Story[], config: Config = baseConfig): RuleMove => ({
+    type: 'story',
+    item,
+    story: item,
+    newStatus,
+    allStories,
+    config,
+  });
+
+  describe('getRules', () => {
+    it('should derive rules from statuses and workflow_rules before configured rules', () => {
+      const rules = getRules({ ...baseConfig, rules: [{ type: 'review_rounds', min_rounds: 1 }] });
+
+      expect(rules.map(rule => rule.type)).toEqual([
+        'subtasks_complete',
+        'subtasks_complete',
+        'parent_in_progress',
+        'dependencies_met',
+        'review_rounds',
+      ]);
+    });
+
+    it('should only enforce max_stories_in_progress when it is 1', () => {
+      const oneAtATime = { ...baseConfig, workflow_rules: { ...baseConfig.workflow_rules, max_stories_in_progress: 1 } };
+      const withStatusLimit = { ...baseConfig, statuses: { ...baseConfig.statuses, story: [{ name: 'in_progress', wip_limit: 3 }, 'done'] } };
+
+      expect(getRules(baseConfig).filter(rule => rule.type === 'wip_limit')).toEqual([]);
+      expect(getRules(oneAtATime)[0]).toEqual({ type: 'wip_limit', status: 'in_progress', limit: 1, applies_to: 'story' });
+      expect(getRules(withStatusLimit)[0]).toEqual({ type: 'wip_limit', status: 'in_progress', limit: 3, applies_to: 'story' });
+
+      const inProgress = [story('MVP-001', 'in_progress'), story('MVP-002', 'in_progress'), story('MVP-003', 'in_progress')];
+      const next = story('MVP-004', 'todo');
+      expect(evaluateRules(move(next, 'in_progress', [...inProgress, next]))).toEqual([]);
+      expect(evaluateRules(move(next, 'in_progress', [...inProgress, next], withStatusLimit)).map(v => v.rule)).toEqual(['wip_limit']);
+    });
+
+    it('should drop optional workflow rules when disabled', () => {
+      const rules = getRules({
+        ...baseConfig,
+        workflow_rules: { max_stories_in_progress: 1, subtasks_require_story_in_progress: false, all_subtasks_completed_before_review: false },
+      });
+
+      expect(rules.map(rule => rule.type)).toEqual(['wip_limit', 'subtasks_complete', 'dependencies_met']);
+    });
+  });
+
+  describe('custom statuses', () => {
+    const customConfig: Config = {
+      ...baseConfig,
+      statuses: {
+        story: ['backlog', { name: 'doing', in_progress: true }, 'blocked', { name: 'closed', terminal: true }, { name: 'wont_do', terminal: true }],
+        subtask: ['open', { name: 'working', in_progress: true }, { name: 'finished', terminal: true }],
+      },
+      default_status: { story: 'backlog', subtask: 'open' },
+      rules: [{ type: 'review_rounds', min_rounds: 1 }, { type: 'phase_limit', phase: 'MVP', limit: 1 }],
+    };
+
+    it('should default built-in rules to the configured completed and in-progress statuses', () => {
+      const parent = story('MVP-001', 'backlog', { subtasks: [{ id: 'MVP-001-1', title: 'Task', status: 'working' }] });
+      const stories = [story('MVP-002', 'doing'), parent];
+
+      expect(evaluateRules({ ...move(parent, 'closed', stories, customConfig), reviewRounds: 0 }).map(v => v.rule)).toEqual([
+        'subtasks_complete',
+        'review_rounds',
+      ]);
+      expect(evaluateRules(move(parent, 'doing', stories, customConfig)).map(v => v.rule)).toEqual(['phase_limit']);
+      expect(evaluateRules(move(parent, 'wont_do', stories, customConfig))).toEqual([]);
+      expect(evaluateRules({
+        ...move(parent, 'finished', stories, customConfig),
+        type: 'subtask',
+        item: parent.subtasks![0],
+      })[0]).toMatchObject({ rule: 'parent_in_progress', suggestion: 'Move MVP-001 to doing first' });
+    });
+
+    it('should not count started statuses without the in_progress flag as in progress', () => {
+      const parent = story('MVP-001', 'blocked', { subtasks: [{ id: 'MVP-001-1', title: 'Task', status: 'open' }] });
+      const stories = [story('MVP-002', 'blocked'), parent];
+
+      expect(evaluateRules(move(story('MVP-003', 'backlog'), 'doing', stories, customConfig))).toEqual([]);
+      expect(evaluateRules({
+        ...move(parent, 'working', stories, customConfig),
+        type: 'subtask',
+        item: parent.subtasks![0],
+      })[0]).toMatchObject({ rule: 'parent_in_progress', suggestion: 'Move MVP-001 to doing first' });
+    });
+
+    it('should not report defaulted statuses as unknown', () => {
+      expect(validateRulesConfig(customConfig)).toEqual([]);
+    });
+  });
+
+  describe('evaluateRules', () => {
+    it('should enforce per-phase limits only for stories of that phase', () => {
+      const stories = [story('MVP-001', 'in_progress'), story('MVP-002', 'todo'), story('BETA-001', 'todo')];
+      const rules = [{ type: 'phase_limit' as const, phase: 'MVP', limit: 1 }];
+
+      expect(evaluateRules(move(stories[1], 'in_progress', stories), rules)).toEqual([
+        {
+          rule: 'phase_limit',
+          message: 'Phase limit reached: 1 MVP stories are already in_progress (limit 1): MVP-001',
+          suggestion: 'Finish one of MVP-001 first, or raise the MVP phase_limit',
+          items: ['MVP-001'],
+        },
+      ]);
+      expect(evaluateRules(move(stories[2], 'in_progress', stories), rules)).toEqual([]);
+    });
+
+    it('should require fields to be set before moving to a status', () => {
+      const rules = [
+        { type: 'required_field' as const, status: 'in_progress', field: 'acceptance_criteria' },
+        { type: 'required_field' as const, status: 'in_progress', field: 'effort_estimation_hours' },
+      ];
+      const item = story('MVP-001', 'todo', { acceptance_criteria: [], effort_estimation_hours: 0 });
+
+      const violations = evaluateRules(move(item, 'in_progress', [item]), rules);
+
+      expect(violations).toEqual([
+        {
+          rule: 'required_field',
+          message: 'Cannot move story to in_progress. acceptance_criteria must be set first',
+          suggestion: 'Set acceptance_criteria on MVP-001, then move it to in_progress',
+          fields: ['acceptance_criteria'],
+        },
+      ]);
+      expect(evaluateRules(move(item, 'in_review', [item]), rules)).toEqual([]);
+    });
+
+    it('should require review rounds before done', () => {
+      const rules = [{ type: 'review_rounds' as const, min_rounds: 2 }];
+      const item = story('MVP-001', 'in_review');
+
+      expect(evaluateRules({ ...move(item, 'done', [item]), reviewRounds: 1 }, rules)[0]).toMatchObject({
+        rule: 'review_rounds',
+        suggestion: 'Run 1 more review round for MVP-001 before moving it to done',
+      });
+      expect(evaluateRules({ ...move(item, 'done', [item]), reviewRounds: 2 }, rules)).toEqual([]);
+    });
+
+    it('should check story dependencies when configured', () => {
+      const stories = [story('MVP-001', 'in_review'), story('MVP-002', 'todo', { dependent_upon: ['MVP-001', 'MVP-009'] })];
+      const rules = [{ type: 'dependencies_met' as const, status: 'in_progress' }];
+
+      expect(evaluateRules(move(stories[1], 'in_progress', stories), rules)[0]).toMatchObject({
+        rule: 'dependencies_met',
+        items: ['MVP-001', 'MVP-009'],
+      });
+    });
+  });
+
+  describe('validateStoryMove', () => {
+    const originalCwd = process.cwd();
+    let testDir: string;
+
+    beforeEach(() => {
+      testDir = join(originalCwd, 'test-tmp-rules-' + Date.now());
+      mkdirSync(join(testDir, 'cc-devtools'), { recursive: true });
+      process.chdir(testDir);
+    });
+
+    afterEach(() => {
+      process.chdir(originalCwd);
+      if (existsSync(testDir)) {
+        rmSync(testDir, { recursive: true, force: true, maxRetries: 3, retryDelay: 100 });
+      }
+    });
+
+    it('should return every violation with the first as the error', async () => {
+      const config: Config = {
+        ...baseConfig,
+        rules: [
+          { type: 'required_field', status: 'done', field: 'implementation_notes' },
+          { type: 'review_rounds', min_rounds: 1 },
+        ],
+      };
+      const item = story('MVP-001', 'in_review', { subtasks: [{ id: 'MVP-001-1', title: 'Open', status: 'todo' }] });
+
+      const result = await validateStoryMove('MVP-001', 'done', [item], config);
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('Cannot complete story');
+      expect(result.violations?.map(v => v.rule)).toEqual(['subtasks_complete', 'required_field', 'review_rounds']);
+      expect(result.incompleteSubtasks?.map(s => s.id)).toEqual(['MVP-001-1']);
+    });
+
+    it('should count review rounds recorded in reviews.yaml', async () => {
+      const config: Config = { ...baseConfig, rules: [{ type: 'review_rounds', min_rounds: 2 }] };
+      const item = story('MVP-001', 'in_review');
+
+      await addReview('MVP-001', 1, 'alice', 'Needs changes');
+      await addReview('MVP-001', 1, 'bob', 'Agreed');
+      expect((await validateStoryMove('MVP-001', 'done', [item], config)).valid).toBe(false);
+
+      await addReview('MVP-001', 2, 'alice', 'Looks good');
+      expect((await validateStoryMove('MVP-001', 'done', [item], config)).valid).toBe(true);
+    });
+
+    it('should report status configuration problems as violations', async () => {
+      const result = await validateStoryMove('MVP-001', 'shipped', [story('MVP-001', 'todo')], baseConfig);
+
+      expect(result.violations).toEqual([
+        {
+          rule: 'invalid_status',
+          message: 'Invalid status: shipped. Allowed statuses: todo, in_progress, in_review, done',
+          suggestion: 'Use one of: todo, in_progress, in_review, done',
+        },
+      ]);
+    });
+  });
+
+  describe('validateSubtaskMove', () => {
+    it('should apply subtask rules and the parent story rule', async () => {
+      const config: Config = {
+        ...baseConfig,
+        rules: [{ type: 'required_field', status: 'done', field: 'implementation_notes', applies_to: 'subtask' }],
+      };
+      const parent = story('MVP-001', 'todo', { subtasks: [{ id: 'MVP-001-1', title: 'Task', status: 'in_progress' }] });
+
+      const result = await validateSubtaskMove('MVP-001-1', 'done', [parent], config);
+
+      expect(result.violations?.map(v => [v.rule, v.suggestion])).toEqual([
+        ['parent_in_progress', 'Move MVP-001 to in_progress first'],
+        ['required_field', 'Set implementation_notes on MVP-001-1, then move it to done'],
+      ]);
+    });
+  });
+
+  describe('validateRulesConfig', () => {
+    it('should report unknown types, invalid values and unknown references', () => {
+      const problems = validateRulesConfig({
+        ...baseConfig,
+        rules: [
+          { type: 'wip_limit', status: 'review', limit: 0 },
+          { type: 'phase_limit', phase: 'GA', limit: 2 },
+          { type: 'required_field', status: 'done', field: '' },
+          { type: 'bogus' } as unknown as KanbanRule,
+        ],
+      });
+
+      expect(problems).toEqual([
+        'config.rules[0] (wip_limit) refers to unknown story status "review"',
+        'config.rules[0] (wip_limit) limit must be a positive whole number',
+        'config.rules[1] (phase_limit) refers to unknown phase "GA"',
+        'config.rules[2] (required_field) is missing field',
+        'config.rules[3] has unknown type "bogus" (expected one of: wip_limit, phase_limit, required_field, review_rounds, subtasks_complete, parent_in_progress, dependencies_met)',
+      ]);
+      expect(validateRulesConfig(baseConfig)).toEqual([]);
+    });
+  });
+});
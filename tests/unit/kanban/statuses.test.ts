@@ -0,0 +1,230 @@
+/**
+ * Unit tests for configured Kanban statuses
+ * Tests custom statuses with labels, WIP limits, terminal and in-progress flags and allowed transitions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getStatuses,
+  isTerminalStatus,
+  getWipLimit,
+  isActiveStatus,
+  isInProgressStatus,
+  applyStatus,
+  validateStatusConfig,
+} from '../../../src/kanban/services/statuses.js';
+import { calculateProgress } from '../../../src/kanban/services/formatters.js';
+import { groupByStatus } from '../../../src/kanban/services/query.js';
+import {
+  validateStoryMove,
+  validateSubtaskMove,
+  checkDependenciesMet,
+  checkSubtasksComplete,
+} from '../../../src/kanban/services/validation.js';
+import type { Story, Config } from '../../../src/kanban/types.js';
+
+describe('Kanban Statuses (Unit)', () => {
+  const config: Config = {
+    statuses: {
+      story: [
+        { name: 'todo', transitions: ['in_progress', 'cancelled'] },
+        { name: 'in_progress', wip_limit: 2 },
+        { name: 'blocked', color: '#ef4444', wip_limit: 1 },
+        'in_review',
+        'done',
+        { name: 'cancelled', label: 'Won\'t Do', terminal: true, transitions: [] },
+      ],
+      subtask: ['todo', 'in_progress', 'done', { name: 'skipped', terminal: true }],
+    },
+    business_values: ['XS', 'S', 'M', 'L', 'XL'],
+    phases: ['MVP'],
+    default_status: { story: 'todo', subtask: 'todo' },
+    workflow_rules: {
+      max_stories_in_progress: 1,
+      subtasks_require_story_in_progress: true,
+      all_subtasks_completed_before_review: true,
+    },
+  };
+
+  const story = (id: string, status: string, extra: Partial<Story> = {}): Story => ({
+    id,
+    title: `Story ${id}`,
+    status,
+    phase: 'MVP',
+    ...extra,
+  });
+
+  describe('getStatuses', () => {
+    it('should normalize names and definitions in configured order', () => {
+      const statuses = getStatuses(config, 'story');
+
+      expect(statuses.map(s => s.name)).toEqual(['todo', 'in_progress', 'blocked', 'in_review', 'done', 'cancelled']);
+      expect(statuses[0]).toMatchObject({ label: 'To Do', terminal: false });
+      expect(statuses[2]).toMatchObject({ label: 'Blocked', color: '#ef4444', wip_limit: 1 });
+      expect(statuses[4]).toMatchObject({ label: 'Done', terminal: true });
+      expect(statuses[5]).toMatchObject({ label: 'Won\'t Do', terminal: true });
+    });
+
+    it('should treat only done as terminal for unknown statuses', () => {
+      expect(isTerminalStatus(config, 'subtask', 'skipped')).toBe(true);
+      expect(isTerminalStatus(config, 'subtask', 'done')).toBe(true);
+      expect(isTerminalStatus(config, 'story', 'archived')).toBe(false);
+    });
+
+    it('should prefer configured WIP limits over max_stories_in_progress', () => {
+      expect(getWipLimit(config, 'story', 'in_progress')).toBe(2);
+      expect(getWipLimit(config, 'story', 'in_review')).toBeUndefined();
+      expect(getWipLimit({ ...config, statuses: { story: ['in_progress'], subtask: [] } }, 'story', 'in_progress')).toBe(1);
+    });
+  });
+
+  describe('validateStoryMove', () => {
+    it('should reject moves the current status does not allow', async () => {
+      const result = await validateStoryMove('MVP-001', 'done', [story('MVP-001', 'todo')], config);
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('Cannot move story from todo to done');
+      expect(result.error).toContain('in_progress, cancelled');
+    });
+
+    it('should allow any configured move from statuses without transitions', async () => {
+      const result = await validateStoryMove('MVP-001', 'blocked', [story('MVP-001', 'in_progress')], config);
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should list allowed statuses for unknown statuses', async () => {
+      const result = await validateStoryMove('MVP-001', 'archived', [story('MVP-001', 'done')], config);
+
+      expect(result.error).toBe('Invalid status: archived. Allowed statuses: todo, in_progress, blocked, in_review, done, cancelled');
+    });
+
+    it('should enforce WIP limits of custom statuses', async () => {
+      const stories = [story('MVP-001', 'in_progress'), story('MVP-002', 'blocked'), story('MVP-003', 'in_progress')];
+
+      const blocked = await validateStoryMove('MVP-001', 'blocked', stories, config);
+      expect(blocked.valid).toBe(false);
+      expect(blocked.error).toContain('WIP limit reached');
+      expect(blocked.blockingStories?.map(s => s.id)).toEqual(['MVP-002']);
+
+      const started = await validateStoryMove('MVP-004', 'in_progress', [...stories, story('MVP-004', 'todo')], config);
+      expect(started.valid).toBe(false);
+      expect(started.blockingStories?.map(s => s.id)).toEqual(['MVP-001', 'MVP-003']);
+    });
+
+    it('should allow cancelling stories with open subtasks', async () => {
+      const open = story('MVP-001', 'todo', { subtasks: [{ id: 'MVP-001-1', title: 'Open', status: 'todo' }] });
+
+      expect((await validateStoryMove('MVP-001', 'cancelled', [open], config)).valid).toBe(true);
+    });
+  });
+
+  describe('terminal statuses', () => {
+    it('should count terminal subtasks as complete', () => {
+      const parent = story('MVP-001', 'in_progress', {
+        subtasks: [
+          { id: 'MVP-001-1', title: 'Done', status: 'done' },
+          { id: 'MVP-001-2', title: 'Skipped', status: 'skipped' },
+        ],
+      });
+
+      expect(checkSubtasksComplete(parent, config).complete).toBe(true);
+      expect(checkSubtasksComplete(parent).complete).toBe(false);
+    });
+
+    it('should count terminal subtasks towards progress', () => {
+      const subtasks = [
+        { id: 'MVP-001-1', title: 'Done', status: 'done' },
+        { id: 'MVP-001-2', title: 'Skipped', status: 'skipped' },
+        { id: 'MVP-001-3', title: 'Open', status: 'todo' },
+      ];
+
+      expect(calculateProgress(subtasks, config)).toMatchObject({ completed: 2, total: 3, percentage: 67 });
+    });
+
+    it('should treat statuses between the default and terminal ones as active', () => {
+      expect(isActiveStatus(config, 'story', 'blocked')).toBe(true);
+      expect(isActiveStatus(config, 'story', 'todo')).toBe(false);
+      expect(isActiveStatus(config, 'story', 'cancelled')).toBe(false);
+    });
+
+    it('should treat only statuses flagged in_progress as in progress', () => {
+      const renamed: Config = {
+        ...config,
+        statuses: { story: ['todo', { name: 'doing', in_progress: true }, 'in_progress', 'done'], subtask: ['todo', 'done'] },
+      };
+
+      expect(getStatuses(config, 'story').filter(s => s.in_progress).map(s => s.name)).toEqual(['in_progress']);
+      expect(isInProgressStatus(config, 'story', 'in_progress')).toBe(true);
+      expect(isInProgressStatus(config, 'story', 'blocked')).toBe(false);
+      expect(isInProgressStatus(config, 'story', 'in_review')).toBe(false);
+      expect(isInProgressStatus(renamed, 'story', 'doing')).toBe(true);
+      expect(isInProgressStatus({ ...renamed, default_status: { story: 'doing', subtask: 'todo' } }, 'story', 'doing')).toBe(false);
+    });
+
+    it('should treat dependencies in terminal statuses as met', () => {
+      const stories = [story('MVP-001', 'cancelled'), story('MVP-002', 'todo', { dependent_upon: ['MVP-001'] })];
+
+      expect(checkDependenciesMet('MVP-002', stories, config).met).toBe(true);
+    });
+
+    it('should unblock subtasks whose dependencies were skipped', async () => {
+      const parent = story('MVP-001', 'in_progress', {
+        subtasks: [
+          { id: 'MVP-001-1', title: 'Skipped', status: 'skipped' },
+          { id: 'MVP-001-2', title: 'Next', status: 'todo', dependent_upon: ['MVP-001-1'] },
+        ],
+      });
+
+      expect((await validateSubtaskMove('MVP-001-2', 'in_progress', [parent], config)).valid).toBe(true);
+    });
+
+    it('should set the completion timestamp on entering a terminal status and clear it on leaving', () => {
+      const item = story('MVP-001', 'todo');
+
+      applyStatus(item, 'cancelled', 'story', config, '2026-01-01T00:00:00.000Z');
+      expect(item).toMatchObject({ status: 'cancelled', completion_timestamp: '2026-01-01T00:00:00.000Z' });
+
+      applyStatus(item, 'done', 'story', config, '2026-01-02T00:00:00.000Z');
+      expect(item.completion_timestamp).toBe('2026-01-01T00:00:00.000Z');
+
+      applyStatus(item, 'todo', 'story', config, '2026-01-03T00:00:00.000Z');
+      expect(item.completion_timestamp).toBeUndefined();
+      expect(item.updated_at).toBe('2026-01-03T00:00:00.000Z');
+    });
+  });
+
+  describe('groupByStatus', () => {
+    it('should group by configured statuses in column order', () => {
+      const grouped = groupByStatus([story('MVP-001', 'blocked'), story('MVP-002', 'todo')], config);
+
+      expect(Object.keys(grouped)).toEqual(['todo', 'in_progress', 'blocked', 'in_review', 'done', 'cancelled']);
+      expect(grouped.blocked.map(s => s.id)).toEqual(['MVP-001']);
+    });
+  });
+
+  describe('validateStatusConfig', () => {
+    it('should accept the example configuration', () => {
+      expect(validateStatusConfig(config)).toEqual([]);
+    });
+
+    it('should report duplicates, unknown transitions, bad WIP limits, conflicting flags and unknown defaults', () => {
+      const problems = validateStatusConfig({
+        ...config,
+        statuses: {
+          story: ['todo', { name: 'todo', transitions: ['doing'] }, { name: 'done', wip_limit: 0, in_progress: true }],
+          subtask: ['todo'],
+        },
+        default_status: { story: 'todo', subtask: 'open' },
+      });
+
+      expect(problems).toEqual([
+        'config.statuses.story lists "todo" more than once',
+        'config.statuses.story "done" wip_limit must be a positive whole number',
+        'config.statuses.story "done" cannot be both terminal and in_progress',
+        'config.statuses.story "todo" transitions to unknown statuses: doing',
+        'config.default_status.subtask "open" is not a configured subtask status',
+      ]);
+    });
+  });
+});
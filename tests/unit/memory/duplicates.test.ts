@@ -0,0 +1,84 @@
+/**
+ * Duplicate detection unit tests for Memory tool
+ * Tests similarity matching and duplicate clustering
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  findDuplicates,
+  findDuplicateClusters,
+  parseDuplicateThreshold
+} from '../../../src/memory/services/duplicates.js';
+import type { EmbeddingCache, Memory } from '../../../src/memory/types.js';
+
+// Dot product is cosine similarity for the unit vectors used here; avoids loading the model
+vi.mock('../../../src/memory/core/embeddings.js', () => ({
+  cosineSimilarity: (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0)
+}));
+
+const memory = (id: string, created_at: number): Memory => ({
+  id,
+  summary: `Summary ${id}`,
+  details: 'Details',
+  tags: [],
+  created_at
+});
+
+const memories = [memory('a', 3000), memory('b', 1000), memory('c', 2000), memory('d', 4000), memory('e', 5000)];
+
+const embeddings: EmbeddingCache = {
+  a: [1, 0, 0],
+  b: [0.96, 0.28, 0],
+  c: [0.8, 0.6, 0],
+  d: [0, 0, 1],
+  e: null
+};
+
+describe('Memory Duplicates', () => {
+  describe('parseDuplicateThreshold()', () => {
+    it('should accept values in (0, 1]', () => {
+      expect(parseDuplicateThreshold(0.9)).toBe(0.9);
+      expect(parseDuplicateThreshold(1)).toBe(1);
+    });
+
+    it('should reject values out of range', () => {
+      expect(() => parseDuplicateThreshold(0)).toThrow('duplicate_threshold');
+      expect(() => parseDuplicateThreshold(1.2)).toThrow('duplicate_threshold');
+      expect(() => parseDuplicateThreshold(NaN)).toThrow('duplicate_threshold');
+    });
+  });
+
+  describe('findDuplicates()', () => {
+    it('should return matches above the threshold, closest first', () => {
+      const matches = findDuplicates([0.96, 0.28, 0], memories, embeddings, 0.9);
+
+      expect(matches.map(m => m.id)).toEqual(['b', 'a', 'c']);
+      expect(matches[0].similarity).toBeCloseTo(1, 5);
+    });
+
+    it('should skip memories without embeddings', () => {
+      expect(findDuplicates([0, 0, 1], memories, embeddings, 0.5).map(m => m.id)).toEqual(['d']);
+    });
+  });
+
+  describe('findDuplicateClusters()', () => {
+    it('should group transitively similar memories, oldest first', () => {
+      const clusters = findDuplicateClusters(memories, embeddings, 0.95);
+
+      // a~b (0.96) and b~c (0.936 < 0.95) => only a and b cluster
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].memories.map(m => m.id)).toEqual(['b', 'a']);
+      expect(clusters[0].similarity).toBeCloseTo(0.96, 5);
+    });
+
+    it('should chain clusters through intermediate memories', () => {
+      // a~b 0.96, b~c 0.936, a~c 0.8
+      const clusters = findDuplicateClusters(memories, embeddings, 0.9);
+      expect(clusters[0].memories.map(m => m.id)).toEqual(['b', 'c', 'a']);
+    });
+
+    it('should return nothing when no pair reaches the threshold', () => {
+      expect(findDuplicateClusters(memories, embeddings, 0.99)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Filter unit tests for Memory tool
+ * Tests tag (any/all/exclude) and date filtering applied before scoring
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseMemoryFilters, filterMemories } from '../../../src/memory/services/filters.js';
+import type { Memory } from '../../../src/memory/types.js';
+
+const memories: Memory[] = [
+  { id: 'a', summary: 'A', details: 'A', tags: ['Tooling', 'pnpm'], created_at: 1000 },
+  { id: 'b', summary: 'B', details: 'B', tags: ['tooling'], created_at: 2000 },
+  { id: 'c', summary: 'C', details: 'C', tags: ['typescript', 'deprecated'], created_at: 3000 },
+  { id: 'd', summary: 'D', details: 'D', tags: [], created_at: 4000 }
+];
+
+const ids = (results: Memory[]): string[] => results.map(m => m.id);
+
+describe('Memory Filters', () => {
+  describe('parseMemoryFilters()', () => {
+    it('should return no filters for empty params', () => {
+      expect(parseMemoryFilters({})).toEqual({});
+      expect(parseMemoryFilters({ tags: [' ', ''] })).toEqual({});
+    });
+
+    it('should normalize tags and parse dates', () => {
+      const filters = parseMemoryFilters({
+        tags: [' Tooling', 'tooling'],
+        tag_match: 'all',
+        exclude_tags: ['Deprecated'],
+        since: '1970-01-01T00:00:01Z',
+        until: 5000
+      });
+
+      expect(filters).toEqual({
+        tags: ['tooling'],
+        tagMatch: 'all',
+        excludeTags: ['deprecated'],
+        since: 1000,
+        until: 5000
+      });
+    });
+
+    it('should include the whole day for a date-only until', () => {
+      const endOfDay = Date.parse('2025-03-02T00:00:00Z') - 1;
+
+      expect(parseMemoryFilters({ until: '2025-03-01' }).until).toBe(endOfDay);
+      expect(parseMemoryFilters({ until: '2025-03-01T00:00:00Z' }).until).toBe(Date.parse('2025-03-01T00:00:00Z'));
+      expect(parseMemoryFilters({ since: '2025-03-01', until: '2025-03-01' })).toEqual({
+        since: Date.parse('2025-03-01T00:00:00Z'),
+        until: endOfDay
+      });
+    });
+
+    it('should reject invalid values', () => {
+      expect(() => parseMemoryFilters({ tag_match: 'some' as 'any' })).toThrow('tag_match');
+      expect(() => parseMemoryFilters({ tags: 'tooling' as unknown as string[] })).toThrow('tags must be');
+      expect(() => parseMemoryFilters({ since: 'yesterday' })).toThrow('since must be');
+      expect(() => parseMemoryFilters({ since: 5000, until: 1000 })).toThrow('later than');
+    });
+  });
+
+  describe('filterMemories()', () => {
+    it('should return everything without filters', () => {
+      expect(filterMemories(memories, {})).toBe(memories);
+    });
+
+    it('should match any tag case-insensitively by default', () => {
+      expect(ids(filterMemories(memories, { tags: ['tooling', 'typescript'] }))).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should require all tags when tagMatch is all', () => {
+      expect(ids(filterMemories(memories, { tags: ['tooling', 'pnpm'], tagMatch: 'all' }))).toEqual(['a']);
+    });
+
+    it('should exclude tags', () => {
+      expect(ids(filterMemories(memories, { excludeTags: ['deprecated', 'PNPM'] }))).toEqual(['b', 'd']);
+    });
+
+    it('should apply inclusive date bounds', () => {
+      expect(ids(filterMemories(memories, { since: 2000, until: 3000 }))).toEqual(['b', 'c']);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Lifecycle unit tests for Memory tool
+ * Tests expiry, supersession, confidence and age decay
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseTimestamp,
+  normalizeMetadata,
+  assertSupersededExist,
+  isExpired,
+  getSupersededIds,
+  filterActiveMemories,
+  getMemoryScoreMultiplier
+} from '../../../src/memory/services/lifecycle.js';
+import type { Memory } from '../../../src/memory/types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 5, 1);
+
+const memory = (overrides: Partial<Memory>): Memory => ({
+  id: '1',
+  summary: 'Summary',
+  details: 'Details',
+  tags: [],
+  created_at: NOW,
+  ...overrides
+});
+
+describe('Memory Lifecycle', () => {
+  describe('parseTimestamp()', () => {
+    it('should accept Unix ms timestamps', () => {
+      expect(parseTimestamp(12345, 'expires_at')).toBe(12345);
+    });
+
+    it('should accept ISO 8601 dates', () => {
+      expect(parseTimestamp('2025-06-01T00:00:00Z', 'expires_at')).toBe(NOW);
+    });
+
+    it('should reject garbage', () => {
+      expect(() => parseTimestamp('next tuesday', 'expires_at')).toThrow('expires_at must be');
+      expect(() => parseTimestamp(undefined, 'since')).toThrow('since must be');
+    });
+  });
+
+  describe('normalizeMetadata()', () => {
+    it('should only return provided fields', () => {
+      expect(normalizeMetadata({})).toEqual({});
+      expect(normalizeMetadata({ confidence: 0.5 })).toEqual({ confidence: 0.5 });
+    });
+
+    it('should parse expires_at and dedupe supersedes', () => {
+      const result = normalizeMetadata({
+        expires_at: '2025-06-01T00:00:00Z' as unknown as number,
+        supersedes: ['a', 'a', 'b']
+      });
+      expect(result).toEqual({ expires_at: NOW, supersedes: ['a', 'b'] });
+    });
+
+    it('should reject out-of-range confidence', () => {
+      expect(() => normalizeMetadata({ confidence: 1.5 })).toThrow('between 0 and 1');
+    });
+
+    it('should reject self-supersession', () => {
+      expect(() => normalizeMetadata({ supersedes: ['x'] }, 'x')).toThrow('itself');
+    });
+  });
+
+  describe('assertSupersededExist()', () => {
+    it('should throw for unknown ids', () => {
+      expect(() => assertSupersededExist(['1', '9'], [memory({ id: '1' })])).toThrow('9');
+    });
+
+    it('should accept known ids and empty lists', () => {
+      expect(() => assertSupersededExist(['1'], [memory({ id: '1' })])).not.toThrow();
+      expect(() => assertSupersededExist(undefined, [])).not.toThrow();
+    });
+  });
+
+  describe('filterActiveMemories()', () => {
+    it('should hide expired memories', () => {
+      const expired = memory({ id: 'old', expires_at: NOW - 1 });
+      const current = memory({ id: 'new', expires_at: NOW + DAY_MS });
+
+      expect(isExpired(expired, NOW)).toBe(true);
+      expect(isExpired(current, NOW)).toBe(false);
+      expect(filterActiveMemories([expired, current], NOW).map(m => m.id)).toEqual(['new']);
+    });
+
+    it('should hide superseded memories', () => {
+      const memories = [
+        memory({ id: 'npm' }),
+        memory({ id: 'pnpm', supersedes: ['npm'] })
+      ];
+
+      expect(getSupersededIds(memories)).toEqual(new Set(['npm']));
+      expect(filterActiveMemories(memories, NOW).map(m => m.id)).toEqual(['pnpm']);
+    });
+  });
+
+  describe('getMemoryScoreMultiplier()', () => {
+    it('should not penalise fresh, fully confident memories', () => {
+      const result = getMemoryScoreMultiplier(memory({}), NOW);
+      expect(result.factor).toBe(1);
+      expect(result.reasons).toEqual([]);
+    });
+
+    it('should decay gradually with age', () => {
+      const result = getMemoryScoreMultiplier(memory({ created_at: NOW - 90 * DAY_MS }), NOW);
+      expect(result.factor).toBeCloseTo(Math.SQRT1_2, 5);
+      expect(result.reasons[0]).toContain('age decay');
+    });
+
+    it('should floor age decay for very old memories', () => {
+      const result = getMemoryScoreMultiplier(memory({ created_at: 0 }), NOW);
+      expect(result.factor).toBe(0.5);
+    });
+
+    it('should scale by confidence', () => {
+      const result = getMemoryScoreMultiplier(memory({ confidence: 0.4 }), NOW);
+      expect(result.factor).toBeCloseTo(0.4, 5);
+      expect(result.reasons).toContain('confidence: 0.40');
+    });
+  });
+});
@@ -0,0 +1,354 @@
+/**
+ * Memory store, update, delete and merge tool tests
+ * Tests duplicate handling, in-place edits, embedding cache sync and validation
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { storeMemory } from '../../../src/memory/tools/store.js';
+import { updateMemory } from '../../../src/memory/tools/update.js';
+import { deleteMemory } from '../../../src/memory/tools/delete.js';
+import { mergeMemories } from '../../../src/memory/tools/merge.js';
+import { saveMemories, readMemories, saveEmbeddings, readEmbeddings, readMemoryConfig } from '../../../src/memory/core/storage.js';
+import { generateMemoryEmbedding } from '../../../src/memory/core/embeddings.js';
+import type { Memory } from '../../../src/memory/types.js';
+
+// Mock embeddings to avoid model loading
+vi.mock('../../../src/memory/core/embeddings.js', () => ({
+  generateMemoryEmbedding: vi.fn(async () => [0.9, 0.1, 0.0]),
+  cosineSimilarity: (a: number[], b: number[]) => {
+    const dot = a.reduce((sum, v, i) => sum + v * b[i], 0);
+    return dot / (Math.hypot(...a) * Math.hypot(...b));
+  }
+}));
+
+describe('Memory Tools', () => {
+  let testDir: string;
+  let originalCwd: string;
+
+  beforeEach(() => {
+    originalCwd = process.cwd();
+    testDir = join(originalCwd, '.test-memory-tools-' + Date.now());
+    mkdirSync(testDir, { recursive: true });
+    process.chdir(testDir);
+    vi.mocked(generateMemoryEmbedding).mockClear();
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true, maxRetries: 3, retryDelay: 100 });
+    }
+  });
+
+  const seed = (): Memory[] => {
+    const memories: Memory[] = [
+      { id: 'a', summary: 'Use pnpm', details: 'Project uses pnpm workspaces', tags: ['tooling'], created_at: 2000 },
+      { id: 'b', summary: 'Prefers pnpm', details: 'User prefers pnpm over npm', tags: ['preferences', 'tooling'], created_at: 1000 },
+      { id: 'c', summary: 'Strict TS', details: 'Strict mode everywhere', tags: ['typescript'], created_at: 3000 }
+    ];
+    saveMemories(memories);
+    saveEmbeddings({ a: [1, 0, 0], b: [0, 1, 0], c: [0, 0, 1] });
+    return memories;
+  };
+
+  describe('storeMemory()', () => {
+    const params = { summary: 'pnpm', details: 'Use pnpm', tags: ['new'] };
+
+    it('should store memories that have no close match', async () => {
+      saveMemories([]);
+
+      const result = await storeMemory(params);
+
+      expect(result.outcome).toBe('stored');
+      expect(readMemories().map(m => m.id)).toEqual([result.id]);
+    });
+
+    it('should return duplicates without storing by default', async () => {
+      seed();
+
+      const result = await storeMemory(params);
+
+      expect(result.outcome).toBe('duplicate');
+      expect(result.id).toBeUndefined();
+      expect(result.duplicates?.map(d => d.id)).toEqual(['a']);
+      expect(readMemories()).toHaveLength(3);
+    });
+
+    it('should merge into the closest match', async () => {
+      seed();
+
+      const result = await storeMemory({ ...params, on_duplicate: 'merge' });
+
+      expect(result).toMatchObject({ id: 'a', outcome: 'merged' });
+      const merged = readMemories().find(m => m.id === 'a');
+      expect(merged?.details).toBe('Project uses pnpm workspaces\n\nUse pnpm');
+      expect(merged?.tags).toEqual(['tooling', 'new']);
+      expect(readMemories()).toHaveLength(3);
+    });
+
+    it('should warn when re-embedding the merged memory fails', async () => {
+      seed();
+      vi.mocked(generateMemoryEmbedding)
+        .mockResolvedValueOnce([0.9, 0.1, 0.0])
+        .mockResolvedValueOnce(null);
+
+      const result = await storeMemory({ ...params, on_duplicate: 'merge' });
+
+      expect(result).toMatchObject({ id: 'a', outcome: 'merged' });
+      expect(result.warning).toMatch(/Failed to regenerate embedding/);
+      expect(readEmbeddings()['a']).toBeFalsy();
+    });
+
+    it('should keep the later expiry, union supersedes and keep the lower confidence when merging', async () => {
+      seed();
+      const existing = readMemories().map(m => (m.id === 'a' ? { ...m, expires_at: 9_000_000_000_000, confidence: 0.9 } : m));
+      saveMemories(existing);
+
+      await storeMemory({ ...params, on_duplicate: 'merge', expires_at: 8_000_000_000_000, confidence: 0.6, supersedes: ['c'] });
+
+      const merged = readMemories().find(m => m.id === 'a');
+      expect(merged).toMatchObject({ expires_at: 9_000_000_000_000, confidence: 0.6, supersedes: ['c'] });
+    });
+
+    it('should drop the expiry when only one side expires when merging', async () => {
+      seed();
+      const existing = readMemories().map(m => (m.id === 'a' ? { ...m, supersedes: ['b'], confidence: 0.5 } : m));
+      saveMemories(existing);
+
+      await storeMemory({ ...params, on_duplicate: 'merge', expires_at: 8_000_000_000_000, confidence: 0.8, supersedes: ['c'] });
+
+      const merged = readMemories().find(m => m.id === 'a');
+      expect(merged?.expires_at).toBeUndefined();
+      expect(merged?.supersedes).toEqual(['b', 'c']);
+      expect(merged?.confidence).toBe(0.5);
+    });
+
+    it('should replace the closest match in place', async () => {
+      seed();
+
+      const result = await storeMemory({ ...params, on_duplicate: 'replace' });
+
+      expect(result).toMatchObject({ id: 'a', outcome: 'replaced' });
+      const replaced = readMemories().find(m => m.id === 'a');
+      expect(replaced?.details).toBe('Use pnpm');
+      expect(readEmbeddings().a).toEqual([0.9, 0.1, 0.0]);
+    });
+
+    it('should force-insert when asked', async () => {
+      seed();
+
+      const result = await storeMemory({ ...params, on_duplicate: 'force' });
+
+      expect(result.outcome).toBe('stored');
+      expect(readMemories()).toHaveLength(4);
+    });
+
+    it('should honour the threshold override', async () => {
+      seed();
+
+      const result = await storeMemory({ ...params, duplicate_threshold: 0.999 });
+
+      expect(result.outcome).toBe('stored');
+    });
+
+    it('should not treat superseded memories as duplicates', async () => {
+      seed();
+
+      const result = await storeMemory({ ...params, supersedes: ['a'] });
+
+      expect(result.outcome).toBe('stored');
+    });
+
+    it('should read the threshold from memory.yaml config', async () => {
+      mkdirSync(join(testDir, 'cc-devtools'), { recursive: true });
+      writeFileSync(join(testDir, 'cc-devtools', 'memory.yaml'), 'config:\n  duplicate_threshold: 0.8\nmemories: []\n');
+      expect(readMemoryConfig().duplicate_threshold).toBe(0.8);
+
+      // Saving memories must keep the config section
+      seed();
+      expect(readMemoryConfig().duplicate_threshold).toBe(0.8);
+    });
+
+    it('should reject unknown on_duplicate values', async () => {
+      await expect(storeMemory({ ...params, on_duplicate: 'skip' as 'ask' })).rejects.toThrow('on_duplicate');
+    });
+  });
+
+  describe('updateMemory()', () => {
+    it('should update fields in place and preserve id and created_at', async () => {
+      seed();
+
+      const result = await updateMemory({ id: 'c', summary: 'Strict TypeScript', tags: ['typescript', ' style '] });
+
+      expect(result.success).toBe(true);
+      const updated = readMemories().find(m => m.id === 'c');
+      expect(updated?.summary).toBe('Strict TypeScript');
+      expect(updated?.details).toBe('Strict mode everywhere');
+      expect(updated?.tags).toEqual(['typescript', 'style']);
+      expect(updated?.created_at).toBe(3000);
+    });
+
+    it('should regenerate the embedding when text changes', async () => {
+      seed();
+
+      await updateMemory({ id: 'c', details: 'Strict mode and no any' });
+
+      expect(generateMemoryEmbedding).toHaveBeenCalledTimes(1);
+      expect(readEmbeddings().c).toEqual([0.9, 0.1, 0.0]);
+    });
+
+    it('should not regenerate the embedding for tag-only updates', async () => {
+      seed();
+
+      await updateMemory({ id: 'c', tags: ['ts'] });
+
+      expect(generateMemoryEmbedding).not.toHaveBeenCalled();
+      expect(readEmbeddings().c).toEqual([0, 0, 1]);
+    });
+
+    it('should throw for unknown ids', async () => {
+      seed();
+      await expect(updateMemory({ id: 'missing', summary: 'x' })).rejects.toThrow('not found');
+    });
+
+    it('should set lifecycle metadata', async () => {
+      seed();
+
+      await updateMemory({ id: 'a', supersedes: ['b'], confidence: 0.8, expires_at: 5000 });
+
+      const updated = readMemories().find(m => m.id === 'a');
+      expect(updated?.supersedes).toEqual(['b']);
+      expect(updated?.confidence).toBe(0.8);
+      expect(updated?.expires_at).toBe(5000);
+    });
+
+    it('should reject superseding unknown memories', async () => {
+      seed();
+      await expect(updateMemory({ id: 'a', supersedes: ['nope'] })).rejects.toThrow('unknown memories');
+    });
+
+    it('should require at least one field', async () => {
+      await expect(updateMemory({ id: 'a' })).rejects.toThrow('At least one');
+    });
+
+    it('should reject empty summaries', async () => {
+      await expect(updateMemory({ id: 'a', summary: '  ' })).rejects.toThrow('non-empty');
+    });
+  });
+
+  describe('deleteMemory()', () => {
+    it('should remove the memory and its embedding', async () => {
+      seed();
+
+      const result = await deleteMemory({ id: 'b' });
+
+      expect(result).toEqual({ success: true, id: 'b' });
+      expect(readMemories().map(m => m.id)).toEqual(['a', 'c']);
+      expect(readEmbeddings()).not.toHaveProperty('b');
+    });
+
+    it('should remove the deleted id from other memories\' supersedes', async () => {
+      saveMemories(seed().map(m => (m.id === 'a'
+        ? { ...m, supersedes: ['b', 'c'] }
+        : m.id === 'c' ? { ...m, supersedes: ['b'] } : m)));
+
+      await deleteMemory({ id: 'b' });
+
+      const [a, c] = readMemories();
+      expect(a.supersedes).toEqual(['c']);
+      expect(c.supersedes).toBeUndefined();
+      await expect(updateMemory({ id: 'a', summary: 'Use pnpm workspaces' })).resolves.toMatchObject({ success: true });
+    });
+
+    it('should throw for unknown ids', async () => {
+      seed();
+      await expect(deleteMemory({ id: 'missing' })).rejects.toThrow('not found');
+    });
+  });
+
+  describe('mergeMemories()', () => {
+    it('should fold later memories into the first one', async () => {
+      seed();
+
+      const result = await mergeMemories({ ids: ['a', 'b'] });
+
+      expect(result.merged_ids).toEqual(['b']);
+      const memories = readMemories();
+      expect(memories.map(m => m.id)).toEqual(['a', 'c']);
+
+      const merged = memories[0];
+      expect(merged.summary).toBe('Use pnpm');
+      expect(merged.details).toBe('Project uses pnpm workspaces\n\nUser prefers pnpm over npm');
+      expect(merged.tags).toEqual(['tooling', 'preferences']);
+      expect(merged.created_at).toBe(1000);
+    });
+
+    it('should combine expiry, supersedes and confidence', async () => {
+      const memories = seed().map(m => (m.id === 'a'
+        ? { ...m, expires_at: 5000, supersedes: ['c'] }
+        : m.id === 'b' ? { ...m, confidence: 0.5, supersedes: ['a'] } : m));
+      saveMemories(memories);
+
+      const { memory } = await mergeMemories({ ids: ['a', 'b'] });
+
+      expect(memory.expires_at).toBeUndefined();
+      expect(memory.supersedes).toEqual(['c']);
+      expect(memory.confidence).toBe(0.5);
+
+      saveMemories(memories.map(m => ({ ...m, expires_at: m.id === 'a' ? 5000 : 7000 })));
+      expect((await mergeMemories({ ids: ['a', 'c'] })).memory.expires_at).toBe(7000);
+    });
+
+    it('should point other memories\' supersedes at the merged memory', async () => {
+      const memories = seed().map(m => (m.id === 'c' ? { ...m, supersedes: ['a', 'b'] } : m));
+      saveMemories(memories);
+
+      await mergeMemories({ ids: ['a', 'b'] });
+
+      expect(readMemories().find(m => m.id === 'c')?.supersedes).toEqual(['a']);
+
+      saveMemories([...memories, { id: 'd', summary: 'Lint', details: 'ESLint', tags: [], created_at: 4000, supersedes: ['b', 'x'] }]);
+      await mergeMemories({ ids: ['c', 'b'] });
+
+      const byId = new Map(readMemories().map(m => [m.id, m]));
+      expect(byId.get('c')?.supersedes).toEqual(['a']);
+      expect(byId.get('d')?.supersedes).toEqual(['c', 'x']);
+    });
+
+    it('should honour explicit summary, details and tags', async () => {
+      seed();
+
+      await mergeMemories({ ids: ['b', 'a'], summary: 'pnpm everywhere', details: 'Always use pnpm', tags: ['tooling'] });
+
+      const merged = readMemories().find(m => m.id === 'b');
+      expect(merged?.summary).toBe('pnpm everywhere');
+      expect(merged?.details).toBe('Always use pnpm');
+      expect(merged?.tags).toEqual(['tooling']);
+    });
+
+    it('should keep the embedding cache in sync', async () => {
+      seed();
+
+      await mergeMemories({ ids: ['a', 'b'] });
+
+      const embeddings = readEmbeddings();
+      expect(embeddings).not.toHaveProperty('b');
+      expect(embeddings.a).toEqual([0.9, 0.1, 0.0]);
+      expect(embeddings.c).toEqual([0, 0, 1]);
+    });
+
+    it('should require at least two distinct ids', async () => {
+      await expect(mergeMemories({ ids: ['a'] })).rejects.toThrow('at least two');
+      await expect(mergeMemories({ ids: ['a', 'a'] })).rejects.toThrow('duplicates');
+    });
+
+    it('should report missing ids without writing', async () => {
+      seed();
+
+      await expect(mergeMemories({ ids: ['a', 'zzz'] })).rejects.toThrow('zzz');
+      expect(readMemories()).toHaveLength(3);
+    });
+  });
+});
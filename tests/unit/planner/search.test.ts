@@ -42,11 +42,20 @@ vi.mock('../../../src/planner/core/embeddings.js', () => ({
   })
 }));
 
-// Mock the storage module
-vi.mock('../../../src/planner/core/storage.js', () => ({
-  readEmbeddings: vi.fn(() => ({})),
-  saveEmbeddings: vi.fn()
-}));
+// Mock the storage module; the embedding index is built in memory instead of read from disk
+vi.mock('../../../src/planner/core/storage.js', async () => {
+  const { buildVectorIndex } = await import('../../../src/shared/vector-index.js');
+  return {
+    readEmbeddings: vi.fn(() => ({})),
+    readEmbeddingIndex: vi.fn((embeddings: Record<string, number[] | null>) => {
+      const vectors = new Map(
+        Object.entries(embeddings).filter((entry): entry is [string, number[]] => entry[1] !== null)
+      );
+      return { index: buildVectorIndex(vectors), vectors };
+    }),
+    saveEmbeddings: vi.fn()
+  };
+});
 
 describe('Planner Search', () => {
   const createPlan = (overrides: Partial<Plan>): Plan => ({
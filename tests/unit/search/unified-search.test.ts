@@ -0,0 +1,229 @@
+/**
+ * Unified search tests
+ * Tests score normalization, interleaving, enabled-module detection and failure isolation
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { getEnabledModules, searchModule } from '../../../src/search/services/modules.js';
+import {
+  getModuleScoreScale,
+  normalizeModuleResults,
+  interleaveResults,
+  unifiedSearch
+} from '../../../src/search/services/unified-search.js';
+import { DEFAULT_FUSION_CONFIG } from '../../../src/shared/types/search.js';
+import { devtoolsSearch } from '../../../src/search/tools/search.js';
+import { saveMemories } from '../../../src/memory/core/storage.js';
+import type { ModuleSearchResult, SearchModule } from '../../../src/search/types.js';
+
+// Keep getEnabledModules real, stub the per-module searches
+vi.mock('../../../src/search/services/modules.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../src/search/services/modules.js')>();
+  return { ...actual, searchModule: vi.fn() };
+});
+
+// Keyword-only search: no embedding model in tests
+vi.mock('../../../src/shared/embeddings.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../src/shared/embeddings.js')>();
+  return { ...actual, generateEmbedding: vi.fn(async () => null) };
+});
+
+vi.mock('../../../src/memory/core/embeddings.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../src/memory/core/embeddings.js')>();
+  return { ...actual, generateMemoryEmbedding: vi.fn(async () => null) };
+});
+
+const result = (module: SearchModule, id: string, score: number): ModuleSearchResult => ({
+  type: module === 'memory' ? 'memory' : 'plan',
+  module,
+  source: module === 'memory' ? 'Memory' : 'Plan',
+  id,
+  title: id,
+  score,
+  link: `/${module}?id=${id}`
+});
+
+describe('Unified Search', () => {
+  let testDir: string;
+  let originalCwd: string;
+
+  beforeEach(() => {
+    originalCwd = process.cwd();
+    testDir = join(originalCwd, '.test-unified-search-' + Date.now());
+    mkdirSync(testDir, { recursive: true });
+    process.chdir(testDir);
+    vi.mocked(searchModule).mockReset();
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true, maxRetries: 3, retryDelay: 100 });
+    }
+  });
+
+  const writeMcpConfig = (servers: Record<string, { disabled?: boolean }>): void => {
+    writeFileSync(join(testDir, '.mcp.json'), JSON.stringify({ mcpServers: servers }));
+  };
+
+  describe('getModuleScoreScale', () => {
+    it('should span the similarity cut-off to a full match on both signals for weighted fusion', () => {
+      expect(getModuleScoreScale(DEFAULT_FUSION_CONFIG)).toEqual({ min: 0.3, max: 2 });
+    });
+
+    it('should use the stronger weight for max fusion', () => {
+      const scale = getModuleScoreScale({ ...DEFAULT_FUSION_CONFIG, fusion: 'max', keyword_weight: 0.5 });
+
+      expect(scale).toEqual({ min: 0.15, max: 1 });
+    });
+
+    it('should not cut off reciprocal-rank scores', () => {
+      const scale = getModuleScoreScale({ ...DEFAULT_FUSION_CONFIG, fusion: 'rrf', rrf_k: 9 });
+
+      expect(scale).toEqual({ min: 0, max: 0.2 });
+    });
+  });
+
+  describe('normalizeModuleResults', () => {
+    const scale = { min: 0.5, max: 2.5 };
+
+    it('should scale scores onto the fixed range and keep raw scores', () => {
+      const normalized = normalizeModuleResults([result('memory', 'a', 2), result('memory', 'b', 1)], scale);
+
+      expect(normalized.map((r) => r.score)).toEqual([0.75, 0.25]);
+      expect(normalized.map((r) => r.raw_score)).toEqual([2, 1]);
+      expect(normalized.map((r) => r.rank)).toEqual([1, 2]);
+    });
+
+    it('should not lift a weak best hit to 1', () => {
+      const normalized = normalizeModuleResults([result('memory', 'a', 0.7)], scale);
+
+      expect(normalized[0].score).toBeCloseTo(0.1);
+    });
+
+    it('should apply the cut-off to the score before ranking multipliers', () => {
+      const normalized = normalizeModuleResults([{ ...result('memory', 'a', 0.2), fused_score: 0.8 }], scale);
+
+      expect(normalized.map((r) => r.id)).toEqual(['a']);
+      expect(normalized[0].score).toBe(0);
+      expect(normalized[0]).not.toHaveProperty('fused_score');
+    });
+
+    it('should drop results below the cut-off and cap scores above the range', () => {
+      const normalized = normalizeModuleResults(
+        [result('memory', 'a', 3), result('memory', 'b', 0.6), result('memory', 'c', 0.4)],
+        scale
+      );
+
+      expect(normalized.map((r) => r.id)).toEqual(['a', 'b']);
+      expect(normalized[0].score).toBe(1);
+    });
+  });
+
+  describe('interleaveResults', () => {
+    const scale = getModuleScoreScale(DEFAULT_FUSION_CONFIG);
+
+    it('should rank a strong match from one module above a weak top hit from another', () => {
+      const memory = normalizeModuleResults([result('memory', 'm1', 1.8), result('memory', 'm2', 1.2)], scale);
+      const plans = normalizeModuleResults([result('planner', 'p1', 0.35), result('planner', 'p2', 0.2)], scale);
+
+      const merged = interleaveResults([memory, plans], ['planner', 'memory'], 10);
+
+      expect(merged.map((r) => r.id)).toEqual(['m1', 'm2', 'p1']);
+    });
+
+    it('should break ties by rank, then requested module order, and apply the limit', () => {
+      const memory = normalizeModuleResults([result('memory', 'm1', 2), result('memory', 'm2', 2)], scale);
+      const plans = normalizeModuleResults([result('planner', 'p1', 2)], scale);
+
+      expect(interleaveResults([memory, plans], ['planner', 'memory'], 10).map((r) => r.id))
+        .toEqual(['p1', 'm1', 'm2']);
+      expect(interleaveResults([memory, plans], ['planner', 'memory'], 1).map((r) => r.id)).toEqual(['p1']);
+    });
+  });
+
+  describe('getEnabledModules', () => {
+    it('should return every module without a .mcp.json', () => {
+      expect(getEnabledModules()).toEqual(['memory', 'planner', 'kanban', 'source-code-mapper', 'documentation-indexer']);
+    });
+
+    it('should skip modules that are missing or disabled in .mcp.json', () => {
+      writeMcpConfig({
+        'cc-devtools-memory': {},
+        'cc-devtools-kanban': { disabled: true },
+        'cc-devtools-documentation-indexer': { disabled: false }
+      });
+
+      expect(getEnabledModules()).toEqual(['memory', 'documentation-indexer']);
+    });
+  });
+
+  describe('unifiedSearch', () => {
+    it('should report failing modules without failing the search', async () => {
+      writeMcpConfig({ 'cc-devtools-memory': {}, 'cc-devtools-planner': {} });
+      vi.mocked(searchModule).mockImplementation(async (module) => {
+        if (module === 'planner') {
+          throw new Error('planner exploded');
+        }
+        return [result('memory', 'm1', 0.8)];
+      });
+
+      const { modules, results, errors } = await unifiedSearch('query');
+
+      expect(modules).toEqual(['memory', 'planner']);
+      expect(results.map((r) => r.id)).toEqual(['m1']);
+      expect(errors).toEqual([{ module: 'planner', error: 'planner exploded' }]);
+    });
+
+    it('should keep aged, low-confidence memories that memory search returns', async () => {
+      const { searchModule: realSearchModule } =
+        await vi.importActual<typeof import('../../../src/search/services/modules.js')>('../../../src/search/services/modules.js');
+      vi.mocked(searchModule).mockImplementation(realSearchModule);
+      writeMcpConfig({ 'cc-devtools-memory': {} });
+      const twoYearsAgo = Date.now() - 2 * 365 * 24 * 60 * 60 * 1000;
+      saveMemories([
+        { id: 'old', summary: 'Use pnpm', details: 'Workspaces', tags: [], created_at: twoYearsAgo, confidence: 0.3 }
+      ]);
+
+      const { results, errors } = await unifiedSearch('pnpm');
+
+      expect(errors).toEqual([]);
+      expect(results.map((r) => r.id)).toEqual(['old']);
+      expect(results[0].raw_score).toBeCloseTo(0.7 * 0.5 * 0.3);
+    });
+
+    it('should only search requested modules that are enabled', async () => {
+      writeMcpConfig({ 'cc-devtools-memory': {} });
+      vi.mocked(searchModule).mockResolvedValue([]);
+
+      const { modules } = await unifiedSearch('query', { modules: ['memory', 'kanban'] });
+
+      expect(modules).toEqual(['memory']);
+      expect(searchModule).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('devtoolsSearch', () => {
+    it('should reject an empty query', async () => {
+      await expect(devtoolsSearch({ query: '  ' })).rejects.toThrow('Query must be a non-empty string');
+    });
+
+    it('should reject unknown modules', async () => {
+      await expect(
+        devtoolsSearch({ query: 'auth', modules: ['memory', 'wiki' as SearchModule] })
+      ).rejects.toThrow('Unknown module(s): wiki');
+    });
+
+    it('should clamp the limit passed to each module', async () => {
+      writeMcpConfig({ 'cc-devtools-memory': {} });
+      vi.mocked(searchModule).mockResolvedValue([]);
+
+      const response = await devtoolsSearch({ query: 'auth', limit: 500 });
+
+      expect(response.success).toBe(true);
+      expect(searchModule).toHaveBeenCalledWith('memory', 'auth', 50);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Embedding provider tests
+ * Tests provider selection, the hashing and OpenAI-compatible providers, and model-tagged caches
+ * with their vector indexes
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { pack } from 'msgpackr';
+import {
+  createEmbeddingProvider,
+  createHashProvider,
+  createOpenAIProvider,
+  clearActiveEmbeddingProvider,
+  getEmbeddingModelInfo,
+  loadEmbeddingConfig
+} from '../../../src/shared/embedding-providers.js';
+import {
+  readEmbeddingCacheFile,
+  readEmbeddingIndexFile,
+  writeEmbeddingCacheFile
+} from '../../../src/shared/embedding-cache.js';
+import { getVectorCount, getVectorIndexPath, loadVectorIndex, searchVectorIndex } from '../../../src/shared/vector-index.js';
+import { initializeModel, generateEmbedding, cosineSimilarity } from '../../../src/shared/embeddings.js';
+
+describe('Embedding Providers', () => {
+  let testDir: string;
+  let originalCwd: string;
+
+  beforeEach(() => {
+    originalCwd = process.cwd();
+    testDir = join(originalCwd, '.test-embedding-providers-' + Date.now());
+    mkdirSync(join(testDir, 'cc-devtools'), { recursive: true });
+    process.chdir(testDir);
+    clearActiveEmbeddingProvider();
+  });
+
+  afterEach(() => {
+    clearActiveEmbeddingProvider();
+    vi.unstubAllGlobals();
+    process.chdir(originalCwd);
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true, maxRetries: 3, retryDelay: 100 });
+    }
+  });
+
+  describe('loadEmbeddingConfig()', () => {
+    it('should default to the transformers provider', () => {
+      expect(loadEmbeddingConfig()).toEqual({ provider: 'transformers' });
+    });
+
+    it('should read cc-devtools/embeddings.yaml', () => {
+      writeFileSync(join(testDir, 'cc-devtools', 'embeddings.yaml'), 'provider: hash\ndimension: 64\n');
+      expect(loadEmbeddingConfig()).toEqual({ provider: 'hash', dimension: 64 });
+    });
+
+    it('should reject unknown providers', () => {
+      writeFileSync(join(testDir, 'cc-devtools', 'embeddings.yaml'), 'provider: magic\n');
+      expect(() => loadEmbeddingConfig()).toThrow('Unknown embedding provider');
+    });
+  });
+
+  describe('createEmbeddingProvider()', () => {
+    it('should build providers with model-specific ids', () => {
+      expect(createEmbeddingProvider({ provider: 'transformers', model: 'Xenova/bge-small-en' }).id)
+        .toBe('transformers:Xenova/bge-small-en');
+      expect(createEmbeddingProvider({ provider: 'openai', model: 'nomic-embed-text' }).id).toBe('openai:nomic-embed-text');
+      expect(createEmbeddingProvider({ provider: 'hash', dimension: 32 }).id).toBe('hash:32');
+    });
+  });
+
+  describe('hash provider', () => {
+    it('should be deterministic and normalized', async () => {
+      const provider = createHashProvider(64);
+      const a = await provider.embed('User prefers pnpm');
+      const b = await provider.embed('user PREFERS pnpm');
+
+      expect(a).toEqual(b);
+      expect(a).toHaveLength(64);
+      expect(Math.hypot(...(a as number[]))).toBeCloseTo(1, 5);
+    });
+
+    it('should score overlapping texts higher than unrelated ones', async () => {
+      const provider = createHashProvider(256);
+      const base = await provider.embed('use pnpm workspaces for packages') as number[];
+      const related = await provider.embed('pnpm workspaces') as number[];
+      const unrelated = await provider.embed('strict typescript compiler') as number[];
+
+      expect(cosineSimilarity(base, related)).toBeGreaterThan(cosineSimilarity(base, unrelated));
+    });
+
+    it('should reject invalid dimensions', () => {
+      expect(() => createHashProvider(0)).toThrow('positive integer');
+    });
+  });
+
+  describe('openai provider', () => {
+    it('should call the /embeddings endpoint', async () => {
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify({ data: [{ embedding: [0.1, 0.2] }] })));
+      vi.stubGlobal('fetch', fetchMock);
+      process.env.TEST_EMBEDDING_KEY = 'secret';
+
+      const provider = createOpenAIProvider({ url: 'http://localhost:11434/v1/', model: 'nomic', api_key_env: 'TEST_EMBEDDING_KEY' });
+
+      expect(await provider.initialize()).toBe(2);
+      expect(await provider.embed('hello')).toEqual([0.1, 0.2]);
+
+      const [url, init] = fetchMock.mock.calls[1] as unknown as [string, RequestInit];
+      expect(url).toBe('http://localhost:11434/v1/embeddings');
+      expect(JSON.parse(init.body as string)).toEqual({ model: 'nomic', input: 'hello' });
+      expect((init.headers as Record<string, string>).Authorization).toBe('Bearer secret');
+
+      delete process.env.TEST_EMBEDDING_KEY;
+    });
+
+    it('should return null when the endpoint fails', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response('nope', { status: 500 })));
+      const provider = createOpenAIProvider({});
+
+      expect(await provider.embed('hello')).toBeNull();
+      await expect(provider.initialize()).rejects.toThrow('500');
+    });
+  });
+
+  describe('initializeModel()', () => {
+    it('should activate the configured provider', async () => {
+      writeFileSync(join(testDir, 'cc-devtools', 'embeddings.yaml'), 'provider: hash\ndimension: 16\n');
+
+      expect(await generateEmbedding('text')).toBeNull();
+      await initializeModel();
+
+      expect(getEmbeddingModelInfo()).toEqual({ model: 'hash:16', dimension: 16 });
+      expect(await generateEmbedding('text')).toHaveLength(16);
+    });
+  });
+
+  describe('embedding cache files', () => {
+    const cacheFile = (): string => join(testDir, 'cache.msgpack');
+
+    it('should round-trip embeddings tagged with the active model', async () => {
+      await initializeModel({ provider: 'hash', dimension: 4 });
+      writeEmbeddingCacheFile(cacheFile(), { a: [1, 0, 0, 0] });
+
+      expect(readEmbeddingCacheFile(cacheFile())).toEqual({ a: [1, 0, 0, 0] });
+    });
+
+    it('should discard caches written by another model', async () => {
+      await initializeModel({ provider: 'hash', dimension: 4 });
+      writeEmbeddingCacheFile(cacheFile(), { a: [1, 0, 0, 0] });
+
+      clearActiveEmbeddingProvider();
+      await initializeModel({ provider: 'hash', dimension: 8 });
+
+      expect(readEmbeddingCacheFile(cacheFile())).toEqual({});
+    });
+
+    it('should treat legacy caches as the default transformers model', async () => {
+      writeFileSync(cacheFile(), pack({ a: [1, 2, 3] }));
+
+      expect(readEmbeddingCacheFile(cacheFile())).toEqual({ a: [1, 2, 3] });
+
+      await initializeModel({ provider: 'hash', dimension: 4 });
+      expect(readEmbeddingCacheFile(cacheFile())).toEqual({});
+    });
+
+    it('should keep the recorded model when no provider is active', async () => {
+      await initializeModel({ provider: 'hash', dimension: 4 });
+      writeEmbeddingCacheFile(cacheFile(), { a: [1, 0, 0, 0] });
+
+      clearActiveEmbeddingProvider();
+      writeEmbeddingCacheFile(cacheFile(), { b: [0, 1, 0, 0] });
+
+      await initializeModel({ provider: 'hash', dimension: 4 });
+      expect(readEmbeddingCacheFile(cacheFile())).toEqual({ b: [0, 1, 0, 0] });
+    });
+
+    it('should keep the vector index in step with every write', () => {
+      writeEmbeddingCacheFile(cacheFile(), { a: [1, 0, 0, 0], b: [0, 1, 0, 0], c: null });
+      writeEmbeddingCacheFile(cacheFile(), { a: [0, 0, 1, 0], c: [0, 0, 0, 1] });
+
+      const index = loadVectorIndex(getVectorIndexPath(cacheFile()));
+      expect(index).not.toBeNull();
+      expect(getVectorCount(index!)).toBe(2);
+      expect(searchVectorIndex(index!, [0, 0, 1, 0], { k: 1 })[0].id).toBe('a');
+    });
+
+    it('should rebuild a missing vector index when it is loaded', () => {
+      const embeddings = { a: [1, 0, 0, 0], b: [0, 1, 0, 0], c: null };
+      writeFileSync(cacheFile(), pack(embeddings));
+
+      const { index, vectors } = readEmbeddingIndexFile(cacheFile(), embeddings);
+
+      expect(Array.from(vectors.keys())).toEqual(['a', 'b']);
+      expect(getVectorCount(index)).toBe(2);
+      expect(existsSync(getVectorIndexPath(cacheFile()))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Ignore rules tests
+ * Tests default patterns, .gitignore and .ignore files in the root and subdirectories,
+ * re-including ignored paths, and picking up ignore files that change
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, existsSync, writeFileSync, utimesSync } from 'fs';
+import { join } from 'path';
+import { createIgnoreRules } from '../../../src/shared/ignore-rules.js';
+
+describe('Ignore Rules', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(process.cwd(), '.test-ignore-rules-' + Date.now());
+    mkdirSync(join(testDir, 'packages', 'app'), { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true, maxRetries: 3, retryDelay: 100 });
+    }
+  });
+
+  it('should report which rules ignore a path', () => {
+    writeFileSync(join(testDir, '.gitignore'), 'coverage/\n*.log\n');
+    writeFileSync(join(testDir, '.ignore'), 'fixtures/\n');
+    const rules = createIgnoreRules(testDir, ['node_modules/**']);
+
+    expect(rules.match('node_modules/pkg/index.js')).toBe('default');
+    expect(rules.match('coverage/')).toBe('gitignore');
+    expect(rules.match('src/debug.log')).toBe('gitignore');
+    expect(rules.match('tests/fixtures/')).toBe('ignore');
+    expect(rules.match('src/index.ts')).toBeNull();
+  });
+
+  it('should apply ignore files in subdirectories relative to their directory', () => {
+    writeFileSync(join(testDir, 'packages', 'app', '.gitignore'), '/generated/\n');
+    const rules = createIgnoreRules(testDir, []);
+
+    expect(rules.match('packages/app/generated/')).toBe('gitignore');
+    expect(rules.match('generated/')).toBeNull();
+    expect(rules.match('packages/generated/')).toBeNull();
+  });
+
+  it('should let later and deeper rules re-include ignored paths', () => {
+    writeFileSync(join(testDir, '.gitignore'), '*.gen.ts\n');
+    writeFileSync(join(testDir, '.ignore'), '!api.gen.ts\n');
+    writeFileSync(join(testDir, 'packages', '.gitignore'), '!*.gen.ts\n');
+    const rules = createIgnoreRules(testDir, ['dist/**']);
+
+    expect(rules.match('src/model.gen.ts')).toBe('gitignore');
+    expect(rules.match('src/api.gen.ts')).toBeNull();
+    expect(rules.match('packages/app/model.gen.ts')).toBeNull();
+
+    writeFileSync(join(testDir, '.ignore'), '!dist/keep.js\n');
+    const reincluded = createIgnoreRules(testDir, ['dist/**']);
+    expect(reincluded.match('dist/keep.js')).toBeNull();
+    expect(reincluded.match('dist/other.js')).toBe('default');
+  });
+
+  it('should pick up ignore files that are edited or added after first use', () => {
+    const gitignore = join(testDir, '.gitignore');
+    writeFileSync(gitignore, 'coverage/\n');
+    const rules = createIgnoreRules(testDir, []);
+
+    expect(rules.match('coverage/')).toBe('gitignore');
+    expect(rules.match('tmp/')).toBeNull();
+    expect(rules.match('packages/app/generated/')).toBeNull();
+
+    writeFileSync(gitignore, 'tmp/\n');
+    // Make sure the edit is seen even when the file system's clock is coarse
+    utimesSync(gitignore, new Date(), new Date(Date.now() + 10_000));
+    writeFileSync(join(testDir, 'packages', 'app', '.ignore'), 'generated/\n');
+
+    expect(rules.match('coverage/')).toBeNull();
+    expect(rules.match('tmp/')).toBe('gitignore');
+    expect(rules.match('packages/app/generated/')).toBe('ignore');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Search evaluation tests
+ * Tests recall@k, MRR and nDCG scoring, ID matching for symbols and doc chunks,
+ * evaluation file validation, and aggregation across modules
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { computeMetrics, evaluateSearch, idMatches, loadEvalFile } from '../../../src/shared/search-eval.js';
+import type { EvalQuery } from '../../../src/shared/types/search-eval.js';
+
+describe('Search Evaluation', () => {
+  describe('idMatches()', () => {
+    it('should match equal IDs', () => {
+      expect(idMatches('MVP-001', 'MVP-001')).toBe(true);
+      expect(idMatches('MVP-001', 'MVP-001.1')).toBe(false);
+    });
+
+    it('should match a symbol by name or a chunk by file', () => {
+      expect(idMatches('loadIndex', 'src/core/storage.ts:loadIndex')).toBe(true);
+      expect(idMatches('README.md', 'README.md:12')).toBe(true);
+      expect(idMatches('storage', 'src/core/storage.ts:loadIndex')).toBe(false);
+    });
+  });
+
+  describe('computeMetrics()', () => {
+    it('should score a perfect ranking as 1', () => {
+      expect(computeMetrics(['a', 'b'], ['a', 'b', 'c'], 10)).toEqual({ recall: 1, mrr: 1, ndcg: 1, missing: [] });
+    });
+
+    it('should score rank and coverage', () => {
+      const metrics = computeMetrics(['a', 'b'], ['x', 'a', 'y'], 10);
+
+      expect(metrics.recall).toBe(0.5);
+      expect(metrics.mrr).toBe(0.5);
+      // DCG 1/log2(3) against an ideal of 1 + 1/log2(3)
+      expect(metrics.ndcg).toBeCloseTo((1 / Math.log2(3)) / (1 + 1 / Math.log2(3)));
+      expect(metrics.missing).toEqual(['b']);
+    });
+
+    it('should ignore results past k', () => {
+      expect(computeMetrics(['a'], ['x', 'y', 'a'], 2)).toEqual({ recall: 0, mrr: 0, ndcg: 0, missing: ['a'] });
+    });
+
+    it('should count each expected ID once', () => {
+      const metrics = computeMetrics(['README.md'], ['README.md:1', 'README.md:40'], 10);
+      expect(metrics.recall).toBe(1);
+      expect(metrics.ndcg).toBe(1);
+    });
+  });
+
+  describe('evaluateSearch()', () => {
+    const queries: EvalQuery[] = [
+      { module: 'memory', query: 'auth', expected: ['m1'] },
+      { module: 'memory', query: 'cache', expected: ['m2'] },
+      { module: 'kanban', query: 'login', expected: ['MVP-001'] }
+    ];
+
+    it('should aggregate per module and overall', async () => {
+      const report = await evaluateSearch(queries, {
+        memory: async ({ query }) => query === 'auth' ? ['m1'] : ['m9', 'm2'],
+        kanban: async () => []
+      }, 5);
+
+      expect(report.k).toBe(5);
+      expect(report.modules.memory).toEqual({ queries: 2, recall: 1, mrr: 0.75, ndcg: expect.any(Number) as number });
+      expect(report.modules.kanban?.recall).toBe(0);
+      expect(report.modules.planner).toBeUndefined();
+      expect(report.overall.queries).toBe(3);
+      expect(report.overall.recall).toBeCloseTo(2 / 3);
+    });
+
+    it('should record search failures without aborting', async () => {
+      const report = await evaluateSearch(queries, {
+        memory: async () => ['m1'],
+        kanban: async () => {
+          throw new Error('kanban.yaml not found');
+        }
+      });
+
+      expect(report.queries[2]).toMatchObject({ recall: 0, error: 'kanban.yaml not found', missing: ['MVP-001'] });
+      expect(report.modules.memory?.recall).toBe(0.5);
+    });
+
+    it('should pass k to the search as the limit', async () => {
+      const limits: number[] = [];
+      await evaluateSearch([queries[0]], {
+        memory: async (_query, limit) => {
+          limits.push(limit);
+          return [];
+        }
+      }, 3);
+
+      expect(limits).toEqual([3]);
+    });
+  });
+
+  describe('loadEvalFile()', () => {
+    let testDir: string;
+
+    beforeEach(() => {
+      testDir = join(process.cwd(), '.test-search-eval-' + Date.now());
+      mkdirSync(testDir, { recursive: true });
+    });
+
+    afterEach(() => {
+      if (existsSync(testDir)) {
+        rmSync(testDir, { recursive: true, force: true, maxRetries: 3, retryDelay: 100 });
+      }
+    });
+
+    function writeEvalFile(content: string): string {
+      const filePath = join(testDir, 'search-eval.yaml');
+      writeFileSync(filePath, content);
+      return filePath;
+    }
+
+    it('should read queries and stringify expected IDs', () => {
+      const filePath = writeEvalFile([
+        'k: 5',
+        'queries:',
+        '  - module: planner',
+        '    query: migrate storage',
+        '    expected: [plan-1, 42]'
+      ].join('\n'));
+
+      const file = loadEvalFile(filePath);
+
+      expect(file.k).toBe(5);
+      expect(file.queries[0].expected).toEqual(['plan-1', '42']);
+    });
+
+    it('should reject a missing file', () => {
+      expect(() => loadEvalFile(join(testDir, 'missing.yaml'))).toThrow('not found');
+    });
+
+    it('should reject malformed queries', () => {
+      expect(() => loadEvalFile(writeEvalFile('queries: []\n'))).toThrow('non-empty "queries"');
+      expect(() => loadEvalFile(writeEvalFile('queries:\n  - module: wiki\n    query: x\n    expected: [a]\n')))
+        .toThrow('queries[0].module');
+      expect(() => loadEvalFile(writeEvalFile('queries:\n  - module: memory\n    query: x\n    expected: []\n')))
+        .toThrow('queries[0].expected');
+      expect(() => loadEvalFile(writeEvalFile('k: 0\nqueries:\n  - module: memory\n    query: x\n    expected: [a]\n')))
+        .toThrow('k must be a positive integer');
+    });
+  });
+});
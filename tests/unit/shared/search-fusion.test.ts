@@ -0,0 +1,164 @@
+/**
+ * Search fusion tests
+ * Tests the weighted, reciprocal-rank and max fusion strategies, score explanations,
+ * and loading per-module settings from cc-devtools/search.yaml
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { applyScoreMultipliers, fuseScores, mergeScores } from '../../../src/shared/hybrid-search.js';
+import { loadFusionConfig } from '../../../src/shared/search-config.js';
+import { DEFAULT_FUSION_CONFIG } from '../../../src/shared/types/search.js';
+import type { FusionConfig, ScoredResult } from '../../../src/shared/types/search.js';
+
+interface Item {
+  id: string;
+}
+
+function scored(id: string, score: number, reason: string): [string, ScoredResult<Item>] {
+  return [id, { item: { id }, score, reasons: [reason] }];
+}
+
+describe('Search Fusion', () => {
+  const signals = {
+    keyword: new Map([['a', 1.0], ['b', 0.7]]),
+    semantic: new Map([['b', 0.9], ['c', 0.5]])
+  };
+
+  describe('fuseScores()', () => {
+    it('should sum weighted scores by default', () => {
+      const fused = fuseScores(signals, DEFAULT_FUSION_CONFIG);
+
+      expect(fused.get('a')?.score).toBeCloseTo(1.0);
+      expect(fused.get('b')?.score).toBeCloseTo(1.6);
+      expect(fused.get('c')?.score).toBeCloseTo(0.5);
+    });
+
+    it('should apply signal weights', () => {
+      const config: FusionConfig = { ...DEFAULT_FUSION_CONFIG, keyword_weight: 0.5, semantic_weight: 2 };
+      const fused = fuseScores(signals, config);
+
+      expect(fused.get('b')?.score).toBeCloseTo(0.35 + 1.8);
+    });
+
+    it('should fuse reciprocal ranks', () => {
+      const config: FusionConfig = { ...DEFAULT_FUSION_CONFIG, fusion: 'rrf', rrf_k: 60 };
+      const fused = fuseScores(signals, config);
+
+      // b is 2nd for keyword and 1st for semantic
+      expect(fused.get('b')?.score).toBeCloseTo(1 / 62 + 1 / 61);
+      expect(fused.get('a')?.score).toBeCloseTo(1 / 61);
+      expect(fused.get('c')?.score).toBeCloseTo(1 / 62);
+    });
+
+    it('should take the larger weighted score for max', () => {
+      const config: FusionConfig = { ...DEFAULT_FUSION_CONFIG, fusion: 'max' };
+      expect(fuseScores(signals, config).get('b')?.score).toBeCloseTo(0.9);
+    });
+
+    it('should explain every signal contribution', () => {
+      const explanation = fuseScores(signals, DEFAULT_FUSION_CONFIG).get('b')?.explanation;
+
+      expect(explanation).toEqual({
+        fusion: 'weighted',
+        signals: [
+          { signal: 'keyword', score: 0.7, rank: 2, weight: 1, contribution: 0.7 },
+          { signal: 'semantic', score: 0.9, rank: 1, weight: 1, contribution: 0.9 }
+        ],
+        fused: expect.closeTo(1.6) as number,
+        final: expect.closeTo(1.6) as number
+      });
+    });
+  });
+
+  describe('mergeScores()', () => {
+    const keyword = new Map([scored('a', 1.0, 'exact tag match'), scored('b', 0.7, 'summary match')]);
+    const semantic = new Map([scored('b', 0.9, 'semantic similarity: 0.90')]);
+
+    it('should keep reasons from both signals and sort by fused score', () => {
+      const merged = mergeScores(keyword, semantic);
+
+      expect(merged.map(r => r.item.id)).toEqual(['b', 'a']);
+      expect(merged[0].reasons).toEqual(['summary match', 'semantic similarity: 0.90']);
+      expect(merged[0].explanation).toBeUndefined();
+    });
+
+    it('should attach explanations when asked', () => {
+      const merged = mergeScores(keyword, semantic, DEFAULT_FUSION_CONFIG, true);
+      expect(merged[0].explanation?.signals).toHaveLength(2);
+    });
+
+    it('should not modify the input results', () => {
+      mergeScores(keyword, semantic);
+      expect(keyword.get('b')?.score).toBe(0.7);
+    });
+
+    it('should record multipliers in the explanation', () => {
+      const merged = mergeScores(keyword, semantic, DEFAULT_FUSION_CONFIG, true);
+      const [top] = applyScoreMultipliers(merged, () => ({ factor: 0.5, reasons: ['older'] }));
+
+      expect(top.explanation?.multiplier).toBe(0.5);
+      expect(top.explanation?.final).toBeCloseTo(top.score);
+      expect(top.explanation?.fused).toBeCloseTo(top.score * 2);
+    });
+  });
+
+  describe('loadFusionConfig()', () => {
+    let testDir: string;
+    let originalCwd: string;
+
+    beforeEach(() => {
+      originalCwd = process.cwd();
+      testDir = join(originalCwd, '.test-search-fusion-' + Date.now());
+      mkdirSync(join(testDir, 'cc-devtools'), { recursive: true });
+      process.chdir(testDir);
+    });
+
+    afterEach(() => {
+      process.chdir(originalCwd);
+      if (existsSync(testDir)) {
+        rmSync(testDir, { recursive: true, force: true, maxRetries: 3, retryDelay: 100 });
+      }
+    });
+
+    function writeConfig(content: string): void {
+      writeFileSync(join(testDir, 'cc-devtools', 'search.yaml'), content);
+    }
+
+    it('should use built-in defaults without a config file', () => {
+      expect(loadFusionConfig('memory')).toEqual(DEFAULT_FUSION_CONFIG);
+    });
+
+    it('should layer module settings over file defaults', () => {
+      writeConfig([
+        'defaults:',
+        '  fusion: rrf',
+        '  similarity_threshold: 0.4',
+        'modules:',
+        '  kanban:',
+        '    fusion: weighted',
+        '    semantic_weight: 0.5'
+      ].join('\n'));
+
+      expect(loadFusionConfig('memory')).toMatchObject({ fusion: 'rrf', similarity_threshold: 0.4, semantic_weight: 1 });
+      expect(loadFusionConfig('kanban')).toMatchObject({ fusion: 'weighted', similarity_threshold: 0.4, semantic_weight: 0.5 });
+    });
+
+    it('should reject unknown strategies and modules', () => {
+      writeConfig('defaults:\n  fusion: average\n');
+      expect(() => loadFusionConfig('memory')).toThrow('defaults.fusion must be one of');
+
+      writeConfig('modules:\n  wiki:\n    fusion: max\n');
+      expect(() => loadFusionConfig('memory')).toThrow('Unknown search module "wiki"');
+    });
+
+    it('should reject out-of-range numbers', () => {
+      writeConfig('modules:\n  planner:\n    similarity_threshold: 2\n');
+      expect(() => loadFusionConfig('planner')).toThrow('modules.planner.similarity_threshold');
+
+      writeConfig('defaults:\n  keyword_weight: -1\n');
+      expect(() => loadFusionConfig('planner')).toThrow('defaults.keyword_weight');
+    });
+  });
+});
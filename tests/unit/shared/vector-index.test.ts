@@ -0,0 +1,321 @@
+/**
+ * Vector index tests
+ * Tests HNSW insertion, removal and search, persistence, the exact-scan fallback, recall against
+ * the linear scan it replaces, comparisons per query against the scan's, and an opt-in timing
+ * benchmark
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+  addVector,
+  buildVectorIndex,
+  createVectorIndex,
+  exactVectorSearch,
+  findNearestVectors,
+  getVectorCount,
+  getVectorIndexPath,
+  isVectorIndexInSync,
+  loadOrBuildVectorIndex,
+  loadVectorIndex,
+  removeVector,
+  saveVectorIndex,
+  searchVectorIndex,
+  syncVectorIndex
+} from '../../../src/shared/vector-index.js';
+import type { VectorIndex } from '../../../src/shared/types/vector-index.js';
+
+/**
+ * Deterministic pseudo-random generator so failures are reproducible
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (Math.imul(state, 1103515245) + 12345) & 0x7fffffff;
+    return state / 0x7fffffff;
+  };
+}
+
+/**
+ * Vectors scattered around a set of centres, like embeddings of related symbols
+ */
+function createClusteredVectors(count: number, dimension: number, clusters: number, seed = 1): Map<string, number[]> {
+  const random = createRandom(seed);
+  const centres = Array.from({ length: clusters }, () => Array.from({ length: dimension }, () => random() * 2 - 1));
+  const vectors = new Map<string, number[]>();
+
+  for (let i = 0; i < count; i++) {
+    const centre = centres[i % clusters];
+    vectors.set(`v${i}`, centre.map(value => value + (random() * 2 - 1) * 0.8));
+  }
+
+  return vectors;
+}
+
+function recall(expected: { id: string }[], actual: { id: string }[]): number {
+  const found = new Set(actual.map(match => match.id));
+  return expected.filter(match => found.has(match.id)).length / expected.length;
+}
+
+describe('Vector Index', () => {
+  describe('building and searching', () => {
+    it('should find the nearest vectors by cosine similarity', () => {
+      const index = createVectorIndex();
+      addVector(index, 'x', [1, 0, 0]);
+      addVector(index, 'y', [0, 1, 0]);
+      addVector(index, 'xy', [1, 1, 0]);
+
+      const matches = searchVectorIndex(index, [2, 0.1, 0], { k: 2 });
+
+      expect(matches.map(m => m.id)).toEqual(['x', 'xy']);
+      expect(matches[0].similarity).toBeCloseTo(0.9988, 3);
+    });
+
+    it('should apply threshold and filter', () => {
+      const index = buildVectorIndex([['a', [1, 0]], ['b', [0.9, 0.1]], ['c', [0, 1]]]);
+
+      expect(searchVectorIndex(index, [1, 0], { k: 3, threshold: 0.5 }).map(m => m.id)).toEqual(['a', 'b']);
+      expect(searchVectorIndex(index, [1, 0], { k: 3, filter: id => id !== 'a' }).map(m => m.id)).toEqual(['b', 'c']);
+    });
+
+    it('should skip missing vectors when building', () => {
+      const index = buildVectorIndex([['a', [1, 0]], ['b', null]]);
+      expect(getVectorCount(index)).toBe(1);
+    });
+
+    it('should reject vectors of a different dimension', () => {
+      const index = buildVectorIndex([['a', [1, 0, 0]]]);
+      expect(() => addVector(index, 'b', [1, 0])).toThrow('dimension');
+    });
+
+    it('should return nothing for an empty index or mismatched query', () => {
+      expect(searchVectorIndex(createVectorIndex(), [1, 0], { k: 5 })).toEqual([]);
+      expect(searchVectorIndex(buildVectorIndex([['a', [1, 0]]]), [1, 0, 0], { k: 5 })).toEqual([]);
+    });
+  });
+
+  describe('incremental updates', () => {
+    it('should replace the vector stored under an existing id', () => {
+      const index = buildVectorIndex([['a', [1, 0]], ['b', [0, 1]]]);
+      addVector(index, 'a', [0, 1]);
+
+      expect(getVectorCount(index)).toBe(2);
+      expect(searchVectorIndex(index, [1, 0], { k: 1, threshold: 0.5 })).toEqual([]);
+    });
+
+    it('should sync added, changed and removed embeddings', () => {
+      const index = buildVectorIndex([['a', [1, 0]], ['b', [0, 1]]]);
+      const embeddings = new Map([['a', [0, 1]], ['c', [1, 0]]]);
+
+      expect(syncVectorIndex(index, embeddings)).toBe(true);
+      expect(isVectorIndexInSync(index, embeddings)).toBe(true);
+      expect(searchVectorIndex(index, [1, 0], { k: 1 })[0].id).toBe('c');
+      expect(syncVectorIndex(index, embeddings)).toBe(false);
+    });
+
+    it('should rebuild on sync when the dimension changes', () => {
+      const index = buildVectorIndex([['a', [1, 0]]]);
+
+      expect(syncVectorIndex(index, new Map([['a', [1, 0, 0]]]))).toBe(true);
+      expect(index.dimension).toBe(3);
+    });
+
+    it('should exclude removed vectors from results', () => {
+      const index = buildVectorIndex([['a', [1, 0]], ['b', [0.9, 0.1]]]);
+
+      expect(removeVector(index, 'a')).toBe(true);
+      expect(removeVector(index, 'a')).toBe(false);
+      expect(searchVectorIndex(index, [1, 0], { k: 2 }).map(m => m.id)).toEqual(['b']);
+    });
+
+    it('should compact tombstones and keep finding live vectors', () => {
+      const vectors = createClusteredVectors(600, 16, 10);
+      const index = buildVectorIndex(vectors);
+
+      for (let i = 0; i < 400; i++) {
+        removeVector(index, `v${i}`);
+        vectors.delete(`v${i}`);
+      }
+
+      expect(getVectorCount(index)).toBe(200);
+      expect(index.ids.length).toBeLessThan(600);
+      expect(isVectorIndexInSync(index, vectors)).toBe(true);
+
+      const query = vectors.get('v500') as number[];
+      expect(searchVectorIndex(index, query, { k: 1 })[0].id).toBe('v500');
+    });
+  });
+
+  describe('persistence', () => {
+    let testDir: string;
+
+    beforeEach(() => {
+      testDir = join(process.cwd(), '.test-vector-index-' + Date.now());
+      mkdirSync(testDir, { recursive: true });
+    });
+
+    afterEach(() => {
+      if (existsSync(testDir)) {
+        rmSync(testDir, { recursive: true, force: true, maxRetries: 3, retryDelay: 100 });
+      }
+    });
+
+    it('should store the index next to the index cache', () => {
+      expect(getVectorIndexPath('/cache/source-code-index.msgpack')).toBe('/cache/source-code-index-vectors.msgpack');
+    });
+
+    it('should round-trip an index through disk', () => {
+      const vectors = createClusteredVectors(200, 8, 5);
+      const index = buildVectorIndex(vectors);
+      removeVector(index, 'v0');
+      const filePath = join(testDir, 'vectors.msgpack');
+
+      saveVectorIndex(index, filePath);
+      const loaded = loadVectorIndex(filePath);
+
+      expect(loaded).not.toBeNull();
+      expect(getVectorCount(loaded!)).toBe(199);
+      const query = vectors.get('v7') as number[];
+      expect(searchVectorIndex(loaded!, query, { k: 5 })).toEqual(searchVectorIndex(index, query, { k: 5 }));
+    });
+
+    it('should return null for a missing or corrupt file', () => {
+      const filePath = join(testDir, 'corrupt.msgpack');
+      writeFileSync(filePath, 'not msgpack');
+
+      expect(loadVectorIndex(join(testDir, 'missing.msgpack'))).toBeNull();
+      expect(loadVectorIndex(filePath)).toBeNull();
+    });
+
+    it('should rebuild when the stored index is out of sync with the embeddings', () => {
+      const filePath = join(testDir, 'vectors.msgpack');
+      saveVectorIndex(buildVectorIndex([['a', [1, 0]]]), filePath);
+
+      const embeddings = new Map([['a', [1, 0]], ['b', [0, 1]]]);
+      const index = loadOrBuildVectorIndex(filePath, embeddings);
+
+      expect(isVectorIndexInSync(index, embeddings)).toBe(true);
+    });
+  });
+
+  describe('exact-scan fallback', () => {
+    it('should scan when there is no index', () => {
+      const embeddings = new Map([['a', [1, 0]], ['b', [0, 1]]]);
+      expect(findNearestVectors(undefined, embeddings, [1, 0], { k: 1 })).toEqual([{ id: 'a', similarity: 1 }]);
+    });
+
+    it('should scan when the index is out of sync with the embeddings', () => {
+      const embeddings = createClusteredVectors(2500, 8, 10);
+      const index = buildVectorIndex(embeddings);
+      embeddings.set('extra', [1, 0, 0, 0, 0, 0, 0, 0]);
+
+      const matches = findNearestVectors(index, embeddings, [1, 0, 0, 0, 0, 0, 0, 0], { k: 1 });
+      expect(matches[0].id).toBe('extra');
+    });
+
+    it('should scan when a filter leaves too few approximate matches', () => {
+      const embeddings = createClusteredVectors(2500, 8, 10);
+      const index = buildVectorIndex(embeddings);
+      const query = embeddings.get('v0') as number[];
+      const filter = (id: string): boolean => id === 'v1';
+
+      expect(findNearestVectors(index, embeddings, query, { k: 1, filter })).toEqual(
+        exactVectorSearch(embeddings, query, { k: 1, filter })
+      );
+    });
+
+    it('should not scan when a thresholded search comes up short without the filter rejecting anything', () => {
+      const embeddings = createClusteredVectors(2500, 8, 10);
+      const index = buildVectorIndex(embeddings);
+      const query = embeddings.get('v0') as number[];
+      let scans = 0;
+      const counted = new (class extends Map<string, number[]> {
+        override [Symbol.iterator](): IterableIterator<[string, number[]]> {
+          scans++;
+          return super[Symbol.iterator]();
+        }
+      })(embeddings);
+
+      const everything = findNearestVectors(index, counted, query, { k: 50, threshold: 0.999, filter: () => true });
+      expect(everything.length).toBeLessThan(50);
+      expect(scans).toBe(0);
+
+      findNearestVectors(index, counted, query, { k: 50, threshold: 0.999, filter: id => id !== 'v0' });
+      expect(scans).toBe(1);
+    });
+  });
+
+  describe('benchmark', () => {
+    const dimension = 64;
+
+    // The last 100 points are held out as queries: near the data but not in it
+    const createBenchmark = (): { embeddings: Map<string, number[]>; queries: number[][]; index: VectorIndex } => {
+      const points = Array.from(createClusteredVectors(5100, dimension, 100).entries());
+      const embeddings = new Map(points.slice(0, 5000));
+      return {
+        embeddings,
+        queries: points.slice(5000).map(([, vector]) => vector),
+        index: buildVectorIndex(embeddings)
+      };
+    };
+
+    it('should find nearly every exact nearest neighbour', () => {
+      const { embeddings, queries, index } = createBenchmark();
+
+      let totalRecall = 0;
+      for (const query of queries) {
+        totalRecall += recall(
+          exactVectorSearch(embeddings, query, { k: 10 }),
+          findNearestVectors(index, embeddings, query, { k: 10 })
+        );
+      }
+
+      expect(totalRecall / queries.length).toBeGreaterThan(0.95);
+    }, 60000);
+
+    it('should compare each query with a small fraction of the vectors a linear scan reads', () => {
+      const { embeddings, queries, index } = createBenchmark();
+
+      // Every similarity the search computes reads one stored vector, so counting reads counts comparisons
+      let comparisons = 0;
+      index.vectors = new Proxy(index.vectors, {
+        get(target, property, receiver) {
+          if (typeof property === 'string' && /^\d+$/.test(property)) {
+            comparisons++;
+          }
+          return Reflect.get(target, property, receiver) as unknown;
+        }
+      });
+
+      for (const query of queries) {
+        expect(searchVectorIndex(index, query, { k: 10 })).toHaveLength(10);
+      }
+
+      expect(comparisons / queries.length).toBeLessThan(embeddings.size * 0.2);
+    }, 60000);
+
+    // Wall-clock timing is unreliable on shared runners: run with VECTOR_INDEX_BENCHMARK=1
+    it.runIf(process.env.VECTOR_INDEX_BENCHMARK)('should answer queries much faster than a linear scan', () => {
+      const { embeddings, queries, index } = createBenchmark();
+
+      const time = (search: (query: number[]) => unknown): number => {
+        const start = performance.now();
+        for (const query of queries) {
+          search(query);
+        }
+        return performance.now() - start;
+      };
+
+      // Warm up both paths, then take the best of three runs to smooth out scheduler noise
+      const scan = (query: number[]): unknown => exactVectorSearch(embeddings, query, { k: 10 });
+      const approximate = (query: number[]): unknown => findNearestVectors(index, embeddings, query, { k: 10 });
+      time(scan);
+      time(approximate);
+      const scanTime = Math.min(time(scan), time(scan), time(scan));
+      const approximateTime = Math.min(time(approximate), time(approximate), time(approximate));
+
+      expect(scanTime / approximateTime).toBeGreaterThan(3);
+    }, 60000);
+  });
+});
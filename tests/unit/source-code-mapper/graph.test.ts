@@ -0,0 +1,79 @@
+/**
+ * Dependency graph tests for Source-code-mapper
+ * Tests building the file graph from resolved imports, cycle detection and DOT/Mermaid/JSON output
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { buildDependencyGraph, formatGraph } from '../../../src/source-code-mapper/services/graph.js';
+import { createEmptyIndex } from '../../../src/source-code-mapper/core/storage.js';
+import type { Index } from '../../../src/source-code-mapper/types.js';
+
+describe('Source-code-mapper Dependency Graph', () => {
+  let index: Index;
+
+  beforeEach(() => {
+    index = createEmptyIndex();
+    index.imports.set('/p/src/a.ts', [
+      { source: './b.js', imported: ['b'], usedBy: [], resolved: ['/p/src/b.ts'] },
+      { source: 'zod', imported: ['z'], usedBy: [], resolved: [] }
+    ]);
+    index.imports.set('/p/src/b.ts', [
+      { source: './c.js', imported: ['c'], usedBy: [], resolved: ['/p/src/c.ts'] }
+    ]);
+    index.imports.set('/p/src/c.ts', [
+      { source: './a.js', imported: ['A'], usedBy: [], typeOnly: true, resolved: ['/p/src/a.ts'] },
+      { source: './d.js', imported: ['d'], usedBy: [], resolved: ['/p/src/d.ts'] }
+    ]);
+    index.symbols.set('/p/src/d.ts', []);
+  });
+
+  it('should build file-to-file edges from resolved imports', () => {
+    const graph = buildDependencyGraph(index);
+
+    expect(graph.files).toEqual(['/p/src/a.ts', '/p/src/b.ts', '/p/src/c.ts', '/p/src/d.ts']);
+    expect(graph.edges).toEqual([
+      { from: '/p/src/a.ts', to: '/p/src/b.ts', typeOnly: false },
+      { from: '/p/src/b.ts', to: '/p/src/c.ts', typeOnly: false },
+      { from: '/p/src/c.ts', to: '/p/src/a.ts', typeOnly: true },
+      { from: '/p/src/c.ts', to: '/p/src/d.ts', typeOnly: false }
+    ]);
+  });
+
+  it('should detect cycles, ignoring type-only imports when asked to', () => {
+    expect(buildDependencyGraph(index).cycles).toEqual([['/p/src/a.ts', '/p/src/b.ts', '/p/src/c.ts']]);
+    expect(buildDependencyGraph(index, { runtimeOnly: true }).cycles).toEqual([]);
+  });
+
+  it('should report a file importing itself as a cycle', () => {
+    index.imports.set('/p/src/d.ts', [{ source: './d.js', imported: ['d'], usedBy: [], resolved: ['/p/src/d.ts'] }]);
+
+    expect(buildDependencyGraph(index).cycles).toContainEqual(['/p/src/d.ts']);
+  });
+
+  it('should format DOT with project-relative paths and highlighted cycles', () => {
+    const dot = formatGraph(buildDependencyGraph(index), 'dot', '/p');
+
+    expect(dot).toContain('digraph dependencies {');
+    expect(dot).toContain('"src/a.ts" [color=red];');
+    expect(dot).toContain('"src/d.ts";');
+    expect(dot).toContain('"src/a.ts" -> "src/b.ts" [color=red];');
+    expect(dot).toContain('"src/c.ts" -> "src/a.ts" [style=dashed, color=red];');
+    expect(dot).toContain('"src/c.ts" -> "src/d.ts";');
+  });
+
+  it('should format Mermaid and JSON', () => {
+    const graph = buildDependencyGraph(index);
+    const mermaid = formatGraph(graph, 'mermaid', '/p');
+
+    expect(mermaid.split('\n')).toEqual(expect.arrayContaining([
+      'graph LR',
+      '  n0["src/a.ts"]',
+      '  n0 --> n1',
+      '  n2 -.-> n0',
+      '  class n0,n1,n2 cycle'
+    ]));
+
+    const json = JSON.parse(formatGraph(graph, 'json', '/p')) as { cycles: string[][] };
+    expect(json.cycles).toEqual([['src/a.ts', 'src/b.ts', 'src/c.ts']]);
+  });
+});
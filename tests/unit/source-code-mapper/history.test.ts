@@ -0,0 +1,149 @@
+/**
+ * Symbol history tests for Source-code-mapper
+ * Tests tracing a symbol's commits through git log -L, story IDs from messages and feature
+ * branches, and the get_symbol_history tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { getSymbolHistory } from '../../../src/source-code-mapper/services/history.js';
+import { parseFile } from '../../../src/source-code-mapper/services/parser.js';
+import { handleGetSymbolHistory } from '../../../src/source-code-mapper/tools/get-symbol-history.js';
+import { createEmptyIndex } from '../../../src/source-code-mapper/core/storage.js';
+import { getStoryIdFromBranch, getStoryIdsFromText } from '../../../src/shared/story-ids.js';
+import type { Index, SymbolMatch } from '../../../src/source-code-mapper/types.js';
+
+const STATE = (body: string): string => [
+  'export function deriveStateVariables(): string {',
+  `  return '${body}';`,
+  '}',
+  '',
+  'export function other(): number {',
+  '  return 1;',
+  '}',
+  ''
+].join('\n');
+
+describe('Source-code-mapper Symbol History', () => {
+  let testDir: string;
+  let file: string;
+  const idle = { isIndexing: false, progress: 0, total: 0 };
+
+  const git = (...args: string[]): string => execFileSync('git', args, {
+    cwd: testDir,
+    encoding: 'utf-8',
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: 'Ada',
+      GIT_AUTHOR_EMAIL: 'ada@example.com',
+      GIT_COMMITTER_NAME: 'Ada',
+      GIT_COMMITTER_EMAIL: 'ada@example.com'
+    }
+  });
+
+  const commit = (content: string, message: string): void => {
+    writeFileSync(file, content);
+    git('add', '.');
+    git('commit', '-q', '-m', message);
+  };
+
+  const match = (name: string): SymbolMatch => {
+    const symbol = parseFile(file).symbols.find((candidate) => candidate.name === name);
+    if (!symbol) {
+      throw new Error(`no symbol ${name}`);
+    }
+    return { file, symbol };
+  };
+
+  beforeEach(() => {
+    testDir = join(process.cwd(), '.test-scm-history-' + Date.now());
+    mkdirSync(testDir, { recursive: true });
+    file = join(testDir, 'state.ts');
+    git('init', '-q', '-b', 'main');
+
+    commit(STATE('a'), 'Add state reader');
+    git('checkout', '-q', '-b', 'feature/MVP-002-state-names');
+    commit(STATE('b'), 'Rename state\n\nKeeps the old names working.');
+    git('checkout', '-q', 'main');
+    git('merge', '-q', '--no-ff', 'feature/MVP-002-state-names', '-m', "Merge branch 'feature/MVP-002-state-names'");
+    commit(STATE('c'), 'Finalized MVP-003');
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true, maxRetries: 3, retryDelay: 100 });
+    }
+  });
+
+  it('should parse story IDs from branch names and text', () => {
+    expect(getStoryIdFromBranch('feature/MVP-001-project-setup')).toBe('MVP-001');
+    expect(getStoryIdFromBranch('main')).toBeNull();
+    expect(getStoryIdsFromText('Finalized MVP-001-2, see BETA-010 and MVP-001')).toEqual(['MVP-001', 'BETA-010']);
+    expect(getStoryIdsFromText('Finalized V1-12', ['MVP', 'V1'])).toEqual(['V1-12']);
+  });
+
+  it('should not take standards and versions in text for story IDs', () => {
+    const text = 'Use UTF-8, SHA-1 and SHA-256 hashes, ISO-8601 dates, ES-2022 and RFC-7231 for MVP-004';
+
+    expect(getStoryIdsFromText(text, ['MVP', 'BETA'])).toEqual(['MVP-004']);
+    expect(getStoryIdsFromText('Use UTF-8, SHA-1, ISO-8601 dates, ES-2022 and RFC-7231')).toEqual([]);
+  });
+
+  it('should list the commits that changed a symbol with their stories', async () => {
+    const history = await getSymbolHistory(match('deriveStateVariables'), { projectRoot: testDir });
+
+    expect(history).toMatchObject({ name: 'deriveStateVariables', file: 'state.ts', startLine: 1, endLine: 3, uncommittedChanges: false });
+    expect(history.commits.map((entry) => entry.subject)).toEqual(['Finalized MVP-003', 'Rename state', 'Add state reader']);
+    expect(history.commits[0]).toMatchObject({ author: 'Ada', email: 'ada@example.com', storyIds: ['MVP-003'] });
+    expect(history.commits[0].branch).toBeUndefined();
+    expect(history.commits[1]).toMatchObject({
+      body: 'Keeps the old names working.',
+      branch: 'feature/MVP-002-state-names',
+      storyIds: ['MVP-002']
+    });
+    expect(history.commits[2].storyIds).toEqual([]);
+    expect(history.storyIds).toEqual(['MVP-003', 'MVP-002']);
+    expect(Number.isNaN(Date.parse(history.commits[0].date))).toBe(false);
+  });
+
+  it('should only list commits that touched the symbol, up to the limit', async () => {
+    expect((await getSymbolHistory(match('other'), { projectRoot: testDir })).commits.map((entry) => entry.subject)).toEqual(['Add state reader']);
+    expect((await getSymbolHistory(match('deriveStateVariables'), { projectRoot: testDir, limit: 1 })).commits).toHaveLength(1);
+  });
+
+  it('should only link story IDs with a configured phase prefix', async () => {
+    commit(STATE('d'), 'Switch to SHA-256 for BETA-001');
+
+    const history = await getSymbolHistory(match('deriveStateVariables'), { projectRoot: testDir, limit: 1, phases: ['MVP', 'BETA'] });
+    expect(history.commits[0].storyIds).toEqual(['BETA-001']);
+  });
+
+  it('should attribute commits on an unmerged feature branch to it', async () => {
+    git('checkout', '-q', '-b', 'feature/MVP-004-cleanup');
+    commit(STATE('d'), 'Tidy up');
+    writeFileSync(file, STATE('e'));
+
+    const history = await getSymbolHistory(match('deriveStateVariables'), { projectRoot: testDir, limit: 1 });
+    expect(history.commits[0]).toMatchObject({ subject: 'Tidy up', branch: 'feature/MVP-004-cleanup', storyIds: ['MVP-004'] });
+    expect(history.uncommittedChanges).toBe(true);
+  });
+
+  it('should look symbols up and report git errors in the tool', async () => {
+    const index: Index = createEmptyIndex();
+    index.symbols.set(file, parseFile(file).symbols);
+
+    const result = await handleGetSymbolHistory(index, idle, { symbol: 'deriveStateVariables', filepath: 'state.ts', limit: 2 }, testDir);
+    expect(result).toMatchObject({ success: true, data: { name: 'deriveStateVariables', storyIds: ['MVP-003', 'MVP-002'] } });
+
+    expect((await handleGetSymbolHistory(index, idle, { symbol: 'missing' }, testDir)).success).toBe(false);
+
+    const untracked = join(testDir, 'new.ts');
+    writeFileSync(untracked, 'export function fresh(): void {}\n');
+    index.symbols.set(untracked, parseFile(untracked).symbols);
+    const failed = await handleGetSymbolHistory(index, idle, { symbol: 'fresh' }, testDir);
+    expect(failed.success).toBe(false);
+    expect(failed.error).toContain('git log failed');
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Impact analysis tests for Source-code-mapper
+ * Tests walking importers from changed files, touched symbols, test ranking and git diff parsing
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { analyzeImpact, isTestFile, parseUnifiedDiff } from '../../../src/source-code-mapper/services/impact.js';
+import { createEmptyIndex } from '../../../src/source-code-mapper/core/storage.js';
+import type { Import, Index, SymbolInfo } from '../../../src/source-code-mapper/types.js';
+
+function symbol(name: string, file: string, startLine: number, endLine: number, isExported = true): SymbolInfo {
+  return { name, type: 'function', startLine, endLine, isExported, file };
+}
+
+function imp(source: string, imported: string[], resolved: string[]): Import {
+  return { source, imported, usedBy: [], resolved };
+}
+
+describe('Source-code-mapper Impact Analysis', () => {
+  let index: Index;
+
+  beforeEach(() => {
+    index = createEmptyIndex();
+    index.symbols.set('/p/src/shared/search.ts', [
+      symbol('hybridSearch', '/p/src/shared/search.ts', 1, 10),
+      symbol('rankResults', '/p/src/shared/search.ts', 12, 20),
+      symbol('normalize', '/p/src/shared/search.ts', 22, 25, false)
+    ]);
+    index.imports.set('/p/src/memory/service.ts', [imp('../shared/search.js', ['hybridSearch'], ['/p/src/shared/search.ts'])]);
+    index.imports.set('/p/src/planner/service.ts', [imp('../shared/search.js', ['rankResults'], ['/p/src/shared/search.ts'])]);
+    index.imports.set('/p/src/mcp/server.ts', [imp('../memory/service.js', ['* as memory'], ['/p/src/memory/service.ts'])]);
+    index.imports.set('/p/tests/unit/search.test.ts', [imp('../../src/shared/search.js', ['rankResults'], ['/p/src/shared/search.ts'])]);
+    index.imports.set('/p/tests/unit/server.test.ts', [imp('../../src/mcp/server.js', ['start'], ['/p/src/mcp/server.ts'])]);
+    index.imports.set('/p/tests/unit/memory.test.ts', [imp('../../src/memory/service.js', ['remember'], ['/p/src/memory/service.ts'])]);
+  });
+
+  it('should list importers nearest first with the touched symbols direct importers use', () => {
+    const report = analyzeImpact(index, [{ file: '/p/src/shared/search.ts' }]);
+
+    expect(report.touchedSymbols.map((s) => s.name)).toEqual(['hybridSearch', 'rankResults']);
+    expect(report.affected).toEqual([
+      { file: '/p/src/memory/service.ts', depth: 1, via: '/p/src/shared/search.ts', symbols: ['hybridSearch'] },
+      { file: '/p/src/planner/service.ts', depth: 1, via: '/p/src/shared/search.ts', symbols: ['rankResults'] },
+      { file: '/p/src/mcp/server.ts', depth: 2, via: '/p/src/memory/service.ts' }
+    ]);
+  });
+
+  it('should rank tests named after a changed file first, then by distance', () => {
+    const report = analyzeImpact(index, [{ file: '/p/src/shared/search.ts' }]);
+
+    expect(report.tests.map((t) => [t.file, t.reason])).toEqual([
+      ['/p/tests/unit/search.test.ts', 'named after search.ts'],
+      ['/p/tests/unit/memory.test.ts', 'imports a changed file through 1 other file(s)'],
+      ['/p/tests/unit/server.test.ts', 'imports a changed file through 2 other file(s)']
+    ]);
+  });
+
+  it('should only count symbols on changed lines as touched', () => {
+    const report = analyzeImpact(index, [{ file: '/p/src/shared/search.ts', lines: [{ start: 14, end: 15 }] }]);
+
+    expect(report.touchedSymbols.map((s) => s.name)).toEqual(['rankResults']);
+    expect(report.affected[0].symbols).toEqual([]);
+    expect(report.affected[1].symbols).toEqual(['rankResults']);
+  });
+
+  it('should stop at the depth limit', () => {
+    const report = analyzeImpact(index, [{ file: '/p/src/shared/search.ts' }], { maxDepth: 1 });
+
+    expect(report.affected.map((a) => a.file)).toEqual(['/p/src/memory/service.ts', '/p/src/planner/service.ts']);
+    expect(report.tests.map((t) => t.file)).toEqual(['/p/tests/unit/search.test.ts']);
+  });
+
+  it('should recognize test files across languages', () => {
+    expect(isTestFile('/p/src/search.test.ts')).toBe(true);
+    expect(isTestFile('/p/src/__tests__/search.tsx')).toBe(true);
+    expect(isTestFile('/p/store/store_test.go')).toBe(true);
+    expect(isTestFile('/p/app/test_models.py')).toBe(true);
+    expect(isTestFile('/p/src/testing.ts')).toBe(false);
+  });
+
+  it('should parse changed files and line ranges from a zero-context git diff', () => {
+    const diff = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -3 +3 @@ export function a() {',
+      '-  return 1;',
+      '+  return 2;',
+      '@@ -10,0 +11,3 @@',
+      '+export function b() {',
+      '+}',
+      '+',
+      '@@ -20,2 +22,0 @@',
+      '-old',
+      '-lines',
+      'diff --git a/src/gone.ts b/src/gone.ts',
+      'deleted file mode 100644',
+      '--- a/src/gone.ts',
+      '+++ /dev/null',
+      '@@ -1,3 +0,0 @@',
+      '-export const gone = 1;'
+    ].join('\n');
+
+    expect(parseUnifiedDiff(diff, '/p')).toEqual([
+      { file: '/p/src/a.ts', lines: [{ start: 3, end: 3 }, { start: 11, end: 13 }, { start: 22, end: 23 }] },
+      { file: '/p/src/gone.ts' }
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Index rules tests for Source-code-mapper
+ * Tests include/exclude patterns, the size limit, language overrides, the scm.yaml `index`
+ * section and what a scan reports as skipped
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { createIndexRules } from '../../../src/source-code-mapper/services/index-rules.js';
+import { validateAndSyncIndex, updateIndexForFiles } from '../../../src/source-code-mapper/services/scanner.js';
+import { loadScmConfig } from '../../../src/source-code-mapper/core/config.js';
+import { createEmptyIndex } from '../../../src/source-code-mapper/core/storage.js';
+import { createHashProvider, setActiveEmbeddingProvider, clearActiveEmbeddingProvider } from '../../../src/shared/embedding-providers.js';
+
+describe('Source-code-mapper Index Rules', () => {
+  let testDir: string;
+
+  const write = (name: string, content: string): string => {
+    const file = join(testDir, name);
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, content);
+    return file;
+  };
+
+  beforeEach(() => {
+    testDir = join(process.cwd(), '.test-scm-index-rules-' + Date.now());
+    mkdirSync(testDir, { recursive: true });
+    setActiveEmbeddingProvider(createHashProvider(16), 16);
+  });
+
+  afterEach(() => {
+    clearActiveEmbeddingProvider();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true, maxRetries: 3, retryDelay: 100 });
+    }
+  });
+
+  it('should skip ignored, excluded, binary and oversized files', () => {
+    write('.gitignore', 'coverage/\n');
+    const rules = createIndexRules(testDir, { exclude: ['tests/fixtures/'], max_file_size: 100 });
+
+    expect(rules.skipReason(join(testDir, 'node_modules'), true)).toBe('default');
+    expect(rules.skipReason(join(testDir, 'packages/app/node_modules'), true)).toBe('default');
+    expect(rules.skipReason(join(testDir, 'coverage'), true)).toBe('gitignore');
+    expect(rules.skipReason(join(testDir, 'tests/fixtures'), true)).toBe('exclude');
+    expect(rules.skipReason(join(testDir, 'logo.png'), false)).toBe('binary');
+    expect(rules.skipReason(join(testDir, 'src/big.ts'), false, 101)).toBe('too-large');
+    expect(rules.skipReason(join(testDir, 'src/app.ts'), false, 100)).toBeNull();
+  });
+
+  it('should force-include files and reach into skipped directories for them', () => {
+    const rules = createIndexRules(testDir, { include: ['build/generated/**', '*.gen.ts'], exclude: ['src/'] });
+
+    expect(rules.skipReason(join(testDir, 'build/generated/api.ts'), false)).toBeNull();
+    expect(rules.skipReason(join(testDir, 'build/other.js'), false)).toBe('default');
+    expect(rules.skipReason(join(testDir, 'src/model.gen.ts'), false)).toBeNull();
+    expect(rules.mayContainIncluded(join(testDir, 'build'))).toBe(true);
+    expect(rules.mayContainIncluded(join(testDir, 'build/generated/v1'))).toBe(true);
+    expect(rules.mayContainIncluded(join(testDir, 'node_modules'))).toBe(false);
+  });
+
+  it('should override the language a file is parsed as', () => {
+    const rules = createIndexRules(testDir, { languages: { '*.mts.txt': 'typescript', 'scripts/*': 'bash' } });
+
+    expect(rules.getLanguage(join(testDir, 'src/a.mts.txt'))).toBe('typescript');
+    expect(rules.getLanguage(join(testDir, 'scripts/deploy'))).toBe('bash');
+    expect(rules.getLanguage(join(testDir, 'src/a.py'))).toBe('python');
+  });
+
+  it('should read and validate the index section of scm.yaml', () => {
+    write('cc-devtools/scm.yaml', 'index:\n  include: [build/generated/]\n  max_file_size: 512KB\n  languages:\n    "*.inc": php\n');
+    expect(loadScmConfig(testDir).index).toEqual({
+      include: ['build/generated/'],
+      max_file_size: 512 * 1024,
+      languages: { '*.inc': 'php' }
+    });
+
+    write('cc-devtools/scm.yaml', 'index:\n  max_file_size: big\n');
+    expect(() => loadScmConfig(testDir)).toThrow('index.max_file_size');
+
+    write('cc-devtools/scm.yaml', 'index:\n  languages:\n    "*.inc": klingon\n');
+    expect(() => loadScmConfig(testDir)).toThrow('Unknown language "klingon"');
+  });
+
+  it('should index by the project rules and record what was skipped', async () => {
+    write('.gitignore', 'coverage/\n');
+    write('.ignore', 'vendor-lib/\n');
+    write('cc-devtools/scm.yaml', 'index:\n  include: [build/generated/]\n  exclude: ["*.fixture.ts"]\n  max_file_size: 200\n  languages:\n    "*.tsx.txt": typescript\n');
+    const app = write('src/app.ts', 'export function run(): void {}\n');
+    const generated = write('build/generated/api.ts', 'export function request(): void {}\n');
+    const typed = write('src/widget.tsx.txt', 'export class Widget {}\n');
+    write('build/bundle.js', 'function bundled() {}\n');
+    write('coverage/report.js', 'function report() {}\n');
+    write('vendor-lib/lib.js', 'function lib() {}\n');
+    write('src/user.fixture.ts', 'export const user = {};\n');
+    const big = write('src/big.ts', `export const data = '${'x'.repeat(300)}';\n`);
+
+    const index = createEmptyIndex();
+    await validateAndSyncIndex(index, testDir);
+
+    expect([...index.symbols.keys()].sort()).toEqual([app, generated, typed].sort());
+    expect(index.files.get(typed)?.parser).toBe('typescript@2');
+    expect(index.metadata.skipped).toEqual({
+      gitignore: { count: 1, examples: ['coverage/'] },
+      ignore: { count: 1, examples: ['vendor-lib/'] },
+      exclude: { count: 1, examples: ['src/user.fixture.ts'] },
+      'too-large': { count: 1, examples: ['src/big.ts'] }
+    });
+
+    // A file grown past the limit is dropped when the watcher reports it
+    write('src/app.ts', `export const data = '${'x'.repeat(300)}';\n`);
+    await updateIndexForFiles(index, [app], { rules: createIndexRules(testDir, loadScmConfig(testDir).index) });
+    expect(index.files.has(app)).toBe(false);
+    expect(index.symbols.has(big)).toBe(false);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Incremental indexing tests for Source-code-mapper
+ * Tests re-parsing only changed files, reusing embeddings, background embedding batches and the
+ * index status shared with the CLI
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, existsSync, writeFileSync, utimesSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { validateAndSyncIndex, updateIndexForFiles } from '../../../src/source-code-mapper/services/scanner.js';
+import { createEmbeddingQueue } from '../../../src/source-code-mapper/services/embedding-queue.js';
+import { createEmptyIndex, saveIndex, loadIndex } from '../../../src/source-code-mapper/core/storage.js';
+import { createIndexStatus, writeIndexStatus, readIndexStatus, isIndexStatusStale, countMissingEmbeddings } from '../../../src/source-code-mapper/core/status.js';
+import { handleGetIndexStatus } from '../../../src/source-code-mapper/tools/get-index-status.js';
+import { createHashProvider, setActiveEmbeddingProvider, clearActiveEmbeddingProvider } from '../../../src/shared/embedding-providers.js';
+import type { BatchEmbedder, Index, IndexingProgress, SymbolInfo } from '../../../src/source-code-mapper/types.js';
+
+describe('Source-code-mapper Incremental Indexing', () => {
+  let testDir: string;
+  let index: Index;
+
+  const write = (name: string, content: string): string => {
+    const file = join(testDir, name);
+    writeFileSync(file, content);
+    return file;
+  };
+
+  const sync = async (): Promise<IndexingProgress> => {
+    let last: IndexingProgress | undefined;
+    await validateAndSyncIndex(index, testDir, { onProgress: (progress) => { last = { ...progress }; } });
+    if (!last) {
+      throw new Error('no progress reported');
+    }
+    return last;
+  };
+
+  beforeEach(() => {
+    testDir = join(process.cwd(), '.test-scm-indexing-' + Date.now());
+    mkdirSync(testDir, { recursive: true });
+    setActiveEmbeddingProvider(createHashProvider(16), 16);
+    index = createEmptyIndex();
+  });
+
+  afterEach(() => {
+    clearActiveEmbeddingProvider();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true, maxRetries: 3, retryDelay: 100 });
+    }
+  });
+
+  it('should only re-parse files whose content changed', async () => {
+    const auth = write('auth.ts', 'export function login(): void {}\n');
+    write('util.ts', 'export const VERSION = 1;\n');
+
+    expect(await sync()).toMatchObject({ totalFiles: 2, changedFiles: 2, removedFiles: 0 });
+    expect(index.files.get(auth)).toMatchObject({ parser: 'typescript@2', size: 33 });
+    const symbols = index.symbols.get(auth);
+
+    expect(await sync()).toMatchObject({ changedFiles: 0 });
+
+    // Same content with a new modification time is only re-hashed
+    utimesSync(auth, new Date(), new Date(Date.now() + 5000));
+    expect(await sync()).toMatchObject({ changedFiles: 0 });
+    expect(index.symbols.get(auth)).toBe(symbols);
+
+    write('auth.ts', 'export function login(): void {}\nexport function logout(): void {}\n');
+    expect(await sync()).toMatchObject({ changedFiles: 1 });
+    expect(index.symbols.get(auth)?.map((symbol) => symbol.name)).toEqual(['login', 'logout']);
+  });
+
+  it('should re-parse files indexed by an older parser version and drop removed files', async () => {
+    const auth = write('auth.ts', 'export function login(): void {}\n');
+    const util = write('util.ts', 'export const VERSION = 1;\n');
+    await sync();
+
+    index.files.set(auth, { ...index.files.get(auth)!, parser: 'typescript@1' });
+    unlinkSync(util);
+
+    expect(await sync()).toMatchObject({ totalFiles: 2, changedFiles: 1, removedFiles: 1 });
+    expect(index.files.get(auth)?.parser).toBe('typescript@2');
+    expect(index.symbols.has(util)).toBe(false);
+    expect(index.files.has(util)).toBe(false);
+    expect([...index.embeddings.keys()].some((key) => key.startsWith(util))).toBe(false);
+  });
+
+  it('should embed new symbols and keep embeddings of unchanged ones', async () => {
+    const auth = write('auth.ts', 'export function login(): void {}\n');
+    await sync();
+    const login = index.embeddings.get(`${auth}:login:1`);
+    expect(login).toBeInstanceOf(Float32Array);
+
+    write('auth.ts', 'export function logout(): void {}\nexport function login(): void {}\n');
+    await updateIndexForFiles(index, [auth]);
+
+    expect(index.embeddings.get(`${auth}:login:2`)).toBe(login);
+    expect(index.embeddings.has(`${auth}:login:1`)).toBe(false);
+    expect(index.embeddings.has(`${auth}:logout:1`)).toBe(true);
+    expect(countMissingEmbeddings(index)).toBe(0);
+    expect(index.vectors?.nodeById.size).toBe(2);
+  });
+
+  it('should embed in batches and drop results for files re-parsed meanwhile', async () => {
+    const batches: string[][] = [];
+    let release: () => void = () => undefined;
+    const blocked = new Promise<void>((resolve) => { release = resolve; });
+    const embedder: BatchEmbedder = {
+      mode: 'in-process',
+      embed: async (texts) => {
+        batches.push(texts);
+        await blocked;
+        return texts.map(() => [1, 0]);
+      },
+      close: () => Promise.resolve()
+    };
+    const symbol = (name: string, startLine: number): SymbolInfo[] => [
+      { name, type: 'function', startLine, endLine: startLine, isExported: true, file: '/p/a.ts' }
+    ];
+
+    const queue = createEmbeddingQueue(index, embedder, { batchSize: 2 });
+    queue.add('/p/a.ts', [...symbol('a', 1), ...symbol('b', 2), ...symbol('c', 3)]);
+    queue.add('/p/b.ts', symbol('d', 1));
+    expect(queue.pending()).toBe(4);
+
+    await Promise.resolve();
+    // a.ts changes while its first batch is being embedded
+    queue.add('/p/a.ts', symbol('a', 5));
+    release();
+    await queue.drain();
+
+    expect(batches.map((batch) => batch.length)).toEqual([2, 2]);
+    expect([...index.embeddings.keys()].sort()).toEqual(['/p/a.ts:a:5', '/p/b.ts:d:1']);
+    expect(queue.embedded()).toBe(2);
+    expect(queue.pending()).toBe(0);
+  });
+
+  it('should stop embedding and report the error when the embedder fails', async () => {
+    const queue = createEmbeddingQueue(index, {
+      mode: 'worker',
+      embed: () => Promise.reject(new Error('model crashed')),
+      close: () => Promise.resolve()
+    });
+    queue.add('/p/a.ts', [{ name: 'a', type: 'function', startLine: 1, endLine: 1, isExported: true, file: '/p/a.ts' }]);
+    await Promise.resolve();
+    await queue.drain();
+
+    expect(queue.error()).toBe('model crashed');
+    expect(index.embeddings.size).toBe(0);
+  });
+
+  it('should persist file states with the index', async () => {
+    const auth = write('auth.ts', 'export function login(): void {}\n');
+    await sync();
+    const indexPath = join(testDir, 'index.msgpack');
+    await saveIndex(index, indexPath);
+
+    const loaded = await loadIndex(indexPath);
+    expect(loaded?.files.get(auth)).toEqual(index.files.get(auth));
+  });
+
+  it('should share indexing status through the status file', () => {
+    const status = { ...createIndexStatus(), phase: 'embedding' as const, pendingEmbeddings: 12, embeddingMode: 'worker' as const };
+    writeIndexStatus(status, testDir);
+
+    expect(readIndexStatus(testDir)).toEqual(status);
+    expect(isIndexStatusStale(status, status.updatedAt + 1000)).toBe(false);
+    expect(isIndexStatusStale(status, status.updatedAt + 5 * 60 * 1000)).toBe(true);
+    expect(isIndexStatusStale({ ...status, phase: 'idle' }, status.updatedAt + 5 * 60 * 1000)).toBe(false);
+    expect(readIndexStatus(join(testDir, 'missing'))).toBeNull();
+
+    const result = handleGetIndexStatus(index, status);
+    expect(result).toMatchObject({
+      success: true,
+      data: { phase: 'embedding', ready: true, embeddings: { mode: 'worker', pending: 12, missing: 0 } }
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Outline tests for Source-code-mapper
+ * Tests the outline tree of files and directories, dropping detail to fit a token budget and
+ * the get_file_info outline mode
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { buildOutline } from '../../../src/source-code-mapper/services/outline.js';
+import { handleGetFileInfo } from '../../../src/source-code-mapper/tools/get-file-info.js';
+import { createEmptyIndex } from '../../../src/source-code-mapper/core/storage.js';
+import type { Index, SymbolInfo } from '../../../src/source-code-mapper/types.js';
+
+function symbol(file: string, name: string, startLine: number, extra: Partial<SymbolInfo> = {}): SymbolInfo {
+  return { name, type: 'function', startLine, endLine: startLine, isExported: false, file, ...extra };
+}
+
+describe('Source-code-mapper Outline', () => {
+  let index: Index;
+  const store = '/p/src/auth/store.ts';
+  const idle = { isIndexing: false, progress: 0, total: 0 };
+
+  beforeEach(() => {
+    index = createEmptyIndex();
+    index.symbols.set(store, [
+      symbol(store, 'load', 5, { type: 'method', signature: '(path: string): string', parent: 'TokenStore', qualifiedName: 'TokenStore.load', isExported: true, endLine: 7 }),
+      symbol(store, 'TokenStore', 4, { type: 'class', isExported: true, endLine: 12 }),
+      symbol(store, 'path', 9, { type: 'property', signature: 'string', parent: 'TokenStore', qualifiedName: 'TokenStore.path' }),
+      symbol(store, 'createStore', 14, { signature: '(\n  path: string\n): TokenStore', isExported: true, endLine: 16 })
+    ]);
+    index.symbols.set('/p/src/auth/session.ts', [symbol('/p/src/auth/session.ts', 'startSession', 1)]);
+    index.symbols.set('/p/src/authz.ts', [symbol('/p/src/authz.ts', 'check', 1)]);
+  });
+
+  it('should outline every symbol with signatures when the budget allows', () => {
+    const outline = buildOutline(index, '/p/src/auth', { projectRoot: '/p', maxTokens: 1000 });
+
+    expect(outline).toMatchObject({ path: 'src/auth', detail: 'full', files: 2, symbols: 5, omittedFiles: 0 });
+    expect(outline.outline.split('\n')).toEqual([
+      'src/auth/session.ts',
+      '  function startSession  :1',
+      'src/auth/store.ts',
+      '  export class TokenStore  :4-12',
+      '    export method load(path: string): string  :5-7',
+      '    property path: string  :9',
+      '  export function createStore(path: string): TokenStore  :14-16'
+    ]);
+    expect(outline.estimatedTokens).toBe(Math.ceil(outline.outline.length / 4));
+  });
+
+  it('should drop members, then signatures, then symbols to fit the budget', () => {
+    const detail = (maxTokens: number): string => buildOutline(index, '/p/src/auth', { projectRoot: '/p', maxTokens }).detail;
+
+    expect(detail(60)).toBe('top-level');
+    expect(detail(25)).toBe('names');
+    expect(detail(15)).toBe('files');
+    expect(buildOutline(index, '/p/src/auth', { projectRoot: '/p', maxTokens: 25 }).outline)
+      .toBe('src/auth/session.ts: startSession\nsrc/auth/store.ts: TokenStore, createStore');
+  });
+
+  it('should cut the file list off when even file names exceed the budget', () => {
+    const outline = buildOutline(index, '/p/src', { projectRoot: '/p', maxTokens: 14 });
+
+    expect(outline).toMatchObject({ detail: 'files', files: 3, omittedFiles: 2 });
+    expect(outline.outline).toBe('src/auth/session.ts (1 symbols)\n... 2 more files');
+  });
+
+  it('should outline through get_file_info with relative paths', () => {
+    const result = handleGetFileInfo(index, idle, { filepath: 'src/auth/store.ts', mode: 'outline' }, '/p');
+    expect(result).toMatchObject({ success: true, data: { path: 'src/auth/store.ts', files: 1, detail: 'full' } });
+
+    expect(handleGetFileInfo(index, idle, { filepath: 'src/missing', mode: 'outline' }, '/p').success).toBe(false);
+    expect(handleGetFileInfo(index, idle, { filepath: store }).data).toMatchObject({ file: store, exports: ['TokenStore', 'createStore'] });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Query syntax tests for Source-code-mapper
+ * Tests parsing search_code queries into text and filters, applying the new filters and the
+ * search_code tool running filter-only queries
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { parseSearchQuery, compileNamePattern } from '../../../src/source-code-mapper/services/query.js';
+import { searchSymbols } from '../../../src/source-code-mapper/services/search.js';
+import { handleSearchCode } from '../../../src/source-code-mapper/tools/search-code.js';
+import { createEmptyIndex } from '../../../src/source-code-mapper/core/storage.js';
+import type { Index, SymbolInfo } from '../../../src/source-code-mapper/types.js';
+
+function symbol(file: string, name: string, extra: Partial<SymbolInfo> = {}): SymbolInfo {
+  return { name, type: 'function', startLine: 1, endLine: 1, isExported: true, file, ...extra };
+}
+
+describe('Source-code-mapper Query Syntax', () => {
+  describe('parseSearchQuery', () => {
+    it('should split the documented example into text and filters', () => {
+      expect(parseSearchQuery('kind:function exported:true path:src/web/** lang:ts name:/^use[A-Z]/ "session"')).toEqual({
+        text: 'session',
+        filters: {
+          type: ['function'],
+          exported: true,
+          path: ['src/web/**'],
+          language: ['typescript'],
+          name: '/^use[A-Z]/'
+        },
+        errors: []
+      });
+    });
+
+    it('should combine lists and repeated terms and read quoted values and aliases', () => {
+      const parsed = parseSearchQuery('type:class,interface kind:enum lang:py,go in:TokenStore path:"my docs/**" mode:exact load token');
+
+      expect(parsed).toMatchObject({
+        text: 'load token',
+        mode: 'exact',
+        filters: {
+          type: ['class', 'interface', 'enum'],
+          language: ['python', 'go'],
+          parent: 'TokenStore',
+          path: ['my docs/**']
+        }
+      });
+    });
+
+    it('should keep spaces inside name patterns and match plain names exactly', () => {
+      expect(parseSearchQuery('name:/a b\\/c/i x').filters.name).toBe('/a b\\/c/i');
+      expect(parseSearchQuery('name:TokenStore.load').filters.name).toBe('^TokenStore\\.load$');
+      expect(compileNamePattern('/^USE/gi').flags).toBe('i');
+    });
+
+    it('should keep unknown keys and quoted filters as text', () => {
+      expect(parseSearchQuery('http://localhost "kind:function"')).toEqual({
+        text: 'http://localhost kind:function',
+        filters: {},
+        errors: []
+      });
+    });
+
+    it('should report invalid terms and still apply the rest', () => {
+      const parsed = parseSearchQuery('kind:banana exported:maybe lang:klingon name:/(/ mode:slow path: kind:class "open');
+
+      expect(parsed.filters).toEqual({ type: ['class'] });
+      expect(parsed.errors).toHaveLength(7);
+      expect(parsed.errors).toContain('Unknown language "klingon"');
+      expect(parsed.errors.some((error) => error.startsWith('Missing closing "'))).toBe(true);
+    });
+  });
+
+  describe('filters', () => {
+    let index: Index;
+
+    beforeEach(() => {
+      index = createEmptyIndex();
+      index.symbols.set('/p/src/web/hooks.ts', [
+        symbol('/p/src/web/hooks.ts', 'useSession'),
+        symbol('/p/src/web/hooks.ts', 'user', { type: 'const' }),
+        symbol('/p/src/web/hooks.ts', 'useCache', { isExported: false })
+      ]);
+      index.symbols.set('/p/src/cli/session.py', [symbol('/p/src/cli/session.py', 'useSession')]);
+      index.symbols.set('/p/src/web/view.tsx', [
+        symbol('/p/src/web/view.tsx', 'render', { type: 'method', parent: 'SessionView', qualifiedName: 'SessionView.render' })
+      ]);
+      // Parsed as TypeScript through a language override
+      index.files.set('/p/src/web/view.tsx', { hash: 'h', parser: 'typescript@2', size: 1, mtimeMs: 1 });
+    });
+
+    const names = async (filters: Parameters<typeof searchSymbols>[3]): Promise<string[]> =>
+      (await searchSymbols(index, '', 'exact', filters, 100)).map((result) => `${result.file}#${result.qualifiedName ?? result.name}`);
+
+    it('should filter by path glob, language and name pattern', async () => {
+      expect(await names({ path: ['src/web/**'], name: '^use[A-Z]' })).toEqual([
+        '/p/src/web/hooks.ts#useSession',
+        '/p/src/web/hooks.ts#useCache'
+      ]);
+      expect(await names({ language: ['py'] })).toEqual(['/p/src/cli/session.py#useSession']);
+      expect(await names({ language: ['typescript'], name: '/^sessionview\\./i' })).toEqual(['/p/src/web/view.tsx#SessionView.render']);
+      expect(await names({ path: ['/p/src/cli/*'] })).toHaveLength(1);
+    });
+
+    it('should filter by exported in both directions', async () => {
+      expect(await names({ exported: false })).toEqual(['/p/src/web/hooks.ts#useCache']);
+      expect(await names({ exported: true, type: ['const'] })).toEqual(['/p/src/web/hooks.ts#user']);
+    });
+
+    it('should run filter-only queries and report query errors through search_code', async () => {
+      const idle = { isIndexing: false, progress: 0, total: 0 };
+      const embeddings = { available: false, lastAttempt: 0, retryIntervalMs: 0 };
+
+      const listed = await handleSearchCode(index, idle, embeddings, { query: 'lang:ts name:/^use[A-Z]/ exported:true' });
+      expect(listed).toMatchObject({ success: true, data: [{ name: 'useSession', match_reason: 'matches filters' }] });
+
+      const combined = await handleSearchCode(index, idle, embeddings, { query: 'session mode:exact', filters: { type: ['method'] } });
+      expect((combined.data as SymbolInfo[]).map((result) => result.name)).toEqual(['render']);
+
+      const invalid = await handleSearchCode(index, idle, embeddings, { query: 'kind:banana session' });
+      expect(invalid).toMatchObject({ success: false });
+      expect(invalid.error).toContain('Unknown kind "banana"');
+    });
+  });
+});
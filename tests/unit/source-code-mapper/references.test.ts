@@ -0,0 +1,204 @@
+/**
+ * Reference extraction and call graph tests for Source-code-mapper
+ * Tests call/reference extraction in the TypeScript and Python parsers, and
+ * find_references/get_call_graph queries across files
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createEmptyIndex } from '../../../src/source-code-mapper/core/storage.js';
+import parseJavaScriptTypeScript from '../../../src/source-code-mapper/services/parsers/javascript-typescript.js';
+import parsePython from '../../../src/source-code-mapper/services/parsers/python.js';
+import { findReferences, getCallGraph } from '../../../src/source-code-mapper/services/references.js';
+import type { Index } from '../../../src/source-code-mapper/types.js';
+
+function parseTs(file: string, content: string): ReturnType<typeof parseJavaScriptTypeScript> {
+  return parseJavaScriptTypeScript(file, content, content.split('\n'));
+}
+
+function addFile(index: Index, file: string, content: string): void {
+  const result = file.endsWith('.py')
+    ? parsePython(file, content, content.split('\n'))
+    : parseTs(file, content);
+  index.symbols.set(file, result.symbols);
+  index.imports.set(file, result.imports);
+  index.references.set(file, result.references ?? []);
+}
+
+const RUNNER = `import { loadConfig } from './config';
+
+export async function runConfig(name: string): Promise<void> {
+  const config = loadConfig(name);
+  // runConfig(name) in a comment is not a call
+  console.log('runConfig(', config);
+  await execute(config);
+}
+
+function execute(config: Config): Promise<void> {
+  return Promise.resolve();
+}
+`;
+
+const WORKFLOW = `import { runConfig } from './runner';
+
+export function executeWorkflow(): void {
+  const steps = ['build'];
+  steps.forEach(runConfig);
+  runConfig('all');
+}
+
+function retry(): void {
+  executeWorkflow();
+}
+
+runConfig('startup');
+`;
+
+const CONFIG = `export function loadConfig(name: string): Config {
+  const pattern = /[{]/;
+  return { name };
+}
+`;
+
+function buildIndex(): Index {
+  const index = createEmptyIndex();
+  addFile(index, '/project/src/runner.ts', RUNNER);
+  addFile(index, '/project/src/workflow.ts', WORKFLOW);
+  addFile(index, '/project/src/config.ts', CONFIG);
+  addFile(index, '/project/src/other.ts', `export function runConfig(): void {}\n\nfunction main(): void {\n  runConfig();\n}\n`);
+  return index;
+}
+
+describe('Source-code-mapper References', () => {
+  describe('reference extraction', () => {
+    it('should record calls with their enclosing function', () => {
+      const { references = [] } = parseTs('/project/src/runner.ts', RUNNER);
+
+      expect(references).toContainEqual({ name: 'loadConfig', kind: 'call', line: 4, enclosing: 'runConfig' });
+      expect(references).toContainEqual({ name: 'execute', kind: 'call', line: 7, enclosing: 'runConfig' });
+      expect(references).toContainEqual({ name: 'resolve', kind: 'call', line: 11, enclosing: 'execute' });
+    });
+
+    it('should ignore comments, strings, imports and declarations', () => {
+      const { references = [] } = parseTs('/project/src/runner.ts', RUNNER);
+
+      expect(references.filter((r) => r.name === 'runConfig')).toEqual([]);
+      expect(references.filter((r) => r.name === 'loadConfig').map((r) => r.line)).toEqual([4]);
+    });
+
+    it('should record imported names used as values as references', () => {
+      const { references = [] } = parseTs('/project/src/workflow.ts', WORKFLOW);
+
+      expect(references).toContainEqual({ name: 'runConfig', kind: 'reference', line: 5, enclosing: 'executeWorkflow' });
+      expect(references).toContainEqual({ name: 'runConfig', kind: 'call', line: 6, enclosing: 'executeWorkflow' });
+      expect(references).toContainEqual({ name: 'runConfig', kind: 'call', line: 13 });
+    });
+
+    it('should not let braces in regex literals end a function early', () => {
+      const content = `function outer(): void {\n  const re = /[{]/;\n  inner();\n}\n\nfunction inner(): void {}\n`;
+      const { references = [] } = parseTs('/project/src/re.ts', content);
+
+      expect(references).toContainEqual({ name: 'inner', kind: 'call', line: 3, enclosing: 'outer' });
+    });
+
+    it('should extract Python calls using indentation for scope', () => {
+      const content = [
+        'from app.db import query',
+        '',
+        'class Repo:',
+        '    def find(self, id):',
+        '        """find(id) returns a row"""',
+        '        return query(id)  # query(other)',
+        '',
+        '    def all(self):',
+        '        return self.find(None)',
+        '',
+        'repo = Repo()'
+      ].join('\n');
+      const { references = [] } = parsePython('/project/app/repo.py', content, content.split('\n'));
+
+      expect(references).toContainEqual({ name: 'query', kind: 'call', line: 6, enclosing: 'find' });
+      expect(references).toContainEqual({ name: 'find', kind: 'call', line: 9, enclosing: 'all' });
+      expect(references).toContainEqual({ name: 'Repo', kind: 'call', line: 11 });
+      expect(references.filter((r) => r.name === 'query')).toHaveLength(1);
+    });
+  });
+
+  describe('findReferences()', () => {
+    it('should only include files that import the symbol from its definition', () => {
+      const index = buildIndex();
+
+      const references = findReferences(index, 'runConfig', '/project/src/runner.ts');
+
+      expect(references.map((r) => `${r.file}:${r.line}`)).toEqual([
+        '/project/src/workflow.ts:5',
+        '/project/src/workflow.ts:6',
+        '/project/src/workflow.ts:13'
+      ]);
+    });
+
+    it('should filter by kind', () => {
+      const index = buildIndex();
+
+      const calls = findReferences(index, 'runConfig', '/project/src/runner.ts', 'call');
+
+      expect(calls.map((r) => r.line)).toEqual([6, 13]);
+    });
+
+    it('should return every use when the name is ambiguous', () => {
+      const index = buildIndex();
+
+      const references = findReferences(index, 'runConfig', undefined, 'call');
+
+      expect(new Set(references.map((r) => r.file))).toEqual(new Set(['/project/src/workflow.ts', '/project/src/other.ts']));
+    });
+  });
+
+  describe('getCallGraph()', () => {
+    it('should group callers by enclosing function including module scope', () => {
+      const index = buildIndex();
+
+      const graph = getCallGraph(index, 'runConfig', 'callers', 1, '/project/src/runner.ts');
+
+      expect(graph?.callers).toEqual([
+        { name: 'executeWorkflow', file: '/project/src/workflow.ts', line: 3, callSites: [6] },
+        { name: '<module>', file: '/project/src/workflow.ts', line: 13, callSites: [13] }
+      ]);
+      expect(graph?.callees).toBeUndefined();
+    });
+
+    it('should follow callers to the requested depth', () => {
+      const index = buildIndex();
+
+      const graph = getCallGraph(index, 'runConfig', 'callers', 2, '/project/src/runner.ts');
+      const executeWorkflow = graph?.callers?.find((node) => node.name === 'executeWorkflow');
+
+      expect(executeWorkflow?.children?.map((node) => node.name)).toEqual(['retry']);
+    });
+
+    it('should resolve callees through imports and skip unresolved calls', () => {
+      const index = buildIndex();
+
+      const graph = getCallGraph(index, 'runConfig', 'callees', 1, '/project/src/runner.ts');
+
+      expect(graph?.callees?.map((node) => `${node.file}#${node.name}`)).toEqual([
+        '/project/src/config.ts#loadConfig',
+        '/project/src/runner.ts#execute'
+      ]);
+    });
+
+    it('should mark recursion instead of expanding it again', () => {
+      const index = createEmptyIndex();
+      addFile(index, '/project/src/walk.ts', `function walk(n: number): void {\n  if (n > 0) {\n    walk(n - 1);\n  }\n}\n`);
+
+      const graph = getCallGraph(index, 'walk', 'callees', 3);
+
+      expect(graph?.callees).toEqual([
+        { name: 'walk', file: '/project/src/walk.ts', line: 1, callSites: [3], recursive: true }
+      ]);
+    });
+
+    it('should return null for unknown symbols', () => {
+      expect(getCallGraph(buildIndex(), 'missing', 'both', 1)).toBeNull();
+    });
+  });
+});
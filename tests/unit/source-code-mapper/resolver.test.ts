@@ -0,0 +1,187 @@
+/**
+ * Module resolution tests for Source-code-mapper
+ * Tests resolving imports to project files through relative paths, tsconfig paths/baseUrl,
+ * package.json exports, Python packages and Go modules, and findImporters on resolved imports
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, existsSync, writeFileSync, symlinkSync } from 'fs';
+import { dirname, join } from 'path';
+import { createModuleResolver, resolveIndexImports } from '../../../src/source-code-mapper/services/resolver.js';
+import { findImporters } from '../../../src/source-code-mapper/services/imports.js';
+import { createEmptyIndex } from '../../../src/source-code-mapper/core/storage.js';
+import type { Import } from '../../../src/source-code-mapper/types.js';
+
+function imp(source: string, imported: string[] = []): Import {
+  return { source, imported, usedBy: [] };
+}
+
+describe('Source-code-mapper Module Resolution', () => {
+  let testDir: string;
+
+  const write = (path: string, content = ''): string => {
+    const file = join(testDir, path);
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, content);
+    return file;
+  };
+
+  beforeEach(() => {
+    testDir = join(process.cwd(), '.test-scm-resolver-' + Date.now());
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true, maxRetries: 3, retryDelay: 100 });
+    }
+  });
+
+  describe('TypeScript and JavaScript', () => {
+    it('should resolve relative imports with emitted extensions, missing extensions and index files', () => {
+      const files = [
+        write('src/shared/errors.ts'),
+        write('src/kanban/errors.ts'),
+        write('src/kanban/service.ts'),
+        write('src/web/components/index.tsx'),
+        write('src/legacy/util.js')
+      ];
+      const resolve = createModuleResolver(files);
+      const service = join(testDir, 'src/kanban/service.ts');
+
+      expect(resolve(service, imp('../shared/errors.js'))).toEqual([files[0]]);
+      expect(resolve(service, imp('./errors.js'))).toEqual([files[1]]);
+      expect(resolve(service, imp('../web/components'))).toEqual([files[3]]);
+      expect(resolve(service, imp('../legacy/util'))).toEqual([files[4]]);
+      expect(resolve(service, imp('./missing.js'))).toEqual([]);
+    });
+
+    it('should leave packages and Node builtins unresolved', () => {
+      const service = write('src/service.ts');
+      const resolve = createModuleResolver([service]);
+
+      expect(resolve(service, imp('fs'))).toEqual([]);
+      expect(resolve(service, imp('node:path'))).toEqual([]);
+      expect(resolve(service, imp('vitest'))).toEqual([]);
+    });
+
+    it('should resolve tsconfig paths and baseUrl, including paths inherited through extends', () => {
+      write('tsconfig.base.json', JSON.stringify({
+        compilerOptions: { paths: { '@shared/*': ['./src/shared/*'], '@config': ['./src/config/index.ts'] } }
+      }));
+      write('tsconfig.json', '{\n  // comments are allowed\n  "extends": "./tsconfig.base.json",\n  "compilerOptions": { "baseUrl": "." }\n}');
+      const files = [
+        write('src/shared/errors.ts'),
+        write('src/config/index.ts'),
+        write('lib/helpers.ts'),
+        write('src/app.ts')
+      ];
+      const resolve = createModuleResolver(files);
+
+      expect(resolve(files[3], imp('@shared/errors.js'))).toEqual([files[0]]);
+      expect(resolve(files[3], imp('@config'))).toEqual([files[1]]);
+      expect(resolve(files[3], imp('lib/helpers'))).toEqual([files[2]]);
+    });
+
+    it('should resolve workspace packages through package.json exports, mapping build output to sources', () => {
+      write('packages/core/package.json', JSON.stringify({
+        name: '@acme/core',
+        exports: {
+          '.': { types: './dist/index.d.ts', import: './dist/index.js' },
+          './utils/*': './dist/utils/*.js'
+        }
+      }));
+      const files = [
+        write('packages/core/src/index.ts'),
+        write('packages/core/src/utils/strings.ts'),
+        write('packages/app/src/main.ts')
+      ];
+      mkdirSync(join(testDir, 'node_modules/@acme'), { recursive: true });
+      symlinkSync(join(testDir, 'packages/core'), join(testDir, 'node_modules/@acme/core'), 'dir');
+      const resolve = createModuleResolver(files);
+
+      expect(resolve(files[2], imp('@acme/core'))).toEqual([files[0]]);
+      expect(resolve(files[2], imp('@acme/core/utils/strings'))).toEqual([files[1]]);
+      expect(resolve(files[0], imp('@acme/core/utils/strings'))).toEqual([files[1]]);
+      expect(resolve(files[2], imp('@acme/core/internal'))).toEqual([]);
+    });
+  });
+
+  describe('Python', () => {
+    it('should resolve relative, absolute and submodule imports', () => {
+      const files = [
+        write('app/__init__.py'),
+        write('app/models.py'),
+        write('app/services/__init__.py'),
+        write('app/services/users.py'),
+        write('app/utils/helpers.py')
+      ];
+      const resolve = createModuleResolver(files);
+
+      expect(resolve(files[3], imp('..models', ['User']))).toEqual([files[1]]);
+      expect(resolve(files[3], imp('.', ['users']))).toEqual([files[2], files[3]]);
+      expect(resolve(files[3], imp('app.utils.helpers', ['slugify']))).toEqual([files[4]]);
+      expect(resolve(files[3], imp('', ['app.models']))).toEqual([files[1]]);
+      expect(resolve(files[3], imp('os', ['path']))).toEqual([]);
+    });
+  });
+
+  describe('Go', () => {
+    it('should resolve imports under the go.mod module path to every non-test file of the package', () => {
+      write('go.mod', 'module github.com/acme/store\n\ngo 1.22\n');
+      const files = [
+        write('internal/cache/cache.go'),
+        write('internal/cache/lru.go'),
+        write('internal/cache/cache_test.go'),
+        write('cmd/main.go')
+      ];
+      const resolve = createModuleResolver(files);
+
+      expect(resolve(files[3], imp('github.com/acme/store/internal/cache'))).toEqual([files[0], files[1]]);
+      expect(resolve(files[3], imp('github.com/other/lib'))).toEqual([]);
+      expect(resolve(files[3], imp('fmt'))).toEqual([]);
+    });
+  });
+
+  describe('findImporters()', () => {
+    it('should tell apart files with the same name in different folders', () => {
+      const shared = write('src/shared/errors.ts');
+      const kanban = write('src/kanban/errors.ts');
+      const service = write('src/kanban/service.ts');
+      const index = createEmptyIndex();
+      index.symbols.set(shared, []);
+      index.symbols.set(kanban, []);
+      index.imports.set(service, [imp('../shared/errors.js', ['NotFoundError']), imp('./errors.js', ['KanbanError']), imp('zod', ['z'])]);
+      resolveIndexImports(index);
+
+      const sharedImporters = findImporters(index, 'src/shared/errors.ts', testDir);
+      expect(sharedImporters).toHaveLength(1);
+      expect(sharedImporters[0].imports.map((i) => i.source)).toEqual(['../shared/errors.js']);
+
+      const kanbanImporters = findImporters(index, join(testDir, 'src/kanban/errors'), testDir);
+      expect(kanbanImporters[0].imports.map((i) => i.source)).toEqual(['./errors.js']);
+
+      expect(findImporters(index, 'zod', testDir)[0].imports.map((i) => i.source)).toEqual(['zod']);
+    });
+
+    it('should match partial paths against resolved imports', () => {
+      const shared = write('src/shared/errors.ts');
+      const service = write('src/kanban/service.ts');
+      const logger = write('src/shared/logger.ts');
+      const index = createEmptyIndex();
+      index.symbols.set(shared, []);
+      index.imports.set(service, [imp('../shared/errors.js', ['NotFoundError']), imp('zod', ['z'])]);
+      index.imports.set(logger, [imp('./errors.js', ['NotFoundError'])]);
+      resolveIndexImports(index);
+
+      const sources = (query: string): string[] =>
+        findImporters(index, query, testDir).flatMap((result) => result.imports.map((i) => i.source));
+
+      expect(sources('errors')).toEqual(['../shared/errors.js', './errors.js']);
+      // './errors.js' only matches through the file it resolves to
+      expect(sources('shared/errors')).toEqual(['../shared/errors.js', './errors.js']);
+      expect(sources('shared/errors.js')).toEqual(['../shared/errors.js', './errors.js']);
+      expect(sources('kanban/errors')).toEqual([]);
+    });
+  });
+});
@@ -196,6 +196,75 @@ describe('Source-code-mapper Search', () => {
     });
   });
 
+  describe('Qualified names', () => {
+    beforeEach(() => {
+      testIndex.symbols.set('store.ts', [
+        {
+          name: 'TokenStore',
+          type: 'class',
+          startLine: 1,
+          endLine: 40,
+          isExported: true,
+          file: 'store.ts'
+        },
+        {
+          name: 'load',
+          type: 'method',
+          startLine: 5,
+          endLine: 10,
+          isExported: true,
+          parent: 'TokenStore',
+          qualifiedName: 'TokenStore.load',
+          file: 'store.ts'
+        },
+        {
+          name: 'load',
+          type: 'method',
+          startLine: 5,
+          endLine: 12,
+          isExported: true,
+          parent: 'config.ConfigStore',
+          qualifiedName: 'config.ConfigStore.load',
+          file: 'config.ts'
+        }
+      ]);
+    });
+
+    it('should match a qualified name exactly', async () => {
+      const results = await searchSymbols(testIndex, 'TokenStore.load', 'exact');
+
+      expect(results[0]).toMatchObject({ qualifiedName: 'TokenStore.load', score: 1.0, match_reason: 'exact qualified name match' });
+      expect(results.map(r => r.qualifiedName)).not.toContain('config.ConfigStore.load');
+    });
+
+    it('should match the trailing part of a qualified name', async () => {
+      const results = await searchSymbols(testIndex, 'ConfigStore.load', 'exact');
+
+      expect(results[0].qualifiedName).toBe('config.ConfigStore.load');
+    });
+
+    it('should filter by parent', async () => {
+      const results = await searchSymbols(testIndex, 'load', 'exact', { parent: 'ConfigStore' });
+
+      expect(results.map(r => r.qualifiedName)).toEqual(['config.ConfigStore.load']);
+    });
+
+    it('should filter by member kinds', async () => {
+      const results = await searchSymbols(testIndex, 'store', 'exact', { type: ['method'] });
+
+      expect(results.length).toBe(2);
+      results.forEach(r => {
+        expect(r.type).toBe('method');
+      });
+    });
+
+    it('should fuzzy match dotted queries against qualified names', async () => {
+      const results = await searchSymbols(testIndex, 'TokenStor.lod', 'fuzzy');
+
+      expect(results[0].qualifiedName).toBe('TokenStore.load');
+    });
+  });
+
   describe('Limit parameter', () => {
     it('should respect limit', async () => {
       const results = await searchSymbols(testIndex, 'a', 'exact', undefined, 2);
@@ -0,0 +1,294 @@
+/**
+ * Symbol nesting tests for Source-code-mapper
+ * Tests member kinds (method/property/field/variable/module) and parent/qualified names
+ * emitted by the TypeScript, Python, Java, Go, Rust and C# parsers
+ */
+
+import { describe, it, expect } from 'vitest';
+import parseCSharp from '../../../src/source-code-mapper/services/parsers/csharp.js';
+import parseGo from '../../../src/source-code-mapper/services/parsers/go.js';
+import parseJava from '../../../src/source-code-mapper/services/parsers/java.js';
+import parsePython from '../../../src/source-code-mapper/services/parsers/python.js';
+import parseRust from '../../../src/source-code-mapper/services/parsers/rust.js';
+import parseTypeScriptAst from '../../../src/source-code-mapper/services/parsers/typescript-ast.js';
+import type { Parser } from '../../../src/source-code-mapper/services/parsers/types.js';
+
+function summarize(parser: Parser, file: string, content: string): string[] {
+  const { symbols } = parser(file, content, content.split('\n'));
+  return symbols.map((s) => `${s.type} ${s.qualifiedName ?? s.name} ${s.startLine}-${s.endLine}`);
+}
+
+describe('Source-code-mapper Symbol Nesting', () => {
+  it('should nest TypeScript class and interface members and namespace declarations', () => {
+    const content = [
+      'export class TokenStore {',
+      '  private cache = new Map<string, Token>();',
+      '  constructor(private readonly path: string) {}',
+      '  load(id: string): Token | undefined {',
+      '    return this.cache.get(id);',
+      '  }',
+      '  get size(): number {',
+      '    return this.cache.size;',
+      '  }',
+      '  set size(value: number) {}',
+      '  onChange = (): void => {};',
+      '}',
+      'export interface Store {',
+      '  name: string;',
+      '  save(token: Token): void;',
+      '  save(tokens: Token[]): void;',
+      '  clear: () => void;',
+      '}',
+      'export namespace Auth {',
+      '  export class Session {',
+      '    refresh(): void {}',
+      '  }',
+      '}',
+      'declare module \'express\' {',
+      '  interface Request { user: string }',
+      '}',
+      'export let current = 0;'
+    ].join('\n');
+
+    expect(summarize(parseTypeScriptAst, '/src/store.ts', content)).toEqual([
+      'class TokenStore 1-12',
+      'property TokenStore.cache 2-2',
+      'property TokenStore.path 3-3',
+      'method TokenStore.load 4-6',
+      'property TokenStore.size 7-9',
+      'method TokenStore.onChange 11-11',
+      'interface Store 13-18',
+      'property Store.name 14-14',
+      'method Store.save 15-15',
+      'method Store.clear 17-17',
+      'namespace Auth 19-23',
+      'class Auth.Session 20-22',
+      'method Auth.Session.refresh 21-21',
+      'module express 24-26',
+      'interface express.Request 25-25',
+      'property express.Request.user 25-25',
+      'variable current 27-27'
+    ]);
+  });
+
+  it('should keep private members and nested declarations out of file exports', () => {
+    const { symbols } = parseTypeScriptAst('/src/store.ts', 'export class A {\n  private b(): void {}\n  c(): void {}\n}\n', []);
+
+    expect(symbols.map((s) => [s.qualifiedName ?? s.name, s.parent, s.isExported])).toEqual([
+      ['A', undefined, true],
+      ['A.b', 'A', false],
+      ['A.c', 'A', true]
+    ]);
+  });
+
+  it('should nest Python methods, properties and class attributes by indentation', () => {
+    const content = [
+      'MAX_RETRIES = 3',
+      'registry = {}',
+      '',
+      'class Repo:',
+      '    """Rows: name = value"""',
+      '    table: str = "repos"',
+      '    _cache = None',
+      '',
+      '    @property',
+      '    def size(self):',
+      '        count = len(self.rows)',
+      '        return count',
+      '',
+      '    @size.setter',
+      '    def size(self, value):',
+      '        pass',
+      '',
+      '    def find(self, id):',
+      '        def match(row):',
+      '            return row.id == id',
+      '        return match',
+      '',
+      '    class Meta:',
+      '        ordering = "name"',
+      '',
+      'def helper():',
+      '    result = 1',
+      '    return result'
+    ].join('\n');
+
+    expect(summarize(parsePython, '/app/repo.py', content)).toEqual([
+      'property Repo.size 9-12',
+      'method Repo.find 18-21',
+      'function match 19-20',
+      'function helper 26-28',
+      'class Repo 4-24',
+      'class Repo.Meta 23-24',
+      'const MAX_RETRIES 1-1',
+      'variable registry 2-2',
+      'field Repo.table 6-6',
+      'field Repo._cache 7-7',
+      'field Repo.Meta.ordering 24-24'
+    ]);
+  });
+
+  it('should nest Java methods and fields and skip statements inside bodies', () => {
+    const content = [
+      'package com.example;',
+      '',
+      'public class UserService {',
+      '  private final Map<String, User> cache = new HashMap<>();',
+      '  public static final int LIMIT = 10;',
+      '',
+      '  public User find(String id) {',
+      '    User user = cache.get(id);',
+      '    if (user == null) {',
+      '      load(id);',
+      '    }',
+      '    return user;',
+      '  }',
+      '',
+      '  static class Builder {',
+      '    private String name;',
+      '    Builder name(String name) { this.name = name; return this; }',
+      '  }',
+      '}'
+    ].join('\n');
+
+    expect(summarize(parseJava, '/src/UserService.java', content)).toEqual([
+      'class UserService 3-19',
+      'field UserService.cache 4-4',
+      'field UserService.LIMIT 5-5',
+      'method UserService.find 7-13',
+      'class UserService.Builder 15-18',
+      'field UserService.Builder.name 16-16',
+      'method UserService.Builder.name 17-17'
+    ]);
+  });
+
+  it('should nest Go methods under their receiver type with struct fields and interface methods', () => {
+    const content = [
+      'package store',
+      '',
+      'const (',
+      '\tDefaultTTL = 60',
+      '\tmaxSize = 100',
+      ')',
+      '',
+      'var ErrNotFound = errors.New("not found")',
+      '',
+      'type TokenStore struct {',
+      '\tsync.Mutex',
+      '\tpath, name string `json:"path"`',
+      '\ttokens map[string]Token',
+      '}',
+      '',
+      'type Loader interface {',
+      '\tLoad(id string) (Token, error)',
+      '}',
+      '',
+      'func (s *TokenStore) Load(id string) (Token, error) {',
+      '\tconst local = 1',
+      '\treturn s.tokens[id], nil',
+      '}',
+      '',
+      'func New() *TokenStore {',
+      '\treturn &TokenStore{}',
+      '}'
+    ].join('\n');
+
+    expect(summarize(parseGo, '/store/store.go', content)).toEqual([
+      'const DefaultTTL 4-4',
+      'const maxSize 5-5',
+      'variable ErrNotFound 8-8',
+      'type TokenStore 10-14',
+      'field TokenStore.Mutex 11-11',
+      'field TokenStore.path 12-12',
+      'field TokenStore.name 12-12',
+      'field TokenStore.tokens 13-13',
+      'interface Loader 16-18',
+      'method Loader.Load 17-17',
+      'method TokenStore.Load 20-23',
+      'function New 25-27'
+    ]);
+  });
+
+  it('should nest Rust impl and trait methods, struct fields and module items', () => {
+    const content = [
+      'pub struct TokenStore<\'a> {',
+      '    pub path: &\'a str,',
+      '    tokens: Vec<Token>,',
+      '}',
+      '',
+      'impl<\'a> TokenStore<\'a> {',
+      '    pub fn load(&self, id: &str) -> Option<&Token> {',
+      '        let open = \'{\';',
+      '        None',
+      '    }',
+      '}',
+      '',
+      'impl<\'a> fmt::Display for TokenStore<\'a> {',
+      '    fn fmt(&self, f: &mut fmt::Formatter) -> fmt::Result { Ok(()) }',
+      '}',
+      '',
+      'pub trait Store {',
+      '    fn save(&mut self, token: Token);',
+      '}',
+      '',
+      'pub static mut COUNTER: u32 = 0;',
+      '',
+      'mod tests {',
+      '    fn check() {}',
+      '}'
+    ].join('\n');
+
+    expect(summarize(parseRust, '/src/store.rs', content)).toEqual([
+      'type TokenStore 1-4',
+      'field TokenStore.path 2-2',
+      'field TokenStore.tokens 3-3',
+      'method TokenStore.load 7-10',
+      'method TokenStore.fmt 14-14',
+      'interface Store 17-19',
+      'method Store.save 18-18',
+      'variable COUNTER 21-21',
+      'module tests 23-25',
+      'function tests.check 24-24'
+    ]);
+  });
+
+  it('should nest C# members under their types and namespaces', () => {
+    const content = [
+      'using System;',
+      '',
+      'namespace App.Auth',
+      '{',
+      '    public class TokenStore : Base, IDisposable',
+      '    {',
+      '        private readonly ILogger _logger;',
+      '        public const int Limit = 10;',
+      '        public string Path { get; set; }',
+      '        public int Count => _tokens.Count;',
+      '',
+      '        public TokenStore(ILogger logger) : base(logger)',
+      '        {',
+      '            var ready = true;',
+      '            Load(ready);',
+      '        }',
+      '',
+      '        public Token Load(string id)',
+      '        {',
+      '            if (id == null) { return null; }',
+      '            return _tokens[id];',
+      '        }',
+      '    }',
+      '}'
+    ].join('\n');
+
+    expect(summarize(parseCSharp, '/src/TokenStore.cs', content)).toEqual([
+      'namespace App.Auth 3-24',
+      'class App.Auth.TokenStore 5-23',
+      'field App.Auth.TokenStore._logger 7-7',
+      'const App.Auth.TokenStore.Limit 8-8',
+      'property App.Auth.TokenStore.Path 9-9',
+      'property App.Auth.TokenStore.Count 10-10',
+      'method App.Auth.TokenStore.TokenStore 12-16',
+      'method App.Auth.TokenStore.Load 18-22'
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Symbol source tests for Source-code-mapper
+ * Tests looking symbols up by name and qualified name, context lines and the get_symbol_source tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { getSymbolSource } from '../../../src/source-code-mapper/services/symbol-source.js';
+import { parseFile } from '../../../src/source-code-mapper/services/parser.js';
+import { handleGetSymbolSource } from '../../../src/source-code-mapper/tools/get-symbol-source.js';
+import { createEmptyIndex } from '../../../src/source-code-mapper/core/storage.js';
+import type { Index } from '../../../src/source-code-mapper/types.js';
+
+const STORE = [
+  "import { readFileSync } from 'fs';",
+  '',
+  '/** Token storage */',
+  'export class TokenStore {',
+  '  load(path: string): string {',
+  "    return readFileSync(path, 'utf-8');",
+  '  }',
+  '}',
+  '',
+  'export function load(): TokenStore {',
+  '  return new TokenStore();',
+  '}'
+].join('\n');
+
+describe('Source-code-mapper Symbol Source', () => {
+  let testDir: string;
+  let index: Index;
+  const idle = { isIndexing: false, progress: 0, total: 0 };
+
+  beforeEach(() => {
+    testDir = join(process.cwd(), '.test-scm-symbol-source-' + Date.now());
+    mkdirSync(testDir, { recursive: true });
+    index = createEmptyIndex();
+    for (const [name, content] of [['store.ts', STORE], ['other.ts', 'export const load = 1;']]) {
+      const file = join(testDir, name);
+      writeFileSync(file, content);
+      index.symbols.set(file, parseFile(file).symbols);
+    }
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true, maxRetries: 3, retryDelay: 100 });
+    }
+  });
+
+  it('should return the exact source of a symbol by qualified name', () => {
+    const [method] = getSymbolSource(index, 'TokenStore.load');
+
+    expect(method).toMatchObject({
+      name: 'load',
+      qualifiedName: 'TokenStore.load',
+      type: 'method',
+      file: join(testDir, 'store.ts'),
+      startLine: 5,
+      endLine: 7,
+      sourceStart: 5,
+      sourceEnd: 7
+    });
+    expect(method.source).toBe("  load(path: string): string {\n    return readFileSync(path, 'utf-8');\n  }");
+  });
+
+  it('should return every same-named symbol, top-level first, and narrow by file', () => {
+    const matches = getSymbolSource(index, 'load');
+
+    expect(matches.map((match) => `${match.qualifiedName ?? match.name}@${match.startLine}`)).toEqual([
+      'load@1',
+      'load@10',
+      'TokenStore.load@5'
+    ]);
+    expect(getSymbolSource(index, 'load', { filepath: join(testDir, 'other.ts') })).toHaveLength(1);
+  });
+
+  it('should include context lines, clamped to the file', () => {
+    const [store] = getSymbolSource(index, 'TokenStore', { context: 1 });
+    expect(store.source.split('\n')[0]).toBe('/** Token storage */');
+    expect([store.sourceStart, store.sourceEnd]).toEqual([3, 9]);
+
+    const [fn] = getSymbolSource(index, 'load', { filepath: join(testDir, 'store.ts'), context: 5 });
+    expect([fn.sourceStart, fn.sourceEnd]).toEqual([5, 12]);
+  });
+
+  it('should resolve relative paths and report missing symbols in the tool', () => {
+    const found = handleGetSymbolSource(index, idle, { symbol: 'load', filepath: 'store.ts', limit: 1 }, testDir);
+    expect(found).toMatchObject({ success: true, data: { total: 2 } });
+    expect((found.data as { matches: unknown[] }).matches).toHaveLength(1);
+
+    const missing = handleGetSymbolSource(index, idle, { symbol: 'TokenStore.save' }, testDir);
+    expect(missing.success).toBe(false);
+    expect(missing.error).toContain('TokenStore.save');
+  });
+});
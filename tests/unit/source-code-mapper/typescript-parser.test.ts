@@ -0,0 +1,264 @@
+/**
+ * TypeScript compiler API parser tests for Source-code-mapper
+ * Tests symbol ranges, signatures, JSDoc summaries, imports, re-exports and the regex fallback
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { createEmptyIndex } from '../../../src/source-code-mapper/core/storage.js';
+import { parseFile } from '../../../src/source-code-mapper/services/parser.js';
+import parseTypeScriptAst from '../../../src/source-code-mapper/services/parsers/typescript-ast.js';
+import { findReferences, getCallGraph } from '../../../src/source-code-mapper/services/references.js';
+import type { Index, ParseResult, SymbolInfo } from '../../../src/source-code-mapper/types.js';
+
+const astFailure = vi.hoisted(() => ({ enabled: false }));
+
+vi.mock('../../../src/source-code-mapper/services/parsers/typescript-ast.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../src/source-code-mapper/services/parsers/typescript-ast.js')>();
+  return {
+    default: (...args: Parameters<typeof actual.default>): ParseResult => {
+      if (astFailure.enabled) {
+        throw new Error('parser crashed');
+      }
+      return actual.default(...args);
+    }
+  };
+});
+
+function parse(content: string, file = '/project/src/file.ts'): ParseResult {
+  return parseTypeScriptAst(file, content, content.split('\n'));
+}
+
+function symbol(result: ParseResult, name: string): SymbolInfo | undefined {
+  return result.symbols.find((s) => s.name === name);
+}
+
+describe('Source-code-mapper TypeScript Parser', () => {
+  describe('symbols', () => {
+    it('should record exact ranges, full signatures and JSDoc summaries', () => {
+      const result = parse([
+        '/**',
+        ' * Run a named config',
+        ' * and wait for it.',
+        ' *',
+        ' * Longer description that is not part of the summary.',
+        ' */',
+        'export async function runConfig<T extends string>(',
+        '  name: T,',
+        '  options: { dryRun?: boolean } = {}',
+        '): Promise<void> {',
+        '  await execute(name, options);',
+        '}'
+      ].join('\n'));
+
+      expect(symbol(result, 'runConfig')).toEqual({
+        name: 'runConfig',
+        type: 'function',
+        startLine: 7,
+        endLine: 12,
+        isExported: true,
+        signature: '<T extends string>(name: T, options: { dryRun?: boolean } = {}): Promise<void>',
+        doc: 'Run a named config and wait for it.',
+        file: '/project/src/file.ts'
+      });
+    });
+
+    it('should fold overloads into one symbol', () => {
+      const result = parse([
+        'export function format(value: string): string;',
+        'export function format(value: number): string;',
+        'export function format(value: unknown): string {',
+        '  return String(value);',
+        '}'
+      ].join('\n'));
+
+      const formats = result.symbols.filter((s) => s.name === 'format');
+      expect(formats).toHaveLength(1);
+      expect(formats[0]).toMatchObject({
+        startLine: 1,
+        endLine: 5,
+        isExported: true,
+        signature: '(value: string): string (+2 overloads)'
+      });
+    });
+
+    it('should index decorated, private and accessor class members', () => {
+      const result = parse([
+        '@Injectable()',
+        'export class UserService extends Base implements Service {',
+        '  @Get(\'/users\')',
+        '  async list(): Promise<User[]> {',
+        '    return [];',
+        '  }',
+        '',
+        '  private reset(): void {}',
+        '',
+        '  get count(): number {',
+        '    return 0;',
+        '  }',
+        '',
+        '  handle = (event: Event): void => {};',
+        '}'
+      ].join('\n'));
+
+      expect(symbol(result, 'UserService')).toMatchObject({
+        type: 'class',
+        startLine: 1,
+        endLine: 15,
+        isExported: true,
+        signature: 'extends Base implements Service'
+      });
+      expect(symbol(result, 'list')).toMatchObject({ type: 'method', startLine: 3, endLine: 6, signature: '(): Promise<User[]>', parent: 'UserService' });
+      expect(symbol(result, 'reset')).toMatchObject({ isExported: false });
+      expect(symbol(result, 'count')).toMatchObject({ type: 'property', startLine: 10, signature: 'number' });
+      expect(symbol(result, 'handle')).toMatchObject({ type: 'method', signature: '(event: Event): void' });
+    });
+
+    it('should index namespaces and their exported members', () => {
+      const result = parse([
+        'export namespace Geometry.Shapes {',
+        '  export interface Point { x: number }',
+        '  export const ORIGIN = { x: 0 };',
+        '  function helper(): void {}',
+        '}'
+      ].join('\n'));
+
+      expect(symbol(result, 'Geometry.Shapes')).toMatchObject({ type: 'namespace', startLine: 1, endLine: 5, isExported: true });
+      expect(symbol(result, 'Point')).toMatchObject({ type: 'interface', isExported: true, qualifiedName: 'Geometry.Shapes.Point' });
+      expect(symbol(result, 'ORIGIN')).toMatchObject({ type: 'const', isExported: true, parent: 'Geometry.Shapes' });
+      expect(symbol(result, 'helper')).toMatchObject({ type: 'function', isExported: false });
+    });
+
+    it('should handle default exports and export lists', () => {
+      const result = parse([
+        'function internal(): void {}',
+        'const handler = (req: Request): Response => respond(req);',
+        'export default function (): void {}',
+        'export { internal, handler as onRequest };'
+      ].join('\n'));
+
+      expect(symbol(result, 'internal')?.isExported).toBe(true);
+      expect(symbol(result, 'handler')).toMatchObject({ isExported: true, signature: '(req: Request): Response' });
+      expect(symbol(result, 'default')).toMatchObject({ type: 'function', isExported: true, startLine: 3 });
+    });
+  });
+
+  describe('imports', () => {
+    it('should parse multi-line, default, namespace, type-only and require imports', () => {
+      const result = parse([
+        'import React, {',
+        '  useState,',
+        '  useEffect as useMountEffect',
+        '} from \'react\';',
+        'import * as path from \'path\';',
+        'import type { Config } from \'./config\';',
+        'import { type A, type B } from \'./types\';',
+        'import \'./polyfills\';',
+        'const { readFileSync } = require(\'fs\');'
+      ].join('\n'));
+
+      expect(result.imports).toEqual([
+        { source: 'react', imported: ['React', 'useState', 'useEffect'], usedBy: [] },
+        { source: 'path', imported: ['* as path'], usedBy: [] },
+        { source: './config', imported: ['Config'], usedBy: [], typeOnly: true },
+        { source: './types', imported: ['A', 'B'], usedBy: [], typeOnly: true },
+        { source: './polyfills', imported: [], usedBy: [] },
+        { source: 'fs', imported: ['readFileSync'], usedBy: [] }
+      ]);
+    });
+
+    it('should record re-exports', () => {
+      const result = parse([
+        'export { runConfig, loadConfig as load } from \'./runner\';',
+        'export * from \'./utils\';',
+        'export * as errors from \'./errors\';',
+        'export type { Config } from \'./config\';'
+      ].join('\n'));
+
+      expect(result.imports).toEqual([
+        { source: './runner', imported: ['runConfig', 'loadConfig'], usedBy: [], reExport: true },
+        { source: './utils', imported: ['*'], usedBy: [], reExport: true },
+        { source: './errors', imported: ['* as errors'], usedBy: [], reExport: true },
+        { source: './config', imported: ['Config'], usedBy: [], reExport: true, typeOnly: true }
+      ]);
+    });
+
+    it('should record dynamic imports with literal specifiers', () => {
+      const result = parse([
+        'const KanbanPage = lazy(() => import(\'./pages/KanbanPage\'));',
+        'export async function load(name: string) {',
+        '  const { run } = await import(`./runners/node.js`);',
+        '  return import(name);',
+        '}'
+      ].join('\n'));
+
+      expect(result.imports).toEqual([
+        { source: './pages/KanbanPage', imported: [], usedBy: [], dynamic: true },
+        { source: './runners/node.js', imported: [], usedBy: [], dynamic: true }
+      ]);
+    });
+  });
+
+  describe('re-export chains', () => {
+    function addFile(index: Index, file: string, content: string): void {
+      const result = parse(content, file);
+      index.symbols.set(file, result.symbols);
+      index.imports.set(file, result.imports);
+      index.references.set(file, result.references ?? []);
+    }
+
+    it('should resolve references imported through barrel files', () => {
+      const index = createEmptyIndex();
+      addFile(index, '/project/src/runner/run.ts', 'export function runConfig(): void {}\n');
+      addFile(index, '/project/src/runner/index.ts', 'export { runConfig } from \'./run\';\n');
+      addFile(index, '/project/src/index.ts', 'export * from \'./runner/index\';\n');
+      addFile(index, '/project/src/cli.ts', 'import { runConfig } from \'./index\';\n\nfunction main(): void {\n  runConfig();\n}\n');
+
+      const references = findReferences(index, 'runConfig', '/project/src/runner/run.ts');
+      const graph = getCallGraph(index, 'main', 'callees', 1);
+
+      expect(references.map((r) => `${r.file}:${r.line}`)).toEqual(['/project/src/cli.ts:4']);
+      expect(graph?.callees?.map((node) => node.file)).toEqual(['/project/src/runner/run.ts']);
+    });
+  });
+
+  describe('parseFile()', () => {
+    let testDir: string;
+    let originalCwd: string;
+
+    beforeEach(() => {
+      originalCwd = process.cwd();
+      testDir = join(originalCwd, '.test-typescript-parser-' + Date.now());
+      mkdirSync(testDir, { recursive: true });
+      astFailure.enabled = false;
+    });
+
+    afterEach(() => {
+      astFailure.enabled = false;
+      process.chdir(originalCwd);
+      if (existsSync(testDir)) {
+        rmSync(testDir, { recursive: true, force: true, maxRetries: 3, retryDelay: 100 });
+      }
+    });
+
+    it('should use the compiler API parser for TypeScript files', () => {
+      const file = join(testDir, 'app.ts');
+      writeFileSync(file, 'export function start(\n  port: number\n): void {\n}\n');
+
+      const result = parseFile(file);
+
+      expect(result.symbols[0]).toMatchObject({ name: 'start', endLine: 4, signature: '(port: number): void' });
+    });
+
+    it('should fall back to the regex parser when the compiler API parser fails', () => {
+      const file = join(testDir, 'app.ts');
+      writeFileSync(file, 'export function start(port: number) {\n}\n');
+      astFailure.enabled = true;
+
+      const result = parseFile(file);
+
+      expect(result.symbols[0]).toMatchObject({ name: 'start', startLine: 1, endLine: 1, signature: '(port: number)' });
+    });
+  });
+});
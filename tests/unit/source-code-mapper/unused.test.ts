@@ -0,0 +1,141 @@
+/**
+ * Unused code report tests for Source-code-mapper
+ * Tests entry point discovery, unused exports through barrels and default imports, orphan
+ * files, unused imports, the allowlist and the scm.yaml config
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { findEntryPoints, findUnused } from '../../../src/source-code-mapper/services/unused.js';
+import { resolveIndexImports } from '../../../src/source-code-mapper/services/resolver.js';
+import { parseFile } from '../../../src/source-code-mapper/services/parser.js';
+import { loadScmConfig } from '../../../src/source-code-mapper/core/config.js';
+import { createEmptyIndex } from '../../../src/source-code-mapper/core/storage.js';
+import type { Index } from '../../../src/source-code-mapper/types.js';
+
+describe('Source-code-mapper Unused Code', () => {
+  let testDir: string;
+  let files: string[];
+
+  const write = (path: string, content = ''): void => {
+    const file = join(testDir, path);
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, content);
+    if (/\.[jt]sx?$/.test(file)) {
+      files.push(file);
+    }
+  };
+
+  const buildIndex = (): Index => {
+    const index = createEmptyIndex();
+    for (const file of files) {
+      const result = parseFile(file);
+      index.symbols.set(file, result.symbols);
+      index.imports.set(file, result.imports);
+      index.references.set(file, result.references ?? []);
+    }
+    resolveIndexImports(index);
+    return index;
+  };
+
+  const path = (relativePath: string): string => join(testDir, relativePath);
+
+  beforeEach(() => {
+    testDir = join(process.cwd(), '.test-scm-unused-' + Date.now());
+    files = [];
+    mkdirSync(testDir, { recursive: true });
+
+    write('package.json', JSON.stringify({ name: 'demo', bin: { demo: './dist/cli.js' }, exports: { '.': './dist/api.js' } }));
+    write('src/cli.ts', [
+      "import { run } from './commands/index.js';",
+      "import { unusedHelper } from './util.js';",
+      'run();'
+    ].join('\n'));
+    write('src/api.ts', 'export function publicApi(): void {}');
+    write('src/commands/index.ts', "export * from './run.js';");
+    write('src/commands/run.ts', [
+      "import format from './format.js';",
+      'export function run(): void { console.log(format()); }',
+      'export function neverCalled(): void { run(); }'
+    ].join('\n'));
+    write('src/commands/format.ts', 'export default function format(): string { return ""; }');
+    write('src/util.ts', [
+      'export function unusedHelper(): number { return 1; }',
+      'export const LIMIT = 3;'
+    ].join('\n'));
+    write('src/orphan.ts', 'export function orphaned(): void {}');
+    write('src/pages/lazy.ts', 'export function lazyPage(): void {}');
+    write('src/loader.ts', "export async function load(): Promise<unknown> { return import('./pages/lazy.js'); }");
+    write('tests/run.test.ts', "import { run } from '../src/commands/run.js';\nrun();");
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true, maxRetries: 3, retryDelay: 100 });
+    }
+  });
+
+  it('should find entry points from package.json, mapping build output back to sources', () => {
+    write('.mcp.json', JSON.stringify({ mcpServers: { demo: { args: ['node_modules/demo/dist/loader.js'] } } }));
+
+    expect(findEntryPoints(buildIndex(), { projectRoot: testDir })).toEqual([
+      path('src/api.ts'),
+      path('src/cli.ts'),
+      path('src/loader.ts')
+    ]);
+  });
+
+  it('should report exports nothing imports, following barrels and default imports', () => {
+    const report = findUnused(buildIndex(), { projectRoot: testDir });
+    const unused = report.unusedExports.map((entry) => `${entry.name}:${entry.usedInFile}`);
+
+    expect(unused).toEqual(['neverCalled:false', 'load:false', 'orphaned:false', 'LIMIT:false']);
+  });
+
+  it('should report files unreachable from the entry points, except tests', () => {
+    const report = findUnused(buildIndex(), { projectRoot: testDir });
+
+    expect(report.orphanFiles).toEqual([path('src/loader.ts'), path('src/orphan.ts'), path('src/pages/lazy.ts')]);
+  });
+
+  it('should treat dynamically imported modules as fully used and reachable', () => {
+    const report = findUnused(buildIndex(), { projectRoot: testDir, entryPoints: ['src/loader.ts'] });
+
+    expect(report.orphanFiles).toEqual([path('src/orphan.ts')]);
+    expect(report.unusedExports.map((entry) => entry.name)).not.toContain('lazyPage');
+  });
+
+  it('should report unused imports, following aliases', () => {
+    write('src/aliased.ts', [
+      "import { run as start, neverCalled } from './commands/run.js';",
+      "import { LIMIT } from './util.js';",
+      'start(LIMIT);'
+    ].join('\n'));
+
+    const report = findUnused(buildIndex(), { projectRoot: testDir });
+
+    expect(report.unusedImports).toEqual([
+      { file: path('src/aliased.ts'), source: './commands/run.js', name: 'neverCalled' },
+      { file: path('src/cli.ts'), source: './util.js', name: 'unusedHelper' }
+    ]);
+  });
+
+  it('should leave out allowlisted files and symbols', () => {
+    const report = findUnused(buildIndex(), { projectRoot: testDir, allow: ['src/orphan.ts', 'src/commands/*.ts#never*'] });
+
+    expect(report.unusedExports.map((entry) => entry.name)).toEqual(['load', 'LIMIT']);
+    expect(report.orphanFiles).toEqual([path('src/loader.ts'), path('src/pages/lazy.ts')]);
+    expect(report.allowed).toBe(3);
+  });
+
+  it('should load and validate cc-devtools/scm.yaml', () => {
+    expect(loadScmConfig(testDir)).toEqual({});
+
+    write('cc-devtools/scm.yaml', 'unused:\n  entry_points:\n    - src/loader.ts\n  allow:\n    - "src/api.ts"\n');
+    expect(loadScmConfig(testDir)).toEqual({ unused: { entry_points: ['src/loader.ts'], allow: ['src/api.ts'] } });
+
+    write('cc-devtools/scm.yaml', 'unused:\n  allow: src/api.ts\n');
+    expect(() => loadScmConfig(testDir)).toThrow('unused.allow must be a list of strings');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the Kanban API routes
+ * Tests that a status change is validated against the item as the same request leaves it
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { join } from 'path';
+import { existsSync, mkdirSync, rmSync } from 'fs';
+import express from 'express';
+import { readConfig, readStory, saveStory, updateConfig } from '../../../src/kanban/services/storage.js';
+import { kanbanRouter } from '../../../src/web/server/routes/kanban.routes.js';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+describe('Kanban Routes (Unit)', () => {
+  const originalCwd = process.cwd();
+  let testDir: string;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    testDir = join(originalCwd, 'test-tmp-kanban-routes-' + Date.now());
+    mkdirSync(join(testDir, 'cc-devtools'), { recursive: true });
+    process.chdir(testDir);
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/kanban', kanbanRouter);
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/kanban`;
+
+    const config = await readConfig();
+    await updateConfig({
+      rules: [
+        { type: 'required_field', status: 'in_progress', field: 'effort_estimation_hours' },
+        { type: 'required_field', status: 'done', field: 'implementation_notes', applies_to: 'subtask' },
+      ],
+      workflow_rules: { ...config.workflow_rules, subtasks_require_story_in_progress: false },
+    });
+    await saveStory({
+      id: 'MVP-001',
+      title: 'Login',
+      status: 'todo',
+      phase: 'MVP',
+      subtasks: [{ id: 'MVP-001-1', title: 'Form', status: 'in_progress' }],
+    }, { source: 'cli' });
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    process.chdir(originalCwd);
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true, maxRetries: 3, retryDelay: 100 });
+    }
+  });
+
+  const put = (path: string, body: unknown): Promise<globalThis.Response> =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  it('should accept a story update that sets a required field together with the status', async () => {
+    const rejected = await put('/stories/MVP-001', { status: 'in_progress' });
+    expect(rejected.status).toBe(400);
+
+    const response = await put('/stories/MVP-001', { status: 'in_progress', effort_estimation_hours: 5 });
+
+    expect(response.status).toBe(200);
+    expect(await readStory('MVP-001')).toMatchObject({ status: 'in_progress', effort_estimation_hours: 5 });
+  });
+
+  it('should accept a subtask update that sets a required field together with the status', async () => {
+    const rejected = await put('/subtasks/MVP-001-1', { status: 'done' });
+    expect(rejected.status).toBe(400);
+
+    const response = await put('/subtasks/MVP-001-1', { status: 'done', implementation_notes: 'Added the form' });
+
+    expect(response.status).toBe(200);
+    expect((await readStory('MVP-001'))?.subtasks?.[0]).toMatchObject({ status: 'done', implementation_notes: 'Added the form' });
+  });
+
+  it('should check dependencies edited in the same request', async () => {
+    const story = await readStory('MVP-001');
+    await saveStory({
+      ...story!,
+      subtasks: [...story!.subtasks!, { id: 'MVP-001-2', title: 'Api', status: 'todo', dependent_upon: ['MVP-001-1'] }],
+    }, { source: 'cli' });
+
+    const rejected = await put('/subtasks/MVP-001-2', { status: 'in_progress' });
+    expect(rejected.status).toBe(400);
+
+    const response = await put('/subtasks/MVP-001-2', { status: 'in_progress', dependent_upon: [] });
+
+    expect(response.status).toBe(200);
+  });
+});